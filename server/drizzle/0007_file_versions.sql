@@ -0,0 +1,41 @@
+-- 0007_file_versions.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. File version history: archived versions of a file keep
+-- their storage pointers and wrapped file key; the files row always holds the current one.
+BEGIN;
+
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS "current_version" integer DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.file_versions (
+    id serial PRIMARY KEY,
+    file_id integer NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    version_number integer NOT NULL,
+    storage_provider text NOT NULL,
+    obsideo_key text,
+    jackal_fid text,
+    merkle_hash text,
+    jackal_filename text,
+    file_key_encrypted bytea NOT NULL,
+    file_key_nonce bytea NOT NULL,
+    file_size bigint NOT NULL,
+    is_chunked integer DEFAULT 0,
+    chunk_count integer DEFAULT 0,
+    created_at timestamp without time zone,
+    archived_at timestamp without time zone DEFAULT now(),
+    CONSTRAINT file_versions_file_id_version_number_unique UNIQUE (file_id, version_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.file_version_chunks (
+    id serial PRIMARY KEY,
+    version_id integer NOT NULL REFERENCES public.file_versions(id) ON DELETE CASCADE,
+    chunk_index integer NOT NULL,
+    jackal_merkle text,
+    obsideo_key text,
+    size integer NOT NULL,
+    nonce bytea NOT NULL,
+    CONSTRAINT file_version_chunks_version_id_chunk_index_unique UNIQUE (version_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS file_versions_file_id_idx ON public.file_versions USING btree (file_id);
+
+COMMIT;
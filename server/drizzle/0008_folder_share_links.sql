@@ -0,0 +1,39 @@
+-- 0008_folder_share_links.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Read-only folder share links (/s/f/:token): keys are wrapped
+-- with a link key carried in the URL fragment; entries snapshot the shared subtree.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.folder_share_links (
+    id serial PRIMARY KEY,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    folder_id integer NOT NULL REFERENCES public.folders(id) ON DELETE CASCADE,
+    token text NOT NULL,
+    link_folder_key_encrypted bytea NOT NULL,
+    link_folder_key_nonce bytea NOT NULL,
+    host_link_key_encrypted bytea NOT NULL,
+    host_link_key_nonce bytea NOT NULL,
+    encrypted_folder_name text NOT NULL,
+    password_hash text,
+    max_downloads integer,
+    download_count integer DEFAULT 0 NOT NULL,
+    expires_at timestamp without time zone,
+    revoked_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT folder_share_links_token_unique UNIQUE (token)
+);
+
+CREATE TABLE IF NOT EXISTS public.folder_share_entries (
+    id serial PRIMARY KEY,
+    share_id integer NOT NULL REFERENCES public.folder_share_links(id) ON DELETE CASCADE,
+    folder_id integer REFERENCES public.folders(id) ON DELETE CASCADE,
+    file_id integer REFERENCES public.files(id) ON DELETE CASCADE,
+    parent_folder_id integer NOT NULL,
+    file_key_encrypted bytea,
+    file_key_nonce bytea,
+    encrypted_meta text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS folder_share_links_user_id_idx ON public.folder_share_links USING btree (user_id);
+CREATE INDEX IF NOT EXISTS folder_share_entries_share_id_idx ON public.folder_share_entries USING btree (share_id);
+
+COMMIT;
@@ -0,0 +1,43 @@
+-- 0009_file_share_links.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Multiple share links per file, each with its own password,
+-- expiry, download cap and slug. Existing links on files.share_* are copied over (the
+-- legacy columns are left in place) and their audit rows re-pointed at the new link ids.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.file_share_links (
+    id serial PRIMARY KEY,
+    file_id integer NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    token text NOT NULL,
+    custom_slug text,
+    label text,
+    password_hash text,
+    max_downloads integer,
+    download_count integer DEFAULT 0 NOT NULL,
+    expires_at timestamp without time zone,
+    revoked_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT file_share_links_token_unique UNIQUE (token),
+    CONSTRAINT file_share_links_custom_slug_unique UNIQUE (custom_slug)
+);
+
+CREATE INDEX IF NOT EXISTS file_share_links_file_id_idx ON public.file_share_links USING btree (file_id);
+CREATE INDEX IF NOT EXISTS file_share_links_user_id_idx ON public.file_share_links USING btree (user_id);
+
+-- Only links not copied yet are moved, so re-running re-points nothing twice
+WITH moved AS (
+    INSERT INTO public.file_share_links (file_id, user_id, token, custom_slug, password_hash, max_downloads, download_count, expires_at, created_at)
+    SELECT f.id, f.user_id, f.share_token, f.share_custom_slug, f.share_password_hash, f.share_max_downloads,
+           f.share_download_count, f.share_expires_at, COALESCE(f.created_at, now())
+    FROM public.files f
+    WHERE f.share_token IS NOT NULL
+      AND f.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.file_share_links l WHERE l.token = f.share_token)
+    RETURNING id, file_id
+)
+UPDATE public.share_audit_log a
+SET share_id = moved.id
+FROM moved
+WHERE a.share_type = 'standard_link' AND a.share_id = moved.file_id;
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- 0010_storage_migrations.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Tracks background copies of files between storage providers
+-- (replaces the one-off scripts/migrate-jackal-to-obsideo.ts for new moves).
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.storage_migrations (
+    id serial PRIMARY KEY,
+    source_provider text NOT NULL,
+    target_provider text NOT NULL,
+    status text DEFAULT 'running' NOT NULL,
+    total_files integer DEFAULT 0 NOT NULL,
+    processed_files integer DEFAULT 0 NOT NULL,
+    migrated_files integer DEFAULT 0 NOT NULL,
+    failed_files integer DEFAULT 0 NOT NULL,
+    bytes_moved bigint DEFAULT 0 NOT NULL,
+    cursor_file_id integer DEFAULT 0 NOT NULL,
+    last_error text,
+    created_by integer REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    updated_at timestamp without time zone DEFAULT now() NOT NULL,
+    completed_at timestamp without time zone
+);
+
+-- The runner walks files of the source provider in id order
+CREATE INDEX IF NOT EXISTS files_storage_provider_idx ON public.files USING btree (storage_provider, id);
+
+COMMIT;
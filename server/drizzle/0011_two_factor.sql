@@ -0,0 +1,36 @@
+-- 0011_two_factor.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Second factors for login: TOTP, one-time backup codes and
+-- WebAuthn/passkey credentials.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.user_totp (
+    user_id integer PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    secret_encrypted text NOT NULL,
+    last_used_step integer DEFAULT 0 NOT NULL,
+    enabled_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.two_factor_backup_codes (
+    id serial PRIMARY KEY,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    code_hash text NOT NULL,
+    used_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS two_factor_backup_codes_user_id_idx ON public.two_factor_backup_codes USING btree (user_id);
+
+CREATE TABLE IF NOT EXISTS public.webauthn_credentials (
+    id serial PRIMARY KEY,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    credential_id text NOT NULL UNIQUE,
+    public_key text NOT NULL,
+    sign_count bigint DEFAULT 0 NOT NULL,
+    name text NOT NULL,
+    transports text,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    last_used_at timestamp without time zone
+);
+CREATE INDEX IF NOT EXISTS webauthn_credentials_user_id_idx ON public.webauthn_credentials USING btree (user_id);
+
+COMMIT;
@@ -0,0 +1,8 @@
+-- 0012_session_devices.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Links each refresh-token family (one session) to the
+-- user_devices row that signed in, for the Settings → Sessions list.
+BEGIN;
+
+ALTER TABLE public.refresh_tokens ADD COLUMN IF NOT EXISTS "device_id" integer REFERENCES public.user_devices(id) ON DELETE SET NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- 0013_recovery_phrase.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Stores the master key wrapped under the user's recovery phrase
+-- key so a password reset can recover the vault without the raw key.
+BEGIN;
+
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS "recovery_encrypted_master_key" bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS "recovery_master_key_nonce" bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS "recovery_key_created_at" timestamp;
+
+COMMIT;
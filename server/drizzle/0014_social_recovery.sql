@@ -0,0 +1,46 @@
+-- 0014_social_recovery.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Trusted-contact (k-of-n Shamir) recovery of the master key:
+-- account keypairs, the owner's split recovery envelope, trustee shares and recovery requests.
+BEGIN;
+
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS public_key bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS encrypted_private_key bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS private_key_nonce bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS social_recovery_threshold integer;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS social_recovery_encrypted_master_key bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS social_recovery_master_key_nonce bytea;
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS social_recovery_created_at timestamp without time zone;
+
+CREATE TABLE IF NOT EXISTS public.recovery_trustees (
+    id serial PRIMARY KEY,
+    owner_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    trustee_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    share_index integer NOT NULL,
+    encrypted_share bytea NOT NULL,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT recovery_trustees_owner_id_trustee_id_unique UNIQUE (owner_id, trustee_id)
+);
+CREATE INDEX IF NOT EXISTS recovery_trustees_trustee_id_idx ON public.recovery_trustees USING btree (trustee_id);
+
+CREATE TABLE IF NOT EXISTS public.recovery_requests (
+    id serial PRIMARY KEY,
+    owner_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    request_public_key bytea NOT NULL,
+    status text DEFAULT 'pending' NOT NULL,
+    expires_at timestamp without time zone NOT NULL,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    completed_at timestamp without time zone
+);
+CREATE INDEX IF NOT EXISTS recovery_requests_owner_id_idx ON public.recovery_requests USING btree (owner_id);
+
+CREATE TABLE IF NOT EXISTS public.recovery_approvals (
+    id serial PRIMARY KEY,
+    request_id integer NOT NULL REFERENCES public.recovery_requests(id) ON DELETE CASCADE,
+    trustee_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    decision text NOT NULL,
+    encrypted_share bytea,
+    created_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT recovery_approvals_request_id_trustee_id_unique UNIQUE (request_id, trustee_id)
+);
+
+COMMIT;
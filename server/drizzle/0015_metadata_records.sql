@@ -0,0 +1,21 @@
+-- 0015_metadata_records.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Per-item encrypted metadata records with a version-ordered change
+-- feed. Accounts move over one at a time (client-side, on next load); metadata_blob is untouched.
+BEGIN;
+
+ALTER TABLE public.user_crypto ADD COLUMN IF NOT EXISTS metadata_format integer DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.metadata_records (
+    id serial PRIMARY KEY,
+    user_id integer NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    item_type text NOT NULL,
+    item_id integer NOT NULL,
+    encrypted_record bytea,
+    record_nonce bytea,
+    version integer NOT NULL,
+    updated_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT metadata_records_user_id_item_type_item_id_unique UNIQUE (user_id, item_type, item_id)
+);
+CREATE INDEX IF NOT EXISTS metadata_records_user_id_version_idx ON public.metadata_records USING btree (user_id, version);
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- 0016_drop_zone_limits.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Per-zone upload limits for Drop Zones: file size cap, total byte
+-- budget, file count, allowed types and "close after N uploads", plus the reservation counters.
+BEGIN;
+
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS max_file_size_bytes bigint;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS max_total_bytes bigint;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS max_files integer;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS allowed_types text;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS close_after_uploads integer;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS bytes_reserved bigint DEFAULT 0 NOT NULL;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS uploads_reserved integer DEFAULT 0 NOT NULL;
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS closed_at timestamp without time zone;
+
+-- Existing zones start from what they have already received
+UPDATE public.drop_zones dz
+SET bytes_reserved = totals.bytes, uploads_reserved = totals.uploads
+FROM (
+    SELECT drop_zone_id, coalesce(sum(file_size), 0) AS bytes, count(*) AS uploads
+    FROM public.drop_zone_files
+    GROUP BY drop_zone_id
+) totals
+WHERE totals.drop_zone_id = dz.id AND dz.uploads_reserved = 0;
+
+COMMIT;
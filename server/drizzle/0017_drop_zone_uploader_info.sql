@@ -0,0 +1,20 @@
+-- 0017_drop_zone_uploader_info.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Optional uploader details form for Drop Zones. Answers are sealed to
+-- the zone's public key in the browser and stored per uploaded file with its submission session.
+BEGIN;
+
+ALTER TABLE public.drop_zones ADD COLUMN IF NOT EXISTS uploader_fields text;
+
+ALTER TABLE public.drop_zone_files ADD COLUMN IF NOT EXISTS file_id integer REFERENCES public.files(id) ON DELETE SET NULL;
+ALTER TABLE public.drop_zone_files ADD COLUMN IF NOT EXISTS upload_session_id text;
+ALTER TABLE public.drop_zone_files ADD COLUMN IF NOT EXISTS encrypted_uploader_info text;
+
+-- Earlier rows only recorded the storage key (files/<id>); link them and their sessions
+UPDATE public.drop_zone_files dzf
+SET file_id = f.id, upload_session_id = f.upload_session_id
+FROM public.files f
+WHERE dzf.file_id IS NULL
+  AND dzf.storage_key ~ '^files/[0-9]+(/|$)'
+  AND f.id = substring(dzf.storage_key from '^files/([0-9]+)')::integer;
+
+COMMIT;
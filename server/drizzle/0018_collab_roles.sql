@@ -0,0 +1,10 @@
+-- 0018_collab_roles.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Per-email roles for Collab Folder guests
+-- (viewer < contributor < editor < co-owner). Existing members become editors, which is
+-- everything a guest could do before; new invites default to contributor.
+BEGIN;
+
+ALTER TABLE public.collab_access_list ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'editor';
+ALTER TABLE public.collab_access_list ALTER COLUMN role SET DEFAULT 'contributor';
+
+COMMIT;
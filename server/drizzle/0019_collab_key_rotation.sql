@@ -0,0 +1,27 @@
+-- 0019_collab_key_rotation.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Collab key rotation: the pending key and per-item progress, so a
+-- rotation interrupted by a closed browser can resume, plus the new key sealed to each member
+-- who pinned the folder. At most one rotation per folder can be in progress.
+BEGIN;
+
+ALTER TABLE public.shared_with_me ADD COLUMN IF NOT EXISTS sealed_collab_key bytea;
+
+CREATE TABLE IF NOT EXISTS public.collab_key_rotations (
+    id serial PRIMARY KEY,
+    collab_id integer NOT NULL REFERENCES public.collab_folders(id) ON DELETE CASCADE,
+    host_encrypted_collab_key bytea NOT NULL,
+    host_collab_key_nonce bytea NOT NULL,
+    started_at timestamp without time zone DEFAULT now() NOT NULL,
+    completed_at timestamp without time zone
+);
+CREATE UNIQUE INDEX IF NOT EXISTS collab_key_rotations_active_idx ON public.collab_key_rotations USING btree (collab_id) WHERE completed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.collab_key_rotation_items (
+    id serial PRIMARY KEY,
+    rotation_id integer NOT NULL REFERENCES public.collab_key_rotations(id) ON DELETE CASCADE,
+    item_type text NOT NULL,
+    item_id integer NOT NULL,
+    CONSTRAINT collab_key_rotation_items_rotation_id_item_type_item_id_unique UNIQUE (rotation_id, item_type, item_id)
+);
+
+COMMIT;
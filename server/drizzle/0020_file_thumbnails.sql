@@ -0,0 +1,15 @@
+-- 0020_file_thumbnails.sql
+-- IDEMPOTENT, ADDITIVE-ONLY. Encrypted thumbnails generated by the uploading browser. The
+-- image is sealed with the file key, so the server only ever stores ciphertext.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.file_thumbnails (
+    id serial PRIMARY KEY,
+    file_id integer NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+    encrypted_thumbnail bytea NOT NULL,
+    thumbnail_nonce bytea NOT NULL,
+    updated_at timestamp without time zone DEFAULT now() NOT NULL,
+    CONSTRAINT file_thumbnails_file_id_unique UNIQUE (file_id)
+);
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- 0021_release_revoked_share_slugs.sql
+-- IDEMPOTENT. Revoking a file share link now clears its custom slug so the slug can be used
+-- again; this frees the slugs of links revoked before that.
+BEGIN;
+
+UPDATE public.file_share_links SET custom_slug = NULL
+WHERE revoked_at IS NOT NULL AND custom_slug IS NOT NULL;
+
+COMMIT;
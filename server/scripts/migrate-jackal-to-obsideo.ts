@@ -2,6 +2,8 @@
  * migrate-jackal-to-obsideo.ts
  *
  * One-shot migration script: moves all files from Jackal → Obsideo.
+ * Superseded by the resumable storage migration job (Admin → Storage Migrations,
+ * /api/admin/migrations), which handles any provider pair; kept for reference.
  *
  * Safety features:
  *  - Idempotent: skips files where migration_status IS NOT NULL.
@@ -1,7 +1,7 @@
 
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { users, files } from '../src/db/schema';
+import { users, files, fileVersions } from '../src/db/schema';
 import { eq, sql, and, isNotNull, isNull, ne } from 'drizzle-orm';
 import dotenv from 'dotenv';
 
@@ -37,7 +37,14 @@ async function syncAllQuotas() {
                 .from(files)
                 .where(and(eq(files.userId, user.id), isNotNull(files.deleted_at)));
 
-            const calculatedTotal = Number(activeFiles[0].totalSize || 0) + Number(trashFiles[0].totalSize || 0);
+            // Archived file versions also count against quota
+            const versions = await db.select({
+                totalSize: sql<number>`sum(${fileVersions.file_size})`
+            })
+                .from(fileVersions)
+                .where(eq(fileVersions.userId, user.id));
+
+            const calculatedTotal = Number(activeFiles[0].totalSize || 0) + Number(trashFiles[0].totalSize || 0) + Number(versions[0].totalSize || 0);
             const currentUsage = Number(user.storage_used_bytes || 0);
 
             // Allow for small floating point differences if needed, but here we expect exact byte match
@@ -20,6 +20,12 @@ const envSchema = z.object({
     // Security
     JWT_SECRET: z.string().min(1, "JWT_SECRET is required"),
 
+    // Two-factor auth
+    REQUIRE_ADMIN_2FA: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+    TOTP_ENCRYPTION_KEY: z.string().optional(), // falls back to a key derived from JWT_SECRET
+    WEBAUTHN_RP_ID: z.string().optional(),      // defaults to the FRONTEND_URL hostname
+    WEBAUTHN_RP_NAME: z.string().default('Nest'),
+
     // Jackal
     JACKAL_SEED: z.string().min(1, "JACKAL_SEED is required"),
     JACKAL_RPC_URL: z.string().url().default('https://rpc.jackalprotocol.com'),
@@ -52,7 +58,7 @@ const envSchema = z.object({
 
     // Storage
     DOWNLOAD_GATEWAY_URL: z.string().url().default('https://gateway.lazybird.io'),
-    STORAGE_PROVIDER: z.enum(['jackal', 'obsideo', 'local']).default('jackal'),
+    STORAGE_PROVIDER: z.enum(['jackal', 'obsideo', 's3', 'local']).default('jackal'),
 
     // Obsideo credentials (optional — only required when STORAGE_PROVIDER=obsideo)
     OBSIDEO_API_KEY: z.string().optional(),
@@ -68,6 +74,15 @@ const envSchema = z.object({
         return v;
     }),
 
+    // S3-compatible storage (optional — only required when STORAGE_PROVIDER=s3)
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_REGION: z.string().default('us-east-1'),
+    S3_BUCKET: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    // MinIO and Garage need path-style URLs (endpoint/bucket/key); set false for virtual-hosted AWS buckets
+    S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('true').transform(v => v === 'true'),
+
     // Monitoring
     SENTRY_DSN: z.string().optional(),
 });
@@ -65,3 +65,23 @@ export const getStorageQuota = (tier: string): number => {
             return PRICING.free.storage;
     }
 };
+
+// Archived file versions kept per file (the current version is not counted).
+// Older versions beyond the cap are pruned when a new version is uploaded.
+export const VERSION_RETENTION = {
+    free: 3,
+    pro: 10,
+    max: 30
+};
+
+export const getVersionRetention = (tier: string): number => {
+    switch (tier) {
+        case 'max':
+            return VERSION_RETENTION.max;
+        case 'pro':
+            return VERSION_RETENTION.pro;
+        case 'free':
+        default:
+            return VERSION_RETENTION.free;
+    }
+};
@@ -53,8 +53,23 @@ export const userCrypto = pgTable('user_crypto', {
     metadata_blob: bytea('metadata_blob').notNull(),
     metadata_nonce: bytea('metadata_nonce').notNull(),
     metadata_version: integer('metadata_version').default(1).notNull(), // Fix #5: Optimistic locking
+    // 1 = the whole tree in metadata_blob; 2 = one metadata_records row per item (blob kept only as the pre-migration copy)
+    metadata_format: integer('metadata_format').default(1).notNull(),
     encrypted_master_key: bytea('encrypted_master_key'),
     encrypted_master_key_nonce: bytea('encrypted_master_key_nonce'),
+    // Master key wrapped under the recovery phrase key (client-side); null when no phrase is set
+    recovery_encrypted_master_key: bytea('recovery_encrypted_master_key'),
+    recovery_master_key_nonce: bytea('recovery_master_key_nonce'),
+    recovery_key_created_at: timestamp('recovery_key_created_at'),
+    // Account keypair (X25519) that trusted-contact shares are sealed to; private half wrapped by the master key
+    public_key: bytea('public_key'),
+    encrypted_private_key: bytea('encrypted_private_key'),
+    private_key_nonce: bytea('private_key_nonce'),
+    // Social recovery: master key wrapped under a key split k-of-n across recovery_trustees
+    social_recovery_threshold: integer('social_recovery_threshold'),
+    social_recovery_encrypted_master_key: bytea('social_recovery_encrypted_master_key'),
+    social_recovery_master_key_nonce: bytea('social_recovery_master_key_nonce'),
+    social_recovery_created_at: timestamp('social_recovery_created_at'),
     created_at: timestamp('created_at').defaultNow(),
     updated_at: timestamp('updated_at').defaultNow(),
 });
@@ -71,6 +86,40 @@ export const userDevices = pgTable('user_devices', {
     unq: unique().on(table.userId, table.device_hash)
 }));
 
+// Second factors. The TOTP secret is stored AES-GCM encrypted (services/twoFactor.ts) and
+// only counts once enabled_at is set; last_used_step blocks replaying a code in its window.
+export const userTotp = pgTable('user_totp', {
+    userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+    secret_encrypted: text('secret_encrypted').notNull(),
+    last_used_step: integer('last_used_step').default(0).notNull(),
+    enabled_at: timestamp('enabled_at'),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const twoFactorBackupCodes = pgTable('two_factor_backup_codes', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    code_hash: text('code_hash').notNull(),
+    used_at: timestamp('used_at'),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    userIdx: index('two_factor_backup_codes_user_id_idx').on(table.userId),
+}));
+
+export const webauthnCredentials = pgTable('webauthn_credentials', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    credential_id: text('credential_id').unique().notNull(), // base64url, as the browser reports it
+    public_key: text('public_key').notNull(),                // SPKI DER, base64
+    sign_count: bigint('sign_count', { mode: 'number' }).default(0).notNull(),
+    name: text('name').notNull(),
+    transports: text('transports'),                          // JSON array, passed back as a hint
+    created_at: timestamp('created_at').defaultNow().notNull(),
+    last_used_at: timestamp('last_used_at'),
+}, (table) => ({
+    userIdx: index('webauthn_credentials_user_id_idx').on(table.userId),
+}));
+
 export const folders = pgTable('folders', {
     id: serial('id').primaryKey(),
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -121,7 +170,10 @@ export const files = pgTable('files', {
     is_chunked: integer('is_chunked').default(0),
     chunk_count: integer('chunk_count').default(0),
 
-    // Share Link
+    // Versioning (previous versions live in file_versions)
+    current_version: integer('current_version').default(1).notNull(),
+
+    // Legacy single share link, superseded by file_share_links (copied over by migration 0009)
     share_token: text('share_token').unique(),
     share_key_encrypted: bytea('share_key_encrypted'),
     share_key_nonce: bytea('share_key_nonce'),
@@ -148,6 +200,7 @@ export const files = pgTable('files', {
     userIdx: index('files_user_id_idx').on(table.userId),
     folderIdx: index('files_folder_id_idx').on(table.folderId),
     deletedIdx: index('files_deleted_at_idx').on(table.deleted_at),
+    providerIdx: index('files_storage_provider_idx').on(table.storage_provider, table.id),
 }));
 
 export const fileChunks = pgTable('file_chunks', {
@@ -169,6 +222,75 @@ export const fileChunks = pgTable('file_chunks', {
     unq: unique().on(table.fileId, table.chunk_index)
 }));
 
+// Archived (non-current) versions of a file. The current version always lives on the
+// files row itself; re-uploading snapshots it here and restoring swaps it back.
+export const fileVersions = pgTable('file_versions', {
+    id: serial('id').primaryKey(),
+    fileId: integer('file_id').notNull().references(() => files.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    version_number: integer('version_number').notNull(),
+
+    storage_provider: text('storage_provider').notNull(),
+    obsideo_key: text('obsideo_key'),
+    jackal_fid: text('jackal_fid'),
+    merkle_hash: text('merkle_hash'),
+    jackal_filename: text('jackal_filename'),
+
+    file_key_encrypted: bytea('file_key_encrypted').notNull(),
+    file_key_nonce: bytea('file_key_nonce').notNull(),
+    file_size: bigint('file_size', { mode: 'number' }).notNull(),
+    is_chunked: integer('is_chunked').default(0),
+    chunk_count: integer('chunk_count').default(0),
+
+    created_at: timestamp('created_at'),              // when this version was uploaded
+    archived_at: timestamp('archived_at').defaultNow(), // when it stopped being current
+}, (table) => ({
+    fileIdx: index('file_versions_file_id_idx').on(table.fileId),
+    unq: unique().on(table.fileId, table.version_number)
+}));
+
+export const fileVersionChunks = pgTable('file_version_chunks', {
+    id: serial('id').primaryKey(),
+    versionId: integer('version_id').notNull().references(() => fileVersions.id, { onDelete: 'cascade' }),
+    chunk_index: integer('chunk_index').notNull(),
+    jackal_merkle: text('jackal_merkle'),
+    obsideo_key: text('obsideo_key'),
+    size: integer('size').notNull(),
+    nonce: bytea('nonce').notNull(),
+}, (table) => ({
+    unq: unique().on(table.versionId, table.chunk_index)
+}));
+
+// Small preview image generated in the browser at upload time, encrypted with the file key.
+// One per file, of the current version; starting or restoring a version deletes it.
+export const fileThumbnails = pgTable('file_thumbnails', {
+    id: serial('id').primaryKey(),
+    fileId: integer('file_id').notNull().references(() => files.id, { onDelete: 'cascade' }).unique(),
+    encrypted_thumbnail: bytea('encrypted_thumbnail').notNull(),
+    thumbnail_nonce: bytea('thumbnail_nonce').notNull(),
+    updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Background copy of every file from one storage provider to another. Progress is
+// persisted per file, so a paused or interrupted run picks up after cursor_file_id.
+export const storageMigrations = pgTable('storage_migrations', {
+    id: serial('id').primaryKey(),
+    source_provider: text('source_provider').notNull(),
+    target_provider: text('target_provider').notNull(),
+    status: text('status').default('running').notNull(), // 'running' | 'paused' | 'completed' | 'failed'
+    total_files: integer('total_files').default(0).notNull(),
+    processed_files: integer('processed_files').default(0).notNull(),
+    migrated_files: integer('migrated_files').default(0).notNull(),
+    failed_files: integer('failed_files').default(0).notNull(),
+    bytes_moved: bigint('bytes_moved', { mode: 'number' }).default(0).notNull(),
+    cursor_file_id: integer('cursor_file_id').default(0).notNull(), // last file id processed
+    last_error: text('last_error'),
+    created_by: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+    updated_at: timestamp('updated_at').defaultNow().notNull(),
+    completed_at: timestamp('completed_at'),
+});
+
 export const graveyard = pgTable('graveyard', {
     id: serial('id').primaryKey(),
     original_file_id: integer('original_file_id'),
@@ -230,6 +352,7 @@ export const collabAccessList = pgTable('collab_access_list', {
     id: serial('id').primaryKey(),
     collabId: integer('collab_id').notNull().references(() => collabFolders.id, { onDelete: 'cascade' }),
     email: text('email').notNull(),
+    role: text('role').notNull().default('contributor'), // 'viewer' | 'contributor' | 'editor' | 'co-owner'
     added_at: timestamp('added_at').defaultNow().notNull(),
 }, (table) => ({
     unq: unique().on(table.collabId, table.email)
@@ -274,6 +397,20 @@ export const dropZones = pgTable('drop_zones', {
     custom_slug: text('custom_slug').unique(),
     expires_at: timestamp('expires_at'),
     revoked_at: timestamp('revoked_at'),
+    // Upload limits (null = unlimited). allowed_types is a JSON array of categories and
+    // extensions; the server never sees file types, so only the guest page can check it.
+    max_file_size_bytes: bigint('max_file_size_bytes', { mode: 'number' }),
+    max_total_bytes: bigint('max_total_bytes', { mode: 'number' }),
+    max_files: integer('max_files'),
+    allowed_types: text('allowed_types'),
+    close_after_uploads: integer('close_after_uploads'),
+    // Uploader details form: JSON object of field ('name' | 'email' | 'note') -> 'required' | 'optional'.
+    // Null means no form. Answers are sealed to drop_public_key, like filenames.
+    uploader_fields: text('uploader_fields'),
+    // Taken when an upload starts, so concurrent guests can't overshoot the limits
+    bytes_reserved: bigint('bytes_reserved', { mode: 'number' }).notNull().default(0),
+    uploads_reserved: integer('uploads_reserved').notNull().default(0),
+    closed_at: timestamp('closed_at'),
     created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
     userIdx: index('drop_zones_user_id_idx').on(table.userId),
@@ -286,6 +423,9 @@ export const dropZoneFiles = pgTable('drop_zone_files', {
     file_key_nonce: bytea('file_key_nonce').notNull(),
     storage_key: text('storage_key').notNull(),      // key on Obsideo/storage
     file_size: bigint('file_size', { mode: 'number' }).notNull(),
+    fileId: integer('file_id').references(() => files.id, { onDelete: 'set null' }),
+    upload_session_id: text('upload_session_id'),    // groups the files of one guest submission
+    encrypted_uploader_info: text('encrypted_uploader_info'), // JSON { name, email, note } sealed to drop_public_key (base64)
     uploaded_at: timestamp('uploaded_at').defaultNow().notNull(),
 });
 
@@ -295,15 +435,97 @@ export const sharedWithMe = pgTable('shared_with_me', {
     collabId: integer('collab_id').notNull().references(() => collabFolders.id, { onDelete: 'cascade' }),
     encrypted_collab_key: bytea('encrypted_collab_key').notNull(),   // collab_key re-enc with user's master_key
     collab_key_nonce: bytea('collab_key_nonce').notNull(),
+    // Set by a key rotation: the new collab_key sealed to the user's account public key.
+    // The client opens it, re-wraps it with the master key and clears it via add-to-nest.
+    sealed_collab_key: bytea('sealed_collab_key'),
     pinned_at: timestamp('pinned_at').defaultNow().notNull(),
 }, (table) => ({
     unq: unique().on(table.userId, table.collabId)
 }));
 
+// Host-driven collab key rotation (see services/collabKeyRotation.ts). The new key waits here,
+// wrapped by the host's master key, until every item in the folder has been re-keyed.
+export const collabKeyRotations = pgTable('collab_key_rotations', {
+    id: serial('id').primaryKey(),
+    collabId: integer('collab_id').notNull().references(() => collabFolders.id, { onDelete: 'cascade' }),
+    host_encrypted_collab_key: bytea('host_encrypted_collab_key').notNull(),
+    host_collab_key_nonce: bytea('host_collab_key_nonce').notNull(),
+    started_at: timestamp('started_at').defaultNow().notNull(),
+    completed_at: timestamp('completed_at'),
+}, (table) => ({
+    activeIdx: uniqueIndex('collab_key_rotations_active_idx').on(table.collabId).where(sql`completed_at IS NULL`),
+}));
+
+// Items already re-keyed by a rotation, so an interrupted rotation resumes where it stopped
+export const collabKeyRotationItems = pgTable('collab_key_rotation_items', {
+    id: serial('id').primaryKey(),
+    rotationId: integer('rotation_id').notNull().references(() => collabKeyRotations.id, { onDelete: 'cascade' }),
+    item_type: text('item_type').notNull(), // 'file' | 'version' | 'folder'
+    item_id: integer('item_id').notNull(),
+}, (table) => ({
+    unq: unique().on(table.rotationId, table.item_type, table.item_id)
+}));
+
+// Public links to a single file. A file can have any number of these (e.g. one per
+// recipient), each with its own policy; the file key itself only travels in the URL fragment.
+export const fileShareLinks = pgTable('file_share_links', {
+    id: serial('id').primaryKey(),
+    fileId: integer('file_id').notNull().references(() => files.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    token: text('token').notNull().unique(),           // public token in URL (/s/:token)
+    custom_slug: text('custom_slug').unique(),
+    label: text('label'),                              // owner's note for telling links apart, e.g. the recipient
+    password_hash: text('password_hash'),
+    max_downloads: integer('max_downloads'),
+    download_count: integer('download_count').notNull().default(0),
+    expires_at: timestamp('expires_at'),
+    revoked_at: timestamp('revoked_at'),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    fileIdx: index('file_share_links_file_id_idx').on(table.fileId),
+    userIdx: index('file_share_links_user_id_idx').on(table.userId),
+}));
+
+// Read-only folder share links. The folder key and every shared file key are wrapped
+// with a link key that only travels in the URL fragment (#lk=), never to the server.
+export const folderShareLinks = pgTable('folder_share_links', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    folderId: integer('folder_id').notNull().references(() => folders.id, { onDelete: 'cascade' }),
+    token: text('token').notNull().unique(),           // public token in URL (/s/f/:token)
+    link_folder_key_encrypted: bytea('link_folder_key_encrypted').notNull(),
+    link_folder_key_nonce: bytea('link_folder_key_nonce').notNull(),
+    host_link_key_encrypted: bytea('host_link_key_encrypted').notNull(), // link key wrapped with the owner's master key, to rebuild the URL
+    host_link_key_nonce: bytea('host_link_key_nonce').notNull(),
+    encrypted_folder_name: text('encrypted_folder_name').notNull(),      // JSON { encrypted, nonce } sealed with the link key
+    password_hash: text('password_hash'),
+    max_downloads: integer('max_downloads'),
+    download_count: integer('download_count').notNull().default(0),
+    expires_at: timestamp('expires_at'),
+    revoked_at: timestamp('revoked_at'),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    userIdx: index('folder_share_links_user_id_idx').on(table.userId),
+}));
+
+// One row per subfolder or file captured when the link was created
+export const folderShareEntries = pgTable('folder_share_entries', {
+    id: serial('id').primaryKey(),
+    shareId: integer('share_id').notNull().references(() => folderShareLinks.id, { onDelete: 'cascade' }),
+    folderId: integer('folder_id').references(() => folders.id, { onDelete: 'cascade' }), // set for subfolders
+    fileId: integer('file_id').references(() => files.id, { onDelete: 'cascade' }),       // set for files
+    parent_folder_id: integer('parent_folder_id').notNull(),   // shared root or one of its subfolders
+    file_key_encrypted: bytea('file_key_encrypted'),           // wrapped with the link key (files only)
+    file_key_nonce: bytea('file_key_nonce'),
+    encrypted_meta: text('encrypted_meta').notNull(),          // JSON { encrypted, nonce } of { name, mime_type }
+}, (table) => ({
+    shareIdx: index('folder_share_entries_share_id_idx').on(table.shareId),
+}));
+
 export const shareAuditLog = pgTable('share_audit_log', {
     id: serial('id').primaryKey(),
-    share_type: text('share_type').notNull(),          // 'standard_link' | 'drop_zone' | 'collab_folder'
-    share_id: integer('share_id').notNull(),       // id from the relevant share table
+    share_type: text('share_type').notNull(),          // 'standard_link' | 'drop_zone' | 'collab_folder' | 'folder_link'
+    share_id: integer('share_id').notNull(),       // id from the relevant share table (file_share_links.id for 'standard_link')
     action: text('action').notNull(),          // 'view' | 'download' | 'upload' | 'otp_sent' | ...
     actor: text('actor'),                   // email of guest, or user id of host (as string)
     filename: text('filename'),                   // exact filename where relevant (NOT a summary)
@@ -313,6 +535,7 @@ export const shareAuditLog = pgTable('share_audit_log', {
 export const refreshTokens = pgTable('refresh_tokens', {
     id: serial('id').primaryKey(),
     userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    deviceId: integer('device_id').references(() => userDevices.id, { onDelete: 'set null' }), // device that signed in; one row per session
     token: text('token').unique().notNull(),
     previousToken: text('previous_token'),
     rotatedAt: timestamp('rotated_at'),
@@ -323,6 +546,61 @@ export const refreshTokens = pgTable('refresh_tokens', {
     prevTokenIdx: index('refresh_tokens_previous_token_idx').on(table.previousToken), // grace-period lookup
 }));
 
+// One Shamir share of an owner's social recovery key, sealed to the trustee's account public key.
+export const recoveryTrustees = pgTable('recovery_trustees', {
+    id: serial('id').primaryKey(),
+    ownerId: integer('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    trusteeId: integer('trustee_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    share_index: integer('share_index').notNull(),
+    encrypted_share: bytea('encrypted_share').notNull(),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    unq: unique().on(table.ownerId, table.trusteeId),
+    trusteeIdx: index('recovery_trustees_trustee_id_idx').on(table.trusteeId),
+}));
+
+// A locked-out owner asking their trustees for shares. Approved shares are re-sealed to the
+// request's one-time public key, whose private half only the requesting browser holds.
+export const recoveryRequests = pgTable('recovery_requests', {
+    id: serial('id').primaryKey(),
+    ownerId: integer('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    request_public_key: bytea('request_public_key').notNull(),
+    status: text('status').default('pending').notNull(), // 'pending' | 'completed' | 'cancelled'
+    expires_at: timestamp('expires_at').notNull(),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+    completed_at: timestamp('completed_at'),
+}, (table) => ({
+    ownerIdx: index('recovery_requests_owner_id_idx').on(table.ownerId),
+}));
+
+export const recoveryApprovals = pgTable('recovery_approvals', {
+    id: serial('id').primaryKey(),
+    requestId: integer('request_id').notNull().references(() => recoveryRequests.id, { onDelete: 'cascade' }),
+    trusteeId: integer('trustee_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    decision: text('decision').notNull(), // 'approved' | 'declined'
+    encrypted_share: bytea('encrypted_share'), // sealed to request_public_key; null when declined
+    created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    unq: unique().on(table.requestId, table.trusteeId),
+}));
+
+// Per-item metadata (format 2): each file/folder entry of the metadata tree encrypted on its own
+// with the master key. `version` is the user_crypto.metadata_version that last wrote the row, which
+// makes the table its own change feed; deletes keep the row with a null record as a tombstone.
+export const metadataRecords = pgTable('metadata_records', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    item_type: text('item_type').notNull(), // 'file' | 'folder' | 'root' (top-level keys other than files/folders)
+    item_id: integer('item_id').notNull(),
+    encrypted_record: bytea('encrypted_record'),
+    record_nonce: bytea('record_nonce'),
+    version: integer('version').notNull(),
+    updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+    unq: unique().on(table.userId, table.item_type, table.item_id),
+    userVersionIdx: index('metadata_records_user_id_version_idx').on(table.userId, table.version),
+}));
+
 // Dedup table for Stripe webhook idempotency: an event_id is recorded after it is
 // successfully processed, so at-least-once redeliveries / retries are skipped.
 export const processedStripeEvents = pgTable('processed_stripe_events', {
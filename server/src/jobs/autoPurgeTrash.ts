@@ -3,6 +3,7 @@ import { db } from '../db';
 import { files, fileChunks, graveyard, graveyardChunks, users, analyticsEvents, folders } from '../db/schema';
 import { eq, and, isNotNull, sql, lt, inArray } from 'drizzle-orm';
 import { getStorageProvider } from '../storage';
+import { purgeFileVersions } from '../services/fileVersions';
 import fs from 'fs';
 
 /**
@@ -102,6 +103,8 @@ export async function autoPurgeTrash() {
                     }
                 }
 
+                const versionBytes = await purgeFileVersions(file.id, 'auto_purge_30d');
+
                 // Pre-fetch chunks before they are cascade-deleted by the transaction
                 const diskChunks = await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id));
 
@@ -133,7 +136,7 @@ export async function autoPurgeTrash() {
                     await tx.delete(files).where(eq(files.id, file.id));
 
                     await tx.update(users)
-                        .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
+                        .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size + versionBytes})` })
                         .where(eq(users.id, file.userId));
                 });
 
@@ -158,7 +161,7 @@ export async function autoPurgeTrash() {
 
                 await db.insert(analyticsEvents).values({
                     type: 'prune',
-                    bytes: -file.file_size,
+                    bytes: -(file.file_size + versionBytes),
                     meta: `auto_purge_file_${file.id}`
                 });
 
@@ -3,6 +3,8 @@ import { AuthRequest } from './auth';
 import { db } from '../db';
 import { users } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { env } from '../config/env';
+import { getTwoFactorStatus } from '../services/twoFactor';
 
 export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user || !req.user.userId) return res.sendStatus(401);
@@ -16,11 +18,17 @@ export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFu
             .where(eq(users.id, req.user.userId))
             .limit(1);
 
-        if (user && user.role === 'admin') {
-            next();
-        } else {
-            res.status(403).json({ error: 'Admin access required' });
+        if (!user || user.role !== 'admin') {
+            return res.status(403).json({ error: 'Admin access required' });
         }
+
+        // With REQUIRE_ADMIN_2FA, admin routes stay closed until a second factor is enrolled
+        // (login itself then always asks for it)
+        if (env.REQUIRE_ADMIN_2FA && !(await getTwoFactorStatus(req.user.userId)).enabled) {
+            return res.status(403).json({ error: 'Enable two-factor authentication to use admin tools', twoFactorSetupRequired: true });
+        }
+
+        next();
     } catch (err) {
         res.status(500).json({ error: 'Internal server error' });
     }
@@ -3,7 +3,7 @@ import { db } from '../db';
 import { files, users, fileChunks, folders, graveyard, graveyardChunks, analyticsEvents } from '../db/schema';
 import { eq, and, isNull, sql, isNotNull, desc, count, sum } from 'drizzle-orm';
 import { PRICING } from '../config/pricing';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { requireAdmin } from '../middleware/admin';
 import os from 'os';
 import { getJackalHandler, uploadFileToJackal } from '../jackal';
@@ -12,7 +12,12 @@ import { withTimeout } from '../utils/promise';
 import logger from '../utils/logger';
 import fs from 'fs';
 import { uploadQueue } from '../utils/uploadQueue';
+import { resourceMonitor } from '../services/resourceMonitor';
 import { retryFileUpload, retryChunkUploads } from '../utils/retryHandler';
+import { chunkObjectKey } from '../services/fileVersions';
+import { storageMigrationRunner } from '../services/storageMigration';
+import { validate } from '../middleware/validate';
+import { startMigrationSchema, migrationIdSchema } from '../schemas/admin';
 
 const router = express.Router();
 
@@ -68,6 +73,11 @@ router.get('/system', authenticateToken, requireAdmin, async (req, res) => {
             },
             uptime: os.uptime(),
             load: os.loadavg(),
+            uploadQueue: {
+                queued: uploadQueue.getSize(),
+                active: uploadQueue.getActiveCount(),
+                maxConcurrent: resourceMonitor.getMaxConcurrent()
+            },
             database: {
                 totalFiles: Number(totalBlobs),
                 totalUsers: Number(totalUsers),
@@ -636,7 +646,8 @@ router.post('/chunks/:id/retry', authenticateToken, requireAdmin, async (req, re
         const provider = getStorageProvider();
 
         // 3. Upload
-        const objectKey = `files/${chunk.fileId}/chunks/${chunk.chunk_index}`;
+        const [parent] = await db.select({ current_version: files.current_version }).from(files).where(eq(files.id, chunk.fileId)).limit(1);
+        const objectKey = chunkObjectKey(chunk.fileId, chunk.chunk_index, parent?.current_version);
         const result = await provider.upload(chunk.local_path, objectKey);
 
         // 4. Update DB
@@ -1043,4 +1054,65 @@ router.delete('/graveyard/:id', authenticateToken, requireAdmin, async (req, res
     }
 });
 
+// ==========================================
+// STORAGE MIGRATIONS (move files between providers)
+// ==========================================
+
+router.get('/migrations', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+        const migrations = await storageMigrationRunner.list();
+        res.json({ migrations });
+    } catch (err: any) {
+        logger.error('[ADMIN-MIGRATIONS] Failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+router.get('/migrations/:id', authenticateToken, requireAdmin, validate(migrationIdSchema), async (req, res) => {
+    try {
+        const migration = await storageMigrationRunner.get(Number(req.params.id));
+        if (!migration) return res.status(404).json({ error: 'Migration not found' });
+        res.json({ migration });
+    } catch (err: any) {
+        logger.error('[ADMIN-MIGRATIONS] Failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+router.post('/migrations', authenticateToken, requireAdmin, validate(startMigrationSchema), async (req: AuthRequest, res) => {
+    try {
+        const { source_provider, target_provider } = req.body;
+        const open = await storageMigrationRunner.findOpen();
+        if (open) return res.status(409).json({ error: `Migration ${open.id} is still in progress; finish or resume it first` });
+
+        const migration = await storageMigrationRunner.create(source_provider, target_provider, req.user!.userId);
+        res.json({ success: true, migration });
+    } catch (err: any) {
+        logger.error('[ADMIN-MIGRATIONS-START] Failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+router.post('/migrations/:id/pause', authenticateToken, requireAdmin, validate(migrationIdSchema), async (req, res) => {
+    try {
+        const paused = await storageMigrationRunner.pause(Number(req.params.id));
+        if (!paused) return res.status(409).json({ error: 'Migration is not running' });
+        res.json({ success: true });
+    } catch (err: any) {
+        logger.error('[ADMIN-MIGRATIONS-PAUSE] Failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+router.post('/migrations/:id/resume', authenticateToken, requireAdmin, validate(migrationIdSchema), async (req, res) => {
+    try {
+        const resumed = await storageMigrationRunner.resume(Number(req.params.id));
+        if (!resumed) return res.status(409).json({ error: 'Migration is not paused' });
+        res.json({ success: true });
+    } catch (err: any) {
+        logger.error('[ADMIN-MIGRATIONS-RESUME] Failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
 export default router;
@@ -5,7 +5,7 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import fs from 'fs';
 import { db } from '../db';
-import { users, userCrypto, folders, files, graveyard, graveyardChunks, fileChunks, analyticsEvents, userDevices, refreshTokens } from '../db/schema';
+import { users, userCrypto, folders, files, graveyard, graveyardChunks, fileChunks, analyticsEvents, refreshTokens } from '../db/schema';
 import { eq, and, gt, sql, or } from 'drizzle-orm';
 
 import { validate } from '../middleware/validate';
@@ -14,8 +14,11 @@ import {
     migrateLegacySchema,
     loginSchema,
     forgotPasswordSchema,
-    resetPasswordSchema
+    resetPasswordSchema,
+    resetTokenSchema
 } from '../schemas/auth';
+import { loginTwoFactorSchema } from '../schemas/twoFactor';
+import { startSocialRecoverySchema } from '../schemas/socialRecovery';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import Stripe from 'stripe';
 
@@ -31,9 +34,27 @@ import {
     sendPasswordResetEmail,
     sendWelcomeEmail,
     sendPasswordResetConfirmation,
-    sendSecurityAlertEmail
+    sendSecurityAlertEmail,
+    sendRecoveryRequestEmail
 } from '../services/email';
 import { authLimiter } from '../middleware/rateLimiter';
+import { revokeUserFileShareLinks } from '../services/fileShareLinks';
+import { recordDevice, describeUserAgent } from '../services/sessions';
+import {
+    getSocialRecoveryStatus,
+    createRecoveryRequest,
+    getRecoveryRequestStatus,
+    completeRecoveryRequests,
+    clearAccountRecoveryKeys
+} from '../services/socialRecovery';
+import {
+    getTwoFactorStatus,
+    webAuthnLoginOptions,
+    signChallengeToken,
+    verifyChallengeToken,
+    verifySecondFactor
+} from '../services/twoFactor';
+import { resetMetadataRecords, METADATA_FORMAT_BLOB } from '../services/metadataRecords';
 
 const router = express.Router();
 const JWT_SECRET = env.JWT_SECRET;
@@ -47,6 +68,19 @@ const DUMMY_AUTH_HASH = bcrypt.hashSync('nonexistent-user-timing-equalizer', 12)
 // reset token. The raw token still goes in the emailed link; we hash on store + lookup.
 const hashToken = (t: string) => crypto.createHash('sha256').update(t).digest('hex');
 
+const findUserByResetToken = async (token: string) => {
+    const [user] = await db.select()
+        .from(users)
+        // Match the hashed token; also accept a legacy plaintext token still inside its
+        // 1h window (transition safety) so resets issued just before deploy still work.
+        .where(and(
+            or(eq(users.reset_token, hashToken(token)), eq(users.reset_token, token)),
+            gt(users.reset_token_expires, new Date())
+        ))
+        .limit(1);
+    return user;
+};
+
 // The strict auth brute-force limiter (10/15min per IP) must only guard
 // credential/abuse endpoints (login, signup, salt, password reset, etc.).
 // The routes below are normal recurring/session traffic — NOT brute-force
@@ -60,7 +94,9 @@ const hashToken = (t: string) => crypto.createHash('sha256').update(t).digest('h
 //               yields no security benefit but causes silent logouts under NAT
 //   /me       — fetched on load / session checks
 //   /logout   — recurring, no abuse value
-const AUTH_LIMITER_EXEMPT = new Set(['/metadata', '/refresh', '/me', '/logout']);
+// The social-recovery status check is polled while trustees respond; it is gated by the
+// 256-bit reset token, so the per-IP limiter adds nothing there.
+const AUTH_LIMITER_EXEMPT = new Set(['/metadata', '/refresh', '/me', '/logout', '/reset-password/social-recovery/status']);
 router.use((req, res, next) => {
     if (AUTH_LIMITER_EXEMPT.has(req.path)) return next();
     return authLimiter(req, res, next);
@@ -329,6 +365,87 @@ router.post('/migrate-legacy', validate(migrateLegacySchema), async (req: expres
 // LOGIN
 // ============================================================================
 
+type UserRow = typeof users.$inferSelect;
+type UserCryptoRow = typeof userCrypto.$inferSelect;
+
+// `sid` is the refresh_tokens row behind this access token, so /sessions can mark "this device"
+const signAccessToken = (user: Pick<UserRow, 'id' | 'email' | 'subscription_tier' | 'role'>, sessionId: number) =>
+    jwt.sign(
+        { userId: user.id, email: user.email, tier: user.subscription_tier, role: user.role, sid: sessionId },
+        JWT_SECRET,
+        { expiresIn: '15m' }
+    );
+
+// Final step of a login (directly, or after /login/2fa): issues the access + refresh
+// tokens, records the device and returns the wrapped keys so the client can unlock the vault.
+const completeLogin = async (
+    req: express.Request,
+    res: express.Response,
+    user: UserRow,
+    cryptoData: UserCryptoRow,
+    extra: Record<string, unknown> = {}
+) => {
+    // Update last accessed
+    await db.update(users)
+        .set({ last_accessed_at: new Date() })
+        .where(eq(users.id, user.id));
+
+    // Device Logging
+    const ip = req.ip || req.connection.remoteAddress || 'unknown';
+    const userAgent = req.headers['user-agent'] || 'unknown';
+    const { device, isNew: isNewDevice } = await recordDevice(user.id, ip, userAgent);
+
+    // Generate Long-lived Refresh Token (the session)
+    const refreshToken = crypto.randomBytes(40).toString('hex');
+    const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
+    const [session] = await db.insert(refreshTokens).values({
+        userId: user.id,
+        deviceId: device.id,
+        token: refreshToken,
+        expiresAt
+    }).returning({ id: refreshTokens.id });
+
+    // Generate JWT (Short-lived Access Token)
+    const token = signAccessToken(user, session.id);
+
+    logger.info(`[AUTH-LOGIN] ✅ Success: ${user.id}`);
+
+    // Security Alert: always for a new device, otherwise at most once per 24 hours.
+    // If they are active daily from a known device, we assume they know they are logging in.
+    const LAST_LOGIN_THRESHOLD = 24 * 60 * 60 * 1000; // 24 Hours
+    const lastSeen = user.last_accessed_at ? new Date(user.last_accessed_at).getTime() : 0;
+    const timeSinceLastLogin = Date.now() - lastSeen;
+
+    if (isNewDevice || timeSinceLastLogin > LAST_LOGIN_THRESHOLD) {
+        logger.info(`[AUTH-LOGIN] Mailing security alert (new device: ${isNewDevice}, last login: ${timeSinceLastLogin / 1000}s ago)`);
+        sendSecurityAlertEmail(user.email, { device: describeUserAgent(userAgent), ip })
+            .catch(err => logger.error('[AUTH-LOGIN] Failed to send security alert:', err));
+    }
+
+    res.json({
+        token,
+        refreshToken,
+        user: {
+            id: user.id,
+            email: user.email,
+            tier: user.role === 'admin' ? 'God Mode' : user.subscription_tier,
+            storageUsed: user.storage_used_bytes,
+            storageQuota: user.role === 'admin' ? 10 * 1024 * 1024 * 1024 * 1024 : user.storage_quota_bytes,
+            role: user.role
+        },
+        ...extra,
+        // Return keys so frontend can unlock vault
+        encryptedMasterKey: bufferToBase64(cryptoData.encrypted_master_key!),
+        encryptedMasterKeyNonce: bufferToBase64(cryptoData.encrypted_master_key_nonce!),
+        // Also sending metadata keys just in case, though frontend fetches them separately usually.
+        // Once migrated to records the blob is a stale copy, so leave it out.
+        ...(cryptoData.metadata_format === METADATA_FORMAT_BLOB && {
+            encryptedMetadata: bufferToBase64(cryptoData.metadata_blob),
+            encryptedMetadataNonce: bufferToBase64(cryptoData.metadata_nonce)
+        })
+    });
+};
+
 router.post('/login', validate(loginSchema), async (req: express.Request, res: express.Response) => {
     try {
         const { email, authHash } = req.body;
@@ -366,97 +483,59 @@ router.post('/login', validate(loginSchema), async (req: express.Request, res: e
             });
         }
 
-        // 4. Update last accessed
-        await db.update(users)
-            .set({ last_accessed_at: new Date() })
-            .where(eq(users.id, user.id));
+        // 4. Second factor: nothing is issued until it has been answered
+        const twoFactor = await getTwoFactorStatus(user.id);
+        if (twoFactor.enabled) {
+            const webauthn = twoFactor.webauthnCount > 0 ? await webAuthnLoginOptions(user.id) : null;
+            logger.info(`[AUTH-LOGIN] Second factor required for ${user.id}`);
+            return res.json({
+                twoFactorRequired: true,
+                twoFactorToken: signChallengeToken('login', user.id, webauthn?.challenge),
+                methods: twoFactor.methods,
+                webauthn
+            });
+        }
 
-        // 5. Generate JWT (Short-lived Access Token)
-        const token = jwt.sign(
-            {
-                userId: user.id,
-                email: user.email,
-                tier: user.subscription_tier,
-                role: user.role
-            },
-            JWT_SECRET,
-            { expiresIn: '15m' }
-        );
-
-        // Generate Long-lived Refresh Token
-        const refreshToken = crypto.randomBytes(40).toString('hex');
-        const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
-        await db.insert(refreshTokens).values({
-            userId: user.id,
-            token: refreshToken,
-            expiresAt
+        await completeLogin(req, res, user, cryptoData, {
+            twoFactorSetupRequired: env.REQUIRE_ADMIN_2FA && user.role === 'admin'
         });
 
-        logger.info(`[AUTH-LOGIN] ✅ Success: ${user.id}`);
-
-        // 6. Device Logging (Silent) & Security Alert (Throttled 24h)
-        const ip = req.ip || req.connection.remoteAddress || 'unknown';
-        const userAgent = req.headers['user-agent'] || 'unknown';
-        const deviceString = `${user.id}:${ip}:${userAgent}`;
-        const deviceHash = crypto.createHash('sha256').update(deviceString).digest('hex');
-
-        // Log device for audit trail (Silent - does not trigger email)
-        const [knownDevice] = await db.select().from(userDevices)
-            .where(and(
-                eq(userDevices.userId, user.id),
-                eq(userDevices.device_hash, deviceHash)
-            )).limit(1);
-
-        if (knownDevice) {
-            await db.update(userDevices)
-                .set({ last_seen_at: new Date() })
-                .where(eq(userDevices.id, knownDevice.id));
-        } else {
-            await db.insert(userDevices).values({
-                userId: user.id,
-                device_hash: deviceHash,
-                ip_address: ip as string,
-                user_agent: userAgent as string,
-            });
+    } catch (e) {
+        logger.error('[AUTH] ❌ Login failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/login/2fa', validate(loginTwoFactorSchema), async (req: express.Request, res: express.Response) => {
+    try {
+        const { twoFactorToken, method, code, assertion } = req.body;
+
+        const pending = verifyChallengeToken(twoFactorToken, 'login');
+        if (!pending) {
+            return res.status(401).json({ error: 'Sign-in expired. Please enter your password again.', twoFactorExpired: true });
         }
 
-        // SIMPLIFIED ALERT LOGIC: One email per 24 hours max
-        // If user hasn't logged in for > 24 hours, send a "New Login" alert.
-        // If they are active daily, we assume they know they are logging in.
-        const LAST_LOGIN_THRESHOLD = 24 * 60 * 60 * 1000; // 24 Hours
-        const lastSeen = user.last_accessed_at ? new Date(user.last_accessed_at).getTime() : 0;
-        const timeSinceLastLogin = Date.now() - lastSeen;
+        const [user] = await db.select().from(users).where(eq(users.id, pending.userId)).limit(1);
+        if (!user) return res.status(401).json({ error: 'Invalid credentials' });
+        if (user.is_banned) return res.status(403).json({ error: 'Account suspended' });
 
-        if (timeSinceLastLogin > LAST_LOGIN_THRESHOLD) {
-            logger.info(`[AUTH-LOGIN] Mailing security alert (Last login: ${timeSinceLastLogin / 1000}s ago)`);
-            sendSecurityAlertEmail(user.email).catch(err => logger.error('[AUTH-LOGIN] Failed to send security alert:', err));
+        const verified = await verifySecondFactor(user.id, pending.challenge, { method, code, assertion })
+            .catch((err: Error) => {
+                logger.warn(`[AUTH-LOGIN] Passkey assertion rejected for ${user.id}: ${err.message}`);
+                return false;
+            });
+        if (!verified) {
+            logger.warn(`[AUTH-LOGIN] Invalid second factor (${method}) for user ${user.id}`);
+            return res.status(401).json({ error: method === 'webauthn' ? 'Passkey could not be verified' : 'Invalid code' });
         }
 
-        // Fetch keys for response (we already checked existence in step 3)
-        // Re-using cryptoData from step 3 if available, or fetching if strictly needed
-        // Actually step 3 variable 'cryptoData' is available in this scope
+        const [cryptoData] = await db.select().from(userCrypto).where(eq(userCrypto.userId, user.id)).limit(1);
+        if (!cryptoData) return res.status(403).json({ error: 'Account requires security upgrade', needsMigration: true });
 
-        res.json({
-            token,
-            refreshToken,
-            user: {
-                id: user.id,
-                email: user.email,
-                tier: user.role === 'admin' ? 'God Mode' : user.subscription_tier,
-                storageUsed: user.storage_used_bytes,
-                storageQuota: user.role === 'admin' ? 10 * 1024 * 1024 * 1024 * 1024 : user.storage_quota_bytes,
-                role: user.role
-            },
-            // Return keys so frontend can unlock vault
-            encryptedMasterKey: bufferToBase64(cryptoData.encrypted_master_key!),
-            encryptedMasterKeyNonce: bufferToBase64(cryptoData.encrypted_master_key_nonce!),
-            // Also sending metadata keys just in case, though frontend fetches them separately usually
-            encryptedMetadata: bufferToBase64(cryptoData.metadata_blob),
-            encryptedMetadataNonce: bufferToBase64(cryptoData.metadata_nonce)
-        });
+        await completeLogin(req, res, user, cryptoData);
 
     } catch (e) {
-        logger.error('[AUTH] ❌ Login failed:', e);
+        logger.error('[AUTH] ❌ Second factor login failed:', e);
         res.status(500).json({ error: 'Server error' });
     }
 });
@@ -496,10 +575,7 @@ router.post('/refresh', async (req, res) => {
                 const [user] = await db.select().from(users).where(eq(users.id, storedToken.userId)).limit(1);
                 if (!user || user.is_banned) return res.status(401).json({ error: 'User invalid' });
 
-                const token = jwt.sign(
-                    { userId: user.id, email: user.email, tier: user.subscription_tier, role: user.role },
-                    JWT_SECRET, { expiresIn: '15m' }
-                );
+                const token = signAccessToken(user, storedToken.id);
                 // Return the already-rotated token
                 return res.json({ token, refreshToken: storedToken.token });
             } else {
@@ -519,10 +595,7 @@ router.post('/refresh', async (req, res) => {
         }
 
         // Issue new Access Token
-        const token = jwt.sign(
-            { userId: user.id, email: user.email, tier: user.subscription_tier, role: user.role },
-            JWT_SECRET, { expiresIn: '15m' }
-        );
+        const token = signAccessToken(user, storedToken.id);
 
         // Rotate Refresh Token
         const newRefreshToken = crypto.randomBytes(40).toString('hex');
@@ -596,17 +669,29 @@ router.get('/metadata', authenticateToken, async (req: AuthRequest, res) => {
         const [cryptoData] = await db.select({
             metadata_blob: userCrypto.metadata_blob,
             metadata_nonce: userCrypto.metadata_nonce,
-            metadata_version: userCrypto.metadata_version
+            metadata_version: userCrypto.metadata_version,
+            metadata_format: userCrypto.metadata_format
         }).from(userCrypto).where(eq(userCrypto.userId, req.user.userId)).limit(1);
 
         if (!cryptoData) {
             return res.json({ encryptedMetadata: null, encryptedMetadataNonce: null, metadata_version: 0 });
         }
 
+        // Migrated accounts read their tree from /metadata/changes instead
+        if (cryptoData.metadata_format !== METADATA_FORMAT_BLOB) {
+            return res.json({
+                encryptedMetadata: null,
+                encryptedMetadataNonce: null,
+                metadata_version: cryptoData.metadata_version,
+                metadata_format: cryptoData.metadata_format
+            });
+        }
+
         res.json({
             encryptedMetadata: bufferToBase64(cryptoData.metadata_blob),
             encryptedMetadataNonce: bufferToBase64(cryptoData.metadata_nonce),
-            metadata_version: cryptoData.metadata_version
+            metadata_version: cryptoData.metadata_version,
+            metadata_format: cryptoData.metadata_format
         });
     } catch (e) {
         logger.error('[AUTH-METADATA-GET] ❌ Failed:', e);
@@ -632,7 +717,9 @@ router.post('/metadata', authenticateToken, async (req: AuthRequest, res) => {
             .where(
                 and(
                     eq(userCrypto.userId, req.user.userId),
-                    eq(userCrypto.metadata_version, metadata_version)
+                    eq(userCrypto.metadata_version, metadata_version),
+                    // A tab still writing the blob after migration would be silently ignored otherwise
+                    eq(userCrypto.metadata_format, METADATA_FORMAT_BLOB)
                 )
             )
             .returning({ newVersion: userCrypto.metadata_version });
@@ -670,6 +757,73 @@ router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res)
     res.json({ message: 'If an account exists, instructions have been sent.' });
 });
 
+// The recovery-phrase envelope for a pending reset. The client unwraps it with the phrase and
+// re-wraps the master key under the new password; the token is only consumed by the reset itself.
+router.post('/reset-password/recovery-key', validate(resetTokenSchema), async (req, res) => {
+    try {
+        const user = await findUserByResetToken(req.body.token);
+        if (!user) return res.status(400).json({ error: 'Invalid or expired token' });
+
+        const [cryptoData] = await db.select({
+            encrypted: userCrypto.recovery_encrypted_master_key,
+            nonce: userCrypto.recovery_master_key_nonce
+        }).from(userCrypto).where(eq(userCrypto.userId, user.id)).limit(1);
+
+        if (!cryptoData?.encrypted || !cryptoData.nonce) {
+            return res.status(404).json({ error: 'No recovery phrase is set up for this account' });
+        }
+
+        res.json({
+            recoveryEncryptedMasterKey: bufferToBase64(cryptoData.encrypted),
+            recoveryMasterKeyNonce: bufferToBase64(cryptoData.nonce)
+        });
+    } catch (e) {
+        logger.error('[AUTH] ❌ Recovery key lookup failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Trusted-contact recovery. Starting a request keeps the reset link alive for as long as the
+// request, since trustees may take days to respond.
+router.post('/reset-password/social-recovery', validate(startSocialRecoverySchema), async (req, res) => {
+    try {
+        const user = await findUserByResetToken(req.body.token);
+        if (!user) return res.status(400).json({ error: 'Invalid or expired token' });
+
+        const status = await getSocialRecoveryStatus(user.id);
+        if (!status.enabled) return res.status(404).json({ error: 'No trusted contacts are set up for this account' });
+        if (!status.recoverable) return res.status(409).json({ error: 'Not enough trusted contacts remain to recover this account' });
+
+        const request = await createRecoveryRequest(user.id, req.body.requestPublicKey);
+        await db.update(users).set({ reset_token_expires: request.expires_at }).where(eq(users.id, user.id));
+
+        for (const trustee of status.trustees) {
+            sendRecoveryRequestEmail(trustee.email, user.email).catch(err => logger.error(`[AUTH] Failed to send recovery request email: ${err.message}`));
+        }
+        logger.info(`[AUTH] Social recovery request ${request.id} opened for user ${user.id}`);
+
+        res.json({ requestId: request.id, threshold: status.threshold, trusteeCount: status.trustees.length, expiresAt: request.expires_at });
+    } catch (e) {
+        logger.error('[AUTH] ❌ Social recovery start failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/reset-password/social-recovery/status', validate(resetTokenSchema), async (req, res) => {
+    try {
+        const user = await findUserByResetToken(req.body.token);
+        if (!user) return res.status(400).json({ error: 'Invalid or expired token' });
+
+        const status = await getRecoveryRequestStatus(user.id);
+        if (!status) return res.status(404).json({ error: 'No active recovery request' });
+
+        res.json(status);
+    } catch (e) {
+        logger.error('[AUTH] ❌ Social recovery status failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
 router.post('/reset-password', validate(resetPasswordSchema), async (req, res) => {
     const {
         token,
@@ -688,16 +842,7 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res) =
 
     try {
         // 1. Verify Token
-        const [user] = await db.select()
-            .from(users)
-            // Match the hashed token; also accept a legacy plaintext token still inside its
-            // 1h window (transition safety) so resets issued just before deploy still work.
-            .where(and(
-                or(eq(users.reset_token, hashToken(token)), eq(users.reset_token, token)),
-                gt(users.reset_token_expires, new Date())
-            ))
-            .limit(1);
-
+        const user = await findUserByResetToken(token);
         if (!user) return res.status(400).json({ error: 'Invalid or expired token' });
 
         // 2. Hash New AuthHash
@@ -707,8 +852,9 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res) =
         if (wipeData === true) {
             logger.warn(`[AUTH] ⚠️ Performing destructive password reset for user ${user.id} (${user.email})`);
 
-            // Invalidate all share tokens before deletion
+            // Invalidate all share links before deletion
             await db.update(files).set({ share_token: null }).where(eq(files.userId, user.id));
+            await revokeUserFileShareLinks(user.id);
 
             // 1. Archive to Graveyard and cleanup disk space
             const userFiles = await db.select().from(files).where(eq(files.userId, user.id));
@@ -803,6 +949,13 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res) =
             updated_at: new Date()
         };
 
+        // A wipe generates a new master key, so the old recovery envelope no longer opens it
+        if (wipeData) {
+            cryptoUpdate.recovery_encrypted_master_key = null;
+            cryptoUpdate.recovery_master_key_nonce = null;
+            cryptoUpdate.recovery_key_created_at = null;
+        }
+
         if (encryptedMetadata && encryptedMetadataNonce) {
             cryptoUpdate.metadata_blob = base64ToBuffer(encryptedMetadata);
             cryptoUpdate.metadata_nonce = base64ToBuffer(encryptedMetadataNonce);
@@ -812,6 +965,13 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res) =
             .set(cryptoUpdate)
             .where(eq(userCrypto.userId, user.id));
 
+        if (wipeData) {
+            await clearAccountRecoveryKeys(user.id);
+            // Records were sealed with the old master key; the fresh blob sent with the reset takes over
+            await resetMetadataRecords(user.id);
+        }
+        await completeRecoveryRequests(user.id);
+
         sendPasswordResetConfirmation(user.email).catch(err => logger.error(`[AUTH] Failed to send reset confirmation email: ${err.message}`));
 
         res.json({ message: 'Password reset successful' });
@@ -18,6 +18,14 @@ import { uploadQueue } from '../utils/uploadQueue';
 import { bufferToBase64, base64ToBuffer } from '../crypto/keyManagement';
 import { sendEmail } from '../services/email';
 import { collabOtpEmail } from '../services/email-templates';
+import { publishCollabEvent, disconnectCollabParticipants, issueLiveTicket } from '../services/collabLive';
+import { revokeFileShareLinks } from '../services/fileShareLinks';
+import { MAX_THUMBNAIL_BYTES, hasThumbnailSql, getThumbnail, saveThumbnail } from '../services/fileThumbnails';
+import { sendStoredObject, chunkPart, blobPart, countDownloadOnce } from '../services/objectStreaming';
+import {
+    getActiveRotation, isRotatingCollabKey, startRotation, countPendingItems, listPendingItems,
+    applyRekeyedItems, listRotationRecipients, completeRotation, RekeyedItem
+} from '../services/collabKeyRotation';
 
 const hostRouter = express.Router();
 const guestRouter = express.Router();
@@ -41,8 +49,36 @@ const upload = multer({
     limits: { fileSize: 10 * 1024 * 1024 * 1024 } // 10GB limit
 });
 
-// Helper to verify guest session token or logged in user collab access
-const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: string): Promise<{ collabId: number; email: string } | null> => {
+// Guest roles, weakest first. The host is always 'owner'.
+const COLLAB_ROLES = ['viewer', 'contributor', 'editor', 'co-owner'] as const;
+type GuestRole = typeof COLLAB_ROLES[number];
+type CollabRole = GuestRole | 'owner';
+const DEFAULT_COLLAB_ROLE: GuestRole = 'contributor';
+
+const isGuestRole = (value: unknown): value is GuestRole => COLLAB_ROLES.includes(value as GuestRole);
+
+// viewer: list and download · contributor: + upload and create folders
+// editor: + rename and delete · co-owner: + change other guests' roles
+const hasCollabRole = (role: CollabRole, required: GuestRole) =>
+    role === 'owner' || COLLAB_ROLES.indexOf(role) >= COLLAB_ROLES.indexOf(required);
+
+// { email: role } from a request body, lower-cased; null if any role is unknown
+const parseRoles = (value: unknown): Record<string, GuestRole> | null => {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) return null;
+    const roles: Record<string, GuestRole> = {};
+    for (const [email, role] of Object.entries(value)) {
+        if (!isGuestRole(role)) return null;
+        roles[email.trim().toLowerCase()] = role;
+    }
+    return roles;
+};
+
+// Resolves a guest session token or logged in user's JWT to their collab access
+const resolveCollabAccess = async (
+    collabTokenOrSlug: string,
+    { sessionToken, bearerToken }: { sessionToken?: string; bearerToken?: string }
+): Promise<{ collabId: number; email: string; role: CollabRole } | null> => {
     if (!collabTokenOrSlug) return null;
 
     try {
@@ -64,8 +100,7 @@ const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: strin
             return null;
         }
 
-        // 1. Check guest session token from x-collab-session header or query param
-        const sessionToken = (req.headers['x-collab-session'] as string) || (req.query.session_token as string);
+        // 1. Check guest session token
         if (sessionToken) {
             try {
                 const decoded = jwt.verify(sessionToken, env.JWT_SECRET, { algorithms: ['HS256'] }) as any;
@@ -82,7 +117,14 @@ const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: strin
                         .limit(1);
 
                     if (session && new Date(session.expires_at) >= new Date()) {
-                        return { collabId: collab.id, email: session.email };
+                        // Read the role on every request so a change by the host applies immediately
+                        const [access] = await db.select({ role: collabAccessList.role })
+                            .from(collabAccessList)
+                            .where(and(eq(collabAccessList.collabId, collab.id), eq(collabAccessList.email, session.email)))
+                            .limit(1);
+                        if (access) {
+                            return { collabId: collab.id, email: session.email, role: access.role as GuestRole };
+                        }
                     }
                 }
             } catch (err) {
@@ -90,16 +132,14 @@ const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: strin
             }
         }
 
-        // 2. Check standard JWT authorization header for logged in user
-        const authHeader = req.headers['authorization'];
-        const bearerToken = authHeader && authHeader.split(' ')[1];
+        // 2. Check standard JWT for logged in user
         if (bearerToken) {
             try {
                 const decoded = jwt.verify(bearerToken, env.JWT_SECRET, { algorithms: ['HS256'] }) as any;
                 if (decoded && decoded.userId) {
                     // Check if they are the owner/host
                     if (collab.userId === decoded.userId) {
-                        return { collabId: collab.id, email: decoded.email };
+                        return { collabId: collab.id, email: decoded.email, role: 'owner' };
                     }
                     // Check access list
                     const [access] = await db.select()
@@ -112,7 +152,7 @@ const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: strin
                         )
                         .limit(1);
                     if (access) {
-                        return { collabId: collab.id, email: decoded.email };
+                        return { collabId: collab.id, email: decoded.email, role: access.role as GuestRole };
                     }
                 }
             } catch (err) {
@@ -127,6 +167,16 @@ const verifyCollabAccess = async (req: express.Request, collabTokenOrSlug: strin
     }
 };
 
+// Helper to verify guest session token or logged in user collab access
+const verifyCollabAccess = (req: express.Request, collabTokenOrSlug: string) => {
+    const authHeader = req.headers['authorization'];
+    return resolveCollabAccess(collabTokenOrSlug, {
+        // Guest session from x-collab-session header or query param
+        sessionToken: (req.headers['x-collab-session'] as string) || (req.query.session_token as string),
+        bearerToken: authHeader && authHeader.split(' ')[1]
+    });
+};
+
 const getCollabFolderIds = async (collabRootFolderId: number): Promise<number[]> => {
     const descendants = await db.execute(sql`
         WITH RECURSIVE subfolders AS (
@@ -143,6 +193,18 @@ const getCollabFolderIds = async (collabRootFolderId: number): Promise<number[]>
     return folderIds;
 };
 
+const auditCollabDownload = async (collabId: number, actor: string, fileId: number): Promise<boolean> => {
+    await db.insert(shareAuditLog).values({
+        share_type: 'collab_folder',
+        share_id: collabId,
+        action: 'download',
+        actor,
+        filename: `file_${fileId}`,
+        timestamp: new Date()
+    });
+    return true;
+};
+
 // ============================================================================
 // HOST CLIENT ROUTES (Auth Required)
 // ============================================================================
@@ -160,6 +222,7 @@ hostRouter.get('/shared-with-me', authenticateToken, async (req: AuthRequest, re
             folder_id: collabFolders.folderId,
             encrypted_collab_key: sharedWithMe.encrypted_collab_key,
             collab_key_nonce: sharedWithMe.collab_key_nonce,
+            sealed_collab_key: sharedWithMe.sealed_collab_key,
             owner_email: users.email
         })
         .from(sharedWithMe)
@@ -176,6 +239,8 @@ hostRouter.get('/shared-with-me', authenticateToken, async (req: AuthRequest, re
                 folder_id: f.folder_id,
                 encrypted_collab_key: bufferToBase64(f.encrypted_collab_key),
                 collab_key_nonce: bufferToBase64(f.collab_key_nonce),
+                // Present after a key rotation until the client re-pins the new key
+                sealed_collab_key: f.sealed_collab_key ? bufferToBase64(f.sealed_collab_key) : null,
                 owner_email: f.owner_email
             }))
         });
@@ -193,6 +258,7 @@ hostRouter.post('/', authenticateToken, async (req: AuthRequest, res) => {
         name,
         folder_id,
         emails, // array of approved emails
+        roles, // optional { email: role }; others get the default role
         host_encrypted_collab_key,
         host_collab_key_nonce,
         link_encrypted_collab_key,
@@ -209,6 +275,9 @@ hostRouter.post('/', authenticateToken, async (req: AuthRequest, res) => {
         return res.status(400).json({ error: 'Missing required parameters' });
     }
 
+    const roleMap = parseRoles(roles);
+    if (!roleMap) return res.status(400).json({ error: 'Invalid collaborator role' });
+
     try {
         let pin_hash = null;
         if (require_pin && pin) {
@@ -269,7 +338,8 @@ hostRouter.post('/', authenticateToken, async (req: AuthRequest, res) => {
                 if (email && email.trim() !== '') {
                     await db.insert(collabAccessList).values({
                         collabId: newCollab.id,
-                        email: email.trim().toLowerCase()
+                        email: email.trim().toLowerCase(),
+                        role: roleMap[email.trim().toLowerCase()] ?? DEFAULT_COLLAB_ROLE
                     }).onConflictDoNothing();
 
                     // Log email added
@@ -382,6 +452,7 @@ hostRouter.post('/:id/add-to-nest', authenticateToken, async (req: AuthRequest,
             set: {
                 encrypted_collab_key: base64ToBuffer(encrypted_collab_key),
                 collab_key_nonce: base64ToBuffer(collab_key_nonce),
+                sealed_collab_key: null,
                 pinned_at: new Date()
             }
         });
@@ -552,11 +623,186 @@ hostRouter.get('/by-token/:token/keys', authenticateToken, async (req: AuthReque
     }
 });
 
+// 4.8 POST /api/collab-folders/:id/rotation - Start a collab key rotation (or resume the active one)
+hostRouter.post('/:id/rotation', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+    const { host_encrypted_collab_key, host_collab_key_nonce } = req.body;
+
+    if (!host_encrypted_collab_key || !host_collab_key_nonce) {
+        return res.status(400).json({ error: 'Missing encrypted key payload' });
+    }
+
+    try {
+        const [collab] = await db.select().from(collabFolders).where(and(eq(collabFolders.id, id), eq(collabFolders.userId, userId))).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab Folder not found or access denied' });
+
+        const rotation = await startRotation(id, base64ToBuffer(host_encrypted_collab_key), base64ToBuffer(host_collab_key_nonce));
+
+        res.json({
+            success: true,
+            rotation: {
+                id: rotation.id,
+                started_at: rotation.started_at,
+                host_encrypted_collab_key: bufferToBase64(rotation.host_encrypted_collab_key),
+                host_collab_key_nonce: bufferToBase64(rotation.host_collab_key_nonce)
+            }
+        });
+    } catch (error) {
+        logger.error('[COLLAB-ROTATION-START] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to start key rotation' });
+    }
+});
+
+// 4.9 GET /api/collab-folders/:id/rotation - Active rotation and the next batch of items to re-key
+hostRouter.get('/:id/rotation', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    try {
+        const [collab] = await db.select().from(collabFolders).where(and(eq(collabFolders.id, id), eq(collabFolders.userId, userId))).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab Folder not found or access denied' });
+
+        const rotation = await getActiveRotation(id);
+        if (!rotation) return res.json({ success: true, rotation: null });
+
+        const folderIds = await getCollabFolderIds(collab.folderId);
+        const [remaining, pending, recipients] = await Promise.all([
+            countPendingItems(rotation, collab, folderIds),
+            listPendingItems(rotation, collab, folderIds, limit),
+            listRotationRecipients(collab)
+        ]);
+
+        res.json({
+            success: true,
+            rotation: {
+                id: rotation.id,
+                started_at: rotation.started_at,
+                host_encrypted_collab_key: bufferToBase64(rotation.host_encrypted_collab_key),
+                host_collab_key_nonce: bufferToBase64(rotation.host_collab_key_nonce)
+            },
+            remaining,
+            files: pending.files.map(f => ({
+                id: f.id,
+                file_key_encrypted: bufferToBase64(f.file_key_encrypted),
+                file_key_nonce: bufferToBase64(f.file_key_nonce),
+                encrypted_filename: f.encrypted_filename,
+                encrypted_mime_type: f.encrypted_mime_type
+            })),
+            versions: pending.versions.map(v => ({
+                id: v.id,
+                file_key_encrypted: bufferToBase64(v.file_key_encrypted),
+                file_key_nonce: bufferToBase64(v.file_key_nonce)
+            })),
+            folders: pending.folders,
+            recipients: recipients.map(r => ({ user_id: r.user_id, email: r.email, public_key: bufferToBase64(r.public_key) }))
+        });
+    } catch (error) {
+        logger.error('[COLLAB-ROTATION-STATUS] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to load key rotation' });
+    }
+});
+
+// 4.10 POST /api/collab-folders/:id/rotation/items - Save a batch of re-keyed items
+hostRouter.post('/:id/rotation/items', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+    const { items } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > 600) {
+        return res.status(400).json({ error: 'Invalid item batch' });
+    }
+
+    let rekeyed: RekeyedItem[];
+    try {
+        rekeyed = items.map((item: any) => {
+            if (!['file', 'version', 'folder'].includes(item.type) || !Number.isInteger(item.id)) throw new Error('Invalid item');
+            return {
+                type: item.type,
+                id: item.id,
+                file_key_encrypted: item.file_key_encrypted ? base64ToBuffer(item.file_key_encrypted) : undefined,
+                file_key_nonce: item.file_key_nonce ? base64ToBuffer(item.file_key_nonce) : undefined,
+                encrypted_filename: item.encrypted_filename,
+                encrypted_mime_type: item.encrypted_mime_type,
+                encrypted_folder_name: item.encrypted_folder_name
+            };
+        });
+    } catch {
+        return res.status(400).json({ error: 'Malformed item batch' });
+    }
+
+    try {
+        const [collab] = await db.select().from(collabFolders).where(and(eq(collabFolders.id, id), eq(collabFolders.userId, userId))).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab Folder not found or access denied' });
+
+        const rotation = await getActiveRotation(id);
+        if (!rotation) return res.status(409).json({ error: 'No key rotation in progress' });
+
+        const folderIds = await getCollabFolderIds(collab.folderId);
+        const applied = await applyRekeyedItems(rotation, collab, folderIds, rekeyed);
+
+        res.json({ success: true, applied, remaining: await countPendingItems(rotation, collab, folderIds) });
+    } catch (error) {
+        logger.error('[COLLAB-ROTATION-ITEMS] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to save re-keyed items' });
+    }
+});
+
+// 4.11 POST /api/collab-folders/:id/rotation/complete - Switch to the new key once every item is re-keyed
+hostRouter.post('/:id/rotation/complete', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+    const { link_encrypted_collab_key, link_collab_key_nonce, shared_with_me } = req.body;
+
+    if (!link_encrypted_collab_key || !link_collab_key_nonce) {
+        return res.status(400).json({ error: 'Missing encrypted key payload' });
+    }
+
+    let link: { encrypted: Buffer; nonce: Buffer };
+    const sealedKeys = new Map<number, Buffer>();
+    try {
+        link = { encrypted: base64ToBuffer(link_encrypted_collab_key), nonce: base64ToBuffer(link_collab_key_nonce) };
+        for (const entry of Array.isArray(shared_with_me) ? shared_with_me : []) {
+            if (Number.isInteger(entry.user_id) && entry.sealed_collab_key) {
+                sealedKeys.set(entry.user_id, base64ToBuffer(entry.sealed_collab_key));
+            }
+        }
+    } catch {
+        return res.status(400).json({ error: 'Malformed encrypted key payload format' });
+    }
+
+    try {
+        const [collab] = await db.select().from(collabFolders).where(and(eq(collabFolders.id, id), eq(collabFolders.userId, userId))).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab Folder not found or access denied' });
+
+        const rotation = await getActiveRotation(id);
+        if (!rotation) return res.status(409).json({ error: 'No key rotation in progress' });
+
+        const folderIds = await getCollabFolderIds(collab.folderId);
+        const remaining = await countPendingItems(rotation, collab, folderIds);
+        if (remaining > 0) {
+            return res.status(409).json({ error: 'Some items still use the old key', remaining });
+        }
+
+        await completeRotation(rotation, collab, folderIds, link, sealedKeys, userId.toString());
+        disconnectCollabParticipants(id);
+
+        res.json({ success: true, message: 'Collab key rotated successfully' });
+    } catch (error) {
+        logger.error('[COLLAB-ROTATION-COMPLETE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to complete key rotation' });
+    }
+});
+
 // 5. PATCH /api/collab-folders/:id - Update Collab settings & access list
 hostRouter.patch('/:id', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const id = parseInt(req.params.id);
-    const { require_pin, pin, expires_at, activity_notifications, custom_slug, emails } = req.body;
+    const { require_pin, pin, expires_at, activity_notifications, custom_slug, emails, roles } = req.body;
+
+    const roleMap = parseRoles(roles);
+    if (!roleMap) return res.status(400).json({ error: 'Invalid collaborator role' });
 
     try {
         const [collab] = await db.select().from(collabFolders).where(and(eq(collabFolders.id, id), eq(collabFolders.userId, userId))).limit(1);
@@ -601,7 +847,7 @@ hostRouter.patch('/:id', authenticateToken, async (req: AuthRequest, res) => {
             // Add new emails
             for (const email of cleanEmails) {
                 if (!currentEmails.includes(email)) {
-                    await db.insert(collabAccessList).values({ collabId: id, email }).onConflictDoNothing();
+                    await db.insert(collabAccessList).values({ collabId: id, email, role: roleMap[email] ?? DEFAULT_COLLAB_ROLE }).onConflictDoNothing();
                     await db.insert(shareAuditLog).values({
                         share_type: 'collab_folder',
                         share_id: id,
@@ -628,10 +874,27 @@ hostRouter.patch('/:id', authenticateToken, async (req: AuthRequest, res) => {
 
                     // Revoke guest session tokens for removed emails
                     await db.delete(collabGuestSessions).where(and(eq(collabGuestSessions.collabId, id), eq(collabGuestSessions.email, email)));
+                    disconnectCollabParticipants(id, email);
                 }
             }
         }
 
+        // Role changes for members who stay on the list
+        for (const member of await db.select().from(collabAccessList).where(eq(collabAccessList.collabId, id))) {
+            const role = roleMap[member.email];
+            if (role && role !== member.role) {
+                await db.update(collabAccessList).set({ role }).where(eq(collabAccessList.id, member.id));
+                await db.insert(shareAuditLog).values({
+                    share_type: 'collab_folder',
+                    share_id: id,
+                    action: 'role_changed',
+                    actor: userId.toString(),
+                    filename: `${member.email}: ${role}`,
+                    timestamp: new Date()
+                });
+            }
+        }
+
         res.json({ success: true, message: 'Collab Folder updated successfully' });
 
     } catch (error) {
@@ -655,6 +918,7 @@ hostRouter.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
 
         // Delete guest sessions
         await db.delete(collabGuestSessions).where(eq(collabGuestSessions.collabId, id));
+        disconnectCollabParticipants(id);
 
         // Clean up "Shared With Me" entries for recipients who pinned this folder —
         // otherwise they keep orphan rows that error on access after revocation.
@@ -894,6 +1158,14 @@ guestRouter.post('/:tokenOrSlug/otp/verify', shareLimiter, async (req, res) => {
             return res.status(401).json({ error: 'Incorrect verification code. Please try again.' });
         }
 
+        const [access] = await db.select({ role: collabAccessList.role })
+            .from(collabAccessList)
+            .where(and(eq(collabAccessList.collabId, collab.id), eq(collabAccessList.email, cleanEmail)))
+            .limit(1);
+        if (!access) {
+            return res.status(403).json({ error: 'Access denied: Email is not in the approved guest list.' });
+        }
+
         // Mark OTP session as verified
         await db.update(collabOtpSessions)
             .set({ verified_at: new Date() })
@@ -928,6 +1200,7 @@ guestRouter.post('/:tokenOrSlug/otp/verify', shareLimiter, async (req, res) => {
             id: collab.id,
             folder_id: collab.folderId,
             session_token: sessionToken,
+            role: access.role,
             link_encrypted_collab_key: bufferToBase64(collab.link_encrypted_collab_key),
             link_collab_key_nonce: bufferToBase64(collab.link_collab_key_nonce)
         });
@@ -987,7 +1260,8 @@ guestRouter.get('/:token/files', shareLimiter, async (req, res) => {
             merkle_hash: files.merkle_hash,
             created_at: files.created_at,
             is_chunked: files.is_chunked,
-            folderId: files.folderId
+            folderId: files.folderId,
+            has_thumbnail: hasThumbnailSql
         })
         .from(files)
         .where(
@@ -1002,6 +1276,7 @@ guestRouter.get('/:token/files', shareLimiter, async (req, res) => {
         res.json({
             success: true,
             collab_root_id: collab.folderId,
+            role: session.role,
             folders: subfoldersList.map(f => ({
                 id: f.id,
                 parent_id: f.parentId,
@@ -1019,7 +1294,8 @@ guestRouter.get('/:token/files', shareLimiter, async (req, res) => {
                 merkle_hash: f.merkle_hash,
                 is_chunked: !!f.is_chunked,
                 created_at: f.created_at,
-                folder_id: f.folderId
+                folder_id: f.folderId,
+                has_thumbnail: f.has_thumbnail
             }))
         });
 
@@ -1051,6 +1327,14 @@ guestRouter.post('/:token/upload', shareLimiter, upload.single('file'), async (r
             if (file) fs.unlinkSync(file.path);
             return res.status(401).json({ error: 'Unauthorized collab session' });
         }
+        if (!hasCollabRole(session.role, 'contributor')) {
+            if (file) fs.unlinkSync(file.path);
+            return res.status(403).json({ error: 'Your role in this folder does not allow uploading' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            if (file) fs.unlinkSync(file.path);
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) {
@@ -1167,7 +1451,9 @@ guestRouter.post('/:token/upload', shareLimiter, upload.single('file'), async (r
             }
         });
 
-        res.json({ success: true, message: 'File uploaded successfully' });
+        publishCollabEvent(collab.id, { type: 'file_added', file_id: newFile.id, folder_id: targetFolderId, encrypted_filename: encrypted_filename || null });
+
+        res.json({ success: true, message: 'File uploaded successfully', file_id: newFile.id });
 
     } catch (error) {
         logger.error('[COLLAB-UPLOAD] Failed:', error);
@@ -1194,6 +1480,12 @@ guestRouter.post('/:token/upload/init', shareLimiter, async (req, res) => {
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'contributor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow uploading' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1280,6 +1572,10 @@ guestRouter.post('/:token/upload/chunk', shareLimiter, upload.single('chunk'), a
             fs.unlinkSync(file.path);
             return res.status(401).json({ error: 'Unauthorized collab session' });
         }
+        if (!hasCollabRole(session.role, 'contributor')) {
+            fs.unlinkSync(file.path);
+            return res.status(403).json({ error: 'Your role in this folder does not allow uploading' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) {
@@ -1363,6 +1659,12 @@ guestRouter.post('/:token/upload/finish', shareLimiter, async (req, res) => {
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'contributor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow uploading' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1371,7 +1673,7 @@ guestRouter.post('/:token/upload/finish', shareLimiter, async (req, res) => {
         const verifiedChunks = chunks.filter(c => c.is_gateway_verified === 1).length;
         const isAllVerified = chunks.length > 0 && verifiedChunks === chunks.length;
 
-        await db.update(files).set({
+        const [finished] = await db.update(files).set({
             jackal_fid: 'chunked-complete',
             chunk_count: chunks.length,
             is_chunked: 1,
@@ -1379,7 +1681,7 @@ guestRouter.post('/:token/upload/finish', shareLimiter, async (req, res) => {
             merkle_hash: isAllVerified ? 'obsideo-chunks' : 'pending-chunks',
             encrypted_filename: encrypted_filename || null,
             encrypted_mime_type: encrypted_mime_type || null
-        }).where(and(eq(files.id, fileId), eq(files.userId, collab.userId)));
+        }).where(and(eq(files.id, fileId), eq(files.userId, collab.userId))).returning({ folder_id: files.folderId });
 
         // Audit log
         await db.insert(shareAuditLog).values({
@@ -1391,6 +1693,10 @@ guestRouter.post('/:token/upload/finish', shareLimiter, async (req, res) => {
             timestamp: new Date()
         });
 
+        if (finished) {
+            publishCollabEvent(collab.id, { type: 'file_added', file_id: fileId, folder_id: finished.folder_id, encrypted_filename: encrypted_filename || null });
+        }
+
         res.json({ success: true, chunk_count: chunks.length });
     } catch (error: any) {
         logger.error('[COLLAB-UPLOAD-FINISH] Failed:', error);
@@ -1408,6 +1714,12 @@ guestRouter.post('/:token/folders', shareLimiter, async (req, res) => {
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'contributor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow creating folders' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1432,6 +1744,8 @@ guestRouter.post('/:token/folders', shareLimiter, async (req, res) => {
             encrypted_folder_name: folder_name_encrypted
         }).returning({ id: folders.id });
 
+        publishCollabEvent(collab.id, { type: 'folder_added', folder_id: newSubfolder.id, parent_id: targetParentId, encrypted_folder_name: folder_name_encrypted });
+
         res.json({ success: true, folder_id: newSubfolder.id });
 
     } catch (error) {
@@ -1447,6 +1761,9 @@ guestRouter.delete('/:token/files/:fileId', shareLimiter, async (req, res) => {
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'editor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow deleting files' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1458,6 +1775,7 @@ guestRouter.delete('/:token/files/:fileId', shareLimiter, async (req, res) => {
         await db.update(files)
             .set({ deleted_at: new Date() })
             .where(and(eq(files.id, fid), inArray(files.folderId, folderIds)));
+        await revokeFileShareLinks([fid]);
 
         // Log audit log
         await db.insert(shareAuditLog).values({
@@ -1469,6 +1787,8 @@ guestRouter.delete('/:token/files/:fileId', shareLimiter, async (req, res) => {
             timestamp: new Date()
         });
 
+        publishCollabEvent(collab.id, { type: 'file_deleted', file_id: fid });
+
         res.json({ success: true, message: 'File moved to owner\'s Trash' });
 
     } catch (error) {
@@ -1487,6 +1807,12 @@ guestRouter.patch('/:token/files/:fileId', shareLimiter, async (req, res) => {
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'editor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow renaming files' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1508,6 +1834,8 @@ guestRouter.patch('/:token/files/:fileId', shareLimiter, async (req, res) => {
             timestamp: new Date()
         });
 
+        publishCollabEvent(collab.id, { type: 'file_renamed', file_id: fid, encrypted_filename: new_filename_encrypted });
+
         res.json({ success: true, message: 'File renamed successfully' });
 
     } catch (error) {
@@ -1584,44 +1912,16 @@ guestRouter.get('/:token/files/:fileId/raw', shareLimiter, async (req, res) => {
             return res.status(400).json({ error: 'Use chunked download for this file' });
         }
 
-        const storageKey = file.obsideo_key ?? file.jackal_fid;
-        if (!storageKey || storageKey === 'pending') {
-            if (file.encrypted_file_path && fs.existsSync(file.encrypted_file_path)) {
-                res.setHeader('Content-Type', 'application/octet-stream');
-                res.setHeader('Content-Length', file.file_size);
-                return fs.createReadStream(file.encrypted_file_path).pipe(res);
-            }
-            return res.status(404).json({ error: 'File content not available' });
-        }
+        // Audit fresh downloads only, not resumes of one already logged
+        await countDownloadOnce(req, res, `collab:${collab.id}:${fid}:${session.email}:raw`, () => auditCollabDownload(collab.id, session.email, fid));
 
-        const provider = getStorageProvider(file.storage_provider);
-        const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_collab_${file.id}_${Date.now()}`);
-        const success = await provider.download(storageKey, `file_${file.id}`, tempPath);
-        if (!success) {
-            return res.status(500).json({ error: 'Failed to download file from storage' });
+        if (!await sendStoredObject(req, res, [blobPart(file)], file.storage_provider)) {
+            return res.status(404).json({ error: 'File content not available' });
         }
 
-        res.setHeader('Content-Type', 'application/octet-stream');
-        res.setHeader('Content-Length', file.file_size);
-        const stream = fs.createReadStream(tempPath);
-        stream.on('end', () => {
-            fs.unlink(tempPath, () => {});
-        });
-        stream.pipe(res);
-
-        // Log audit log
-        await db.insert(shareAuditLog).values({
-            share_type: 'collab_folder',
-            share_id: collab.id,
-            action: 'download',
-            actor: session.email,
-            filename: `file_${fid}`,
-            timestamp: new Date()
-        });
-
     } catch (error) {
         logger.error('[COLLAB-FILE-RAW] Failed:', error);
-        res.status(500).json({ error: 'Failed to download file' });
+        if (!res.headersSent) res.status(500).json({ error: 'Failed to download file' });
     }
 });
 
@@ -1643,16 +1943,9 @@ guestRouter.get('/:token/files/:fileId/chunk/:index', shareLimiter, async (req,
 
         const chunkIndex = parseInt(index);
 
-        // Log download on first chunk
+        // Log download on first chunk (not when resuming it)
         if (chunkIndex === 0) {
-            await db.insert(shareAuditLog).values({
-                share_type: 'collab_folder',
-                share_id: collab.id,
-                action: 'download',
-                actor: session.email,
-                filename: `file_${fid}`,
-                timestamp: new Date()
-            });
+            await countDownloadOnce(req, res, `collab:${collab.id}:${fid}:${session.email}:chunk`, () => auditCollabDownload(collab.id, session.email, fid));
         }
 
         const [chunk] = await db.select().from(fileChunks)
@@ -1661,40 +1954,13 @@ guestRouter.get('/:token/files/:fileId/chunk/:index', shareLimiter, async (req,
 
         if (!chunk) return res.status(404).json({ error: 'Chunk not found' });
 
-        let chunkPath = chunk.local_path;
-        let isTemp = false;
-
-        if (!chunkPath || !fs.existsSync(chunkPath)) {
-            const storageKey = chunk.obsideo_key ?? chunk.jackal_merkle;
-            if (storageKey && storageKey !== 'pending') {
-                const provider = getStorageProvider(file.storage_provider);
-                const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_collab_chunk_${chunk.id}_${Date.now()}`);
-                const success = await provider.download(storageKey, `chunk_${chunk.chunk_index}`, tempPath);
-                if (success) {
-                    chunkPath = tempPath;
-                    isTemp = true;
-                }
-            }
-        }
-
-        if (chunkPath && fs.existsSync(chunkPath)) {
-            res.setHeader('Content-Type', 'application/octet-stream');
-            res.setHeader('Content-Length', chunk.size);
-
-            const stream = fs.createReadStream(chunkPath);
-            if (isTemp) {
-                stream.on('end', () => {
-                    fs.unlink(chunkPath!, () => {});
-                });
-            }
-            stream.pipe(res);
-        } else {
+        if (!await sendStoredObject(req, res, [chunkPart(chunk)], file.storage_provider)) {
             res.status(404).json({ error: 'Chunk file not available on disk or storage' });
         }
 
     } catch (error) {
         logger.error('[COLLAB-FILE-CHUNK] Failed:', error);
-        res.status(500).json({ error: 'Failed to download chunk' });
+        if (!res.headersSent) res.status(500).json({ error: 'Failed to download chunk' });
     }
 });
 
@@ -1705,6 +1971,9 @@ guestRouter.delete('/:token/folders/:folderId', shareLimiter, async (req, res) =
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'editor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow deleting folders' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1727,9 +1996,11 @@ guestRouter.delete('/:token/folders/:folderId', shareLimiter, async (req, res) =
         }
 
         // Soft-delete files inside this subfolder
-        await db.update(files)
+        const trashedFiles = await db.update(files)
             .set({ deleted_at: new Date() })
-            .where(and(eq(files.folderId, fid), eq(files.userId, collab.userId)));
+            .where(and(eq(files.folderId, fid), eq(files.userId, collab.userId)))
+            .returning({ id: files.id });
+        await revokeFileShareLinks(trashedFiles.map(f => f.id));
 
         // Delete the subfolder itself
         await db.delete(folders)
@@ -1745,6 +2016,8 @@ guestRouter.delete('/:token/folders/:folderId', shareLimiter, async (req, res) =
             timestamp: new Date()
         });
 
+        publishCollabEvent(collab.id, { type: 'folder_deleted', folder_id: fid });
+
         res.json({ success: true, message: 'Folder deleted successfully' });
 
     } catch (error) {
@@ -1763,6 +2036,12 @@ guestRouter.patch('/:token/folders/:folderId', shareLimiter, async (req, res) =>
     try {
         const session = await verifyCollabAccess(req, token);
         if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'editor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow renaming folders' });
+        }
+        if (await isRotatingCollabKey(session.collabId)) {
+            return res.status(409).json({ error: 'This folder is being re-keyed by its owner. Please try again in a moment.' });
+        }
 
         const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
         if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
@@ -1790,6 +2069,8 @@ guestRouter.patch('/:token/folders/:folderId', shareLimiter, async (req, res) =>
             timestamp: new Date()
         });
 
+        publishCollabEvent(collab.id, { type: 'folder_renamed', folder_id: fid, encrypted_folder_name: new_foldername_encrypted });
+
         res.json({ success: true, message: 'Folder renamed successfully' });
 
     } catch (error) {
@@ -1798,6 +2079,162 @@ guestRouter.patch('/:token/folders/:folderId', shareLimiter, async (req, res) =>
     }
 });
 
+// 14.5 GET /api/collab/:token/members - Co-owners list the guests and their roles
+guestRouter.get('/:token/members', shareLimiter, async (req, res) => {
+    const { token } = req.params;
+
+    try {
+        const session = await verifyCollabAccess(req, token);
+        if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'co-owner')) {
+            return res.status(403).json({ error: 'Only co-owners can manage members' });
+        }
+
+        const members = await db.select({ email: collabAccessList.email, role: collabAccessList.role })
+            .from(collabAccessList)
+            .where(eq(collabAccessList.collabId, session.collabId))
+            .orderBy(collabAccessList.added_at);
+
+        res.json({ success: true, members });
+    } catch (error) {
+        logger.error('[COLLAB-MEMBERS] Failed:', error);
+        res.status(500).json({ error: 'Failed to retrieve members' });
+    }
+});
+
+// POST /api/collab/:token/live/ticket - Single-use ticket for the live WebSocket channel
+guestRouter.post('/:token/live/ticket', shareLimiter, async (req, res) => {
+    const { token } = req.params;
+
+    try {
+        const session = await verifyCollabAccess(req, token);
+        if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+
+        res.json({ success: true, ticket: issueLiveTicket(token, session) });
+    } catch (error) {
+        logger.error('[COLLAB-LIVE] Ticket failed:', error);
+        res.status(500).json({ error: 'Failed to open live updates' });
+    }
+});
+
+// 14.6 PATCH /api/collab/:token/members - Co-owner changes a guest's role (up to editor)
+guestRouter.patch('/:token/members', shareLimiter, async (req, res) => {
+    const { token } = req.params;
+    const { email, role } = req.body;
+
+    if (!email || !isGuestRole(role)) return res.status(400).json({ error: 'Email and a valid role are required' });
+    const cleanEmail = String(email).trim().toLowerCase();
+
+    try {
+        const session = await verifyCollabAccess(req, token);
+        if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'co-owner')) {
+            return res.status(403).json({ error: 'Only co-owners can manage members' });
+        }
+
+        const [member] = await db.select().from(collabAccessList)
+            .where(and(eq(collabAccessList.collabId, session.collabId), eq(collabAccessList.email, cleanEmail)))
+            .limit(1);
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+
+        // Co-owners are appointed and removed by the host only
+        if (session.role !== 'owner' && (role === 'co-owner' || member.role === 'co-owner')) {
+            return res.status(403).json({ error: 'Only the owner can change co-owners' });
+        }
+
+        await db.update(collabAccessList).set({ role }).where(eq(collabAccessList.id, member.id));
+
+        await db.insert(shareAuditLog).values({
+            share_type: 'collab_folder',
+            share_id: session.collabId,
+            action: 'role_changed',
+            actor: session.email,
+            filename: `${cleanEmail}: ${role}`,
+            timestamp: new Date()
+        });
+
+        res.json({ success: true, email: cleanEmail, role });
+    } catch (error) {
+        logger.error('[COLLAB-MEMBER-ROLE] Failed:', error);
+        res.status(500).json({ error: 'Failed to change role' });
+    }
+});
+
+// 14.7 PUT /api/collab/:token/files/:fileId/thumbnail - Store a file's encrypted thumbnail
+// Contributors can add one to a file that has none (their own uploads); editors can replace it.
+guestRouter.put('/:token/files/:fileId/thumbnail', shareLimiter, async (req, res) => {
+    const { token, fileId } = req.params;
+    const { thumbnail, nonce } = req.body;
+
+    if (typeof thumbnail !== 'string' || typeof nonce !== 'string' || !thumbnail || !nonce) {
+        return res.status(400).json({ error: 'Thumbnail and nonce are required' });
+    }
+
+    try {
+        const session = await verifyCollabAccess(req, token);
+        if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+        if (!hasCollabRole(session.role, 'contributor')) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow uploading' });
+        }
+
+        const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
+
+        const fid = parseInt(fileId);
+        const folderIds = await getCollabFolderIds(collab.folderId);
+        const [file] = await db.select({ id: files.id }).from(files)
+            .where(and(eq(files.id, fid), inArray(files.folderId, folderIds), isNull(files.deleted_at))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        if (!hasCollabRole(session.role, 'editor') && await getThumbnail(fid)) {
+            return res.status(403).json({ error: 'Your role in this folder does not allow replacing thumbnails' });
+        }
+
+        const encrypted = base64ToBuffer(thumbnail);
+        if (encrypted.length > MAX_THUMBNAIL_BYTES) {
+            return res.status(413).json({ error: 'Thumbnail too large' });
+        }
+
+        await saveThumbnail(fid, encrypted, base64ToBuffer(nonce));
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('[COLLAB-THUMBNAIL] Save failed:', error);
+        res.status(500).json({ error: 'Failed to save thumbnail' });
+    }
+});
+
+// 14.8 GET /api/collab/:token/files/:fileId/thumbnail - Fetch a file's encrypted thumbnail
+guestRouter.get('/:token/files/:fileId/thumbnail', shareLimiter, async (req, res) => {
+    const { token, fileId } = req.params;
+
+    try {
+        const session = await verifyCollabAccess(req, token);
+        if (!session) return res.status(401).json({ error: 'Unauthorized collab session' });
+
+        const [collab] = await db.select().from(collabFolders).where(eq(collabFolders.id, session.collabId)).limit(1);
+        if (!collab) return res.status(404).json({ error: 'Collab folder not found' });
+
+        const fid = parseInt(fileId);
+        const folderIds = await getCollabFolderIds(collab.folderId);
+        const [file] = await db.select({ id: files.id, file_key_encrypted: files.file_key_encrypted, file_key_nonce: files.file_key_nonce }).from(files)
+            .where(and(eq(files.id, fid), inArray(files.folderId, folderIds), isNull(files.deleted_at))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const stored = await getThumbnail(fid);
+        if (!stored) return res.status(404).json({ error: 'No thumbnail' });
+
+        res.json({
+            thumbnail: bufferToBase64(stored.encrypted_thumbnail),
+            nonce: bufferToBase64(stored.thumbnail_nonce),
+            file_key_encrypted: bufferToBase64(file.file_key_encrypted),
+            file_key_nonce: bufferToBase64(file.file_key_nonce)
+        });
+    } catch (error) {
+        logger.error('[COLLAB-THUMBNAIL] Fetch failed:', error);
+        res.status(500).json({ error: 'Failed to fetch thumbnail' });
+    }
+});
+
 export { hostRouter, guestRouter };
 
 
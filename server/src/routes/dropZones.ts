@@ -6,16 +6,18 @@ import fs from 'fs';
 import path from 'path';
 import multer from 'multer';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { shareLimiter, pinLimiter, dropZoneUploadLimiter } from '../middleware/rateLimiter';
+import { shareLimiter, pinLimiter, dropZoneUploadLimiter, chunkLimiter } from '../middleware/rateLimiter';
 import { db } from '../db';
-import { dropZones, dropZoneFiles, files, users, shareAuditLog, analyticsEvents, folders, collabFolders } from '../db/schema';
-import { eq, and, isNull, sql, or, desc } from 'drizzle-orm';
+import { dropZones, dropZoneFiles, files, users, shareAuditLog, analyticsEvents, folders, collabFolders, fileChunks } from '../db/schema';
+import { eq, and, isNull, sql, or, desc, ne } from 'drizzle-orm';
 import { env } from '../config/env';
 import logger from '../utils/logger';
 import { getStorageProvider } from '../storage';
 import { withTimeout } from '../utils/promise';
 import { uploadQueue } from '../utils/uploadQueue';
 import { bufferToBase64, base64ToBuffer } from '../crypto/keyManagement';
+import { chunkObjectKey } from '../services/fileVersions';
+import { reserveDropZoneUpload, reserveDropZoneBytes, releaseDropZoneBytes, releaseDropZoneUpload } from '../services/dropZoneReservations';
 
 const router = express.Router();
 
@@ -49,6 +51,135 @@ const verifyPinToken = (dropZoneToken: string, sessionHeader: string | undefined
     }
 };
 
+type DropZone = typeof dropZones.$inferSelect;
+
+// Looks up the Drop Zone a guest is uploading to and applies the expiry and PIN gates.
+// Returns the error to answer with when the guest may not upload.
+const resolveGuestDropZone = async (tokenOrSlug: string, sessionHeader: string | undefined): Promise<{ dz: DropZone } | { status: number; error: string }> => {
+    const [dz] = await db.select().from(dropZones)
+        .where(
+            and(
+                or(eq(dropZones.token, tokenOrSlug), eq(dropZones.custom_slug, tokenOrSlug)),
+                isNull(dropZones.revoked_at)
+            )
+        )
+        .limit(1);
+
+    if (!dz) return { status: 410, error: 'Drop Zone no longer available' };
+    if (dz.expires_at && new Date(dz.expires_at) < new Date()) return { status: 410, error: 'This link has expired.' };
+    if (dz.closed_at) return { status: 410, error: 'This Drop Zone is no longer accepting files.' };
+    if (dz.require_pin && !verifyPinToken(dz.token, sessionHeader)) {
+        return { status: 401, error: 'Access denied: PIN verification required' };
+    }
+    return { dz };
+};
+
+// Chunked uploads are anonymous, so /upload/init hands the guest a token scoped to the one
+// file it created; chunks and finish for any other pending file in the Drop Zone are refused.
+const signUploadToken = (dropZoneToken: string, fileId: number) =>
+    jwt.sign({ dropZoneToken, fileId, role: 'drop_zone_chunk_uploader' }, env.JWT_SECRET, { expiresIn: '24h' });
+
+const verifyUploadToken = (dropZoneToken: string, fileId: number, uploadHeader: string | undefined): boolean => {
+    if (!uploadHeader) return false;
+    try {
+        const decoded = jwt.verify(uploadHeader, env.JWT_SECRET, { algorithms: ['HS256'] }) as any;
+        return decoded.dropZoneToken === dropZoneToken && decoded.fileId === fileId && decoded.role === 'drop_zone_chunk_uploader';
+    } catch {
+        return false;
+    }
+};
+
+// A pending chunked upload that belongs to this Drop Zone
+const findPendingDropZoneFile = async (dz: DropZone, fileId: number) => {
+    const [file] = await db.select().from(files).where(and(
+        eq(files.id, fileId),
+        eq(files.userId, dz.userId),
+        eq(files.folderId, dz.folderId),
+        eq(files.file_origin, 'drop_zone'),
+        eq(files.jackal_fid, 'pending-chunks'),
+        isNull(files.deleted_at)
+    )).limit(1);
+    return file ?? null;
+};
+
+// Each encrypted chunk is a little larger than its plaintext (secretstream auth tag)
+const MAX_CHUNK_OVERHEAD_BYTES = 64;
+
+// Upload limit from a request body: undefined = not sent, null/empty/0 = unlimited,
+// NaN = invalid (anything but a positive integer)
+const parseLimit = (value: unknown): number | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null || value === '' || value === 0) return null;
+    const n = Number(value);
+    return Number.isSafeInteger(n) && n > 0 ? n : NaN;
+};
+
+// Categories (e.g. 'image') or extensions (e.g. '.pdf'), stored as a JSON array
+const parseAllowedTypes = (value: unknown): string | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null || (Array.isArray(value) && value.length === 0)) return null;
+    if (!Array.isArray(value) || value.some(t => typeof t !== 'string' || !/^\.?[a-z0-9]{1,16}$/.test(t))) return 'invalid';
+    return JSON.stringify([...new Set(value)]);
+};
+
+const LIMIT_FIELDS = ['max_file_size_bytes', 'max_total_bytes', 'max_files', 'close_after_uploads'] as const;
+const UPLOADER_FIELDS = ['name', 'email', 'note'];
+
+// Uploader details form, e.g. { name: 'required', note: 'optional' }; null or {} turns it off
+const parseUploaderFields = (value: unknown): string | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) return 'invalid';
+    const entries = Object.entries(value);
+    if (entries.some(([field, mode]) => !UPLOADER_FIELDS.includes(field) || (mode !== 'required' && mode !== 'optional'))) {
+        return 'invalid';
+    }
+    return entries.length ? JSON.stringify(value) : null;
+};
+
+// The answers are sealed, so the server can only check that a required form was sent at all
+const requiresUploaderInfo = (dz: DropZone) =>
+    !!dz.uploader_fields && Object.values(JSON.parse(dz.uploader_fields)).includes('required');
+
+// Validated limit and form columns from a create/update body, or null if any value is invalid
+const readLimits = (body: any) => {
+    const limits: Record<string, number | string | null> = {};
+    for (const field of LIMIT_FIELDS) {
+        const value = parseLimit(body[field]);
+        if (Number.isNaN(value)) return null;
+        if (value !== undefined) limits[field] = value;
+    }
+    const allowedTypes = parseAllowedTypes(body.allowed_types);
+    if (allowedTypes === 'invalid') return null;
+    if (allowedTypes !== undefined) limits.allowed_types = allowedTypes;
+    const uploaderFields = parseUploaderFields(body.uploader_fields);
+    if (uploaderFields === 'invalid') return null;
+    if (uploaderFields !== undefined) limits.uploader_fields = uploaderFields;
+    return limits;
+};
+
+// "Close after N uploads": shuts the zone once N uploads have completed
+const closeIfUploadLimitReached = async (dz: DropZone) => {
+    if (!dz.close_after_uploads) return;
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(dropZoneFiles).where(eq(dropZoneFiles.dropZoneId, dz.id));
+    if (count < dz.close_after_uploads) return;
+
+    await db.update(dropZones).set({ closed_at: new Date() })
+        .where(and(eq(dropZones.id, dz.id), isNull(dropZones.closed_at)));
+    logger.info(`[DZ-UPLOAD] Drop Zone ${dz.id} closed after ${count} uploads`);
+};
+
+// The guest-facing view of a zone's limits, so the page can check files before encrypting them
+const publicLimits = (dz: DropZone) => ({
+    max_file_size_bytes: dz.max_file_size_bytes,
+    allowed_types: dz.allowed_types ? JSON.parse(dz.allowed_types) as string[] : null,
+    bytes_remaining: dz.max_total_bytes === null ? null : Math.max(0, dz.max_total_bytes - dz.bytes_reserved),
+    files_remaining: [dz.max_files, dz.close_after_uploads]
+        .filter((limit): limit is number => limit !== null)
+        .reduce<number | null>((min, limit) => Math.min(min ?? Infinity, Math.max(0, limit - dz.uploads_reserved)), null)
+});
+
 // ============================================================================
 // HOST CLIENT ROUTES (Auth Required)
 // ============================================================================
@@ -73,6 +204,9 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
         return res.status(400).json({ error: 'Missing required parameters' });
     }
 
+    const limits = readLimits(req.body);
+    if (!limits) return res.status(400).json({ error: 'Invalid upload settings' });
+
     try {
         // Hash PIN if provided
         let pin_hash = null;
@@ -121,7 +255,8 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
             pin_hash,
             upload_notifications: upload_notifications !== false,
             custom_slug: checkedSlug,
-            expires_at: expires_at ? new Date(expires_at) : null
+            expires_at: expires_at ? new Date(expires_at) : null,
+            ...limits
         }).returning();
 
         // Log audit log
@@ -161,6 +296,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 
         const mappedZones = zones.map(zone => ({
             ...zone,
+            allowed_types: zone.allowed_types ? JSON.parse(zone.allowed_types) : null,
+            uploader_fields: zone.uploader_fields ? JSON.parse(zone.uploader_fields) : null,
             drop_public_key: bufferToBase64(zone.drop_public_key),
             encrypted_private_key: bufferToBase64(zone.encrypted_drop_private_key),
             private_key_nonce: bufferToBase64(zone.drop_private_key_nonce)
@@ -183,7 +320,15 @@ router.patch('/:id', authenticateToken, async (req: AuthRequest, res) => {
         const [dz] = await db.select().from(dropZones).where(and(eq(dropZones.id, id), eq(dropZones.userId, userId))).limit(1);
         if (!dz) return res.status(404).json({ error: 'Drop Zone not found or access denied' });
 
-        const updates: any = {};
+        const limits = readLimits(req.body);
+        if (!limits) return res.status(400).json({ error: 'Invalid upload settings' });
+
+        const updates: any = { ...limits };
+
+        // Changing the upload count reopens a zone that closed itself
+        if (limits.close_after_uploads !== undefined) {
+            updates.closed_at = null;
+        }
 
         if (require_pin !== undefined) {
             updates.require_pin = !!require_pin;
@@ -279,6 +424,47 @@ router.get('/:id/audit-log', authenticateToken, async (req: AuthRequest, res) =>
     }
 });
 
+// 5b. GET /api/drop-zones/:id/submissions - Uploads grouped by guest submission, with the sealed uploader details
+router.get('/:id/submissions', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+
+    try {
+        const [dz] = await db.select().from(dropZones).where(and(eq(dropZones.id, id), eq(dropZones.userId, userId))).limit(1);
+        if (!dz) return res.status(404).json({ error: 'Drop Zone not found or access denied' });
+
+        const rows = await db.select({
+            file_id: dropZoneFiles.fileId,
+            upload_session_id: dropZoneFiles.upload_session_id,
+            encrypted_uploader_info: dropZoneFiles.encrypted_uploader_info,
+            uploaded_at: dropZoneFiles.uploaded_at
+        })
+            .from(dropZoneFiles)
+            .where(eq(dropZoneFiles.dropZoneId, id))
+            .orderBy(desc(dropZoneFiles.uploaded_at));
+
+        // Uploads without a session (older clients) stand alone
+        const submissions = new Map<string, { session_id: string | null; encrypted_uploader_info: string | null; file_ids: number[]; uploaded_at: Date }>();
+        for (const row of rows) {
+            const key = row.upload_session_id ?? `file_${row.file_id}`;
+            const submission = submissions.get(key) ?? {
+                session_id: row.upload_session_id,
+                encrypted_uploader_info: null,
+                file_ids: [],
+                uploaded_at: row.uploaded_at
+            };
+            if (row.file_id) submission.file_ids.push(row.file_id);
+            submission.encrypted_uploader_info ??= row.encrypted_uploader_info;
+            submissions.set(key, submission);
+        }
+
+        res.json({ success: true, submissions: [...submissions.values()] });
+    } catch (error) {
+        logger.error('[DZ-SUBMISSIONS] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to retrieve submissions' });
+    }
+});
+
 // ============================================================================
 // PUBLIC ANONYMOUS GUEST ROUTES (No Auth Required)
 // ============================================================================
@@ -307,6 +493,10 @@ router.get('/:tokenOrSlug', shareLimiter, async (req, res) => {
             return res.status(410).json({ error: 'This link has expired.', expired: true });
         }
 
+        if (dz.closed_at) {
+            return res.status(410).json({ error: 'This Drop Zone is no longer accepting files.', closed: true });
+        }
+
         // Check PIN Gate
         if (dz.require_pin) {
             const hasAccess = verifyPinToken(dz.token, sessionToken);
@@ -327,7 +517,9 @@ router.get('/:tokenOrSlug', shareLimiter, async (req, res) => {
         res.json({
             success: true,
             name: dz.name,
-            drop_public_key: bufferToBase64(dz.drop_public_key)
+            drop_public_key: bufferToBase64(dz.drop_public_key),
+            limits: publicLimits(dz),
+            uploader_fields: dz.uploader_fields ? JSON.parse(dz.uploader_fields) : null
         });
 
     } catch (error) {
@@ -388,34 +580,19 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
         file_size,
         encrypted_filename, // filename encrypted with drop_public_key (base64)
         encrypted_mime_type, // mime encrypted with drop_public_key (base64)
+        encrypted_uploader_info, // uploader details form sealed to drop_public_key (base64)
         sessionId           // Unique session ID for grouping
     } = req.body;
 
     const file = req.file;
 
     try {
-        const [dz] = await db.select().from(dropZones)
-            .where(
-                and(
-                    or(eq(dropZones.token, tokenOrSlug), eq(dropZones.custom_slug, tokenOrSlug)),
-                    isNull(dropZones.revoked_at)
-                )
-            )
-            .limit(1);
-
-        if (!dz) {
+        const resolved = await resolveGuestDropZone(tokenOrSlug, sessionToken);
+        if (!('dz' in resolved)) {
             if (file) fs.unlinkSync(file.path);
-            return res.status(410).json({ error: 'Drop Zone no longer available' });
-        }
-
-        // Validate PIN Gate
-        if (dz.require_pin) {
-            const hasAccess = verifyPinToken(dz.token, sessionToken);
-            if (!hasAccess) {
-                if (file) fs.unlinkSync(file.path);
-                return res.status(401).json({ error: 'Access denied: PIN verification required' });
-            }
+            return res.status(resolved.status).json({ error: resolved.error });
         }
+        const { dz } = resolved;
 
         if (!file) {
             return res.status(400).json({ error: 'No file uploaded' });
@@ -426,11 +603,21 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
             return res.status(400).json({ error: 'Missing encryption parameters' });
         }
 
+        if (requiresUploaderInfo(dz) && !encrypted_uploader_info) {
+            fs.unlinkSync(file.path);
+            return res.status(400).json({ error: 'Please fill in the required details' });
+        }
+
         // Use the authoritative number of bytes actually written to disk. The client
         // also sends file_size, but a guest could understate it to push the host over
         // quota — so never let the claimed value be smaller than the real upload.
         const size = Math.max(parseInt(file_size) || 0, file.size);
 
+        if (dz.max_file_size_bytes && size > dz.max_file_size_bytes) {
+            fs.unlinkSync(file.path);
+            return res.status(413).json({ error: 'File is larger than this Drop Zone allows' });
+        }
+
         // 1. Verify Host Storage Quota
         const [host] = await db.select().from(users).where(eq(users.id, dz.userId)).limit(1);
         if (!host) {
@@ -445,6 +632,11 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
             return res.status(413).json({ error: 'Upload failed: Host storage quota exceeded' });
         }
 
+        if (!await reserveDropZoneUpload(dz.id, size)) {
+            fs.unlinkSync(file.path);
+            return res.status(413).json({ error: 'This Drop Zone has reached its upload limit' });
+        }
+
         // Transactional update to reserve storage securely
         const [updatedUser] = await db.update(users)
             .set({ storage_used_bytes: sql`${users.storage_used_bytes} + ${size}` })
@@ -458,6 +650,7 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
 
         if (!updatedUser) {
             fs.unlinkSync(file.path);
+            await releaseDropZoneUpload(dz.id, size);
             return res.status(413).json({ error: 'Upload failed: Host storage quota exceeded concurrently' });
         }
 
@@ -485,8 +678,12 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
             encrypted_file_key: base64ToBuffer(encrypted_file_key),
             file_key_nonce: base64ToBuffer(file_key_nonce),
             storage_key: `files/${newFile.id}`,
-            file_size: size
+            file_size: size,
+            fileId: newFile.id,
+            upload_session_id: sessionId || null,
+            encrypted_uploader_info: encrypted_uploader_info || null
         });
+        await closeIfUploadLimitReached(dz);
 
         // Host Storage Used was already updated transactionally before insert
 
@@ -542,4 +739,346 @@ router.post('/:tokenOrSlug/upload', dropZoneUploadLimiter, upload.single('file')
     }
 });
 
+// 9. POST /api/drop-zones/:tokenOrSlug/upload/init - Start a chunked upload
+// The guest encrypts the file in chunks with a random file key and seals that key to the
+// Drop Zone public key, so the browser never has to hold the whole file in memory.
+router.post('/:tokenOrSlug/upload/init', dropZoneUploadLimiter, async (req, res) => {
+    const { tokenOrSlug } = req.params;
+    const sessionToken = req.headers['x-dz-session'] as string;
+    const {
+        encrypted_file_key, // file key sealed to drop_public_key (base64)
+        file_size,
+        sessionId
+    } = req.body;
+
+    try {
+        const resolved = await resolveGuestDropZone(tokenOrSlug, sessionToken);
+        if (!('dz' in resolved)) return res.status(resolved.status).json({ error: resolved.error });
+        const { dz } = resolved;
+
+        const size = parseInt(file_size);
+        if (isNaN(size) || size <= 0) return res.status(400).json({ error: 'Invalid file_size' });
+        if (!encrypted_file_key) return res.status(400).json({ error: 'Missing encryption parameters' });
+        if (dz.max_file_size_bytes && size > dz.max_file_size_bytes) {
+            return res.status(413).json({ error: 'File is larger than this Drop Zone allows' });
+        }
+
+        if (!await reserveDropZoneUpload(dz.id, size)) {
+            return res.status(413).json({ error: 'This Drop Zone has reached its upload limit' });
+        }
+
+        // Reserve the declared size up front; chunks beyond it are refused
+        const [updatedUser] = await db.update(users)
+            .set({ storage_used_bytes: sql`${users.storage_used_bytes} + ${size}` })
+            .where(
+                and(
+                    eq(users.id, dz.userId),
+                    sql`${users.storage_used_bytes} + ${size} <= ${users.storage_quota_bytes}`
+                )
+            )
+            .returning({ id: users.id });
+
+        if (!updatedUser) {
+            await releaseDropZoneUpload(dz.id, size);
+            logger.warn(`[DZ-UPLOAD-INIT] ❌ Host ${dz.userId} quota exceeded`);
+            return res.status(413).json({ error: 'Upload failed: Host storage quota exceeded' });
+        }
+
+        const [newFile] = await db.insert(files).values({
+            userId: dz.userId,
+            jackal_fid: 'pending-chunks',
+            merkle_hash: 'pending-chunks',
+            jackal_filename: 'pending',
+            file_size: size,
+            folderId: dz.folderId,
+            is_chunked: 1,
+            chunk_count: 0,
+            file_key_encrypted: base64ToBuffer(encrypted_file_key),
+            // Sealed boxes carry their own ephemeral key and nonce; each chunk stores its own header
+            file_key_nonce: Buffer.alloc(0),
+            storage_provider: env.STORAGE_PROVIDER,
+            file_origin: 'drop_zone',
+            upload_session_id: sessionId || null,
+        }).returning({ id: files.id });
+
+        const jackalFilename = `${dz.userId}_${newFile.id}_${crypto.randomUUID()}`;
+        await db.update(files).set({ jackal_filename: jackalFilename }).where(eq(files.id, newFile.id));
+
+        await db.insert(analyticsEvents).values({
+            type: 'upload',
+            bytes: size,
+            timestamp: new Date(),
+            meta: `file_${newFile.id}_dz`
+        });
+
+        res.json({ success: true, file_id: newFile.id, upload_token: signUploadToken(dz.token, newFile.id) });
+    } catch (error) {
+        logger.error('[DZ-UPLOAD-INIT] Failed:', error);
+        res.status(500).json({ error: 'Internal server error during upload' });
+    }
+});
+
+// 10. POST /api/drop-zones/:tokenOrSlug/upload/chunk - Upload one encrypted chunk
+router.post('/:tokenOrSlug/upload/chunk', chunkLimiter, upload.single('chunk'), async (req, res) => {
+    const { tokenOrSlug } = req.params;
+    const sessionToken = req.headers['x-dz-session'] as string;
+    const uploadToken = req.headers['x-dz-upload'] as string;
+    const { file_id, chunk_index, nonce } = req.body;
+    const fileId = parseInt(file_id);
+    const chunkIndex = parseInt(chunk_index);
+    const file = req.file;
+
+    try {
+        if (!file) return res.status(400).json({ error: 'No chunk' });
+
+        const resolved = await resolveGuestDropZone(tokenOrSlug, sessionToken);
+        if (!('dz' in resolved)) {
+            fs.unlinkSync(file.path);
+            return res.status(resolved.status).json({ error: resolved.error });
+        }
+        const { dz } = resolved;
+
+        if (isNaN(chunkIndex) || chunkIndex < 0 || !nonce) {
+            fs.unlinkSync(file.path);
+            return res.status(400).json({ error: 'Invalid chunk parameters' });
+        }
+
+        if (!verifyUploadToken(dz.token, fileId, uploadToken)) {
+            fs.unlinkSync(file.path);
+            return res.status(403).json({ error: 'Invalid upload token' });
+        }
+
+        const fileRecord = await findPendingDropZoneFile(dz, fileId);
+        if (!fileRecord) {
+            fs.unlinkSync(file.path);
+            return res.status(404).json({ error: 'Upload not found' });
+        }
+
+        // Only the declared size was reserved against the host's quota
+        const [others] = await db.select({
+            bytes: sql<number>`coalesce(sum(${fileChunks.size}), 0)::bigint`,
+            count: sql<number>`count(*)::int`
+        }).from(fileChunks).where(and(eq(fileChunks.fileId, fileId), ne(fileChunks.chunk_index, chunkIndex)));
+        const allowed = Number(fileRecord.file_size) + (Number(others.count) + 1) * MAX_CHUNK_OVERHEAD_BYTES;
+        if (Number(others.bytes) + file.size > allowed) {
+            fs.unlinkSync(file.path);
+            logger.warn(`[DZ-CHUNK-UP] ❌ File ${fileId} exceeded its declared size`);
+            return res.status(413).json({ error: 'Upload exceeds the declared file size' });
+        }
+
+        const chunksDir = path.join(__dirname, '../../uploads/chunks');
+        if (!fs.existsSync(chunksDir)) fs.mkdirSync(chunksDir, { recursive: true });
+        const persistentPath = path.join(chunksDir, `chunk_${fileId}_${chunkIndex}_${crypto.randomBytes(4).toString('hex')}`);
+        fs.renameSync(file.path, persistentPath);
+
+        const chunkId = crypto.randomUUID();
+        await db.insert(fileChunks).values({
+            id: chunkId,
+            fileId,
+            chunk_index: chunkIndex,
+            size: file.size,
+            nonce: base64ToBuffer(nonce),
+            local_path: persistentPath,
+            jackal_merkle: 'pending',
+            is_gateway_verified: 0
+        }).onConflictDoUpdate({
+            target: [fileChunks.fileId, fileChunks.chunk_index],
+            set: {
+                id: chunkId,
+                nonce: base64ToBuffer(nonce),
+                local_path: persistentPath,
+                size: file.size,
+                jackal_merkle: 'pending',
+                is_gateway_verified: 0,
+                failure_reason: null
+            }
+        });
+
+        uploadQueue.add(async () => {
+            try {
+                const provider = getStorageProvider();
+                const objectKey = chunkObjectKey(fileId, chunkIndex);
+
+                const [existing] = await db.select({
+                    jackal_merkle: fileChunks.jackal_merkle,
+                    obsideo_key: fileChunks.obsideo_key
+                }).from(fileChunks).where(eq(fileChunks.id, chunkId));
+                if (existing && (existing.obsideo_key || (existing.jackal_merkle && existing.jackal_merkle !== 'pending'))) return;
+
+                const result = await provider.upload(persistentPath, objectKey);
+                await db.update(fileChunks).set({
+                    jackal_merkle: result.merkle_root,
+                    obsideo_key: objectKey,
+                    is_gateway_verified: 1,
+                    local_path: null
+                }).where(eq(fileChunks.id, chunkId));
+
+                fs.unlink(persistentPath, () => {});
+
+                // The last chunk to reach storage after /upload/finish settles the file
+                const [chunkStats] = await db.select({
+                    verified: sql`sum(case when is_gateway_verified = 1 then 1 else 0 end)`
+                }).from(fileChunks).where(eq(fileChunks.fileId, fileId));
+                const [parentFile] = await db.select({ chunk_count: files.chunk_count }).from(files).where(eq(files.id, fileId));
+                if (parentFile?.chunk_count && Number(chunkStats.verified) >= parentFile.chunk_count) {
+                    await db.update(files).set({ is_gateway_verified: 1, merkle_hash: 'obsideo-chunks' }).where(eq(files.id, fileId));
+                }
+            } catch (err: any) {
+                logger.error(`[DZ-CHUNK-UP] Chunk ${chunkIndex} of file ${fileId} failed:`, err);
+                await db.update(fileChunks).set({ failure_reason: err.message || 'Storage error' }).where(eq(fileChunks.id, chunkId));
+            }
+        });
+
+        res.json({ success: true, message: `Chunk ${chunkIndex} queued` });
+    } catch (error) {
+        logger.error('[DZ-CHUNK-UP] Failed:', error);
+        if (file) fs.unlink(file.path, () => {});
+        res.status(500).json({ error: 'Internal server error during upload' });
+    }
+});
+
+// 11. GET /api/drop-zones/:tokenOrSlug/upload/status?file_id= - Chunks already received, for resuming
+router.get('/:tokenOrSlug/upload/status', shareLimiter, async (req, res) => {
+    const { tokenOrSlug } = req.params;
+    const sessionToken = req.headers['x-dz-session'] as string;
+    const uploadToken = req.headers['x-dz-upload'] as string;
+    const fileId = parseInt(req.query.file_id as string);
+
+    try {
+        const resolved = await resolveGuestDropZone(tokenOrSlug, sessionToken);
+        if (!('dz' in resolved)) return res.status(resolved.status).json({ error: resolved.error });
+        const { dz } = resolved;
+
+        if (!verifyUploadToken(dz.token, fileId, uploadToken)) {
+            return res.status(403).json({ error: 'Invalid upload token' });
+        }
+
+        const fileRecord = await findPendingDropZoneFile(dz, fileId);
+        if (!fileRecord) return res.status(404).json({ error: 'Upload not found' });
+
+        const chunks = await db.select({
+            chunk_index: fileChunks.chunk_index,
+            local_path: fileChunks.local_path,
+            is_gateway_verified: fileChunks.is_gateway_verified
+        })
+            .from(fileChunks)
+            .where(eq(fileChunks.fileId, fileId))
+            .orderBy(fileChunks.chunk_index);
+
+        const received = chunks
+            .filter(c => c.is_gateway_verified === 1 || (c.local_path && fs.existsSync(c.local_path)))
+            .map(c => c.chunk_index);
+
+        res.json({ success: true, file_id: fileId, file_size: Number(fileRecord.file_size), received_chunks: received });
+    } catch (error) {
+        logger.error('[DZ-UPLOAD-STATUS] Failed:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// 12. POST /api/drop-zones/:tokenOrSlug/upload/finish - Complete a chunked upload
+router.post('/:tokenOrSlug/upload/finish', dropZoneUploadLimiter, async (req, res) => {
+    const { tokenOrSlug } = req.params;
+    const sessionToken = req.headers['x-dz-session'] as string;
+    const uploadToken = req.headers['x-dz-upload'] as string;
+    const {
+        file_id,
+        encrypted_filename, // filename sealed to drop_public_key (base64)
+        encrypted_mime_type, // mime sealed to drop_public_key (base64)
+        encrypted_uploader_info // uploader details form sealed to drop_public_key (base64)
+    } = req.body;
+    const fileId = parseInt(file_id);
+
+    try {
+        const resolved = await resolveGuestDropZone(tokenOrSlug, sessionToken);
+        if (!('dz' in resolved)) return res.status(resolved.status).json({ error: resolved.error });
+        const { dz } = resolved;
+
+        if (!verifyUploadToken(dz.token, fileId, uploadToken)) {
+            return res.status(403).json({ error: 'Invalid upload token' });
+        }
+
+        const fileRecord = await findPendingDropZoneFile(dz, fileId);
+        if (!fileRecord) return res.status(404).json({ error: 'Upload not found' });
+
+        if (requiresUploaderInfo(dz) && !encrypted_uploader_info) {
+            return res.status(400).json({ error: 'Please fill in the required details' });
+        }
+
+        const chunks = await db.select().from(fileChunks).where(eq(fileChunks.fileId, fileId));
+        if (chunks.length === 0) return res.status(400).json({ error: 'No chunks uploaded' });
+
+        const verifiedChunks = chunks.filter(c => c.is_gateway_verified === 1).length;
+        const isAllVerified = verifiedChunks === chunks.length;
+
+        // Charge for what was actually stored rather than the size declared at init
+        const actualBytes = chunks.reduce((sum, c) => sum + Number(c.size || 0), 0);
+        const delta = actualBytes - Number(fileRecord.file_size);
+        if (delta > 0 && !await reserveDropZoneBytes(dz.id, delta)) {
+            return res.status(413).json({ error: 'This Drop Zone has reached its upload limit' });
+        }
+
+        // The pending -> complete flip is the guard: of concurrent finish calls for one upload,
+        // only the one that flips it applies the size delta and records the upload
+        const completed = await db.transaction(async (tx) => {
+            const [flipped] = await tx.update(files).set({
+                jackal_fid: 'chunked-complete',
+                chunk_count: chunks.length,
+                file_size: actualBytes,
+                is_gateway_verified: isAllVerified ? 1 : 0,
+                merkle_hash: isAllVerified ? 'obsideo-chunks' : 'pending-chunks',
+                encrypted_filename: encrypted_filename || null,
+                encrypted_mime_type: encrypted_mime_type || null
+            }).where(and(eq(files.id, fileId), eq(files.jackal_fid, 'pending-chunks')))
+                .returning({ id: files.id });
+            if (!flipped) return false;
+
+            if (delta !== 0) {
+                await tx.update(users)
+                    .set({ storage_used_bytes: delta > 0
+                        ? sql`${users.storage_used_bytes} + ${delta}`
+                        : sql`GREATEST(0, ${users.storage_used_bytes} - ${-delta})` })
+                    .where(eq(users.id, dz.userId));
+                if (delta < 0) {
+                    await tx.update(dropZones)
+                        .set({ bytes_reserved: sql`GREATEST(0, ${dropZones.bytes_reserved} + ${delta})` })
+                        .where(eq(dropZones.id, dz.id));
+                }
+            }
+
+            await tx.insert(dropZoneFiles).values({
+                dropZoneId: dz.id,
+                encrypted_file_key: fileRecord.file_key_encrypted,
+                file_key_nonce: fileRecord.file_key_nonce,
+                storage_key: `files/${fileId}/chunks`,
+                file_size: actualBytes,
+                fileId,
+                upload_session_id: fileRecord.upload_session_id,
+                encrypted_uploader_info: encrypted_uploader_info || null
+            });
+            return true;
+        });
+
+        if (!completed) {
+            if (delta > 0) await releaseDropZoneBytes(dz.id, delta);
+            return res.status(409).json({ error: 'This upload was already finished' });
+        }
+        await closeIfUploadLimitReached(dz);
+
+        await db.insert(shareAuditLog).values({
+            share_type: 'drop_zone',
+            share_id: dz.id,
+            action: 'upload',
+            actor: 'guest',
+            filename: `file_${fileId}`,
+            timestamp: new Date()
+        });
+
+        res.json({ success: true, chunk_count: chunks.length, message: 'Your file was received securely.' });
+    } catch (error) {
+        logger.error('[DZ-UPLOAD-FINISH] Failed:', error);
+        res.status(500).json({ error: 'Internal server error during upload' });
+    }
+});
+
 export default router;
@@ -6,7 +6,7 @@ import fs from 'fs';
 import path from 'path';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { db } from '../db';
-import { files, folders, users, userCrypto, fileChunks, graveyard, graveyardChunks, analyticsEvents, shareAuditLog } from '../db/schema';
+import { files, folders, users, userCrypto, fileChunks, fileVersions, graveyard, graveyardChunks, analyticsEvents, shareAuditLog, fileShareLinks } from '../db/schema';
 import { eq, and, isNull, sql, isNotNull, desc, asc, or, inArray } from 'drizzle-orm';
 import { getJackalHandler, uploadFileToJackal, verifyOnGateway } from '../jackal';
 import { getStorageProvider } from '../storage';
@@ -19,13 +19,36 @@ import {
     base64ToBuffer
 } from '../crypto/keyManagement';
 
+import { publishFolderChange } from '../services/collabLive';
 import { uploadLimiter, shareLimiter, chunkLimiter } from '../middleware/rateLimiter';
 import { validate } from '../middleware/validate';
 import {
     uploadInitSchema,
     moveFileSchema,
-    listFilesSchema
+    listFilesSchema,
+    newVersionSchema,
+    createFileShareSchema,
+    updateFileShareSchema,
+    thumbnailSchema
 } from '../schemas/file';
+import {
+    fileObjectKey,
+    chunkObjectKey,
+    hasSettledContent,
+    listFileVersions,
+    getArchivedVersion,
+    resolveRequestedVersion,
+    withVersion,
+    listVersionChunks,
+    startNewVersion,
+    restoreVersion,
+    revertPendingVersion,
+    enforceVersionRetention,
+    purgeFileVersions
+} from '../services/fileVersions';
+import { activeShareTokenSql, revokeFileShareLinks, revokedLinkValues } from '../services/fileShareLinks';
+import { MAX_THUMBNAIL_BYTES, hasThumbnailSql, getThumbnail, saveThumbnail } from '../services/fileThumbnails';
+import { sendStoredObject, chunkPart, blobPart } from '../services/objectStreaming';
 import {
     sendFileUploadedEmail,
     sendFileUploadFailedEmail,
@@ -238,6 +261,7 @@ router.post('/upload', authenticateToken, uploadLimiter, upload.single('file'),
             file_id: fileId,
             file_size: file.size
         });
+        publishFolderChange(folderId ? parseInt(folderId) : null, { type: 'file_added', file_id: fileId, folder_id: folderId ? parseInt(folderId) : null, encrypted_filename: null });
 
         // 8. Send File Uploaded Email
         sendFileUploadedEmail(req.user!.email).catch(console.error);
@@ -261,7 +285,7 @@ router.post('/:id/upload', authenticateToken, uploadLimiter, upload.single('file
         const file = req.file;
         if (!file) return res.status(400).json({ error: 'No file uploaded' });
 
-        const [fileRecord] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        let [fileRecord] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
         if (!fileRecord) {
             fs.unlinkSync(file.path);
             return res.status(404).json({ error: 'File record not found' });
@@ -270,13 +294,40 @@ router.post('/:id/upload', authenticateToken, uploadLimiter, upload.single('file
         // Handle Jackal upload in background
         const tempFilePath = file.path;
 
-        // CRITICAL FIX: Save local path immediately so download works during background upload
-        await db.update(files).set({ encrypted_file_path: tempFilePath }).where(eq(files.id, fileId));
+        if (hasSettledContent(fileRecord)) {
+            // Re-upload over existing content: keep the old bytes as a version instead of overwriting
+            if (fileRecord.file_origin !== 'private') {
+                fs.unlinkSync(file.path);
+                return res.status(400).json({ error: 'Versioning is only available for private files' });
+            }
+            // The new version is charged on top of the old one, as with POST /:id/versions
+            const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+            if (!user) {
+                fs.unlinkSync(file.path);
+                return res.status(404).json({ error: 'User not found' });
+            }
+            const isGodMode = req.user?.role === 'admin';
+            if (!isGodMode && (user.storage_used_bytes || 0) + file.size > (user.storage_quota_bytes || 0)) {
+                fs.unlinkSync(file.path);
+                return res.status(413).json({ error: 'Storage quota exceeded' });
+            }
+            await startNewVersion(fileRecord, {
+                fileSize: file.size,
+                storageProvider: env.STORAGE_PROVIDER,
+                encryptedFilePath: tempFilePath
+            });
+            await enforceVersionRetention(fileId, userId);
+            [fileRecord] = await db.select().from(files).where(eq(files.id, fileId)).limit(1);
+        } else {
+            // CRITICAL FIX: Save local path immediately so download works during background upload
+            await db.update(files).set({ encrypted_file_path: tempFilePath }).where(eq(files.id, fileId));
+        }
+
+        const objectKey = fileObjectKey(fileId, fileRecord.current_version);
 
         uploadQueue.add(async () => {
             try {
                 const provider = getStorageProvider();
-                const objectKey = `files/${fileId}`;
 
                 const result = await provider.upload(tempFilePath, objectKey);
 
@@ -329,7 +380,7 @@ router.get('/recent', authenticateToken, async (req: AuthRequest, res) => {
             jackal_filename: files.jackal_filename,
             file_size: files.file_size,
             folder_id: files.folderId,
-            share_token: files.share_token,
+            share_token: activeShareTokenSql,
             created_at: files.created_at,
             last_accessed_at: files.last_accessed_at,
             is_chunked: files.is_chunked,
@@ -337,7 +388,8 @@ router.get('/recent', authenticateToken, async (req: AuthRequest, res) => {
             encrypted_filename: files.encrypted_filename,
             encrypted_mime_type: files.encrypted_mime_type,
             file_origin: files.file_origin,
-            upload_session_id: files.upload_session_id
+            upload_session_id: files.upload_session_id,
+            has_thumbnail: hasThumbnailSql
         }).from(files)
         .where(
             and(
@@ -391,7 +443,7 @@ router.post('/query', authenticateToken, express.json(), async (req: AuthRequest
             jackal_filename: files.jackal_filename,
             file_size: files.file_size,
             folder_id: files.folderId,
-            share_token: files.share_token,
+            share_token: activeShareTokenSql,
             created_at: files.created_at,
             last_accessed_at: files.last_accessed_at,
             is_chunked: files.is_chunked,
@@ -399,7 +451,8 @@ router.post('/query', authenticateToken, express.json(), async (req: AuthRequest
             encrypted_filename: files.encrypted_filename,
             encrypted_mime_type: files.encrypted_mime_type,
             file_origin: files.file_origin,
-            upload_session_id: files.upload_session_id
+            upload_session_id: files.upload_session_id,
+            has_thumbnail: hasThumbnailSql
         }).from(files)
         .where(
             and(
@@ -462,14 +515,15 @@ router.get('/list', authenticateToken, validate(listFilesSchema), async (req: Au
             jackal_filename: files.jackal_filename,
             file_size: files.file_size,
             folder_id: files.folderId,
-            share_token: files.share_token,
+            share_token: activeShareTokenSql,
             created_at: files.created_at,
             last_accessed_at: files.last_accessed_at,
             is_chunked: files.is_chunked,
             chunk_count: files.chunk_count,
             encrypted_filename: files.encrypted_filename,
             encrypted_mime_type: files.encrypted_mime_type,
-            file_origin: files.file_origin
+            file_origin: files.file_origin,
+            has_thumbnail: hasThumbnailSql
         }).from(files).where(and(...conditions));
 
 
@@ -512,7 +566,7 @@ router.get('/trash', authenticateToken, async (req: AuthRequest, res) => {
             jackal_filename: files.jackal_filename,
             file_size: files.file_size,
             folder_id: files.folderId,
-            share_token: files.share_token,
+            share_token: activeShareTokenSql,
             created_at: files.created_at,
             deleted_at: files.deleted_at,
             is_chunked: files.is_chunked,
@@ -547,6 +601,7 @@ router.post('/restore/:fileId', authenticateToken, async (req: AuthRequest, res)
         await db.update(files).set({ deleted_at: null }).where(eq(files.id, fileId));
 
         res.json({ success: true, message: 'File restored' });
+        publishFolderChange(file.folderId, { type: 'file_added', file_id: fileId, folder_id: file.folderId, encrypted_filename: file.encrypted_filename });
     } catch (error) {
         logger.error('[FILE-RESTORE] ❌ Failed:', error);
         res.status(500).json({ error: 'Failed to restore file' });
@@ -571,8 +626,11 @@ router.delete('/:fileId', authenticateToken, async (req: AuthRequest, res) => {
         await db.update(files)
             .set({ deleted_at: new Date(), share_token: null, purge_after: purgeAfter })
             .where(eq(files.id, fileId));
+        // Links die with the trip to the trash; restoring the file doesn't bring them back
+        await revokeFileShareLinks([fileId]);
 
         res.json({ success: true, message: 'File deleted' });
+        publishFolderChange(file.folderId, { type: 'file_deleted', file_id: fileId });
     } catch (error) {
         logger.error('[FILE-DEL] ❌ Failed:', error);
         res.status(500).json({ error: 'Failed to delete file' });
@@ -588,8 +646,12 @@ router.get('/download/:fileId', authenticateToken, async (req: AuthRequest, res)
     const fileId = parseInt(req.params.fileId);
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
-        if (!file) return res.status(404).json({ error: 'File not found' });
+        const [currentFile] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!currentFile) return res.status(404).json({ error: 'File not found' });
+
+        const version = await resolveRequestedVersion(currentFile, req.query.version);
+        if (version === null) return res.status(404).json({ error: 'Version not found' });
+        const file = version ? withVersion(currentFile, version) : currentFile;
 
         let folder;
         if (file.folderId) {
@@ -601,13 +663,18 @@ router.get('/download/:fileId', authenticateToken, async (req: AuthRequest, res)
 
         // Fix: Detect chunked files even if is_chunked flag is wrong
         const isActuallyChunked = file.is_chunked || file.jackal_fid === 'chunked-complete';
-        const chunks = isActuallyChunked ? await db.select({
-            index: fileChunks.chunk_index,
-            size: fileChunks.size,
-            nonce: fileChunks.nonce,
-            jackal_merkle: fileChunks.jackal_merkle,
-            obsideo_key: fileChunks.obsideo_key
-        }).from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(fileChunks.chunk_index) : undefined;
+        let chunks;
+        if (isActuallyChunked && version) {
+            chunks = (await listVersionChunks(version.id)).map(c => ({ ...c, index: c.chunk_index }));
+        } else if (isActuallyChunked) {
+            chunks = await db.select({
+                index: fileChunks.chunk_index,
+                size: fileChunks.size,
+                nonce: fileChunks.nonce,
+                jackal_merkle: fileChunks.jackal_merkle,
+                obsideo_key: fileChunks.obsideo_key
+            }).from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(fileChunks.chunk_index);
+        }
 
         res.json({
             success: true,
@@ -616,6 +683,7 @@ router.get('/download/:fileId', authenticateToken, async (req: AuthRequest, res)
             folder_key_encrypted: bufferToBase64(folder.folder_key_encrypted),
             folder_key_nonce: bufferToBase64(folder.folder_key_nonce),
             folder_id: file.folderId,
+            version: version ? version.version_number : file.current_version,
             jackal_fid: file.obsideo_key ?? file.jackal_fid,
             merkle_hash: file.obsideo_key ?? file.merkle_hash,
             is_gateway_verified: file.storage_provider === 'jackal' ? !!file.is_gateway_verified : false,
@@ -640,7 +708,7 @@ router.get('/download/:fileId', authenticateToken, async (req: AuthRequest, res)
 router.put('/:fileId/move', authenticateToken, validate(moveFileSchema), async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.fileId);
-    const { folderId, fileKeyEncrypted, fileKeyNonce } = req.body;
+    const { folderId, fileKeyEncrypted, fileKeyNonce, versionKeys } = req.body;
 
     try {
         const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
@@ -664,14 +732,203 @@ router.put('/:fileId/move', authenticateToken, validate(moveFileSchema), async (
             updateData.file_key_nonce = base64ToBuffer(fileKeyNonce);
         }
 
-        await db.update(files).set(updateData).where(eq(files.id, fileId));
+        await db.transaction(async (tx) => {
+            await tx.update(files).set(updateData).where(eq(files.id, fileId));
+
+            // Archived versions are wrapped with the old folder key too
+            for (const vk of versionKeys || []) {
+                await tx.update(fileVersions).set({
+                    file_key_encrypted: base64ToBuffer(vk.fileKeyEncrypted),
+                    file_key_nonce: base64ToBuffer(vk.fileKeyNonce)
+                }).where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.version_number, vk.version)));
+            }
+        });
         res.json({ success: true, message: 'File moved' });
+        publishFolderChange(file.folderId, { type: 'file_deleted', file_id: fileId });
+        publishFolderChange(folderId || null, { type: 'file_added', file_id: fileId, folder_id: folderId || null, encrypted_filename: file.encrypted_filename });
     } catch (error) {
         logger.error('[FILE-MOVE] ❌ Failed:', error);
         res.status(500).json({ error: 'Failed to move file' });
     }
 });
 
+// ============================================================================
+// FILE VERSIONS
+// ============================================================================
+
+router.get('/:id/versions', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const versions = await listFileVersions(fileId);
+
+        // Wrapped keys are included so the client can decrypt old versions and re-wrap them on move
+        res.json({
+            success: true,
+            current_version: file.current_version,
+            versions: [
+                {
+                    version: file.current_version,
+                    is_current: true,
+                    file_size: file.file_size,
+                    is_chunked: !!file.is_chunked,
+                    created_at: file.created_at,
+                    file_key_encrypted: bufferToBase64(file.file_key_encrypted),
+                    file_key_nonce: bufferToBase64(file.file_key_nonce)
+                },
+                ...versions.map(v => ({
+                    version: v.version_number,
+                    is_current: false,
+                    file_size: v.file_size,
+                    is_chunked: !!v.is_chunked,
+                    created_at: v.created_at,
+                    archived_at: v.archived_at,
+                    file_key_encrypted: bufferToBase64(v.file_key_encrypted),
+                    file_key_nonce: bufferToBase64(v.file_key_nonce)
+                }))
+            ]
+        });
+    } catch (error) {
+        logger.error('[FILE-VERSIONS] ❌ List failed:', error);
+        res.status(500).json({ error: 'Failed to list versions' });
+    }
+});
+
+// Start a new version. The client then sends the bytes through /:id/upload or /:id/chunk + /:id/finish.
+router.post('/:id/versions', authenticateToken, uploadLimiter, validate(newVersionSchema), async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+    const { file_size, fileKeyEncrypted, fileKeyNonce } = req.body;
+
+    try {
+        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId), isNull(files.deleted_at))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+        if (file.file_origin !== 'private') {
+            return res.status(400).json({ error: 'Versioning is only available for private files' });
+        }
+        if (!hasSettledContent(file)) {
+            return res.status(409).json({ error: 'Current version is still uploading' });
+        }
+
+        const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+        if (!user) return res.status(404).json({ error: 'User not found' });
+
+        const isGodMode = req.user?.role === 'admin';
+        if (!isGodMode && (user.storage_used_bytes || 0) + file_size > (user.storage_quota_bytes || 0)) {
+            return res.status(413).json({ error: 'Storage quota exceeded' });
+        }
+
+        const { version, isChunked } = await startNewVersion(file, {
+            fileSize: file_size,
+            storageProvider: env.STORAGE_PROVIDER,
+            fileKeyEncrypted: fileKeyEncrypted ? base64ToBuffer(fileKeyEncrypted) : undefined,
+            fileKeyNonce: fileKeyNonce ? base64ToBuffer(fileKeyNonce) : undefined
+        });
+        await enforceVersionRetention(fileId, userId);
+
+        await db.insert(analyticsEvents).values({
+            type: 'upload',
+            bytes: file_size,
+            timestamp: new Date(),
+            meta: `file_${fileId}_v${version}`
+        });
+
+        res.json({ success: true, file_id: fileId, version, is_chunked: isChunked });
+    } catch (error: any) {
+        logger.error('[FILE-VERSIONS] ❌ New version failed:', error);
+        res.status(500).json({ error: 'Failed to start new version' });
+    }
+});
+
+router.post('/:id/versions/:version/restore', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+    const versionNumber = parseInt(req.params.version);
+
+    try {
+        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId), isNull(files.deleted_at))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+        if (versionNumber === file.current_version) {
+            return res.status(400).json({ error: 'Version is already current' });
+        }
+        if (!hasSettledContent(file)) {
+            return res.status(409).json({ error: 'Current version is still uploading' });
+        }
+
+        const version = await getArchivedVersion(fileId, versionNumber);
+        if (!version) return res.status(404).json({ error: 'Version not found' });
+
+        await restoreVersion(file, version);
+        await enforceVersionRetention(fileId, userId);
+
+        res.json({ success: true, current_version: versionNumber });
+    } catch (error) {
+        logger.error('[FILE-VERSIONS] ❌ Restore failed:', error);
+        res.status(500).json({ error: 'Failed to restore version' });
+    }
+});
+
+// ============================================================================
+// THUMBNAILS (encrypted client-side with the file key)
+// ============================================================================
+
+router.put('/:id/thumbnail', authenticateToken, validate(thumbnailSchema), async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [file] = await db.select({ id: files.id }).from(files)
+            .where(and(eq(files.id, fileId), eq(files.userId, userId), isNull(files.deleted_at))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const encrypted = base64ToBuffer(req.body.thumbnail);
+        if (encrypted.length > MAX_THUMBNAIL_BYTES) {
+            return res.status(413).json({ error: 'Thumbnail too large' });
+        }
+
+        await saveThumbnail(fileId, encrypted, base64ToBuffer(req.body.nonce));
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('[FILE-THUMBNAIL] ❌ Save failed:', error);
+        res.status(500).json({ error: 'Failed to save thumbnail' });
+    }
+});
+
+router.get('/:id/thumbnail', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [file] = await db.select().from(files)
+            .where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const thumbnail = await getThumbnail(fileId);
+        if (!thumbnail) return res.status(404).json({ error: 'No thumbnail' });
+
+        // The wrapped keys come along so a listing can open each thumbnail in one request
+        const [folder] = file.folderId
+            ? await db.select().from(folders).where(and(eq(folders.id, file.folderId), eq(folders.userId, userId))).limit(1)
+            : await db.select().from(folders).where(and(eq(folders.userId, userId), isNull(folders.parentId))).limit(1);
+
+        res.json({
+            thumbnail: bufferToBase64(thumbnail.encrypted_thumbnail),
+            nonce: bufferToBase64(thumbnail.thumbnail_nonce),
+            file_key_encrypted: bufferToBase64(file.file_key_encrypted),
+            file_key_nonce: bufferToBase64(file.file_key_nonce),
+            folder_key_encrypted: folder ? bufferToBase64(folder.folder_key_encrypted) : null,
+            folder_key_nonce: folder ? bufferToBase64(folder.folder_key_nonce) : null
+        });
+    } catch (error) {
+        logger.error('[FILE-THUMBNAIL] ❌ Fetch failed:', error);
+        res.status(500).json({ error: 'Failed to fetch thumbnail' });
+    }
+});
+
 // ============================================================================
 // SHARE LINK MANAGEMENT
 // ============================================================================
@@ -682,10 +939,58 @@ const RESERVED_SLUGS = new Set([
     'health', 'webhook', 'static', 'public', 'assets', 'favicon', 'og-card'
 ]);
 
-router.post('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
+const isSlugConflict = (error: any) => error.code === '23505' &&
+    (error.detail?.includes('custom_slug') || error.constraint?.includes('custom_slug') || error.message?.includes('custom_slug'));
+
+// Returns an error message if the slug can't be used for this link
+const checkShareSlug = async (slug: string, linkId?: number): Promise<string | null> => {
+    if (RESERVED_SLUGS.has(slug)) return 'Slug is a reserved word';
+    const [existing] = await db.select({ id: fileShareLinks.id }).from(fileShareLinks).where(eq(fileShareLinks.custom_slug, slug)).limit(1);
+    if (existing && existing.id !== linkId) return 'Slug already taken';
+    return null;
+};
+
+const hashSharePassword = async (password: string) => {
+    const bcrypt = await import('bcrypt');
+    return bcrypt.default.hash(password, 10);
+};
+
+// GET /files/:id/shares - Every active link for a file
+router.get('/:id/shares', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [file] = await db.select({ id: files.id }).from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found or access denied' });
+
+        const links = await db.select({
+            id: fileShareLinks.id,
+            token: fileShareLinks.token,
+            custom_slug: fileShareLinks.custom_slug,
+            label: fileShareLinks.label,
+            max_downloads: fileShareLinks.max_downloads,
+            download_count: fileShareLinks.download_count,
+            expires_at: fileShareLinks.expires_at,
+            created_at: fileShareLinks.created_at,
+            has_password: sql<boolean>`CASE WHEN ${fileShareLinks.password_hash} IS NOT NULL THEN true ELSE false END`
+        })
+            .from(fileShareLinks)
+            .where(and(eq(fileShareLinks.fileId, fileId), isNull(fileShareLinks.revoked_at)))
+            .orderBy(desc(fileShareLinks.created_at));
+
+        res.json({ success: true, links });
+    } catch (error) {
+        logger.error('[FILE-SHARE-LIST] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to list share links' });
+    }
+});
+
+// POST /files/:id/share - Create a new, independent link (existing links are untouched)
+router.post('/:id/share', authenticateToken, validate(createFileShareSchema), async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.id);
-    const { password, max_downloads, expires_at, custom_slug } = req.body;
+    const { label, password, max_downloads, expires_at, custom_slug } = req.body;
 
     try {
         // Check storage quota BEFORE sharing
@@ -694,46 +999,33 @@ router.post('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
             return res.status(403).json({ error: 'Storage quota exceeded. Sharing is disabled.' });
         }
 
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId), isNull(files.deleted_at))).limit(1);
         if (!file) return res.status(404).json({ error: 'File not found or access denied' });
 
-        const shareToken = crypto.randomBytes(16).toString('hex');
-        
-        let share_password_hash = null;
-        if (password) {
-            const bcrypt = await import('bcrypt');
-            share_password_hash = await bcrypt.default.hash(password, 10);
-        }
-
-        let share_custom_slug = null;
+        let slug: string | null = null;
         if (custom_slug) {
-            const slug = custom_slug.toLowerCase();
-            if (RESERVED_SLUGS.has(slug)) {
-                return res.status(400).json({ error: 'Slug is a reserved word' });
-            }
-            // Check uniqueness
-            const [existing] = await db.select({ id: files.id }).from(files).where(eq(files.share_custom_slug, slug)).limit(1);
-            if (existing && existing.id !== fileId) {
-                return res.status(400).json({ error: 'Slug already taken' });
-            }
-            share_custom_slug = slug;
+            slug = custom_slug.toLowerCase();
+            const slugError = await checkShareSlug(slug!);
+            if (slugError) return res.status(400).json({ error: slugError });
         }
 
-        await db.update(files)
-            .set({
-                share_token: shareToken,
-                share_password_hash,
-                share_max_downloads: max_downloads ? parseInt(max_downloads) : null,
-                share_download_count: 0,
-                share_expires_at: expires_at ? new Date(expires_at) : null,
-                share_custom_slug
-            })
-            .where(eq(files.id, fileId));
+        const shareToken = crypto.randomBytes(16).toString('hex');
+
+        const [link] = await db.insert(fileShareLinks).values({
+            fileId,
+            userId,
+            token: shareToken,
+            custom_slug: slug,
+            label: label || null,
+            password_hash: password ? await hashSharePassword(password) : null,
+            max_downloads: max_downloads ?? null,
+            expires_at: expires_at ? new Date(expires_at) : null
+        }).returning({ id: fileShareLinks.id });
 
         // Log audit
         await db.insert(shareAuditLog).values({
             share_type: 'standard_link',
-            share_id: fileId,
+            share_id: link.id,
             action: 'link_created',
             actor: userId.toString(),
             timestamp: new Date()
@@ -741,11 +1033,12 @@ router.post('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
 
         res.json({
             success: true,
+            share_id: link.id,
             share_token: shareToken,
-            share_url: `https://nest.lazybird.io/s/${share_custom_slug || shareToken}`
+            share_url: `https://nest.lazybird.io/s/${slug || shareToken}`
         });
     } catch (error: any) {
-        if (error.code === '23505' && (error.detail?.includes('share_custom_slug') || error.constraint?.includes('share_custom_slug') || error.message?.includes('share_custom_slug'))) {
+        if (isSlugConflict(error)) {
             return res.status(400).json({ error: 'This custom slug is already taken. Please choose another.' });
         }
         logger.error('[FILE-SHARE] ❌ Failed:', error);
@@ -753,57 +1046,50 @@ router.post('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
     }
 });
 
-router.patch('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
+// PATCH /files/:id/share/:linkId - Update one link's policy
+router.patch('/:id/share/:linkId', authenticateToken, validate(updateFileShareSchema), async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.id);
-    const { password, max_downloads, expires_at, custom_slug } = req.body;
+    const linkId = parseInt(req.params.linkId);
+    const { label, password, max_downloads, expires_at, custom_slug } = req.body;
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
-        if (!file) return res.status(404).json({ error: 'File not found or access denied' });
-
-        const updates: any = {};
-        
-        if (password !== undefined) {
-            if (password === null || password === '') {
-                updates.share_password_hash = null;
-            } else {
-                const bcrypt = await import('bcrypt');
-                updates.share_password_hash = await bcrypt.default.hash(password, 10);
-            }
-        }
+        const [link] = await db.select({ id: fileShareLinks.id }).from(fileShareLinks)
+            .where(and(
+                eq(fileShareLinks.id, linkId),
+                eq(fileShareLinks.fileId, fileId),
+                eq(fileShareLinks.userId, userId),
+                isNull(fileShareLinks.revoked_at)
+            ))
+            .limit(1);
+        if (!link) return res.status(404).json({ error: 'Share link not found or access denied' });
 
-        if (max_downloads !== undefined) {
-            updates.share_max_downloads = max_downloads ? parseInt(max_downloads) : null;
-        }
+        const updates: Partial<typeof fileShareLinks.$inferInsert> = {};
 
-        if (expires_at !== undefined) {
-            updates.share_expires_at = expires_at ? new Date(expires_at) : null;
+        if (label !== undefined) updates.label = label || null;
+        if (password !== undefined) {
+            updates.password_hash = password ? await hashSharePassword(password) : null;
         }
-
+        if (max_downloads !== undefined) updates.max_downloads = max_downloads;
+        if (expires_at !== undefined) updates.expires_at = expires_at ? new Date(expires_at) : null;
         if (custom_slug !== undefined) {
-            if (custom_slug === null || custom_slug === '') {
-                updates.share_custom_slug = null;
+            if (!custom_slug) {
+                updates.custom_slug = null;
             } else {
                 const slug = custom_slug.toLowerCase();
-                if (RESERVED_SLUGS.has(slug)) {
-                    return res.status(400).json({ error: 'Slug is a reserved word' });
-                }
-                const [existing] = await db.select({ id: files.id }).from(files).where(eq(files.share_custom_slug, slug)).limit(1);
-                if (existing && existing.id !== fileId) {
-                    return res.status(400).json({ error: 'Slug already taken' });
-                }
-                updates.share_custom_slug = slug;
+                const slugError = await checkShareSlug(slug, linkId);
+                if (slugError) return res.status(400).json({ error: slugError });
+                updates.custom_slug = slug;
             }
         }
 
-        await db.update(files)
-            .set(updates)
-            .where(eq(files.id, fileId));
+        if (Object.keys(updates).length > 0) {
+            await db.update(fileShareLinks).set(updates).where(eq(fileShareLinks.id, linkId));
+        }
 
         res.json({ success: true, message: 'Share link settings updated' });
     } catch (error: any) {
-        if (error.code === '23505' && (error.detail?.includes('share_custom_slug') || error.constraint?.includes('share_custom_slug') || error.message?.includes('share_custom_slug'))) {
+        if (isSlugConflict(error)) {
             return res.status(400).json({ error: 'This custom slug is already taken. Please choose another.' });
         }
         logger.error('[FILE-SHARE-PATCH] ❌ Failed:', error);
@@ -811,29 +1097,27 @@ router.patch('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
     }
 });
 
-router.delete('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
+// DELETE /files/:id/share/:linkId - Revoke one link; other recipients keep access
+router.delete('/:id/share/:linkId', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.id);
+    const linkId = parseInt(req.params.linkId);
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
-        if (!file) return res.status(404).json({ error: 'File not found or access denied' });
-
-        await db.update(files)
-            .set({
-                share_token: null,
-                share_password_hash: null,
-                share_max_downloads: null,
-                share_download_count: 0,
-                share_expires_at: null,
-                share_custom_slug: null
-            })
-            .where(eq(files.id, fileId));
+        const [revoked] = await db.update(fileShareLinks)
+            .set(revokedLinkValues())
+            .where(and(
+                eq(fileShareLinks.id, linkId),
+                eq(fileShareLinks.fileId, fileId),
+                eq(fileShareLinks.userId, userId),
+                isNull(fileShareLinks.revoked_at)
+            ))
+            .returning({ id: fileShareLinks.id });
+        if (!revoked) return res.status(404).json({ error: 'Share link not found or access denied' });
 
-        // Log audit
         await db.insert(shareAuditLog).values({
             share_type: 'standard_link',
-            share_id: fileId,
+            share_id: linkId,
             action: 'revoked',
             actor: userId.toString(),
             timestamp: new Date()
@@ -846,6 +1130,36 @@ router.delete('/:id/share', authenticateToken, async (req: AuthRequest, res) =>
     }
 });
 
+// DELETE /files/:id/share - Revoke every link for the file
+router.delete('/:id/share', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [file] = await db.select({ id: files.id }).from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!file) return res.status(404).json({ error: 'File not found or access denied' });
+
+        const revoked = await revokeFileShareLinks([fileId]);
+
+        // Log audit
+        if (revoked.length > 0) {
+            await db.insert(shareAuditLog).values(revoked.map(link => ({
+                share_type: 'standard_link',
+                share_id: link.id,
+                action: 'revoked',
+                actor: userId.toString(),
+                timestamp: new Date()
+            })));
+        }
+
+        res.json({ success: true, message: 'Share links revoked', revoked: revoked.length });
+    } catch (error) {
+        logger.error('[FILE-REVOKE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to revoke share link' });
+    }
+});
+
+
 router.delete('/:id/permanent', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.id);
@@ -875,6 +1189,8 @@ router.delete('/:id/permanent', authenticateToken, async (req: AuthRequest, res)
             }
         }
 
+        const versionBytes = await purgeFileVersions(fileId, 'user_permanent_delete');
+
         // Transaction: archive to graveyard + delete DB row + decrement quota atomically
         await db.transaction(async (tx) => {
             if (file.jackal_fid || file.merkle_hash || file.obsideo_key) {
@@ -906,7 +1222,7 @@ router.delete('/:id/permanent', authenticateToken, async (req: AuthRequest, res)
             await tx.delete(files).where(eq(files.id, fileId));
 
             await tx.update(users)
-                .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
+                .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size + versionBytes})` })
                 .where(eq(users.id, userId));
         });
 
@@ -957,10 +1273,17 @@ router.delete('/:id/cancel', authenticateToken, async (req: AuthRequest, res) =>
             }
         }
 
-        // 4. Delete from database (cascades to chunks)
+        // 4. Cancelling a new version falls back to the previous one instead of
+        //    deleting the file (refunds the pending version's bytes)
+        if (file.current_version > 1 && !hasSettledContent(file) && await revertPendingVersion(file)) {
+            logger.info(`[UPLOAD-CANCEL] Cancelled new version of file_id=${fileId}, refunded ${file.file_size} bytes`);
+            return res.json({ success: true, refunded_bytes: file.file_size, reverted: true });
+        }
+
+        // 5. Delete from database (cascades to chunks)
         await db.delete(files).where(eq(files.id, fileId));
 
-        // 5. Refund quota
+        // 6. Refund quota
         await db.update(users)
             .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
             .where(eq(users.id, userId));
@@ -1117,10 +1440,10 @@ router.post('/:id/chunk', authenticateToken, chunkLimiter, upload.single('chunk'
         // chunk_count increment moved to /finish for accuracy (avoid double-counting retries)
 
         // Active Storage Provider Background Upload
+        const objectKey = chunkObjectKey(fileId, chunk_index, fileRecord.current_version);
         uploadQueue.add(async () => {
             try {
                 const provider = getStorageProvider();
-                const objectKey = `files/${fileId}/chunks/${chunk_index}`;
 
                 // Double check if already uploaded (race condition protection)
                 const [existing] = await db.select({ 
@@ -1193,13 +1516,14 @@ router.post('/:id/finish', authenticateToken, async (req: AuthRequest, res) => {
         // Fix: Also set is_chunked=1 to prevent download 404s
         const isAllVerified = chunks.length > 0 && verifiedChunks === chunks.length;
 
-        await db.update(files).set({
+        const [finished] = await db.update(files).set({
             jackal_fid: 'chunked-complete',
             chunk_count: chunks.length,
             is_chunked: 1,
             is_gateway_verified: isAllVerified ? 1 : 0,
             merkle_hash: isAllVerified ? 'obsideo-chunks' : 'pending-chunks'
-        }).where(and(eq(files.id, fileId), eq(files.userId, userId)));
+        }).where(and(eq(files.id, fileId), eq(files.userId, userId)))
+            .returning({ folder_id: files.folderId, encrypted_filename: files.encrypted_filename });
 
         // Quota reconciliation: the file_size declared at /upload/init is client-supplied
         // and untrusted. Charge for the ACTUAL bytes uploaded (sum of chunk sizes) so a
@@ -1223,20 +1547,72 @@ router.post('/:id/finish', authenticateToken, async (req: AuthRequest, res) => {
         }
 
         res.json({ success: true, chunk_count: chunks.length });
+        if (finished) {
+            publishFolderChange(finished.folder_id, { type: 'file_added', file_id: fileId, folder_id: finished.folder_id, encrypted_filename: finished.encrypted_filename });
+        }
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
 });
 
-router.get('/:id/manifest', authenticateToken, async (req: AuthRequest, res) => {
+// Lets a client resume an interrupted chunked upload (e.g. after a reload) by
+// reporting which chunk indices the server already holds.
+router.get('/:id/upload-status', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const fileId = parseInt(req.params.id);
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        const [file] = await db.select().from(files).where(and(
+            eq(files.id, fileId),
+            eq(files.userId, userId),
+            isNull(files.deleted_at)
+        )).limit(1);
         if (!file) return res.status(404).json({ error: 'File not found' });
 
         const chunks = await db.select({
+            chunk_index: fileChunks.chunk_index,
+            local_path: fileChunks.local_path,
+            is_gateway_verified: fileChunks.is_gateway_verified
+        })
+            .from(fileChunks)
+            .where(eq(fileChunks.fileId, fileId))
+            .orderBy(fileChunks.chunk_index);
+
+        // A chunk counts as received once it reached storage or is still buffered on disk
+        // for the background worker; anything else has to be sent again.
+        const received = chunks
+            .filter(c => c.is_gateway_verified === 1 || (c.local_path && fs.existsSync(c.local_path)))
+            .map(c => c.chunk_index);
+
+        res.json({
+            success: true,
+            file_id: file.id,
+            folder_id: file.folderId,
+            file_size: Number(file.file_size),
+            complete: file.jackal_fid === 'chunked-complete' || hasSettledContent(file),
+            received_chunks: received,
+            file_key_encrypted: bufferToBase64(file.file_key_encrypted),
+            file_key_nonce: bufferToBase64(file.file_key_nonce)
+        });
+    } catch (error: any) {
+        logger.error('[UPLOAD-STATUS] Failed:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+router.get('/:id/manifest', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const fileId = parseInt(req.params.id);
+
+    try {
+        const [currentFile] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!currentFile) return res.status(404).json({ error: 'File not found' });
+
+        const version = await resolveRequestedVersion(currentFile, req.query.version);
+        if (version === null) return res.status(404).json({ error: 'Version not found' });
+        const file = version ? withVersion(currentFile, version) : currentFile;
+
+        const chunks = version ? await listVersionChunks(version.id) : await db.select({
             id: fileChunks.id,
             chunk_index: fileChunks.chunk_index,
             jackal_merkle: fileChunks.jackal_merkle,
@@ -1271,64 +1647,25 @@ router.get('/:id/chunk/:index', authenticateToken, async (req: AuthRequest, res)
     const chunkIndex = parseInt(req.params.index);
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
-        if (!file) return res.status(404).json({ error: 'File not found' });
-
-        const [chunk] = await db.select().from(fileChunks)
-            .where(and(eq(fileChunks.fileId, fileId), eq(fileChunks.chunk_index, chunkIndex)))
-            .limit(1);
-
-        if (!chunk) return res.status(404).json({ error: 'Chunk not found' });
+        const [currentFile] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        if (!currentFile) return res.status(404).json({ error: 'File not found' });
 
-        let chunkPath = chunk.local_path;
-        let isTemp = false;
-
-        // Auto-hydration or Direct Streaming
-        if (!chunkPath || !fs.existsSync(chunkPath)) {
-            const storageKey = chunk.obsideo_key ?? chunk.jackal_merkle;
-            if (storageKey && storageKey !== 'pending') {
-                const provider = getStorageProvider(file.storage_provider);
-
-                // Direct Streaming (e.g. Obsideo)
-                if (provider.getStream) {
-                    const stream = await provider.getStream(storageKey);
-                    if (stream) {
-                        res.setHeader('Content-Type', 'application/octet-stream');
-                        res.setHeader('X-Chunk-Nonce', bufferToBase64(chunk.nonce));
-                        stream.pipe(res);
-                        stream.on('error', (err) => {
-                            logger.error(`[STREAM] Error fetching chunk ${chunk.chunk_index} from provider:`, err);
-                            res.destroy(err);
-                        });
-                        return;
-                    }
-                }
+        const version = await resolveRequestedVersion(currentFile, req.query.version);
+        if (version === null) return res.status(404).json({ error: 'Version not found' });
+        const file = version ? withVersion(currentFile, version) : currentFile;
 
-                // Fallback to disk download (Jackal or if getStream fails)
-                const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_chunk_${chunk.id}_${Date.now()}`);
-                const success = await provider.download(storageKey, `chunk_${chunk.chunk_index}`, tempPath);
-                if (success) {
-                    chunkPath = tempPath;
-                    isTemp = true;
-                }
-            }
-        }
+        const [chunk] = version
+            ? (await listVersionChunks(version.id)).filter(c => c.chunk_index === chunkIndex)
+            : await db.select().from(fileChunks)
+                .where(and(eq(fileChunks.fileId, fileId), eq(fileChunks.chunk_index, chunkIndex)))
+                .limit(1);
 
-        if (chunkPath && fs.existsSync(chunkPath)) {
-            const stream = fs.createReadStream(chunkPath);
-            res.setHeader('Content-Type', 'application/octet-stream');
-            res.setHeader('X-Chunk-Nonce', bufferToBase64(chunk.nonce));
+        if (!chunk) return res.status(404).json({ error: 'Chunk not found' });
 
-            stream.pipe(res);
-            stream.on('end', () => {
-                if (isTemp) fs.unlink(chunkPath!, () => { });
-            });
-            stream.on('error', () => {
-                if (isTemp) fs.unlink(chunkPath!, () => { });
-            });
-        } else {
-            res.status(404).json({ error: 'Chunk missing locally and on cloud' });
-        }
+        const sent = await sendStoredObject(req, res, [chunkPart(chunk)], file.storage_provider, {
+            'X-Chunk-Nonce': bufferToBase64(chunk.nonce)
+        });
+        if (!sent) res.status(404).json({ error: 'Chunk missing locally and on cloud' });
 
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -1344,105 +1681,32 @@ router.get('/raw/:fileId', authenticateToken, async (req: AuthRequest, res) => {
     const fileId = parseInt(req.params.fileId);
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
+        const [currentFile] = await db.select().from(files).where(and(eq(files.id, fileId), eq(files.userId, userId))).limit(1);
 
         logger.info(`[DEBUG-RAW] Request for File ${fileId} by User ${userId}`);
 
-        if (!file) {
+        if (!currentFile) {
             logger.error(`[DEBUG-RAW] ❌ File record not found for user ${userId} file ${fileId}`);
             return res.status(404).json({ error: 'File not found' });
         }
 
-        logger.info(`[DEBUG-RAW] Found File: is_chunked=${file.is_chunked}, path=${file.encrypted_file_path}, fid=${file.jackal_fid}`);
+        const version = await resolveRequestedVersion(currentFile, req.query.version);
+        if (version === null) return res.status(404).json({ error: 'Version not found' });
+        const file = version ? withVersion(currentFile, version) : currentFile;
 
-        res.setHeader('Content-Type', 'application/octet-stream');
+        logger.info(`[DEBUG-RAW] Found File: is_chunked=${file.is_chunked}, path=${file.encrypted_file_path}, fid=${file.jackal_fid}`);
 
         // Fix: Detect chunked files even if is_chunked flag is wrong
         const isActuallyChunked = file.is_chunked || file.jackal_fid === 'chunked-complete';
-        if (isActuallyChunked) {
-            const chunks = await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(fileChunks.chunk_index);
-            for (const chunk of chunks) {
-                let chunkPath = chunk.local_path;
-                if (!chunkPath || !fs.existsSync(chunkPath)) {
-                    const storageKey = chunk.obsideo_key ?? chunk.jackal_merkle;
-                    if (storageKey && storageKey !== 'pending') {
-                        const provider = getStorageProvider(file.storage_provider);
-                        
-                        // Direct Streaming
-                        if (provider.getStream) {
-                            const stream = await provider.getStream(storageKey);
-                            if (stream) {
-                                logger.info(`[STREAM-RAW] Serving Chunk ${chunk.chunk_index} via direct stream`);
-                                await new Promise((r, reject) => {
-                                    stream.pipe(res, { end: false });
-                                    stream.on('end', () => r(null));
-                                    stream.on('error', reject);
-                                });
-                                continue;
-                            }
-                        }
-                        
-                        const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_chunk_${chunk.id}`);
-                        const success = await provider.download(storageKey, `chunk_${chunk.chunk_index}`, tempPath);
-                        if (success && fs.existsSync(tempPath)) chunkPath = tempPath;
-                    }
-                }
-                if (!chunkPath) throw new Error("Missing chunk");
-
-                const stats = fs.statSync(chunkPath);
-                logger.info(`[STREAM-RAW] Serving Chunk ${chunk.chunk_index}: Size=${stats.size} | Nonce=${bufferToBase64(chunk.nonce).substring(0, 10)}... (db size: ${chunk.size})`);
-
-                const chunkStream = fs.createReadStream(chunkPath);
-                await new Promise(r => {
-                    chunkStream.pipe(res, { end: false });
-                    chunkStream.on('end', () => r(null));
-                });
-                if (chunkPath.includes('temp_hydrate')) fs.unlink(chunkPath, () => { });
-            }
-            res.end();
-            return;
-        }
-
-        let filePath = file.encrypted_file_path;
-
-        // Auto-hydration for Monolithic Files
-        if (!filePath || !fs.existsSync(filePath)) {
-            const storageKey = file.obsideo_key ?? file.jackal_fid;
-            if (storageKey && storageKey !== 'pending') {
-                logger.info(`[DEBUG-RAW] Hydrating monolithic file: ${storageKey}`);
-                const provider = getStorageProvider(file.storage_provider);
-                const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_${file.id}_${Date.now()}`);
-
-                // Use jackal_filename or fid as handle
-                const handle = file.jackal_filename || `restored_file_${file.id}`;
-                const success = await provider.download(storageKey, handle, tempPath);
-
-                if (success && fs.existsSync(tempPath)) {
-                    logger.info(`[DEBUG-RAW] Hydration successful for file ${fileId}`);
-                    filePath = tempPath;
-                } else {
-                    logger.error(`[DEBUG-RAW] Hydration failed for file ${fileId}`);
-                }
-            }
-        }
-
-        if (filePath && fs.existsSync(filePath)) {
-            const stream = fs.createReadStream(filePath);
-            await new Promise(r => {
-                stream.pipe(res);
-                stream.on('end', () => r(null));
-                stream.on('error', (err) => {
-                    logger.error('Stream error:', err);
-                    r(null);
-                });
-            });
-
-            // Cleanup temp file if it was hydrated
-            if (filePath.includes('temp_hydrate_')) {
-                fs.unlink(filePath, () => { });
-            }
-        } else {
-            logger.error(`[DEBUG-RAW] ❌ Local file missing: ${filePath}. JackalFID: ${file.jackal_fid}`);
+        const parts = isActuallyChunked
+            ? (version
+                ? await listVersionChunks(version.id)
+                : await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(fileChunks.chunk_index)
+            ).map(chunkPart)
+            : [blobPart(file)];
+
+        if (!await sendStoredObject(req, res, parts, file.storage_provider)) {
+            logger.error(`[DEBUG-RAW] ❌ Content missing locally and in storage. JackalFID: ${file.jackal_fid}`);
 
             // Fix #13: Enhanced telemetry for hydration failures
             await db.insert(analyticsEvents).values({
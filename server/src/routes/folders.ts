@@ -1,12 +1,19 @@
 import express from 'express';
 import fs from 'fs';
+import bcrypt from 'bcrypt';
 import { db } from '../db';
-import { folders, files, fileChunks, users, graveyard, graveyardChunks } from '../db/schema';
+import crypto from 'crypto';
+import { folders, files, fileChunks, users, graveyard, graveyardChunks, folderShareLinks, folderShareEntries, shareAuditLog } from '../db/schema';
 import { eq, and, isNull, isNotNull, inArray, sql, or, like, gte } from 'drizzle-orm';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { getStorageProvider } from '../storage';
+import { purgeFileVersions } from '../services/fileVersions';
+import { publishFolderChange } from '../services/collabLive';
+import { revokeFileShareLinks } from '../services/fileShareLinks';
 import logger from '../utils/logger';
 import { bufferToBase64, base64ToBuffer } from '../crypto/keyManagement';
+import { validate } from '../middleware/validate';
+import { createFolderShareSchema } from '../schemas/folder';
 
 const router = express.Router();
 
@@ -38,6 +45,9 @@ router.post('/create', authenticateToken, async (req: AuthRequest, res) => {
             success: true,
             folder_id: newFolder.id
         });
+        if (parentId && parentId !== '0') {
+            publishFolderChange(parseInt(parentId), { type: 'folder_added', folder_id: newFolder.id, parent_id: parseInt(parentId), encrypted_folder_name: null });
+        }
 
     } catch (error) {
         logger.error('[FOLDER-CREATE] ❌ Failed:', error);
@@ -171,21 +181,26 @@ router.delete('/:folderId', authenticateToken, async (req: AuthRequest, res) =>
         if (subtreeIds.length === 0) return res.status(404).json({ error: 'Folder not found' });
 
         const now = new Date();
-        await db.transaction(async (tx) => {
+        const trashedFiles = await db.transaction(async (tx) => {
             // Cascade trash to currently-live files in the subtree. Only touch files that
             // aren't already trashed, so an independently-trashed file keeps its own
             // deleted_at (and restore can leave it in the trash).
-            await tx.update(files)
+            const trashed = await tx.update(files)
                 .set({ deleted_at: now })
-                .where(and(inArray(files.folderId, subtreeIds), isNull(files.deleted_at)));
+                .where(and(inArray(files.folderId, subtreeIds), isNull(files.deleted_at)))
+                .returning({ id: files.id });
             // Soft-delete the parent folder; subfolders stay hidden via the ancestor.
             await tx.update(folders)
                 .set({ deleted_at: now })
                 .where(and(eq(folders.id, folderId), eq(folders.userId, userId)));
+            return trashed;
         });
+        // Same as trashing the files one by one: their share links don't come back on restore
+        await revokeFileShareLinks(trashedFiles.map(f => f.id));
 
         logger.info(`[FOLDER-DELETE] Soft-deleted folder ${folderId} + cascaded trash across ${subtreeIds.length} folders`);
         res.json({ success: true, message: 'Folder moved to trash.' });
+        publishFolderChange(folderId, { type: 'folder_deleted', folder_id: folderId });
 
     } catch (error) {
         logger.error('[FOLDER-DELETE] ❌ Failed:', error);
@@ -251,6 +266,9 @@ router.post('/restore/:folderId', authenticateToken, async (req: AuthRequest, re
         });
 
         res.json({ success: true, message: 'Folder restored.' });
+        if (folder.parentId) {
+            publishFolderChange(folder.parentId, { type: 'folder_added', folder_id: folderId, parent_id: folder.parentId, encrypted_folder_name: folder.encrypted_folder_name });
+        }
     } catch (error) {
         logger.error('[FOLDER-RESTORE] ❌ Failed:', error);
         res.status(500).json({ error: 'Failed to restore folder' });
@@ -314,6 +332,8 @@ router.delete('/:folderId/permanent', authenticateToken, async (req: AuthRequest
                 }
             }
 
+            const versionBytes = await purgeFileVersions(file.id, 'user_permanent_delete');
+
             // Archive to graveyard + delete rows + decrement quota atomically.
             await db.transaction(async (tx) => {
                 if (file.jackal_fid || file.merkle_hash || file.obsideo_key) {
@@ -342,7 +362,7 @@ router.delete('/:folderId/permanent', authenticateToken, async (req: AuthRequest
                 await tx.delete(fileChunks).where(eq(fileChunks.fileId, file.id));
                 await tx.delete(files).where(eq(files.id, file.id));
                 await tx.update(users)
-                    .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
+                    .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size + versionBytes})` })
                     .where(eq(users.id, userId));
             });
 
@@ -453,6 +473,10 @@ router.put('/:folderId/move', authenticateToken, async (req: AuthRequest, res) =
 
         logger.info(`[FOLDER-MOVE] Moved folder ${folderId} to parent ${newParentId}`);
         res.json({ success: true, message: 'Folder moved successfully' });
+        publishFolderChange(folder.parentId, { type: 'folder_deleted', folder_id: folderId });
+        if (newParentId !== null) {
+            publishFolderChange(newParentId, { type: 'folder_added', folder_id: folderId, parent_id: newParentId, encrypted_folder_name: folder.encrypted_folder_name });
+        }
 
     } catch (error) {
         logger.error('[FOLDER-MOVE] ❌ Failed:', error);
@@ -460,4 +484,213 @@ router.put('/:folderId/move', authenticateToken, async (req: AuthRequest, res) =
     }
 });
 
+// ============================================================================
+// FOLDER SHARE LINKS (Read-only, zero-knowledge)
+// ============================================================================
+
+// Live (non-trashed) folder ids of a subtree, root first. Empty when the root isn't the user's.
+const getLiveSubtreeIds = async (folderId: number, userId: number): Promise<number[]> => {
+    const descendants = await db.execute(sql`
+        WITH RECURSIVE subfolders AS (
+            SELECT id FROM folders WHERE id = ${folderId} AND user_id = ${userId} AND deleted_at IS NULL
+            UNION ALL
+            SELECT f.id FROM folders f INNER JOIN subfolders s ON f.parent_id = s.id WHERE f.deleted_at IS NULL
+        )
+        SELECT id FROM subfolders
+    `);
+    const descendantRows = Array.isArray(descendants) ? descendants : (descendants as any).rows || [];
+    return descendantRows.map((r: any) => Number(r.id));
+};
+
+// Wrapped keys for everything under a folder, so the client can re-wrap them for a link
+router.get('/:folderId/share-tree', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const folderId = parseInt(req.params.folderId);
+
+    try {
+        const subtreeIds = await getLiveSubtreeIds(folderId, userId);
+        if (subtreeIds.length === 0) return res.status(404).json({ error: 'Folder not found' });
+
+        const subtreeFolders = await db.select().from(folders).where(inArray(folders.id, subtreeIds));
+        const subtreeFiles = await db.select().from(files).where(and(
+            eq(files.userId, userId),
+            inArray(files.folderId, subtreeIds),
+            eq(files.file_origin, 'private'),
+            isNull(files.deleted_at)
+        ));
+
+        res.json({
+            success: true,
+            folders: subtreeFolders.map(f => ({
+                id: f.id,
+                parent_id: f.parentId,
+                folder_key_encrypted: bufferToBase64(f.folder_key_encrypted),
+                folder_key_nonce: bufferToBase64(f.folder_key_nonce)
+            })),
+            files: subtreeFiles.map(f => ({
+                id: f.id,
+                folder_id: f.folderId,
+                file_size: f.file_size,
+                file_key_encrypted: bufferToBase64(f.file_key_encrypted),
+                file_key_nonce: bufferToBase64(f.file_key_nonce)
+            }))
+        });
+    } catch (error) {
+        logger.error('[FOLDER-SHARE-TREE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to load folder contents' });
+    }
+});
+
+// Every live file under a folder, whatever its origin (own, Drop Zone or collaborator uploads),
+// so the client can download the whole subtree
+router.get('/:folderId/tree', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const folderId = parseInt(req.params.folderId);
+
+    try {
+        const subtreeIds = await getLiveSubtreeIds(folderId, userId);
+        if (subtreeIds.length === 0) return res.status(404).json({ error: 'Folder not found' });
+
+        const subtreeFolders = await db.select({ id: folders.id, parent_id: folders.parentId }).from(folders).where(inArray(folders.id, subtreeIds));
+        const subtreeFiles = await db.select({
+            id: files.id,
+            folder_id: files.folderId,
+            file_size: files.file_size,
+            file_origin: files.file_origin,
+            encrypted_filename: files.encrypted_filename,
+            encrypted_mime_type: files.encrypted_mime_type,
+            created_at: files.created_at
+        }).from(files).where(and(
+            eq(files.userId, userId),
+            inArray(files.folderId, subtreeIds),
+            isNull(files.deleted_at)
+        ));
+
+        res.json({ success: true, folders: subtreeFolders, files: subtreeFiles });
+    } catch (error) {
+        logger.error('[FOLDER-TREE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to load folder contents' });
+    }
+});
+
+router.post('/:folderId/share', authenticateToken, validate(createFolderShareSchema), async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const folderId = parseInt(req.params.folderId);
+    const { folderKeyEncrypted, folderKeyNonce, hostLinkKeyEncrypted, hostLinkKeyNonce, encryptedName, password, max_downloads, expires_at, entries } = req.body;
+
+    try {
+        // Check storage quota BEFORE sharing
+        const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+        if (user && (user.storage_used_bytes || 0) > (user.storage_quota_bytes || 0)) {
+            return res.status(403).json({ error: 'Storage quota exceeded. Sharing is disabled.' });
+        }
+
+        const subtreeIds = await getLiveSubtreeIds(folderId, userId);
+        if (subtreeIds.length === 0) return res.status(404).json({ error: 'Folder not found' });
+
+        // Every entry must sit inside the shared subtree
+        const subtree = new Set(subtreeIds);
+        const fileEntries = (entries as any[]).filter(e => e.type === 'file');
+        const folderEntries = (entries as any[]).filter(e => e.type === 'folder');
+
+        if (entries.some((e: any) => !subtree.has(e.parentId)) || folderEntries.some(e => !subtree.has(e.id) || e.id === folderId)) {
+            return res.status(400).json({ error: 'Entries must belong to the shared folder' });
+        }
+        if (fileEntries.some(e => !e.fileKeyEncrypted || !e.fileKeyNonce)) {
+            return res.status(400).json({ error: 'File entries require a wrapped file key' });
+        }
+        if (fileEntries.length > 0) {
+            const ownedFiles = await db.select({ id: files.id, folderId: files.folderId }).from(files).where(and(
+                eq(files.userId, userId),
+                inArray(files.id, fileEntries.map(e => e.id)),
+                isNull(files.deleted_at)
+            ));
+            const owned = new Map(ownedFiles.map(f => [f.id, f.folderId]));
+            if (fileEntries.some(e => owned.get(e.id) !== e.parentId)) {
+                return res.status(400).json({ error: 'Entries must belong to the shared folder' });
+            }
+        }
+
+        const token = crypto.randomBytes(16).toString('hex');
+        const password_hash = password ? await bcrypt.hash(password, 10) : null;
+
+        const share = await db.transaction(async (tx) => {
+            const [created] = await tx.insert(folderShareLinks).values({
+                userId,
+                folderId,
+                token,
+                link_folder_key_encrypted: base64ToBuffer(folderKeyEncrypted),
+                link_folder_key_nonce: base64ToBuffer(folderKeyNonce),
+                host_link_key_encrypted: base64ToBuffer(hostLinkKeyEncrypted),
+                host_link_key_nonce: base64ToBuffer(hostLinkKeyNonce),
+                encrypted_folder_name: encryptedName,
+                password_hash,
+                max_downloads: max_downloads ?? null,
+                expires_at: expires_at ? new Date(expires_at) : null
+            }).returning();
+
+            if (entries.length > 0) {
+                await tx.insert(folderShareEntries).values(entries.map((e: any) => ({
+                    shareId: created.id,
+                    folderId: e.type === 'folder' ? e.id : null,
+                    fileId: e.type === 'file' ? e.id : null,
+                    parent_folder_id: e.parentId,
+                    file_key_encrypted: e.fileKeyEncrypted ? base64ToBuffer(e.fileKeyEncrypted) : null,
+                    file_key_nonce: e.fileKeyNonce ? base64ToBuffer(e.fileKeyNonce) : null,
+                    encrypted_meta: e.encryptedMeta
+                })));
+            }
+
+            await tx.insert(shareAuditLog).values({
+                share_type: 'folder_link',
+                share_id: created.id,
+                action: 'link_created',
+                actor: userId.toString(),
+                timestamp: new Date()
+            });
+
+            return created;
+        });
+
+        logger.info(`[FOLDER-SHARE] Created link ${share.id} for folder ${folderId} (${fileEntries.length} files, ${folderEntries.length} subfolders)`);
+        res.json({ success: true, share_id: share.id, share_token: token });
+    } catch (error) {
+        logger.error('[FOLDER-SHARE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to create folder share link' });
+    }
+});
+
+router.delete('/:folderId/share/:shareId', authenticateToken, async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const folderId = parseInt(req.params.folderId);
+    const shareId = parseInt(req.params.shareId);
+
+    try {
+        const [revoked] = await db.update(folderShareLinks)
+            .set({ revoked_at: new Date() })
+            .where(and(
+                eq(folderShareLinks.id, shareId),
+                eq(folderShareLinks.folderId, folderId),
+                eq(folderShareLinks.userId, userId),
+                isNull(folderShareLinks.revoked_at)
+            ))
+            .returning({ id: folderShareLinks.id });
+
+        if (!revoked) return res.status(404).json({ error: 'Share link not found' });
+
+        await db.insert(shareAuditLog).values({
+            share_type: 'folder_link',
+            share_id: shareId,
+            action: 'revoked',
+            actor: userId.toString(),
+            timestamp: new Date()
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('[FOLDER-SHARE-REVOKE] ❌ Failed:', error);
+        res.status(500).json({ error: 'Failed to revoke folder share link' });
+    }
+});
+
 export default router;
@@ -0,0 +1,72 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { metadataChangesSchema, writeMetadataRecordsSchema, migrateMetadataSchema } from '../schemas/metadataRecords';
+import {
+    getMetadataFormat,
+    listMetadataChanges,
+    writeMetadataRecords,
+    migrateToRecords,
+    METADATA_FORMAT_RECORDS
+} from '../services/metadataRecords';
+import logger from '../utils/logger';
+
+// Mounted at /api/auth/metadata: per-item metadata records (format 2). The whole-blob
+// GET/POST /api/auth/metadata stays in routes/auth.ts for accounts not migrated yet.
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Delta feed: records written after `since` (0 = everything) plus the version to ask from next time
+router.get('/changes', validate(metadataChangesSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const state = await getMetadataFormat(userId);
+        if (!state) return res.status(404).json({ error: 'No metadata for this account' });
+        if (state.format !== METADATA_FORMAT_RECORDS) {
+            return res.status(409).json({ error: 'Metadata has not been migrated to records', metadataFormat: state.format });
+        }
+
+        // Read the version first: anything committed in between shows up again next poll, never goes missing
+        const since = Number(req.query.since);
+        const records = await listMetadataChanges(userId, since);
+        res.json({ version: state.version, records });
+    } catch (e) {
+        logger.error('[METADATA-RECORDS] ❌ Changes failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/records', validate(writeMetadataRecordsSchema), async (req: AuthRequest, res) => {
+    try {
+        const { upserts, deletes } = req.body;
+        const version = await writeMetadataRecords(req.user!.userId, upserts, deletes);
+        if (version === null) {
+            return res.status(409).json({ error: 'Metadata has not been migrated to records' });
+        }
+        res.json({ success: true, version });
+    } catch (e) {
+        logger.error('[METADATA-RECORDS] ❌ Write failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// One-time switch from the blob: the browser decrypts it and uploads every entry as a record
+router.post('/migrate', validate(migrateMetadataSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const { metadata_version, records } = req.body;
+        const version = await migrateToRecords(userId, metadata_version, records);
+        if (version === null) {
+            return res.status(409).json({ error: 'Metadata changed or was already migrated' });
+        }
+
+        logger.info(`[METADATA-RECORDS] User ${userId} migrated ${records.length} item(s) to records`);
+        res.json({ success: true, version });
+    } catch (e) {
+        logger.error('[METADATA-RECORDS] ❌ Migration failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 import express from 'express';
 import { db } from '../db';
-import { files, collabFolders, dropZones } from '../db/schema';
+import { collabFolders, dropZones } from '../db/schema';
 import { eq, and, isNull, or } from 'drizzle-orm';
 import { env } from '../config/env';
+import { findFileShareLink, linkBlockReason } from '../services/fileShareLinks';
 
 const router = express.Router();
 
@@ -61,18 +62,8 @@ const generateOGHtml = (
 router.get('/s/:tokenOrSlug', async (req, res) => {
     const { tokenOrSlug } = req.params;
     try {
-        const [file] = await db.select().from(files)
-            .where(
-                and(
-                    or(eq(files.share_token, tokenOrSlug), eq(files.share_custom_slug, tokenOrSlug)),
-                    isNull(files.deleted_at)
-                )
-            )
-            .limit(1);
-
-        const isDead = !file || !file.share_token || 
-            (file.share_expires_at && new Date(file.share_expires_at) < new Date()) ||
-            (file.share_max_downloads && file.share_download_count >= file.share_max_downloads);
+        const share = await findFileShareLink(tokenOrSlug);
+        const isDead = !share || linkBlockReason(share.link) !== null;
 
         if (isDead) {
             return res.status(410).send(generateOGHtml('Nest', 'This link is no longer available', 's', tokenOrSlug, true));
@@ -0,0 +1,73 @@
+import express from 'express';
+import { db } from '../db';
+import { userCrypto } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { saveRecoveryKeySchema } from '../schemas/auth';
+import { base64ToBuffer } from '../crypto/keyManagement';
+import logger from '../utils/logger';
+
+// Mounted at /api/auth/recovery: the master key wrapped under the user's recovery phrase.
+// The phrase and the recovery wrapping key never leave the client.
+const router = express.Router();
+
+router.use(authenticateToken);
+
+router.get('/', async (req: AuthRequest, res) => {
+    try {
+        const [row] = await db.select({ createdAt: userCrypto.recovery_key_created_at })
+            .from(userCrypto)
+            .where(eq(userCrypto.userId, req.user!.userId))
+            .limit(1);
+
+        res.json({ enabled: !!row?.createdAt, createdAt: row?.createdAt ?? null });
+    } catch (e) {
+        logger.error('[RECOVERY] ❌ Status failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Set up or regenerate: the new envelope replaces the old one, so the previous phrase stops working
+router.put('/', validate(saveRecoveryKeySchema), async (req: AuthRequest, res) => {
+    const { encryptedMasterKey, encryptedMasterKeyNonce } = req.body;
+
+    try {
+        const createdAt = new Date();
+        await db.update(userCrypto)
+            .set({
+                recovery_encrypted_master_key: base64ToBuffer(encryptedMasterKey),
+                recovery_master_key_nonce: base64ToBuffer(encryptedMasterKeyNonce),
+                recovery_key_created_at: createdAt,
+                updated_at: createdAt
+            })
+            .where(eq(userCrypto.userId, req.user!.userId));
+
+        logger.info(`[RECOVERY] ✅ Recovery phrase set for user ${req.user!.userId}`);
+        res.json({ enabled: true, createdAt });
+    } catch (e) {
+        logger.error('[RECOVERY] ❌ Save failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.delete('/', async (req: AuthRequest, res) => {
+    try {
+        await db.update(userCrypto)
+            .set({
+                recovery_encrypted_master_key: null,
+                recovery_master_key_nonce: null,
+                recovery_key_created_at: null,
+                updated_at: new Date()
+            })
+            .where(eq(userCrypto.userId, req.user!.userId));
+
+        logger.info(`[RECOVERY] Recovery phrase revoked for user ${req.user!.userId}`);
+        res.json({ enabled: false });
+    } catch (e) {
+        logger.error('[RECOVERY] ❌ Revoke failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { sessionIdSchema } from '../schemas/auth';
+import { listSessions, revokeSession, revokeOtherSessions } from '../services/sessions';
+import logger from '../utils/logger';
+
+// Mounted at /api/auth/sessions: the signed-in user's own refresh-token sessions.
+const router = express.Router();
+
+router.use(authenticateToken);
+
+router.get('/', async (req: AuthRequest, res) => {
+    try {
+        const sessions = await listSessions(req.user!.userId, req.user!.sid);
+        res.json({ sessions });
+    } catch (e) {
+        logger.error('[SESSIONS] ❌ List failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// "Sign out everywhere else"
+router.delete('/', async (req: AuthRequest, res) => {
+    const currentSessionId = req.user!.sid;
+    if (!currentSessionId) {
+        // Access tokens issued before sessions were tracked; the next refresh adds `sid`
+        return res.status(409).json({ error: 'Please reload the page and try again' });
+    }
+
+    try {
+        const revoked = await revokeOtherSessions(req.user!.userId, currentSessionId);
+        logger.info(`[SESSIONS] User ${req.user!.userId} signed out ${revoked} other session(s)`);
+        res.json({ success: true, revoked });
+    } catch (e) {
+        logger.error('[SESSIONS] ❌ Revoke others failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.delete('/:id', validate(sessionIdSchema), async (req: AuthRequest, res) => {
+    try {
+        const revoked = await revokeSession(req.user!.userId, Number(req.params.id));
+        if (!revoked) return res.status(404).json({ error: 'Session not found' });
+
+        logger.info(`[SESSIONS] User ${req.user!.userId} revoked session ${req.params.id}`);
+        res.json({ success: true });
+    } catch (e) {
+        logger.error('[SESSIONS] ❌ Revoke failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+export default router;
@@ -3,16 +3,16 @@ import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import fs from 'fs';
-import path from 'path';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { shareLimiter } from '../middleware/rateLimiter';
 import { db } from '../db';
-import { files, collabFolders, collabAccessList, dropZones, dropZoneFiles, shareAuditLog, fileChunks } from '../db/schema';
+import { files, folders, collabFolders, collabAccessList, dropZones, dropZoneFiles, shareAuditLog, fileChunks, folderShareLinks, folderShareEntries, fileShareLinks } from '../db/schema';
 import { eq, and, isNull, sql, or, isNotNull, desc, inArray } from 'drizzle-orm';
 import { env } from '../config/env';
 import logger from '../utils/logger';
-import { getStorageProvider } from '../storage';
 import { bufferToBase64 } from '../crypto/keyManagement';
+import { findFileShareLink, linkBlockReason, consumeFileShareDownload } from '../services/fileShareLinks';
+import { sendStoredObject, chunkPart, blobPart, countDownloadOnce } from '../services/objectStreaming';
 
 const router = express.Router();
 
@@ -34,6 +34,28 @@ const verifyPasswordToken = (shareToken: string, authHeader: string | undefined)
     }
 };
 
+type FileRow = typeof files.$inferSelect;
+
+// Streams one encrypted chunk, hydrating it from the storage backend when it's no longer on local disk
+const streamFileChunk = async (req: express.Request, res: express.Response, file: FileRow, chunkIndex: number) => {
+    const [chunk] = await db.select().from(fileChunks)
+        .where(and(eq(fileChunks.fileId, file.id), eq(fileChunks.chunk_index, chunkIndex)))
+        .limit(1);
+
+    if (!chunk) return res.status(404).json({ error: 'Chunk not found' });
+
+    if (!await sendStoredObject(req, res, [chunkPart(chunk)], file.storage_provider)) {
+        res.status(404).json({ error: 'Chunk unavailable' });
+    }
+};
+
+// Streams the whole encrypted blob of a non-chunked file
+const streamRawFile = async (req: express.Request, res: express.Response, file: FileRow) => {
+    if (!await sendStoredObject(req, res, [blobPart(file)], file.storage_provider)) {
+        res.status(404).json({ error: 'File content unavailable' });
+    }
+};
+
 // ============================================================================
 // CLIENT ENDPOINTS (Auth Required)
 // ============================================================================
@@ -43,24 +65,27 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
 
     try {
-        // A. Fetch Standard Links (files owned by user with share_token or custom_slug)
+        // A. Fetch Standard Links (every live link on files the user still has)
         const standardLinks = await db.select({
-            id: files.id,
-            share_token: files.share_token,
-            custom_slug: files.share_custom_slug,
+            id: fileShareLinks.id,
+            file_id: fileShareLinks.fileId,
+            share_token: fileShareLinks.token,
+            custom_slug: fileShareLinks.custom_slug,
+            label: fileShareLinks.label,
             file_size: files.file_size,
-            share_expires_at: files.share_expires_at,
-            share_max_downloads: files.share_max_downloads,
-            share_download_count: files.share_download_count,
-            created_at: files.created_at,
-            has_password: sql<boolean>`CASE WHEN ${files.share_password_hash} IS NOT NULL THEN true ELSE false END`
+            share_expires_at: fileShareLinks.expires_at,
+            share_max_downloads: fileShareLinks.max_downloads,
+            share_download_count: fileShareLinks.download_count,
+            created_at: fileShareLinks.created_at,
+            has_password: sql<boolean>`CASE WHEN ${fileShareLinks.password_hash} IS NOT NULL THEN true ELSE false END`
         })
-        .from(files)
+        .from(fileShareLinks)
+        .innerJoin(files, eq(files.id, fileShareLinks.fileId))
         .where(
             and(
-                eq(files.userId, userId),
-                isNull(files.deleted_at),
-                or(isNotNull(files.share_token), isNotNull(files.share_custom_slug))
+                eq(fileShareLinks.userId, userId),
+                isNull(fileShareLinks.revoked_at),
+                isNull(files.deleted_at)
             )
         );
 
@@ -72,6 +97,7 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
             custom_slug: dropZones.custom_slug,
             require_pin: dropZones.require_pin,
             expires_at: dropZones.expires_at,
+            closed_at: dropZones.closed_at,
             created_at: dropZones.created_at
         })
         .from(dropZones)
@@ -92,15 +118,32 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
         .from(collabFolders)
         .where(and(eq(collabFolders.userId, userId), isNull(collabFolders.revoked_at)));
 
+        // D. Fetch Folder Links
+        const activeFolderLinks = await db.select({
+            id: folderShareLinks.id,
+            token: folderShareLinks.token,
+            folder_id: folderShareLinks.folderId,
+            host_link_key_encrypted: folderShareLinks.host_link_key_encrypted,
+            host_link_key_nonce: folderShareLinks.host_link_key_nonce,
+            max_downloads: folderShareLinks.max_downloads,
+            download_count: folderShareLinks.download_count,
+            expires_at: folderShareLinks.expires_at,
+            created_at: folderShareLinks.created_at,
+            has_password: sql<boolean>`CASE WHEN ${folderShareLinks.password_hash} IS NOT NULL THEN true ELSE false END`
+        })
+        .from(folderShareLinks)
+        .where(and(eq(folderShareLinks.userId, userId), isNull(folderShareLinks.revoked_at)));
+
         // Build audit log aggregations
         // 1. Standard Link views / downloads
-        const fileIds = standardLinks.map(l => l.id);
+        const fileLinkIds = standardLinks.map(l => l.id);
         const dzIds = activeDropZones.map(dz => dz.id);
         const collabIds = activeCollabFolders.map(c => c.id);
+        const folderLinkIds = activeFolderLinks.map(l => l.id);
 
         let whereClause = sql`FALSE`;
-        if (fileIds.length > 0) {
-            whereClause = or(whereClause, and(eq(shareAuditLog.share_type, 'standard_link'), inArray(shareAuditLog.share_id, fileIds)))!;
+        if (fileLinkIds.length > 0) {
+            whereClause = or(whereClause, and(eq(shareAuditLog.share_type, 'standard_link'), inArray(shareAuditLog.share_id, fileLinkIds)))!;
         }
         if (dzIds.length > 0) {
             whereClause = or(whereClause, and(eq(shareAuditLog.share_type, 'drop_zone'), inArray(shareAuditLog.share_id, dzIds)))!;
@@ -108,9 +151,12 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
         if (collabIds.length > 0) {
             whereClause = or(whereClause, and(eq(shareAuditLog.share_type, 'collab_folder'), inArray(shareAuditLog.share_id, collabIds)))!;
         }
+        if (folderLinkIds.length > 0) {
+            whereClause = or(whereClause, and(eq(shareAuditLog.share_type, 'folder_link'), inArray(shareAuditLog.share_id, folderLinkIds)))!;
+        }
 
         let auditStats: any[] = [];
-        if (fileIds.length > 0 || dzIds.length > 0 || collabIds.length > 0) {
+        if (fileLinkIds.length > 0 || dzIds.length > 0 || collabIds.length > 0 || folderLinkIds.length > 0) {
             auditStats = await db.select({
                 share_id: shareAuditLog.share_id,
                 share_type: shareAuditLog.share_type,
@@ -150,23 +196,43 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 
         // 3. Collab Folder access emails list — scoped to this user's collab folders
         // only (without the WHERE this scanned the entire collab_access_list table).
-        let collabEmails: { collab_id: number; email: string }[] = [];
+        let collabEmails: { collab_id: number; email: string; role: string }[] = [];
         if (collabIds.length > 0) {
             collabEmails = await db.select({
                 collab_id: collabAccessList.collabId,
-                email: collabAccessList.email
+                email: collabAccessList.email,
+                role: collabAccessList.role
             })
             .from(collabAccessList)
             .where(inArray(collabAccessList.collabId, collabIds));
         }
 
         const collabEmailsMap: Record<number, string[]> = {};
+        const collabRolesMap: Record<number, Record<string, string>> = {};
         collabEmails.forEach(record => {
             if (!collabEmailsMap[record.collab_id]) collabEmailsMap[record.collab_id] = [];
             collabEmailsMap[record.collab_id].push(record.email);
+            (collabRolesMap[record.collab_id] ??= {})[record.email] = record.role;
         });
 
-        // D. Combine and normalize response rows
+        // 4. Folder Link file counts
+        let folderLinkFileStats: { share_id: number; count: number }[] = [];
+        if (folderLinkIds.length > 0) {
+            folderLinkFileStats = await db.select({
+                share_id: folderShareEntries.shareId,
+                count: sql<number>`count(*)::int`
+            })
+            .from(folderShareEntries)
+            .where(and(inArray(folderShareEntries.shareId, folderLinkIds), isNotNull(folderShareEntries.fileId)))
+            .groupBy(folderShareEntries.shareId);
+        }
+
+        const folderLinkFilesMap: Record<number, number> = {};
+        folderLinkFileStats.forEach(stat => {
+            folderLinkFilesMap[stat.share_id] = stat.count;
+        });
+
+        // E. Combine and normalize response rows
         const normalizedRows = [
             ...standardLinks.map(link => {
                 const statsKey = `standard_link_${link.id}`;
@@ -185,6 +251,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
                 return {
                     id: link.id,
                     type: 'standard_link',
+                    file_id: link.file_id,
+                    label: link.label,
                     token: link.share_token,
                     custom_slug: link.custom_slug,
                     size: link.file_size,
@@ -203,6 +271,9 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
                 const filesCount = dzFilesMap[dz.id] || 0;
                 
                 let status = 'active';
+                if (dz.closed_at) {
+                    status = 'closed';
+                }
                 if (dz.expires_at && new Date(dz.expires_at) < new Date()) {
                     status = 'expired';
                 }
@@ -243,9 +314,37 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
                     expires_at: collab.expires_at,
                     views,
                     collaborators,
+                    collaborator_roles: collabRolesMap[collab.id] || {},
                     status,
                     created_at: collab.created_at
                 };
+            }),
+            ...activeFolderLinks.map(link => {
+                const statsKey = `folder_link_${link.id}`;
+                const views = statsMap[statsKey]?.['view'] || 0;
+
+                let status = 'active';
+                if (link.expires_at && new Date(link.expires_at) < new Date()) {
+                    status = 'expired';
+                }
+
+                return {
+                    id: link.id,
+                    type: 'folder_link',
+                    token: link.token,
+                    folder_id: link.folder_id,
+                    custom_slug: null,
+                    has_password: link.has_password,
+                    expires_at: link.expires_at,
+                    max_downloads: link.max_downloads,
+                    host_link_key_encrypted: bufferToBase64(link.host_link_key_encrypted),
+                    host_link_key_nonce: bufferToBase64(link.host_link_key_nonce),
+                    views,
+                    downloads: link.download_count,
+                    files_count: folderLinkFilesMap[link.id] || 0,
+                    status,
+                    created_at: link.created_at
+                };
             })
         ];
 
@@ -275,9 +374,9 @@ router.get('/slug-check', authenticateToken, async (req: AuthRequest, res) => {
 
     try {
         // Check standard links
-        const [existingFile] = await db.select({ id: files.id })
-            .from(files)
-            .where(eq(files.share_custom_slug, slug))
+        const [existingFile] = await db.select({ id: fileShareLinks.id })
+            .from(fileShareLinks)
+            .where(eq(fileShareLinks.custom_slug, slug))
             .limit(1);
         if (existingFile) return res.json({ available: false, reason: 'Slug already taken' });
 
@@ -306,49 +405,69 @@ router.get('/slug-check', authenticateToken, async (req: AuthRequest, res) => {
 // PUBLIC ACCESS ENDPOINTS (No Auth Required)
 // ============================================================================
 
-// 3. GET /api/shares/s/:tokenOrSlug - Get public share metadata
-router.get('/s/:tokenOrSlug', shareLimiter, async (req, res) => {
-    const { tokenOrSlug } = req.params;
-    const authHeader = req.headers.authorization;
+type StandardShare = NonNullable<Awaited<ReturnType<typeof findFileShareLink>>>;
+
+// Resolves a usable file link, or answers with the matching 410/401 and returns null
+const resolveStandardShare = async (
+    tokenOrSlug: string,
+    authHeader: string | undefined,
+    res: express.Response,
+    passwordError: object = { error: 'Access denied: Password verification required' }
+): Promise<StandardShare | null> => {
+    const share = await findFileShareLink(tokenOrSlug);
+    if (!share) {
+        res.status(410).json({ error: 'This link has been revoked by the owner.', revoked: true });
+        return null;
+    }
 
-    try {
-        // Query by share_token or custom_slug
-        const [file] = await db.select().from(files)
-            .where(
-                and(
-                    or(eq(files.share_token, tokenOrSlug), eq(files.share_custom_slug, tokenOrSlug)),
-                    isNull(files.deleted_at)
-                )
-            )
-            .limit(1);
+    const blocked = linkBlockReason(share.link);
+    if (blocked === 'expired') {
+        res.status(410).json({ error: 'This link has expired.', expired: true });
+        return null;
+    }
+    if (blocked === 'limit_reached') {
+        res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
+        return null;
+    }
 
-        if (!file || !file.share_token) {
-            return res.status(410).json({ error: 'This link has been revoked by the owner.', revoked: true });
-        }
+    if (share.link.password_hash !== null && !verifyPasswordToken(share.link.token, authHeader)) {
+        res.status(401).json(passwordError);
+        return null;
+    }
 
-        // Check Expiry
-        if (file.share_expires_at && new Date(file.share_expires_at) < new Date()) {
-            return res.status(410).json({ error: 'This link has expired.', expired: true });
-        }
+    return share;
+};
 
-        // Check Download Limit
-        if (file.share_max_downloads && file.share_download_count >= file.share_max_downloads) {
-            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
-        }
+// Counts a download against the link (revoking single-use links) and logs it. False when the cap was hit concurrently.
+const countStandardShareDownload = async ({ link, file }: StandardShare): Promise<boolean> => {
+    if (!await consumeFileShareDownload(link)) return false;
+
+    await db.insert(shareAuditLog).values({
+        share_type: 'standard_link',
+        share_id: link.id,
+        action: 'download',
+        actor: 'anonymous',
+        filename: file.jackal_filename || `file_${file.id}`,
+        timestamp: new Date()
+    });
+
+    if (link.max_downloads === 1) {
+        logger.info(`[GHOST-LINK] Link ${link.id} auto-revoked after 1 download: File ID ${file.id}`);
+    }
+    return true;
+};
 
-        // Check Password protection
-        const isProtected = file.share_password_hash !== null;
-        if (isProtected) {
-            const hasAccess = verifyPasswordToken(file.share_token, authHeader);
-            if (!hasAccess) {
-                return res.status(401).json({ error: 'Password required', password_required: true });
-            }
-        }
+// 3. GET /api/shares/s/:tokenOrSlug - Get public share metadata
+router.get('/s/:tokenOrSlug', shareLimiter, async (req, res) => {
+    try {
+        const share = await resolveStandardShare(req.params.tokenOrSlug, req.headers.authorization, res, { error: 'Password required', password_required: true });
+        if (!share) return;
+        const { link, file } = share;
 
         // Log audit view event
         await db.insert(shareAuditLog).values({
             share_type: 'standard_link',
-            share_id: file.id,
+            share_id: link.id,
             action: 'view',
             actor: 'anonymous',
             timestamp: new Date()
@@ -361,7 +480,7 @@ router.get('/s/:tokenOrSlug', shareLimiter, async (req, res) => {
         res.json({
             success: true,
             file_id: file.id,
-            share_token: file.share_token,
+            share_token: link.token,
             file_size: file.file_size,
             jackal_fid: file.obsideo_key ?? file.jackal_fid,
             merkle_hash: file.obsideo_key ?? file.merkle_hash,
@@ -389,114 +508,17 @@ router.get('/s/:tokenOrSlug/chunk/:index', shareLimiter, async (req, res) => {
     const authHeader = req.headers.authorization || (req.query.token ? `Bearer ${req.query.token}` : undefined);
 
     try {
-        const [file] = await db.select().from(files)
-            .where(
-                and(
-                    or(eq(files.share_token, tokenOrSlug), eq(files.share_custom_slug, tokenOrSlug)),
-                    isNull(files.deleted_at)
-                )
-            )
-            .limit(1);
-
-        if (!file || !file.share_token) {
-            return res.status(410).json({ error: 'This link has been revoked by the owner.', revoked: true });
-        }
-
-        // Check Expiry
-        if (file.share_expires_at && new Date(file.share_expires_at) < new Date()) {
-            return res.status(410).json({ error: 'This link has expired.', expired: true });
-        }
-
-        // Check Download Limit
-        if (file.share_max_downloads && file.share_download_count >= file.share_max_downloads) {
-            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
-        }
-
-        // Check Password protection
-        if (file.share_password_hash !== null) {
-            const hasAccess = verifyPasswordToken(file.share_token, authHeader);
-            if (!hasAccess) {
-                return res.status(401).json({ error: 'Access denied: Password verification required' });
-            }
-        }
+        const share = await resolveStandardShare(tokenOrSlug, authHeader, res);
+        if (!share) return;
 
         const chunkIndex = parseInt(index);
 
-        // Increment Download Count & Check Max ONLY on first chunk!
-        if (chunkIndex === 0) {
-            const isGhostLink = file.share_max_downloads === 1;
-
-            let updateWhereClause = eq(files.id, file.id);
-            if (file.share_max_downloads) {
-                updateWhereClause = and(updateWhereClause, sql`${files.share_download_count} < ${file.share_max_downloads}`)!;
-            }
-
-            const [updatedFile] = await db.update(files)
-                .set({ 
-                    share_download_count: sql<number>`${files.share_download_count} + 1`,
-                    ...(isGhostLink ? { share_token: null, share_custom_slug: null } : {})
-                })
-                .where(updateWhereClause)
-                .returning();
-            
-            if (!updatedFile) {
-                return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
-            }
-
-            // Log audit download event
-            await db.insert(shareAuditLog).values({
-                share_type: 'standard_link',
-                share_id: file.id,
-                action: 'download',
-                actor: 'anonymous',
-                filename: file.jackal_filename || `file_${file.id}`,
-                timestamp: new Date()
-            });
-
-            if (isGhostLink) {
-                logger.info(`[GHOST-LINK] Link auto-revoked after 1 download (chunked): File ID ${file.id}`);
-            }
-        }
-
-        const [chunk] = await db.select().from(fileChunks)
-            .where(and(eq(fileChunks.fileId, file.id), eq(fileChunks.chunk_index, chunkIndex)))
-            .limit(1);
-
-        if (!chunk) return res.status(404).json({ error: 'Chunk not found' });
-
-        let chunkPath = chunk.local_path;
-        let isTemp = false;
-
-        // Auto-hydration for Shared Chunks
-        if (!chunkPath || !fs.existsSync(chunkPath)) {
-            const storageKey = chunk.obsideo_key ?? chunk.jackal_merkle;
-            if (storageKey && storageKey !== 'pending') {
-                const provider = getStorageProvider(file.storage_provider);
-                const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_share_${chunk.id}_${Date.now()}`);
-                const success = await provider.download(storageKey, `chunk_${chunk.chunk_index}`, tempPath);
-                if (success) {
-                    chunkPath = tempPath;
-                    isTemp = true;
-                }
-            }
+        // Increment Download Count & Check Max ONLY on first chunk (and not when resuming it)!
+        if (chunkIndex === 0 && !await countDownloadOnce(req, res, `share:${share.link.id}:chunk`, () => countStandardShareDownload(share))) {
+            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
         }
 
-        if (chunkPath && fs.existsSync(chunkPath)) {
-            res.setHeader('Content-Type', 'application/octet-stream');
-            res.setHeader('Content-Length', chunk.size);
-
-            const stream = fs.createReadStream(chunkPath);
-            stream.pipe(res);
-
-            stream.on('end', () => {
-                if (isTemp) fs.unlink(chunkPath!, () => { });
-            });
-            stream.on('error', () => {
-                if (isTemp) fs.unlink(chunkPath!, () => { });
-            });
-        } else {
-            return res.status(404).json({ error: 'Chunk unavailable' });
-        }
+        await streamFileChunk(req, res, share.file, chunkIndex);
     } catch (error) {
         logger.error('[SHARE-CHUNK] Failed:', error);
         res.status(500).json({ error: 'Chunk access failed' });
@@ -511,32 +533,25 @@ router.post('/s/:tokenOrSlug/verify-password', shareLimiter, async (req, res) =>
     if (!password) return res.status(400).json({ error: 'Password is required' });
 
     try {
-        const [file] = await db.select().from(files)
-            .where(
-                and(
-                    or(eq(files.share_token, tokenOrSlug), eq(files.share_custom_slug, tokenOrSlug)),
-                    isNull(files.deleted_at)
-                )
-            )
-            .limit(1);
-
-        if (!file || !file.share_token) {
+        const share = await findFileShareLink(tokenOrSlug);
+        if (!share) {
             return res.status(404).json({ error: 'Share link not found' });
         }
+        const { link } = share;
 
-        if (!file.share_password_hash) {
+        if (!link.password_hash) {
             return res.status(400).json({ error: 'This share link is not password protected' });
         }
 
         // Check password
-        const isMatch = await bcrypt.compare(password, file.share_password_hash);
+        const isMatch = await bcrypt.compare(password, link.password_hash);
         if (!isMatch) {
             return res.status(401).json({ error: 'Incorrect password. Please try again.' });
         }
 
         // Generate stateless JWT token
         const token = jwt.sign(
-            { shareToken: file.share_token, role: 'share_viewer' },
+            { shareToken: link.token, role: 'share_viewer' },
             env.JWT_SECRET,
             { expiresIn: '2h' }
         );
@@ -554,129 +569,264 @@ router.get('/s/:tokenOrSlug/raw', shareLimiter, async (req, res) => {
     const authHeader = req.headers.authorization || (req.query.token ? `Bearer ${req.query.token}` : undefined);
 
     try {
-        const [file] = await db.select().from(files)
-            .where(
-                and(
-                    or(eq(files.share_token, tokenOrSlug), eq(files.share_custom_slug, tokenOrSlug)),
-                    isNull(files.deleted_at)
-                )
-            )
-            .limit(1);
+        const share = await resolveStandardShare(tokenOrSlug, authHeader, res);
+        if (!share) return;
 
-        if (!file || !file.share_token) {
-            return res.status(410).json({ error: 'This link has been revoked by the owner.', revoked: true });
+        if (!await countDownloadOnce(req, res, `share:${share.link.id}:raw`, () => countStandardShareDownload(share))) {
+            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
         }
 
-        // Check Expiry
-        if (file.share_expires_at && new Date(file.share_expires_at) < new Date()) {
-            return res.status(410).json({ error: 'This link has expired.', expired: true });
-        }
+        await streamRawFile(req, res, share.file);
 
-        // Check Download Limit
-        if (file.share_max_downloads && file.share_download_count >= file.share_max_downloads) {
-            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
-        }
+    } catch (error) {
+        logger.error('[SHARES-PUBLIC-RAW] Failed:', error);
+        if (!res.headersSent) res.status(500).json({ error: 'Internal server error during download' });
+    }
+});
 
-        // Check Password protection
-        if (file.share_password_hash !== null) {
-            const hasAccess = verifyPasswordToken(file.share_token, authHeader);
-            if (!hasAccess) {
-                return res.status(401).json({ error: 'Access denied: Password verification required' });
-            }
-        }
+// ============================================================================
+// PUBLIC FOLDER LINKS (/s/f/:token) — keys arrive wrapped, the link key stays in the URL fragment
+// ============================================================================
 
-        // Increment Download Count & Check Max
-        const isGhostLink = file.share_max_downloads === 1;
+type FolderShareRow = typeof folderShareLinks.$inferSelect;
 
-        let updateWhereClause = eq(files.id, file.id);
-        if (file.share_max_downloads) {
-            updateWhereClause = and(updateWhereClause, sql`${files.share_download_count} < ${file.share_max_downloads}`)!;
-        }
+// Resolves a usable folder link, or answers with the matching 410/401 and returns null
+const resolveFolderShare = async (token: string, authHeader: string | undefined, res: express.Response): Promise<FolderShareRow | null> => {
+    const [link] = await db.select().from(folderShareLinks)
+        .where(and(eq(folderShareLinks.token, token), isNull(folderShareLinks.revoked_at)))
+        .limit(1);
 
-        const [updatedFile] = await db.update(files)
-            .set({ 
-                share_download_count: sql<number>`${files.share_download_count} + 1`,
-                ...(isGhostLink ? { share_token: null, share_custom_slug: null } : {})
-            })
-            .where(updateWhereClause)
-            .returning();
-        
-        if (!updatedFile) {
-            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
-        }
+    // Trashing the shared folder takes the link down with it
+    const [folder] = link
+        ? await db.select({ id: folders.id }).from(folders).where(and(eq(folders.id, link.folderId), isNull(folders.deleted_at))).limit(1)
+        : [];
+
+    if (!link || !folder) {
+        res.status(410).json({ error: 'This link has been revoked by the owner.', revoked: true });
+        return null;
+    }
+
+    if (link.expires_at && new Date(link.expires_at) < new Date()) {
+        res.status(410).json({ error: 'This link has expired.', expired: true });
+        return null;
+    }
+
+    if (link.max_downloads && link.download_count >= link.max_downloads) {
+        res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
+        return null;
+    }
+
+    if (link.password_hash !== null && !verifyPasswordToken(link.token, authHeader)) {
+        res.status(401).json({ error: 'Password required', password_required: true });
+        return null;
+    }
+
+    return link;
+};
+
+// A file captured by the link that the owner still has (not trashed or deleted since)
+const resolveFolderShareFile = async (link: FolderShareRow, fileId: number) => {
+    const [entry] = await db.select({ id: folderShareEntries.id }).from(folderShareEntries)
+        .where(and(eq(folderShareEntries.shareId, link.id), eq(folderShareEntries.fileId, fileId)))
+        .limit(1);
+    if (!entry) return null;
+
+    const [file] = await db.select().from(files)
+        .where(and(eq(files.id, fileId), eq(files.userId, link.userId), isNull(files.deleted_at)))
+        .limit(1);
+    return file ?? null;
+};
+
+// Counts one file download against the link's limit. False when the limit was hit concurrently.
+const countFolderShareDownload = async (link: FolderShareRow, file: FileRow): Promise<boolean> => {
+    let updateWhereClause = eq(folderShareLinks.id, link.id);
+    if (link.max_downloads) {
+        updateWhereClause = and(updateWhereClause, sql`${folderShareLinks.download_count} < ${link.max_downloads}`)!;
+    }
+
+    const [updated] = await db.update(folderShareLinks)
+        .set({ download_count: sql<number>`${folderShareLinks.download_count} + 1` })
+        .where(updateWhereClause)
+        .returning({ id: folderShareLinks.id });
+    if (!updated) return false;
+
+    await db.insert(shareAuditLog).values({
+        share_type: 'folder_link',
+        share_id: link.id,
+        action: 'download',
+        actor: 'anonymous',
+        filename: `file_${file.id}`,
+        timestamp: new Date()
+    });
+    return true;
+};
+
+// 5.1 GET /api/shares/f/:token - Folder listing (encrypted names + wrapped keys)
+router.get('/f/:token', shareLimiter, async (req, res) => {
+    try {
+        const link = await resolveFolderShare(req.params.token, req.headers.authorization, res);
+        if (!link) return;
+
+        const entries = await db.select().from(folderShareEntries).where(eq(folderShareEntries.shareId, link.id));
+        const fileIds = entries.filter(e => e.fileId !== null).map(e => e.fileId!);
+        const liveFiles = fileIds.length > 0
+            ? await db.select({ id: files.id, file_size: files.file_size }).from(files)
+                .where(and(inArray(files.id, fileIds), eq(files.userId, link.userId), isNull(files.deleted_at)))
+            : [];
+        const sizes = new Map(liveFiles.map(f => [f.id, f.file_size]));
 
-        // Log audit download event
         await db.insert(shareAuditLog).values({
-            share_type: 'standard_link',
-            share_id: file.id,
-            action: 'download',
+            share_type: 'folder_link',
+            share_id: link.id,
+            action: 'view',
             actor: 'anonymous',
-            filename: file.jackal_filename || `file_${file.id}`,
             timestamp: new Date()
         });
 
-        if (isGhostLink) {
-            logger.info(`[GHOST-LINK] Link auto-revoked after 1 download: File ID ${file.id}`);
+        res.json({
+            success: true,
+            share_token: link.token,
+            root_folder_id: link.folderId,
+            folder_key_encrypted: bufferToBase64(link.link_folder_key_encrypted),
+            folder_key_nonce: bufferToBase64(link.link_folder_key_nonce),
+            encrypted_name: link.encrypted_folder_name,
+            created_at: link.created_at,
+            folders: entries.filter(e => e.folderId !== null).map(e => ({
+                id: e.folderId,
+                parent_id: e.parent_folder_id,
+                encrypted_meta: e.encrypted_meta
+            })),
+            files: entries.filter(e => e.fileId !== null && sizes.has(e.fileId)).map(e => ({
+                id: e.fileId,
+                parent_id: e.parent_folder_id,
+                file_size: sizes.get(e.fileId!),
+                file_key_encrypted: bufferToBase64(e.file_key_encrypted!),
+                file_key_nonce: bufferToBase64(e.file_key_nonce!),
+                encrypted_meta: e.encrypted_meta
+            }))
+        });
+    } catch (error) {
+        logger.error('[FOLDER-LINK-GET] Failed:', error);
+        res.status(500).json({ error: 'Failed to access share link' });
+    }
+});
+
+// 5.2 POST /api/shares/f/:token/verify-password
+router.post('/f/:token/verify-password', shareLimiter, async (req, res) => {
+    const { password } = req.body;
+    if (!password) return res.status(400).json({ error: 'Password is required' });
+
+    try {
+        const [link] = await db.select().from(folderShareLinks)
+            .where(and(eq(folderShareLinks.token, req.params.token), isNull(folderShareLinks.revoked_at)))
+            .limit(1);
+
+        if (!link) return res.status(404).json({ error: 'Share link not found' });
+        if (!link.password_hash) return res.status(400).json({ error: 'This share link is not password protected' });
+
+        const isMatch = await bcrypt.compare(password, link.password_hash);
+        if (!isMatch) {
+            return res.status(401).json({ error: 'Incorrect password. Please try again.' });
         }
 
-        let filePath = file.encrypted_file_path;
-
-        // Auto-hydration from Obsideo/Jackal if local file doesn't exist
-        if (!filePath || !fs.existsSync(filePath)) {
-            const storageKey = file.obsideo_key ?? file.jackal_fid;
-            if (storageKey && storageKey !== 'pending') {
-                const provider = getStorageProvider(file.storage_provider);
-                const tempPath = path.join(__dirname, `../../uploads/temp_share_${file.id}_${Date.now()}`);
-
-                const handle = file.jackal_filename || `shared_${file.id}`;
-                const success = await provider.download(storageKey, handle, tempPath);
-
-                if (success && fs.existsSync(tempPath)) {
-                    const stream = fs.createReadStream(tempPath);
-                    res.setHeader('Content-Type', 'application/octet-stream');
-                    try {
-                        const stats = fs.statSync(tempPath);
-                        res.setHeader('Content-Length', stats.size);
-                    } catch (e) { }
-
-                    await new Promise<void>(resolve => {
-                        stream.pipe(res);
-                        stream.on('end', () => resolve());
-                        stream.on('error', () => resolve());
-                    });
-
-                    fs.unlink(tempPath, () => { }); // Cleanup
-                    return;
-                }
-            }
-            return res.status(404).json({ error: 'File content unavailable' });
+        const token = jwt.sign(
+            { shareToken: link.token, role: 'share_viewer' },
+            env.JWT_SECRET,
+            { expiresIn: '2h' }
+        );
+
+        res.json({ success: true, token });
+    } catch (error) {
+        logger.error('[FOLDER-LINK-PW-VERIFY] Failed:', error);
+        res.status(500).json({ error: 'Internal server error during verification' });
+    }
+});
+
+// 5.3 GET /api/shares/f/:token/files/:fileId - Download manifest for one file
+router.get('/f/:token/files/:fileId', shareLimiter, async (req, res) => {
+    try {
+        const link = await resolveFolderShare(req.params.token, req.headers.authorization, res);
+        if (!link) return;
+
+        const file = await resolveFolderShareFile(link, parseInt(req.params.fileId));
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const isActuallyChunked = file.is_chunked || file.jackal_fid === 'chunked-complete';
+        const chunks = isActuallyChunked ? await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(fileChunks.chunk_index) : undefined;
+
+        res.json({
+            success: true,
+            file_id: file.id,
+            file_size: file.file_size,
+            merkle_hash: file.obsideo_key ?? file.merkle_hash,
+            is_gateway_verified: file.storage_provider === 'jackal' ? !!file.is_gateway_verified : false,
+            is_chunked: !!isActuallyChunked,
+            chunks: chunks?.map(c => ({
+                index: c.chunk_index,
+                size: c.size,
+                nonce: bufferToBase64(c.nonce),
+                jackal_merkle: c.obsideo_key ?? c.jackal_merkle,
+                status: (c.local_path && fs.existsSync(c.local_path)) ? 'local' : ((c.obsideo_key ?? c.jackal_merkle) ? 'cloud' : 'pending')
+            }))
+        });
+    } catch (error) {
+        logger.error('[FOLDER-LINK-FILE] Failed:', error);
+        res.status(500).json({ error: 'Failed to access shared file' });
+    }
+});
+
+// 5.4 GET /api/shares/f/:token/files/:fileId/chunk/:index
+router.get('/f/:token/files/:fileId/chunk/:index', shareLimiter, async (req, res) => {
+    try {
+        const link = await resolveFolderShare(req.params.token, req.headers.authorization, res);
+        if (!link) return;
+
+        const file = await resolveFolderShareFile(link, parseInt(req.params.fileId));
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        const chunkIndex = parseInt(req.params.index);
+
+        // Count the download on the first chunk only, and not when resuming it
+        if (chunkIndex === 0 && !await countDownloadOnce(req, res, `folder-share:${link.id}:${file.id}:chunk`, () => countFolderShareDownload(link, file))) {
+            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
         }
 
-        // Serve local file
-        const stream = fs.createReadStream(filePath);
-        res.setHeader('Content-Type', 'application/octet-stream');
-        try {
-            const stats = fs.statSync(filePath);
-            res.setHeader('Content-Length', stats.size);
-        } catch (e) { }
+        await streamFileChunk(req, res, file, chunkIndex);
+    } catch (error) {
+        logger.error('[FOLDER-LINK-CHUNK] Failed:', error);
+        if (!res.headersSent) res.status(500).json({ error: 'Chunk access failed' });
+    }
+});
 
-        stream.pipe(res);
+// 5.5 GET /api/shares/f/:token/files/:fileId/raw
+router.get('/f/:token/files/:fileId/raw', shareLimiter, async (req, res) => {
+    try {
+        const link = await resolveFolderShare(req.params.token, req.headers.authorization, res);
+        if (!link) return;
 
+        const file = await resolveFolderShareFile(link, parseInt(req.params.fileId));
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        if (!await countDownloadOnce(req, res, `folder-share:${link.id}:${file.id}:raw`, () => countFolderShareDownload(link, file))) {
+            return res.status(410).json({ error: 'This link is no longer available — the maximum number of downloads has been reached.', limit_reached: true });
+        }
+
+        await streamRawFile(req, res, file);
     } catch (error) {
-        logger.error('[SHARES-PUBLIC-RAW] Failed:', error);
+        logger.error('[FOLDER-LINK-RAW] Failed:', error);
         if (!res.headersSent) res.status(500).json({ error: 'Internal server error during download' });
     }
 });
 
-// 6. GET /api/shares/:id/audit-log - View audit logs for standard link
+// 6. GET /api/shares/:id/audit-log - View audit logs for one standard link
 router.get('/:id/audit-log', authenticateToken, async (req: AuthRequest, res) => {
     const userId = req.user!.userId;
     const id = parseInt(req.params.id);
     const format = req.query.format as string;
 
     try {
-        const [file] = await db.select().from(files).where(and(eq(files.id, id), eq(files.userId, userId))).limit(1);
-        if (!file) return res.status(404).json({ error: 'Share link not found or access denied' });
+        const [link] = await db.select({ id: fileShareLinks.id }).from(fileShareLinks).where(and(eq(fileShareLinks.id, id), eq(fileShareLinks.userId, userId))).limit(1);
+        if (!link) return res.status(404).json({ error: 'Share link not found or access denied' });
 
         const logs = await db.select()
             .from(shareAuditLog)
@@ -0,0 +1,160 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+    accountKeyPairSchema,
+    lookupTrusteesSchema,
+    saveSocialRecoverySchema,
+    recoveryRequestIdSchema,
+    approveRecoverySchema
+} from '../schemas/socialRecovery';
+import {
+    getAccountKeyPair,
+    setAccountKeyPair,
+    lookupTrustees,
+    trusteesHaveKeys,
+    getSocialRecoveryStatus,
+    saveSocialRecovery,
+    disableSocialRecovery,
+    listTrusteeRequests,
+    decideRecoveryRequest
+} from '../services/socialRecovery';
+import logger from '../utils/logger';
+
+// Mounted at /api/social-recovery: trusted-contact setup for owners and the approval inbox for
+// trustees. The locked-out side (starting a request, collecting shares) lives under
+// /api/auth/reset-password since it is authorised by the reset token, not a session.
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// ============================================================================
+// ACCOUNT KEYPAIR
+// ============================================================================
+
+router.get('/keypair', async (req: AuthRequest, res) => {
+    try {
+        res.json({ keyPair: await getAccountKeyPair(req.user!.userId) });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Keypair fetch failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.put('/keypair', validate(accountKeyPairSchema), async (req: AuthRequest, res) => {
+    try {
+        res.json({ keyPair: await setAccountKeyPair(req.user!.userId, req.body) });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Keypair save failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// ============================================================================
+// OWNER SETUP
+// ============================================================================
+
+router.get('/', async (req: AuthRequest, res) => {
+    try {
+        res.json(await getSocialRecoveryStatus(req.user!.userId));
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Status failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/trustees/lookup', validate(lookupTrusteesSchema), async (req: AuthRequest, res) => {
+    try {
+        const trustees = await lookupTrustees(req.body.emails);
+
+        const missing = trustees.find(t => !t.userId);
+        if (missing) return res.status(404).json({ error: `${missing.email} doesn't have a Nest account` });
+        if (trustees.some(t => t.userId === req.user!.userId)) {
+            return res.status(400).json({ error: 'You can\'t be your own trusted contact' });
+        }
+        const noKey = trustees.find(t => !t.publicKey);
+        if (noKey) {
+            return res.status(409).json({ error: `${noKey.email} needs to sign in to Nest once before they can be a trusted contact` });
+        }
+
+        res.json({ trustees });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Trustee lookup failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.put('/', validate(saveSocialRecoverySchema), async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const trusteeIds: number[] = req.body.shares.map((s: { trusteeUserId: number }) => s.trusteeUserId);
+
+    try {
+        if (trusteeIds.includes(userId)) {
+            return res.status(400).json({ error: 'You can\'t be your own trusted contact' });
+        }
+        if (!(await trusteesHaveKeys(trusteeIds))) {
+            return res.status(409).json({ error: 'Every trusted contact needs a Nest account they have signed in to' });
+        }
+
+        await saveSocialRecovery(userId, req.body);
+        logger.info(`[SOCIAL-RECOVERY] ✅ User ${userId} set up ${req.body.threshold}-of-${trusteeIds.length} recovery`);
+        res.json(await getSocialRecoveryStatus(userId));
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Save failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.delete('/', async (req: AuthRequest, res) => {
+    try {
+        await disableSocialRecovery(req.user!.userId);
+        logger.info(`[SOCIAL-RECOVERY] User ${req.user!.userId} removed trusted contacts`);
+        res.json(await getSocialRecoveryStatus(req.user!.userId));
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Disable failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// ============================================================================
+// TRUSTEE INBOX
+// ============================================================================
+
+router.get('/requests', async (req: AuthRequest, res) => {
+    try {
+        res.json({ requests: await listTrusteeRequests(req.user!.userId) });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Request list failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/requests/:id/approve', validate(approveRecoverySchema), async (req: AuthRequest, res) => {
+    try {
+        const result = await decideRecoveryRequest(req.user!.userId, Number(req.params.id), 'approved', req.body.encryptedShare);
+        if (!result) return res.status(404).json({ error: 'Recovery request not found or no longer active' });
+        if (result === 'answered') return res.status(409).json({ error: 'You already answered this request' });
+
+        logger.info(`[SOCIAL-RECOVERY] Trustee ${req.user!.userId} approved recovery request ${req.params.id} for user ${result.ownerId}`);
+        res.json({ success: true });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Approve failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/requests/:id/decline', validate(recoveryRequestIdSchema), async (req: AuthRequest, res) => {
+    try {
+        const result = await decideRecoveryRequest(req.user!.userId, Number(req.params.id), 'declined');
+        if (!result) return res.status(404).json({ error: 'Recovery request not found or no longer active' });
+        if (result === 'answered') return res.status(409).json({ error: 'You already answered this request' });
+
+        logger.warn(`[SOCIAL-RECOVERY] ⚠️ Trustee ${req.user!.userId} declined recovery request ${req.params.id} for user ${result.ownerId}`);
+        res.json({ success: true });
+    } catch (e) {
+        logger.error('[SOCIAL-RECOVERY] ❌ Decline failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+export default router;
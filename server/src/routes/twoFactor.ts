@@ -0,0 +1,208 @@
+import express from 'express';
+import bcrypt from 'bcrypt';
+import { db } from '../db';
+import { users } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { env } from '../config/env';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authLimiter } from '../middleware/rateLimiter';
+import { validate } from '../middleware/validate';
+import {
+    enableTotpSchema,
+    reauthSchema,
+    registerWebAuthnSchema,
+    deleteWebAuthnSchema
+} from '../schemas/twoFactor';
+import {
+    getTwoFactorStatus,
+    beginTotpSetup,
+    consumeTotp,
+    disableTotp,
+    regenerateBackupCodes,
+    clearBackupCodesIfUnused,
+    listWebAuthnCredentials,
+    webAuthnRegistrationOptions,
+    verifyWebAuthnRegistration,
+    verifyChallengeToken,
+    deleteWebAuthnCredential
+} from '../services/twoFactor';
+import logger from '../utils/logger';
+
+// Mounted at /api/auth/2fa. Enrollment needs a normal session; anything that weakens the
+// account (removing a factor, reissuing backup codes) also re-checks the auth hash.
+const router = express.Router();
+
+router.use(authenticateToken);
+
+const checkAuthHash = async (userId: number, authHash: string) => {
+    const [user] = await db.select({ password_hash: users.password_hash }).from(users).where(eq(users.id, userId)).limit(1);
+    return !!user && bcrypt.compare(authHash, user.password_hash);
+};
+
+const loadUser = async (userId: number) => {
+    const [user] = await db.select({ email: users.email, role: users.role }).from(users).where(eq(users.id, userId)).limit(1);
+    return user;
+};
+
+// First factor enrolled → hand out backup codes along with it
+const backupCodesIfFirstFactor = async (userId: number) => {
+    const status = await getTwoFactorStatus(userId);
+    return status.backupCodesRemaining === 0 ? regenerateBackupCodes(userId) : undefined;
+};
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+router.get('/', async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const [status, credentials, user] = await Promise.all([
+            getTwoFactorStatus(userId),
+            listWebAuthnCredentials(userId),
+            loadUser(userId),
+        ]);
+
+        res.json({
+            ...status,
+            required: env.REQUIRE_ADMIN_2FA && user?.role === 'admin',
+            passkeys: credentials.map(c => ({ id: c.id, name: c.name, created_at: c.created_at, last_used_at: c.last_used_at }))
+        });
+    } catch (e) {
+        logger.error('[2FA] ❌ Status failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+router.post('/totp/setup', async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const status = await getTwoFactorStatus(userId);
+        if (status.totpEnabled) return res.status(409).json({ error: 'Authenticator app is already enabled' });
+
+        const user = await loadUser(userId);
+        if (!user) return res.status(404).json({ error: 'User not found' });
+
+        res.json(await beginTotpSetup(userId, user.email));
+    } catch (e) {
+        logger.error('[2FA] ❌ TOTP setup failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/totp/enable', validate(enableTotpSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        if (!(await consumeTotp(userId, req.body.code, true))) {
+            return res.status(400).json({ error: 'Invalid code. Check your authenticator app and try again.' });
+        }
+
+        logger.info(`[2FA] ✅ TOTP enabled for user ${userId}`);
+        res.json({ success: true, backupCodes: await backupCodesIfFirstFactor(userId) });
+    } catch (e) {
+        logger.error('[2FA] ❌ TOTP enable failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.delete('/totp', authLimiter, validate(reauthSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        if (!(await checkAuthHash(userId, req.body.authHash))) {
+            return res.status(401).json({ error: 'Incorrect password' });
+        }
+
+        await disableTotp(userId);
+        await clearBackupCodesIfUnused(userId);
+        logger.info(`[2FA] TOTP disabled for user ${userId}`);
+        res.json({ success: true });
+    } catch (e) {
+        logger.error('[2FA] ❌ TOTP disable failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// ============================================================================
+// BACKUP CODES
+// ============================================================================
+
+router.post('/backup-codes', authLimiter, validate(reauthSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        if (!(await checkAuthHash(userId, req.body.authHash))) {
+            return res.status(401).json({ error: 'Incorrect password' });
+        }
+
+        const status = await getTwoFactorStatus(userId);
+        if (!status.enabled) return res.status(400).json({ error: 'Enable two-factor authentication first' });
+
+        res.json({ backupCodes: await regenerateBackupCodes(userId) });
+    } catch (e) {
+        logger.error('[2FA] ❌ Backup code regeneration failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// ============================================================================
+// WEBAUTHN / PASSKEYS
+// ============================================================================
+
+router.post('/webauthn/options', async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const user = await loadUser(userId);
+        if (!user) return res.status(404).json({ error: 'User not found' });
+
+        res.json(await webAuthnRegistrationOptions(userId, user.email));
+    } catch (e) {
+        logger.error('[2FA] ❌ WebAuthn options failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.post('/webauthn', validate(registerWebAuthnSchema), async (req: AuthRequest, res) => {
+    const userId = req.user!.userId;
+    const { challengeToken, name, credential } = req.body;
+
+    const challenge = verifyChallengeToken(challengeToken, 'webauthn-register');
+    if (!challenge || challenge.userId !== userId || !challenge.challenge) {
+        return res.status(400).json({ error: 'Registration expired. Please try again.' });
+    }
+
+    try {
+        const row = await verifyWebAuthnRegistration(userId, challenge.challenge, name, credential);
+        logger.info(`[2FA] ✅ Passkey ${row.id} registered for user ${userId}`);
+        res.json({
+            success: true,
+            passkey: { id: row.id, name: row.name, created_at: row.created_at, last_used_at: row.last_used_at },
+            backupCodes: await backupCodesIfFirstFactor(userId)
+        });
+    } catch (e: any) {
+        logger.warn(`[2FA] ⚠️ Passkey registration rejected for user ${userId}: ${e.message}`);
+        res.status(400).json({ error: 'Passkey could not be verified' });
+    }
+});
+
+router.delete('/webauthn/:id', authLimiter, validate(deleteWebAuthnSchema), async (req: AuthRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        if (!(await checkAuthHash(userId, req.body.authHash))) {
+            return res.status(401).json({ error: 'Incorrect password' });
+        }
+
+        if (!(await deleteWebAuthnCredential(userId, Number(req.params.id)))) {
+            return res.status(404).json({ error: 'Passkey not found' });
+        }
+        await clearBackupCodesIfUnused(userId);
+        res.json({ success: true });
+    } catch (e) {
+        logger.error('[2FA] ❌ Passkey removal failed:', e);
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+const providerName = z.enum(['jackal', 'obsideo', 's3', 'local']);
+
+export const startMigrationSchema = z.object({
+    body: z.object({
+        source_provider: providerName,
+        target_provider: providerName
+    }).refine(b => b.source_provider !== b.target_provider, {
+        message: 'Source and target provider must differ',
+        path: ['target_provider']
+    })
+});
+
+export const migrationIdSchema = z.object({
+    params: z.object({
+        id: z.coerce.number().int().positive()
+    })
+});
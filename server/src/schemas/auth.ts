@@ -59,3 +59,22 @@ export const resetPasswordSchema = z.object({
         wipeData: z.boolean().optional()
     })
 });
+
+export const resetTokenSchema = z.object({
+    body: z.object({
+        token: z.string().min(1)
+    })
+});
+
+export const saveRecoveryKeySchema = z.object({
+    body: z.object({
+        encryptedMasterKey: z.string().min(10),
+        encryptedMasterKeyNonce: z.string().min(10)
+    })
+});
+
+export const sessionIdSchema = z.object({
+    params: z.object({
+        id: z.coerce.number().int().positive()
+    })
+});
@@ -16,7 +16,22 @@ export const moveFileSchema = z.object({
     body: z.object({
         folderId: z.union([z.number(), z.null()]),
         fileKeyEncrypted: z.string().optional(),
-        fileKeyNonce: z.string().optional()
+        fileKeyNonce: z.string().optional(),
+        // Archived version keys re-wrapped for the target folder
+        versionKeys: z.array(z.object({
+            version: z.number().int().positive(),
+            fileKeyEncrypted: z.string().min(10),
+            fileKeyNonce: z.string().min(10)
+        })).optional()
+    })
+});
+
+export const newVersionSchema = z.object({
+    body: z.object({
+        file_size: z.number().positive(),
+        // Omit to keep the current file key (existing share links keep working)
+        fileKeyEncrypted: z.string().min(10).optional(),
+        fileKeyNonce: z.string().min(10).optional()
     })
 });
 
@@ -25,3 +40,28 @@ export const listFilesSchema = z.object({
         folderId: z.string().optional()
     })
 });
+
+// Per-link policy; on update, omitted fields are left as they are and null clears them
+const shareLinkPolicy = {
+    label: z.union([z.string().trim().max(100), z.null()]).optional(),
+    password: z.union([z.string(), z.null()]).optional(),
+    max_downloads: z.union([z.number().int().positive(), z.null()]).optional(),
+    expires_at: z.union([z.string(), z.null()]).optional(),
+    custom_slug: z.union([z.string().regex(/^[a-zA-Z0-9-_]+$/).max(64), z.null()]).optional()
+};
+
+export const createFileShareSchema = z.object({
+    body: z.object(shareLinkPolicy).default({})
+});
+
+export const updateFileShareSchema = z.object({
+    body: z.object(shareLinkPolicy)
+});
+
+export const thumbnailSchema = z.object({
+    body: z.object({
+        // Base64 of the encrypted image; the decoded size is checked against MAX_THUMBNAIL_BYTES
+        thumbnail: z.string().min(1).max(100_000),
+        nonce: z.string().min(10)
+    })
+});
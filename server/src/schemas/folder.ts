@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const createFolderShareSchema = z.object({
+    body: z.object({
+        // Folder key wrapped with the link key (the link key itself stays in the URL fragment)
+        folderKeyEncrypted: z.string().min(10),
+        folderKeyNonce: z.string().min(10),
+        // Link key wrapped with the owner's master key so the URL can be rebuilt later
+        hostLinkKeyEncrypted: z.string().min(10),
+        hostLinkKeyNonce: z.string().min(10),
+        encryptedName: z.string().min(10),
+        password: z.string().optional(),
+        max_downloads: z.union([z.number().int().positive(), z.null()]).optional(),
+        expires_at: z.union([z.string(), z.null()]).optional(),
+        entries: z.array(z.object({
+            type: z.enum(['folder', 'file']),
+            id: z.number().int(),
+            parentId: z.number().int(),
+            // Files only: file key re-wrapped with the shared folder key
+            fileKeyEncrypted: z.string().min(10).optional(),
+            fileKeyNonce: z.string().min(10).optional(),
+            encryptedMeta: z.string().min(10)
+        })).max(10000)
+    })
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { MAX_RECORDS_PER_WRITE } from '../services/metadataRecords';
+
+const itemType = z.enum(['file', 'folder', 'root']);
+const itemId = z.number().int().nonnegative();
+const base64 = z.string().min(10);
+
+const recordUpsert = z.object({
+    type: itemType,
+    id: itemId,
+    encryptedRecord: base64,
+    nonce: base64
+});
+
+export const metadataChangesSchema = z.object({
+    query: z.object({
+        since: z.coerce.number().int().nonnegative().default(0)
+    })
+});
+
+export const writeMetadataRecordsSchema = z.object({
+    body: z.object({
+        upserts: z.array(recordUpsert).max(MAX_RECORDS_PER_WRITE).default([]),
+        deletes: z.array(z.object({ type: itemType, id: itemId })).max(MAX_RECORDS_PER_WRITE).default([])
+    }).refine(b => b.upserts.length + b.deletes.length > 0, {
+        message: 'Nothing to write',
+        path: ['upserts']
+    })
+});
+
+export const migrateMetadataSchema = z.object({
+    body: z.object({
+        metadata_version: z.number().int().nonnegative(),
+        records: z.array(recordUpsert).max(MAX_RECORDS_PER_WRITE)
+    })
+});
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { MAX_TRUSTEES } from '../services/socialRecovery';
+
+const base64 = z.string().min(10).max(4096);
+
+export const accountKeyPairSchema = z.object({
+    body: z.object({
+        publicKey: base64,
+        encryptedPrivateKey: base64,
+        privateKeyNonce: base64
+    })
+});
+
+export const lookupTrusteesSchema = z.object({
+    body: z.object({
+        emails: z.array(z.string().email()).min(1).max(MAX_TRUSTEES)
+    })
+});
+
+export const saveSocialRecoverySchema = z.object({
+    body: z.object({
+        threshold: z.number().int().min(2),
+        encryptedMasterKey: base64,
+        encryptedMasterKeyNonce: base64,
+        shares: z.array(z.object({
+            trusteeUserId: z.number().int().positive(),
+            shareIndex: z.number().int().min(1).max(255),
+            encryptedShare: base64
+        })).min(2).max(MAX_TRUSTEES)
+    }).refine(b => b.threshold <= b.shares.length, {
+        message: 'Threshold can\'t exceed the number of trusted contacts',
+        path: ['threshold']
+    }).refine(b => new Set(b.shares.map(s => s.trusteeUserId)).size === b.shares.length
+        && new Set(b.shares.map(s => s.shareIndex)).size === b.shares.length, {
+        message: 'Each trusted contact needs exactly one distinct share',
+        path: ['shares']
+    })
+});
+
+const requestIdParams = z.object({
+    id: z.coerce.number().int().positive()
+});
+
+export const recoveryRequestIdSchema = z.object({
+    params: requestIdParams
+});
+
+export const approveRecoverySchema = z.object({
+    params: requestIdParams,
+    body: z.object({
+        encryptedShare: base64
+    })
+});
+
+export const startSocialRecoverySchema = z.object({
+    body: z.object({
+        token: z.string().min(1),
+        requestPublicKey: base64
+    })
+});
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+const totpCode = z.string().regex(/^\d{6}$/, 'Enter the 6-digit code');
+const base64url = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/);
+
+export const assertionSchema = z.object({
+    id: base64url,
+    clientDataJSON: base64url,
+    authenticatorData: base64url,
+    signature: base64url
+});
+
+export const loginTwoFactorSchema = z.object({
+    body: z.object({
+        twoFactorToken: z.string().min(1),
+        method: z.enum(['totp', 'webauthn', 'backup']),
+        code: z.string().min(6).max(32).optional(),
+        assertion: assertionSchema.optional()
+    }).refine(b => (b.method === 'webauthn' ? !!b.assertion : !!b.code), {
+        message: 'A code or passkey response is required',
+        path: ['code']
+    })
+});
+
+export const enableTotpSchema = z.object({
+    body: z.object({
+        code: totpCode
+    })
+});
+
+// Turning factors off or reissuing backup codes re-checks the password
+export const reauthSchema = z.object({
+    body: z.object({
+        authHash: z.string().min(10)
+    })
+});
+
+export const registerWebAuthnSchema = z.object({
+    body: z.object({
+        challengeToken: z.string().min(1),
+        name: z.string().trim().min(1).max(64),
+        credential: z.object({
+            clientDataJSON: base64url,
+            attestationObject: base64url,
+            transports: z.array(z.string().max(32)).max(8).optional()
+        })
+    })
+});
+
+export const deleteWebAuthnSchema = z.object({
+    params: z.object({
+        id: z.coerce.number().int().positive()
+    }),
+    body: z.object({
+        authHash: z.string().min(10)
+    })
+});
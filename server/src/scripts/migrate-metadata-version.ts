@@ -2,16 +2,59 @@ import 'dotenv/config';
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
 
+// Brings user_crypto up to the current metadata layout. Safe to re-run.
+//   v1: metadata_version (optimistic locking of the whole blob)
+//   v2: metadata_format + metadata_records (per-item records, see services/metadataRecords.ts)
+// Accounts are converted to records by their own browser on next load, since only it can
+// decrypt the blob; this script just prepares the schema and reports how far that has got.
 async function runMigration() {
     try {
         console.log('[Migration] Adding metadata_version column to user_crypto table...');
 
         await db.execute(sql`
-            ALTER TABLE user_crypto 
+            ALTER TABLE user_crypto
             ADD COLUMN IF NOT EXISTS metadata_version INTEGER DEFAULT 1 NOT NULL
         `);
 
         console.log('✅ [Migration] Successfully added metadata_version column');
+
+        console.log('[Migration] Adding metadata_format column and metadata_records table...');
+
+        await db.execute(sql`
+            ALTER TABLE user_crypto
+            ADD COLUMN IF NOT EXISTS metadata_format INTEGER DEFAULT 1 NOT NULL
+        `);
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS metadata_records (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                item_type TEXT NOT NULL,
+                item_id INTEGER NOT NULL,
+                encrypted_record BYTEA,
+                record_nonce BYTEA,
+                version INTEGER NOT NULL,
+                updated_at TIMESTAMP WITHOUT TIME ZONE DEFAULT now() NOT NULL,
+                CONSTRAINT metadata_records_user_id_item_type_item_id_unique UNIQUE (user_id, item_type, item_id)
+            )
+        `);
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS metadata_records_user_id_version_idx
+            ON metadata_records USING btree (user_id, version)
+        `);
+
+        console.log('✅ [Migration] Successfully added metadata_records');
+
+        const formats = await db.execute<{ metadata_format: number; accounts: number }>(sql`
+            SELECT metadata_format, count(*)::int AS accounts
+            FROM user_crypto
+            GROUP BY metadata_format
+            ORDER BY metadata_format
+        `);
+        for (const row of formats) {
+            const label = row.metadata_format === 1 ? 'single blob (migrates on next load)' : 'per-item records';
+            console.log(`[Migration] Format ${row.metadata_format} — ${label}: ${row.accounts} account(s)`);
+        }
+
         console.log('[Migration] Migration complete!');
 
         process.exit(0);
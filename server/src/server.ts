@@ -15,6 +15,11 @@ import { sql } from 'drizzle-orm';
 
 // Import routes
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
+import sessionsRoutes from './routes/sessions';
+import recoveryRoutes from './routes/recovery';
+import socialRecoveryRoutes from './routes/socialRecovery';
+import metadataRecordsRoutes from './routes/metadataRecords';
 import billingRoutes from './routes/billing';
 import filesRoutes from './routes/files';
 import foldersRoutes from './routes/folders';
@@ -23,6 +28,7 @@ import adminRoutes from './routes/admin';
 import sharesRoutes from './routes/shares';
 import dropZonesRoutes from './routes/dropZones';
 import { hostRouter as collabHostRoutes, guestRouter as collabGuestRoutes } from './routes/collabFolders';
+import { attachCollabLive } from './services/collabLive';
 import pageOgRoutes from './routes/pageOg';
 
 import { globalLimiter } from './middleware/rateLimiter';
@@ -143,6 +149,10 @@ app.get('/health', async (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth/2fa', twoFactorRoutes); // before /api/auth so its strict limiter doesn't cover enrollment
+app.use('/api/auth/sessions', sessionsRoutes);
+app.use('/api/auth/recovery', recoveryRoutes);
+app.use('/api/auth/metadata', metadataRecordsRoutes); // /changes, /records, /migrate; the blob GET/POST falls through
 app.use('/api/auth', authRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/files', filesRoutes);
@@ -153,6 +163,7 @@ app.use('/api/shares', sharesRoutes);
 app.use('/api/drop-zones', dropZonesRoutes);
 app.use('/api/collab-folders', collabHostRoutes);
 app.use('/api/collab', collabGuestRoutes);
+app.use('/api/social-recovery', socialRecoveryRoutes);
 app.use('/', pageOgRoutes);
 
 if (env.NODE_ENV !== 'production') {
@@ -187,6 +198,8 @@ import { UploadCleanupService } from './services/uploadCleanup';
 import { retryScheduler } from './utils/retryScheduler';
 import { startVerificationJob } from './cron/verificationJob';
 import { initRetentionWorker } from './utils/retention';
+import { resourceMonitor } from './services/resourceMonitor';
+import { storageMigrationRunner } from './services/storageMigration';
 
 
 // Start background services
@@ -194,6 +207,8 @@ UploadCleanupService.start();  // Recovery service: re-queues stale uploads inst
 retryScheduler.start();        // Infinite retry scheduler for failed uploads
 startVerificationJob();        // Gateway verification for uploaded files
 initRetentionWorker();         // Account retention policy
+resourceMonitor.start();       // Adaptive concurrency for the upload queue
+storageMigrationRunner.start(); // Resume a provider migration interrupted by a restart
 
 // Register cron jobs
 import cron from 'node-cron';
@@ -218,18 +233,20 @@ console.log('[Cron] Email digest jobs initialized: share digest (Mon), inactive
 process.on('SIGTERM', () => {
     console.log('[Server] SIGTERM received, shutting down gracefully');
     retryScheduler.stop();
+    resourceMonitor.stop();
     process.exit(0);
 });
 
 process.on('SIGINT', () => {
     console.log('[Server] SIGINT received, shutting down gracefully');
     retryScheduler.stop();
+    resourceMonitor.stop();
     process.exit(0);
 });
 
 // Initialize Crypto then start server
 initCrypto().then(() => {
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
         console.log(`
 ╔══════════════════════════════════════════╗
 ║                                          ║
@@ -242,6 +259,7 @@ initCrypto().then(() => {
 ╚══════════════════════════════════════════╝
         `);
     });
+    attachCollabLive(server); // Collab Folder live updates over WebSocket
 }).catch(err => {
     console.error('[Server] Failed to initialize crypto:', err);
     process.exit(1);
@@ -0,0 +1,217 @@
+import { db } from '../db';
+import {
+    collabFolders, collabKeyRotations, collabKeyRotationItems, collabAccessList, collabGuestSessions,
+    sharedWithMe, folders, files, fileVersions, users, userCrypto, shareAuditLog
+} from '../db/schema';
+import { eq, and, isNull, isNotNull, inArray, ne, sql, count } from 'drizzle-orm';
+
+/**
+ * Collab Key Rotation
+ *
+ * The host's browser generates a new collab key and parks it on a rotation row, wrapped by the
+ * host's master key. It then pulls batches of items still under the old key (file keys, archived
+ * version keys, and the file/folder names encrypted with the collab key), re-wraps them and posts
+ * them back. Every applied item is recorded, so a rotation interrupted by a closed tab resumes
+ * where it stopped. Completing swaps in the new host/link keys, hands the new key to members who
+ * pinned the folder (sealed to their account public key) and ends all guest sessions.
+ */
+
+type CollabRow = typeof collabFolders.$inferSelect;
+type RotationRow = typeof collabKeyRotations.$inferSelect;
+
+export type RotationItemType = 'file' | 'version' | 'folder';
+
+export interface RekeyedItem {
+    type: RotationItemType;
+    id: number;
+    file_key_encrypted?: Buffer;
+    file_key_nonce?: Buffer;
+    encrypted_filename?: string | null;
+    encrypted_mime_type?: string | null;
+    encrypted_folder_name?: string | null;
+}
+
+export const getActiveRotation = async (collabId: number): Promise<RotationRow | null> => {
+    const [rotation] = await db.select().from(collabKeyRotations)
+        .where(and(eq(collabKeyRotations.collabId, collabId), isNull(collabKeyRotations.completed_at)))
+        .limit(1);
+    return rotation ?? null;
+};
+
+/** Guest writes that encrypt with the collab key are refused while a rotation is running. */
+export const isRotatingCollabKey = async (collabId: number): Promise<boolean> =>
+    (await getActiveRotation(collabId)) !== null;
+
+/** Starts a rotation, or returns the one already in progress (whose key the caller must use). */
+export const startRotation = async (collabId: number, hostEncryptedKey: Buffer, hostKeyNonce: Buffer): Promise<RotationRow> => {
+    const existing = await getActiveRotation(collabId);
+    if (existing) return existing;
+
+    // The partial unique index turns a concurrent start into a no-op
+    const [created] = await db.insert(collabKeyRotations).values({
+        collabId,
+        host_encrypted_collab_key: hostEncryptedKey,
+        host_collab_key_nonce: hostKeyNonce
+    }).onConflictDoNothing().returning();
+
+    return created ?? (await getActiveRotation(collabId))!;
+};
+
+const notRekeyed = (rotationId: number, type: RotationItemType, idColumn: typeof files.id | typeof fileVersions.id | typeof folders.id) =>
+    sql`NOT EXISTS (SELECT 1 FROM collab_key_rotation_items i WHERE i.rotation_id = ${rotationId} AND i.item_type = ${type} AND i.item_id = ${idColumn})`;
+
+// Trashed items are included: they can still be restored into the folder
+const pendingConditions = (rotation: RotationRow, collab: CollabRow, folderIds: number[]) => ({
+    file: and(inArray(files.folderId, folderIds), notRekeyed(rotation.id, 'file', files.id)),
+    version: and(inArray(files.folderId, folderIds), notRekeyed(rotation.id, 'version', fileVersions.id)),
+    // The collab root keeps its name in the host's own metadata
+    folder: and(inArray(folders.id, folderIds), ne(folders.id, collab.folderId), isNotNull(folders.encrypted_folder_name), notRekeyed(rotation.id, 'folder', folders.id))
+});
+
+export const countPendingItems = async (rotation: RotationRow, collab: CollabRow, folderIds: number[]): Promise<number> => {
+    const where = pendingConditions(rotation, collab, folderIds);
+    const [[fileCount], [versionCount], [folderCount]] = await Promise.all([
+        db.select({ n: count() }).from(files).where(where.file),
+        db.select({ n: count() }).from(fileVersions).innerJoin(files, eq(fileVersions.fileId, files.id)).where(where.version),
+        db.select({ n: count() }).from(folders).where(where.folder)
+    ]);
+    return fileCount.n + versionCount.n + folderCount.n;
+};
+
+/** The next items still under the old key, at most `limit` of each kind. */
+export const listPendingItems = async (rotation: RotationRow, collab: CollabRow, folderIds: number[], limit: number) => {
+    const where = pendingConditions(rotation, collab, folderIds);
+    const [pendingFiles, pendingVersions, pendingFolders] = await Promise.all([
+        db.select({
+            id: files.id,
+            file_key_encrypted: files.file_key_encrypted,
+            file_key_nonce: files.file_key_nonce,
+            encrypted_filename: files.encrypted_filename,
+            encrypted_mime_type: files.encrypted_mime_type
+        }).from(files).where(where.file).orderBy(files.id).limit(limit),
+        db.select({
+            id: fileVersions.id,
+            file_key_encrypted: fileVersions.file_key_encrypted,
+            file_key_nonce: fileVersions.file_key_nonce
+        }).from(fileVersions).innerJoin(files, eq(fileVersions.fileId, files.id)).where(where.version).orderBy(fileVersions.id).limit(limit),
+        db.select({
+            id: folders.id,
+            encrypted_folder_name: folders.encrypted_folder_name
+        }).from(folders).where(where.folder).orderBy(folders.id).limit(limit)
+    ]);
+    return { files: pendingFiles, versions: pendingVersions, folders: pendingFolders };
+};
+
+/**
+ * Saves a batch of re-keyed items and records them as done, all or nothing. Items outside the
+ * collab folder are ignored. Returns how many were applied.
+ */
+export const applyRekeyedItems = async (rotation: RotationRow, collab: CollabRow, folderIds: number[], items: RekeyedItem[]): Promise<number> => {
+    return db.transaction(async (tx) => {
+        let applied = 0;
+        for (const item of items) {
+            let updated: { id: number }[] = [];
+            if (item.type === 'file' && item.file_key_encrypted && item.file_key_nonce) {
+                updated = await tx.update(files).set({
+                    file_key_encrypted: item.file_key_encrypted,
+                    file_key_nonce: item.file_key_nonce,
+                    ...(item.encrypted_filename !== undefined && { encrypted_filename: item.encrypted_filename }),
+                    ...(item.encrypted_mime_type !== undefined && { encrypted_mime_type: item.encrypted_mime_type })
+                }).where(and(eq(files.id, item.id), inArray(files.folderId, folderIds))).returning({ id: files.id });
+            } else if (item.type === 'version' && item.file_key_encrypted && item.file_key_nonce) {
+                updated = await tx.update(fileVersions).set({
+                    file_key_encrypted: item.file_key_encrypted,
+                    file_key_nonce: item.file_key_nonce
+                }).where(and(
+                    eq(fileVersions.id, item.id),
+                    inArray(fileVersions.fileId, tx.select({ id: files.id }).from(files).where(inArray(files.folderId, folderIds)))
+                )).returning({ id: fileVersions.id });
+            } else if (item.type === 'folder' && item.encrypted_folder_name) {
+                updated = await tx.update(folders).set({ encrypted_folder_name: item.encrypted_folder_name })
+                    .where(and(eq(folders.id, item.id), inArray(folders.id, folderIds), ne(folders.id, collab.folderId)))
+                    .returning({ id: folders.id });
+            }
+            if (updated.length === 0) continue;
+
+            await tx.insert(collabKeyRotationItems)
+                .values({ rotationId: rotation.id, item_type: item.type, item_id: item.id })
+                .onConflictDoNothing();
+            applied++;
+        }
+        return applied;
+    });
+};
+
+/**
+ * Members who pinned the folder and keep access after the rotation: the host and anyone still
+ * on the access list. Members without an account keypair can't be sealed to and are dropped.
+ */
+export const listRotationRecipients = async (collab: CollabRow) => {
+    const pinned = await db.select({
+        user_id: sharedWithMe.userId,
+        email: users.email,
+        public_key: userCrypto.public_key,
+        listed: collabAccessList.id
+    })
+        .from(sharedWithMe)
+        .innerJoin(users, eq(sharedWithMe.userId, users.id))
+        .leftJoin(userCrypto, eq(userCrypto.userId, users.id))
+        .leftJoin(collabAccessList, and(eq(collabAccessList.collabId, collab.id), eq(collabAccessList.email, sql`lower(${users.email})`)))
+        .where(eq(sharedWithMe.collabId, collab.id));
+
+    return pinned
+        .filter(p => p.public_key && (p.listed !== null || p.user_id === collab.userId))
+        .map(p => ({ user_id: p.user_id, email: p.email, public_key: p.public_key! }));
+};
+
+/**
+ * Swaps in the new key. `sealedKeys` maps recipient user ids to the new key sealed to their
+ * account public key; every other pinned entry is removed.
+ */
+export const completeRotation = async (
+    rotation: RotationRow,
+    collab: CollabRow,
+    folderIds: number[],
+    link: { encrypted: Buffer; nonce: Buffer },
+    sealedKeys: Map<number, Buffer>,
+    actor: string
+) => {
+    const recipientIds = new Set((await listRotationRecipients(collab)).map(r => r.user_id));
+
+    await db.transaction(async (tx) => {
+        await tx.update(collabFolders).set({
+            host_encrypted_collab_key: rotation.host_encrypted_collab_key,
+            host_collab_key_nonce: rotation.host_collab_key_nonce,
+            link_encrypted_collab_key: link.encrypted,
+            link_collab_key_nonce: link.nonce
+        }).where(eq(collabFolders.id, collab.id));
+
+        // Subfolders of a collab folder use the collab key itself as their folder key
+        await tx.update(folders).set({
+            folder_key_encrypted: rotation.host_encrypted_collab_key,
+            folder_key_nonce: rotation.host_collab_key_nonce
+        }).where(inArray(folders.id, folderIds));
+
+        for (const entry of await tx.select().from(sharedWithMe).where(eq(sharedWithMe.collabId, collab.id))) {
+            const sealed = sealedKeys.get(entry.userId);
+            if (sealed && recipientIds.has(entry.userId)) {
+                await tx.update(sharedWithMe).set({ sealed_collab_key: sealed }).where(eq(sharedWithMe.id, entry.id));
+            } else {
+                await tx.delete(sharedWithMe).where(eq(sharedWithMe.id, entry.id));
+            }
+        }
+
+        // Guests hold the old key in memory; they sign in again through the new link
+        await tx.delete(collabGuestSessions).where(eq(collabGuestSessions.collabId, collab.id));
+
+        await tx.update(collabKeyRotations).set({ completed_at: new Date() }).where(eq(collabKeyRotations.id, rotation.id));
+
+        await tx.insert(shareAuditLog).values({
+            share_type: 'collab_folder',
+            share_id: collab.id,
+            action: 'key_rotated',
+            actor,
+            timestamp: new Date()
+        });
+    });
+};
@@ -0,0 +1,185 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import crypto from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import logger from '../utils/logger';
+
+/**
+ * Collab Folder live channel
+ *
+ * Participants connect to `/api/collab/:tokenOrSlug/live?ticket=`. Browsers can't set headers on a
+ * WebSocket, so instead of putting a session or account JWT in the URL the client first asks
+ * `POST /api/collab/:tokenOrSlug/live/ticket` (checked exactly like the other HTTP routes) for a
+ * ticket that works once, for that folder, within 30 seconds.
+ * Guest routes and the host's own file and folder routes publish changes to everyone connected to
+ * that folder. Names in events
+ * are the same ciphertext the server stores. Presence is the number of distinct people connected.
+ */
+
+export type CollabLiveEvent =
+    | { type: 'file_added'; file_id: number; folder_id: number | null; encrypted_filename: string | null }
+    | { type: 'file_renamed'; file_id: number; encrypted_filename: string }
+    | { type: 'file_deleted'; file_id: number }
+    | { type: 'folder_added'; folder_id: number; parent_id: number; encrypted_folder_name: string | null }
+    | { type: 'folder_renamed'; folder_id: number; encrypted_folder_name: string }
+    | { type: 'folder_deleted'; folder_id: number };
+
+interface LiveTicket {
+    tokenOrSlug: string;
+    collabId: number;
+    email: string;
+    expiresAt: number;
+}
+
+interface Participant {
+    socket: WebSocket;
+    email: string;
+    alive: boolean;
+}
+
+const LIVE_PATH = /^\/api\/collab\/([^/]+)\/live$/;
+const HEARTBEAT_MS = 30_000;
+const TICKET_TTL_MS = 30_000;
+
+const rooms = new Map<number, Set<Participant>>();
+const tickets = new Map<string, LiveTicket>();
+
+/** Issues a single-use ticket to open the live channel of the folder reached by `tokenOrSlug`. */
+export const issueLiveTicket = (tokenOrSlug: string, access: { collabId: number; email: string }) => {
+    const now = Date.now();
+    tickets.forEach((t, key) => { if (t.expiresAt < now) tickets.delete(key); });
+
+    const ticket = crypto.randomBytes(32).toString('base64url');
+    tickets.set(ticket, { tokenOrSlug, collabId: access.collabId, email: access.email, expiresAt: now + TICKET_TTL_MS });
+    return ticket;
+};
+
+// Takes the ticket out of the store, so it can't be used a second time
+const redeemTicket = (ticket: string | null, tokenOrSlug: string): LiveTicket | null => {
+    if (!ticket) return null;
+    const entry = tickets.get(ticket);
+    tickets.delete(ticket);
+    if (!entry || entry.expiresAt < Date.now() || entry.tokenOrSlug !== tokenOrSlug) return null;
+    return entry;
+};
+
+const send = (participant: Participant, message: object) => {
+    if (participant.socket.readyState === WebSocket.OPEN) {
+        participant.socket.send(JSON.stringify(message));
+    }
+};
+
+const broadcastPresence = (collabId: number) => {
+    const room = rooms.get(collabId);
+    if (!room) return;
+    const viewers = new Set([...room].map(p => p.email.toLowerCase())).size;
+    room.forEach(p => send(p, { type: 'presence', viewers }));
+};
+
+const join = (collabId: number, participant: Participant) => {
+    if (!rooms.has(collabId)) rooms.set(collabId, new Set());
+    rooms.get(collabId)!.add(participant);
+    broadcastPresence(collabId);
+};
+
+const leave = (collabId: number, participant: Participant) => {
+    const room = rooms.get(collabId);
+    if (!room) return;
+    room.delete(participant);
+    if (room.size === 0) rooms.delete(collabId);
+    else broadcastPresence(collabId);
+};
+
+/** Pushes a change to everyone connected to the Collab Folder. */
+export const publishCollabEvent = (collabId: number, event: CollabLiveEvent) => {
+    rooms.get(collabId)?.forEach(p => send(p, event));
+};
+
+/**
+ * Publishes a change made through the host's own /api/files or /api/folders routes to every
+ * Collab Folder whose tree contains `folderId`. Never throws; the change itself already happened.
+ */
+export const publishFolderChange = async (folderId: number | null | undefined, event: CollabLiveEvent) => {
+    // Nobody is listening, so there's no need to look the folder up
+    if (!folderId || rooms.size === 0) return;
+
+    try {
+        const result = await db.execute(sql`
+            WITH RECURSIVE ancestors AS (
+                SELECT id, parent_id FROM folders WHERE id = ${folderId}
+                UNION ALL
+                SELECT f.id, f.parent_id FROM folders f
+                INNER JOIN ancestors a ON f.id = a.parent_id
+            )
+            SELECT c.id FROM collab_folders c
+            INNER JOIN ancestors a ON c.folder_id = a.id
+            WHERE c.revoked_at IS NULL
+        `);
+        const rows = Array.isArray(result) ? result : (result as any).rows || [];
+        rows.forEach((r: any) => publishCollabEvent(Number(r.id), event));
+    } catch (error) {
+        logger.warn('[COLLAB-LIVE] Could not publish host change:', error);
+    }
+};
+
+/**
+ * Closes the sockets of one participant (access removed) or of everyone (folder revoked or
+ * re-keyed). Clients treat close code 4403 as final and don't reconnect with the same session.
+ */
+export const disconnectCollabParticipants = (collabId: number, email?: string) => {
+    rooms.get(collabId)?.forEach(p => {
+        if (!email || p.email.toLowerCase() === email.toLowerCase()) p.socket.close(4403, 'Access changed');
+    });
+};
+
+export const attachCollabLive = (server: Server) => {
+    const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url || '', 'http://localhost');
+        const match = url.pathname.match(LIVE_PATH);
+        if (!match) {
+            socket.destroy();
+            return;
+        }
+
+        try {
+            const access = redeemTicket(url.searchParams.get('ticket'), decodeURIComponent(match[1]));
+            if (!access) {
+                socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+                socket.destroy();
+                return;
+            }
+
+            wss.handleUpgrade(req, socket, head, (ws) => {
+                const participant: Participant = { socket: ws, email: access.email, alive: true };
+                join(access.collabId, participant);
+
+                ws.on('pong', () => { participant.alive = true; });
+                // The channel is push-only; anything the client sends is ignored
+                ws.on('close', () => leave(access.collabId, participant));
+                ws.on('error', (err) => logger.warn('[COLLAB-LIVE] Socket error:', err));
+            });
+        } catch (error) {
+            logger.error('[COLLAB-LIVE] ❌ Upgrade failed:', error);
+            socket.destroy();
+        }
+    });
+
+    // Drop connections that stopped answering pings (closed laptops, dead proxies)
+    const heartbeat = setInterval(() => {
+        rooms.forEach(room => room.forEach(p => {
+            if (!p.alive) {
+                p.socket.terminate();
+                return;
+            }
+            p.alive = false;
+            p.socket.ping();
+        }));
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    return wss;
+};
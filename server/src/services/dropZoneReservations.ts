@@ -0,0 +1,107 @@
+import fs from 'fs';
+import { db } from '../db';
+import { dropZones, files, fileChunks, users } from '../db/schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { getStorageProvider } from '../storage';
+import logger from '../utils/logger';
+
+/**
+ * Drop Zone Reservations
+ *
+ * A Drop Zone's byte budget and file limits are taken when an upload starts, so concurrent
+ * guests can't overshoot them, and given back when the upload fails or is abandoned.
+ */
+
+/**
+ * Counts one upload of `size` bytes against the zone's byte budget and file limits. Returns
+ * false, reserving nothing, if it would go over one of them.
+ */
+export const reserveDropZoneUpload = async (dzId: number, size: number) => {
+    const [reserved] = await db.update(dropZones)
+        .set({
+            bytes_reserved: sql`${dropZones.bytes_reserved} + ${size}`,
+            uploads_reserved: sql`${dropZones.uploads_reserved} + 1`
+        })
+        .where(and(
+            eq(dropZones.id, dzId),
+            sql`(${dropZones.max_total_bytes} IS NULL OR ${dropZones.bytes_reserved} + ${size} <= ${dropZones.max_total_bytes})`,
+            sql`(${dropZones.max_files} IS NULL OR ${dropZones.uploads_reserved} < ${dropZones.max_files})`,
+            sql`(${dropZones.close_after_uploads} IS NULL OR ${dropZones.uploads_reserved} < ${dropZones.close_after_uploads})`
+        ))
+        .returning({ id: dropZones.id });
+    return !!reserved;
+};
+
+/** Takes `bytes` more of the zone's byte budget for an upload already counted. False if over it. */
+export const reserveDropZoneBytes = async (dzId: number, bytes: number) => {
+    const [reserved] = await db.update(dropZones)
+        .set({ bytes_reserved: sql`${dropZones.bytes_reserved} + ${bytes}` })
+        .where(and(
+            eq(dropZones.id, dzId),
+            sql`(${dropZones.max_total_bytes} IS NULL OR ${dropZones.bytes_reserved} + ${bytes} <= ${dropZones.max_total_bytes})`
+        ))
+        .returning({ id: dropZones.id });
+    return !!reserved;
+};
+
+// Gives back bytes taken by reserveDropZoneBytes when the upload they were for is not recorded
+export const releaseDropZoneBytes = async (dzId: number, bytes: number) => {
+    await db.update(dropZones)
+        .set({ bytes_reserved: sql`GREATEST(0, ${dropZones.bytes_reserved} - ${bytes})` })
+        .where(eq(dropZones.id, dzId));
+};
+
+// Gives back a reservation when the upload fails later (e.g. on the host's quota)
+export const releaseDropZoneUpload = async (dzId: number, size: number) => {
+    await db.update(dropZones)
+        .set({
+            bytes_reserved: sql`GREATEST(0, ${dropZones.bytes_reserved} - ${size})`,
+            uploads_reserved: sql`GREATEST(0, ${dropZones.uploads_reserved} - 1)`
+        })
+        .where(eq(dropZones.id, dzId));
+};
+
+/**
+ * Removes chunked guest uploads that were started but never finished, giving back the zone
+ * reservation and host quota /upload/init took. Their upload token lasts 24 hours, so a pending
+ * upload older than that can't be finished any more. Returns how many were removed.
+ */
+export const releaseAbandonedDropZoneUploads = async (): Promise<number> => {
+    const abandoned = await db.select().from(files).where(and(
+        eq(files.file_origin, 'drop_zone'),
+        eq(files.jackal_fid, 'pending-chunks'),
+        isNull(files.deleted_at),
+        sql`${files.created_at} < now() - interval '24 hours'`
+    ));
+
+    for (const file of abandoned) {
+        const chunks = await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id));
+
+        await db.transaction(async (tx) => {
+            await tx.delete(files).where(eq(files.id, file.id));
+            await tx.update(users)
+                .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
+                .where(eq(users.id, file.userId));
+            if (file.folderId !== null) {
+                await tx.update(dropZones)
+                    .set({
+                        bytes_reserved: sql`GREATEST(0, ${dropZones.bytes_reserved} - ${file.file_size})`,
+                        uploads_reserved: sql`GREATEST(0, ${dropZones.uploads_reserved} - 1)`
+                    })
+                    .where(and(eq(dropZones.userId, file.userId), eq(dropZones.folderId, file.folderId)));
+            }
+        });
+
+        const provider = getStorageProvider(file.storage_provider);
+        for (const chunk of chunks) {
+            if (chunk.local_path) fs.unlink(chunk.local_path, () => { });
+            const chunkKey = chunk.obsideo_key ?? chunk.jackal_merkle;
+            if (chunkKey && chunkKey !== 'pending' && !await provider.delete(chunkKey)) {
+                logger.warn(`[DZ-RESERVATIONS] Storage delete failed for chunk ${chunkKey} (file ${file.id})`);
+            }
+        }
+        logger.info(`[DZ-RESERVATIONS] Released abandoned upload file_id=${file.id} (${file.file_size} bytes)`);
+    }
+
+    return abandoned.length;
+};
@@ -25,6 +25,9 @@ const THEME = {
     }
 };
 
+// For values that come from the request (user agents etc.), not from us
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
 /**
  * Base HTML Template Wrapper
  */
@@ -295,18 +298,37 @@ export function paymentReceivedEmail(amount: string) {
 /**
  * Security Alert Email (New Login)
  */
-export function securityAlertEmail() {
+export function securityAlertEmail(signIn?: { device: string; ip: string }) {
     const title = 'New Sign In';
+    const details = signIn
+        ? `<p class="p"><strong>${escapeHtml(signIn.device)}</strong> · IP ${escapeHtml(signIn.ip)} · ${new Date().toUTCString()}</p>`
+        : '';
     const content = `
         <h1 class="h1">New sign-in to your Nest account</h1>
         <p class="p">Hi there,</p>
         <p class="p">We detected a new sign-in to your account. If this was you, no action is needed.</p>
-        <p class="p" style="font-size: 14px;"><i>If you don't recognize this activity, we recommend changing your password immediately to keep your account secure.</i></p>
+        ${details}
+        <p class="p" style="font-size: 14px;"><i>If you don't recognize this activity, sign that session out under Settings → Sessions and change your password immediately to keep your account secure.</i></p>
         <a href="${process.env.FRONTEND_URL || '#'}/settings" class="btn">Security Settings</a>
     `;
     return wrapTemplate(content, title);
 }
 
+/**
+ * Trusted Contact Recovery Request
+ */
+export function recoveryRequestEmail(ownerEmail: string) {
+    const title = 'Recovery Request';
+    const content = `
+        <h1 class="h1">${escapeHtml(ownerEmail)} needs your help</h1>
+        <p class="p">Hi there,</p>
+        <p class="p">You are one of <strong>${escapeHtml(ownerEmail)}</strong>'s trusted contacts on Nest. They have started recovering their account and asked for your approval.</p>
+        <p class="p" style="font-size: 14px;"><i>Only approve if you have spoken to them directly and the verification code on your dashboard matches the one on their screen. Nest will never ask you to approve on someone's behalf.</i></p>
+        <a href="${process.env.FRONTEND_URL || '#'}/dashboard" class="btn">Review Request</a>
+    `;
+    return wrapTemplate(content, title);
+}
+
 /**
  * Cancellation Farewell Email (with consequences)
  */
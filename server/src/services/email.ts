@@ -48,6 +48,7 @@ import {
   paymentFailedEmail,
   paymentReceivedEmail,
   securityAlertEmail,
+  recoveryRequestEmail,
   cancellationFarewellEmail,
   shareLinkDigestEmail,
   accountInactiveEmail
@@ -248,8 +249,8 @@ export async function sendPaymentReceivedEmail(email: string, amount: string): P
 /**
  * Send security alert email (new login)
  */
-export async function sendSecurityAlertEmail(email: string): Promise<boolean> {
-  const html = securityAlertEmail();
+export async function sendSecurityAlertEmail(email: string, signIn?: { device: string; ip: string }): Promise<boolean> {
+  const html = securityAlertEmail(signIn);
 
   return sendEmail({
     to: email,
@@ -258,6 +259,19 @@ export async function sendSecurityAlertEmail(email: string): Promise<boolean> {
   });
 }
 
+/**
+ * Send trusted contact recovery request email
+ */
+export async function sendRecoveryRequestEmail(email: string, ownerEmail: string): Promise<boolean> {
+  const html = recoveryRequestEmail(ownerEmail);
+
+  return sendEmail({
+    to: email,
+    subject: 'A Nest User Asked You to Approve Their Account Recovery',
+    html
+  });
+}
+
 /**
  * Send cancellation farewell email (with consequences)
  */
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { files, fileShareLinks } from '../db/schema';
+import { eq, and, or, isNull, inArray, sql } from 'drizzle-orm';
+
+/**
+ * File Share Links
+ *
+ * A file can have any number of public links, each with its own password, expiry, download
+ * cap and slug. Revoking sets revoked_at rather than deleting, so audit history keeps
+ * pointing at a real row.
+ */
+
+/** Columns set when a link is revoked. The custom slug is freed so it can be given to a new link. */
+export const revokedLinkValues = () => ({ revoked_at: new Date(), custom_slug: null });
+
+export type FileShareLinkRow = typeof fileShareLinks.$inferSelect;
+type FileRow = typeof files.$inferSelect;
+
+/** Looks up a live (not revoked, file not trashed) link by token or custom slug. */
+export const findFileShareLink = async (tokenOrSlug: string): Promise<{ link: FileShareLinkRow; file: FileRow } | null> => {
+    const [row] = await db.select({ link: fileShareLinks, file: files })
+        .from(fileShareLinks)
+        .innerJoin(files, eq(files.id, fileShareLinks.fileId))
+        .where(and(
+            or(eq(fileShareLinks.token, tokenOrSlug), eq(fileShareLinks.custom_slug, tokenOrSlug)),
+            isNull(fileShareLinks.revoked_at),
+            isNull(files.deleted_at)
+        ))
+        .limit(1);
+    return row ?? null;
+};
+
+/** Why a link can no longer be used, or null if it can. */
+export const linkBlockReason = (link: FileShareLinkRow): 'expired' | 'limit_reached' | null => {
+    if (link.expires_at && new Date(link.expires_at) < new Date()) return 'expired';
+    if (link.max_downloads && link.download_count >= link.max_downloads) return 'limit_reached';
+    return null;
+};
+
+/**
+ * Atomically counts a download against the link's cap. Returns false when the cap was
+ * reached in the meantime. Single-use links are revoked by the download that uses them.
+ */
+export const consumeFileShareDownload = async (link: FileShareLinkRow): Promise<boolean> => {
+    const isGhostLink = link.max_downloads === 1;
+
+    const [updated] = await db.update(fileShareLinks)
+        .set({
+            download_count: sql<number>`${fileShareLinks.download_count} + 1`,
+            ...(isGhostLink ? revokedLinkValues() : {})
+        })
+        .where(and(
+            eq(fileShareLinks.id, link.id),
+            link.max_downloads ? sql`${fileShareLinks.download_count} < ${link.max_downloads}` : undefined
+        ))
+        .returning({ id: fileShareLinks.id });
+
+    return !!updated;
+};
+
+/** Revokes every live link on the given files. Returns the revoked link ids. */
+export const revokeFileShareLinks = async (fileIds: number[]): Promise<{ id: number }[]> => {
+    if (fileIds.length === 0) return [];
+    return db.update(fileShareLinks)
+        .set(revokedLinkValues())
+        .where(and(inArray(fileShareLinks.fileId, fileIds), isNull(fileShareLinks.revoked_at)))
+        .returning({ id: fileShareLinks.id });
+};
+
+/** Revokes every live file link a user owns. */
+export const revokeUserFileShareLinks = (userId: number) =>
+    db.update(fileShareLinks)
+        .set(revokedLinkValues())
+        .where(and(eq(fileShareLinks.userId, userId), isNull(fileShareLinks.revoked_at)));
+
+/**
+ * Token of the newest usable link on a file, for select lists. The quick "Share" action
+ * reuses it instead of minting a new link on every click.
+ */
+export const activeShareTokenSql = sql<string | null>`(
+    SELECT l.token FROM ${fileShareLinks} l
+    WHERE l.file_id = ${files.id}
+      AND l.revoked_at IS NULL
+      AND (l.expires_at IS NULL OR l.expires_at > now())
+      AND (l.max_downloads IS NULL OR l.download_count < l.max_downloads)
+    ORDER BY l.created_at DESC
+    LIMIT 1
+)`;
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { files, fileThumbnails } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+
+/**
+ * File Thumbnails
+ *
+ * The uploading browser renders a small preview of images and videos, seals it with the file
+ * key and stores it here. The server never sees the pixels; anyone who can open the file can
+ * open its thumbnail. Kept in the database because they are tiny and read on every listing.
+ */
+
+export const MAX_THUMBNAIL_BYTES = 64 * 1024;
+
+type ThumbnailRow = typeof fileThumbnails.$inferSelect;
+
+/** Whether a file has a thumbnail, for select lists; lets clients skip fetching ones that don't exist. */
+export const hasThumbnailSql = sql<boolean>`EXISTS (SELECT 1 FROM ${fileThumbnails} t WHERE t.file_id = ${files.id})`;
+
+export const getThumbnail = async (fileId: number): Promise<ThumbnailRow | null> => {
+    const [thumbnail] = await db.select().from(fileThumbnails).where(eq(fileThumbnails.fileId, fileId)).limit(1);
+    return thumbnail ?? null;
+};
+
+/** Stores or replaces a file's thumbnail. */
+export const saveThumbnail = async (fileId: number, encrypted: Buffer, nonce: Buffer) => {
+    await db.insert(fileThumbnails)
+        .values({ fileId, encrypted_thumbnail: encrypted, thumbnail_nonce: nonce })
+        .onConflictDoUpdate({
+            target: fileThumbnails.fileId,
+            set: { encrypted_thumbnail: encrypted, thumbnail_nonce: nonce, updated_at: new Date() }
+        });
+};
@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { files, fileChunks, fileVersions, fileVersionChunks, fileThumbnails, users, graveyard, graveyardChunks } from '../db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { getStorageProvider } from '../storage';
+import { getVersionRetention } from '../config/pricing';
+import logger from '../utils/logger';
+
+/**
+ * File Version History
+ *
+ * The files row always describes the CURRENT version. Uploading new content snapshots
+ * the current storage pointers + wrapped file key into file_versions (chunks move to
+ * file_version_chunks) before the row is reset for the new upload. Restoring swaps an
+ * archived version back onto the files row. Archived versions keep counting against
+ * storage_used_bytes until they are pruned or the file is permanently deleted.
+ */
+
+type FileRow = typeof files.$inferSelect;
+type FileVersionRow = typeof fileVersions.$inferSelect;
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const UNSETTLED_STATES = ['pending', 'pending-chunks'];
+
+// Version 1 keeps the legacy object layout so existing files need no migration.
+export const fileObjectKey = (fileId: number, version: number = 1): string =>
+    version > 1 ? `files/${fileId}/v${version}` : `files/${fileId}`;
+
+export const chunkObjectKey = (fileId: number, chunkIndex: number | string, version: number = 1): string =>
+    `${fileObjectKey(fileId, version)}/chunks/${chunkIndex}`;
+
+/**
+ * True once the current version is fully on the storage backend. Only settled content
+ * can be archived — chunks still buffered on local disk are owned by the upload queue.
+ */
+export const hasSettledContent = (file: FileRow): boolean =>
+    file.is_gateway_verified === 1 && !UNSETTLED_STATES.includes(file.jackal_fid ?? 'pending');
+
+export const listFileVersions = (fileId: number) =>
+    db.select().from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId))
+        .orderBy(desc(fileVersions.version_number));
+
+export const getArchivedVersion = async (fileId: number, versionNumber: number) => {
+    const [version] = await db.select().from(fileVersions)
+        .where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.version_number, versionNumber)))
+        .limit(1);
+    return version;
+};
+
+/**
+ * Resolves a `?version=N` query param. Returns undefined when the current version is
+ * requested (or no param given), null when the version does not exist.
+ */
+export const resolveRequestedVersion = async (file: FileRow, param: unknown): Promise<FileVersionRow | null | undefined> => {
+    if (param === undefined || param === '') return undefined;
+    const versionNumber = parseInt(String(param));
+    if (isNaN(versionNumber)) return null;
+    if (versionNumber === file.current_version) return undefined;
+    return (await getArchivedVersion(file.id, versionNumber)) ?? null;
+};
+
+/** Overlays an archived version's storage pointers + key onto the file row. */
+export const withVersion = (file: FileRow, version: FileVersionRow): FileRow => ({
+    ...file,
+    storage_provider: version.storage_provider,
+    obsideo_key: version.obsideo_key,
+    jackal_fid: version.jackal_fid,
+    merkle_hash: version.merkle_hash,
+    jackal_filename: version.jackal_filename,
+    file_key_encrypted: version.file_key_encrypted,
+    file_key_nonce: version.file_key_nonce,
+    file_size: version.file_size,
+    is_chunked: version.is_chunked,
+    chunk_count: version.chunk_count,
+    encrypted_file_path: null,
+    is_gateway_verified: 1,
+    created_at: version.created_at,
+});
+
+/** Chunks of an archived version, shaped like file_chunks rows for the download routes. */
+export const listVersionChunks = async (versionId: number) => {
+    const chunks = await db.select().from(fileVersionChunks)
+        .where(eq(fileVersionChunks.versionId, versionId))
+        .orderBy(fileVersionChunks.chunk_index);
+
+    return chunks.map(c => ({
+        id: `v${versionId}_${c.chunk_index}`,
+        chunk_index: c.chunk_index,
+        jackal_merkle: c.jackal_merkle,
+        obsideo_key: c.obsideo_key,
+        size: c.size,
+        nonce: c.nonce,
+        local_path: null as string | null,
+        is_gateway_verified: 1
+    }));
+};
+
+const nextVersionNumber = async (tx: Tx, file: FileRow): Promise<number> => {
+    const [row] = await tx.select({ max: sql<number>`coalesce(max(${fileVersions.version_number}), 0)` })
+        .from(fileVersions)
+        .where(eq(fileVersions.fileId, file.id));
+    return Math.max(Number(row?.max || 0), file.current_version) + 1;
+};
+
+// Snapshot the files row into file_versions and move its chunks across. The thumbnail shows
+// the current content, so it is dropped rather than archived.
+const archiveCurrent = async (tx: Tx, file: FileRow): Promise<void> => {
+    await tx.delete(fileThumbnails).where(eq(fileThumbnails.fileId, file.id));
+
+    const [version] = await tx.insert(fileVersions).values({
+        fileId: file.id,
+        userId: file.userId,
+        version_number: file.current_version,
+        storage_provider: file.storage_provider,
+        obsideo_key: file.obsideo_key,
+        jackal_fid: file.jackal_fid,
+        merkle_hash: file.merkle_hash,
+        jackal_filename: file.jackal_filename,
+        file_key_encrypted: file.file_key_encrypted,
+        file_key_nonce: file.file_key_nonce,
+        file_size: file.file_size,
+        is_chunked: file.is_chunked,
+        chunk_count: file.chunk_count,
+        created_at: file.created_at
+    }).returning({ id: fileVersions.id });
+
+    const chunks = await tx.select().from(fileChunks).where(eq(fileChunks.fileId, file.id));
+    if (chunks.length > 0) {
+        await tx.insert(fileVersionChunks).values(chunks.map(c => ({
+            versionId: version.id,
+            chunk_index: c.chunk_index,
+            jackal_merkle: c.jackal_merkle,
+            obsideo_key: c.obsideo_key,
+            size: c.size,
+            nonce: c.nonce
+        })));
+        await tx.delete(fileChunks).where(eq(fileChunks.fileId, file.id));
+    }
+};
+
+// Move an archived version back onto the files row and drop its version record.
+const promote = async (tx: Tx, file: FileRow, version: FileVersionRow): Promise<void> => {
+    const chunks = await tx.select().from(fileVersionChunks).where(eq(fileVersionChunks.versionId, version.id));
+
+    await tx.update(files).set({
+        current_version: version.version_number,
+        storage_provider: version.storage_provider,
+        obsideo_key: version.obsideo_key,
+        jackal_fid: version.jackal_fid,
+        merkle_hash: version.merkle_hash,
+        jackal_filename: version.jackal_filename,
+        file_key_encrypted: version.file_key_encrypted,
+        file_key_nonce: version.file_key_nonce,
+        file_size: version.file_size,
+        is_chunked: version.is_chunked,
+        chunk_count: version.chunk_count,
+        is_gateway_verified: 1,
+        encrypted_file_path: null,
+        failure_reason: null,
+        created_at: version.created_at
+    }).where(eq(files.id, file.id));
+
+    if (chunks.length > 0) {
+        await tx.insert(fileChunks).values(chunks.map(c => ({
+            id: crypto.randomUUID(),
+            fileId: file.id,
+            chunk_index: c.chunk_index,
+            jackal_merkle: c.jackal_merkle,
+            obsideo_key: c.obsideo_key,
+            size: c.size,
+            nonce: c.nonce,
+            is_gateway_verified: 1
+        })));
+    }
+
+    await tx.delete(fileVersions).where(eq(fileVersions.id, version.id));
+};
+
+/**
+ * Archives the current version and resets the files row to receive a new upload through
+ * the regular /:id/upload or /:id/chunk + /:id/finish routes. Charges the new size to quota.
+ */
+export async function startNewVersion(file: FileRow, opts: {
+    fileSize: number;
+    storageProvider: string;
+    fileKeyEncrypted?: Buffer;
+    fileKeyNonce?: Buffer;
+    encryptedFilePath?: string;
+}): Promise<{ version: number; isChunked: boolean }> {
+    const isChunked = opts.fileSize > 128 * 1024 * 1024; // Same threshold as /upload/init
+
+    const version = await db.transaction(async (tx) => {
+        await archiveCurrent(tx, file);
+        const versionNumber = await nextVersionNumber(tx, file);
+
+        await tx.update(files).set({
+            current_version: versionNumber,
+            storage_provider: opts.storageProvider,
+            obsideo_key: null,
+            jackal_fid: isChunked ? 'pending-chunks' : 'pending',
+            merkle_hash: isChunked ? 'pending-chunks' : 'pending',
+            jackal_filename: `${file.userId}_${file.id}_${crypto.randomUUID()}`,
+            file_size: opts.fileSize,
+            is_chunked: isChunked ? 1 : 0,
+            chunk_count: 0,
+            is_gateway_verified: 0,
+            encrypted_file_path: opts.encryptedFilePath ?? null,
+            retry_count: 0,
+            failure_reason: null,
+            created_at: new Date(),
+            ...(opts.fileKeyEncrypted && opts.fileKeyNonce ? {
+                file_key_encrypted: opts.fileKeyEncrypted,
+                file_key_nonce: opts.fileKeyNonce
+            } : {})
+        }).where(eq(files.id, file.id));
+
+        await tx.update(users)
+            .set({ storage_used_bytes: sql`${users.storage_used_bytes} + ${opts.fileSize}` })
+            .where(eq(users.id, file.userId));
+
+        return versionNumber;
+    });
+
+    logger.info(`[VERSIONS] File ${file.id}: archived v${file.current_version}, started v${version}`);
+    return { version, isChunked };
+}
+
+/** Makes an archived version current again; the current version is archived in its place. */
+export async function restoreVersion(file: FileRow, version: FileVersionRow): Promise<void> {
+    await db.transaction(async (tx) => {
+        await archiveCurrent(tx, file);
+        await promote(tx, file, version);
+    });
+    logger.info(`[VERSIONS] File ${file.id}: restored v${version.version_number} (archived v${file.current_version})`);
+}
+
+/**
+ * Drops an unfinished new version and falls back to the latest archived one.
+ * Returns false when there is nothing to fall back to.
+ */
+export async function revertPendingVersion(file: FileRow): Promise<boolean> {
+    const [latest] = await listFileVersions(file.id).limit(1);
+    if (!latest) return false;
+
+    await db.transaction(async (tx) => {
+        await tx.delete(fileChunks).where(eq(fileChunks.fileId, file.id));
+        await promote(tx, file, latest);
+        await tx.update(users)
+            .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${file.file_size})` })
+            .where(eq(users.id, file.userId));
+    });
+    logger.info(`[VERSIONS] File ${file.id}: cancelled v${file.current_version}, reverted to v${latest.version_number}`);
+    return true;
+}
+
+// Delete an archived version's bytes from storage and record it in the graveyard.
+// Returns the bytes freed. Quota is left to the caller.
+const destroyVersion = async (version: FileVersionRow, reason: string): Promise<number> => {
+    const provider = getStorageProvider(version.storage_provider);
+    const chunks = await db.select().from(fileVersionChunks).where(eq(fileVersionChunks.versionId, version.id));
+
+    if (chunks.length > 0) {
+        for (const chunk of chunks) {
+            const chunkKey = chunk.obsideo_key ?? chunk.jackal_merkle;
+            if (chunkKey && chunkKey !== 'pending') {
+                const deleted = await provider.delete(chunkKey);
+                if (!deleted) logger.warn(`[VERSIONS] Storage delete failed for chunk key ${chunkKey} (file ${version.fileId} v${version.version_number})`);
+            }
+        }
+    } else {
+        const storageKey = version.obsideo_key ?? version.jackal_fid;
+        if (storageKey && !['pending', 'pending-chunks', 'chunked-complete'].includes(storageKey)) {
+            const deleted = await provider.delete(storageKey);
+            if (!deleted) logger.warn(`[VERSIONS] Storage delete failed for key ${storageKey} (file ${version.fileId} v${version.version_number})`);
+        }
+    }
+
+    await db.transaction(async (tx) => {
+        const [gv] = await tx.insert(graveyard).values({
+            original_file_id: version.fileId,
+            user_id: version.userId,
+            filename: version.jackal_filename || 'unknown',
+            file_size: version.file_size,
+            jackal_fid: version.obsideo_key ?? version.jackal_fid,
+            merkle_hash: version.merkle_hash,
+            original_created_at: version.created_at,
+            deletion_reason: reason
+        }).returning({ id: graveyard.id });
+
+        if (chunks.length > 0) {
+            await tx.insert(graveyardChunks).values(chunks.map(c => ({
+                graveyard_id: gv.id,
+                chunk_index: c.chunk_index,
+                jackal_merkle: c.obsideo_key ?? c.jackal_merkle,
+                size: c.size
+            })));
+        }
+
+        await tx.delete(fileVersions).where(eq(fileVersions.id, version.id));
+    });
+
+    return Number(version.file_size || 0);
+};
+
+/** Prunes archived versions beyond the owner's tier retention cap, oldest first. */
+export async function enforceVersionRetention(fileId: number, userId: number): Promise<void> {
+    const [user] = await db.select({ tier: users.subscription_tier }).from(users).where(eq(users.id, userId)).limit(1);
+    const keep = getVersionRetention(user?.tier || 'free');
+
+    const versions = await db.select().from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId))
+        .orderBy(desc(fileVersions.archived_at), desc(fileVersions.id));
+
+    let freed = 0;
+    for (const version of versions.slice(keep)) {
+        freed += await destroyVersion(version, 'version_retention');
+    }
+
+    if (freed > 0) {
+        await db.update(users)
+            .set({ storage_used_bytes: sql`GREATEST(0, ${users.storage_used_bytes} - ${freed})` })
+            .where(eq(users.id, userId));
+        logger.info(`[VERSIONS] File ${fileId}: pruned ${versions.length - keep} version(s), freed ${freed} bytes`);
+    }
+}
+
+/**
+ * Deletes every archived version of a file ahead of a permanent delete. Returns the
+ * bytes freed so the caller can fold them into its own quota decrement.
+ */
+export async function purgeFileVersions(fileId: number, reason: string): Promise<number> {
+    const versions = await db.select().from(fileVersions).where(eq(fileVersions.fileId, fileId));
+    let freed = 0;
+    for (const version of versions) {
+        freed += await destroyVersion(version, reason);
+    }
+    return freed;
+}
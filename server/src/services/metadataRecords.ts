@@ -0,0 +1,159 @@
+import { db } from '../db';
+import { userCrypto, metadataRecords } from '../db/schema';
+import { eq, and, gt, asc, sql } from 'drizzle-orm';
+import { bufferToBase64, base64ToBuffer } from '../crypto/keyManagement';
+
+/**
+ * Metadata Records (metadata format 2)
+ *
+ * Instead of one metadata_blob holding the whole tree, every file/folder entry is its own record
+ * encrypted by the client with the master key. A write bumps user_crypto.metadata_version once and
+ * stamps every record it touched with the new value, so "what changed since version N" is a range
+ * scan and a rename only re-uploads one record. Deleted items stay behind as tombstones (null
+ * record) so clients polling the feed learn about them.
+ *
+ * Accounts start on format 1 and are converted by their own browser (the server can't decrypt the
+ * blob): it re-encrypts every entry and hands them to migrateToRecords in one request.
+ */
+
+export const METADATA_FORMAT_BLOB = 1;
+export const METADATA_FORMAT_RECORDS = 2;
+export const MAX_RECORDS_PER_WRITE = 50000;
+const INSERT_BATCH_SIZE = 5000;
+
+export type MetadataItemType = 'file' | 'folder' | 'root';
+
+export interface RecordUpsert {
+    type: MetadataItemType;
+    id: number;
+    encryptedRecord: string;
+    nonce: string;
+}
+
+export interface RecordDelete {
+    type: MetadataItemType;
+    id: number;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const getMetadataFormat = async (userId: number) => {
+    const [row] = await db.select({ format: userCrypto.metadata_format, version: userCrypto.metadata_version })
+        .from(userCrypto).where(eq(userCrypto.userId, userId)).limit(1);
+    return row ?? null;
+};
+
+const writeRecords = async (tx: Tx, userId: number, version: number, upserts: RecordUpsert[], deletes: RecordDelete[]) => {
+    const rows = [
+        ...upserts.map(r => ({
+            userId,
+            item_type: r.type,
+            item_id: r.id,
+            encrypted_record: base64ToBuffer(r.encryptedRecord),
+            record_nonce: base64ToBuffer(r.nonce),
+            version,
+            updated_at: new Date()
+        })),
+        ...deletes.map(r => ({
+            userId,
+            item_type: r.type,
+            item_id: r.id,
+            encrypted_record: null,
+            record_nonce: null,
+            version,
+            updated_at: new Date()
+        }))
+    ];
+
+    // Postgres caps a statement at 65535 bind parameters (7 per row here)
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(metadataRecords)
+            .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+            .onConflictDoUpdate({
+                target: [metadataRecords.userId, metadataRecords.item_type, metadataRecords.item_id],
+                set: {
+                    encrypted_record: sql`excluded.encrypted_record`,
+                    record_nonce: sql`excluded.record_nonce`,
+                    version: sql`excluded.version`,
+                    updated_at: sql`excluded.updated_at`
+                }
+            });
+    }
+};
+
+/**
+ * Applies one batch of record changes. Returns the new metadata_version, or null if the account
+ * is still on the blob format.
+ */
+export const writeMetadataRecords = async (userId: number, upserts: RecordUpsert[], deletes: RecordDelete[]) => {
+    return db.transaction(async (tx) => {
+        // The row lock on user_crypto serialises concurrent writers, so versions never interleave
+        const [bumped] = await tx.update(userCrypto)
+            .set({ metadata_version: sql`${userCrypto.metadata_version} + 1`, updated_at: new Date() })
+            .where(and(eq(userCrypto.userId, userId), eq(userCrypto.metadata_format, METADATA_FORMAT_RECORDS)))
+            .returning({ version: userCrypto.metadata_version });
+        if (!bumped) return null;
+
+        await writeRecords(tx, userId, bumped.version, upserts, deletes);
+        return bumped.version;
+    });
+};
+
+/**
+ * Every record written after `since`, in version order. `since = 0` returns the full tree.
+ * Tombstones are left out of a full load since there is nothing for the client to remove.
+ */
+export const listMetadataChanges = async (userId: number, since: number) => {
+    const rows = await db.select({
+        item_type: metadataRecords.item_type,
+        item_id: metadataRecords.item_id,
+        encrypted_record: metadataRecords.encrypted_record,
+        record_nonce: metadataRecords.record_nonce
+    })
+        .from(metadataRecords)
+        .where(and(eq(metadataRecords.userId, userId), gt(metadataRecords.version, since)))
+        .orderBy(asc(metadataRecords.version), asc(metadataRecords.id));
+
+    return rows
+        .filter(r => since > 0 || r.encrypted_record)
+        .map(r => r.encrypted_record && r.record_nonce
+            ? { type: r.item_type, id: r.item_id, encryptedRecord: bufferToBase64(r.encrypted_record), nonce: bufferToBase64(r.record_nonce) }
+            : { type: r.item_type, id: r.item_id, deleted: true as const });
+};
+
+/**
+ * Switches a blob-format account to records. `expectedVersion` is the metadata_version the client
+ * decrypted; if the blob moved on since (another tab saved), nothing is written and null comes back.
+ */
+export const migrateToRecords = async (userId: number, expectedVersion: number, records: RecordUpsert[]) => {
+    return db.transaction(async (tx) => {
+        const [bumped] = await tx.update(userCrypto)
+            .set({
+                metadata_format: METADATA_FORMAT_RECORDS,
+                metadata_version: sql`${userCrypto.metadata_version} + 1`,
+                updated_at: new Date()
+            })
+            .where(and(
+                eq(userCrypto.userId, userId),
+                eq(userCrypto.metadata_format, METADATA_FORMAT_BLOB),
+                eq(userCrypto.metadata_version, expectedVersion)
+            ))
+            .returning({ version: userCrypto.metadata_version });
+        if (!bumped) return null;
+
+        // Leftovers from an earlier records period (e.g. before a data-wiping reset)
+        await tx.delete(metadataRecords).where(eq(metadataRecords.userId, userId));
+        await writeRecords(tx, userId, bumped.version, records, []);
+        return bumped.version;
+    });
+};
+
+/** Drops all records and returns the account to the blob format, e.g. when a reset replaces the master key. */
+export const resetMetadataRecords = async (userId: number) => {
+    await db.transaction(async (tx) => {
+        await tx.delete(metadataRecords).where(eq(metadataRecords.userId, userId));
+        await tx.update(userCrypto)
+            .set({ metadata_format: METADATA_FORMAT_BLOB })
+            .where(eq(userCrypto.userId, userId));
+    });
+};
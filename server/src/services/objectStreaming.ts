@@ -0,0 +1,210 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { getStorageProvider } from '../storage';
+import type { ByteRange } from '../storage/StorageProvider';
+import logger from '../utils/logger';
+import { env } from '../config/env';
+
+/**
+ * Object Streaming
+ *
+ * Sends encrypted file bytes (a whole blob, one chunk, or every chunk back to back) and honours
+ * single `Range: bytes=` requests, so media can seek and broken downloads can continue where they
+ * stopped. Each part is read from local disk while it's still there, streamed from the storage
+ * provider when it can, and otherwise hydrated into a temp file first.
+ */
+
+export interface StoredPart {
+    localPath: string | null;
+    storageKey: string | null;
+    /** Stored (encrypted) size; legacy single-blob files only learn it once on disk */
+    size?: number;
+    /** Names the temp file when the part has to be hydrated */
+    tempName: string;
+}
+
+type ChunkLike = { id: number | string; local_path: string | null; obsideo_key: string | null; jackal_merkle: string | null; size: number };
+type BlobFileLike = { id: number; encrypted_file_path: string | null; obsideo_key: string | null; jackal_fid: string | null };
+
+export const chunkPart = (chunk: ChunkLike): StoredPart => ({
+    localPath: chunk.local_path,
+    storageKey: chunk.obsideo_key ?? chunk.jackal_merkle,
+    size: chunk.size,
+    tempName: `chunk_${chunk.id}`
+});
+
+export const blobPart = (file: BlobFileLike): StoredPart => ({
+    localPath: file.encrypted_file_path,
+    storageKey: file.obsideo_key ?? file.jackal_fid,
+    tempName: `file_${file.id}`
+});
+
+const usableKey = (key: string | null) => !!key && key !== 'pending' && key !== 'pending-chunks';
+
+/** Parses a single range against `size`. Null serves the whole object (no header, multiple ranges or a malformed one). */
+export const parseRange = (header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null => {
+    const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (!match[1] && !match[2])) return null;
+
+    if (!match[1]) {
+        const suffix = parseInt(match[2]);
+        if (suffix === 0 || size === 0) return 'unsatisfiable';
+        return { start: Math.max(0, size - suffix), end: size - 1 };
+    }
+
+    const start = parseInt(match[1]);
+    const end = match[2] ? parseInt(match[2]) : size - 1;
+    if (end < start) return null;
+    if (start >= size) return 'unsatisfiable';
+    return { start, end: Math.min(end, size - 1) };
+};
+
+// ============================================================================
+// COUNTED DOWNLOADS
+// ============================================================================
+
+const RESUME_TICKET_HEADER = 'X-Resume-Ticket';
+const RESUME_TICKET_SECRET = crypto.createHmac('sha256', env.JWT_SECRET).update('nest-download-resume').digest();
+
+// Judged by what sendStoredObject will serve: a malformed, reversed or multi-range header gets the whole object
+const servesPastStart = (req: express.Request): boolean => {
+    const range = parseRange(req.headers.range, Number.MAX_SAFE_INTEGER);
+    return range !== null && range !== 'unsatisfiable' && range.start > 0;
+};
+
+const hasResumeTicket = (req: express.Request, scope: string): boolean => {
+    const ticket = req.headers[RESUME_TICKET_HEADER.toLowerCase()];
+    if (typeof ticket !== 'string') return false;
+    try {
+        const decoded = jwt.verify(ticket, RESUME_TICKET_SECRET, { algorithms: ['HS256'] }) as any;
+        return decoded.scope === scope;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Counts a download (share link limits, audit entries) unless the request continues one that was
+ * already counted. Only a counted response hands out a resume ticket for `scope`, and only a
+ * request carrying it may pick the same object up past byte 0 for free; anything else counts,
+ * whatever its Range header says. Resolves false when `count` refuses the download.
+ */
+export const countDownloadOnce = async (
+    req: express.Request,
+    res: express.Response,
+    scope: string,
+    count: () => Promise<boolean>
+): Promise<boolean> => {
+    if (servesPastStart(req) && hasResumeTicket(req, scope)) return true;
+    if (!await count()) return false;
+
+    res.setHeader(RESUME_TICKET_HEADER, jwt.sign({ scope }, RESUME_TICKET_SECRET, { expiresIn: '1h' }));
+    res.setHeader('Access-Control-Expose-Headers', RESUME_TICKET_HEADER);
+    return true;
+};
+
+const hydrate = async (part: StoredPart, storageProvider: string | null): Promise<string | null> => {
+    if (!usableKey(part.storageKey)) return null;
+    const tempPath = path.join(__dirname, `../../uploads/temp_hydrate_${part.tempName}_${Date.now()}`);
+    const success = await getStorageProvider(storageProvider).download(part.storageKey!, part.tempName, tempPath);
+    return success && fs.existsSync(tempPath) ? tempPath : null;
+};
+
+// Players drop ranged requests all the time when seeking; stop reading as soon as the client goes
+const pipeInto = (stream: Readable, res: express.Response) => new Promise<void>((resolve, reject) => {
+    const onClose = () => {
+        stream.destroy();
+        reject(new Error('Client disconnected'));
+    };
+    res.once('close', onClose);
+    stream.on('end', () => { res.off('close', onClose); resolve(); });
+    stream.on('error', (err) => { res.off('close', onClose); reject(err); });
+    stream.pipe(res, { end: false });
+});
+
+/**
+ * Streams `parts` back to back as one body, answering a Range request with 206 (or 416 when it
+ * can't be met). Resolves false, before anything is sent, when a part can't be found anywhere.
+ */
+export const sendStoredObject = async (
+    req: express.Request,
+    res: express.Response,
+    parts: StoredPart[],
+    storageProvider: string | null,
+    headers: Record<string, string | number> = {}
+): Promise<boolean> => {
+    const temps: string[] = [];
+    const cleanup = () => temps.forEach(p => fs.unlink(p, () => { }));
+
+    try {
+        // Sizes come first: they decide the headers
+        const sized: (StoredPart & { size: number })[] = [];
+        for (const part of parts) {
+            let localPath = part.localPath && fs.existsSync(part.localPath) ? part.localPath : null;
+            if (!localPath && (part.size === undefined || !usableKey(part.storageKey))) {
+                localPath = await hydrate(part, storageProvider);
+                if (!localPath) return false;
+                temps.push(localPath);
+            }
+            sized.push({ ...part, localPath, size: localPath ? fs.statSync(localPath).size : part.size! });
+        }
+
+        const total = sized.reduce((acc, p) => acc + p.size, 0);
+        const range = parseRange(req.headers.range, total);
+        if (range === 'unsatisfiable') {
+            res.status(416).setHeader('Content-Range', `bytes */${total}`);
+            res.end();
+            return true;
+        }
+
+        const start = range?.start ?? 0;
+        const end = range?.end ?? total - 1;
+        Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('Content-Length', Math.max(0, end - start + 1));
+        if (range) {
+            res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${total}`);
+        }
+
+        let offset = 0;
+        for (const part of sized) {
+            const partStart = Math.max(start - offset, 0);
+            const partEnd = Math.min(end - offset, part.size - 1);
+            offset += part.size;
+            if (partStart > partEnd) continue;
+            const partRange = { start: partStart, end: partEnd };
+
+            let stream: Readable | null = null;
+            if (part.localPath) {
+                stream = fs.createReadStream(part.localPath, partRange);
+            } else {
+                const provider = getStorageProvider(storageProvider);
+                stream = provider.getStream ? await provider.getStream(part.storageKey!, partRange) : null;
+                if (!stream) {
+                    const tempPath = await hydrate(part, storageProvider);
+                    if (!tempPath) throw new Error(`${part.tempName} unavailable`);
+                    temps.push(tempPath);
+                    stream = fs.createReadStream(tempPath, partRange);
+                }
+            }
+            await pipeInto(stream, res);
+        }
+
+        res.end();
+        return true;
+    } catch (error) {
+        if (res.destroyed) return true;
+        if (!res.headersSent) throw error;
+        // Mid-body there's no status left to send; cutting the connection lets the client resume
+        logger.error('[OBJECT-STREAM] ❌ Stream failed:', error);
+        res.destroy(error as Error);
+        return true;
+    } finally {
+        cleanup();
+    }
+};
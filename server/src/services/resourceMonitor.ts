@@ -25,6 +25,7 @@ class ResourceMonitor {
     private readonly checkInterval: number;
     private intervalId?: NodeJS.Timeout;
     private metrics: ResourceMetrics;
+    private concurrencyListeners: Array<(max: number) => void> = [];
 
     constructor() {
         // Read from validated config
@@ -93,6 +94,10 @@ class ResourceMonitor {
         } else if (memoryFreePercent < this.memoryThresholdLow) {
             adjustment = -1;
             reason = `Memory low (${memoryFreePercent}% free)`;
+        } else if (metrics.diskUsedPercent > this.diskThresholdHigh) {
+            // Queued uploads are buffered on local disk until the provider accepts them
+            adjustment = -1;
+            reason = `Disk usage high (${metrics.diskUsedPercent}%)`;
         }
         // Check if we should increase concurrency
         else if (metrics.cpuLoadPercent < this.cpuThresholdLow && memoryFreePercent > 30) {
@@ -112,6 +117,7 @@ class ResourceMonitor {
                     memoryFree: memoryFreePercent
                 });
                 this.maxConcurrent = newMax;
+                this.concurrencyListeners.forEach(listener => listener(newMax));
             }
         }
 
@@ -161,6 +167,13 @@ class ResourceMonitor {
         return this.maxConcurrent;
     }
 
+    /**
+     * Be told whenever MAX_CONCURRENT changes, e.g. so a queue can start more work right away
+     */
+    onConcurrencyChange(listener: (max: number) => void): void {
+        this.concurrencyListeners.push(listener);
+    }
+
     /**
      * Get current metrics
      */
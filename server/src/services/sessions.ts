@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { userDevices, refreshTokens } from '../db/schema';
+import { eq, and, ne, desc, gt } from 'drizzle-orm';
+
+/**
+ * Sessions
+ *
+ * A session is one refresh-token family: the refresh_tokens row created at login, rotated in
+ * place by /auth/refresh. Each row points at the user_devices entry (user + IP + user agent)
+ * that signed in, and access tokens carry its id as `sid` so the current session can be
+ * told apart. Revoking deletes the row; the access token dies at its 15-minute expiry.
+ */
+
+type DeviceRow = typeof userDevices.$inferSelect;
+
+/** "Chrome on macOS" from a user-agent string; good enough to recognise your own devices. */
+export const describeUserAgent = (ua: string) => {
+    const browser =
+        /Edg\//.test(ua) ? 'Edge' :
+        /OPR\/|Opera/.test(ua) ? 'Opera' :
+        /Firefox\//.test(ua) ? 'Firefox' :
+        /Chrome\/|CriOS\//.test(ua) ? 'Chrome' :
+        /Safari\//.test(ua) ? 'Safari' :
+        null;
+    const os =
+        /iPhone|iPad|iPod/.test(ua) ? 'iOS' :
+        /Android/.test(ua) ? 'Android' :
+        /Windows/.test(ua) ? 'Windows' :
+        /Mac OS X|Macintosh/.test(ua) ? 'macOS' :
+        /CrOS/.test(ua) ? 'ChromeOS' :
+        /Linux/.test(ua) ? 'Linux' :
+        null;
+
+    if (browser && os) return `${browser} on ${os}`;
+    if (browser || os) return (browser || os)!;
+    // Non-browser clients (apps, scripts): their product token is the most useful thing we have
+    const product = ua.split(/[\s/]/)[0];
+    return product && product !== 'unknown' ? product : 'Unknown device';
+};
+
+/** Records the sign-in device, returning its row and whether it was seen before. */
+export const recordDevice = async (userId: number, ip: string, userAgent: string): Promise<{ device: DeviceRow; isNew: boolean }> => {
+    const deviceHash = crypto.createHash('sha256').update(`${userId}:${ip}:${userAgent}`).digest('hex');
+
+    const [known] = await db.update(userDevices)
+        .set({ last_seen_at: new Date() })
+        .where(and(eq(userDevices.userId, userId), eq(userDevices.device_hash, deviceHash)))
+        .returning();
+    if (known) return { device: known, isNew: false };
+
+    // Unique on (user, hash): a concurrent login from the same device may have inserted it
+    const [inserted] = await db.insert(userDevices)
+        .values({ userId, device_hash: deviceHash, ip_address: ip, user_agent: userAgent })
+        .onConflictDoUpdate({
+            target: [userDevices.userId, userDevices.device_hash],
+            set: { last_seen_at: new Date() }
+        })
+        .returning();
+    return { device: inserted, isNew: true };
+};
+
+export const listSessions = async (userId: number, currentSessionId?: number) => {
+    const rows = await db.select({ session: refreshTokens, device: userDevices })
+        .from(refreshTokens)
+        .leftJoin(userDevices, eq(userDevices.id, refreshTokens.deviceId))
+        .where(and(eq(refreshTokens.userId, userId), gt(refreshTokens.expiresAt, new Date())))
+        .orderBy(desc(refreshTokens.createdAt));
+
+    return rows.map(({ session, device }) => ({
+        id: session.id,
+        device: device ? describeUserAgent(device.user_agent) : 'Unknown device',
+        ip_address: device?.ip_address ?? null,
+        user_agent: device?.user_agent ?? null,
+        created_at: session.createdAt,
+        // Refresh rotates the row roughly every 15 minutes while the app is open
+        last_seen_at: session.rotatedAt ?? session.createdAt,
+        current: session.id === currentSessionId,
+    }));
+};
+
+export const revokeSession = async (userId: number, sessionId: number): Promise<boolean> => {
+    const deleted = await db.delete(refreshTokens)
+        .where(and(eq(refreshTokens.id, sessionId), eq(refreshTokens.userId, userId)))
+        .returning({ id: refreshTokens.id });
+    return deleted.length > 0;
+};
+
+/** Signs out every session except `keepSessionId`. Returns how many were revoked. */
+export const revokeOtherSessions = async (userId: number, keepSessionId: number): Promise<number> => {
+    const deleted = await db.delete(refreshTokens)
+        .where(and(eq(refreshTokens.userId, userId), ne(refreshTokens.id, keepSessionId)))
+        .returning({ id: refreshTokens.id });
+    return deleted.length;
+};
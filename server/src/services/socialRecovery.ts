@@ -0,0 +1,317 @@
+import { db } from '../db';
+import { users, userCrypto, recoveryTrustees, recoveryRequests, recoveryApprovals } from '../db/schema';
+import { eq, and, gt, inArray, desc, isNotNull } from 'drizzle-orm';
+import { bufferToBase64, base64ToBuffer } from '../crypto/keyManagement';
+
+/**
+ * Social Recovery
+ *
+ * The owner's browser wraps the master key under a random recovery key, splits that key k-of-n
+ * (Shamir over GF(256)) and seals each share to a trustee's account public key. The server only
+ * stores ciphertext: user_crypto holds the wrapped master key and threshold, recovery_trustees
+ * the sealed shares.
+ *
+ * To recover, the locked-out owner opens a request (authorised by their password-reset token)
+ * with a one-time public key. Each trustee opens their share in their own browser and re-seals
+ * it to that key; once k approvals exist, the requester combines them client-side and finishes
+ * the normal /auth/reset-password flow.
+ */
+
+export const REQUEST_TTL_MS = 72 * 60 * 60 * 1000;
+export const MAX_TRUSTEES = 10;
+
+// ============================================================================
+// ACCOUNT KEYPAIR
+// ============================================================================
+
+export const getAccountKeyPair = async (userId: number) => {
+    const [row] = await db.select({
+        public_key: userCrypto.public_key,
+        encrypted_private_key: userCrypto.encrypted_private_key,
+        private_key_nonce: userCrypto.private_key_nonce
+    }).from(userCrypto).where(eq(userCrypto.userId, userId)).limit(1);
+
+    if (!row?.public_key || !row.encrypted_private_key || !row.private_key_nonce) return null;
+    return {
+        publicKey: bufferToBase64(row.public_key),
+        encryptedPrivateKey: bufferToBase64(row.encrypted_private_key),
+        privateKeyNonce: bufferToBase64(row.private_key_nonce)
+    };
+};
+
+/**
+ * Stores the keypair only if none exists: shares other users sealed to the old public key
+ * would become unopenable if it were replaced. Returns the pair now on record.
+ */
+export const setAccountKeyPair = async (userId: number, pair: { publicKey: string; encryptedPrivateKey: string; privateKeyNonce: string }) => {
+    const existing = await getAccountKeyPair(userId);
+    if (existing) return existing;
+
+    await db.update(userCrypto)
+        .set({
+            public_key: base64ToBuffer(pair.publicKey),
+            encrypted_private_key: base64ToBuffer(pair.encryptedPrivateKey),
+            private_key_nonce: base64ToBuffer(pair.privateKeyNonce),
+            updated_at: new Date()
+        })
+        .where(eq(userCrypto.userId, userId));
+    return pair;
+};
+
+// ============================================================================
+// OWNER SETUP
+// ============================================================================
+
+/** Account and public key (null until they have signed in once) for each prospective trustee. */
+export const lookupTrustees = async (emails: string[]) => {
+    const normalized = [...new Set(emails.map(e => e.trim().toLowerCase()))];
+    const rows = await db.select({ id: users.id, email: users.email, publicKey: userCrypto.public_key })
+        .from(users)
+        .leftJoin(userCrypto, eq(userCrypto.userId, users.id))
+        .where(inArray(users.email, normalized));
+
+    return normalized.map(email => {
+        const row = rows.find(r => r.email.toLowerCase() === email);
+        return {
+            email,
+            userId: row?.id ?? null,
+            publicKey: row?.publicKey ? bufferToBase64(row.publicKey) : null
+        };
+    });
+};
+
+/** True when every user id has an account keypair to seal a share to. */
+export const trusteesHaveKeys = async (userIds: number[]) => {
+    const rows = await db.select({ id: userCrypto.userId })
+        .from(userCrypto)
+        .where(and(inArray(userCrypto.userId, userIds), isNotNull(userCrypto.public_key)));
+    return rows.length === new Set(userIds).size;
+};
+
+export const getSocialRecoveryStatus = async (ownerId: number) => {
+    const [config] = await db.select({
+        threshold: userCrypto.social_recovery_threshold,
+        createdAt: userCrypto.social_recovery_created_at
+    }).from(userCrypto).where(eq(userCrypto.userId, ownerId)).limit(1);
+
+    const trustees = await db.select({ email: users.email, shareIndex: recoveryTrustees.share_index })
+        .from(recoveryTrustees)
+        .innerJoin(users, eq(users.id, recoveryTrustees.trusteeId))
+        .where(eq(recoveryTrustees.ownerId, ownerId))
+        .orderBy(recoveryTrustees.share_index);
+
+    const threshold = config?.threshold ?? null;
+    return {
+        enabled: threshold !== null,
+        threshold,
+        createdAt: config?.createdAt ?? null,
+        trustees,
+        // Trustees can drop out (account deleted, vault wiped); below k recovery is impossible
+        recoverable: threshold !== null && trustees.length >= threshold
+    };
+};
+
+/** Replaces the owner's trustees and envelope; pending requests against the old split are cancelled. */
+export const saveSocialRecovery = async (ownerId: number, setup: {
+    threshold: number;
+    encryptedMasterKey: string;
+    encryptedMasterKeyNonce: string;
+    shares: { trusteeUserId: number; shareIndex: number; encryptedShare: string }[];
+}) => {
+    const now = new Date();
+    await db.transaction(async (tx) => {
+        await tx.delete(recoveryTrustees).where(eq(recoveryTrustees.ownerId, ownerId));
+        await tx.insert(recoveryTrustees).values(setup.shares.map(s => ({
+            ownerId,
+            trusteeId: s.trusteeUserId,
+            share_index: s.shareIndex,
+            encrypted_share: base64ToBuffer(s.encryptedShare)
+        })));
+        await tx.update(userCrypto)
+            .set({
+                social_recovery_threshold: setup.threshold,
+                social_recovery_encrypted_master_key: base64ToBuffer(setup.encryptedMasterKey),
+                social_recovery_master_key_nonce: base64ToBuffer(setup.encryptedMasterKeyNonce),
+                social_recovery_created_at: now,
+                updated_at: now
+            })
+            .where(eq(userCrypto.userId, ownerId));
+        await tx.update(recoveryRequests)
+            .set({ status: 'cancelled' })
+            .where(and(eq(recoveryRequests.ownerId, ownerId), eq(recoveryRequests.status, 'pending')));
+    });
+};
+
+export const disableSocialRecovery = async (ownerId: number) => {
+    await db.transaction(async (tx) => {
+        await tx.delete(recoveryTrustees).where(eq(recoveryTrustees.ownerId, ownerId));
+        await tx.update(userCrypto)
+            .set({
+                social_recovery_threshold: null,
+                social_recovery_encrypted_master_key: null,
+                social_recovery_master_key_nonce: null,
+                social_recovery_created_at: null,
+                updated_at: new Date()
+            })
+            .where(eq(userCrypto.userId, ownerId));
+        await tx.update(recoveryRequests)
+            .set({ status: 'cancelled' })
+            .where(and(eq(recoveryRequests.ownerId, ownerId), eq(recoveryRequests.status, 'pending')));
+    });
+};
+
+/**
+ * A destructive reset replaces the master key, so the account private key (and with it every
+ * share this user holds for others) and the owner's own envelope can no longer be opened.
+ */
+export const clearAccountRecoveryKeys = async (userId: number) => {
+    await disableSocialRecovery(userId);
+    await db.delete(recoveryTrustees).where(eq(recoveryTrustees.trusteeId, userId));
+    await db.update(userCrypto)
+        .set({ public_key: null, encrypted_private_key: null, private_key_nonce: null })
+        .where(eq(userCrypto.userId, userId));
+};
+
+// ============================================================================
+// RECOVERY REQUESTS (owner side, authorised by the password-reset token)
+// ============================================================================
+
+const findPendingRequest = async (ownerId: number) => {
+    const [request] = await db.select()
+        .from(recoveryRequests)
+        .where(and(
+            eq(recoveryRequests.ownerId, ownerId),
+            eq(recoveryRequests.status, 'pending'),
+            gt(recoveryRequests.expires_at, new Date())
+        ))
+        .orderBy(desc(recoveryRequests.created_at))
+        .limit(1);
+    return request;
+};
+
+/** Opens a request, cancelling any earlier one. The caller checks the owner is recoverable. */
+export const createRecoveryRequest = async (ownerId: number, requestPublicKey: string) => {
+    const expiresAt = new Date(Date.now() + REQUEST_TTL_MS);
+    const [request] = await db.transaction(async (tx) => {
+        await tx.update(recoveryRequests)
+            .set({ status: 'cancelled' })
+            .where(and(eq(recoveryRequests.ownerId, ownerId), eq(recoveryRequests.status, 'pending')));
+        return tx.insert(recoveryRequests)
+            .values({ ownerId, request_public_key: base64ToBuffer(requestPublicKey), expires_at: expiresAt })
+            .returning();
+    });
+
+    return request;
+};
+
+export const getRecoveryRequestStatus = async (ownerId: number) => {
+    const request = await findPendingRequest(ownerId);
+    if (!request) return null;
+
+    const [config] = await db.select({
+        threshold: userCrypto.social_recovery_threshold,
+        encrypted: userCrypto.social_recovery_encrypted_master_key,
+        nonce: userCrypto.social_recovery_master_key_nonce
+    }).from(userCrypto).where(eq(userCrypto.userId, ownerId)).limit(1);
+
+    const [decisions, trustees] = await Promise.all([
+        db.select().from(recoveryApprovals).where(eq(recoveryApprovals.requestId, request.id)),
+        db.select({ id: recoveryTrustees.id }).from(recoveryTrustees).where(eq(recoveryTrustees.ownerId, ownerId))
+    ]);
+    const approvals = decisions.filter(d => d.decision === 'approved' && d.encrypted_share);
+    const threshold = config?.threshold ?? 0;
+
+    return {
+        requestId: request.id,
+        requestPublicKey: bufferToBase64(request.request_public_key),
+        expiresAt: request.expires_at,
+        threshold,
+        trusteeCount: trustees.length,
+        declined: decisions.length - approvals.length,
+        shares: approvals.map(a => bufferToBase64(a.encrypted_share!)),
+        // Only useful together with k shares, so only handed out once they exist
+        envelope: threshold > 0 && approvals.length >= threshold && config?.encrypted && config.nonce
+            ? { encryptedMasterKey: bufferToBase64(config.encrypted), encryptedMasterKeyNonce: bufferToBase64(config.nonce) }
+            : null
+    };
+};
+
+export const completeRecoveryRequests = async (ownerId: number) => {
+    await db.update(recoveryRequests)
+        .set({ status: 'completed', completed_at: new Date() })
+        .where(and(eq(recoveryRequests.ownerId, ownerId), eq(recoveryRequests.status, 'pending')));
+};
+
+// ============================================================================
+// TRUSTEE INBOX
+// ============================================================================
+
+/** Open requests from owners this user holds a share for, not yet answered. */
+export const listTrusteeRequests = async (trusteeId: number) => {
+    const rows = await db.select({
+        request: recoveryRequests,
+        ownerEmail: users.email,
+        shareIndex: recoveryTrustees.share_index,
+        encryptedShare: recoveryTrustees.encrypted_share,
+        decision: recoveryApprovals.decision
+    })
+        .from(recoveryTrustees)
+        .innerJoin(recoveryRequests, eq(recoveryRequests.ownerId, recoveryTrustees.ownerId))
+        .innerJoin(users, eq(users.id, recoveryTrustees.ownerId))
+        .leftJoin(recoveryApprovals, and(
+            eq(recoveryApprovals.requestId, recoveryRequests.id),
+            eq(recoveryApprovals.trusteeId, trusteeId)
+        ))
+        .where(and(
+            eq(recoveryTrustees.trusteeId, trusteeId),
+            eq(recoveryRequests.status, 'pending'),
+            gt(recoveryRequests.expires_at, new Date())
+        ))
+        .orderBy(desc(recoveryRequests.created_at));
+
+    return rows
+        .filter(r => !r.decision)
+        .map(r => ({
+            id: r.request.id,
+            ownerEmail: r.ownerEmail,
+            requestPublicKey: bufferToBase64(r.request.request_public_key),
+            createdAt: r.request.created_at,
+            expiresAt: r.request.expires_at,
+            shareIndex: r.shareIndex,
+            encryptedShare: bufferToBase64(r.encryptedShare)
+        }));
+};
+
+/**
+ * Records a trustee's answer. Returns null when the request isn't open to this trustee, or
+ * 'answered' when they already responded.
+ */
+export const decideRecoveryRequest = async (trusteeId: number, requestId: number, decision: 'approved' | 'declined', encryptedShare?: string) => {
+    const [row] = await db.select({ ownerId: recoveryRequests.ownerId, ownerEmail: users.email })
+        .from(recoveryRequests)
+        .innerJoin(recoveryTrustees, and(
+            eq(recoveryTrustees.ownerId, recoveryRequests.ownerId),
+            eq(recoveryTrustees.trusteeId, trusteeId)
+        ))
+        .innerJoin(users, eq(users.id, recoveryRequests.ownerId))
+        .where(and(
+            eq(recoveryRequests.id, requestId),
+            eq(recoveryRequests.status, 'pending'),
+            gt(recoveryRequests.expires_at, new Date())
+        ))
+        .limit(1);
+    if (!row) return null;
+
+    const inserted = await db.insert(recoveryApprovals)
+        .values({
+            requestId,
+            trusteeId,
+            decision,
+            encrypted_share: decision === 'approved' && encryptedShare ? base64ToBuffer(encryptedShare) : null
+        })
+        .onConflictDoNothing()
+        .returning({ id: recoveryApprovals.id });
+    if (inserted.length === 0) return 'answered' as const;
+
+    return row;
+};
@@ -0,0 +1,362 @@
+import fs from 'fs';
+import path from 'path';
+import { db } from '../db';
+import { files, fileChunks, fileVersions, fileVersionChunks, storageMigrations } from '../db/schema';
+import { eq, and, or, gt, inArray, asc, desc, count, sql } from 'drizzle-orm';
+import { getStorageProvider, StorageProvider } from '../storage';
+import { fileObjectKey, chunkObjectKey, hasSettledContent } from './fileVersions';
+import logger from '../utils/logger';
+
+/**
+ * Storage Migration
+ *
+ * Moves every file (its file_chunks, and the archived file_versions still on the source)
+ * from one StorageProvider to another, one file at a time: download from the source (or the
+ * local cache), upload to the target, verify() each object, then flip every row's
+ * storage_provider/keys in one transaction and only then delete the source copies. A file
+ * whose rows changed mid-copy (re-upload, restore, pruning) is left on the source and its
+ * target copies are removed again.
+ *
+ * State lives in storage_migrations, so pausing, resuming and server restarts pick up after
+ * cursor_file_id. Files that fail stay on the source; starting a new migration for the same
+ * pair retries them.
+ */
+
+export type StorageMigrationRow = typeof storageMigrations.$inferSelect;
+type FileRow = typeof files.$inferSelect;
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// One object to move: where it is on the source and what to call it on the target
+interface SourceObject {
+    sourceKey: string;
+    objectKey: string;
+    localPath: string | null;
+}
+
+interface CopiedObject {
+    sourceKey: string;
+    key: string;
+    merkle_root: string;
+}
+
+const storageKeyOf = (key: string | null, label: string) => {
+    if (!key || ['pending', 'pending-chunks', 'chunked-complete'].includes(key)) throw new Error(`${label} has no storage key`);
+    return key;
+};
+
+// Files with anything left on the provider: their current version or an archived one
+const onProvider = (providerName: string) => or(
+    eq(files.storage_provider, providerName),
+    sql`exists (select 1 from ${fileVersions} where ${fileVersions.fileId} = ${files.id} and ${fileVersions.storage_provider} = ${providerName})`
+);
+
+const TEMP_DIR = path.join(__dirname, '../../uploads');
+
+const tempPath = (label: string) => path.join(TEMP_DIR, `temp_migrate_${label}_${Date.now()}`);
+
+const removeTemp = (p: string | null) => {
+    if (p && fs.existsSync(p)) fs.unlink(p, () => { });
+};
+
+// The key a provider's own routes use to address an object: Jackal works by merkle,
+// everything else by the object key it was given.
+const storedKey = (providerName: string, result: { id: string; merkle_root: string }) =>
+    providerName === 'jackal' ? result.merkle_root : result.id;
+
+/**
+ * Copies one object across and verifies it on the target. Local cache copies (still
+ * present while the upload queue finishes) are used before hitting the source provider.
+ */
+async function copyObject(
+    source: StorageProvider,
+    target: StorageProvider,
+    targetName: string,
+    sourceKey: string,
+    objectKey: string,
+    localPath: string | null
+): Promise<{ key: string; merkle_root: string }> {
+    let tmp: string | null = null;
+    try {
+        let from = localPath && fs.existsSync(localPath) ? localPath : null;
+        if (!from) {
+            tmp = tempPath(objectKey.replace(/[^a-zA-Z0-9]/g, '_'));
+            const ok = await source.download(sourceKey, objectKey, tmp);
+            if (!ok || !fs.existsSync(tmp)) throw new Error(`Download of ${sourceKey} from source failed`);
+            from = tmp;
+        }
+
+        const result = await target.upload(from, objectKey);
+        const key = storedKey(targetName, result);
+        if (!(await target.verify(key))) throw new Error(`${objectKey} did not verify on ${targetName}`);
+        return { key, merkle_root: result.merkle_root };
+    } finally {
+        removeTemp(tmp);
+    }
+}
+
+const deleteQuietly = async (provider: StorageProvider, keys: string[], label: string) => {
+    for (const key of keys) {
+        const ok = await provider.delete(key).catch(() => false);
+        if (!ok) logger.warn(`[MIGRATION] ⚠️ Could not delete ${key} from ${label}; it is orphaned but harmless`);
+    }
+};
+
+class StorageMigrationRunner {
+    // Only one migration runs at a time; this is its id while the loop is alive
+    private activeId: number | null = null;
+
+    /** Resumes a migration left 'running' by a restart. */
+    async start() {
+        try {
+            const [running] = await db.select({ id: storageMigrations.id }).from(storageMigrations)
+                .where(eq(storageMigrations.status, 'running'))
+                .limit(1);
+            if (running) {
+                logger.info(`[MIGRATION] Resuming migration ${running.id} after restart`);
+                this.kick(running.id);
+            }
+        } catch (err) {
+            logger.error('[MIGRATION] ❌ Failed to check for interrupted migrations:', err);
+        }
+    }
+
+    list() {
+        return db.select().from(storageMigrations).orderBy(desc(storageMigrations.created_at)).limit(20);
+    }
+
+    async get(id: number): Promise<StorageMigrationRow | undefined> {
+        const [row] = await db.select().from(storageMigrations).where(eq(storageMigrations.id, id)).limit(1);
+        return row;
+    }
+
+    /** The running or paused migration, if any; only one may be open at a time. */
+    async findOpen(): Promise<StorageMigrationRow | undefined> {
+        const [open] = await db.select().from(storageMigrations)
+            .where(inArray(storageMigrations.status, ['running', 'paused']))
+            .limit(1);
+        return open;
+    }
+
+    /** Starts a new migration. Callers check findOpen() first. */
+    async create(sourceProvider: string, targetProvider: string, createdBy: number): Promise<StorageMigrationRow> {
+        const [{ total }] = await db.select({ total: count() }).from(files)
+            .where(onProvider(sourceProvider));
+
+        const [row] = await db.insert(storageMigrations).values({
+            source_provider: sourceProvider,
+            target_provider: targetProvider,
+            total_files: Number(total),
+            created_by: createdBy,
+        }).returning();
+
+        logger.info(`[MIGRATION] Started migration ${row.id}: ${sourceProvider} → ${targetProvider} (${total} files)`);
+        this.kick(row.id);
+        return row;
+    }
+
+    /** Pauses after the file currently in flight. Returns false if it wasn't running. */
+    async pause(id: number): Promise<boolean> {
+        const updated = await db.update(storageMigrations)
+            .set({ status: 'paused', updated_at: new Date() })
+            .where(and(eq(storageMigrations.id, id), eq(storageMigrations.status, 'running')))
+            .returning({ id: storageMigrations.id });
+        return updated.length > 0;
+    }
+
+    async resume(id: number): Promise<boolean> {
+        const updated = await db.update(storageMigrations)
+            .set({ status: 'running', updated_at: new Date() })
+            .where(and(eq(storageMigrations.id, id), eq(storageMigrations.status, 'paused')))
+            .returning({ id: storageMigrations.id });
+        if (updated.length === 0) return false;
+        this.kick(id);
+        return true;
+    }
+
+    private kick(id: number) {
+        if (this.activeId !== null) return; // the live loop re-reads status before every file
+        this.activeId = id;
+        this.run(id)
+            .catch(async (err: any) => {
+                logger.error(`[MIGRATION] ❌ Migration ${id} stopped:`, err);
+                await db.update(storageMigrations)
+                    .set({ status: 'failed', last_error: err.message, updated_at: new Date() })
+                    .where(eq(storageMigrations.id, id))
+                    .catch(() => { });
+            })
+            .finally(async () => {
+                this.activeId = null;
+                // A resume that landed while the loop was exiting would otherwise be lost
+                const row = await this.get(id).catch(() => undefined);
+                if (row?.status === 'running') this.kick(id);
+            });
+    }
+
+    private async run(id: number) {
+        for (;;) {
+            const migration = await this.get(id);
+            if (!migration || migration.status !== 'running') return;
+
+            const [file] = await db.select().from(files)
+                .where(and(
+                    onProvider(migration.source_provider),
+                    gt(files.id, migration.cursor_file_id)
+                ))
+                .orderBy(asc(files.id))
+                .limit(1);
+
+            if (!file) {
+                await db.update(storageMigrations)
+                    .set({ status: 'completed', completed_at: new Date(), updated_at: new Date() })
+                    .where(eq(storageMigrations.id, id));
+                logger.info(`[MIGRATION] ✅ Migration ${id} completed`);
+                return;
+            }
+
+            let bytes = 0;
+            let error: string | null = null;
+            try {
+                bytes = await this.migrateFile(file, migration.source_provider, migration.target_provider);
+            } catch (err: any) {
+                error = `File ${file.id}: ${err.message}`;
+                logger.warn(`[MIGRATION] ⚠️ ${error}`);
+            }
+
+            await db.update(storageMigrations)
+                .set({
+                    cursor_file_id: file.id,
+                    processed_files: sql`${storageMigrations.processed_files} + 1`,
+                    ...(error
+                        ? { failed_files: sql`${storageMigrations.failed_files} + 1`, last_error: error }
+                        : {
+                            migrated_files: sql`${storageMigrations.migrated_files} + 1`,
+                            bytes_moved: sql`${storageMigrations.bytes_moved} + ${bytes}`
+                        }),
+                    updated_at: new Date(),
+                })
+                .where(eq(storageMigrations.id, id));
+        }
+    }
+
+    /** Moves one file and its archived versions. Returns the bytes copied; throws to count the file as failed. */
+    private async migrateFile(file: FileRow, sourceName: string, targetName: string): Promise<number> {
+        if (!hasSettledContent(file)) throw new Error('upload still in progress');
+
+        const source = getStorageProvider(sourceName);
+        const target = getStorageProvider(targetName);
+        const version = file.current_version;
+        const moveCurrent = file.storage_provider === sourceName;
+
+        const chunks = moveCurrent && file.is_chunked
+            ? await db.select().from(fileChunks).where(eq(fileChunks.fileId, file.id)).orderBy(asc(fileChunks.chunk_index))
+            : [];
+        if (moveCurrent && file.is_chunked && chunks.length === 0) throw new Error('chunked file has no chunk records');
+
+        const versions = await db.select().from(fileVersions)
+            .where(and(eq(fileVersions.fileId, file.id), eq(fileVersions.storage_provider, sourceName)));
+        const versionChunks = versions.length > 0
+            ? await db.select().from(fileVersionChunks)
+                .where(inArray(fileVersionChunks.versionId, versions.map(v => v.id)))
+                .orderBy(asc(fileVersionChunks.chunk_index))
+            : [];
+
+        const copiedKeys: string[] = [];
+        const copyAll = async (objects: SourceObject[]): Promise<CopiedObject[]> => {
+            const copied: CopiedObject[] = [];
+            for (const object of objects) {
+                const result = await copyObject(source, target, targetName, object.sourceKey, object.objectKey, object.localPath);
+                copiedKeys.push(result.key);
+                copied.push({ sourceKey: object.sourceKey, ...result });
+            }
+            return copied;
+        };
+        const objectKeyOn = (copied: CopiedObject) => targetName === 'jackal' ? null : copied.key;
+
+        // Row updates run together once every object is on the target; each throws if its row moved on
+        const flips: ((tx: Tx) => Promise<void>)[] = [];
+        const sourceKeys: string[] = [];
+        let bytes = 0;
+
+        try {
+            if (moveCurrent) {
+                const copied = await copyAll(file.is_chunked
+                    ? chunks.map(chunk => ({
+                        sourceKey: storageKeyOf(chunk.obsideo_key ?? chunk.jackal_merkle, `chunk ${chunk.chunk_index}`),
+                        objectKey: chunkObjectKey(file.id, chunk.chunk_index, version),
+                        localPath: chunk.local_path
+                    }))
+                    : [{
+                        sourceKey: storageKeyOf(file.obsideo_key ?? file.jackal_fid, 'file'),
+                        objectKey: fileObjectKey(file.id, version),
+                        localPath: file.encrypted_file_path
+                    }]);
+
+                flips.push(async (tx) => {
+                    // Guarded on provider + version so a concurrent re-upload or restore wins
+                    const flipped = await tx.update(files)
+                        .set(file.is_chunked
+                            ? { storage_provider: targetName }
+                            : { storage_provider: targetName, obsideo_key: objectKeyOn(copied[0]), jackal_fid: copied[0].merkle_root, merkle_hash: copied[0].merkle_root })
+                        .where(and(eq(files.id, file.id), eq(files.storage_provider, sourceName), eq(files.current_version, version)))
+                        .returning({ id: files.id });
+                    if (flipped.length === 0) throw new Error('file changed during migration');
+
+                    for (const [i, chunk] of chunks.entries()) {
+                        await tx.update(fileChunks)
+                            .set({ obsideo_key: objectKeyOn(copied[i]), jackal_merkle: copied[i].merkle_root })
+                            .where(eq(fileChunks.id, chunk.id));
+                    }
+                });
+                sourceKeys.push(...copied.map(c => c.sourceKey));
+                bytes += file.file_size;
+            }
+
+            for (const archived of versions) {
+                const label = `v${archived.version_number}`;
+                const ownChunks = versionChunks.filter(c => c.versionId === archived.id);
+                const copied = await copyAll(ownChunks.length > 0
+                    ? ownChunks.map(chunk => ({
+                        sourceKey: storageKeyOf(chunk.obsideo_key ?? chunk.jackal_merkle, `${label} chunk ${chunk.chunk_index}`),
+                        objectKey: chunkObjectKey(file.id, chunk.chunk_index, archived.version_number),
+                        localPath: null
+                    }))
+                    : [{
+                        sourceKey: storageKeyOf(archived.obsideo_key ?? archived.jackal_fid, label),
+                        objectKey: fileObjectKey(file.id, archived.version_number),
+                        localPath: null
+                    }]);
+
+                flips.push(async (tx) => {
+                    // Guarded on provider so pruning or a restore during the copy wins
+                    const flipped = await tx.update(fileVersions)
+                        .set(ownChunks.length > 0
+                            ? { storage_provider: targetName }
+                            : { storage_provider: targetName, obsideo_key: objectKeyOn(copied[0]), jackal_fid: copied[0].merkle_root, merkle_hash: copied[0].merkle_root })
+                        .where(and(eq(fileVersions.id, archived.id), eq(fileVersions.storage_provider, sourceName)))
+                        .returning({ id: fileVersions.id });
+                    if (flipped.length === 0) throw new Error(`${label} changed during migration`);
+
+                    for (const [i, chunk] of ownChunks.entries()) {
+                        await tx.update(fileVersionChunks)
+                            .set({ obsideo_key: objectKeyOn(copied[i]), jackal_merkle: copied[i].merkle_root })
+                            .where(eq(fileVersionChunks.id, chunk.id));
+                    }
+                });
+                sourceKeys.push(...copied.map(c => c.sourceKey));
+                bytes += archived.file_size;
+            }
+
+            await db.transaction(async (tx) => {
+                for (const flip of flips) await flip(tx);
+            });
+        } catch (err) {
+            await deleteQuietly(target, copiedKeys, targetName);
+            throw err;
+        }
+
+        await deleteQuietly(source, sourceKeys, sourceName);
+        return bytes;
+    }
+}
+
+export const storageMigrationRunner = new StorageMigrationRunner();
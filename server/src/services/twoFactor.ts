@@ -0,0 +1,477 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { db } from '../db';
+import { userTotp, twoFactorBackupCodes, webauthnCredentials } from '../db/schema';
+import { eq, and, lt, isNull, count } from 'drizzle-orm';
+import { env } from '../config/env';
+
+/**
+ * Two-Factor Authentication
+ *
+ * Second factors checked by /auth/login after the auth hash matches:
+ * - TOTP (RFC 6238, SHA-1, 6 digits, 30s) with the secret AES-GCM encrypted at rest
+ * - one-time backup codes, stored as SHA-256 (they are random, so a slow hash adds nothing)
+ * - WebAuthn / passkeys with "none" attestation; only the credential's public key and
+ *   signature counter are kept, and every assertion is verified here against them
+ *
+ * Login and registration challenges travel in short-lived JWTs signed with a key derived
+ * from JWT_SECRET, so they can never be mistaken for access tokens by authenticateToken.
+ */
+
+export type TwoFactorMethod = 'totp' | 'webauthn' | 'backup';
+type WebAuthnCredentialRow = typeof webauthnCredentials.$inferSelect;
+
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+const BACKUP_CODE_COUNT = 10;
+
+const subKey = (label: string) => crypto.createHmac('sha256', env.JWT_SECRET).update(label).digest();
+
+const TOKEN_SECRET = subKey('nest-2fa-token');
+const TOTP_KEY = env.TOTP_ENCRYPTION_KEY
+    ? crypto.createHash('sha256').update(env.TOTP_ENCRYPTION_KEY).digest()
+    : subKey('nest-totp-secret');
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest();
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buf: Buffer) => {
+    let bits = 0, value = 0, out = '';
+    for (const byte of buf) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return out;
+};
+
+const base32Decode = (input: string) => {
+    let bits = 0, value = 0;
+    const out: number[] = [];
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const idx = BASE32_ALPHABET.indexOf(char);
+        if (idx === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | idx;
+        bits += 5;
+        if (bits >= 8) {
+            out.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(out);
+};
+
+const hotp = (secret: Buffer, counter: number) => {
+    const msg = Buffer.alloc(8);
+    msg.writeBigUInt64BE(BigInt(counter));
+    const digest = crypto.createHmac('sha1', secret).update(msg).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Returns the time step the code belongs to (current step ±1 for clock drift), or null.
+ * Steps at or before lastUsedStep are refused so a code can't be replayed.
+ */
+const matchTotpStep = (secretBase32: string, code: string, lastUsedStep: number): number | null => {
+    const secret = base32Decode(secretBase32);
+    const now = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+    const given = Buffer.from(code.padEnd(TOTP_DIGITS));
+    for (const step of [now - 1, now, now + 1]) {
+        if (step <= lastUsedStep) continue;
+        const expected = Buffer.from(hotp(secret, step));
+        if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) return step;
+    }
+    return null;
+};
+
+const encryptSecret = (plain: string) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', TOTP_KEY, iv);
+    const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored: string) => {
+    const [iv, tag, ciphertext] = stored.split(':').map(p => Buffer.from(p, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', TOTP_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+/** Starts (or restarts) TOTP enrollment. The secret only counts once a first code is confirmed. */
+export const beginTotpSetup = async (userId: number, email: string) => {
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.insert(userTotp)
+        .values({ userId, secret_encrypted: encryptSecret(secret) })
+        .onConflictDoUpdate({
+            target: userTotp.userId,
+            set: { secret_encrypted: encryptSecret(secret), last_used_step: 0, enabled_at: null, created_at: new Date() }
+        });
+
+    const issuer = env.WEBAUTHN_RP_NAME;
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`;
+    return { secret, otpauthUrl };
+};
+
+/**
+ * Checks a code against the user's TOTP secret and records its step. `pending` targets an
+ * enrollment that hasn't been confirmed yet; otherwise only an enabled secret is used.
+ */
+export const consumeTotp = async (userId: number, code: string, pending = false): Promise<boolean> => {
+    const [row] = await db.select().from(userTotp).where(eq(userTotp.userId, userId)).limit(1);
+    if (!row || (pending ? row.enabled_at !== null : row.enabled_at === null)) return false;
+
+    const step = matchTotpStep(decryptSecret(row.secret_encrypted), code, row.last_used_step);
+    if (step === null) return false;
+
+    // Conditional on the previous step so two concurrent logins can't both spend one code
+    const claimed = await db.update(userTotp)
+        .set({ last_used_step: step, ...(pending ? { enabled_at: new Date() } : {}) })
+        .where(and(eq(userTotp.userId, userId), lt(userTotp.last_used_step, step)))
+        .returning({ userId: userTotp.userId });
+    return claimed.length > 0;
+};
+
+export const disableTotp = (userId: number) =>
+    db.delete(userTotp).where(eq(userTotp.userId, userId));
+
+// ============================================================================
+// BACKUP CODES
+// ============================================================================
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Replaces every backup code for the user and returns the new plaintext codes once. */
+export const regenerateBackupCodes = async (userId: number): Promise<string[]> => {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(5).toString('hex');
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await db.transaction(async (tx) => {
+        await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+        await tx.insert(twoFactorBackupCodes).values(
+            codes.map(code => ({ userId, code_hash: sha256(normalizeBackupCode(code)).toString('hex') }))
+        );
+    });
+    return codes;
+};
+
+export const consumeBackupCode = async (userId: number, code: string): Promise<boolean> => {
+    const used = await db.update(twoFactorBackupCodes)
+        .set({ used_at: new Date() })
+        .where(and(
+            eq(twoFactorBackupCodes.userId, userId),
+            eq(twoFactorBackupCodes.code_hash, sha256(normalizeBackupCode(code)).toString('hex')),
+            isNull(twoFactorBackupCodes.used_at)
+        ))
+        .returning({ id: twoFactorBackupCodes.id });
+    return used.length > 0;
+};
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+export const getTwoFactorStatus = async (userId: number) => {
+    const [[totp], [{ passkeys }], [{ backupCodes }]] = await Promise.all([
+        db.select({ enabled_at: userTotp.enabled_at }).from(userTotp).where(eq(userTotp.userId, userId)).limit(1),
+        db.select({ passkeys: count() }).from(webauthnCredentials).where(eq(webauthnCredentials.userId, userId)),
+        db.select({ backupCodes: count() }).from(twoFactorBackupCodes)
+            .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.used_at))),
+    ]);
+
+    const totpEnabled = !!totp?.enabled_at;
+    const webauthnCount = Number(passkeys);
+    const methods: TwoFactorMethod[] = [];
+    if (totpEnabled) methods.push('totp');
+    if (webauthnCount > 0) methods.push('webauthn');
+    if (methods.length > 0 && Number(backupCodes) > 0) methods.push('backup');
+
+    return {
+        enabled: totpEnabled || webauthnCount > 0,
+        totpEnabled,
+        webauthnCount,
+        backupCodesRemaining: Number(backupCodes),
+        methods,
+    };
+};
+
+/** Drops the backup codes once no real factor is left, so they can't act as one on their own. */
+export const clearBackupCodesIfUnused = async (userId: number) => {
+    const status = await getTwoFactorStatus(userId);
+    if (!status.enabled) {
+        await db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    }
+};
+
+// ============================================================================
+// CHALLENGE TOKENS
+// ============================================================================
+
+type ChallengePurpose = 'login' | 'webauthn-register';
+
+export const signChallengeToken = (purpose: ChallengePurpose, userId: number, challenge?: string) =>
+    jwt.sign({ purpose, userId, challenge }, TOKEN_SECRET, { expiresIn: '5m' });
+
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): { userId: number; challenge?: string } | null => {
+    try {
+        const decoded = jwt.verify(token, TOKEN_SECRET, { algorithms: ['HS256'] }) as any;
+        return decoded.purpose === purpose ? decoded : null;
+    } catch {
+        return null;
+    }
+};
+
+// ============================================================================
+// WEBAUTHN
+// ============================================================================
+
+const rpId = () => env.WEBAUTHN_RP_ID || new URL(env.FRONTEND_URL).hostname;
+const expectedOrigin = () => new URL(env.FRONTEND_URL).origin;
+
+const newChallenge = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Minimal CBOR decoder: enough for attestation objects and COSE keys (ints, byte/text
+ * strings, arrays, maps, simple values). Indefinite lengths and floats are not needed there.
+ */
+function decodeCbor(buf: Buffer, offset = 0): { value: any; offset: number } {
+    const initial = buf[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    let length: number;
+    if (info < 24) length = info;
+    else if (info === 24) { length = buf.readUInt8(offset); offset += 1; }
+    else if (info === 25) { length = buf.readUInt16BE(offset); offset += 2; }
+    else if (info === 26) { length = buf.readUInt32BE(offset); offset += 4; }
+    else if (info === 27) { length = Number(buf.readBigUInt64BE(offset)); offset += 8; }
+    else throw new Error(`Unsupported CBOR length encoding ${info}`);
+
+    switch (major) {
+        case 0: return { value: length, offset };
+        case 1: return { value: -1 - length, offset };
+        case 2: return { value: buf.subarray(offset, offset + length), offset: offset + length };
+        case 3: return { value: buf.toString('utf8', offset, offset + length), offset: offset + length };
+        case 4: {
+            const items: any[] = [];
+            for (let i = 0; i < length; i++) {
+                const item = decodeCbor(buf, offset);
+                items.push(item.value);
+                offset = item.offset;
+            }
+            return { value: items, offset };
+        }
+        case 5: {
+            const map = new Map<any, any>();
+            for (let i = 0; i < length; i++) {
+                const key = decodeCbor(buf, offset);
+                const val = decodeCbor(buf, key.offset);
+                map.set(key.value, val.value);
+                offset = val.offset;
+            }
+            return { value: map, offset };
+        }
+        case 7:
+            if (info === 20) return { value: false, offset };
+            if (info === 21) return { value: true, offset };
+            if (info === 22) return { value: null, offset };
+            throw new Error(`Unsupported CBOR simple value ${info}`);
+        default:
+            throw new Error(`Unsupported CBOR major type ${major}`);
+    }
+}
+
+/** COSE_Key (EC2 P-256, OKP Ed25519 or RSA) → SPKI DER. */
+function coseToSpki(cose: Map<number, any>): Buffer {
+    const kty = cose.get(1);
+    let jwk: crypto.JsonWebKey;
+    if (kty === 2 && cose.get(-1) === 1) {
+        jwk = { kty: 'EC', crv: 'P-256', x: cose.get(-2).toString('base64url'), y: cose.get(-3).toString('base64url') };
+    } else if (kty === 1 && cose.get(-1) === 6) {
+        jwk = { kty: 'OKP', crv: 'Ed25519', x: cose.get(-2).toString('base64url') };
+    } else if (kty === 3) {
+        jwk = { kty: 'RSA', n: cose.get(-1).toString('base64url'), e: cose.get(-2).toString('base64url') };
+    } else {
+        throw new Error('Unsupported credential key type');
+    }
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' }).export({ format: 'der', type: 'spki' });
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_ATTESTED_DATA = 0x40;
+
+function parseAuthenticatorData(authData: Buffer) {
+    if (authData.length < 37) throw new Error('Authenticator data too short');
+    const parsed = {
+        rpIdHash: authData.subarray(0, 32),
+        flags: authData[32],
+        signCount: authData.readUInt32BE(33),
+        credentialId: null as Buffer | null,
+        publicKey: null as Buffer | null,
+    };
+    if (parsed.flags & FLAG_ATTESTED_DATA) {
+        const idLength = authData.readUInt16BE(53);
+        parsed.credentialId = authData.subarray(55, 55 + idLength);
+        parsed.publicKey = coseToSpki(decodeCbor(authData, 55 + idLength).value);
+    }
+    return parsed;
+}
+
+function checkClientData(clientDataJSON: Buffer, type: string, challenge: string) {
+    const clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    if (clientData.type !== type) throw new Error('Unexpected client data type');
+    if (clientData.challenge !== challenge) throw new Error('Challenge mismatch');
+    if (clientData.origin !== expectedOrigin()) throw new Error('Origin mismatch');
+}
+
+function checkAuthenticatorData(authData: ReturnType<typeof parseAuthenticatorData>) {
+    if (!authData.rpIdHash.equals(sha256(rpId()))) throw new Error('RP ID mismatch');
+    if (!(authData.flags & FLAG_USER_PRESENT)) throw new Error('User presence flag not set');
+}
+
+export const listWebAuthnCredentials = (userId: number) =>
+    db.select().from(webauthnCredentials).where(eq(webauthnCredentials.userId, userId));
+
+const descriptor = (c: WebAuthnCredentialRow) => ({
+    type: 'public-key',
+    id: c.credential_id,
+    ...(c.transports ? { transports: JSON.parse(c.transports) } : {})
+});
+
+/** PublicKeyCredentialCreationOptions with binary fields as base64url. */
+export const webAuthnRegistrationOptions = async (userId: number, email: string) => {
+    const existing = await listWebAuthnCredentials(userId);
+    const challenge = newChallenge();
+    return {
+        challengeToken: signChallengeToken('webauthn-register', userId, challenge),
+        options: {
+            challenge,
+            rp: { id: rpId(), name: env.WEBAUTHN_RP_NAME },
+            user: { id: Buffer.from(String(userId)).toString('base64url'), name: email, displayName: email },
+            pubKeyCredParams: [-7, -8, -257].map(alg => ({ type: 'public-key', alg })),
+            timeout: 60000,
+            attestation: 'none',
+            authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+            excludeCredentials: existing.map(descriptor),
+        }
+    };
+};
+
+export interface RegistrationResponse {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+}
+
+export const verifyWebAuthnRegistration = async (userId: number, challenge: string, name: string, response: RegistrationResponse) => {
+    checkClientData(Buffer.from(response.clientDataJSON, 'base64url'), 'webauthn.create', challenge);
+
+    const attestation = decodeCbor(Buffer.from(response.attestationObject, 'base64url')).value as Map<string, any>;
+    const authData = parseAuthenticatorData(attestation.get('authData'));
+    checkAuthenticatorData(authData);
+    if (!authData.credentialId || !authData.publicKey) throw new Error('No credential in attestation');
+
+    const [row] = await db.insert(webauthnCredentials).values({
+        userId,
+        credential_id: authData.credentialId.toString('base64url'),
+        public_key: authData.publicKey.toString('base64'),
+        sign_count: authData.signCount,
+        name,
+        transports: response.transports?.length ? JSON.stringify(response.transports) : null,
+    }).returning();
+    return row;
+};
+
+/** PublicKeyCredentialRequestOptions for a login step-up, or null without passkeys. */
+export const webAuthnLoginOptions = async (userId: number) => {
+    const credentials = await listWebAuthnCredentials(userId);
+    if (credentials.length === 0) return null;
+    return {
+        challenge: newChallenge(),
+        rpId: rpId(),
+        timeout: 60000,
+        userVerification: 'preferred',
+        allowCredentials: credentials.map(descriptor),
+    };
+};
+
+export interface AssertionResponse {
+    id: string;
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+}
+
+export const verifyWebAuthnAssertion = async (userId: number, challenge: string, assertion: AssertionResponse): Promise<boolean> => {
+    const [credential] = await db.select().from(webauthnCredentials)
+        .where(and(eq(webauthnCredentials.userId, userId), eq(webauthnCredentials.credential_id, assertion.id)))
+        .limit(1);
+    if (!credential) return false;
+
+    const clientDataJSON = Buffer.from(assertion.clientDataJSON, 'base64url');
+    const rawAuthData = Buffer.from(assertion.authenticatorData, 'base64url');
+    checkClientData(clientDataJSON, 'webauthn.get', challenge);
+    const authData = parseAuthenticatorData(rawAuthData);
+    checkAuthenticatorData(authData);
+
+    const publicKey = crypto.createPublicKey({ key: Buffer.from(credential.public_key, 'base64'), format: 'der', type: 'spki' });
+    const signed = Buffer.concat([rawAuthData, sha256(clientDataJSON)]);
+    const algorithm = publicKey.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+    if (!crypto.verify(algorithm, signed, publicKey, Buffer.from(assertion.signature, 'base64url'))) return false;
+
+    // A counter that fails to advance means the authenticator may have been cloned
+    if ((authData.signCount > 0 || credential.sign_count > 0) && authData.signCount <= credential.sign_count) {
+        throw new Error('Credential signature counter did not increase');
+    }
+
+    await db.update(webauthnCredentials)
+        .set({ sign_count: authData.signCount, last_used_at: new Date() })
+        .where(eq(webauthnCredentials.id, credential.id));
+    return true;
+};
+
+export const deleteWebAuthnCredential = async (userId: number, id: number): Promise<boolean> => {
+    const deleted = await db.delete(webauthnCredentials)
+        .where(and(eq(webauthnCredentials.id, id), eq(webauthnCredentials.userId, userId)))
+        .returning({ id: webauthnCredentials.id });
+    return deleted.length > 0;
+};
+
+// ============================================================================
+// LOGIN STEP-UP
+// ============================================================================
+
+export interface SecondFactorInput {
+    method: TwoFactorMethod;
+    code?: string;
+    assertion?: AssertionResponse;
+}
+
+/** Verifies whichever factor the client answered the login challenge with. */
+export const verifySecondFactor = async (userId: number, challenge: string | undefined, input: SecondFactorInput): Promise<boolean> => {
+    switch (input.method) {
+        case 'totp':
+            return !!input.code && consumeTotp(userId, input.code);
+        case 'backup': {
+            // Backup codes stand in for a factor, so they only work while one is enabled
+            const status = await getTwoFactorStatus(userId);
+            return status.enabled && !!input.code && consumeBackupCode(userId, input.code);
+        }
+        case 'webauthn':
+            return !!challenge && !!input.assertion && verifyWebAuthnAssertion(userId, challenge, input.assertion);
+    }
+};
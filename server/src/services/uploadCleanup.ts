@@ -5,6 +5,7 @@ import fs from 'fs';
 import logger from '../utils/logger';
 import { retryFileUpload, retryChunkUploads } from '../utils/retryHandler';
 import { verifyOnGateway } from '../jackal';
+import { releaseAbandonedDropZoneUploads } from './dropZoneReservations';
 
 /**
  * UploadRecoveryService (formerly UploadCleanupService)
@@ -43,6 +44,10 @@ export class UploadCleanupService {
         logger.info('[RECOVERY-SERVICE] Scanning for stale uploads to recover...');
 
         try {
+            // 0. Guest uploads past their upload token can never finish: give back what they hold
+            const released = await releaseAbandonedDropZoneUploads();
+            if (released > 0) logger.info(`[RECOVERY-SERVICE] Released ${released} abandoned Drop Zone uploads`);
+
             // 1. Find files in 'pending-chunks' or 'pending' state older than threshold
             const staleFiles = await db.select({
                 id: filesTable.id,
@@ -1,6 +1,37 @@
+import { Readable, Transform } from 'stream';
+
+/** Inclusive byte range for partial reads; `end` omitted means "to the end of the object". */
+export interface ByteRange {
+    start: number;
+    end?: number;
+}
+
+/**
+ * Cuts `range` out of a stream of the whole object. For backends (or proxies in front of them)
+ * that ignore the Range header and answer 200 with everything.
+ */
+export function sliceStream(stream: Readable, range: ByteRange): Readable {
+    let position = 0;
+    const slicer = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            const from = Math.max(range.start - position, 0);
+            const to = range.end === undefined ? chunk.length : Math.min(range.end + 1 - position, chunk.length);
+            position += chunk.length;
+            if (from < to) this.push(chunk.subarray(from, to));
+            if (range.end !== undefined && position > range.end) {
+                stream.destroy();
+                this.push(null);
+            }
+            callback();
+        }
+    });
+    stream.on('error', (err) => slicer.destroy(err));
+    return stream.pipe(slicer);
+}
+
 /**
  * StorageProvider — common interface for any file storage backend.
- * Both JackalProvider and ObsideoProvider implement this.
+ * Jackal, Obsideo, S3 and the local dev store all implement this.
  */
 export interface StorageProvider {
     /**
@@ -39,7 +70,8 @@ export interface StorageProvider {
     /**
      * Get a raw readable stream of the object directly from the storage provider.
      * @param merkleOrKey  Jackal merkle hash OR Obsideo object key.
+     * @param range        Optional byte range; the stream holds exactly those bytes.
      * @returns A Node.js Readable stream or null if not supported/found.
      */
-    getStream?(merkleOrKey: string): Promise<import('stream').Readable | null>;
+    getStream?(merkleOrKey: string, range?: ByteRange): Promise<Readable | null>;
 }
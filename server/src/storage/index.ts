@@ -1,10 +1,11 @@
-import { StorageProvider } from './StorageProvider';
+import { StorageProvider, ByteRange } from './StorageProvider';
 import jackalProvider from './jackalProvider';
 import obsideoProvider from './obsideoProvider';
 import localProvider from './localProvider';
+import s3Provider from './s3Provider';
 import { env } from '../config/env';
 
-export { StorageProvider };
+export { StorageProvider, ByteRange };
 
 /**
  * getStorageProvider — factory that resolves the correct StorageProvider.
@@ -17,6 +18,8 @@ export { StorageProvider };
 export function getStorageProvider(providerName?: string | null): StorageProvider {
     const name = providerName ?? env.STORAGE_PROVIDER;
     if (name === 'obsideo') return obsideoProvider;
+    // `s3` targets any S3-compatible endpoint (AWS, self-hosted MinIO/Garage).
+    if (name === 's3') return s3Provider;
     // `local` is a filesystem backend for local dev/e2e only — never selected in production.
     if (name === 'local') return localProvider;
     return jackalProvider;
@@ -2,20 +2,28 @@ import { StorageProvider } from './StorageProvider';
 import { getJackalHandler, uploadFileToJackal, downloadFileFromJackal, verifyOnGateway } from '../jackal';
 import logger from '../utils/logger';
 
+// uploadFileToJackal drives the SDK's shared upload queue and patches console.log to
+// capture merkles, so two uploads must never overlap even when the upload queue runs in parallel.
+let uploadChain: Promise<unknown> = Promise.resolve();
+
 /**
  * JackalProvider — wraps the existing jackal.ts functions behind the StorageProvider interface.
  * Used for legacy files that were originally uploaded to Jackal.
- * No logic changes from the original — this is a pure adapter.
+ * Apart from serializing uploads (see above), this is a pure adapter.
  */
 const jackalProvider: StorageProvider = {
     async upload(localPath: string, objectKey: string) {
-        const { storage } = await getJackalHandler();
-        const result = await uploadFileToJackal(storage, localPath, objectKey);
-        return {
-            id: result.merkle_hash,
-            merkle_root: result.merkle_hash,
-            cid: result.cid,
-        };
+        const run = uploadChain.then(async () => {
+            const { storage } = await getJackalHandler();
+            const result = await uploadFileToJackal(storage, localPath, objectKey);
+            return {
+                id: result.merkle_hash,
+                merkle_root: result.merkle_hash,
+                cid: result.cid,
+            };
+        });
+        uploadChain = run.catch(() => undefined);
+        return run;
     },
 
     async download(merkleOrKey: string, objectKey: string, destPath: string) {
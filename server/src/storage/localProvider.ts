@@ -2,7 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { Readable } from 'stream';
-import { StorageProvider } from './StorageProvider';
+import { StorageProvider, ByteRange } from './StorageProvider';
 
 /**
  * localProvider — a filesystem-backed StorageProvider for LOCAL DEVELOPMENT AND TESTS ONLY.
@@ -61,10 +61,10 @@ const localProvider: StorageProvider = {
         return fs.existsSync(keyToPath(merkleOrKey));
     },
 
-    async getStream(merkleOrKey: string): Promise<Readable | null> {
+    async getStream(merkleOrKey: string, range?: ByteRange): Promise<Readable | null> {
         const src = keyToPath(merkleOrKey);
         if (!fs.existsSync(src)) return null;
-        return fs.createReadStream(src);
+        return fs.createReadStream(src, range ? { start: range.start, end: range.end } : undefined);
     },
 };
 
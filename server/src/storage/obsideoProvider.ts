@@ -1,5 +1,6 @@
 import fs from 'fs';
-import { StorageProvider } from './StorageProvider';
+import { Readable } from 'stream';
+import { StorageProvider, ByteRange, sliceStream } from './StorageProvider';
 import { env } from '../config/env';
 import logger from '../utils/logger';
 
@@ -159,7 +160,7 @@ const obsideoProvider: StorageProvider = {
         }
     },
 
-    async getStream(merkleOrKey: string): Promise<import('stream').Readable | null> {
+    async getStream(merkleOrKey: string, range?: ByteRange): Promise<Readable | null> {
         logger.info(`[ObsideoProvider] Getting stream for key=${merkleOrKey}`);
         try {
             const apiKey = env.OBSIDEO_API_KEY;
@@ -177,15 +178,15 @@ const obsideoProvider: StorageProvider = {
             const meta = await metaRes.json() as any;
             
             // 2. Fetch stream from Provider
-            const dlRes = await fetch(`${meta.provider_url}/download/${meta.merkle_root}`, {
-                headers: { 'Authorization': `Bearer ${meta.download_token}` }
-            });
+            const headers: Record<string, string> = { 'Authorization': `Bearer ${meta.download_token}` };
+            if (range) headers.Range = `bytes=${range.start}-${range.end ?? ''}`;
+            const dlRes = await fetch(`${meta.provider_url}/download/${meta.merkle_root}`, { headers });
             if (!dlRes.ok) throw new Error(`Provider returned ${dlRes.status}`);
             if (!dlRes.body) throw new Error(`Provider returned empty body`);
-            
-            const { Readable } = await import('stream');
+
             // @ts-ignore - Readable.fromWeb expects Web stream which dlRes.body is in Node 18+
-            return Readable.fromWeb(dlRes.body);
+            const stream: Readable = Readable.fromWeb(dlRes.body);
+            return range && dlRes.status !== 206 ? sliceStream(stream, range) : stream;
         } catch (err: any) {
             logger.error(`[ObsideoProvider] ❌ getStream failed for ${merkleOrKey}: ${err.message}`);
             return null;
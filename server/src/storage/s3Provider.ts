@@ -0,0 +1,299 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageProvider, ByteRange, sliceStream } from './StorageProvider';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+
+/**
+ * s3Provider — StorageProvider for any S3-compatible endpoint (AWS S3, MinIO, Garage, ...).
+ *
+ * Requests are signed with AWS Signature V4 directly rather than through the AWS SDK, so the
+ * provider only needs `fetch`. Objects are keyed by the object key the routes pass in
+ * (`files/42/chunks/0`); like localProvider, upload returns `merkle_root === objectKey` so the
+ * `obsideo_key` / `merkle_hash` columns both resolve to the same object.
+ *
+ * Files above MULTIPART_THRESHOLD go up as a multipart upload in PART_SIZE parts, so a single
+ * request never has to carry (or buffer) a whole large chunk file.
+ */
+
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const PART_SIZE = 16 * 1024 * 1024;          // S3 minimum is 5 MiB (except the last part)
+const EMPTY_SHA256 = crypto.createHash('sha256').update('').digest('hex');
+
+interface S3Config {
+    endpoint: URL;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle: boolean;
+}
+
+let _config: S3Config | null = null;
+
+function getConfig(): S3Config {
+    if (_config) return _config;
+
+    if (!env.S3_ENDPOINT || !env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+        throw new Error(
+            '[S3Provider] Missing S3 configuration. ' +
+            'Ensure S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are set.'
+        );
+    }
+
+    _config = {
+        endpoint: new URL(env.S3_ENDPOINT),
+        region: env.S3_REGION,
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    };
+    return _config;
+}
+
+// ============================================================================
+// SIGNATURE V4
+// ============================================================================
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as S3 expects it (encodeURIComponent leaves !'()* alone)
+const uriEncode = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+function objectUrl(config: S3Config, objectKey: string, query: Record<string, string> = {}): URL {
+    const encodedKey = objectKey.split('/').map(uriEncode).join('/');
+    const base = new URL(config.endpoint.toString());
+    const basePath = base.pathname.replace(/\/+$/, '');
+
+    if (config.forcePathStyle) {
+        base.pathname = `${basePath}/${uriEncode(config.bucket)}/${encodedKey}`;
+    } else {
+        base.hostname = `${config.bucket}.${base.hostname}`;
+        base.pathname = `${basePath}/${encodedKey}`;
+    }
+
+    // Keys sorted by code point, as the canonical query string requires
+    base.search = Object.keys(query).sort()
+        .map(k => `${uriEncode(k)}=${uriEncode(query[k])}`)
+        .join('&');
+    return base;
+}
+
+interface S3Request {
+    method: 'GET' | 'PUT' | 'POST' | 'HEAD' | 'DELETE';
+    objectKey: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: Buffer | string;
+}
+
+async function s3Fetch({ method, objectKey, query, headers = {}, body }: S3Request): Promise<Response> {
+    const config = getConfig();
+    const url = objectUrl(config, objectKey, query);
+
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = body !== undefined ? sha256Hex(body) : EMPTY_SHA256;
+
+    const signedHeaders: Record<string, string> = {
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+    };
+    const signedHeaderNames = Object.keys(signedHeaders).sort();
+
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        url.search.replace(/^\?/, ''),
+        signedHeaderNames.map(h => `${h}:${signedHeaders[h]}\n`).join(''),
+        signedHeaderNames.join(';'),
+        payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const kDate = hmac(`AWS4${config.secretAccessKey}`, dateStamp);
+    const kRegion = hmac(kDate, config.region);
+    const kService = hmac(kRegion, 's3');
+    const kSigning = hmac(kService, 'aws4_request');
+    const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+
+    const { host: _host, ...amzHeaders } = signedHeaders;
+    return fetch(url, {
+        method,
+        headers: {
+            ...headers,
+            ...amzHeaders,
+            Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+        },
+        body,
+    });
+}
+
+async function expectOk(res: Response, action: string): Promise<void> {
+    if (res.ok) return;
+    const detail = await res.text().catch(() => '');
+    throw new Error(`${action} returned ${res.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+}
+
+// ============================================================================
+// MULTIPART UPLOAD
+// ============================================================================
+
+async function multipartUpload(localPath: string, objectKey: string, size: number): Promise<void> {
+    const createRes = await s3Fetch({ method: 'POST', objectKey, query: { uploads: '' } });
+    await expectOk(createRes, 'CreateMultipartUpload');
+    const uploadId = (await createRes.text()).match(/<UploadId>([^<]+)<\/UploadId>/)?.[1];
+    if (!uploadId) throw new Error('CreateMultipartUpload returned no UploadId');
+
+    const handle = await fs.promises.open(localPath, 'r');
+    try {
+        const etags: string[] = [];
+        for (let offset = 0, partNumber = 1; offset < size; offset += PART_SIZE, partNumber++) {
+            const length = Math.min(PART_SIZE, size - offset);
+            const part = Buffer.alloc(length);
+            await handle.read(part, 0, length, offset);
+
+            const partRes = await s3Fetch({
+                method: 'PUT',
+                objectKey,
+                query: { partNumber: String(partNumber), uploadId },
+                body: part,
+            });
+            await expectOk(partRes, `UploadPart ${partNumber}`);
+            const etag = partRes.headers.get('etag');
+            if (!etag) throw new Error(`UploadPart ${partNumber} returned no ETag`);
+            etags.push(etag);
+        }
+
+        const completeBody = '<CompleteMultipartUpload>' +
+            etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('') +
+            '</CompleteMultipartUpload>';
+        const completeRes = await s3Fetch({
+            method: 'POST',
+            objectKey,
+            query: { uploadId },
+            headers: { 'Content-Type': 'application/xml' },
+            body: completeBody,
+        });
+        await expectOk(completeRes, 'CompleteMultipartUpload');
+        // S3 can answer 200 and still report a failure in the body
+        const completeText = await completeRes.text();
+        if (completeText.includes('<Error>')) throw new Error(`CompleteMultipartUpload failed: ${completeText.slice(0, 300)}`);
+    } catch (err) {
+        // Abort so the bucket isn't left holding orphaned parts
+        await s3Fetch({ method: 'DELETE', objectKey, query: { uploadId } })
+            .catch(abortErr => logger.warn(`[S3Provider] Abort of ${objectKey} failed: ${abortErr.message}`));
+        throw err;
+    } finally {
+        await handle.close();
+    }
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+const s3Provider: StorageProvider = {
+    async upload(localPath: string, objectKey: string) {
+        try {
+            const { size } = await fs.promises.stat(localPath);
+            logger.info(`[S3Provider] Uploading ${objectKey} (${size} bytes) from ${localPath}`);
+
+            if (size > MULTIPART_THRESHOLD) {
+                await multipartUpload(localPath, objectKey, size);
+            } else {
+                const body = await fs.promises.readFile(localPath);
+                const res = await s3Fetch({
+                    method: 'PUT',
+                    objectKey,
+                    headers: { 'Content-Type': 'application/octet-stream' },
+                    body,
+                });
+                await expectOk(res, 'PutObject');
+            }
+
+            logger.info(`[S3Provider] ✅ Uploaded ${objectKey}`);
+            return { id: objectKey, merkle_root: objectKey };
+        } catch (err: any) {
+            logger.error(`[S3Provider] ❌ Upload failed for ${objectKey}: ${err.message}`);
+            throw err;
+        }
+    },
+
+    async download(merkleOrKey: string, _objectKey: string, destPath: string) {
+        logger.info(`[S3Provider] Downloading key=${merkleOrKey} → ${destPath}`);
+        try {
+            const res = await s3Fetch({ method: 'GET', objectKey: merkleOrKey });
+            await expectOk(res, 'GetObject');
+            if (!res.body) throw new Error('GetObject returned an empty body');
+
+            // @ts-ignore - Readable.fromWeb expects Web stream which res.body is in Node 18+
+            await pipeline(Readable.fromWeb(res.body), fs.createWriteStream(destPath));
+            logger.info(`[S3Provider] ✅ Downloaded ${merkleOrKey}`);
+            return true;
+        } catch (err: any) {
+            logger.error(`[S3Provider] ❌ Download failed for ${merkleOrKey}: ${err.message}`);
+            return false;
+        }
+    },
+
+    async delete(merkleOrKey: string) {
+        logger.info(`[S3Provider] Deleting key=${merkleOrKey}`);
+        try {
+            // S3 answers 204 whether or not the key existed, so a missing object counts as deleted
+            const res = await s3Fetch({ method: 'DELETE', objectKey: merkleOrKey });
+            await expectOk(res, 'DeleteObject');
+            logger.info(`[S3Provider] ✅ Deleted ${merkleOrKey}`);
+            return true;
+        } catch (err: any) {
+            logger.error(`[S3Provider] ❌ Delete failed for ${merkleOrKey}: ${err.message}`);
+            return false;
+        }
+    },
+
+    async verify(merkleOrKey: string) {
+        try {
+            const res = await s3Fetch({ method: 'HEAD', objectKey: merkleOrKey });
+            if (res.status === 404) {
+                logger.warn(`[S3Provider] ⚠️ ${merkleOrKey} not found in bucket`);
+                return false;
+            }
+            await expectOk(res, 'HeadObject');
+            return true;
+        } catch (err: any) {
+            logger.error(`[S3Provider] ❌ Verify failed for ${merkleOrKey}: ${err.message}`);
+            return false;
+        }
+    },
+
+    async getStream(merkleOrKey: string, range?: ByteRange): Promise<Readable | null> {
+        try {
+            const headers: Record<string, string> = {};
+            if (range) headers.Range = `bytes=${range.start}-${range.end ?? ''}`;
+
+            const res = await s3Fetch({ method: 'GET', objectKey: merkleOrKey, headers });
+            if (res.status === 404) return null;
+            await expectOk(res, 'GetObject');
+            if (!res.body) throw new Error('GetObject returned an empty body');
+
+            // @ts-ignore - Readable.fromWeb expects Web stream which res.body is in Node 18+
+            const stream: Readable = Readable.fromWeb(res.body);
+            // An endpoint or proxy that ignores Range answers 200 with the whole object
+            return range && res.status !== 206 ? sliceStream(stream, range) : stream;
+        } catch (err: any) {
+            logger.error(`[S3Provider] ❌ getStream failed for ${merkleOrKey}: ${err.message}`);
+            return null;
+        }
+    },
+};
+
+export default s3Provider;
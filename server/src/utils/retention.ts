@@ -2,6 +2,7 @@ import { db } from '../db';
 import { users, files, folders, userCrypto } from '../db/schema';
 import { eq, and, sql, lt, ne, isNull, isNotNull } from 'drizzle-orm';
 import logger from '../utils/logger';
+import { revokeUserFileShareLinks } from '../services/fileShareLinks';
 import crypto from 'crypto';
 
 /**
@@ -49,6 +50,8 @@ export async function runAccountRetentionPolicy() {
                         ne(files.merkle_hash, 'UNKNOWN')
                     ));
 
+                await revokeUserFileShareLinks(userId);
+
                 // C. Wipe Metadata & Structure
                 await db.delete(folders).where(eq(folders.userId, userId));
                 await db.delete(userCrypto).where(eq(userCrypto.userId, userId));
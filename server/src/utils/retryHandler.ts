@@ -6,6 +6,7 @@ import { getStorageProvider } from '../storage';
 import { uploadQueue } from './uploadQueue';
 import { withTimeout } from './promise';
 import { env } from '../config/env';
+import { fileObjectKey, chunkObjectKey } from '../services/fileVersions';
 import fs from 'fs';
 
 /**
@@ -19,6 +20,7 @@ export async function retryFileUpload(fileId: number): Promise<void> {
         encrypted_file_path: files.encrypted_file_path,
         file_size: files.file_size,
         storage_provider: files.storage_provider,
+        current_version: files.current_version,
     })
         .from(files)
         .where(and(eq(files.id, fileId), isNull(files.deleted_at)))
@@ -42,7 +44,7 @@ export async function retryFileUpload(fileId: number): Promise<void> {
     uploadQueue.add(async () => {
         try {
             const provider = getStorageProvider();
-            const objectKey = `files/${fileId}`;
+            const objectKey = fileObjectKey(fileId, file.current_version);
 
             const fileSizeMB = file.file_size / (1024 * 1024);
             const timeoutMs = (15 * 60 * 1000) + (fileSizeMB * 5000);
@@ -85,6 +87,7 @@ export async function retryChunkUploads(fileId: number, chunkIds?: string[]): Pr
         id: files.id,
         jackal_filename: files.jackal_filename,
         storage_provider: files.storage_provider,
+        current_version: files.current_version,
     }).from(files).where(and(eq(files.id, fileId), isNull(files.deleted_at))).limit(1);
 
     if (!file) throw new Error(`File ${fileId} not found or deleted`);
@@ -116,7 +119,7 @@ export async function retryChunkUploads(fileId: number, chunkIds?: string[]): Pr
         uploadQueue.add(async () => {
             try {
                 const provider = getStorageProvider();
-                const objectKey = `files/${fileId}/chunks/${chunk.chunk_index}`;
+                const objectKey = chunkObjectKey(fileId, chunk.chunk_index, file.current_version);
 
                 const fileSizeMB = chunk.size / (1024 * 1024);
                 const timeoutMs = (10 * 60 * 1000) + (fileSizeMB * 5000);
@@ -1,48 +1,52 @@
 import logger from './logger';
+import { resourceMonitor } from '../services/resourceMonitor';
 
 type Task = () => Promise<void>;
 
 class UploadQueue {
     private queue: Task[] = [];
-    private isProcessing: boolean = false;
+    private active: number = 0;
+
+    constructor() {
+        // A raised limit applies at once instead of waiting for the next add or completion
+        resourceMonitor.onConcurrencyChange(() => this.processNext());
+    }
 
     /**
      * Add a task to the queue and trigger processing
      */
     public add(task: Task) {
         this.queue.push(task);
-        logger.info(`[UPLOAD-QUEUE] Task added. Queue size: ${this.queue.length}`);
+        logger.info(`[UPLOAD-QUEUE] Task added. Queue size: ${this.queue.length}, active: ${this.active}`);
         this.processNext();
     }
 
     /**
-     * Process the next task in the queue if immediately available
+     * Start as many queued tasks as the current concurrency limit allows.
+     * The limit comes from ResourceMonitor, which raises or lowers it with CPU, memory and disk pressure.
      */
-    private async processNext() {
-        if (this.isProcessing) {
-            return;
+    private processNext() {
+        while (this.active < resourceMonitor.getMaxConcurrent() && this.queue.length > 0) {
+            const task = this.queue.shift()!;
+            this.active++;
+            resourceMonitor.setActiveJobs(this.active);
+            this.run(task);
         }
 
-        if (this.queue.length === 0) {
+        if (this.active === 0 && this.queue.length === 0) {
             logger.info('[UPLOAD-QUEUE] Queue empty. Idle.');
-            return;
         }
+    }
 
-        this.isProcessing = true;
-        const task = this.queue.shift();
-
-        if (task) {
-            try {
-                await task();
-            } catch (error: any) {
-                logger.error('[UPLOAD-QUEUE] Task execution failed:', error);
-            } finally {
-                this.isProcessing = false;
-                // Process next task recursively
-                this.processNext();
-            }
-        } else {
-            this.isProcessing = false;
+    private async run(task: Task) {
+        try {
+            await task();
+        } catch (error: any) {
+            logger.error('[UPLOAD-QUEUE] Task execution failed:', error);
+        } finally {
+            this.active--;
+            resourceMonitor.setActiveJobs(this.active);
+            this.processNext();
         }
     }
 
@@ -50,8 +54,12 @@ class UploadQueue {
         return this.queue.length;
     }
 
+    public getActiveCount(): number {
+        return this.active;
+    }
+
     public isBusy(): boolean {
-        return this.isProcessing;
+        return this.active > 0;
     }
 }
 
@@ -66,6 +66,7 @@ const App = () => {
                       <Route path="/forgot-password" element={<ForgotPasswordPage />} />
                       <Route path="/reset-password" element={<ResetPasswordPage />} />
                       <Route path="/s/:shareToken" element={<SharePage />} />
+                      <Route path="/s/f/:folderToken" element={<SharePage />} />
                       <Route path="/dz/:token" element={<DropZonePage />} />
                       <Route path="/collab/:token" element={<CollabPortalPage />} />
                       <Route path="/terms" element={<TermsPage />} />
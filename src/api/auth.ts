@@ -38,29 +38,116 @@ export interface AuthResponse {
     encryptedMetadataNonce?: string;
     salt?: string;
     kdfParams?: string;
+    // Admin without a second factor while the server requires one
+    twoFactorSetupRequired?: boolean;
 }
 
+export type TwoFactorMethod = 'totp' | 'webauthn' | 'backup';
+
+/** Returned by /auth/login instead of tokens when the account has a second factor. */
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    twoFactorToken: string;
+    methods: TwoFactorMethod[];
+    webauthn: PublicKeyCredentialRequestOptionsJSON | null;
+}
+
+export interface TwoFactorAnswer {
+    method: TwoFactorMethod;
+    code?: string;
+    assertion?: { id: string; clientDataJSON: string; authenticatorData: string; signature: string };
+}
+
+// WebAuthn options as the server sends them: binary fields are base64url strings
+export interface PublicKeyCredentialRequestOptionsJSON {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: UserVerificationRequirement;
+    allowCredentials: { type: 'public-key'; id: string; transports?: AuthenticatorTransport[] }[];
+}
+
+export interface PublicKeyCredentialCreationOptionsJSON {
+    challenge: string;
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    pubKeyCredParams: { type: 'public-key'; alg: number }[];
+    timeout: number;
+    attestation: AttestationConveyancePreference;
+    authenticatorSelection: AuthenticatorSelectionCriteria;
+    excludeCredentials: { type: 'public-key'; id: string; transports?: AuthenticatorTransport[] }[];
+}
+
+export interface Passkey {
+    id: number;
+    name: string;
+    created_at: string;
+    last_used_at: string | null;
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    totpEnabled: boolean;
+    webauthnCount: number;
+    backupCodesRemaining: number;
+    methods: TwoFactorMethod[];
+    required: boolean;
+    passkeys: Passkey[];
+}
+
+export type MetadataItemType = 'file' | 'folder' | 'root';
+
+export interface EncryptedMetadataRecord {
+    type: MetadataItemType;
+    id: number;
+    encryptedRecord: string;
+    nonce: string;
+}
+
+export type MetadataChange = EncryptedMetadataRecord | { type: MetadataItemType; id: number; deleted: true };
+
 export const authAPI = {
     async getSalt(email: string): Promise<{ salt: string; kdfParams: string }> {
         const { data } = await api.post('/auth/salt', { email });
         return data;
     },
 
-    async saveMetadata(data: { encryptedMetadata: string; encryptedMetadataNonce: string; metadata_version?: number }): Promise<{ success: boolean }> {
+    async saveMetadata(data: { encryptedMetadata: string; encryptedMetadataNonce: string; metadata_version?: number }): Promise<{ success: boolean; newVersion: number }> {
         const response = await api.post('/auth/metadata', data);
         return response.data;
     },
 
-    async getMetadata(): Promise<{ encryptedMetadata?: string; encryptedMetadataNonce?: string; metadata_version?: number }> {
+    async getMetadata(): Promise<{ encryptedMetadata?: string; encryptedMetadataNonce?: string; metadata_version?: number; metadata_format?: number }> {
         const { data } = await api.get('/auth/metadata');
         return data;
     },
 
-    async login(credentials: LoginCredentials): Promise<AuthResponse> {
+    // Per-item records (metadata format 2)
+    async getMetadataChanges(since: number): Promise<{ version: number; records: MetadataChange[] }> {
+        const { data } = await api.get('/auth/metadata/changes', { params: { since } });
+        return data;
+    },
+
+    async saveMetadataRecords(changes: { upserts: EncryptedMetadataRecord[]; deletes: { type: MetadataItemType; id: number }[] }): Promise<{ success: boolean; version: number }> {
+        const { data } = await api.post('/auth/metadata/records', changes);
+        return data;
+    },
+
+    async migrateMetadata(metadataVersion: number, records: EncryptedMetadataRecord[]): Promise<{ success: boolean; version: number }> {
+        const { data } = await api.post('/auth/metadata/migrate', { metadata_version: metadataVersion, records });
+        return data;
+    },
+
+    async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
         const { data } = await api.post('/auth/login', credentials);
         return data;
     },
 
+    async loginTwoFactor(twoFactorToken: string, answer: TwoFactorAnswer): Promise<AuthResponse> {
+        const { data } = await api.post('/auth/login/2fa', { twoFactorToken, ...answer });
+        return data;
+    },
+
     async signup(credentials: SignupCredentials): Promise<{ message: string }> {
         const { data } = await api.post('/auth/signup', credentials);
         return data;
@@ -76,6 +163,11 @@ export const authAPI = {
         return data;
     },
 
+    async getRecoveryKey(token: string): Promise<{ recoveryEncryptedMasterKey: string; recoveryMasterKeyNonce: string }> {
+        const { data } = await api.post('/auth/reset-password/recovery-key', { token });
+        return data;
+    },
+
     async resetPassword(data: {
         token: string;
         authHash: string;
@@ -103,3 +195,98 @@ export const authAPI = {
         return data;
     }
 };
+
+export const twoFactorAPI = {
+    async getStatus(): Promise<TwoFactorStatus> {
+        const { data } = await api.get('/auth/2fa');
+        return data;
+    },
+
+    async setupTotp(): Promise<{ secret: string; otpauthUrl: string }> {
+        const { data } = await api.post('/auth/2fa/totp/setup');
+        return data;
+    },
+
+    async enableTotp(code: string): Promise<{ success: boolean; backupCodes?: string[] }> {
+        const { data } = await api.post('/auth/2fa/totp/enable', { code });
+        return data;
+    },
+
+    async disableTotp(authHash: string): Promise<{ success: boolean }> {
+        const { data } = await api.delete('/auth/2fa/totp', { data: { authHash } });
+        return data;
+    },
+
+    async regenerateBackupCodes(authHash: string): Promise<{ backupCodes: string[] }> {
+        const { data } = await api.post('/auth/2fa/backup-codes', { authHash });
+        return data;
+    },
+
+    async getPasskeyOptions(): Promise<{ challengeToken: string; options: PublicKeyCredentialCreationOptionsJSON }> {
+        const { data } = await api.post('/auth/2fa/webauthn/options');
+        return data;
+    },
+
+    async registerPasskey(body: {
+        challengeToken: string;
+        name: string;
+        credential: { clientDataJSON: string; attestationObject: string; transports?: string[] };
+    }): Promise<{ success: boolean; passkey: Passkey; backupCodes?: string[] }> {
+        const { data } = await api.post('/auth/2fa/webauthn', body);
+        return data;
+    },
+
+    async deletePasskey(id: number, authHash: string): Promise<{ success: boolean }> {
+        const { data } = await api.delete(`/auth/2fa/webauthn/${id}`, { data: { authHash } });
+        return data;
+    }
+};
+
+export interface Session {
+    id: number;
+    device: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: string;
+    last_seen_at: string;
+    current: boolean;
+}
+
+export const sessionsAPI = {
+    async list(): Promise<{ sessions: Session[] }> {
+        const { data } = await api.get('/auth/sessions');
+        return data;
+    },
+
+    async revoke(id: number): Promise<{ success: boolean }> {
+        const { data } = await api.delete(`/auth/sessions/${id}`);
+        return data;
+    },
+
+    async revokeOthers(): Promise<{ success: boolean; revoked: number }> {
+        const { data } = await api.delete('/auth/sessions');
+        return data;
+    }
+};
+
+export interface RecoveryStatus {
+    enabled: boolean;
+    createdAt: string | null;
+}
+
+export const recoveryAPI = {
+    async getStatus(): Promise<RecoveryStatus> {
+        const { data } = await api.get('/auth/recovery');
+        return data;
+    },
+
+    async save(data: { encryptedMasterKey: string; encryptedMasterKeyNonce: string }): Promise<RecoveryStatus> {
+        const response = await api.put('/auth/recovery', data);
+        return response.data;
+    },
+
+    async revoke(): Promise<RecoveryStatus> {
+        const { data } = await api.delete('/auth/recovery');
+        return data;
+    }
+};
@@ -12,6 +12,7 @@ export interface File {
     last_accessed_at: string | null;
     upload_session_id: string | null;
     deleted_at?: string;
+    has_thumbnail?: boolean;
 }
 
 export interface UploadResponse {
@@ -32,6 +33,59 @@ export interface DownloadInfo {
     chunkCount: number;
 }
 
+export interface FileVersion {
+    version: number;
+    is_current: boolean;
+    file_size: number;
+    is_chunked: boolean;
+    created_at: string | null;
+    archived_at?: string | null;
+    file_key_encrypted: string; // Wrapped with the file's folder key
+    file_key_nonce: string;
+}
+
+export interface UploadStatus {
+    success: boolean;
+    file_id: number;
+    folder_id: number | null;
+    file_size: number;
+    complete: boolean;
+    received_chunks: number[];
+    file_key_encrypted: string; // Wrapped with the file's folder key
+    file_key_nonce: string;
+}
+
+/** A thumbnail sealed with the file key, plus the wrapped keys needed to open it. */
+export interface EncryptedThumbnail {
+    thumbnail: string;
+    nonce: string;
+    file_key_encrypted: string; // Folder key for own files, collab key for collab uploads
+    file_key_nonce: string;
+    folder_key_encrypted?: string | null;
+    folder_key_nonce?: string | null;
+}
+
+export interface FileShareLink {
+    id: number;
+    token: string;
+    custom_slug: string | null;
+    label: string | null;
+    has_password: boolean;
+    max_downloads: number | null;
+    download_count: number;
+    expires_at: string | null;
+    created_at: string;
+}
+
+/** Per-link policy. On update, omitted fields stay as they are and null clears them. */
+export interface FileSharePolicy {
+    label?: string | null;
+    password?: string | null;
+    max_downloads?: number | null;
+    expires_at?: string | null;
+    custom_slug?: string | null;
+}
+
 export interface FilesResponse {
     files: File[];
     metadataVersion?: number;
@@ -105,6 +159,12 @@ export const filesAPI = {
         return data;
     },
 
+    // Which chunks the server already holds, so an interrupted upload only sends the rest
+    async getUploadStatus(fileId: number): Promise<UploadStatus> {
+        const { data } = await api.get(`/files/${fileId}/upload-status`);
+        return data;
+    },
+
     async finishChunkedUpload(fileId: number): Promise<{ success: boolean }> {
         const { data } = await api.post(`/files/${fileId}/finish`);
         return data;
@@ -239,25 +299,88 @@ export const filesAPI = {
     async move(
         fileId: number,
         folderId: number | null,
-        reencryptedKeys?: { fileKeyEncrypted: string; fileKeyNonce: string }
+        reencryptedKeys?: { fileKeyEncrypted: string; fileKeyNonce: string },
+        versionKeys?: { version: number; fileKeyEncrypted: string; fileKeyNonce: string }[]
     ): Promise<{ success: boolean }> {
         const { data } = await api.put(`/files/${fileId}/move`, {
             folderId,
             ...(reencryptedKeys && {
                 fileKeyEncrypted: reencryptedKeys.fileKeyEncrypted,
                 fileKeyNonce: reencryptedKeys.fileKeyNonce
-            })
+            }),
+            ...(versionKeys && versionKeys.length > 0 && { versionKeys })
+        });
+        return data;
+    },
+
+    // File Versions
+    async getVersions(fileId: number): Promise<{ success: boolean; current_version: number; versions: FileVersion[] }> {
+        const { data } = await api.get(`/files/${fileId}/versions`);
+        return data;
+    },
+
+    // Starts a new version; the bits then go through upload() or uploadChunk() + finishChunkedUpload()
+    async createVersion(
+        fileId: number,
+        fileSize: number,
+        reencryptedKeys?: { fileKeyEncrypted: string; fileKeyNonce: string }
+    ): Promise<{ success: boolean; file_id: number; version: number; is_chunked: boolean }> {
+        const { data } = await api.post(`/files/${fileId}/versions`, {
+            file_size: fileSize,
+            ...reencryptedKeys
         });
         return data;
     },
 
-    async createShare(fileId: number): Promise<{ success: boolean; share_url: string; share_token: string }> {
-        const { data } = await api.post(`/files/${fileId}/share`);
+    async restoreVersion(fileId: number, version: number): Promise<{ success: boolean; current_version: number }> {
+        const { data } = await api.post(`/files/${fileId}/versions/${version}/restore`);
+        return data;
+    },
+
+    // Thumbnails (sealed with the file key by the uploading browser)
+    async saveThumbnail(fileId: number, thumbnail: string, nonce: string): Promise<{ success: boolean }> {
+        const { data } = await api.put(`/files/${fileId}/thumbnail`, { thumbnail, nonce });
+        return data;
+    },
+
+    async getThumbnail(fileId: number): Promise<EncryptedThumbnail> {
+        const { data } = await api.get(`/files/${fileId}/thumbnail`);
+        return data;
+    },
+
+    async saveCollabThumbnail(collabToken: string, fileId: number, thumbnail: string, nonce: string, sessionToken?: string): Promise<{ success: boolean }> {
+        const headers: Record<string, string> = {};
+        if (sessionToken) headers['x-collab-session'] = sessionToken;
+        const { data } = await api.put(`/collab/${collabToken}/files/${fileId}/thumbnail`, { thumbnail, nonce }, { headers });
+        return data;
+    },
+
+    async getCollabThumbnail(collabToken: string, fileId: number, sessionToken?: string): Promise<EncryptedThumbnail> {
+        const headers: Record<string, string> = {};
+        if (sessionToken) headers['x-collab-session'] = sessionToken;
+        const { data } = await api.get(`/collab/${collabToken}/files/${fileId}/thumbnail`, { headers });
+        return data;
+    },
+
+    async listShares(fileId: number): Promise<{ success: boolean; links: FileShareLink[] }> {
+        const { data } = await api.get(`/files/${fileId}/shares`);
+        return data;
+    },
+
+    // Always mints a new link; the file's other links are left alone
+    async createShare(fileId: number, policy: FileSharePolicy = {}): Promise<{ success: boolean; share_id: number; share_url: string; share_token: string }> {
+        const { data } = await api.post(`/files/${fileId}/share`, policy);
+        return data;
+    },
+
+    async updateShare(fileId: number, linkId: number, policy: FileSharePolicy): Promise<{ success: boolean; message: string }> {
+        const { data } = await api.patch(`/files/${fileId}/share/${linkId}`, policy);
         return data;
     },
 
-    async revokeShare(fileId: number): Promise<{ success: boolean; message: string }> {
-        const { data } = await api.delete(`/files/${fileId}/share`);
+    // Revokes one link, or every link on the file when no link id is given
+    async revokeShare(fileId: number, linkId?: number): Promise<{ success: boolean; message: string }> {
+        const { data } = await api.delete(linkId ? `/files/${fileId}/share/${linkId}` : `/files/${fileId}/share`);
         return data;
     },
 
@@ -4,6 +4,7 @@ export interface Folder {
     id: number;
     name: string;
     parent_id: number | null;
+    path_hash?: string | null;
     created_at: string;
     file_count?: number;
     subfolder_count?: number;
@@ -11,6 +12,46 @@ export interface Folder {
     deleted_at?: string;
 }
 
+export interface FolderShareTree {
+    folders: { id: number; parent_id: number | null; folder_key_encrypted: string; folder_key_nonce: string }[];
+    files: { id: number; folder_id: number; file_size: number; file_key_encrypted: string; file_key_nonce: string }[];
+}
+
+/** Every live file under a folder, whatever its origin; names are only sealed for Drop Zone and collab uploads. */
+export interface FolderTree {
+    folders: { id: number; parent_id: number | null }[];
+    files: {
+        id: number;
+        folder_id: number;
+        file_size: number;
+        file_origin: string;
+        encrypted_filename: string | null;
+        encrypted_mime_type: string | null;
+        created_at: string;
+    }[];
+}
+
+export interface FolderShareEntry {
+    type: 'folder' | 'file';
+    id: number;
+    parentId: number;
+    fileKeyEncrypted?: string;
+    fileKeyNonce?: string;
+    encryptedMeta: string;
+}
+
+export interface CreateFolderSharePayload {
+    folderKeyEncrypted: string;
+    folderKeyNonce: string;
+    hostLinkKeyEncrypted: string;
+    hostLinkKeyNonce: string;
+    encryptedName: string;
+    password?: string;
+    max_downloads?: number | null;
+    expires_at?: string | null;
+    entries: FolderShareEntry[];
+}
+
 export const foldersAPI = {
     async create(folderKeyEncrypted: string, folderKeyNonce: string, pathHash: string, parentId?: number): Promise<{ success: boolean; folder_id: number }> {
         const { data } = await api.post('/folders/create', { folderKeyEncrypted, folderKeyNonce, pathHash, parentId });
@@ -58,5 +99,25 @@ export const foldersAPI = {
     async deleteForever(folderId: number): Promise<{ success: boolean; message: string }> {
         const { data } = await api.delete(`/folders/${folderId}/permanent`);
         return data;
+    },
+
+    async getTree(folderId: number): Promise<FolderTree> {
+        const { data } = await api.get(`/folders/${folderId}/tree`);
+        return data;
+    },
+
+    async getShareTree(folderId: number): Promise<FolderShareTree> {
+        const { data } = await api.get(`/folders/${folderId}/share-tree`);
+        return data;
+    },
+
+    async createShare(folderId: number, payload: CreateFolderSharePayload): Promise<{ success: boolean; share_id: number; share_token: string }> {
+        const { data } = await api.post(`/folders/${folderId}/share`, payload);
+        return data;
+    },
+
+    async revokeShare(folderId: number, shareId: number): Promise<{ success: boolean }> {
+        const { data } = await api.delete(`/folders/${folderId}/share/${shareId}`);
+        return data;
     }
 };
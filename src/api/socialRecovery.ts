@@ -0,0 +1,105 @@
+import api from '../lib/api';
+
+export interface AccountKeyPair {
+    publicKey: string;
+    encryptedPrivateKey: string;
+    privateKeyNonce: string;
+}
+
+export interface SocialRecoveryStatus {
+    enabled: boolean;
+    threshold: number | null;
+    createdAt: string | null;
+    trustees: { email: string; shareIndex: number }[];
+    recoverable: boolean;
+}
+
+export interface TrusteeLookup {
+    email: string;
+    userId: number;
+    publicKey: string;
+}
+
+export interface TrusteeRecoveryRequest {
+    id: number;
+    ownerEmail: string;
+    requestPublicKey: string;
+    createdAt: string;
+    expiresAt: string;
+    shareIndex: number;
+    encryptedShare: string;
+}
+
+export interface RecoveryRequestStatus {
+    requestId: number;
+    requestPublicKey: string;
+    expiresAt: string;
+    threshold: number;
+    trusteeCount: number;
+    declined: number;
+    shares: string[];
+    envelope: { encryptedMasterKey: string; encryptedMasterKeyNonce: string } | null;
+}
+
+export const socialRecoveryAPI = {
+    async getKeyPair(): Promise<{ keyPair: AccountKeyPair | null }> {
+        const { data } = await api.get('/social-recovery/keypair');
+        return data;
+    },
+
+    async saveKeyPair(keyPair: AccountKeyPair): Promise<{ keyPair: AccountKeyPair }> {
+        const { data } = await api.put('/social-recovery/keypair', keyPair);
+        return data;
+    },
+
+    async getStatus(): Promise<SocialRecoveryStatus> {
+        const { data } = await api.get('/social-recovery');
+        return data;
+    },
+
+    async lookupTrustees(emails: string[]): Promise<{ trustees: TrusteeLookup[] }> {
+        const { data } = await api.post('/social-recovery/trustees/lookup', { emails });
+        return data;
+    },
+
+    async save(setup: {
+        threshold: number;
+        encryptedMasterKey: string;
+        encryptedMasterKeyNonce: string;
+        shares: { trusteeUserId: number; shareIndex: number; encryptedShare: string }[];
+    }): Promise<SocialRecoveryStatus> {
+        const { data } = await api.put('/social-recovery', setup);
+        return data;
+    },
+
+    async disable(): Promise<SocialRecoveryStatus> {
+        const { data } = await api.delete('/social-recovery');
+        return data;
+    },
+
+    async listRequests(): Promise<{ requests: TrusteeRecoveryRequest[] }> {
+        const { data } = await api.get('/social-recovery/requests');
+        return data;
+    },
+
+    async approve(requestId: number, encryptedShare: string): Promise<{ success: boolean }> {
+        const { data } = await api.post(`/social-recovery/requests/${requestId}/approve`, { encryptedShare });
+        return data;
+    },
+
+    async decline(requestId: number): Promise<{ success: boolean }> {
+        const { data } = await api.post(`/social-recovery/requests/${requestId}/decline`);
+        return data;
+    },
+
+    // Locked-out side: authorised by the password-reset token rather than a session
+    async startRequest(token: string, requestPublicKey: string): Promise<{ requestId: number; threshold: number; trusteeCount: number; expiresAt: string }> {
+        const { data } = await api.post('/auth/reset-password/social-recovery', { token, requestPublicKey });
+        return data;
+    },
+
+    async getRequestStatus(token: string): Promise<RecoveryRequestStatus> {
+        const { data } = await api.post('/auth/reset-password/social-recovery/status', { token });
+        return data;
+    }
+};
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Desktop, DeviceMobile, SignOut } from '@phosphor-icons/react';
+import { sessionsAPI } from '../api/auth';
+import type { Session } from '../api/auth';
+import { useToast } from '../contexts/ToastContext';
+
+const isMobile = (session: Session) => /iOS|Android/.test(session.device);
+
+const formatLastSeen = (iso: string) => {
+    const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+    // Sessions refresh about every 15 minutes while open
+    if (minutes < 20) return 'Active now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    return new Date(iso).toLocaleDateString();
+};
+
+export const ActiveSessions = () => {
+    const { showToast } = useToast();
+    const [sessions, setSessions] = useState<Session[] | null>(null);
+    const [busyId, setBusyId] = useState<number | 'others' | null>(null);
+
+    const loadSessions = useCallback(async () => {
+        try {
+            const { sessions } = await sessionsAPI.list();
+            setSessions(sessions);
+        } catch (err) {
+            console.error('[Sessions] Failed to load:', err);
+            setSessions([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevoke = async (session: Session) => {
+        if (!confirm(`Sign out ${session.device}?`)) return;
+        setBusyId(session.id);
+        try {
+            await sessionsAPI.revoke(session.id);
+            showToast('Session signed out', 'success');
+            await loadSessions();
+        } catch (err: any) {
+            showToast(err.response?.data?.error || 'Failed to sign out session', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRevokeOthers = async () => {
+        if (!confirm('Sign out of every other device? They will need your password to sign back in.')) return;
+        setBusyId('others');
+        try {
+            const { revoked } = await sessionsAPI.revokeOthers();
+            showToast(`Signed out ${revoked} other session${revoked === 1 ? '' : 's'}`, 'success');
+            await loadSessions();
+        } catch (err: any) {
+            showToast(err.response?.data?.error || 'Failed to sign out other sessions', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (!sessions) {
+        return <div className="p-6 text-xs text-[#94A3B8]">Loading sessions...</div>;
+    }
+
+    const others = sessions.filter(s => !s.current);
+
+    return (
+        <>
+            {sessions.map(session => (
+                <div key={session.id} className="flex items-center justify-between p-6 border-b border-slate-300/25">
+                    <div className="flex items-center gap-3 min-w-0">
+                        <div className="w-8 h-8 rounded-lg bg-[#5D7285]/10 flex items-center justify-center text-[#5D7285] shrink-0">
+                            {isMobile(session) ? <DeviceMobile size={16} weight="regular" /> : <Desktop size={16} weight="regular" />}
+                        </div>
+                        <div className="min-w-0">
+                            <p className="text-sm font-semibold flex items-center gap-2">
+                                {session.device}
+                                {session.current && (
+                                    <span className="text-[10px] font-bold text-[#5D7285] bg-[#5D7285]/10 px-1.5 py-0.5 rounded uppercase">This device</span>
+                                )}
+                            </p>
+                            <p className="text-xs text-[#94A3B8] truncate" title={session.user_agent || undefined}>
+                                {session.ip_address ? `IP ${session.ip_address} · ` : ''}
+                                {session.current ? 'Active now' : formatLastSeen(session.last_seen_at)}
+                                {' · '}signed in {new Date(session.created_at).toLocaleDateString()}
+                            </p>
+                        </div>
+                    </div>
+                    {!session.current && (
+                        <button
+                            onClick={() => handleRevoke(session)}
+                            disabled={busyId !== null}
+                            className="btn btn-fill text-xs disabled:opacity-50"
+                        >
+                            {busyId === session.id ? 'Signing out...' : 'Sign Out'}
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            <div className="flex items-center justify-between p-6">
+                <p className="text-xs text-[#94A3B8]">
+                    {others.length === 0 ? 'No other active sessions.' : `${others.length} other active session${others.length === 1 ? '' : 's'}`}
+                </p>
+                <button
+                    onClick={handleRevokeOthers}
+                    disabled={others.length === 0 || busyId !== null}
+                    className="btn btn-fill text-xs disabled:opacity-50"
+                >
+                    <SignOut size={14} weight="regular" />
+                    {busyId === 'others' ? 'Signing out...' : 'Sign Out Everywhere Else'}
+                </button>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X, DownloadSimple, EyeSlash } from '@phosphor-icons/react';
+import { MarkdownView } from './MarkdownView';
+import { formatBytes } from '../utils/fileFormat';
+import {
+    getPreviewKind,
+    previewMimeType,
+    previewSizeLimit,
+    decryptToBlob,
+    canStreamVideo,
+    streamVideo,
+    type PreviewSource,
+    type PreviewTarget
+} from '../utils/filePreview';
+
+interface FilePreviewModalProps {
+    target: PreviewTarget | null;
+    onClose: () => void;
+}
+
+type PreviewState =
+    | { status: 'loading'; progress: number }
+    | { status: 'ready'; blob: Blob; url?: string; text?: string }
+    | { status: 'streaming'; source: Extract<PreviewSource, { chunks: unknown }> }
+    | { status: 'unavailable'; reason: string };
+
+export const FilePreviewModal = ({ target, onClose }: FilePreviewModalProps) => {
+    const [state, setState] = useState<PreviewState>({ status: 'loading', progress: 0 });
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+
+    const kind = target ? getPreviewKind(target.mimeType, target.name) : null;
+    const mimeType = target ? previewMimeType(target.mimeType, target.name) : '';
+
+    useEffect(() => {
+        if (!target) return;
+        if (!kind) {
+            setState({ status: 'unavailable', reason: 'This file type can’t be previewed in the browser.' });
+            return;
+        }
+
+        const controller = new AbortController();
+        let url: string | undefined;
+        setState({ status: 'loading', progress: 0 });
+
+        (async () => {
+            const source = await target.resolve();
+            if (controller.signal.aborted) return;
+
+            if (target.size > previewSizeLimit(kind)) {
+                if (kind === 'video' && canStreamVideo(source, mimeType) && 'chunks' in source) {
+                    setState({ status: 'streaming', source });
+                } else {
+                    setState({ status: 'unavailable', reason: `Files over ${formatBytes(previewSizeLimit(kind))} can’t be previewed.` });
+                }
+                return;
+            }
+
+            const blob = await decryptToBlob(source, mimeType, previewSizeLimit(kind),
+                (progress) => setState({ status: 'loading', progress }), controller.signal);
+            if (controller.signal.aborted) return;
+
+            if (kind === 'text' || kind === 'markdown') {
+                setState({ status: 'ready', blob, text: await blob.text() });
+            } else {
+                url = URL.createObjectURL(blob);
+                setState({ status: 'ready', blob, url });
+            }
+        })().catch((err) => {
+            if (controller.signal.aborted) return;
+            console.error('[Preview] ❌ Failed:', err);
+            setState({ status: 'unavailable', reason: err?.message === 'File is too large to preview' ? 'This file is too large to preview.' : 'The preview couldn’t be loaded.' });
+        });
+
+        return () => {
+            controller.abort();
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [target, kind, mimeType]);
+
+    useEffect(() => {
+        if (state.status !== 'streaming' || !videoRef.current) return;
+        const controller = new AbortController();
+        streamVideo(videoRef.current, state.source, mimeType, controller.signal).catch((err) => {
+            if (controller.signal.aborted) return;
+            console.error('[Preview] ❌ Video stream failed:', err);
+            setState({ status: 'unavailable', reason: 'This video can’t be streamed in the browser.' });
+        });
+        return () => controller.abort();
+    }, [state, mimeType]);
+
+    useEffect(() => {
+        if (!target) return;
+        const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [target, onClose]);
+
+    if (!target) return null;
+
+    // Once decrypted, save the bytes we already hold; fetching again would count another
+    // download against limited share links
+    const handleDownload = () => {
+        if (state.status !== 'ready') {
+            target.onDownload?.();
+            return;
+        }
+        const url = URL.createObjectURL(state.blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = target.name;
+        document.body.appendChild(a);
+        a.click();
+        URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+    };
+
+    const renderBody = () => {
+        if (state.status === 'loading') {
+            return (
+                <div className="flex flex-col items-center gap-3 text-text-muted">
+                    <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+                    <span className="text-sm">Decrypting{state.progress > 0 ? ` ${state.progress.toFixed(0)}%` : '…'}</span>
+                </div>
+            );
+        }
+        if (state.status === 'unavailable') {
+            return (
+                <div className="flex flex-col items-center gap-4 text-center p-6">
+                    <EyeSlash size={40} weight="duotone" className="text-text-muted" />
+                    <p className="text-text-muted text-sm max-w-xs">{state.reason}</p>
+                    {target.onDownload && (
+                        <button
+                            onClick={() => { target.onDownload!(); onClose(); }}
+                            className="px-4 py-2 bg-primary text-white rounded-xl hover:bg-primary/80 transition-colors text-sm font-semibold flex items-center gap-2"
+                        >
+                            <DownloadSimple size={16} weight="bold" />
+                            Download instead
+                        </button>
+                    )}
+                </div>
+            );
+        }
+        if (state.status === 'streaming') {
+            return <video ref={videoRef} controls autoPlay className="max-h-full max-w-full rounded-lg bg-black" />;
+        }
+
+        switch (kind) {
+            case 'image':
+                return <img src={state.url} alt={target.name} className="max-h-full max-w-full object-contain rounded-lg" />;
+            case 'pdf':
+                return <iframe src={state.url} title={target.name} className="w-full h-full rounded-lg bg-white" />;
+            case 'video':
+                return <video src={state.url} controls autoPlay className="max-h-full max-w-full rounded-lg bg-black" />;
+            case 'audio':
+                return <audio src={state.url} controls autoPlay className="w-full max-w-md" />;
+            case 'markdown':
+                return <div className="w-full h-full overflow-auto custom-scrollbar p-6 bg-card rounded-lg"><MarkdownView source={state.text ?? ''} /></div>;
+            default:
+                return <pre className="w-full h-full overflow-auto custom-scrollbar p-4 bg-card rounded-lg text-sm font-mono text-text-main whitespace-pre-wrap break-words">{state.text}</pre>;
+        }
+    };
+
+    return createPortal(
+        <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex flex-col" onClick={onClose}>
+            <div className="flex items-center justify-between gap-3 px-4 py-3 text-white" onClick={(e) => e.stopPropagation()}>
+                <div className="min-w-0">
+                    <h2 className="font-semibold truncate" title={target.name}>{target.name}</h2>
+                    <p className="text-xs text-white/60">{formatBytes(target.size)}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    {(target.onDownload || state.status === 'ready') && (
+                        <button
+                            onClick={handleDownload}
+                            className="p-2 rounded-xl hover:bg-white/10 transition-colors"
+                            title="Download"
+                        >
+                            <DownloadSimple size={20} weight="bold" />
+                        </button>
+                    )}
+                    <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/10 transition-colors" title="Close">
+                        <X size={20} weight="bold" />
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 min-h-0 flex items-center justify-center p-4 pt-0">
+                <div className="w-full h-full flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+                    {renderBody()}
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useToast } from '../contexts/ToastContext';
 import { createPortal } from 'react-dom';
@@ -14,11 +14,16 @@ import {
     Lock,
     PencilSimple,
     UploadSimple,
-    UsersThree
+    UsersThree,
+    ClockCounterClockwise,
+    Eye,
+    X
 } from '@phosphor-icons/react';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
 import { MoveFileModal } from './MoveFileModal';
 import { useQuotaCheck } from './QuotaBanner';
+import { ThumbnailIcon } from './ThumbnailIcon';
+import type { ThumbnailLoader } from '../utils/thumbnails';
 
 
 export interface UnifiedItem {
@@ -31,13 +36,19 @@ export interface UnifiedItem {
     folderId?: number | null;
     isDropZone?: boolean;
     isCollab?: boolean;
+    /** Set when the row was reached from search; it is scrolled into view and outlined */
+    highlighted?: boolean;
+    /** Files with a stored thumbnail; it replaces the icon once the row is on screen */
+    thumbnail?: ThumbnailLoader;
 
     // Actions
     onNavigate?: () => void; // For folders
-    onDownload?: () => void;
+    onPreview?: () => void; // For files; opening the row previews it
+    onDownload?: () => void; // Folders download as a ZIP
     onShare?: () => void;
     onRename?: (newName: string) => Promise<void>;
     onMove?: (folderId: number | null) => Promise<void>;
+    onVersions?: () => void;
     onDelete?: () => Promise<void>;
 }
 
@@ -47,7 +58,13 @@ function formatDate(dateString: string): string {
 }
 
 
-export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
+interface FileTableProps {
+    items: UnifiedItem[];
+    /** Enables checkboxes on files; the selection downloads as one ZIP */
+    onDownloadSelected?: (items: UnifiedItem[]) => void;
+}
+
+export const FileTable = ({ items, onDownloadSelected }: FileTableProps) => {
     // ... hooks ...
     const { showToast } = useToast();
     const { isOverQuota } = useQuotaCheck();
@@ -67,6 +84,25 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
     const [renameValue, setRenameValue] = useState('');
 
     const [menuPos, setMenuPos] = useState<{ top: number; right: number; origin: string } | null>(null);
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+
+    // Forget selected rows that are no longer listed (e.g. after opening another folder)
+    const itemKeys = (items ?? []).map(i => `${i.type}:${i.id}`).join(',');
+    useEffect(() => {
+        const present = new Set(itemKeys.split(','));
+        setSelectedKeys(prev => {
+            const next = new Set([...prev].filter(key => present.has(key)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [itemKeys]);
+
+    const highlightedRowRef = useRef<HTMLTableRowElement | null>(null);
+    const highlightedItem = items?.find(i => i.highlighted);
+    const highlightedId = highlightedItem ? `${highlightedItem.type}:${highlightedItem.id}` : null;
+
+    useEffect(() => {
+        if (highlightedId) highlightedRowRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [highlightedId]);
 
     // Defensive check for undefined items
     if (!items || !Array.isArray(items)) {
@@ -82,6 +118,25 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
     // Find active item
     const activeItem = activeMenuKey ? items.find(i => getItemKey(i) === activeMenuKey) : undefined;
 
+    const selectable = !!onDownloadSelected;
+    const selectableItems = selectable ? items.filter(i => i.type === 'file') : [];
+    const selectedItems = selectableItems.filter(i => selectedKeys.has(getItemKey(i)));
+    const allSelected = selectableItems.length > 0 && selectedItems.length === selectableItems.length;
+
+    const toggleSelected = (item: UnifiedItem) => {
+        const key = getItemKey(item);
+        setSelectedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedKeys(allSelected ? new Set() : new Set(selectableItems.map(getItemKey)));
+    };
+
     // ... handlers ...
     const handleDeleteClick = (item: UnifiedItem) => {
         setDeleteModal({ isOpen: true, file: item });
@@ -143,13 +198,22 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                         }}
                         onClick={(e) => e.stopPropagation()}
                     >
-                        {activeItem.type === 'file' && activeItem.onDownload && (
+                        {activeItem.type === 'file' && activeItem.onPreview && (
+                            <button
+                                onClick={() => { activeItem.onPreview!(); setActiveMenuKey(null); }}
+                                className="flex items-center gap-3 px-3 py-2.5 hover:bg-primary/10 rounded-lg text-text-main text-xs font-semibold text-left transition-colors"
+                            >
+                                <Eye size={16} className="text-primary" weight="bold" />
+                                Preview
+                            </button>
+                        )}
+                        {activeItem.onDownload && (
                             <button
                                 onClick={() => { activeItem.onDownload!(); setActiveMenuKey(null); }}
                                 className="flex items-center gap-3 px-3 py-2.5 hover:bg-primary/10 rounded-lg text-text-main text-xs font-semibold text-left transition-colors"
                             >
                                 <DownloadSimple size={16} className="text-primary" weight="bold" />
-                                Download
+                                {activeItem.type === 'folder' ? 'Download as ZIP' : 'Download'}
                             </button>
                         )}
                         {activeItem.onShare && (
@@ -193,6 +257,15 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                                 Move
                             </button>
                         )}
+                        {activeItem.type === 'file' && activeItem.onVersions && (
+                            <button
+                                onClick={() => { activeItem.onVersions!(); setActiveMenuKey(null); }}
+                                className="flex items-center gap-3 px-3 py-2.5 hover:bg-primary/10 rounded-lg text-text-main text-xs font-semibold text-left transition-colors"
+                            >
+                                <ClockCounterClockwise size={16} className="text-primary" weight="bold" />
+                                Versions
+                            </button>
+                        )}
                         <div className="h-px bg-black/5 my-0.5" />
                         {activeItem.onDelete && (
                             <button
@@ -212,10 +285,45 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
     return (
         <>
             <div className="glass-panel overflow-hidden">
+                {selectedItems.length > 0 && (
+                    <div className="flex items-center justify-between gap-3 px-3 md:px-4 py-2 bg-primary/10 border-b border-white/20">
+                        <span className="text-xs font-semibold text-text-main">
+                            {selectedItems.length} {selectedItems.length === 1 ? 'file' : 'files'} selected
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => { onDownloadSelected!(selectedItems); setSelectedKeys(new Set()); }}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/80 transition-colors text-xs font-semibold"
+                            >
+                                <DownloadSimple size={14} weight="bold" />
+                                Download as ZIP
+                            </button>
+                            <button
+                                onClick={() => setSelectedKeys(new Set())}
+                                className="p-1.5 hover:bg-white/50 rounded-md text-text-muted hover:text-text-main transition-colors"
+                                title="Clear selection"
+                            >
+                                <X size={14} weight="bold" />
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <div className="overflow-x-auto">
                     <table className="w-full table-fixed md:table-auto">
                         <thead className="bg-white/30 border-b border-white/20">
                             <tr>
+                                {selectable && (
+                                    <th className="pl-3 md:pl-4 py-2 w-8">
+                                        <input
+                                            type="checkbox"
+                                            checked={allSelected}
+                                            onChange={toggleAll}
+                                            disabled={selectableItems.length === 0}
+                                            className="accent-primary cursor-pointer"
+                                            aria-label="Select all files"
+                                        />
+                                    </th>
+                                )}
                                 <th className="text-left px-3 md:px-4 py-2 text-xs font-semibold text-text-muted uppercase tracking-wider md:w-1/2">Name</th>
                                 <th className="text-left px-3 md:px-4 py-2 text-xs font-semibold text-text-muted uppercase tracking-wider hidden md:table-cell">Type</th>
                                 <th className="text-left px-3 md:px-4 py-2 text-xs font-semibold text-text-muted uppercase tracking-wider hidden md:table-cell">Size</th>
@@ -232,6 +340,12 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                                     if (isFolder && item.isCollab) Icon = UsersThree;
                                     
                                     const folderColorClass = item.isDropZone ? 'bg-amber-500/10 text-amber-500' : item.isCollab ? 'bg-indigo-500/10 text-indigo-500' : 'bg-primary/20 text-primary';
+                                    const icon = (
+                                        <div className={`p-1.5 sm:p-1.5 rounded-md shadow-sm border border-white/20 ${isFolder ? folderColorClass : 'bg-white/40 text-text-main'}`}>
+                                            <Icon size={16} className="sm:hidden" weight={isFolder ? "fill" : "duotone"} />
+                                            <Icon size={18} className="hidden sm:block" weight={isFolder ? "fill" : "duotone"} />
+                                        </div>
+                                    );
 
                                     return (
                                         <motion.tr
@@ -241,19 +355,35 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                                             whileHover={{ scale: 1.01, backgroundColor: "rgba(255, 255, 255, 0.4)" }}
                                             transition={{ duration: 0.2 }}
                                             key={`${item.type}-${item.id}`}
-                                            className="hover:bg-white/30 transition-colors duration-200 group cursor-pointer border-b border-white/5 last:border-0"
+                                            ref={item.highlighted ? highlightedRowRef : undefined}
+                                            className={clsx(
+                                                "hover:bg-white/30 transition-colors duration-200 group cursor-pointer border-b border-white/5 last:border-0",
+                                                item.highlighted && "bg-primary/10 outline outline-2 outline-primary/40 -outline-offset-2"
+                                            )}
                                             onClick={() => {
                                                 if (isFolder && item.onNavigate) {
                                                     item.onNavigate();
+                                                } else if (!isFolder && item.onPreview && renamingKey !== getItemKey(item)) {
+                                                    item.onPreview();
                                                 }
                                             }}
                                         >
+                                            {selectable && (
+                                                <td className="pl-3 md:pl-4 py-2 w-8" onClick={(e) => e.stopPropagation()}>
+                                                    {!isFolder && (
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selectedKeys.has(getItemKey(item))}
+                                                            onChange={() => toggleSelected(item)}
+                                                            className="accent-primary cursor-pointer"
+                                                            aria-label={`Select ${item.name}`}
+                                                        />
+                                                    )}
+                                                </td>
+                                            )}
                                             <td className="px-2 md:px-4 py-2">
                                                 <div className="flex items-center gap-3 min-w-0 w-full">
-                                                    <div className={`p-1.5 sm:p-1.5 rounded-md shadow-sm border border-white/20 ${isFolder ? folderColorClass : 'bg-white/40 text-text-main'}`}>
-                                                        <Icon size={16} className="sm:hidden" weight={isFolder ? "fill" : "duotone"} />
-                                                        <Icon size={18} className="hidden sm:block" weight={isFolder ? "fill" : "duotone"} />
-                                                    </div>
+                                                    {item.thumbnail ? <ThumbnailIcon load={item.thumbnail}>{icon}</ThumbnailIcon> : icon}
                                                     <div className="flex flex-col min-w-0 flex-1">
                                                         {renamingKey === getItemKey(item) ? (
                                                             <input
@@ -322,7 +452,7 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                                                             const rect = e.currentTarget.getBoundingClientRect();
                                                             // Ensure menu doesn't go off bottom
                                                             const spaceBelow = window.innerHeight - rect.bottom;
-                                                            const estimatedHeight = 160;
+                                                            const estimatedHeight = 200;
                                                             const showAbove = spaceBelow < estimatedHeight;
 
                                                             setMenuPos({
@@ -340,13 +470,24 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
 
                                                 {/* Desktop: Hover Actions */}
                                                 <div className="hidden md:flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-all duration-200 translate-x-2 group-hover:translate-x-0">
-                                                    {item.type === 'file' && item.onDownload && (
+                                                    {item.type === 'file' && item.onPreview && (
+                                                        <motion.button
+                                                            whileHover={{ scale: 1.1 }}
+                                                            whileTap={{ scale: 0.9 }}
+                                                            onClick={(e) => { e.stopPropagation(); item.onPreview!(); }}
+                                                            className="p-1.5 hover:bg-white/50 rounded-md text-primary transition-colors flex items-center gap-1"
+                                                            title="Preview"
+                                                        >
+                                                            <Eye size={16} weight="bold" />
+                                                        </motion.button>
+                                                    )}
+                                                    {item.onDownload && (
                                                         <motion.button
                                                             whileHover={{ scale: 1.1 }}
                                                             whileTap={{ scale: 0.9 }}
                                                             onClick={(e) => { e.stopPropagation(); item.onDownload!(); }}
                                                             className="p-1.5 hover:bg-white/50 rounded-md text-primary transition-colors flex items-center gap-1"
-                                                            title="Download"
+                                                            title={isFolder ? "Download as ZIP" : "Download"}
                                                         >
                                                             <DownloadSimple size={16} weight="bold" />
                                                         </motion.button>
@@ -398,6 +539,17 @@ export const FileTable = ({ items }: { items: UnifiedItem[] }) => {
                                                             <ArrowsDownUp size={16} weight="bold" />
                                                         </motion.button>
                                                     )}
+                                                    {item.type === 'file' && item.onVersions && (
+                                                        <motion.button
+                                                            whileHover={{ scale: 1.1 }}
+                                                            whileTap={{ scale: 0.9 }}
+                                                            onClick={(e) => { e.stopPropagation(); item.onVersions!(); }}
+                                                            className="p-1.5 hover:bg-white/50 rounded-md text-primary transition-colors flex items-center gap-1"
+                                                            title="Version history"
+                                                        >
+                                                            <ClockCounterClockwise size={16} weight="bold" />
+                                                        </motion.button>
+                                                    )}
                                                     {item.onDelete && (
                                                         <motion.button
                                                             whileHover={{ scale: 1.1 }}
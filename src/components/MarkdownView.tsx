@@ -0,0 +1,105 @@
+import type { ReactNode } from 'react';
+
+/**
+ * Minimal Markdown renderer for file previews: headings, lists, quotes, fenced code, rules and
+ * paragraphs with inline code, bold, italics and links. It builds React elements and never
+ * injects HTML, so a previewed file can't run script in the app's origin.
+ */
+
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+    const nodes: ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(INLINE)) {
+        const index = match.index!;
+        if (index > last) nodes.push(text.slice(last, index));
+        const key = `${keyPrefix}-${index}`;
+        const [token, code, bold, italic, linkText, href] = match;
+        if (code) {
+            nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-black/5 font-mono text-[0.9em]">{code.slice(1, -1)}</code>);
+        } else if (bold) {
+            nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>);
+        } else if (italic) {
+            nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+        } else if (linkText && SAFE_LINK.test(href)) {
+            nodes.push(<a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">{linkText}</a>);
+        } else {
+            nodes.push(linkText ?? token);
+        }
+        last = index + token.length;
+    }
+    if (last < text.length) nodes.push(text.slice(last));
+    return nodes;
+};
+
+const HEADING_SIZES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+
+export const MarkdownView = ({ source }: { source: string }) => {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: ReactNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const key = `b${i}`;
+
+        if (line.startsWith('```')) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+            i++;
+            blocks.push(<pre key={key} className="p-3 rounded-lg bg-black/5 overflow-x-auto text-sm font-mono">{code.join('\n')}</pre>);
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            const level = heading[1].length;
+            const Tag = `h${level}` as 'h1';
+            blocks.push(<Tag key={key} className={`${HEADING_SIZES[level - 1]} font-bold text-text-main mt-4 mb-2`}>{renderInline(heading[2], key)}</Tag>);
+            i++;
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            blocks.push(<hr key={key} className="my-4 border-border" />);
+            i++;
+            continue;
+        }
+
+        const listItem = /^\s*([-*+]|\d+[.)])\s+/;
+        if (listItem.test(line)) {
+            const ordered = /^\s*\d/.test(line);
+            const items: ReactNode[] = [];
+            while (i < lines.length && listItem.test(lines[i])) {
+                items.push(<li key={i}>{renderInline(lines[i].replace(listItem, ''), `${key}-${i}`)}</li>);
+                i++;
+            }
+            blocks.push(ordered
+                ? <ol key={key} className="list-decimal pl-6 my-2 space-y-1">{items}</ol>
+                : <ul key={key} className="list-disc pl-6 my-2 space-y-1">{items}</ul>);
+            continue;
+        }
+
+        if (line.startsWith('>')) {
+            const quote: string[] = [];
+            while (i < lines.length && lines[i].startsWith('>')) quote.push(lines[i++].replace(/^>\s?/, ''));
+            blocks.push(<blockquote key={key} className="border-l-4 border-border pl-3 my-2 text-text-muted">{renderInline(quote.join(' '), key)}</blockquote>);
+            continue;
+        }
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && !/^(#{1,6}\s|```|>|\s*([-*+]|\d+[.)])\s)/.test(lines[i])) paragraph.push(lines[i++]);
+        if (paragraph.length === 0) paragraph.push(lines[i++]);
+        blocks.push(<p key={key} className="my-2 leading-relaxed">{renderInline(paragraph.join(' '), key)}</p>);
+    }
+
+    return <div className="text-text-main break-words">{blocks}</div>;
+};
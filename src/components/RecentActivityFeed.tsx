@@ -2,16 +2,22 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FileTable } from './FileTable';
 import type { FileItem } from '../pages/NestPage';
+import type { UploaderInfo } from '../utils/dropZoneUploader';
+import type { ThumbnailLoader } from '../utils/thumbnails';
 
 interface RecentActivityFeedProps {
     files: FileItem[];
     onDownload: (file: FileItem) => void;
+    onPreview?: (file: FileItem) => void;
+    thumbnail?: (file: FileItem) => ThumbnailLoader | undefined;
     onShare: (file: FileItem) => void;
     onRename: (fileId: number, newName: string) => Promise<void>;
     onMove: (fileId: number, targetFolderId: number | null) => Promise<void>;
     onDelete: (fileId: number) => Promise<void>;
     onLoadMore: () => void;
     hasMore: boolean;
+    // Details Drop Zone guests left, keyed by upload_session_id
+    uploaderInfo?: Record<string, UploaderInfo>;
 }
 
 interface GroupedFile {
@@ -23,12 +29,15 @@ interface GroupedFile {
 export const RecentActivityFeed = ({
     files,
     onDownload,
+    onPreview,
+    thumbnail,
     onShare,
     onRename,
     onMove,
     onDelete,
     onLoadMore,
-    hasMore
+    hasMore,
+    uploaderInfo = {}
 }: RecentActivityFeedProps) => {
     const [expandedBatches, setExpandedBatches] = useState<Set<string>>(new Set());
 
@@ -60,7 +69,8 @@ export const RecentActivityFeed = ({
 
     const finalGroups: { type: 'singles' | 'batch', files: any[], sessionId?: string }[] = [];
     grouped.forEach(g => {
-        if (g.files.length === 1) {
+        // A Drop Zone submission with uploader details keeps its header even for a single file
+        if (g.files.length === 1 && !uploaderInfo[g.uploadSessionId!]) {
             const lastFinal = finalGroups[finalGroups.length - 1];
             if (lastFinal && lastFinal.type === 'singles') {
                 lastFinal.files.push(g.files[0]);
@@ -88,6 +98,8 @@ export const RecentActivityFeed = ({
                                     size: file.file_size,
                                     createdAt: file.created_at,
                                     folderId: file.folder_id,
+                                    thumbnail: thumbnail?.(file),
+                                    onPreview: onPreview ? () => onPreview(file) : undefined,
                                     onDownload: () => onDownload(file),
                                     onShare: () => onShare(file),
                                     onRename: async (newName) => await onRename(file.id, newName),
@@ -102,6 +114,7 @@ export const RecentActivityFeed = ({
                 // Render Batch
                 const isExpanded = expandedBatches.has(group.sessionId!);
                 const firstFile = group.files[0];
+                const sender = uploaderInfo[group.sessionId!];
 
                 return (
                     <div key={`batch-${group.sessionId}`} className="glass-panel p-0 overflow-hidden border border-border/50">
@@ -115,9 +128,17 @@ export const RecentActivityFeed = ({
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                                     </svg>
                                 </div>
-                                <div>
-                                    <h3 className="text-text-main font-medium">Batch Upload</h3>
-                                    <p className="text-text-muted text-sm">{group.files.length} files • {new Date(firstFile.created_at).toLocaleTimeString()}</p>
+                                <div className="min-w-0">
+                                    <h3 className="text-text-main font-medium truncate">
+                                        {sender ? `From ${sender.name || sender.email || 'a guest'}` : 'Batch Upload'}
+                                    </h3>
+                                    <p className="text-text-muted text-sm truncate">
+                                        {group.files.length} {group.files.length === 1 ? 'file' : 'files'} • {new Date(firstFile.created_at).toLocaleTimeString()}
+                                        {sender?.name && sender.email ? ` • ${sender.email}` : null}
+                                    </p>
+                                    {sender?.note && (
+                                        <p className="text-text-main/80 text-sm mt-1 whitespace-pre-wrap break-words">{sender.note}</p>
+                                    )}
                                 </div>
                             </div>
                             <div className="flex items-center space-x-2">
@@ -148,6 +169,8 @@ export const RecentActivityFeed = ({
                                             size: file.file_size,
                                             createdAt: file.created_at,
                                             folderId: file.folder_id,
+                                            thumbnail: thumbnail?.(file),
+                                    onPreview: onPreview ? () => onPreview(file) : undefined,
                                             onDownload: () => onDownload(file),
                                             onShare: () => onShare(file),
                                             onRename: async (newName) => await onRename(file.id, newName),
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Lifebuoy, Warning } from '@phosphor-icons/react';
+import { socialRecoveryAPI } from '../api/socialRecovery';
+import type { TrusteeRecoveryRequest } from '../api/socialRecovery';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { Modal } from './Modal';
+import { approveRecoveryRequest, ensureAccountKeyPair, verificationCode } from '../utils/socialRecovery';
+
+// Recovery requests from people who chose this user as a trusted contact. Mounted on the
+// dashboard, which is also where every account gets the keypair shares are sealed to.
+export const RecoveryRequestsBanner = () => {
+    const { masterKey } = useAuth();
+    const { showToast } = useToast();
+    const [requests, setRequests] = useState<TrusteeRecoveryRequest[]>([]);
+    const [reviewing, setReviewing] = useState<TrusteeRecoveryRequest | null>(null);
+    const [code, setCode] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const loadRequests = useCallback(async () => {
+        try {
+            const { requests } = await socialRecoveryAPI.listRequests();
+            setRequests(requests);
+        } catch (err) {
+            console.error('[SocialRecovery] Failed to load recovery requests:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadRequests();
+    }, [loadRequests]);
+
+    // Others can only pick this account as a trusted contact once it has a keypair
+    useEffect(() => {
+        if (!masterKey) return;
+        ensureAccountKeyPair(masterKey).catch(err => console.error('[SocialRecovery] Failed to set up account keys:', err));
+    }, [masterKey]);
+
+    useEffect(() => {
+        if (!reviewing) return;
+        setCode('');
+        verificationCode(reviewing.requestPublicKey).then(setCode);
+    }, [reviewing]);
+
+    const answer = async (approve: boolean) => {
+        if (!reviewing || !masterKey) return;
+        setBusy(true);
+        try {
+            if (approve) {
+                await approveRecoveryRequest(masterKey, reviewing);
+                showToast(`Approved recovery for ${reviewing.ownerEmail}`, 'success');
+            } else {
+                await socialRecoveryAPI.decline(reviewing.id);
+                showToast('Recovery request declined', 'info');
+            }
+            setReviewing(null);
+            await loadRequests();
+        } catch (err: any) {
+            showToast(err.response?.data?.error || 'Failed to answer recovery request', 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (requests.length === 0) return null;
+
+    return (
+        <>
+            <div className="mb-4 glass-panel p-4 rounded-xl border border-amber-500/30 space-y-3">
+                {requests.map(request => (
+                    <div key={request.id} className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3 min-w-0">
+                            <div className="w-8 h-8 rounded-full bg-amber-500/15 flex items-center justify-center text-amber-500 flex-shrink-0">
+                                <Lifebuoy size={18} weight="bold" />
+                            </div>
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-text-main truncate">{request.ownerEmail} is recovering their account</p>
+                                <p className="text-xs text-text-muted">
+                                    You're one of their trusted contacts · expires {new Date(request.expiresAt).toLocaleString()}
+                                </p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => setReviewing(request)}
+                            disabled={!masterKey}
+                            className="glass-button px-4 py-2 text-xs font-semibold flex-shrink-0 disabled:opacity-50"
+                        >
+                            Review
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <Modal isOpen={!!reviewing} onClose={() => !busy && setReviewing(null)} title="Recovery Request">
+                {reviewing && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-text-main">
+                            <strong>{reviewing.ownerEmail}</strong> has lost access to their account and asked their trusted contacts for help.
+                        </p>
+
+                        <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/20 p-3 rounded-xl">
+                            <Warning size={20} weight="fill" className="text-amber-500 flex-shrink-0 mt-0.5" />
+                            <p className="text-xs text-text-main leading-relaxed">
+                                Contact them by phone or in person before approving. Only approve if their screen shows this exact code.
+                                Anyone who gets enough approvals can read all of their files.
+                            </p>
+                        </div>
+
+                        <div className="text-center">
+                            <p className="text-xs text-text-muted mb-1">Verification code</p>
+                            <p className="text-2xl font-mono font-bold tracking-widest text-text-main">{code || '····-····'}</p>
+                        </div>
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => answer(false)}
+                                disabled={busy}
+                                className="flex-1 px-4 py-2 rounded-lg bg-background/50 border border-border/50 text-text-main font-medium hover:bg-card-hover transition-colors disabled:opacity-50"
+                            >
+                                Decline
+                            </button>
+                            <button
+                                onClick={() => answer(true)}
+                                disabled={busy || !code}
+                                className="flex-1 glass-button px-4 py-2 font-bold disabled:opacity-50"
+                            >
+                                {busy ? 'Working...' : 'Codes Match — Approve'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </>
+    );
+};
@@ -0,0 +1,146 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Folder as FolderIcon, MagnifyingGlass, X } from '@phosphor-icons/react';
+import { filesAPI } from '../api/files';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { searchEntries, type SearchEntry } from '../utils/search';
+import { getFileIcon } from '../utils/fileFormat';
+
+interface SearchBarProps {
+    /** Called with the chosen result; file results carry their live folder id */
+    onSelect: (entry: SearchEntry) => void;
+}
+
+const MAX_RESULTS = 8;
+// Extra local candidates so trashed files can be dropped without emptying the list
+const CANDIDATES = 25;
+
+export const SearchBar = ({ onSelect }: SearchBarProps) => {
+    const index = useSearchIndex();
+    const [query, setQuery] = useState('');
+    const [open, setOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    // file id -> folder id, for candidates the server confirmed are still live
+    const [liveFiles, setLiveFiles] = useState<Map<number, number | null> | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const candidates = useMemo(() => searchEntries(index, query, CANDIDATES), [index, query]);
+
+    // Metadata keeps entries for trashed files, so file hits are checked by id only
+    useEffect(() => {
+        const fileIds = candidates.filter(r => r.entry.kind === 'file').map(r => r.entry.id);
+        setLiveFiles(null);
+        if (fileIds.length === 0) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const res = await filesAPI.queryFiles(fileIds);
+                if (cancelled) return;
+                setLiveFiles(new Map((res.files || []).map((f: any) => [f.id, f.folder_id ?? null])));
+            } catch (e) {
+                console.error('[Search] Failed to verify results', e);
+            }
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [candidates]);
+
+    const results = useMemo(() => candidates
+        .map(r => r.entry)
+        .filter(e => e.kind === 'folder' || !liveFiles || liveFiles.has(e.id))
+        .map(e => (e.kind === 'file' && liveFiles ? { ...e, folderId: liveFiles.get(e.id) ?? e.folderId } : e))
+        .slice(0, MAX_RESULTS), [candidates, liveFiles]);
+
+    useEffect(() => setActiveIndex(0), [query]);
+
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const choose = (entry: SearchEntry) => {
+        onSelect(entry);
+        setOpen(false);
+        setQuery('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            e.preventDefault();
+            choose(results[activeIndex]);
+        } else if (e.key === 'Escape') {
+            setOpen(false);
+            (e.target as HTMLInputElement).blur();
+        }
+    };
+
+    const displayPath = (path: string) => `Home${path === '/' ? '' : path}`;
+
+    return (
+        <div ref={containerRef} className="relative w-48 sm:w-72">
+            <MagnifyingGlass size={16} className="text-text-muted absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <input
+                type="text"
+                placeholder="Search... (type:pdf in:/Projects)"
+                value={query}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    setOpen(true);
+                }}
+                onFocus={() => setOpen(true)}
+                onKeyDown={handleKeyDown}
+                className="w-full pl-9 pr-8 py-1.5 bg-background/50 border border-border/50 rounded-lg text-sm text-text-main placeholder-text-muted focus:outline-none focus:border-primary"
+            />
+            {query && (
+                <button
+                    onClick={() => setQuery('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-text-muted hover:text-text-main"
+                    title="Clear search"
+                >
+                    <X size={14} weight="bold" />
+                </button>
+            )}
+
+            {open && query.trim() && (
+                <div className="absolute right-0 mt-2 w-full sm:w-96 z-40 bg-white/90 backdrop-blur-xl border border-white/40 shadow-2xl rounded-xl p-1.5 max-h-96 overflow-y-auto custom-scrollbar">
+                    {results.length === 0 ? (
+                        <p className="px-3 py-4 text-sm text-text-muted text-center">No matches</p>
+                    ) : (
+                        results.map((entry, i) => {
+                            const Icon = entry.kind === 'folder' ? FolderIcon : getFileIcon(entry.mimeType);
+                            return (
+                                <button
+                                    key={`${entry.kind}:${entry.id}`}
+                                    onMouseEnter={() => setActiveIndex(i)}
+                                    onClick={() => choose(entry)}
+                                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${i === activeIndex ? 'bg-primary/10' : 'hover:bg-black/5'}`}
+                                >
+                                    <Icon
+                                        size={18}
+                                        weight={entry.kind === 'folder' ? 'fill' : 'duotone'}
+                                        className={entry.kind === 'folder' ? 'text-primary flex-shrink-0' : 'text-text-main flex-shrink-0'}
+                                    />
+                                    <div className="flex flex-col min-w-0">
+                                        <span className="text-sm font-medium text-text-main truncate">{entry.name}</span>
+                                        <span className="text-[11px] text-text-muted truncate">{displayPath(entry.path)}</span>
+                                    </div>
+                                </button>
+                            );
+                        })
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
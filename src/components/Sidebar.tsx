@@ -23,6 +23,9 @@ import { useQuotaCheck } from './QuotaBanner';
 import nestLogo from '../assets/nest-logo.png';
 import api from '../lib/api';
 import { decryptCollabKey, fromBase64 } from '@lazybird-inc/nest-crypto';
+import { openSharedCollabKey } from '../utils/collabKeyRotation';
+import { filesFromDirectoryInput } from '../utils/folderUpload';
+import { useFolderUpload } from '../hooks/useFolderUpload';
 
 interface SidebarItemProps {
     icon: any;
@@ -82,6 +85,7 @@ export const Sidebar = ({ onClose }: SidebarProps) => {
     const { user, masterKey } = useAuth();
     const { quota, loading } = useStorage();
     const { addUpload } = useUpload();
+    const uploadFolder = useFolderUpload();
     const { showToast } = useToast();
     const { isOverQuota } = useQuotaCheck();
     const isAdmin = user?.role === 'admin';
@@ -92,7 +96,14 @@ export const Sidebar = ({ onClose }: SidebarProps) => {
         if (!user) return;
         const fetchSharedFolders = async () => {
             try {
-                const res = await api.get('/collab-folders/shared-with-me');
+                let res = await api.get('/collab-folders/shared-with-me');
+                // Folders whose key was rotated carry it sealed to this account; re-pin them before use
+                const sealed = (res.data?.shared_folders || []).filter((f: any) => f.sealed_collab_key);
+                if (sealed.length > 0 && masterKey) {
+                    await Promise.all(sealed.map((f: any) => openSharedCollabKey(f, masterKey)
+                        .catch(err => console.error('Failed to re-pin rotated collab key:', err))));
+                    res = await api.get('/collab-folders/shared-with-me');
+                }
                 if (res.data && res.data.success) {
                     setSharedFolders(res.data.shared_folders || []);
                 }
@@ -101,7 +112,7 @@ export const Sidebar = ({ onClose }: SidebarProps) => {
             }
         };
         fetchSharedFolders();
-    }, [user, location.pathname]);
+    }, [user, masterKey, location.pathname]);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const folderInputRef = useRef<HTMLInputElement>(null);
@@ -159,10 +170,10 @@ export const Sidebar = ({ onClose }: SidebarProps) => {
         if (onClose) onClose();
     };
 
+    // The picked folder is recreated (with its subfolders) inside the current one
     const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
-            const files = Array.from(e.target.files);
-            files.forEach(file => {
+            const files = Array.from(e.target.files).filter(file => {
                 const isGodMode = isAdmin;
                 const TWO_GB = 2 * 1024 * 1024 * 1024;
                 const TEN_GB = 10 * 1024 * 1024 * 1024;
@@ -176,34 +187,40 @@ export const Sidebar = ({ onClose }: SidebarProps) => {
                 } else if (!isGodMode && file.size > TEN_GB && quota.tier !== 'pro') {
                     showToast(`${file.name} is too large.`, 'error');
                 } else {
-                    const searchParams = new URLSearchParams(location.search);
-                    const currentFolderId = searchParams.get('folderId');
-                    const collabToken = searchParams.get('collabToken');
-                    let collabKey: Uint8Array | undefined = undefined;
+                    return true;
+                }
+                return false;
+            });
 
-                    if (collabToken && sharedFolders.length > 0 && masterKey) {
-                        const activeFolder = sharedFolders.find((f: any) => f.token === collabToken);
-                        if (activeFolder) {
-                            try {
-                                collabKey = decryptCollabKey(
-                                    fromBase64(activeFolder.encrypted_collab_key),
-                                    fromBase64(activeFolder.collab_key_nonce),
-                                    masterKey
-                                );
-                            } catch (err) {
-                                console.error('Failed to decrypt collabKey in Sidebar:', err);
-                            }
-                        }
-                    }
+            const searchParams = new URLSearchParams(location.search);
+            const currentFolderId = searchParams.get('folderId');
+            const collabToken = searchParams.get('collabToken');
+            let collabKey: Uint8Array | undefined = undefined;
 
-                    addUpload(
-                        file,
-                        currentFolderId ? parseInt(currentFolderId) : null,
-                        collabToken || undefined,
-                        collabKey
-                    );
+            if (collabToken && sharedFolders.length > 0 && masterKey) {
+                const activeFolder = sharedFolders.find((f: any) => f.token === collabToken);
+                if (activeFolder) {
+                    try {
+                        collabKey = decryptCollabKey(
+                            fromBase64(activeFolder.encrypted_collab_key),
+                            fromBase64(activeFolder.collab_key_nonce),
+                            masterKey
+                        );
+                    } catch (err) {
+                        console.error('Failed to decrypt collabKey in Sidebar:', err);
+                    }
                 }
-            });
+            }
+
+            if (collabToken && !collabKey) {
+                showToast('Could not open this collab folder to upload into it.', 'error');
+            } else {
+                uploadFolder(
+                    filesFromDirectoryInput(files),
+                    currentFolderId ? parseInt(currentFolderId) : null,
+                    collabToken && collabKey ? { token: collabToken, key: collabKey } : undefined
+                );
+            }
         }
         setShowNewMenu(false);
         if (folderInputRef.current) folderInputRef.current.value = '';
@@ -0,0 +1,29 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import type { ThumbnailLoader } from '../utils/thumbnails';
+
+/** Shows `children` (the file icon) until the row is near the viewport and its decrypted thumbnail loads. */
+export const ThumbnailIcon = ({ load, children }: { load: ThumbnailLoader; children: ReactNode }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const el = ref.current;
+        if (!el) return;
+        let cancelled = false;
+        const observer = new IntersectionObserver((entries) => {
+            if (!entries.some(e => e.isIntersecting)) return;
+            observer.disconnect();
+            load().then((loadedUrl) => { if (!cancelled) setUrl(loadedUrl); });
+        }, { rootMargin: '200px' });
+        observer.observe(el);
+        return () => {
+            cancelled = true;
+            observer.disconnect();
+        };
+    }, [load]);
+
+    if (url) {
+        return <img src={url} alt="" className="w-[30px] h-[30px] sm:w-8 sm:h-8 shrink-0 rounded-md object-cover shadow-sm border border-white/20" />;
+    }
+    return <div ref={ref}>{children}</div>;
+};
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { UsersThree, Plus, Trash } from '@phosphor-icons/react';
+import { socialRecoveryAPI } from '../api/socialRecovery';
+import type { SocialRecoveryStatus } from '../api/socialRecovery';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { Modal } from './Modal';
+import { setUpSocialRecovery } from '../utils/socialRecovery';
+
+const MAX_CONTACTS = 10;
+
+const errorMessage = (err: any, fallback: string) => err.response?.data?.error || err.message || fallback;
+
+export const TrustedContactsSettings = () => {
+    const { masterKey } = useAuth();
+    const { showToast } = useToast();
+    const [status, setStatus] = useState<SocialRecoveryStatus | null>(null);
+    const [editing, setEditing] = useState(false);
+
+    const loadStatus = useCallback(async () => {
+        try {
+            setStatus(await socialRecoveryAPI.getStatus());
+        } catch (err) {
+            console.error('[SocialRecovery] Failed to load status:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    const handleRemove = async () => {
+        if (!confirm('Remove all trusted contacts? They will no longer be able to help you recover your account.')) return;
+        try {
+            setStatus(await socialRecoveryAPI.disable());
+            showToast('Trusted contacts removed', 'success');
+        } catch (err: any) {
+            showToast(errorMessage(err, 'Failed to remove trusted contacts'), 'error');
+        }
+    };
+
+    if (!status) return null;
+
+    return (
+        <div className="p-6 border-b border-slate-300/25">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-[#5D7285]/10 flex items-center justify-center text-[#5D7285]">
+                        <UsersThree size={16} weight="regular" />
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold">Trusted Contacts</p>
+                        <p className={`text-xs ${status.enabled && !status.recoverable ? 'text-amber-600' : 'text-[#94A3B8]'}`}>
+                            {!status.enabled
+                                ? 'Let people you trust help you back in if you lose your password and recovery phrase'
+                                : status.recoverable
+                                    ? `Any ${status.threshold} of ${status.trustees.length} contacts can help restore access`
+                                    : `Only ${status.trustees.length} contacts remain but ${status.threshold} are needed — set up again`}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    {status.enabled && (
+                        <button onClick={handleRemove} className="btn btn-fill text-xs">
+                            Remove
+                        </button>
+                    )}
+                    <button onClick={() => setEditing(true)} disabled={!masterKey} className="btn btn-fill text-xs disabled:opacity-50">
+                        {status.enabled ? 'Change' : 'Set Up'}
+                    </button>
+                </div>
+            </div>
+
+            {status.trustees.length > 0 && (
+                <div className="mt-4 ml-11 space-y-1">
+                    {status.trustees.map(trustee => (
+                        <p key={trustee.shareIndex} className="text-xs font-semibold text-[#0F172A]">{trustee.email}</p>
+                    ))}
+                </div>
+            )}
+
+            {editing && masterKey && (
+                <TrustedContactsModal
+                    initialEmails={status.trustees.map(t => t.email)}
+                    initialThreshold={status.threshold}
+                    masterKey={masterKey}
+                    onClose={() => setEditing(false)}
+                    onSaved={(next) => {
+                        setEditing(false);
+                        setStatus(next);
+                        showToast('Trusted contacts saved', 'success');
+                    }}
+                />
+            )}
+        </div>
+    );
+};
+
+const TrustedContactsModal = ({ initialEmails, initialThreshold, masterKey, onClose, onSaved }: {
+    initialEmails: string[];
+    initialThreshold: number | null;
+    masterKey: Uint8Array;
+    onClose: () => void;
+    onSaved: (status: SocialRecoveryStatus) => void;
+}) => {
+    const [emails, setEmails] = useState<string[]>(initialEmails.length >= 2 ? initialEmails : ['', '', '']);
+    const [threshold, setThreshold] = useState(initialThreshold ?? 2);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const filled = [...new Set(emails.map(e => e.trim().toLowerCase()).filter(Boolean))];
+    const maxThreshold = Math.max(2, filled.length);
+    const required = Math.min(threshold, maxThreshold);
+
+    const updateEmail = (index: number, value: string) => {
+        setEmails(prev => prev.map((e, i) => (i === index ? value : e)));
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (filled.length < 2) {
+            setError('Add at least two trusted contacts');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            onSaved(await setUpSocialRecovery(masterKey, filled, required));
+        } catch (err: any) {
+            setError(errorMessage(err, 'Failed to save trusted contacts'));
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title="Trusted Contacts">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-text-muted">
+                    Each contact receives an encrypted piece of a recovery key. No single contact, and not Nest,
+                    can open your files. Saving replaces any previous set of contacts.
+                </p>
+
+                <div className="space-y-2">
+                    {emails.map((email, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => updateEmail(i, e.target.value)}
+                                placeholder="friend@example.com"
+                                className="flex-1 glass-input text-sm"
+                            />
+                            {emails.length > 2 && (
+                                <button
+                                    type="button"
+                                    onClick={() => setEmails(prev => prev.filter((_, j) => j !== i))}
+                                    className="p-2 rounded-md text-text-muted hover:text-red-500 transition-colors"
+                                    title="Remove contact"
+                                >
+                                    <Trash size={14} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {emails.length < MAX_CONTACTS && (
+                        <button
+                            type="button"
+                            onClick={() => setEmails(prev => [...prev, ''])}
+                            className="flex items-center gap-1.5 text-xs font-semibold text-primary hover:underline"
+                        >
+                            <Plus size={12} weight="bold" />
+                            Add contact
+                        </button>
+                    )}
+                </div>
+
+                <label className="flex items-center justify-between text-sm text-text-main">
+                    Approvals needed to recover
+                    <select
+                        value={required}
+                        onChange={(e) => setThreshold(Number(e.target.value))}
+                        className="bg-background/50 border border-border/50 rounded-lg px-3 py-1.5 text-sm"
+                    >
+                        {Array.from({ length: maxThreshold - 1 }, (_, i) => i + 2).map(n => (
+                            <option key={n} value={n}>{n} of {filled.length || 2}</option>
+                        ))}
+                    </select>
+                </label>
+
+                {error && <div className="p-3 bg-red-50 text-red-600 rounded-xl text-xs font-medium text-center">{error}</div>}
+
+                <button type="submit" disabled={saving} className="glass-button w-full py-2.5 font-semibold disabled:opacity-50">
+                    {saving ? 'Encrypting & Saving...' : 'Save Trusted Contacts'}
+                </button>
+            </form>
+        </Modal>
+    );
+};
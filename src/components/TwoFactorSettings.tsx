@@ -0,0 +1,388 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import QRCode from 'react-qr-code';
+import { DeviceMobile, Fingerprint, ListNumbers, Warning, Trash, X, Copy } from '@phosphor-icons/react';
+import { twoFactorAPI } from '../api/auth';
+import type { TwoFactorStatus } from '../api/auth';
+import { useToast } from '../contexts/ToastContext';
+import { createPasskey, isWebAuthnSupported } from '../utils/webauthn';
+
+interface TwoFactorSettingsProps {
+    userEmail: string;
+}
+
+// Removing a factor or reissuing backup codes asks for the password again; the server
+// checks the derived auth hash, never the password itself.
+interface PasswordAction {
+    title: string;
+    confirmLabel: string;
+    run: (authHash: string) => Promise<void>;
+}
+
+const deriveAuthHashFor = async (email: string, password: string) => {
+    const { deriveRootKey, deriveAuthHash, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
+    await init();
+    const { authAPI } = await import('../api/auth');
+
+    const { salt, kdfParams } = await authAPI.getSalt(email);
+    const rootKey = await deriveRootKey(password, fromBase64(salt), JSON.parse(kdfParams));
+    return deriveAuthHash(rootKey);
+};
+
+const errorMessage = (err: any, fallback: string) => err.response?.data?.error || err.message || fallback;
+
+export const TwoFactorSettings = ({ userEmail }: TwoFactorSettingsProps) => {
+    const { showToast } = useToast();
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [totpSetup, setTotpSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+    const [addingPasskey, setAddingPasskey] = useState(false);
+
+    const loadStatus = useCallback(async () => {
+        try {
+            setStatus(await twoFactorAPI.getStatus());
+        } catch (err) {
+            console.error('[2FA] Failed to load status:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    const startTotpSetup = async () => {
+        try {
+            setTotpSetup(await twoFactorAPI.setupTotp());
+        } catch (err: any) {
+            showToast(errorMessage(err, 'Could not start setup'), 'error');
+        }
+    };
+
+    const handleAddPasskey = async () => {
+        const name = prompt('Name this passkey (e.g. "MacBook Touch ID")', 'Passkey');
+        if (!name?.trim()) return;
+
+        setAddingPasskey(true);
+        try {
+            const { challengeToken, options } = await twoFactorAPI.getPasskeyOptions();
+            const credential = await createPasskey(options);
+            const result = await twoFactorAPI.registerPasskey({ challengeToken, name: name.trim(), credential });
+            showToast('Passkey added', 'success');
+            if (result.backupCodes) setBackupCodes(result.backupCodes);
+            await loadStatus();
+        } catch (err: any) {
+            if (err.name === 'NotAllowedError') return; // dismissed the browser prompt
+            showToast(errorMessage(err, 'Could not add passkey'), 'error');
+        } finally {
+            setAddingPasskey(false);
+        }
+    };
+
+    const confirmDisableTotp = () => setPasswordAction({
+        title: 'Turn off authenticator app',
+        confirmLabel: 'Turn Off',
+        run: async (authHash) => {
+            await twoFactorAPI.disableTotp(authHash);
+            showToast('Authenticator app removed', 'success');
+        }
+    });
+
+    const confirmRemovePasskey = (id: number, name: string) => setPasswordAction({
+        title: `Remove "${name}"`,
+        confirmLabel: 'Remove',
+        run: async (authHash) => {
+            await twoFactorAPI.deletePasskey(id, authHash);
+            showToast('Passkey removed', 'success');
+        }
+    });
+
+    const confirmRegenerateCodes = () => setPasswordAction({
+        title: 'Generate new backup codes',
+        confirmLabel: 'Generate',
+        run: async (authHash) => {
+            const { backupCodes: codes } = await twoFactorAPI.regenerateBackupCodes(authHash);
+            setBackupCodes(codes);
+        }
+    });
+
+    if (!status) return null;
+
+    return (
+        <>
+            {status.required && !status.enabled && (
+                <div className="flex items-start gap-3 p-6 border-b border-slate-300/25 bg-amber-500/5">
+                    <Warning size={16} weight="fill" className="text-amber-600 mt-0.5 shrink-0" />
+                    <p className="text-xs text-[#475569] leading-relaxed">
+                        Admin accounts must use two-factor authentication. Set up an authenticator app or a passkey to regain access to admin tools.
+                    </p>
+                </div>
+            )}
+
+            {/* Authenticator App Row */}
+            <div className="flex items-center justify-between p-6 border-b border-slate-300/25">
+                <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-[#5D7285]/10 flex items-center justify-center text-[#5D7285]">
+                        <DeviceMobile size={16} weight="regular" />
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold">Authenticator App</p>
+                        <p className="text-xs text-[#94A3B8]">
+                            {status.totpEnabled ? 'On — codes are required at sign-in' : 'Use 6-digit codes from an app like 1Password or Authy'}
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={status.totpEnabled ? confirmDisableTotp : startTotpSetup}
+                    className="btn btn-fill text-xs"
+                >
+                    {status.totpEnabled ? 'Turn Off' : 'Set Up'}
+                </button>
+            </div>
+
+            {/* Passkeys Row */}
+            <div className="p-6 border-b border-slate-300/25">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-[#5D7285]/10 flex items-center justify-center text-[#5D7285]">
+                            <Fingerprint size={16} weight="regular" />
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold">Passkeys & Security Keys</p>
+                            <p className="text-xs text-[#94A3B8]">
+                                {isWebAuthnSupported() ? 'Confirm sign-ins with Touch ID, Windows Hello or a hardware key' : 'Not supported in this browser'}
+                            </p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={handleAddPasskey}
+                        disabled={addingPasskey || !isWebAuthnSupported()}
+                        className="btn btn-fill text-xs disabled:opacity-50"
+                    >
+                        {addingPasskey ? 'Waiting...' : 'Add'}
+                    </button>
+                </div>
+
+                {status.passkeys.length > 0 && (
+                    <div className="mt-4 ml-11 space-y-2">
+                        {status.passkeys.map(passkey => (
+                            <div key={passkey.id} className="flex items-center justify-between text-xs">
+                                <div>
+                                    <span className="font-semibold text-[#0F172A]">{passkey.name}</span>
+                                    <span className="text-[#94A3B8]">
+                                        {' · '}added {new Date(passkey.created_at).toLocaleDateString()}
+                                        {passkey.last_used_at && <> · last used {new Date(passkey.last_used_at).toLocaleDateString()}</>}
+                                    </span>
+                                </div>
+                                <button
+                                    onClick={() => confirmRemovePasskey(passkey.id, passkey.name)}
+                                    className="p-1.5 rounded-md text-[#94A3B8] hover:text-red-500 hover:bg-red-50 transition-colors"
+                                    title="Remove passkey"
+                                >
+                                    <Trash size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Backup Codes Row */}
+            {status.enabled && (
+                <div className="flex items-center justify-between p-6 border-b border-slate-300/25">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-[#5D7285]/10 flex items-center justify-center text-[#5D7285]">
+                            <ListNumbers size={16} weight="regular" />
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold">Backup Codes</p>
+                            <p className="text-xs text-[#94A3B8]">{status.backupCodesRemaining} of 10 unused — each works once if you lose your device</p>
+                        </div>
+                    </div>
+                    <button onClick={confirmRegenerateCodes} className="btn btn-fill text-xs">
+                        Regenerate
+                    </button>
+                </div>
+            )}
+
+            {totpSetup && (
+                <TotpSetupModal
+                    setup={totpSetup}
+                    onClose={() => setTotpSetup(null)}
+                    onEnabled={async (codes) => {
+                        setTotpSetup(null);
+                        showToast('Two-factor authentication enabled', 'success');
+                        if (codes) setBackupCodes(codes);
+                        await loadStatus();
+                    }}
+                />
+            )}
+
+            {passwordAction && (
+                <PasswordConfirmModal
+                    action={passwordAction}
+                    userEmail={userEmail}
+                    onClose={() => setPasswordAction(null)}
+                    onDone={async () => {
+                        setPasswordAction(null);
+                        await loadStatus();
+                    }}
+                />
+            )}
+
+            {backupCodes && (
+                <BackupCodesModal codes={backupCodes} onClose={() => setBackupCodes(null)} />
+            )}
+        </>
+    );
+};
+
+const ModalShell = ({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) => (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+        <div onClick={onClose} className="absolute inset-0 bg-black/30 backdrop-blur-sm" />
+        <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="relative z-10 w-full max-w-md bg-white rounded-xl border border-[#E2E8F0] shadow-xl overflow-hidden"
+        >
+            <div className="p-6 pb-4 flex items-center justify-between border-b border-[#E2E8F0]">
+                <h2 className="text-base font-bold text-[#0F172A]">{title}</h2>
+                <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-slate-100 text-[#94A3B8] hover:text-[#0F172A] transition-colors">
+                    <X size={14} />
+                </button>
+            </div>
+            <div className="p-6">{children}</div>
+        </motion.div>
+    </div>
+);
+
+const TotpSetupModal = ({ setup, onClose, onEnabled }: {
+    setup: { secret: string; otpauthUrl: string };
+    onClose: () => void;
+    onEnabled: (backupCodes?: string[]) => void;
+}) => {
+    const [code, setCode] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError('');
+        try {
+            const { backupCodes } = await twoFactorAPI.enableTotp(code.trim());
+            onEnabled(backupCodes);
+        } catch (err: any) {
+            setError(errorMessage(err, 'Invalid code'));
+            setLoading(false);
+        }
+    };
+
+    return (
+        <ModalShell title="Set up authenticator app" onClose={onClose}>
+            <p className="text-xs text-[#475569] leading-relaxed mb-4">
+                Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center mb-4">
+                <div className="bg-white border border-[#E2E8F0] p-3 rounded-lg">
+                    <QRCode value={setup.otpauthUrl} size={160} />
+                </div>
+            </div>
+            <p className="text-[11px] text-[#94A3B8] text-center mb-5">
+                Can't scan? Enter this key manually:<br />
+                <span className="font-mono text-[#0F172A] break-all select-all">{setup.secret}</span>
+            </p>
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="123456"
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-[#5D7285]/20 focus:border-[#5D7285] text-sm font-mono tracking-widest text-center"
+                />
+                {error && <div className="p-3 bg-red-50 text-red-600 rounded-xl text-xs font-medium text-center">{error}</div>}
+                <button type="submit" disabled={loading || code.length !== 6} className="btn btn-fill w-full justify-center disabled:opacity-50">
+                    {loading ? 'Verifying...' : 'Turn On'}
+                </button>
+            </form>
+        </ModalShell>
+    );
+};
+
+const PasswordConfirmModal = ({ action, userEmail, onClose, onDone }: {
+    action: PasswordAction;
+    userEmail: string;
+    onClose: () => void;
+    onDone: () => void;
+}) => {
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError('');
+        try {
+            await action.run(await deriveAuthHashFor(userEmail, password));
+            onDone();
+        } catch (err: any) {
+            setError(errorMessage(err, 'Something went wrong'));
+            setLoading(false);
+        }
+    };
+
+    return (
+        <ModalShell title={action.title} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <p className="text-xs text-[#475569]">Enter your password to continue.</p>
+                <input
+                    type="password"
+                    required
+                    autoFocus
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter your password"
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-[#5D7285]/20 focus:border-[#5D7285] text-sm"
+                />
+                {error && <div className="p-3 bg-red-50 text-red-600 rounded-xl text-xs font-medium text-center">{error}</div>}
+                <button type="submit" disabled={loading} className="btn btn-fill w-full justify-center disabled:opacity-50">
+                    {loading ? 'Checking...' : action.confirmLabel}
+                </button>
+            </form>
+        </ModalShell>
+    );
+};
+
+const BackupCodesModal = ({ codes, onClose }: { codes: string[]; onClose: () => void }) => {
+    const { showToast } = useToast();
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(codes.join('\n'));
+        showToast('Backup codes copied', 'success');
+    };
+
+    return (
+        <ModalShell title="Save your backup codes" onClose={onClose}>
+            <p className="text-xs text-[#475569] leading-relaxed mb-4">
+                Each code signs you in once if you can't use your authenticator or passkey. They won't be shown again — store them somewhere safe.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-slate-50 border border-[#E2E8F0] rounded-lg font-mono text-sm text-center mb-4 select-all">
+                {codes.map(code => <span key={code}>{code}</span>)}
+            </div>
+            <div className="flex gap-2">
+                <button onClick={handleCopy} className="btn btn-fill flex-1 justify-center">
+                    <Copy size={14} /> Copy
+                </button>
+                <button onClick={onClose} className="btn btn-fill flex-1 justify-center">
+                    I've saved them
+                </button>
+            </div>
+        </ModalShell>
+    );
+};
@@ -1,5 +1,5 @@
 import { useRef, useState, useEffect } from 'react';
-import { useUpload } from '../contexts/UploadContext';
+import { useUpload, type UploadItem } from '../contexts/UploadContext';
 import { CheckCircle, XCircle, ArrowClockwise, X, CaretDown, CaretUp, UploadSimple, DownloadSimple } from '@phosphor-icons/react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -12,38 +12,108 @@ const formatBytes = (bytes: number): string => {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
 };
 
+type QueueRow = UploadItem & { batchItems?: UploadItem[] };
+
+const batchRow = (batch: { id: string; name: string }, items: UploadItem[]): QueueRow => {
+    const size = items.reduce((acc, u) => acc + u.size, 0);
+    const done = items.filter(u => u.status === 'completed').length;
+    const failed = items.filter(u => u.status === 'failed').length;
+    const status = items.some(u => u.status === 'uploading') ? 'uploading'
+        : items.some(u => u.status === 'queued') ? 'queued'
+            : failed > 0 ? 'failed' : 'completed';
+    const weighted = items.reduce((acc, u) => acc + (u.status === 'completed' ? 100 : u.progress) * u.size, 0);
+
+    return {
+        id: batch.id,
+        filename: batch.name,
+        size,
+        type: 'upload',
+        status,
+        progress: size > 0 ? weighted / size : (done / items.length) * 100,
+        currentFile: `${done} of ${items.length} files`,
+        error: failed > 0 ? `${failed} of ${items.length} files failed` : undefined,
+        batchItems: items,
+    };
+};
+
+// Folder uploads collapse into one row with their combined progress
+const toRows = (uploads: UploadItem[]): QueueRow[] => {
+    const batches = new Map<string, UploadItem[]>();
+    const rows: (QueueRow | { batch: { id: string; name: string } })[] = [];
+    uploads.forEach(u => {
+        if (!u.batch) {
+            rows.push(u);
+            return;
+        }
+        if (!batches.has(u.batch.id)) {
+            batches.set(u.batch.id, []);
+            rows.push({ batch: u.batch });
+        }
+        batches.get(u.batch.id)!.push(u);
+    });
+    return rows.map(row => 'id' in row ? row : batchRow(row.batch, batches.get(row.batch.id)!));
+};
+
 export const UploadProgress = () => {
-    const { uploads, removeUpload, retryUpload } = useUpload();
+    const { uploads: items, removeUpload, retryUpload, resumeUpload } = useUpload();
+    const uploads = toRows(items);
     const navigate = useNavigate();
     const [isMinimized, setIsMinimized] = useState(false);
     const constraintsRef = useRef(null);
+    const resumeInputRef = useRef<HTMLInputElement>(null);
+    const [resumeTargetId, setResumeTargetId] = useState<string | null>(null);
 
     // Auto-minimize watcher
     const activeCount = uploads.filter(u => u.status === 'uploading' || u.status === 'queued').length;
     const completedCount = uploads.filter(u => u.status === 'completed').length;
     const failedCount = uploads.filter(u => u.status === 'failed').length;
+    // ZIPs that left files out stay open like failures, so the list gets read
+    const skippedCount = uploads.filter(u => u.skippedFiles?.length).length;
 
     useEffect(() => {
         let timer: NodeJS.Timeout;
-        if (activeCount === 0 && completedCount > 0 && failedCount === 0 && !isMinimized) {
+        if (activeCount === 0 && completedCount > 0 && failedCount === 0 && skippedCount === 0 && !isMinimized) {
             // Auto minimize 1 second after completion
             timer = setTimeout(() => {
                 setIsMinimized(true);
             }, 1000);
         }
         return () => clearTimeout(timer);
-    }, [activeCount, completedCount, failedCount, isMinimized]);
+    }, [activeCount, completedCount, failedCount, skippedCount, isMinimized]);
 
     // Only show if there are uploads
     if (uploads.length === 0) return null;
 
     const clearAll = () => {
-        uploads.forEach(u => removeUpload(u.id));
+        items.forEach(u => removeUpload(u.id));
+    };
+
+    const removeRow = (row: QueueRow) => {
+        if (row.batchItems) row.batchItems.forEach(u => removeUpload(u.id));
+        else removeUpload(row.id);
+    };
+
+    const retryRow = (row: QueueRow) => {
+        if (row.batchItems) row.batchItems.filter(u => u.status === 'failed' && !u.resumable).forEach(u => retryUpload(u.id));
+        else retryUpload(row.id);
+    };
+
+    const pickResumeFile = (id: string) => {
+        setResumeTargetId(id);
+        resumeInputRef.current?.click();
+    };
+
+    const handleResumeFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file && resumeTargetId) resumeUpload(resumeTargetId, file);
+        setResumeTargetId(null);
+        e.target.value = '';
     };
 
     return (
         // Full screen container for drag constraints (pointer-events-none allows clicking through)
         <div ref={constraintsRef} className="fixed inset-0 pointer-events-none z-50 flex items-end justify-end p-3 sm:p-6 pb-[calc(env(safe-area-inset-bottom)+0.75rem)] sm:pb-6">
+            <input ref={resumeInputRef} type="file" className="hidden" onChange={handleResumeFileSelected} />
             <motion.div
                 drag
                 dragConstraints={constraintsRef}
@@ -139,11 +209,33 @@ export const UploadProgress = () => {
                                                         <span className="text-xs font-bold text-primary">{Math.round(upload.progress)}%</span>
                                                     )}
                                                 </div>
+                                                {(upload.status === 'uploading' || upload.status === 'queued') && upload.currentFile && (
+                                                    <p className="text-[10px] text-text-muted truncate mt-0.5" title={upload.currentFile}>
+                                                        {upload.currentFile}
+                                                    </p>
+                                                )}
+                                                {upload.status === 'completed' && upload.skippedFiles && upload.skippedFiles.length > 0 && (
+                                                    <div className="mt-1 text-xs text-amber-600 font-medium bg-amber-500/10 p-1 rounded px-2">
+                                                        <p>Skipped {upload.skippedFiles.length} {upload.skippedFiles.length === 1 ? 'file' : 'files'} that couldn't be decrypted (listed in SKIPPED_FILES.txt):</p>
+                                                        <ul className="mt-0.5 max-h-20 overflow-y-auto custom-scrollbar">
+                                                            {upload.skippedFiles.map(path => (
+                                                                <li key={path} className="truncate" title={path}>{path}</li>
+                                                            ))}
+                                                        </ul>
+                                                    </div>
+                                                )}
                                                 {upload.status === 'failed' && upload.error && (
                                                     <div className="mt-1">
                                                         <p className="text-xs text-red-500 font-medium bg-red-500/10 p-1 rounded px-2 inline-block">
                                                             {upload.error}
                                                         </p>
+                                                        {upload.batchItems && (
+                                                            <ul className="mt-0.5 max-h-20 overflow-y-auto custom-scrollbar text-[10px] text-red-500">
+                                                                {upload.batchItems.filter(u => u.status === 'failed').map(u => (
+                                                                    <li key={u.id} className="truncate" title={`${u.filename}: ${u.error}`}>{u.filename}: {u.error}</li>
+                                                                ))}
+                                                            </ul>
+                                                        )}
                                                         {(upload.error.includes('too large') || upload.error.includes('413')) && (
                                                             <button
                                                                 onClick={() => navigate('/pricing')}
@@ -158,9 +250,18 @@ export const UploadProgress = () => {
 
                                             {/* Actions */}
                                             <div className="flex items-center gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity absolute right-2 top-2 bg-white/80 rounded-lg p-1 shadow-sm backdrop-blur-sm">
-                                                {upload.status === 'failed' && (
+                                                {upload.status === 'failed' && upload.resumable && (
+                                                    <button
+                                                        onClick={() => pickResumeFile(upload.id)}
+                                                        className="p-1.5 hover:bg-primary/10 rounded-md text-text-muted hover:text-primary transition-colors"
+                                                        title="Re-select file to resume"
+                                                    >
+                                                        <UploadSimple size={16} weight="bold" />
+                                                    </button>
+                                                )}
+                                                {upload.status === 'failed' && !upload.resumable && (
                                                     <button
-                                                        onClick={() => retryUpload(upload.id)}
+                                                        onClick={() => retryRow(upload)}
                                                         className="p-1.5 hover:bg-primary/10 rounded-md text-text-muted hover:text-primary transition-colors"
                                                         title="Retry"
                                                     >
@@ -168,7 +269,7 @@ export const UploadProgress = () => {
                                                     </button>
                                                 )}
                                                 <button
-                                                    onClick={() => removeUpload(upload.id)}
+                                                    onClick={() => removeRow(upload)}
                                                     className="p-1.5 hover:bg-red-500/10 rounded-md text-text-muted hover:text-red-500 transition-colors"
                                                     title={upload.type === 'download' ? "Remove Download" : "Remove Upload"}
                                                 >
@@ -183,7 +284,7 @@ export const UploadProgress = () => {
                             {completedCount > 0 && (
                                 <div className="p-2 bg-white/10 text-center border-t border-white/20 backdrop-blur-md">
                                     <button
-                                        onClick={() => uploads.forEach(u => u.status === 'completed' && removeUpload(u.id))}
+                                        onClick={() => uploads.forEach(u => u.status === 'completed' && removeRow(u))}
                                         className="text-xs font-medium text-primary hover:text-secondary transition-colors"
                                     >
                                         Clear {completedCount} completed
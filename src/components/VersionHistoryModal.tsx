@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './Modal';
+import { filesAPI, type FileVersion } from '../api/files';
+import { formatBytes } from '../utils/fileFormat';
+import { DownloadSimple, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { useToast } from '../contexts/ToastContext';
+
+interface VersionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    fileId: number;
+    fileName: string;
+    onDownloadVersion: (version: FileVersion) => void;
+    onRestored: () => void;
+}
+
+function formatDateTime(dateString: string | null | undefined): string {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleString('en-US', {
+        month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit'
+    });
+}
+
+export const VersionHistoryModal = ({
+    isOpen,
+    onClose,
+    fileId,
+    fileName,
+    onDownloadVersion,
+    onRestored,
+}: VersionHistoryModalProps) => {
+    const { showToast } = useToast();
+    const [versions, setVersions] = useState<FileVersion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [restoring, setRestoring] = useState<number | null>(null);
+    const [loadError, setLoadError] = useState(false);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setLoading(true);
+        setLoadError(false);
+        filesAPI.getVersions(fileId)
+            .then(res => { if (!cancelled) setVersions(res.versions || []); })
+            .catch(error => {
+                console.error('Failed to load versions:', error);
+                if (!cancelled) setLoadError(true);
+            })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, fileId, reloadKey]);
+
+    const handleRestore = async (version: number) => {
+        setRestoring(version);
+        try {
+            await filesAPI.restoreVersion(fileId, version);
+            showToast(`Restored version ${version}`, 'success');
+            setReloadKey(k => k + 1);
+            onRestored();
+        } catch (error: any) {
+            console.error('Restore failed:', error);
+            showToast(error.response?.data?.error || 'Failed to restore version', 'error');
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Version History" maxWidth="max-w-lg">
+            <div className="space-y-4">
+                <p className="text-sm text-text-muted truncate">{fileName}</p>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-8">
+                        <div className="w-8 h-8 border-2 border-accent-primary border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : loadError ? (
+                    <p className="text-sm text-error text-center py-4">
+                        Failed to load version history.
+                    </p>
+                ) : versions.length <= 1 ? (
+                    <p className="text-sm text-text-muted text-center py-4">
+                        No previous versions. Upload a file with the same name to this folder to create one.
+                    </p>
+                ) : (
+                    <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-border">
+                        {versions.map(v => (
+                            <div key={v.version} className="flex items-center gap-3 py-2.5">
+                                <div className="flex flex-col min-w-0 flex-1">
+                                    <span className="text-sm font-medium text-text-main">
+                                        Version {v.version}
+                                        {v.is_current && (
+                                            <span className="ml-2 px-1.5 py-0.5 rounded-md bg-primary/10 text-primary text-[10px] font-bold uppercase">Current</span>
+                                        )}
+                                    </span>
+                                    <span className="text-xs text-text-muted">
+                                        {formatDateTime(v.created_at)} · {formatBytes(v.file_size)}
+                                    </span>
+                                </div>
+                                <button
+                                    onClick={() => onDownloadVersion(v)}
+                                    className="p-1.5 hover:bg-card-hover rounded-md text-primary transition-colors"
+                                    title="Download this version"
+                                >
+                                    <DownloadSimple size={16} weight="bold" />
+                                </button>
+                                {!v.is_current && (
+                                    <button
+                                        onClick={() => handleRestore(v.version)}
+                                        disabled={restoring !== null}
+                                        className="p-1.5 hover:bg-card-hover rounded-md text-primary transition-colors disabled:opacity-50"
+                                        title="Restore this version"
+                                    >
+                                        <ArrowCounterClockwise size={16} weight="bold" className={restoring === v.version ? 'animate-spin' : ''} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowRight, ArrowsLeftRight, Pause, Play } from '@phosphor-icons/react';
+import API_BASE_URL from '../../config/api';
+import { useToast } from '../../contexts/ToastContext';
+
+interface StorageMigration {
+    id: number;
+    source_provider: string;
+    target_provider: string;
+    status: 'running' | 'paused' | 'completed' | 'failed';
+    total_files: number;
+    processed_files: number;
+    migrated_files: number;
+    failed_files: number;
+    bytes_moved: number;
+    last_error: string | null;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+}
+
+const PROVIDERS = ['jackal', 'obsideo', 's3', 'local'];
+
+const STATUS_STYLES: Record<StorageMigration['status'], string> = {
+    running: 'bg-primary/10 text-primary border-primary/20',
+    paused: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+    completed: 'bg-success/10 text-success border-success/20',
+    failed: 'bg-error/10 text-error border-error/20',
+};
+
+const formatBytes = (bytes: number) => {
+    if (!bytes) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const request = async (path: string, method = 'GET', body?: object) => {
+    const token = localStorage.getItem('nest_token');
+    const res = await fetch(`${API_BASE_URL}/admin/migrations${path}`, {
+        method,
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            ...(body ? { 'Content-Type': 'application/json' } : {})
+        },
+        body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+};
+
+export const StorageMigrationsPanel = () => {
+    const { showToast } = useToast();
+    const [migrations, setMigrations] = useState<StorageMigration[]>([]);
+    const [source, setSource] = useState('jackal');
+    const [target, setTarget] = useState('obsideo');
+    const [submitting, setSubmitting] = useState(false);
+
+    const fetchMigrations = useCallback(async () => {
+        try {
+            const data = await request('');
+            if (Array.isArray(data.migrations)) setMigrations(data.migrations);
+        } catch (e) { console.error(e); }
+    }, []);
+
+    const hasActive = migrations.some(m => m.status === 'running');
+
+    useEffect(() => {
+        fetchMigrations();
+    }, [fetchMigrations]);
+
+    // Live progress while a migration is running
+    useEffect(() => {
+        if (!hasActive) return;
+        const interval = setInterval(fetchMigrations, 3000);
+        return () => clearInterval(interval);
+    }, [hasActive, fetchMigrations]);
+
+    const handleStart = async () => {
+        if (!confirm(`Move every file from ${source} to ${target}? Source copies are deleted once each file is verified on ${target}.`)) return;
+        setSubmitting(true);
+        try {
+            await request('', 'POST', { source_provider: source, target_provider: target });
+            showToast('Migration started', 'success');
+            await fetchMigrations();
+        } catch (err: any) {
+            showToast(err.message, 'error');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleToggle = async (migration: StorageMigration) => {
+        const action = migration.status === 'running' ? 'pause' : 'resume';
+        try {
+            await request(`/${migration.id}/${action}`, 'POST');
+            showToast(action === 'pause' ? 'Migration will pause after the current file' : 'Migration resumed', 'success');
+            await fetchMigrations();
+        } catch (err: any) {
+            showToast(err.message, 'error');
+        }
+    };
+
+    const hasOpen = migrations.some(m => m.status === 'running' || m.status === 'paused');
+
+    return (
+        <div className="space-y-6">
+            <div className="glass-panel p-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <ArrowsLeftRight size={24} className="text-primary" />
+                    <div>
+                        <h2 className="text-lg font-bold">Storage Migrations</h2>
+                        <p className="text-sm text-text-muted">Move files and chunks between storage providers in the background. Each object is verified on the target before its source copy is deleted.</p>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={source}
+                        onChange={(e) => setSource(e.target.value)}
+                        className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm"
+                    >
+                        {PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <ArrowRight size={16} className="text-text-muted" />
+                    <select
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value)}
+                        className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm"
+                    >
+                        {PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <button
+                        onClick={handleStart}
+                        disabled={submitting || hasOpen || source === target}
+                        className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-bold hover:bg-primary/80 transition-colors disabled:opacity-50"
+                    >
+                        {submitting ? 'Starting...' : 'Start Migration'}
+                    </button>
+                    {hasOpen && <span className="text-xs text-text-muted">Finish or resume the open migration first.</span>}
+                </div>
+            </div>
+
+            <div className="glass-panel overflow-hidden">
+                {migrations.length === 0 ? (
+                    <div className="p-8 sm:p-16 text-center text-text-muted">No migrations yet.</div>
+                ) : (
+                    <div className="divide-y divide-white/5">
+                        {migrations.map(m => {
+                            const percent = m.total_files > 0 ? Math.min(100, Math.round((m.processed_files / m.total_files) * 100)) : 100;
+                            return (
+                                <div key={m.id} className="p-6 space-y-3">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="flex items-center gap-2 text-sm font-bold">
+                                            <span className="font-mono text-text-muted">#{m.id}</span>
+                                            <span>{m.source_provider}</span>
+                                            <ArrowRight size={14} className="text-text-muted" />
+                                            <span>{m.target_provider}</span>
+                                            <span className={`inline-flex px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[m.status]}`}>
+                                                {m.status}
+                                            </span>
+                                        </div>
+                                        {(m.status === 'running' || m.status === 'paused') && (
+                                            <button
+                                                onClick={() => handleToggle(m)}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 bg-primary/10 hover:bg-primary/20 text-primary border border-primary/20 rounded-lg text-xs font-bold transition-colors"
+                                            >
+                                                {m.status === 'running' ? <Pause size={14} weight="bold" /> : <Play size={14} weight="bold" />}
+                                                {m.status === 'running' ? 'Pause' : 'Resume'}
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                                        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-text-muted font-mono">
+                                        <span>{m.processed_files}/{m.total_files} processed ({percent}%)</span>
+                                        <span className="text-success">{m.migrated_files} moved</span>
+                                        <span className={m.failed_files > 0 ? 'text-error' : ''}>{m.failed_files} failed</span>
+                                        <span>{formatBytes(m.bytes_moved)}</span>
+                                        <span>started {new Date(m.created_at).toLocaleString()}</span>
+                                        {m.completed_at && <span>finished {new Date(m.completed_at).toLocaleString()}</span>}
+                                    </div>
+
+                                    {m.last_error && (
+                                        <p className="text-xs text-error break-all">Last error: {m.last_error}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
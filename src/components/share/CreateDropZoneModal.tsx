@@ -8,6 +8,19 @@ import { Modal } from '../Modal';
 import api from '../../lib/api';
 import clsx from 'clsx';
 import QRCode from 'react-qr-code';
+import { DROP_ZONE_TYPE_CATEGORIES, type DropZoneTypeCategory } from '../../utils/dropZoneTypes';
+import { UPLOADER_FIELD_KEYS, UPLOADER_FIELD_LABELS, type UploaderField, type UploaderFields } from '../../utils/dropZoneUploader';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Blank means unlimited
+const toLimit = (value: string, unit = 1) => {
+    const n = Number(value);
+    return value.trim() && n > 0 ? Math.round(n * unit) : null;
+};
+
+const inputClass = "w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50";
 
 export interface ShareItem {
     id: number;
@@ -49,6 +62,13 @@ export const CreateDropZoneModal = ({ isOpen, onClose, createZKFolder, onSuccess
     const [expiry, setExpiry] = useState<string>('never');
     const [customSlug, setCustomSlug] = useState('');
     const [slugAvailable, setSlugAvailable] = useState<boolean | null>(null);
+    const [maxFileSizeMb, setMaxFileSizeMb] = useState('');
+    const [maxTotalGb, setMaxTotalGb] = useState('');
+    const [maxFiles, setMaxFiles] = useState('');
+    const [closeAfter, setCloseAfter] = useState('');
+    const [allowedCategories, setAllowedCategories] = useState<DropZoneTypeCategory[]>([]);
+    const [extraExtensions, setExtraExtensions] = useState('');
+    const [uploaderFields, setUploaderFields] = useState<UploaderFields>({});
     const [submitting, setSubmitting] = useState(false);
     
     // Result state
@@ -64,6 +84,13 @@ export const CreateDropZoneModal = ({ isOpen, onClose, createZKFolder, onSuccess
             setExpiry('never');
             setCustomSlug('');
             setSlugAvailable(null);
+            setMaxFileSizeMb('');
+            setMaxTotalGb('');
+            setMaxFiles('');
+            setCloseAfter('');
+            setAllowedCategories([]);
+            setExtraExtensions('');
+            setUploaderFields({});
             setResultUrl('');
         }
     }, [isOpen]);
@@ -86,6 +113,19 @@ export const CreateDropZoneModal = ({ isOpen, onClose, createZKFolder, onSuccess
         return () => clearTimeout(timer);
     }, [customSlug]);
 
+    const toggleCategory = (category: DropZoneTypeCategory) => {
+        setAllowedCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+    };
+
+    const setUploaderField = (field: UploaderField, mode: string) => {
+        setUploaderFields(prev => {
+            const next = { ...prev };
+            if (mode === 'required' || mode === 'optional') next[field] = mode;
+            else delete next[field];
+            return next;
+        });
+    };
+
     const handleCreate = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!name.trim()) return showToast('Please enter a name', 'warning');
@@ -121,6 +161,17 @@ export const CreateDropZoneModal = ({ isOpen, onClose, createZKFolder, onSuccess
                 upload_notifications: uploadNotifications,
                 expires_at: expiresAt,
                 custom_slug: customSlug ? customSlug.trim() : undefined,
+                max_file_size_bytes: toLimit(maxFileSizeMb, MB),
+                max_total_bytes: toLimit(maxTotalGb, GB),
+                max_files: toLimit(maxFiles),
+                close_after_uploads: toLimit(closeAfter),
+                allowed_types: [
+                    ...allowedCategories,
+                    ...extraExtensions.split(',')
+                        .map(ext => ext.trim().toLowerCase().replace(/^\.?/, '.'))
+                        .filter(ext => /^\.[a-z0-9]{1,16}$/.test(ext))
+                ],
+                uploader_fields: Object.keys(uploaderFields).length ? uploaderFields : null,
                 drop_public_key: toBase64(keyPair.publicKey),
                 encrypted_drop_private_key: toBase64(encryptedPrivate.encrypted),
                 drop_private_key_nonce: toBase64(encryptedPrivate.nonce)
@@ -216,6 +267,82 @@ export const CreateDropZoneModal = ({ isOpen, onClose, createZKFolder, onSuccess
                         </div>
                     </div>
 
+                    <div className="border border-border/40 rounded-xl p-3 bg-black/5 flex flex-col gap-3">
+                        <div>
+                            <span className="text-sm font-semibold text-text-main block">Upload Limits</span>
+                            <span className="text-xs text-text-muted">Leave blank for no limit</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Max File Size (MB)</label>
+                                <input type="number" min="1" placeholder="Any" value={maxFileSizeMb} onChange={(e) => setMaxFileSizeMb(e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Zone Budget (GB)</label>
+                                <input type="number" min="0.1" step="0.1" placeholder="Host quota" value={maxTotalGb} onChange={(e) => setMaxTotalGb(e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Max Files</label>
+                                <input type="number" min="1" placeholder="Any" value={maxFiles} onChange={(e) => setMaxFiles(e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Close After N Uploads</label>
+                                <input type="number" min="1" placeholder="Stay open" value={closeAfter} onChange={(e) => setCloseAfter(e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-text-muted block mb-1">Allowed File Types</label>
+                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                {(Object.keys(DROP_ZONE_TYPE_CATEGORIES) as DropZoneTypeCategory[]).map(category => (
+                                    <button
+                                        key={category}
+                                        type="button"
+                                        onClick={() => toggleCategory(category)}
+                                        className={clsx(
+                                            "px-2.5 py-1 rounded-lg text-xs font-semibold border transition-colors",
+                                            allowedCategories.includes(category)
+                                                ? "bg-primary/10 border-primary/40 text-primary"
+                                                : "border-border/40 text-text-muted hover:text-text-main"
+                                        )}
+                                    >
+                                        {DROP_ZONE_TYPE_CATEGORIES[category].label}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                type="text"
+                                placeholder="Other extensions, e.g. .psd, .sketch"
+                                value={extraExtensions}
+                                onChange={(e) => setExtraExtensions(e.target.value)}
+                                className={inputClass}
+                            />
+                            <span className="text-[10px] text-text-muted">Nothing selected accepts any type. Checked in the guest's browser before encryption.</span>
+                        </div>
+                    </div>
+
+                    <div className="border border-border/40 rounded-xl p-3 bg-black/5 flex flex-col gap-3">
+                        <div>
+                            <span className="text-sm font-semibold text-text-main block">Uploader Details</span>
+                            <span className="text-xs text-text-muted">Ask guests who they are. Answers are encrypted for you only.</span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            {UPLOADER_FIELD_KEYS.map(field => (
+                                <div key={field}>
+                                    <label className="text-xs font-bold text-text-muted block mb-1">{UPLOADER_FIELD_LABELS[field]}</label>
+                                    <select
+                                        value={uploaderFields[field] ?? ''}
+                                        onChange={(e) => setUploaderField(field, e.target.value)}
+                                        className={inputClass}
+                                    >
+                                        <option value="">Don't ask</option>
+                                        <option value="optional">Optional</option>
+                                        <option value="required">Required</option>
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
                     <div>
                         <div className="flex justify-between items-center mb-1">
                             <label className="text-xs font-bold text-text-muted">Custom Link Name (Optional)</label>
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, Lock, Plus, Trash } from '@phosphor-icons/react';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRefresh } from '../../contexts/RefreshContext';
+import { filesAPI, type FileShareLink } from '../../api/files';
+import { deriveStandardLinkUrl } from '../../utils/shareUrl';
+import clsx from 'clsx';
+
+// ============================================================================
+// COMPONENT: ALL LINKS FOR ONE FILE (shown in the standard link settings)
+// ============================================================================
+interface FileShareLinksPanelProps {
+    fileId: number;
+    /** Link whose settings are open; it is marked and can't be revoked from here */
+    currentLinkId: number;
+}
+export const FileShareLinksPanel = ({ fileId, currentLinkId }: FileShareLinksPanelProps) => {
+    const { showToast } = useToast();
+    const { masterKey, metadata } = useAuth();
+    const { triggerFileRefresh } = useRefresh();
+
+    const [links, setLinks] = useState<FileShareLink[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [newLabel, setNewLabel] = useState('');
+    const [creating, setCreating] = useState(false);
+    const [confirmRevokeId, setConfirmRevokeId] = useState<number | null>(null);
+
+    const loadLinks = useCallback(async () => {
+        try {
+            const res = await filesAPI.listShares(fileId);
+            setLinks(res.links || []);
+        } catch (error) {
+            console.error('Failed to load file links:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [fileId]);
+
+    useEffect(() => {
+        setLoading(true);
+        setConfirmRevokeId(null);
+        loadLinks();
+    }, [loadLinks]);
+
+    const copyLink = async (link: { id: number; token: string; custom_slug: string | null }) => {
+        try {
+            const url = await deriveStandardLinkUrl({ ...link, file_id: fileId }, masterKey, metadata);
+            await navigator.clipboard.writeText(url);
+            showToast('Link copied!', 'success');
+        } catch (error) {
+            console.error('Failed to copy file link:', error);
+            showToast('Failed to build the link', 'error');
+        }
+    };
+
+    const handleCreate = async () => {
+        setCreating(true);
+        try {
+            const res = await filesAPI.createShare(fileId, { label: newLabel.trim() || null });
+            setNewLabel('');
+            await copyLink({ id: res.share_id, token: res.share_token, custom_slug: null });
+            await loadLinks();
+            triggerFileRefresh();
+        } catch (error: any) {
+            console.error('Failed to create file link:', error);
+            showToast(error.response?.data?.error || 'Failed to create link', 'error');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (linkId: number) => {
+        try {
+            await filesAPI.revokeShare(fileId, linkId);
+            setConfirmRevokeId(null);
+            setLinks(prev => prev.filter(l => l.id !== linkId));
+            showToast('Link revoked. Other links keep working.', 'success');
+            triggerFileRefresh();
+        } catch (error) {
+            console.error('Failed to revoke file link:', error);
+            showToast('Failed to revoke link', 'error');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2 border-t border-border/40 pt-4">
+            <div>
+                <label className="text-xs font-bold text-text-muted block">All Links for This File</label>
+                <span className="text-[11px] text-text-muted">Each link has its own password, expiry and download limit. Revoking one leaves the others working.</span>
+            </div>
+
+            <div className="border border-border/40 rounded-xl bg-black/5 divide-y divide-border/30 max-h-48 overflow-y-auto custom-scrollbar">
+                {loading ? (
+                    <div className="h-16 flex items-center justify-center">
+                        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : links.map(link => {
+                    const isCurrent = link.id === currentLinkId;
+                    return (
+                        <div key={link.id} className={clsx("flex items-center gap-2 px-3 py-2", isCurrent && "bg-primary/5")}>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-1.5 text-xs font-semibold text-text-main truncate">
+                                    {link.has_password && <Lock size={12} className="text-text-muted flex-shrink-0" />}
+                                    <span className="truncate">{link.label || (link.custom_slug ? `/${link.custom_slug}` : `Link created ${new Date(link.created_at).toLocaleDateString()}`)}</span>
+                                    {isCurrent && <span className="text-[10px] text-primary font-bold flex-shrink-0">(this link)</span>}
+                                </div>
+                                <div className="text-[10px] text-text-muted">
+                                    {link.download_count}{link.max_downloads ? `/${link.max_downloads}` : ''} downloads
+                                    {link.expires_at && ` · expires ${new Date(link.expires_at).toLocaleDateString()}`}
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => copyLink(link)}
+                                className="p-1.5 text-text-muted hover:text-primary transition-colors"
+                                title="Copy link"
+                            >
+                                <Copy size={14} />
+                            </button>
+                            {!isCurrent && (
+                                confirmRevokeId === link.id ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRevoke(link.id)}
+                                        className="px-2 py-1 bg-error text-white rounded-lg text-[10px] font-bold hover:bg-error/80 transition-colors"
+                                    >
+                                        Revoke?
+                                    </button>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => setConfirmRevokeId(link.id)}
+                                        className="p-1.5 text-text-muted hover:text-error transition-colors"
+                                        title="Revoke this link only"
+                                    >
+                                        <Trash size={14} />
+                                    </button>
+                                )
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    placeholder="Label for a new link (e.g. recipient)"
+                    maxLength={100}
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    className="flex-1 bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                />
+                <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={creating}
+                    className="px-3 py-2 bg-primary text-white rounded-xl text-xs font-bold hover:bg-primary/80 transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                    <Plus size={14} weight="bold" />
+                    {creating ? 'Creating...' : 'New Link'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, Copy } from '@phosphor-icons/react';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { Modal } from '../Modal';
+import { foldersAPI, type FolderShareEntry } from '../../api/folders';
+import { buildFolderLinkUrl } from '../../utils/shareUrl';
+
+// ============================================================================
+// COMPONENT: SHARE FOLDER MODAL (read-only folder link)
+// ============================================================================
+interface ShareFolderProps {
+    isOpen: boolean;
+    onClose: () => void;
+    folderId: number;
+    folderName: string;
+}
+export const ShareFolderModal = ({ isOpen, onClose, folderId, folderName }: ShareFolderProps) => {
+    const { showToast } = useToast();
+    const { masterKey, metadata } = useAuth();
+
+    const [step, setStep] = useState(1);
+    const [submitting, setSubmitting] = useState(false);
+    const [requirePassword, setRequirePassword] = useState(false);
+    const [password, setPassword] = useState('');
+    const [expiresAt, setExpiresAt] = useState('');
+    const [maxDownloads, setMaxDownloads] = useState('');
+    const [resultUrl, setResultUrl] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setStep(1);
+            setRequirePassword(false);
+            setPassword('');
+            setExpiresAt('');
+            setMaxDownloads('');
+            setResultUrl('');
+        }
+    }, [isOpen, folderId]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+
+        try {
+            if (!masterKey) throw new Error('Master key missing');
+
+            const {
+                init, generateLinkKey, decryptFolderKey, encryptFolderKey, decryptFileKey, encryptFileKey,
+                encryptWithMasterKey, toBase64, fromBase64
+            } = await import('@lazybird-inc/nest-crypto');
+            await init();
+
+            // 1. Unwrap every folder key in the subtree with the master key
+            const tree = await foldersAPI.getShareTree(folderId);
+            const folderKeys = new Map<number, Uint8Array>();
+            tree.folders.forEach(f => {
+                folderKeys.set(f.id, decryptFolderKey(fromBase64(f.folder_key_encrypted), fromBase64(f.folder_key_nonce), masterKey));
+            });
+            const rootKey = folderKeys.get(folderId);
+            if (!rootKey) throw new Error('Folder key unavailable');
+
+            // 2. The link key only ever lives in the URL fragment; the server gets it wrapped
+            //    for the owner so the link can be copied again from Shared Links.
+            const linkKey = generateLinkKey();
+            const wrappedFolderKey = encryptFolderKey(rootKey, linkKey);
+            const hostLinkKey = encryptWithMasterKey(linkKey, masterKey);
+
+            // Names and MIME types are sealed with the shared folder key
+            const seal = (value: object): string => {
+                const { encrypted, nonce } = encryptWithMasterKey(JSON.stringify(value), rootKey);
+                return JSON.stringify({ encrypted: toBase64(encrypted), nonce: toBase64(nonce) });
+            };
+
+            // 3. Subfolders keep their place in the tree; descendant file keys are re-wrapped
+            //    under the shared folder key (files directly inside it already are)
+            const entries: FolderShareEntry[] = [];
+            tree.folders
+                .filter(f => f.id !== folderId && f.parent_id !== null)
+                .forEach(f => entries.push({
+                    type: 'folder',
+                    id: f.id,
+                    parentId: f.parent_id!,
+                    encryptedMeta: seal({ name: metadata?.folders[f.id.toString()]?.name || `Folder ${f.id}` })
+                }));
+
+            tree.files.forEach(f => {
+                const parentKey = folderKeys.get(f.folder_id);
+                if (!parentKey) return;
+                try {
+                    let fileKeyEncrypted = f.file_key_encrypted;
+                    let fileKeyNonce = f.file_key_nonce;
+                    if (f.folder_id !== folderId) {
+                        const fileKey = decryptFileKey(fromBase64(f.file_key_encrypted), fromBase64(f.file_key_nonce), parentKey);
+                        const rewrapped = encryptFileKey(fileKey, rootKey);
+                        fileKeyEncrypted = toBase64(rewrapped.encrypted);
+                        fileKeyNonce = toBase64(rewrapped.nonce);
+                    }
+                    const meta = metadata?.files[f.id.toString()];
+                    entries.push({
+                        type: 'file',
+                        id: f.id,
+                        parentId: f.folder_id,
+                        fileKeyEncrypted,
+                        fileKeyNonce,
+                        encryptedMeta: seal({
+                            name: meta?.filename || `File ${f.id}`,
+                            mime_type: meta?.mime_type || 'application/octet-stream'
+                        })
+                    });
+                } catch (err) {
+                    console.warn(`[ShareFolder] Skipping file ${f.id}: key could not be re-wrapped`, err);
+                }
+            });
+
+            const response = await foldersAPI.createShare(folderId, {
+                folderKeyEncrypted: toBase64(wrappedFolderKey.encrypted),
+                folderKeyNonce: toBase64(wrappedFolderKey.nonce),
+                hostLinkKeyEncrypted: toBase64(hostLinkKey.encrypted),
+                hostLinkKeyNonce: toBase64(hostLinkKey.nonce),
+                encryptedName: seal({ name: folderName }),
+                password: requirePassword && password ? password : undefined,
+                max_downloads: maxDownloads ? parseInt(maxDownloads) : null,
+                expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+                entries
+            });
+
+            setResultUrl(buildFolderLinkUrl(response.share_token, toBase64(linkKey)));
+            setStep(2);
+            showToast('Folder link created!', 'success');
+        } catch (error: any) {
+            console.error('Create folder link failed:', error);
+            showToast(error.response?.data?.error || 'Failed to create folder link', 'error');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(resultUrl);
+        showToast('Folder link copied!', 'success');
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Share Folder">
+            {step === 1 ? (
+                <form onSubmit={handleCreate} className="flex flex-col gap-4">
+                    <p className="text-sm text-text-muted truncate">{folderName}</p>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-xs font-bold text-text-muted block mb-1">Expiry Date / Time</label>
+                            <input
+                                type="datetime-local"
+                                value={expiresAt}
+                                onChange={(e) => setExpiresAt(e.target.value)}
+                                className="w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-text-muted block mb-1">Max Downloads</label>
+                            <input
+                                type="number"
+                                min={1}
+                                placeholder="Unlimited"
+                                value={maxDownloads}
+                                onChange={(e) => setMaxDownloads(e.target.value)}
+                                className="w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="border border-border/40 rounded-xl p-3 bg-black/5 flex items-center justify-between">
+                        <div>
+                            <span className="text-sm font-semibold text-text-main block">Password Protection</span>
+                            <span className="text-xs text-text-muted">Require a password before browsing</span>
+                        </div>
+                        <input
+                            type="checkbox"
+                            checked={requirePassword}
+                            onChange={(e) => setRequirePassword(e.target.checked)}
+                            className="w-4 h-4 rounded text-primary focus:ring-primary/40 cursor-pointer"
+                        />
+                    </div>
+
+                    {requirePassword && (
+                        <div className="animate-in slide-in-from-top-2 duration-200">
+                            <label className="text-xs font-bold text-text-muted block mb-1">Password</label>
+                            <input
+                                type="password"
+                                placeholder="Enter secure password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                                required
+                            />
+                        </div>
+                    )}
+
+                    <p className="text-[11px] text-text-muted leading-snug">
+                        Files inside the folder right now are included. Files added later are not; create a new link to share them.
+                    </p>
+
+                    <div className="flex justify-end gap-3 mt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 border border-border text-text-main rounded-xl hover:bg-card transition-colors text-sm font-semibold"
+                            disabled={submitting}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="px-4 py-2 bg-primary text-white rounded-xl hover:bg-primary/80 transition-colors text-sm font-semibold"
+                            disabled={submitting}
+                        >
+                            {submitting ? 'Encrypting...' : 'Create Link'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <div className="flex flex-col items-center gap-4 text-center">
+                    <CheckCircle size={48} className="text-emerald-500" weight="fill" />
+                    <div>
+                        <h3 className="font-bold text-text-main text-lg">Folder Link Created!</h3>
+                        <p className="text-xs text-text-muted mt-1 leading-normal max-w-sm">
+                            Anyone with this link can browse and download the folder's files. The decryption key is in the link itself and never reaches our servers.
+                        </p>
+                    </div>
+
+                    <div className="w-full bg-black/5 border border-border/40 rounded-xl p-3 flex flex-col items-center gap-2">
+                        <span className="text-[10px] font-bold text-text-muted uppercase">Folder Link</span>
+                        <div className="flex w-full gap-2">
+                            <input
+                                type="text"
+                                readOnly
+                                value={resultUrl}
+                                className="flex-1 bg-white/60 border border-white/40 rounded-lg px-2.5 py-1.5 text-xs text-text-main focus:outline-none"
+                            />
+                            <button
+                                onClick={handleCopy}
+                                className="bg-primary hover:bg-primary/80 text-white rounded-lg p-2 text-xs flex items-center justify-center transition-colors"
+                            >
+                                <Copy size={16} />
+                            </button>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={onClose}
+                        className="w-full mt-2 bg-slate-900 text-white rounded-xl py-2.5 text-sm font-semibold hover:bg-slate-800 transition-colors"
+                    >
+                        Done
+                    </button>
+                </div>
+            )}
+        </Modal>
+    );
+};
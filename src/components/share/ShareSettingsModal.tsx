@@ -6,14 +6,18 @@ import { useToast } from '../../contexts/ToastContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { Modal } from '../Modal';
 import api from '../../lib/api';
+import { filesAPI } from '../../api/files';
 import { deriveStandardLinkUrl } from '../../utils/shareUrl';
+import { FileShareLinksPanel } from './FileShareLinksPanel';
 import clsx from 'clsx';
 import QRCode from 'react-qr-code';
 import nestLogo from '../../assets/nest-logo.png';
+import { COLLAB_ROLES, COLLAB_ROLE_LABELS, COLLAB_ROLE_DESCRIPTIONS, DEFAULT_COLLAB_ROLE, type CollabGuestRole } from '../../utils/collabRoles';
+import { hasPendingRotation, rotateCollabKey, type RotationProgress } from '../../utils/collabKeyRotation';
 
 export interface ShareItem {
     id: number;
-    type: 'standard_link' | 'drop_zone' | 'collab_folder';
+    type: 'standard_link' | 'drop_zone' | 'collab_folder' | 'folder_link';
     token: string;
     name?: string;
     custom_slug: string | null;
@@ -28,7 +32,12 @@ export interface ShareItem {
     status: string;
     created_at: string;
     collaborators?: string[];
+    /** Collab folders: role per collaborator email */
+    collaborator_roles?: Record<string, CollabGuestRole>;
     folder_id?: number;
+    /** Standard links: the shared file (`id` is the link itself) */
+    file_id?: number;
+    label?: string | null;
 }
 
 export interface AuditLog {
@@ -62,6 +71,8 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
     const [uploadNotifications, setUploadNotifications] = useState(true);
     const [expiresAt, setExpiresAt] = useState('');
     const [strictMode, setStrictMode] = useState(false);
+    const [label, setLabel] = useState('');
+    const [maxDownloads, setMaxDownloads] = useState('');
     const [expandedQR, setExpandedQR] = useState<{ isOpen: boolean; url: string }>({ isOpen: false, url: '' });
 
     // For standard file links, the decryption key lives ONLY in the URL fragment
@@ -73,6 +84,13 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
     // Emails state (Collab only)
     const [emailInput, setEmailInput] = useState('');
     const [emails, setEmails] = useState<string[]>([]);
+    const [roles, setRoles] = useState<Record<string, CollabGuestRole>>({});
+
+    // Collab key rotation. The modal stays open after a rotation so the host can copy the new
+    // link; closing it then refreshes the list like a normal save.
+    const [rotationPending, setRotationPending] = useState(false);
+    const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
+    const [refreshOnClose, setRefreshOnClose] = useState(false);
 
     // Audit logs state
     const [logs, setLogs] = useState<AuditLog[]>([]);
@@ -86,6 +104,8 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
             setPin('');
             setUploadNotifications(true);
             setStrictMode(share.strict_mode || false);
+            setLabel(share.label || '');
+            setMaxDownloads(share.max_downloads ? String(share.max_downloads) : '');
             
             // Format expiry timestamp for datetime-local input
             if (share.expires_at) {
@@ -97,10 +117,17 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                 setExpiresAt('');
             }
 
+            setRefreshOnClose(false);
+            setRotationPending(false);
             if (share.type === 'collab_folder') {
                 setEmails(share.collaborators || []);
+                setRoles(share.collaborator_roles || {});
+                hasPendingRotation(share.id)
+                    .then(setRotationPending)
+                    .catch(err => console.error('Failed to check key rotation:', err));
             } else {
                 setEmails([]);
+                setRoles({});
             }
         }
     }, [isOpen, share]);
@@ -172,6 +199,34 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
         }
     };
 
+    // Resolves to false on failure; the server keeps the progress, so running it again resumes.
+    const runKeyRotation = async (): Promise<boolean> => {
+        if (!share || share.type !== 'collab_folder' || !masterKey) return false;
+        setRotationProgress({ done: 0, total: 0 });
+        try {
+            setRegeneratedUrl(await rotateCollabKey(share, masterKey, setRotationProgress));
+            setRotationPending(false);
+            setRefreshOnClose(true);
+            return true;
+        } catch (err) {
+            console.error('Collab key rotation failed:', err);
+            setRotationPending(true);
+            return false;
+        } finally {
+            setRotationProgress(null);
+        }
+    };
+
+    const handleRotateKey = async () => {
+        setSubmitting(true);
+        if (await runKeyRotation()) {
+            showToast('Folder key rotated. Send the new link to your collaborators.', 'success');
+        } else {
+            showToast('Key rotation stopped before finishing. Resume it to complete.', 'error');
+        }
+        setSubmitting(false);
+    };
+
     // Open the host's own mail client with the regenerated collab link. The #lk key
     // is reconstructed client-side and never reaches our server — stays zero-knowledge.
     const handleEmailInvite = () => {
@@ -319,10 +374,12 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
             };
 
             if (share.type === 'standard_link') {
-                payload.password = requirePin ? (pin || undefined) : null;
-                // Wait! For files, does the route expect PATCH /files/:id/share?
-                // Let's check files.ts lines 629: router.patch('/:id/share')
-                await api.patch(`/files/${share.id}/share`, payload);
+                await filesAPI.updateShare(share.file_id ?? share.id, share.id, {
+                    ...payload,
+                    label: label.trim() || null,
+                    password: requirePin ? (pin || undefined) : null,
+                    max_downloads: maxDownloads ? parseInt(maxDownloads) : null
+                });
             } else if (share.type === 'drop_zone') {
                 payload.require_pin = requirePin;
                 payload.pin = requirePin ? (pin || undefined) : null;
@@ -339,14 +396,26 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                     finalEmails.push(cleanInput);
                 }
                 payload.emails = finalEmails;
+                payload.roles = Object.fromEntries(finalEmails.map(email => [email, roles[email] ?? DEFAULT_COLLAB_ROLE]));
                 await api.patch(`/collab-folders/${share.id}`, payload);
+
+                // Removed collaborators may still hold the key; replace it before anything new is added
+                if ((share.collaborators || []).some(email => !finalEmails.includes(email))) {
+                    setRefreshOnClose(true);
+                    if (await runKeyRotation()) {
+                        showToast('Collaborators removed and folder key rotated. Send the new link to the remaining collaborators.', 'success');
+                    } else {
+                        showToast('Settings saved, but the key rotation stopped before finishing. Resume it below.', 'error');
+                    }
+                    return;
+                }
             }
 
             showToast('Share link settings updated successfully.', 'success');
             onSuccess();
-        } catch (error) {
+        } catch (error: any) {
             console.error('Update share settings failed:', error);
-            showToast('Failed to update share settings', 'error');
+            showToast(error.response?.data?.error || 'Failed to update share settings', 'error');
         } finally {
             setSubmitting(false);
         }
@@ -388,7 +457,7 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
     return (
         <Modal
             isOpen={isOpen}
-            onClose={onClose}
+            onClose={refreshOnClose ? onSuccess : onClose}
             title={`${share.name || `Folder ${share.id}`} Settings`}
             maxWidth="max-w-xl"
         >
@@ -446,6 +515,34 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                         </div>
                     </div>
 
+                    {/* Per-link label & download cap (standard links) */}
+                    {share.type === 'standard_link' && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Label</label>
+                                <input
+                                    type="text"
+                                    placeholder="e.g. Sent to Acme"
+                                    maxLength={100}
+                                    value={label}
+                                    onChange={(e) => setLabel(e.target.value)}
+                                    className="w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs font-bold text-text-muted block mb-1">Max Downloads</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    placeholder="Unlimited"
+                                    value={maxDownloads}
+                                    onChange={(e) => setMaxDownloads(e.target.value)}
+                                    className="w-full bg-black/5 rounded-xl border border-white/20 px-3 py-2 text-sm text-text-main focus:outline-none focus:border-primary/50"
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {/* PIN / Password Gate */}
                     <div className="border border-border/40 rounded-xl p-3 bg-black/5 flex items-center justify-between">
                         <div>
@@ -515,13 +612,23 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
 
                                 {/* Chips list */}
                                 {emails.length > 0 && (
-                                    <div className="flex flex-wrap gap-1.5 mt-2 bg-black/5 border border-border/40 p-2.5 rounded-xl max-h-24 overflow-y-auto custom-scrollbar">
+                                    <div className="flex flex-col gap-1.5 mt-2 bg-black/5 border border-border/40 p-2.5 rounded-xl max-h-40 overflow-y-auto custom-scrollbar">
                                         {emails.map(email => (
                                             <div
                                                 key={email}
-                                                className="inline-flex items-center gap-1 bg-white/60 border border-white/80 rounded-lg px-2 py-0.5 text-xs text-text-main font-medium shadow-sm"
+                                                className="flex items-center gap-2 bg-white/60 border border-white/80 rounded-lg px-2 py-1 text-xs text-text-main font-medium shadow-sm"
                                             >
-                                                <span>{email}</span>
+                                                <span className="flex-1 truncate">{email}</span>
+                                                <select
+                                                    value={roles[email] ?? DEFAULT_COLLAB_ROLE}
+                                                    onChange={(e) => setRoles({ ...roles, [email]: e.target.value as CollabGuestRole })}
+                                                    title={COLLAB_ROLE_DESCRIPTIONS[roles[email] ?? DEFAULT_COLLAB_ROLE]}
+                                                    className="bg-transparent border border-border/40 rounded-md px-1 py-0.5 text-xs text-text-main focus:outline-none focus:border-primary/50 cursor-pointer"
+                                                >
+                                                    {COLLAB_ROLES.map(role => (
+                                                        <option key={role} value={role}>{COLLAB_ROLE_LABELS[role]}</option>
+                                                    ))}
+                                                </select>
                                                 <button
                                                     type="button"
                                                     onClick={() => handleRemoveEmail(email)}
@@ -535,6 +642,27 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                                 )}
                             </div>
 
+                            <div className="border border-border/40 bg-black/5 rounded-xl p-3 flex flex-col gap-2">
+                                <div>
+                                    <span className="text-sm font-semibold text-text-main block">Rotate Folder Key</span>
+                                    <span className="text-xs text-text-muted mt-1 block">
+                                        {rotationPending
+                                            ? 'A key rotation was interrupted before it finished. Resume it to finish re-encrypting this folder.'
+                                            : 'Re-encrypts this folder with a new key so removed collaborators can no longer read it. This runs automatically when you remove someone. Invited guests need the new link; collaborators who added the folder to their Nest keep access.'}
+                                    </span>
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={handleRotateKey}
+                                    disabled={submitting}
+                                    className="px-3 py-2 bg-primary text-white rounded-xl text-xs font-bold hover:bg-primary/80 transition-colors w-max disabled:opacity-50 mt-2"
+                                >
+                                    {rotationProgress
+                                        ? `Re-encrypting ${rotationProgress.done}/${rotationProgress.total}...`
+                                        : rotationPending ? 'Resume Rotation' : 'Rotate Key'}
+                                </button>
+                            </div>
+
                             <div className="border border-error/20 bg-error/5 rounded-xl p-3 flex flex-col gap-2 mt-2">
                                 <div>
                                     <span className="text-sm font-semibold text-error block">Regenerate Link Key</span>
@@ -603,6 +731,10 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                         </div>
                     )}
 
+                    {share.type === 'standard_link' && share.file_id && (
+                        <FileShareLinksPanel fileId={share.file_id} currentLinkId={share.id} />
+                    )}
+
                     {/* Shareable URL and QR Code */}
                     <div className="flex flex-col sm:flex-row gap-4 border-t border-border/40 pt-4">
                         <div className="flex-1 flex flex-col gap-2">
@@ -666,7 +798,7 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                     <div className="flex justify-end gap-3 mt-4 border-t border-border pt-4">
                         <button
                             type="button"
-                            onClick={onClose}
+                            onClick={refreshOnClose ? onSuccess : onClose}
                             className="px-4 py-2 border border-border text-text-main rounded-xl hover:bg-card transition-colors text-sm font-semibold"
                             disabled={submitting}
                         >
@@ -677,7 +809,7 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                             className="px-4 py-2 bg-primary text-white rounded-xl hover:bg-primary/80 transition-colors text-sm font-semibold"
                             disabled={submitting}
                         >
-                            {submitting ? 'Saving...' : 'Save Settings'}
+                            {rotationProgress ? 'Rotating key...' : submitting ? 'Saving...' : 'Save Settings'}
                         </button>
                     </div>
                 </form>
@@ -740,7 +872,7 @@ export const ShareSettingsModal = ({ isOpen, onClose, share, onSuccess }: Settin
                     <div className="flex justify-end mt-4">
                         <button
                             type="button"
-                            onClick={onClose}
+                            onClick={refreshOnClose ? onSuccess : onClose}
                             className="px-4 py-2 bg-slate-900 text-white rounded-xl hover:bg-slate-800 transition-colors text-sm font-semibold"
                         >
                             Done
@@ -0,0 +1,16 @@
+// Chunked upload tuning. Each in-flight chunk holds its plaintext and ciphertext in
+// memory (~256MB at the default chunk size), so parallelism is also capped by device memory.
+export const CHUNK_THRESHOLD = 128 * 1024 * 1024; // 128MB (Mobile-safe)
+export const CHUNK_SIZE = 128 * 1024 * 1024;      // 128MB
+
+// Files are processed one at a time; the parallelism happens at the chunk level
+export const MAX_CONCURRENT_UPLOADS = Number(import.meta.env.VITE_MAX_CONCURRENT_UPLOADS) || 1;
+
+const deviceMemoryGB = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+
+export const MAX_PARALLEL_CHUNKS = Math.max(1, Math.min(
+    Number(import.meta.env.VITE_MAX_PARALLEL_CHUNKS) || 4,
+    deviceMemoryGB ? Math.floor(deviceMemoryGB / 2) : Infinity
+));
+
+export const INITIAL_PARALLEL_CHUNKS = Math.min(2, MAX_PARALLEL_CHUNKS);
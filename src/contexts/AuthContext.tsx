@@ -1,8 +1,21 @@
 import { createContext, useContext, useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import { authAPI } from '../api/auth';
-import type { LoginCredentials, SignupCredentials } from '../api/auth';
+import type { LoginCredentials, SignupCredentials, AuthResponse, TwoFactorAnswer } from '../api/auth';
 import type { MetadataBlob } from '@lazybird-inc/nest-crypto';
+import { mergeMetadata, stampDeletions } from '../utils/metadataMerge';
+import { toRecords, diffRecords, encryptRecords, applyChanges, applyRecordDiff } from '../utils/metadataRecords';
+
+// How many times a save re-merges after losing the version race before giving up
+const MAX_METADATA_MERGE_ATTEMPTS = 5;
+
+// user_crypto.metadata_format: 1 = one encrypted blob, 2 = per-item records with a change feed
+const METADATA_FORMAT_RECORDS = 2;
+
+interface MetadataSnapshot {
+    meta: MetadataBlob;
+    version: number;
+}
 
 interface User {
     email: string;
@@ -16,6 +29,7 @@ interface AuthContextType {
     user: User | null;
     token: string | null;
     login: (credentials: LoginCredentials & { rootKey?: Uint8Array }) => Promise<any>;
+    verifyTwoFactor: (answer: TwoFactorAnswer) => Promise<AuthResponse>;
     signup: (credentials: SignupCredentials) => Promise<void>;
     migrateLegacy: (credentials: SignupCredentials) => Promise<void>;
     logout: () => void;
@@ -60,9 +74,62 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const metadataRef = useRef<MetadataBlob | null>(null);
     const [metadataVersion, setMetadataVersion] = useState<number>(0);
     const metadataVersionRef = useRef<number>(0); // Ref to avoid stale closure in checkMetadataVersion
+    // Last blob known to match the server, kept as a private copy: callers often edit
+    // `metadata` in place, and the three-way merge needs the untouched original.
+    const metadataBaseRef = useRef<MetadataSnapshot | null>(null);
+    const metadataFormatRef = useRef<number>(1);
     const isRefreshingRef = useRef(false); // Ref guard to prevent concurrent refreshes
+    const pendingTwoFactorRef = useRef<{ email: string; rootKey: Uint8Array | null; twoFactorToken: string } | null>(null);
     const [isRestoring, setIsRestoring] = useState(true);
 
+    const setMetadataBase = (meta: MetadataBlob, version: number | undefined) => {
+        metadataBaseRef.current = { meta: structuredClone(meta), version: version || 1 };
+    };
+
+    // Whole tree from the server, in whichever format the account is on
+    const fetchServerMetadata = async (key: Uint8Array): Promise<MetadataSnapshot> => {
+        const response = await authAPI.getMetadata();
+        metadataFormatRef.current = response.metadata_format || 1;
+
+        if (metadataFormatRef.current === METADATA_FORMAT_RECORDS) {
+            const { version, records } = await authAPI.getMetadataChanges(0);
+            return { meta: await applyChanges(null, records, key), version };
+        }
+        if (!response.encryptedMetadata || !response.encryptedMetadataNonce) {
+            return { meta: { v: 2, folders: {}, files: {} }, version: response.metadata_version || 1 };
+        }
+
+        const { decryptMetadataBlob, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
+        await init();
+        const meta = decryptMetadataBlob(
+            fromBase64(response.encryptedMetadata),
+            fromBase64(response.encryptedMetadataNonce),
+            key
+        );
+        return { meta, version: response.metadata_version || 1 };
+    };
+
+    // Records format: only what changed since `base`
+    const pullMetadataChanges = async (base: MetadataSnapshot, key: Uint8Array): Promise<MetadataSnapshot> => {
+        const { version, records } = await authAPI.getMetadataChanges(base.version);
+        return { meta: await applyChanges(base.meta, records, key), version };
+    };
+
+    // One-time move of a blob account to per-item records. Failure is harmless: the blob
+    // stays authoritative and the next load tries again.
+    const migrateMetadataToRecords = async (snapshot: MetadataSnapshot, key: Uint8Array): Promise<MetadataSnapshot> => {
+        try {
+            const records = await encryptRecords(toRecords(snapshot.meta), key);
+            const { version } = await authAPI.migrateMetadata(snapshot.version, records);
+            metadataFormatRef.current = METADATA_FORMAT_RECORDS;
+            console.log(`[AUTH] Metadata migrated to ${records.length} records (v${version})`);
+            return { meta: snapshot.meta, version };
+        } catch (e) {
+            console.warn('[AUTH] Metadata migration deferred:', e);
+            return snapshot;
+        }
+    };
+
     // Helper to refresh metadata silently
     const refreshMetadata = async () => {
         if (!masterKey || isRefreshingRef.current) return;
@@ -71,34 +138,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             isRefreshingRef.current = true;
             console.log('[AUTH] \u{1F504} Syncing metadata from server...');
 
-            const { authAPI } = await import('../api/auth');
-            const response = await authAPI.getMetadata();
+            const base = metadataBaseRef.current;
+            const { meta, version } = metadataFormatRef.current === METADATA_FORMAT_RECORDS && base
+                ? await pullMetadataChanges(base, masterKey)
+                : await fetchServerMetadata(masterKey);
 
-            if (response && response.encryptedMetadata && response.encryptedMetadataNonce) {
-                const { decryptMetadataBlob, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
-                await init();
-                const meta = decryptMetadataBlob(
-                    fromBase64(response.encryptedMetadata),
-                    fromBase64(response.encryptedMetadataNonce),
-                    masterKey
-                );
-
-                // CRITICAL: Update version ref BEFORE setMetadata
-                // so that when setMetadata triggers loadContent -> checkMetadataVersion,
-                // the ref already has the new version and won't re-trigger
-                if (response.metadata_version) {
-                    metadataVersionRef.current = response.metadata_version;
-                    setMetadataVersion(response.metadata_version);
-                }
-                console.log(`[AUTH] \u2705 Metadata synced (v${response.metadata_version})`);
+            // CRITICAL: Update version ref BEFORE setMetadata
+            // so that when setMetadata triggers loadContent -> checkMetadataVersion,
+            // the ref already has the new version and won't re-trigger
+            metadataVersionRef.current = version;
+            setMetadataVersion(version);
+            console.log(`[AUTH] \u2705 Metadata synced (v${version})`);
 
-                setMetadata(meta);
-                metadataRef.current = meta;
+            setMetadata(meta);
+            metadataRef.current = meta;
+            setMetadataBase(meta, version);
 
-                // Trigger file list refresh UI update
-                const event = new CustomEvent('metadata-updated');
-                window.dispatchEvent(event);
-            }
+            // Trigger file list refresh UI update
+            const event = new CustomEvent('metadata-updated');
+            window.dispatchEvent(event);
         } catch (e) {
             console.error('[AUTH] Metadata sync failed:', e);
         } finally {
@@ -222,35 +280,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 try {
                     console.log('[AUTH] Starting metadata restoration...');
 
-                    // Fetch encrypted metadata from server
-                    const { authAPI } = await import('../api/auth');
-
                     // Add a timeout-like behavior or check for non-JSON responses via the interceptor
-                    const response = await authAPI.getMetadata();
-
-                    if (response && response.encryptedMetadata && response.encryptedMetadataNonce) {
-                        console.log('[AUTH] Metadata received, decrypting...');
-                        const { decryptMetadataBlob, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
-                await init();
-                        const meta = decryptMetadataBlob(
-                            fromBase64(response.encryptedMetadata),
-                            fromBase64(response.encryptedMetadataNonce),
-                            masterKey
-                        );
-                        setMetadata(meta);
-                        metadataRef.current = meta;
-                        // Set version on restore so checkMetadataVersion starts correctly
-                        if (response.metadata_version) {
-                            setMetadataVersion(response.metadata_version);
-                            metadataVersionRef.current = response.metadata_version;
-                        }
-                        console.log(`[AUTH] Metadata restored successfully (v${response.metadata_version})`);
-                    } else {
-                        console.log('[AUTH] No metadata found on server, initializing empty vault');
-                        const emptyMeta = { v: 2, folders: {}, files: {} };
-                        setMetadata(emptyMeta);
-                        metadataRef.current = emptyMeta;
+                    let snapshot = await fetchServerMetadata(masterKey);
+                    if (metadataFormatRef.current !== METADATA_FORMAT_RECORDS) {
+                        snapshot = await migrateMetadataToRecords(snapshot, masterKey);
                     }
+
+                    setMetadata(snapshot.meta);
+                    metadataRef.current = snapshot.meta;
+                    setMetadataBase(snapshot.meta, snapshot.version);
+                    // Set version on restore so checkMetadataVersion starts correctly
+                    setMetadataVersion(snapshot.version);
+                    metadataVersionRef.current = snapshot.version;
+                    console.log(`[AUTH] Metadata restored successfully (v${snapshot.version})`);
                 } catch (e: any) {
                     console.error('[AUTH] Metadata restoration error:', e);
                     // If it's a syntax error (unexpected HTML), log it specifically
@@ -299,6 +341,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // 2. Authenticate
         const response = await authAPI.login({ email: credentials.email, authHash });
 
+        // Accounts with 2FA get a challenge instead of tokens; keep the root key in memory
+        // until verifyTwoFactor() answers it so the vault can still be unlocked
+        if ('twoFactorRequired' in response) {
+            pendingTwoFactorRef.current = { email: credentials.email, rootKey, twoFactorToken: response.twoFactorToken };
+            return response;
+        }
+
+        return applyLoginResponse(credentials.email, response, rootKey);
+    };
+
+    const verifyTwoFactor = async (answer: TwoFactorAnswer) => {
+        const pending = pendingTwoFactorRef.current;
+        if (!pending) throw new Error('No sign-in is waiting for a second factor');
+
+        const response = await authAPI.loginTwoFactor(pending.twoFactorToken, answer);
+        pendingTwoFactorRef.current = null;
+        return applyLoginResponse(pending.email, response, pending.rootKey);
+    };
+
+    const applyLoginResponse = async (email: string, response: AuthResponse, rootKey: Uint8Array | null) => {
         let mk: Uint8Array | null = null;
         let meta: MetadataBlob | null = null;
 
@@ -350,7 +412,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (response.refreshToken) {
             localStorage.setItem('nest_refresh_token', response.refreshToken);
         }
-        localStorage.setItem('nest_email', credentials.email); // Persist email for session restoration
+        localStorage.setItem('nest_email', email); // Persist email for session restoration
         localStorage.setItem('nest_role', response.user.role || 'user');
 
         if (mk) setMasterKey(mk);
@@ -360,7 +422,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
 
         setUser({
-            email: credentials.email,
+            email,
             role: response.user.role,
             storageUsed: response.user.storageUsed,
             storageQuota: response.user.storageQuota
@@ -489,67 +551,85 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // 409 → refresh → re-detect → retry, storming the endpoint into a 429.
     const saveChainRef = useRef<Promise<unknown>>(Promise.resolve());
 
-    const doSaveMetadata = async (newMetadata: MetadataBlob) => {
-        if (!masterKey) {
-            console.error('[AUTH] Cannot save metadata: Master Key not available');
-            return;
-        }
-
-        try {
-            // Fix C1: Fetch current version before save (Optimistic Locking)
-            const { authAPI } = await import('../api/auth');
-            const currentData = await authAPI.getMetadata();
-            const currentVersion = currentData.metadata_version || 1;
-
-            const { encryptMetadataBlob, toBase64, init } = await import('@lazybird-inc/nest-crypto');
-                await init();
-            const encrypted = encryptMetadataBlob(newMetadata, masterKey);
+    // Blob format: saves against the version `base` was read at. On a 409 the server copy is fetched
+    // and three-way merged with this edit (see utils/metadataMerge), then the save is retried.
+    // Resolves to the saved tree and whether other devices' changes were folded in.
+    const saveMetadataBlob = async (newMetadata: MetadataBlob, base: MetadataSnapshot | null, key: Uint8Array) => {
+        const { encryptMetadataBlob, toBase64, init } = await import('@lazybird-inc/nest-crypto');
+        await init();
+
+        let baseMeta = base?.meta ?? null;
+        let baseVersion = base?.version;
+        let next = stampDeletions(baseMeta, newMetadata);
+
+        for (let attempt = 1; ; attempt++) {
+            // No known base (or we just lost the race): merge onto whatever the server holds now
+            if (baseVersion === undefined) {
+                const server = await fetchServerMetadata(key);
+                next = mergeMetadata(baseMeta, next, server.meta);
+                baseMeta = server.meta;
+                baseVersion = server.version;
+            }
 
+            const encrypted = encryptMetadataBlob(next, key);
             try {
-                await authAPI.saveMetadata({
+                const { newVersion } = await authAPI.saveMetadata({
                     encryptedMetadata: toBase64(encrypted.encrypted),
                     encryptedMetadataNonce: toBase64(encrypted.nonce),
-                    metadata_version: currentVersion // Send current version for backend check
+                    metadata_version: baseVersion
                 });
+                return { snapshot: { meta: next, version: newVersion }, merged: attempt > 1 };
+            } catch (error: any) {
+                if (error.response?.status !== 409 || attempt >= MAX_METADATA_MERGE_ATTEMPTS) throw error;
+                console.warn(`[AUTH] Metadata conflict on v${baseVersion} - merging with server copy`);
+                baseVersion = undefined;
+            }
+        }
+    };
 
-                setMetadata(newMetadata);
-                metadataRef.current = newMetadata;
-                setMetadataVersion(v => {
-                    const newV = v + 1;
-                    metadataVersionRef.current = newV;
-                    return newV;
-                });
-                console.log('[AUTH] Metadata saved successfully');
+    // Records format: uploads only the records this edit touched relative to `base`. Edits to
+    // other items from other devices don't conflict; they're pulled from the change feed after.
+    const saveMetadataRecords = async (newMetadata: MetadataBlob, base: MetadataSnapshot | null, key: Uint8Array) => {
+        const diff = diffRecords(base?.meta ?? null, newMetadata);
+        const latest = metadataBaseRef.current;
+        if (!diff.upserts.length && !diff.deletes.length && latest) {
+            return { snapshot: latest, merged: false };
+        }
 
-            } catch (error: any) {
-                // Fix C1: Handle version conflict
-                if (error.response?.status === 409) {
-                    console.error('[AUTH] Metadata conflict detected - refreshing from server');
-
-                    // Show toast notification
-                    const event = new CustomEvent('show-toast', {
-                        detail: { message: 'Metadata updated in another tab. Refreshing...', type: 'warning' }
-                    });
-                    window.dispatchEvent(event);
-
-                    // Reload metadata from server
-                    const freshData = await authAPI.getMetadata();
-                    if (freshData?.encryptedMetadata && freshData?.encryptedMetadataNonce) {
-                        const { decryptMetadataBlob, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
-                await init();
-                        const freshMetadata = decryptMetadataBlob(
-                            fromBase64(freshData.encryptedMetadata),
-                            fromBase64(freshData.encryptedMetadataNonce),
-                            masterKey
-                        );
-                        setMetadata(freshMetadata);
-                        metadataRef.current = freshMetadata;
-                    }
-                    throw new Error('Metadata conflict - please retry your operation');
-                }
-                throw error;
+        const { version } = await authAPI.saveMetadataRecords({
+            upserts: await encryptRecords(diff.upserts, key),
+            deletes: diff.deletes
+        });
+
+        if (latest && version === latest.version + 1) {
+            return { snapshot: { meta: applyRecordDiff(latest.meta, diff), version }, merged: false };
+        }
+        const snapshot = latest ? await pullMetadataChanges(latest, key) : await fetchServerMetadata(key);
+        return { snapshot, merged: true };
+    };
+
+    const doSaveMetadata = async (newMetadata: MetadataBlob, base: MetadataSnapshot | null) => {
+        if (!masterKey) {
+            console.error('[AUTH] Cannot save metadata: Master Key not available');
+            return;
+        }
+
+        try {
+            const { snapshot, merged } = metadataFormatRef.current === METADATA_FORMAT_RECORDS
+                ? await saveMetadataRecords(newMetadata, base, masterKey)
+                : await saveMetadataBlob(newMetadata, base, masterKey);
+
+            setMetadata(snapshot.meta);
+            metadataRef.current = snapshot.meta;
+            setMetadataBase(snapshot.meta, snapshot.version);
+            metadataVersionRef.current = snapshot.version;
+            setMetadataVersion(snapshot.version);
+
+            if (merged) {
+                // Other devices' changes were folded in; let open lists pick them up
+                window.dispatchEvent(new CustomEvent('metadata-updated'));
             }
-            console.log('[AUTH] Metadata secured in vault');
+            console.log(`[AUTH] Metadata saved successfully (v${snapshot.version})`);
         } catch (error) {
             console.error('[AUTH] Failed to save metadata:', error);
             throw error;
@@ -559,9 +639,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Public entry point: queue each save behind the previous one (success or
     // failure) so they run strictly sequentially and never race the version CAS.
     const saveMetadata = (newMetadata: MetadataBlob): Promise<void> => {
+        // Capture the base now: a save queued behind another still derives from this version
+        const base = metadataBaseRef.current;
         const result = saveChainRef.current.then(
-            () => doSaveMetadata(newMetadata),
-            () => doSaveMetadata(newMetadata)
+            () => doSaveMetadata(newMetadata, base),
+            () => doSaveMetadata(newMetadata, base)
         );
         saveChainRef.current = result.then(() => undefined, () => undefined);
         return result as Promise<void>;
@@ -579,6 +661,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setMasterKey(null);
         setMetadata(null);
         metadataRef.current = null;
+        metadataBaseRef.current = null;
         setMetadataVersion(0);
         localStorage.removeItem('nest_token');
         localStorage.removeItem('nest_refresh_token');
@@ -602,6 +685,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 user,
                 token,
                 login,
+                verifyTwoFactor,
                 signup,
                 migrateLegacy,
                 logout,
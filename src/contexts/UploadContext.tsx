@@ -1,9 +1,13 @@
 import { createContext, useContext, useState, useEffect, useRef, type ReactNode } from 'react';
-import { filesAPI } from '../api/files';
+import { filesAPI, type UploadStatus } from '../api/files';
 import { useStorage } from './StorageContext';
 import { useRefresh } from './RefreshContext';
 import { useAuth } from './AuthContext';
 import API_BASE_URL from '../config/api';
+import { saveUploadSession, deleteUploadSession, listUploadSessions, matchesUploadSession } from '../utils/uploadSessions';
+import { runChunkPipeline } from '../utils/chunkPipeline';
+import { generateThumbnail, attachThumbnail } from '../utils/thumbnails';
+import { CHUNK_THRESHOLD, CHUNK_SIZE, MAX_CONCURRENT_UPLOADS, MAX_PARALLEL_CHUNKS, INITIAL_PARALLEL_CHUNKS } from '../config/upload';
 // Dynamic imports for crypto to load lazily
 // We'll import them inside the worker function
 
@@ -20,21 +24,75 @@ export interface UploadItem {
     collabToken?: string;
     collabKey?: Uint8Array;
     uploadSessionId?: string;
+    resumable?: boolean; // Interrupted before a reload; waiting for the user to re-select the file
+    lastModified?: number;
+    currentFile?: string; // ZIP downloads: the file being added right now
+    skippedFiles?: string[]; // ZIP downloads: files left out because they couldn't be decrypted
+    batch?: { id: string; name: string }; // Folder uploads: shown as one entry in the queue
 }
 
 interface UploadContextType {
     uploads: UploadItem[];
     addUpload: (file: File, folderId?: number | null, collabToken?: string, collabKey?: Uint8Array, uploadSessionId?: string) => string;
+    addUploadBatch: (name: string, files: { file: File; folderId: number | null }[], collabToken?: string, collabKey?: Uint8Array) => string;
     addDownload: (filename: string, size: number) => string;
-    updateProgress: (id: string, progress: number) => void;
-    completeUpload: (id: string) => void;
+    updateProgress: (id: string, progress: number, currentFile?: string) => void;
+    completeUpload: (id: string, skippedFiles?: string[]) => void;
     failUpload: (id: string, error: string) => void;
     removeUpload: (id: string) => void;
     retryUpload: (id: string) => void;
+    resumeUpload: (id: string, file: File) => boolean;
 }
 
 const UploadContext = createContext<UploadContextType | null>(null);
 
+const MAX_CHUNK_RETRIES = 3;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Encrypts and sends the given chunks of a file through the adaptive pipeline.
+ * Each chunk is encrypted once, so retries resend the same ciphertext and nonce.
+ */
+async function uploadChunksInParallel({ file, fileKey, indices, totalChunks, send, onProgress, logTag }: {
+    file: File;
+    fileKey: Uint8Array;
+    indices: number[];
+    totalChunks: number;
+    send: (index: number, encryptedChunk: Blob, nonce: string, onChunkProgress: (percent: number) => void) => Promise<{ success: boolean }>;
+    onProgress: (percent: number) => void;
+    logTag: string;
+}): Promise<void> {
+    const { encryptChunk, toBase64 } = await import('@lazybird-inc/nest-crypto');
+
+    await runChunkPipeline({
+        indices,
+        totalChunks,
+        initialParallel: INITIAL_PARALLEL_CHUNKS,
+        maxParallel: MAX_PARALLEL_CHUNKS,
+        onProgress,
+        task: async (i, { onProgress: onChunkProgress, congestion }) => {
+            const start = i * CHUNK_SIZE;
+            const end = Math.min(start + CHUNK_SIZE, file.size);
+            const { encryptedChunk, nonce } = await encryptChunk(file.slice(start, end), fileKey);
+            const nonceBase64 = toBase64(nonce);
+
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    const result = await send(i, encryptedChunk, nonceBase64, onChunkProgress);
+                    if (!result.success) throw new Error(`Chunk ${i} failed`);
+                    return encryptedChunk.size;
+                } catch (err: any) {
+                    console.warn(`[${logTag}] Chunk ${i} failed (attempt ${attempt}/${MAX_CHUNK_RETRIES}):`, err.message);
+                    if (attempt >= MAX_CHUNK_RETRIES) throw err;
+                    congestion();
+                    // Exponential-ish backoff
+                    await sleep(2000 * attempt);
+                }
+            }
+        },
+    });
+}
+
 export function useUpload() {
     const context = useContext(UploadContext);
     if (!context) {
@@ -48,12 +106,9 @@ export function UploadProvider({ children }: { children: ReactNode }) {
     const [activeUploads, setActiveUploads] = useState<number>(0);
     const { refreshQuota } = useStorage();
     const { triggerFileRefresh } = useRefresh();
-    const { masterKey, token: authToken,setMetadata, saveMetadata, getLatestMetadata } = useAuth();
+    const { user, masterKey, token: authToken,setMetadata, saveMetadata, getLatestMetadata } = useAuth();
     const fileRegistry = useRef<Map<string, File>>(new Map());
 
-    // Max 1 concurrent upload to protect efficient bandwidth usage
-    const MAX_CONCURRENT_UPLOADS = 1;
-
     const addUpload = (file: File, folderId?: number | null, collabToken?: string, collabKey?: Uint8Array, uploadSessionId?: string): string => {
         const id = crypto.randomUUID();
         const uploadItem: UploadItem = {
@@ -74,6 +129,32 @@ export function UploadProvider({ children }: { children: ReactNode }) {
         return id;
     };
 
+    // Queues many files as one batch (a folder upload): each still uploads on its own into its
+    // own folder, but the queue shows a single entry with their combined progress
+    const addUploadBatch = (name: string, batchFiles: { file: File; folderId: number | null }[], collabToken?: string, collabKey?: Uint8Array): string => {
+        const batch = { id: crypto.randomUUID(), name };
+        const sessionId = crypto.randomUUID();
+        const items: UploadItem[] = batchFiles.map(({ file, folderId }) => {
+            const id = crypto.randomUUID();
+            fileRegistry.current.set(id, file);
+            return {
+                id,
+                filename: file.name,
+                size: file.size,
+                progress: 0,
+                status: 'queued',
+                type: 'upload',
+                folderId: folderId ?? undefined,
+                collabToken,
+                collabKey,
+                uploadSessionId: sessionId,
+                batch,
+            };
+        });
+        setUploads(prev => [...prev, ...items]);
+        return batch.id;
+    };
+
     const addDownload = (filename: string, size: number): string => {
         const id = crypto.randomUUID();
         const downloadItem: UploadItem = {
@@ -88,21 +169,21 @@ export function UploadProvider({ children }: { children: ReactNode }) {
         return id;
     };
 
-    const updateProgress = (id: string, progress: number) => {
+    const updateProgress = (id: string, progress: number, currentFile?: string) => {
         setUploads(prev =>
             prev.map(upload =>
                 upload.id === id
-                    ? { ...upload, progress, status: 'uploading' as const }
+                    ? { ...upload, progress, status: 'uploading' as const, currentFile: currentFile ?? upload.currentFile }
                     : upload
             )
         );
     };
 
-    const completeUpload = (id: string) => {
+    const completeUpload = (id: string, skippedFiles?: string[]) => {
         setUploads(prev =>
             prev.map(upload =>
                 upload.id === id
-                    ? { ...upload, progress: 100, status: 'completed' as const }
+                    ? { ...upload, progress: 100, status: 'completed' as const, currentFile: undefined, skippedFiles }
                     : upload
             )
         );
@@ -132,6 +213,10 @@ export function UploadProvider({ children }: { children: ReactNode }) {
             });
         }
 
+        if (upload?.backendFileId && upload.status !== 'completed') {
+            deleteUploadSession(upload.backendFileId).catch(() => { });
+        }
+
         setUploads(prev => prev.filter(upload => upload.id !== id));
         fileRegistry.current.delete(id);
     };
@@ -146,6 +231,71 @@ export function UploadProvider({ children }: { children: ReactNode }) {
         );
     };
 
+    const resumeUpload = (id: string, file: File): boolean => {
+        const upload = uploads.find(u => u.id === id);
+        if (!upload?.resumable) return false;
+
+        if (!matchesUploadSession(file, { filename: upload.filename, size: upload.size, lastModified: upload.lastModified ?? file.lastModified })) {
+            failUpload(id, "Selected file doesn't match the interrupted upload");
+            return false;
+        }
+
+        fileRegistry.current.set(id, file);
+        setUploads(prev =>
+            prev.map(u =>
+                u.id === id
+                    ? { ...u, status: 'queued' as const, error: undefined, resumable: false }
+                    : u
+            )
+        );
+        return true;
+    };
+
+    // Offer chunked uploads interrupted by a reload or crash for resumption. The File
+    // objects are gone, so they wait in the queue until the user re-selects each file.
+    const ownerEmail = user?.email;
+    useEffect(() => {
+        if (!authToken || !ownerEmail) return;
+        let cancelled = false;
+
+        const restoreSessions = async () => {
+            const sessions = await listUploadSessions(ownerEmail).catch(() => []);
+            for (const session of sessions) {
+                let status;
+                try {
+                    status = await filesAPI.getUploadStatus(session.fileId);
+                } catch (err: any) {
+                    // Cancelled or deleted elsewhere; keep the session on transient errors
+                    if (err.response?.status === 404) await deleteUploadSession(session.fileId).catch(() => { });
+                    continue;
+                }
+                if (status.complete) {
+                    await deleteUploadSession(session.fileId).catch(() => { });
+                    continue;
+                }
+                if (cancelled) return;
+
+                const restored: UploadItem = {
+                    id: crypto.randomUUID(),
+                    filename: session.filename,
+                    size: session.size,
+                    progress: (status.received_chunks.length / session.totalChunks) * 100,
+                    status: 'failed',
+                    type: 'upload',
+                    backendFileId: session.fileId,
+                    folderId: session.folderId,
+                    error: 'Interrupted. Re-select the file to resume.',
+                    resumable: true,
+                    lastModified: session.lastModified,
+                };
+                setUploads(prev => prev.some(u => u.backendFileId === session.fileId) ? prev : [...prev, restored]);
+            }
+        };
+        restoreSessions();
+
+        return () => { cancelled = true; };
+    }, [authToken, ownerEmail]);
+
     // Race Condition Fix: Track what's actually being processed to preventing double-firing
     const processingRef = useRef<Set<string>>(new Set());
 
@@ -202,21 +352,26 @@ export function UploadProvider({ children }: { children: ReactNode }) {
             return;
         }
 
+        // Set once a new version of an existing file is started; until its bytes land the file
+        // has no content, so a failure reverts it to the previous version
+        let versionOfFileId: number | null = null;
+        let versionUploaded = false;
+
         try {
             // Load Crypto Libs
-            const { encryptFile, generateFileKey, encryptFileKey, encryptFolderKey, toBase64, fromBase64, encryptChunk, decryptFolderKey, init, encryptFileWithCollabKey, encryptWithMasterKey } = await import('@lazybird-inc/nest-crypto');
+            const { encryptFile, generateFileKey, encryptFileKey, decryptFileKey, encryptFolderKey, toBase64, fromBase64, decryptFolderKey, init, encryptFileWithCollabKey, encryptWithMasterKey } = await import('@lazybird-inc/nest-crypto');
             await init();
 
             const nextUpload = uploads.find(u => u.id === uploadId);
 
+            // Rendered from the plaintext while the file uploads; sealed with the file key once it has an id
+            const thumbnail = generateThumbnail(file);
+
             if (nextUpload && nextUpload.collabToken && nextUpload.collabKey) {
                 // === COLLABORATIVE UPLOAD ===
                 const collabToken = nextUpload.collabToken;
                 const collabKey = nextUpload.collabKey;
 
-                const CHUNK_THRESHOLD = 128 * 1024 * 1024; // 128MB
-                const CHUNK_SIZE = 128 * 1024 * 1024;      // 128MB
-
                 // 1. Generate unique file key
                 const fileKey = generateFileKey();
 
@@ -252,48 +407,21 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                     setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, backendFileId: fileId } : u));
 
                     const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-                    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-                    for (let i = 0; i < totalChunks; i++) {
-                        const start = i * CHUNK_SIZE;
-                        const end = Math.min(start + CHUNK_SIZE, file.size);
-                        const chunkBlob = file.slice(start, end);
-
-                        const { encryptedChunk, nonce: chunkNonce } = await encryptChunk(chunkBlob, fileKey);
-                        const chunkNonceBase64 = toBase64(chunkNonce);
-
-                        let retryCount = 0;
-                        const maxRetries = 3;
-                        let success = false;
-
-                        while (retryCount < maxRetries && !success) {
-                            try {
-                                const result = await filesAPI.uploadCollabChunk(
-                                    collabToken,
-                                    fileId,
-                                    i,
-                                    encryptedChunk,
-                                    chunkNonceBase64,
-                                    encryptedChunk.size,
-                                    (chunkPercent) => {
-                                        const totalPercent = ((i * 100) + chunkPercent) / totalChunks;
-                                        updateProgress(uploadId, totalPercent);
-                                    }
-                                );
-
-                                if (!result.success) throw new Error(`Chunk ${i} failed`);
-                                success = true;
-                            } catch (err: any) {
-                                retryCount++;
-                                console.warn(`[COLLAB-CHUNK-UP] Chunk ${i} failed (attempt ${retryCount}/${maxRetries}):`, err.message);
-                                if (retryCount >= maxRetries) throw err;
-                                await sleep(2000 * retryCount);
-                            }
-                        }
-                        updateProgress(uploadId, ((i + 1) / totalChunks) * 100);
-                    }
+
+                    await uploadChunksInParallel({
+                        file,
+                        fileKey,
+                        indices: Array.from({ length: totalChunks }, (_, i) => i),
+                        totalChunks,
+                        send: (i, encryptedChunk, nonce, onChunkProgress) => filesAPI.uploadCollabChunk(
+                            collabToken, fileId, i, encryptedChunk, nonce, encryptedChunk.size, onChunkProgress
+                        ),
+                        onProgress: (p) => updateProgress(uploadId, p),
+                        logTag: 'COLLAB-CHUNK-UP'
+                    });
 
                     await filesAPI.finishCollabChunkedUpload(collabToken, fileId, encryptedFilename, encryptedMime);
+                    await attachThumbnail(thumbnail, fileKey, { fileId, collabToken });
 
                     completeUpload(uploadId);
                     triggerFileRefresh();
@@ -326,7 +454,7 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                     const uploadUrl = `${API_BASE_URL}/collab/${collabToken}/upload`;
                     const xhr = new XMLHttpRequest();
 
-                    const promise = new Promise<void>((resolve, reject) => {
+                    const promise = new Promise<{ file_id?: number }>((resolve, reject) => {
                         xhr.upload.addEventListener('progress', (event) => {
                             if (event.lengthComputable) {
                                 const percent = (event.loaded / event.total) * 100;
@@ -336,7 +464,11 @@ export function UploadProvider({ children }: { children: ReactNode }) {
 
                         xhr.addEventListener('load', () => {
                             if (xhr.status >= 200 && xhr.status < 300) {
-                                resolve();
+                                try {
+                                    resolve(JSON.parse(xhr.responseText));
+                                } catch {
+                                    resolve({});
+                                }
                             } else {
                                 try {
                                     const errResponse = JSON.parse(xhr.responseText);
@@ -356,7 +488,10 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                         xhr.send(formData);
                     });
 
-                    await promise;
+                    const { file_id: uploadedFileId } = await promise;
+                    if (uploadedFileId) {
+                        await attachThumbnail(thumbnail, fileKey, { fileId: uploadedFileId, collabToken });
+                    }
 
                     completeUpload(uploadId);
                     triggerFileRefresh();
@@ -419,13 +554,46 @@ export function UploadProvider({ children }: { children: ReactNode }) {
             const folderKey = decryptFolderKey(folderKeyEncrypted, folderKeyNonce, masterKey);
 
             // 2. Generate Encryption Keys
-            const fileKey = generateFileKey();
+            let fileKey = generateFileKey();
             const fileKeyEnv = encryptFileKey(fileKey, folderKey);
 
-            // 2. Determine Strategy
-            const CHUNK_THRESHOLD = 128 * 1024 * 1024; // 128MB (Mobile-safe)
-            const CHUNK_SIZE = 128 * 1024 * 1024;      // 128MB
+            // Resume: a chunked upload that already has a backend record (retry, or re-selected
+            // after a reload) continues with that record and the file key its chunks were sealed with.
+            let resumeStatus: UploadStatus | null = null;
+            if (nextUpload?.backendFileId && file.size >= CHUNK_THRESHOLD) {
+                resumeStatus = await filesAPI.getUploadStatus(nextUpload.backendFileId).catch(() => null);
+                if (resumeStatus && !resumeStatus.complete && resumeStatus.file_size === file.size) {
+                    fileKey = decryptFileKey(fromBase64(resumeStatus.file_key_encrypted), fromBase64(resumeStatus.file_key_nonce), folderKey);
+                    console.log('[UPLOAD] Resuming interrupted upload of file:', resumeStatus.file_id);
+                } else {
+                    resumeStatus = null;
+                }
+            }
+
+            // Same name in the same folder: upload as a new version of that file. The current
+            // file key is reused so existing share links (key in the URL fragment) keep working.
+            const sameNameEntry = !resumeStatus && Object.entries(getLatestMetadata()?.files || {})
+                .find(([, f]) => f.filename === file.name && f.folder_id === rootFolderId.toString());
+            if (sameNameEntry) {
+                const existingId = parseInt(sameNameEntry[0]);
+                try {
+                    const { versions } = await filesAPI.getVersions(existingId);
+                    const current = versions.find(v => v.is_current);
+                    if (current) {
+                        const existingKey = decryptFileKey(fromBase64(current.file_key_encrypted), fromBase64(current.file_key_nonce), folderKey);
+                        await filesAPI.createVersion(existingId, file.size);
+                        fileKey = existingKey;
+                        versionOfFileId = existingId;
+                        setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, backendFileId: existingId } : u));
+                        console.log('[UPLOAD] Uploading as new version of file:', existingId);
+                    }
+                } catch (err: any) {
+                    // Trashed, still uploading, or not a private file: fall back to a new file
+                    console.warn('[UPLOAD] Could not add version, uploading as new file:', err.response?.data?.error || err.message);
+                }
+            }
 
+            // 2. Determine Strategy
             if (file.size >= CHUNK_THRESHOLD) {
                 // === CHUNKED UPLOAD ===
 
@@ -433,8 +601,8 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                 const sessionId = nextUpload?.uploadSessionId || crypto.randomUUID();
 
                 // Init (Quota Check & DB Record)
-                // 1. Step 1: Initialize record on server (Get ID)
-                const initResult = await filesAPI.initUpload({
+                // 1. Step 1: Initialize record on server (Get ID) unless we're adding a version
+                const fileId = resumeStatus?.file_id ?? versionOfFileId ?? (await filesAPI.initUpload({
                     filename: 'encrypted', // ZK: Server never sees real filename
                     file_size: file.size,
                     mimeType: file.type || 'application/octet-stream',
@@ -442,80 +610,52 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                     fileKeyEncrypted: toBase64(fileKeyEnv.encrypted),
                     fileKeyNonce: toBase64(fileKeyEnv.nonce),
                     sessionId
-                });
-
-                // Check for payment/quota error or strict error
-                const fileId = initResult.file_id;
+                })).file_id;
 
                 // Store backend file ID so we can cancel if needed
                 setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, backendFileId: fileId } : u));
 
-                // 2. Step 2: Skip Metadata Save (Moved to end to prevent ghost files)
-                // We used to save here, but that caused issues if upload failed later.
-
-                // 3. Step 3: Upload the bits (Chunked)
-                // Smart Resume: Check Manifest
-                const manifest = await filesAPI.getManifest(fileId);
-                const existingIndices = new Set(manifest.chunks.map(c => c.chunk_index));
-
                 const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-                const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-                for (let i = 0; i < totalChunks; i++) {
-                    if (existingIndices.has(i)) {
-                        updateProgress(uploadId, ((i + 1) / totalChunks) * 100);
-                        continue;
-                    }
-
-                    // Prepare Chunk
-                    const start = i * CHUNK_SIZE;
-                    const end = Math.min(start + CHUNK_SIZE, file.size);
-                    const chunkBlob = file.slice(start, end);
-
-                    // Encrypt Chunk (Independent)
-                    // Move OUTSIDE retry loop: Ensure the same nonce/cipher is used for ALL retries of this chunk
-                    const { encryptedChunk, nonce: chunkNonce } = await encryptChunk(chunkBlob, fileKey);
-                    const chunkNonceBase64 = toBase64(chunkNonce);
-
-                    let retryCount = 0;
-                    const maxRetries = 3;
-                    let success = false;
-
-                    while (retryCount < maxRetries && !success) {
-                        try {
-                            // Upload Chunk (with intra-chunk progress)
-                            const result = await filesAPI.uploadChunk(
-                                fileId,
-                                i,
-                                encryptedChunk,
-                                chunkNonceBase64,
-                                encryptedChunk.size,
-                                (chunkPercent) => {
-                                    // Smooth progress: completed chunks + current chunk fraction
-                                    const totalPercent = ((i * 100) + chunkPercent) / totalChunks;
-                                    updateProgress(uploadId, totalPercent);
-                                }
-                            );
-
-                            if (!result.success) throw new Error(`Chunk ${i} failed`);
-
-                            success = true;
+                // Persist the session so a reload or crash can pick up where we left off
+                if (user?.email) {
+                    await saveUploadSession({
+                        fileId,
+                        owner: user.email,
+                        filename: file.name,
+                        size: file.size,
+                        lastModified: file.lastModified,
+                        folderId: rootFolderId,
+                        totalChunks,
+                        createdAt: new Date().toISOString()
+                    }).catch(err => console.warn('[UPLOAD] Could not persist upload session:', err));
+                }
 
-                        } catch (err: any) {
-                            retryCount++;
-                            console.warn(`[CHUNK-UP] Chunk ${i} failed (attempt ${retryCount}/${maxRetries}):`, err.message);
-                            if (retryCount >= maxRetries) throw err;
-                            // Exponential-ish backoff
-                            await sleep(2000 * retryCount);
-                        }
-                    }
+                // 2. Step 2: Skip Metadata Save (Moved to end to prevent ghost files)
+                // We used to save here, but that caused issues if upload failed later.
 
-                    // Ensure clean chunk boundary
-                    updateProgress(uploadId, ((i + 1) / totalChunks) * 100);
-                }
+                // 3. Step 3: Upload the bits (Chunked)
+                // Smart Resume: only send chunks the server doesn't hold yet
+                const uploadStatus = resumeStatus ?? await filesAPI.getUploadStatus(fileId);
+                const existingIndices = new Set(uploadStatus.received_chunks);
+
+                // Encrypt + upload the missing chunks, several at a time
+                await uploadChunksInParallel({
+                    file,
+                    fileKey,
+                    indices: Array.from({ length: totalChunks }, (_, i) => i).filter(i => !existingIndices.has(i)),
+                    totalChunks,
+                    send: (i, encryptedChunk, nonce, onChunkProgress) => filesAPI.uploadChunk(
+                        fileId, i, encryptedChunk, nonce, encryptedChunk.size, onChunkProgress
+                    ),
+                    onProgress: (p) => updateProgress(uploadId, p),
+                    logTag: 'CHUNK-UP'
+                });
 
                 // Finish
                 await filesAPI.finishChunkedUpload(fileId);
+                versionUploaded = true;
+                await attachThumbnail(thumbnail, fileKey, { fileId });
 
                 // 4. Step 4: Save Metadata to Vault (After Success)
                 const currentMetaChunked = getLatestMetadata();
@@ -534,6 +674,7 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                     console.log('[UPLOAD] ✅ Metadata secured');
                 }
 
+                await deleteUploadSession(fileId).catch(() => { });
                 completeUpload(uploadId);
                 refreshQuota();
                 triggerFileRefresh();
@@ -545,8 +686,8 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                 // Generate unique session ID for this upload attempt
                 const sessionId = nextUpload?.uploadSessionId || crypto.randomUUID();
 
-                // 1. Step 1: Initialize
-                const initRes = await filesAPI.initUpload({
+                // 1. Step 1: Initialize (unless we're adding a version)
+                const fileId = versionOfFileId ?? (await filesAPI.initUpload({
                     filename: 'encrypted', // ZK: Server never sees real filename
                     file_size: file.size,
                     mimeType: file.type || 'application/octet-stream',
@@ -554,14 +695,14 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                     fileKeyEncrypted: toBase64(fileKeyEnv.encrypted),
                     fileKeyNonce: toBase64(fileKeyEnv.nonce),
                     sessionId
-                });
-
-                const fileId = initRes.file_id;
+                })).file_id;
 
                 // 2. Step 2: Skip Metadata Save (Moved to end)
 
                 // 3. Step 3: Upload Bits
                 await filesAPI.upload(fileId, encryptedBlob, (p) => updateProgress(uploadId, p));
+                versionUploaded = true;
+                await attachThumbnail(thumbnail, fileKey, { fileId });
 
                 // 4. Step 4: Save Metadata (After Success)
                 const currentMetaMonolithic = getLatestMetadata();
@@ -597,6 +738,16 @@ export function UploadProvider({ children }: { children: ReactNode }) {
                 errorMessage = "File too large for current plan";
             }
 
+            if (versionOfFileId !== null) {
+                const fileId = versionOfFileId;
+                if (!versionUploaded) {
+                    await filesAPI.cancelUpload(fileId).catch(err => console.warn('[UPLOAD] Could not revert the pending version:', err));
+                    await deleteUploadSession(fileId).catch(() => { });
+                }
+                // Cancelling a file that has content deletes it; removing this entry must not reach it
+                setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, backendFileId: undefined } : u));
+            }
+
             failUpload(uploadId, errorMessage);
         } finally {
             setActiveUploads(prev => prev - 1);
@@ -609,12 +760,14 @@ export function UploadProvider({ children }: { children: ReactNode }) {
             value={{
                 uploads,
                 addUpload,
+                addUploadBatch,
                 addDownload,
                 updateProgress,
                 completeUpload,
                 failUpload,
                 removeUpload,
                 retryUpload,
+                resumeUpload,
             }}
         >
             {children}
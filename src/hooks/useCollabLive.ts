@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import API_BASE_URL from '../config/api';
+
+/**
+ * Live updates for a Collab Folder over WebSocket. Calls onChange for every file or folder
+ * change another participant makes and returns how many people have the folder open. Names in
+ * events are ciphertext, so callers simply reload their listing. Each connection uses a
+ * single-use ticket, asked for with the guest session token or, without one, the account JWT
+ * (hosts and Shared With Me), so neither ends up in a URL. Reconnects with backoff; callers keep
+ * their polling as the fallback.
+ */
+
+export type CollabLiveEvent = {
+    type: 'file_added' | 'file_renamed' | 'file_deleted' | 'folder_added' | 'folder_renamed' | 'folder_deleted';
+    file_id?: number;
+    folder_id?: number | null;
+    parent_id?: number;
+    encrypted_filename?: string | null;
+    encrypted_folder_name?: string;
+};
+
+const MAX_RETRY_MS = 30_000;
+// Sent by the server when the participant's access changed; the same credentials won't work again
+const ACCESS_CHANGED = 4403;
+
+export const useCollabLive = (
+    tokenOrSlug: string | null | undefined,
+    sessionToken: string | null,
+    onChange: (event: CollabLiveEvent) => void
+): number => {
+    const [viewers, setViewers] = useState(0);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        if (!tokenOrSlug) return;
+
+        let socket: WebSocket | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        let attempts = 0;
+        let stopped = false;
+
+        const retry = () => {
+            if (stopped) return;
+            const delay = Math.min(1000 * 2 ** attempts++, MAX_RETRY_MS);
+            retryTimer = setTimeout(connect, delay);
+        };
+
+        const requestTicket = async (): Promise<string | null> => {
+            // Read the JWT on every attempt; it is refreshed while we're disconnected
+            const accessToken = localStorage.getItem('nest_token');
+            const headers: Record<string, string> = {};
+            if (sessionToken) headers['x-collab-session'] = sessionToken;
+            else if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+            else return null;
+
+            const response = await fetch(`${API_BASE_URL}/collab/${encodeURIComponent(tokenOrSlug)}/live/ticket`, { method: 'POST', headers });
+            if (!response.ok) throw new Error(`Ticket request failed (${response.status})`);
+            const { ticket } = await response.json();
+            return ticket;
+        };
+
+        const connect = async () => {
+            let ticket: string | null;
+            try {
+                ticket = await requestTicket();
+            } catch (err) {
+                console.warn('[CollabLive] Could not get a ticket:', err);
+                retry();
+                return;
+            }
+            if (!ticket || stopped) return;
+
+            const base = API_BASE_URL.startsWith('http') ? API_BASE_URL : `${window.location.origin}${API_BASE_URL}`;
+            socket = new WebSocket(`${base.replace(/^http/, 'ws')}/collab/${encodeURIComponent(tokenOrSlug)}/live?ticket=${encodeURIComponent(ticket)}`);
+
+            socket.onopen = () => { attempts = 0; };
+            socket.onmessage = (message) => {
+                try {
+                    const data = JSON.parse(message.data);
+                    if (data.type === 'presence') setViewers(data.viewers);
+                    else onChangeRef.current(data);
+                } catch (err) {
+                    console.error('[CollabLive] Bad message:', err);
+                }
+            };
+            socket.onclose = (event) => {
+                setViewers(0);
+                if (event.code === ACCESS_CHANGED) return;
+                retry();
+            };
+        };
+
+        connect();
+        return () => {
+            stopped = true;
+            clearTimeout(retryTimer);
+            socket?.close();
+        };
+    }, [tokenOrSlug, sessionToken]);
+
+    return viewers;
+};
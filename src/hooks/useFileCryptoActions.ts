@@ -6,6 +6,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { filesAPI } from '../api/files';
 import type { FileItem } from '../pages/NestPage';
 import api from '../lib/api';
+import { rewrapVersionKeys } from '../utils/fileVersions';
+import { ownerPreviewSource, type PreviewTarget } from '../utils/filePreview';
 
 export const useFileCryptoActions = (onActionComplete: () => void) => {
     const { showToast } = useToast();
@@ -14,6 +16,7 @@ export const useFileCryptoActions = (onActionComplete: () => void) => {
     const { masterKey, metadata, saveMetadata } = useAuth();
     
     const [shareModal, setShareModal] = useState<{ isOpen: boolean; link: string; name: string }>({ isOpen: false, link: '', name: '' });
+    const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
 
     const handleShare = async (file: FileItem) => {
         try {
@@ -176,6 +179,20 @@ export const useFileCryptoActions = (onActionComplete: () => void) => {
         }
     };
 
+    const handlePreview = (file: FileItem) => {
+        if (!masterKey) {
+            showToast('Please log in again to preview files', 'error');
+            return;
+        }
+        setPreviewTarget({
+            name: file.filename,
+            mimeType: file.mime_type,
+            size: file.file_size,
+            resolve: () => ownerPreviewSource(file.id, masterKey),
+            onDownload: () => handleDownload(file)
+        });
+    };
+
     const handleDelete = async (fileId: number) => {
         try {
             await filesAPI.delete(fileId);
@@ -229,10 +246,12 @@ export const useFileCryptoActions = (onActionComplete: () => void) => {
 
             const reencryptedFileKey = encryptFileKey(fileKey, targetFolderKey);
 
+            const versionKeys = await rewrapVersionKeys(fileId, currentFolderKey, targetFolderKey);
+
             await filesAPI.move(fileId, targetFolderId, {
                 fileKeyEncrypted: toBase64(reencryptedFileKey.encrypted),
                 fileKeyNonce: toBase64(reencryptedFileKey.nonce)
-            });
+            }, versionKeys);
 
             const newMeta = { ...metadata };
             if (newMeta.files[fileId.toString()]) {
@@ -284,10 +303,13 @@ export const useFileCryptoActions = (onActionComplete: () => void) => {
     return {
         handleShare,
         handleDownload,
+        handlePreview,
         handleDelete,
         handleMove,
         handleRename,
         shareModal,
-        setShareModal
+        setShareModal,
+        previewTarget,
+        setPreviewTarget
     };
 };
@@ -0,0 +1,99 @@
+import { useAuth } from '../contexts/AuthContext';
+import { useUpload } from '../contexts/UploadContext';
+import { useToast } from '../contexts/ToastContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { foldersAPI } from '../api/folders';
+import api from '../lib/api';
+import { folderPaths, type FolderUpload } from '../utils/folderUpload';
+
+/**
+ * Uploads a directory tree into `parentId` (null: the root of the Nest, or of the collab folder).
+ * The folders are created first, parents before children: in the Nest each gets a fresh folder
+ * key and its name goes into the MetadataBlob; inside a collab folder names are sealed with the
+ * collab key. Then every file is queued into its folder as one batch. If a step fails, the names
+ * of the folders already created are still saved, so none is left showing as "Folder N".
+ */
+export const useFolderUpload = () => {
+    const { masterKey, setMetadata, saveMetadata, getLatestMetadata } = useAuth();
+    const { addUploadBatch } = useUpload();
+    const { showToast } = useToast();
+    const { triggerFileRefresh } = useRefresh();
+
+    return async (upload: FolderUpload, parentId: number | null, collab?: { token: string; key: Uint8Array }) => {
+        const { files } = upload;
+        const paths = folderPaths(upload);
+        if (files.length === 0 && paths.length === 0) return;
+        if (!collab && !masterKey) {
+            showToast('Please log in again to upload folders', 'error');
+            return;
+        }
+
+        const topLevel = paths.filter(path => !path.includes('/'));
+        const batchName = topLevel.length === 1 && files.every(f => f.dirs.length > 0) ? topLevel[0] : `${files.length} files`;
+
+        const folderIds = new Map<string, number>();
+        let namesSaved = false;
+        const saveFolderNames = async () => {
+            namesSaved = true;
+            if (collab || folderIds.size === 0) return;
+            const currentMeta = getLatestMetadata();
+            if (!currentMeta) return;
+
+            const updatedMetadata = JSON.parse(JSON.stringify(currentMeta));
+            const createdAt = new Date().toISOString();
+            folderIds.forEach((id, path) => {
+                updatedMetadata.folders[id.toString()] = { name: path.slice(path.lastIndexOf('/') + 1), created_at: createdAt };
+            });
+            setMetadata(updatedMetadata);
+            await saveMetadata(updatedMetadata);
+        };
+
+        try {
+            const { generateFolderKey, encryptFolderKey, encryptWithMasterKey, toBase64, init } = await import('@lazybird-inc/nest-crypto');
+            await init();
+
+            let rootParentId = parentId;
+            if (rootParentId === null && !collab && paths.length > 0) {
+                const { folders } = await foldersAPI.list(null, true);
+                rootParentId = folders?.find((f: any) => f.parent_id === null && !f.path_hash?.startsWith('collab_') && !f.path_hash?.startsWith('dropzone_'))?.id ?? null;
+            }
+
+            for (const path of paths) {
+                const slash = path.lastIndexOf('/');
+                const name = path.slice(slash + 1);
+                const parent = slash === -1 ? rootParentId : folderIds.get(path.slice(0, slash))!;
+
+                if (collab) {
+                    const { encrypted, nonce } = encryptWithMasterKey(name, collab.key);
+                    const { data } = await api.post(`/collab/${collab.token}/folders`, {
+                        folder_name_encrypted: JSON.stringify({ encrypted: toBase64(encrypted), nonce: toBase64(nonce) }),
+                        parent_id: parent ?? undefined
+                    });
+                    folderIds.set(path, data.folder_id);
+                } else {
+                    const { encrypted, nonce } = encryptFolderKey(generateFolderKey(), masterKey!);
+                    // path_hash only has to be set; a random value keeps the name off the server
+                    const res = await foldersAPI.create(toBase64(encrypted), toBase64(nonce), crypto.randomUUID(), parent ?? undefined);
+                    folderIds.set(path, res.folder_id);
+                }
+            }
+
+            await saveFolderNames();
+
+            if (files.length > 0) {
+                addUploadBatch(batchName, files.map(({ file, dirs }) => ({
+                    file,
+                    folderId: dirs.length > 0 ? folderIds.get(dirs.join('/'))! : parentId
+                })), collab?.token, collab?.key);
+            }
+            triggerFileRefresh();
+        } catch (error: any) {
+            console.error('Folder upload failed:', error);
+            if (!namesSaved) {
+                await saveFolderNames().catch(err => console.error('Saving folder names failed:', err));
+            }
+            if (folderIds.size > 0) triggerFileRefresh();
+            showToast(error.response?.data?.error || 'Failed to create the folders for this upload', 'error');
+        }
+    };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { foldersAPI } from '../api/folders';
+import { filesAPI } from '../api/files';
+import { buildSearchIndex, type SearchEntry } from '../utils/search';
+
+/**
+ * In-memory search index over the decrypted metadata. Only the folder hierarchy (ids and
+ * parent ids) and the ids of trashed files are fetched from the server; the index itself never
+ * leaves the browser.
+ */
+export const useSearchIndex = (): SearchEntry[] => {
+    const { metadata } = useAuth();
+    const { fileListVersion } = useRefresh();
+    const [structure, setStructure] = useState<{ parents: Map<number, number | null>; rootId: number | null; trashed: Set<number> }>({
+        parents: new Map(),
+        rootId: null,
+        trashed: new Set()
+    });
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadStructure = async () => {
+            try {
+                const [res, trash] = await Promise.all([foldersAPI.list(undefined, true), filesAPI.getTrash()]);
+                const parents = new Map<number, number | null>();
+                res.folders.forEach(f => parents.set(f.id, f.parent_id));
+                const root = res.folders.find(f => f.parent_id === null && !f.path_hash?.startsWith('collab_') && !f.path_hash?.startsWith('dropzone_'));
+                const trashed = new Set(trash.files.map(f => f.id));
+                if (!cancelled) setStructure({ parents, rootId: root?.id ?? null, trashed });
+            } catch (e) {
+                console.error('[Search] Failed to load folder structure', e);
+            }
+        };
+        loadStructure();
+        return () => { cancelled = true; };
+    }, [fileListVersion]);
+
+    return useMemo(
+        () => metadata ? buildSearchIndex(metadata, structure.parents, structure.rootId, structure.trashed) : [],
+        [metadata, structure]
+    );
+};
@@ -0,0 +1,31 @@
+import { useUpload } from '../contexts/UploadContext';
+import type { ZipEntry } from '../utils/StreamingExport';
+
+/**
+ * Runs a ZIP download as one item in the upload queue, showing which file is being added and,
+ * once done, the ones that had to be skipped.
+ */
+export const useZipDownload = () => {
+    const { addDownload, updateProgress, completeUpload, failUpload } = useUpload();
+
+    return async (zipName: string, entries: ZipEntry[]) => {
+        const downloadId = addDownload(zipName, entries.reduce((acc, e) => acc + e.size, 0));
+        // Chunks arrive in small reads; only re-render when something visible changes
+        let lastIndex = -1;
+        let lastProgress = -1;
+
+        try {
+            const { streamZip } = await import('../utils/StreamingExport');
+            const failures = await streamZip(zipName, entries, (progress, currentFile, index) => {
+                if (index === lastIndex && progress - lastProgress < 0.5) return;
+                lastIndex = index;
+                lastProgress = progress;
+                updateProgress(downloadId, progress, index < entries.length ? `${index + 1}/${entries.length} · ${currentFile}` : undefined);
+            });
+            completeUpload(downloadId, failures.map(f => f.path));
+        } catch (error: any) {
+            console.error('ZIP download failed:', error);
+            failUpload(downloadId, error.message || 'Download failed');
+        }
+    };
+};
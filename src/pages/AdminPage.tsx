@@ -5,6 +5,7 @@ import { Shield, Users, HardDrives, Database, ArrowsClockwise, Trash, CloudCheck
 import { useToast } from '../contexts/ToastContext';
 import API_BASE_URL from '../config/api';
 import { ChunksInspectorModal } from '../components/admin/ChunksInspectorModal';
+import { StorageMigrationsPanel } from '../components/admin/StorageMigrationsPanel';
 import { PageLoader } from '../components/PageLoader';
 
 interface SystemMetrics {
@@ -76,7 +77,7 @@ interface Analytics {
 }
 
 export default function AdminPage() {
-    const [activeTab, setActiveTab] = useState<'overview' | 'insights' | 'files' | 'users' | 'failed' | 'graveyard'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'insights' | 'files' | 'users' | 'failed' | 'graveyard' | 'migrations'>('overview');
     const [system, setSystem] = useState<SystemMetrics | null>(null);
     const [files, setFiles] = useState<FileRecord[]>([]);
     const [inspectFile, setInspectFile] = useState<{ id: number, name: string, source: 'files' | 'graveyard', fileData?: { id: number, merkle_hash?: string, file_size: number, is_gateway_verified: number, is_chunked?: number } } | null>(null);
@@ -197,7 +198,10 @@ export default function AdminPage() {
 
             if (failedResponse) {
                 if (failedResponse.status === 403) {
-                    setError('Access denied. Admin privileges required.');
+                    const body = await failedResponse.json().catch(() => ({}));
+                    setError(body.twoFactorSetupRequired
+                        ? 'Two-factor authentication is required for admin access. Enable it under Settings → Security.'
+                        : 'Access denied. Admin privileges required.');
                 } else {
                     const errorText = await failedResponse.text();
                     console.error('[ADMIN] API Error:', failedResponse.status, errorText.substring(0, 100));
@@ -381,7 +385,8 @@ export default function AdminPage() {
                             { id: 'files', label: 'Files' },
                             { id: 'users', label: 'Users' },
                             { id: 'failed', label: 'Failed Uploads' },
-                            { id: 'graveyard', label: 'Graveyard' }
+                            { id: 'graveyard', label: 'Graveyard' },
+                            { id: 'migrations', label: 'Storage Migrations' }
                         ].map((tab) => (
                             <button
                                 key={tab.id}
@@ -405,6 +410,11 @@ export default function AdminPage() {
                     <AnalyticsDashboard />
                 )}
 
+                {/* STORAGE MIGRATIONS TAB */}
+                {activeTab === 'migrations' && (
+                    <StorageMigrationsPanel />
+                )}
+
                 {/* OVERVIEW TAB */}
                 {activeTab === 'overview' && (
                     <div className="space-y-6">
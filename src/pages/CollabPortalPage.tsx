@@ -16,7 +16,9 @@ import {
     Warning,
     ShieldCheck,
     FileArrowUp,
-    FolderPlus
+    FolderPlus,
+    UsersThree,
+    Eye
 } from '@phosphor-icons/react';
 import {
     fromBase64,
@@ -31,6 +33,22 @@ import logoImg from '../assets/nest-logo.png';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 import { StreamingDownloader } from '../utils/StreamingDownloader';
+import { getPreviewKind, type PreviewSource, type PreviewTarget } from '../utils/filePreview';
+import { zipFolderPaths, zipSafeName } from '../utils/StreamingExport';
+import { FilePreviewModal } from '../components/FilePreviewModal';
+import { UploadProgress } from '../components/UploadProgress';
+import { ThumbnailIcon } from '../components/ThumbnailIcon';
+import { generateThumbnail, attachThumbnail, collabThumbnailLoader } from '../utils/thumbnails';
+import { useCollabLive } from '../hooks/useCollabLive';
+import { useZipDownload } from '../hooks/useZipDownload';
+import {
+    COLLAB_ROLES,
+    COLLAB_ROLE_LABELS,
+    COLLAB_ROLE_DESCRIPTIONS,
+    hasCollabRole,
+    type CollabRole,
+    type CollabGuestRole
+} from '../utils/collabRoles';
 
 // Helper to convert base64url to base64
 const fromBase64url = (str: string): Uint8Array => {
@@ -108,10 +126,21 @@ export const CollabPortalPage = () => {
     const [uploadProgress, setUploadProgress] = useState(0);
     const [uploadCount, setUploadCount] = useState(1);
     const [downloadingFileId, setDownloadingFileId] = useState<number | null>(null);
+    const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+    const [selectedFileIds, setSelectedFileIds] = useState<Set<number>>(new Set());
+    const downloadZip = useZipDownload();
 
     const [submittingOtp, setSubmittingOtp] = useState(false);
     const [submittingFolder, setSubmittingFolder] = useState(false);
 
+    // What this guest may do; refreshed with every file list poll so host changes show up
+    const [role, setRole] = useState<CollabRole | null>(null);
+    const [showMembers, setShowMembers] = useState(false);
+    const [members, setMembers] = useState<{ email: string; role: CollabGuestRole }[]>([]);
+    const canUpload = hasCollabRole(role, 'contributor');
+    const canEdit = hasCollabRole(role, 'editor');
+    const canManageMembers = hasCollabRole(role, 'co-owner');
+
     // 1. Recover keys from URL fragment and sessionStorage
     useEffect(() => {
         const loadKeys = async () => {
@@ -321,6 +350,7 @@ export const CollabPortalPage = () => {
 
             setCollabKey(derivedCollabKey);
             setSessionToken(data.session_token);
+            setRole(data.role ?? null);
             sessionStorage.setItem(`collab_session_${token}`, data.session_token);
             sessionStorage.setItem(`collab_key_${token}`, toBase64(derivedCollabKey));
             sessionStorage.setItem(`collab_email_${token}`, email);
@@ -369,6 +399,9 @@ export const CollabPortalPage = () => {
         }
     }, [sessionToken, collabKey, token]);
 
+    // Other participants' changes arrive immediately; the poll above is the fallback
+    const viewers = useCollabLive(sessionToken && collabKey ? token : null, sessionToken, () => fetchFilesList());
+
     const fetchFilesList = async () => {
         if (!token || !sessionToken || !collabKey) return;
         try {
@@ -386,6 +419,7 @@ export const CollabPortalPage = () => {
 
             const data = await response.json();
             setCollabRootId(data.collab_root_id);
+            setRole(data.role ?? null);
             setRawFiles(data.files || []);
             setRawFolders(data.folders || []);
         } catch (err) {
@@ -422,11 +456,17 @@ export const CollabPortalPage = () => {
                 obsideo_key: f.obsideo_key,
                 merkle_hash: f.merkle_hash,
                 file_key_encrypted: f.file_key_encrypted,
-                file_key_nonce: f.file_key_nonce
+                file_key_nonce: f.file_key_nonce,
+                has_thumbnail: f.has_thumbnail
             }));
 
         setFolders(mappedFolders);
         setFiles(mappedFiles);
+        // Keep only selected files that are still listed here
+        setSelectedFileIds(prev => {
+            const next = new Set(mappedFiles.filter(f => prev.has(f.id)).map(f => f.id));
+            return next.size === prev.size ? prev : next;
+        });
     }, [rawFiles, rawFolders, currentFolderId, collabKey, collabRootId]);
 
     // Handle breadcrumb clicks
@@ -461,9 +501,46 @@ export const CollabPortalPage = () => {
         sessionStorage.removeItem(`collab_key_${token}`);
         setSessionToken(null);
         setCollabKey(null);
+        setRole(null);
         setOnboardingStep('info');
     };
 
+    // Co-owners: list guests and change their roles
+    const openMembers = async () => {
+        if (!token || !sessionToken) return;
+        try {
+            const response = await fetch(`${API_BASE_URL}/collab/${token}/members`, {
+                headers: { 'x-collab-session': sessionToken }
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to load members');
+            setMembers(data.members || []);
+            setShowMembers(true);
+        } catch (err: any) {
+            showToast(err.message || 'Failed to load members', 'error');
+        }
+    };
+
+    const handleChangeMemberRole = async (memberEmail: string, newRole: CollabGuestRole) => {
+        if (!token || !sessionToken) return;
+        try {
+            const response = await fetch(`${API_BASE_URL}/collab/${token}/members`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-collab-session': sessionToken
+                },
+                body: JSON.stringify({ email: memberEmail, role: newRole })
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to change role');
+            setMembers(prev => prev.map(m => (m.email === memberEmail ? { ...m, role: newRole } : m)));
+            showToast(`${memberEmail} is now ${COLLAB_ROLE_LABELS[newRole].toLowerCase()}`, 'success');
+        } catch (err: any) {
+            showToast(err.message || 'Failed to change role', 'error');
+        }
+    };
+
     // Create a subfolder
     const handleCreateFolder = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -509,7 +586,10 @@ export const CollabPortalPage = () => {
                 headers: { 'x-collab-session': sessionToken! }
             });
 
-            if (!response.ok) throw new Error('Failed to delete file');
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to delete file');
+            }
             showToast(`"${name}" moved to Trash`, 'success');
             fetchFilesList();
         } catch (err: any) {
@@ -533,7 +613,10 @@ export const CollabPortalPage = () => {
                 body: JSON.stringify({ new_filename_encrypted: newNameEncrypted })
             });
 
-            if (!response.ok) throw new Error('Failed to rename file');
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to rename file');
+            }
             showToast('File renamed', 'success');
             setRenameFileItem(null);
             fetchFilesList();
@@ -562,6 +645,7 @@ export const CollabPortalPage = () => {
             const encryptedMime = encryptSymmetricMetadata(file.type || 'application/octet-stream', collabKey);
 
             const parentFolderId = currentFolderId === null ? collabRootId : currentFolderId;
+            const thumbnail = generateThumbnail(file);
             
             const CHUNK_THRESHOLD = 128 * 1024 * 1024; // 128MB
             const CHUNK_SIZE = 128 * 1024 * 1024;
@@ -625,6 +709,7 @@ export const CollabPortalPage = () => {
                     }
 
                     await filesAPI.finishCollabChunkedUpload(token, fileId, encryptedFilename, encryptedMime, sessionToken);
+                    await attachThumbnail(thumbnail, fileKey, { fileId, collabToken: token, sessionToken });
                 } catch (err: any) {
                     throw err;
                 }
@@ -659,10 +744,14 @@ export const CollabPortalPage = () => {
                     }
                 };
 
-                const uploadPromise = new Promise<void>((resolve, reject) => {
+                const uploadPromise = new Promise<{ file_id?: number }>((resolve, reject) => {
                     xhr.onload = () => {
                         if (xhr.status >= 200 && xhr.status < 300) {
-                            resolve();
+                            try {
+                                resolve(JSON.parse(xhr.responseText));
+                            } catch {
+                                resolve({});
+                            }
                         } else {
                             try {
                                 const resData = JSON.parse(xhr.responseText);
@@ -676,7 +765,10 @@ export const CollabPortalPage = () => {
                 });
 
                 xhr.send(formData);
-                await uploadPromise;
+                const { file_id: uploadedFileId } = await uploadPromise;
+                if (uploadedFileId) {
+                    await attachThumbnail(thumbnail, fileKey, { fileId: uploadedFileId, collabToken: token, sessionToken });
+                }
             }
 
             showToast('File shared successfully', 'success');
@@ -749,6 +841,88 @@ export const CollabPortalPage = () => {
         }
     };
 
+    // Keys and chunk list for decrypting a file in the browser (previews and ZIPs)
+    const resolveFileSource = async (file: any): Promise<PreviewSource> => {
+        if (!collabKey || !token || !sessionToken) throw new Error('Collab session expired');
+        await initCrypto();
+        const { decryptFileKey, decryptFile } = await import('@lazybird-inc/nest-crypto');
+        const fileKey = decryptFileKey(fromBase64(file.file_key_encrypted), fromBase64(file.file_key_nonce), collabKey);
+        const headers = { 'x-collab-session': sessionToken };
+
+        if (!file.is_chunked) {
+            return {
+                decrypt: async () => {
+                    const response = await fetch(`${API_BASE_URL}/collab/${token}/files/${file.id}/raw`, { headers });
+                    if (!response.ok) throw new Error('Download request failed');
+                    return decryptFile(await response.blob(), null, fileKey);
+                }
+            };
+        }
+        const detailsResponse = await fetch(`${API_BASE_URL}/collab/${token}/files/${file.id}`, { headers });
+        if (!detailsResponse.ok) throw new Error('Failed to retrieve chunk details from server');
+        const detailsData = await detailsResponse.json();
+        return {
+            fileKey,
+            chunks: detailsData.chunks || [],
+            auth: { collabToken: token, collabSession: sessionToken, fileId: file.id }
+        };
+    };
+
+    const handlePreviewFile = (file: any) => {
+        if (!collabKey || !token || !sessionToken) return;
+        setPreviewTarget({
+            name: file.name,
+            mimeType: file.mime,
+            size: file.size,
+            resolve: () => resolveFileSource(file),
+            onDownload: () => handleDownloadFile(file)
+        });
+    };
+
+    // A subfolder downloads as one ZIP with its own subfolders inside
+    const handleDownloadFolderZip = (folder: { id: number; name: string }) => {
+        if (!collabKey) return;
+        const paths = zipFolderPaths(folder.id, folder.name, rawFolders.map(f => ({
+            id: f.id,
+            parent_id: f.parent_id,
+            name: decryptSymmetricMetadata(f.encrypted_folder_name, collabKey)
+        })));
+        const entries = rawFiles
+            .filter(f => paths.has(f.folder_id))
+            .map(f => ({
+                path: `${paths.get(f.folder_id)}/${zipSafeName(decryptSymmetricMetadata(f.encrypted_filename, collabKey))}`,
+                size: f.file_size,
+                resolve: () => resolveFileSource(f)
+            }));
+
+        if (entries.length === 0) {
+            showToast('This folder has no files to download', 'info');
+            return;
+        }
+        downloadZip(`${zipSafeName(folder.name)}.zip`, entries);
+    };
+
+    const handleDownloadSelected = () => {
+        const selected = files.filter(f => selectedFileIds.has(f.id));
+        const path = getBreadcrumbs();
+        const folderName = path.length > 0 ? path[path.length - 1].name : collabName;
+        downloadZip(`${zipSafeName(folderName || 'Collab files')}.zip`, selected.map(f => ({
+            path: zipSafeName(f.name),
+            size: f.size,
+            resolve: () => resolveFileSource(f)
+        })));
+        setSelectedFileIds(new Set());
+    };
+
+    const toggleFileSelected = (fileId: number) => {
+        setSelectedFileIds(prev => {
+            const next = new Set(prev);
+            if (next.has(fileId)) next.delete(fileId);
+            else next.add(fileId);
+            return next;
+        });
+    };
+
     // Render loading state
     if (loading) {
         return (
@@ -933,8 +1107,15 @@ export const CollabPortalPage = () => {
                     </span>
                 </div>
                 <div className="flex items-center gap-4">
+                    {viewers > 1 && (
+                        <span className="hidden sm:inline-flex items-center gap-1.5 text-xs font-medium text-text-muted" title="People with this folder open right now">
+                            <Eye size={14} />
+                            {viewers} people viewing
+                        </span>
+                    )}
                     <div className="hidden sm:flex flex-col text-right">
                         <span className="text-sm font-bold text-text-main">{email}</span>
+                        {role && <span className="text-[10px] font-semibold text-text-muted uppercase tracking-wide">{COLLAB_ROLE_LABELS[role]}</span>}
                     </div>
                     <button
                         onClick={handleSignOut}
@@ -981,66 +1162,109 @@ export const CollabPortalPage = () => {
                     </div>
 
                     <div className="flex flex-wrap items-center gap-2">
-                        <div className="relative">
+                        {canManageMembers && (
                             <button
-                                onClick={() => setShowNewMenu(!showNewMenu)}
-                                className={`flex items-center gap-2.5 bg-primary text-white shadow-md shadow-primary/20 transition-all px-4 py-2 rounded-xl font-bold group border border-white/10 hover:bg-primary/90 hover:shadow-lg ${showNewMenu ? 'bg-primary/90 shadow-lg' : ''}`}
+                                onClick={openMembers}
+                                className="flex items-center gap-2 px-3 py-2 rounded-xl border border-border/60 text-text-main hover:bg-white/40 transition-colors text-sm font-semibold"
                             >
-                                <Plus size={20} weight="bold" className={`text-white transition-transform duration-300 ${showNewMenu ? 'rotate-45' : 'group-hover:rotate-90'}`} />
-                                <span>New</span>
+                                <UsersThree size={18} />
+                                <span>Members</span>
                             </button>
-                            
-                            {showNewMenu && (
-                                <>
-                                    <div className="fixed inset-0 z-40" onClick={() => setShowNewMenu(false)} />
-                                    <div className="absolute top-full right-0 mt-2 bg-white/95 backdrop-blur-md border border-white/40 rounded-2xl shadow-xl z-50 py-2 animate-in fade-in slide-in-from-top-2 duration-200 min-w-[180px]">
-                                        <button
-                                            onClick={() => {
-                                                setShowNewMenu(false);
-                                                document.getElementById('file-upload')?.click();
-                                            }}
-                                            className="w-full flex items-center gap-3 px-4 py-3 hover:bg-primary/10 text-text-main transition-colors text-left"
-                                        >
-                                            <FileArrowUp size={20} className="text-primary" />
-                                            <span className="font-medium text-sm">File upload</span>
-                                        </button>
-                                        <button
-                                            onClick={() => {
-                                                setShowNewMenu(false);
-                                                setShowCreateFolder(true);
-                                            }}
-                                            className="w-full flex items-center gap-3 px-4 py-3 hover:bg-primary/10 text-text-main transition-colors text-left"
-                                        >
-                                            <FolderPlus size={20} className="text-primary" />
-                                            <span className="font-medium text-sm">New Folder</span>
-                                        </button>
-                                    </div>
-                                </>
-                            )}
-                            
-                            <input
-                                type="file"
-                                multiple
-                                className="hidden"
-                                id="file-upload"
-                                onChange={(e) => {
-                                    if (e.target.files && e.target.files.length) {
-                                        const selected = Array.from(e.target.files);
-                                        setUploadCount(selected.length);
-                                        selected.forEach(handleUploadFile);
-                                    }
-                                }}
-                            />
-                        </div>
+                        )}
+                        {canUpload && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowNewMenu(!showNewMenu)}
+                                    className={`flex items-center gap-2.5 bg-primary text-white shadow-md shadow-primary/20 transition-all px-4 py-2 rounded-xl font-bold group border border-white/10 hover:bg-primary/90 hover:shadow-lg ${showNewMenu ? 'bg-primary/90 shadow-lg' : ''}`}
+                                >
+                                    <Plus size={20} weight="bold" className={`text-white transition-transform duration-300 ${showNewMenu ? 'rotate-45' : 'group-hover:rotate-90'}`} />
+                                    <span>New</span>
+                                </button>
+                                
+                                {showNewMenu && (
+                                    <>
+                                        <div className="fixed inset-0 z-40" onClick={() => setShowNewMenu(false)} />
+                                        <div className="absolute top-full right-0 mt-2 bg-white/95 backdrop-blur-md border border-white/40 rounded-2xl shadow-xl z-50 py-2 animate-in fade-in slide-in-from-top-2 duration-200 min-w-[180px]">
+                                            <button
+                                                onClick={() => {
+                                                    setShowNewMenu(false);
+                                                    document.getElementById('file-upload')?.click();
+                                                }}
+                                                className="w-full flex items-center gap-3 px-4 py-3 hover:bg-primary/10 text-text-main transition-colors text-left"
+                                            >
+                                                <FileArrowUp size={20} className="text-primary" />
+                                                <span className="font-medium text-sm">File upload</span>
+                                            </button>
+                                            <button
+                                                onClick={() => {
+                                                    setShowNewMenu(false);
+                                                    setShowCreateFolder(true);
+                                                }}
+                                                className="w-full flex items-center gap-3 px-4 py-3 hover:bg-primary/10 text-text-main transition-colors text-left"
+                                            >
+                                                <FolderPlus size={20} className="text-primary" />
+                                                <span className="font-medium text-sm">New Folder</span>
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                                
+                                <input
+                                    type="file"
+                                    multiple
+                                    className="hidden"
+                                    id="file-upload"
+                                    onChange={(e) => {
+                                        if (e.target.files && e.target.files.length) {
+                                            const selected = Array.from(e.target.files);
+                                            setUploadCount(selected.length);
+                                            selected.forEach(handleUploadFile);
+                                        }
+                                    }}
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
 
                 {/* Main Files Table */}
                 <div className="glass-panel border-white/60 shadow-sm overflow-hidden flex-1 flex flex-col">
+                    {selectedFileIds.size > 0 && (
+                        <div className="flex items-center justify-between gap-3 px-4 py-2 bg-primary/10 border-b border-border/40">
+                            <span className="text-xs font-semibold text-text-main">
+                                {selectedFileIds.size} {selectedFileIds.size === 1 ? 'file' : 'files'} selected
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={handleDownloadSelected}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/80 transition-colors text-xs font-semibold"
+                                >
+                                    <DownloadSimple size={14} weight="bold" />
+                                    Download as ZIP
+                                </button>
+                                <button
+                                    onClick={() => setSelectedFileIds(new Set())}
+                                    className="text-xs font-medium text-text-muted hover:text-text-main transition-colors"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                        </div>
+                    )}
                     <div className="overflow-x-auto">
                         <table className="w-full text-left border-collapse">
                             <thead>
                                 <tr className="border-b border-border/40 text-[10px] uppercase font-bold text-text-muted bg-black/5">
+                                    <th className="pl-4 py-4 w-8">
+                                        <input
+                                            type="checkbox"
+                                            checked={files.length > 0 && selectedFileIds.size === files.length}
+                                            onChange={() => setSelectedFileIds(selectedFileIds.size === files.length ? new Set() : new Set(files.map(f => f.id)))}
+                                            disabled={files.length === 0}
+                                            className="accent-primary cursor-pointer"
+                                            aria-label="Select all files"
+                                        />
+                                    </th>
                                     <th className="p-4">Name</th>
                                     <th className="p-4 w-32">Type</th>
                                     <th className="p-4 w-28">Size</th>
@@ -1056,6 +1280,7 @@ export const CollabPortalPage = () => {
                                         className="border-b border-border/20 hover:bg-white/30 transition-colors cursor-pointer group"
                                         onDoubleClick={() => setCurrentFolderId(folder.id)}
                                     >
+                                        <td className="pl-4 py-4 w-8" />
                                         <td className="p-4">
                                             <div className="flex items-center gap-3 min-w-0">
                                                 <div className="p-1.5 rounded-md shadow-sm border border-white/20 bg-primary/20 text-primary">
@@ -1073,7 +1298,13 @@ export const CollabPortalPage = () => {
                                         </td>
                                         <td className="p-4 text-center">
                                             {/* Folder Actions */}
-                                    <span className="text-text-muted text-xs">-</span>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleDownloadFolderZip(folder); }}
+                                                title="Download as ZIP"
+                                                className="p-1.5 rounded hover:bg-black/10 transition-colors text-text-muted hover:text-primary"
+                                            >
+                                                <DownloadSimple size={16} weight="bold" />
+                                            </button>
                                         </td>
                                     </tr>
                                 ))}
@@ -1081,16 +1312,29 @@ export const CollabPortalPage = () => {
                                 {/* Files List */}
                                 {files.map(file => {
                                     const FileTypeIcon = getFileIcon(file.mime || '');
+                                    const icon = (
+                                        <div className="p-1.5 rounded-md shadow-sm border border-white/20 bg-white/40 text-text-main">
+                                            <FileTypeIcon size={18} weight="duotone" />
+                                        </div>
+                                    );
+                                    const thumbnail = collabKey && token ? collabThumbnailLoader(token, file, collabKey, sessionToken ?? undefined) : undefined;
                                     return (
                                         <tr
                                             key={file.id}
                                             className="border-b border-border/20 hover:bg-white/30 transition-colors group"
                                         >
+                                            <td className="pl-4 py-4 w-8">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedFileIds.has(file.id)}
+                                                    onChange={() => toggleFileSelected(file.id)}
+                                                    className="accent-primary cursor-pointer"
+                                                    aria-label={`Select ${file.name}`}
+                                                />
+                                            </td>
                                             <td className="p-4">
                                                 <div className="flex items-center gap-3 min-w-0">
-                                                    <div className="p-1.5 rounded-md shadow-sm border border-white/20 bg-white/40 text-text-main">
-                                                        <FileTypeIcon size={18} weight="duotone" />
-                                                    </div>
+                                                    {thumbnail ? <ThumbnailIcon load={thumbnail}>{icon}</ThumbnailIcon> : icon}
                                                     <span className="text-sm font-medium text-text-main group-hover:text-primary truncate max-w-xs sm:max-w-md transition-colors" title={file.name}>
                                                         {file.name}
                                                     </span>
@@ -1108,6 +1352,15 @@ export const CollabPortalPage = () => {
                                                 {new Date(file.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                                             </td>
                                             <td className="p-4 flex items-center justify-center gap-2">
+                                                {getPreviewKind(file.mime, file.name) && (
+                                                    <button
+                                                        onClick={() => handlePreviewFile(file)}
+                                                        title="Preview"
+                                                        className="p-1.5 rounded hover:bg-black/10 transition-colors text-text-muted hover:text-primary"
+                                                    >
+                                                        <Eye size={16} weight="bold" />
+                                                    </button>
+                                                )}
                                                 <button
                                                     onClick={() => handleDownloadFile(file)}
                                                     disabled={downloadingFileId === file.id}
@@ -1120,23 +1373,27 @@ export const CollabPortalPage = () => {
                                                         <DownloadSimple size={16} weight="bold" />
                                                     )}
                                                 </button>
-                                                <button
-                                                    onClick={() => {
-                                                        setRenameFileItem(file);
-                                                        setRenameValue(file.name);
-                                                    }}
-                                                    className="p-1.5 text-text-muted hover:text-primary transition-colors"
-                                                    title="Rename"
-                                                >
-                                                    <PencilSimple size={18} />
-                                                </button>
-                                                <button
-                                                    onClick={() => handleDeleteFile(file.id, file.name)}
-                                                    className="p-1.5 text-text-muted hover:text-error transition-colors"
-                                                    title="Delete"
-                                                >
-                                                    <Trash size={18} />
-                                                </button>
+                                                {canEdit && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => {
+                                                                setRenameFileItem(file);
+                                                                setRenameValue(file.name);
+                                                            }}
+                                                            className="p-1.5 text-text-muted hover:text-primary transition-colors"
+                                                            title="Rename"
+                                                        >
+                                                            <PencilSimple size={18} />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDeleteFile(file.id, file.name)}
+                                                            className="p-1.5 text-text-muted hover:text-error transition-colors"
+                                                            title="Delete"
+                                                        >
+                                                            <Trash size={18} />
+                                                        </button>
+                                                    </>
+                                                )}
                                             </td>
                                         </tr>
                                     );
@@ -1145,12 +1402,14 @@ export const CollabPortalPage = () => {
                                 {/* Empty State */}
                                 {folders.length === 0 && files.length === 0 && (
                                     <tr>
-                                        <td colSpan={5} className="py-16 text-center">
+                                        <td colSpan={6} className="py-16 text-center">
                                             <div className="flex flex-col items-center gap-3">
                                                 <Folder size={40} className="text-text-muted/40 animate-pulse" />
                                                 <span className="text-sm font-semibold text-text-muted">This folder is empty</span>
                                                 <span className="text-xs text-text-muted max-w-xs leading-normal">
-                                                    Drag and drop files, or use the buttons above to share files with {hostEmail}.
+                                                    {canUpload
+                                                        ? <>Drag and drop files, or use the buttons above to share files with {hostEmail}.</>
+                                                        : <>You have view-only access. Files {hostEmail} shares here will appear in this list.</>}
                                                 </span>
                                             </div>
                                         </td>
@@ -1256,6 +1515,51 @@ export const CollabPortalPage = () => {
                     </div>
                 )}
 
+                {/* Members Modal (co-owners) */}
+                {showMembers && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            className="bg-card border border-border rounded-2xl p-6 shadow-xl max-w-md w-full"
+                        >
+                            <h3 className="font-bold text-text-main text-lg mb-1">Members</h3>
+                            <p className="text-xs text-text-muted mb-4">Only {hostEmail} can add people or appoint co-owners.</p>
+                            <div className="flex flex-col gap-2 max-h-80 overflow-y-auto custom-scrollbar">
+                                {members.map(member => {
+                                    const locked = member.role === 'co-owner' && role !== 'owner';
+                                    return (
+                                        <div key={member.email} className="flex items-center gap-3 border border-border/40 rounded-xl px-3 py-2">
+                                            <span className="flex-1 text-sm text-text-main truncate">{member.email}</span>
+                                            <select
+                                                value={member.role}
+                                                disabled={locked || member.email === email}
+                                                onChange={(e) => handleChangeMemberRole(member.email, e.target.value as CollabGuestRole)}
+                                                title={COLLAB_ROLE_DESCRIPTIONS[member.role]}
+                                                className="bg-black/5 border border-border/40 rounded-lg px-2 py-1 text-xs text-text-main focus:outline-none disabled:opacity-60"
+                                            >
+                                                {COLLAB_ROLES.filter(r => r !== 'co-owner' || locked || role === 'owner').map(r => (
+                                                    <option key={r} value={r}>{COLLAB_ROLE_LABELS[r]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex justify-end mt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowMembers(false)}
+                                    className="px-4 py-2 border border-border text-text-main rounded-xl hover:bg-card text-xs font-semibold"
+                                >
+                                    Done
+                                </button>
+                            </div>
+                        </motion.div>
+                    </div>
+                )}
+
                 {/* File Upload Overlay Modal */}
                 {uploading && (
                     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
@@ -1269,6 +1573,9 @@ export const CollabPortalPage = () => {
                     </div>
                 )}
             </AnimatePresence>
+
+            <FilePreviewModal target={previewTarget} onClose={() => setPreviewTarget(null)} />
+            <UploadProgress />
         </div>
     );
 };
@@ -9,10 +9,67 @@ import {
     Warning,
     Prohibit
 } from '@phosphor-icons/react';
-import { fromBase64, toBase64, init as initCrypto, encryptFileForDropZone } from '@lazybird-inc/nest-crypto';
+import { fromBase64, toBase64, init as initCrypto, generateFileKey, encryptChunk } from '@lazybird-inc/nest-crypto';
 import sodium from 'libsodium-wrappers';
 import logoImg from '../assets/nest-logo.png';
 import { useToast } from '../contexts/ToastContext';
+import { runChunkPipeline } from '../utils/chunkPipeline';
+import { CHUNK_SIZE, MAX_PARALLEL_CHUNKS, INITIAL_PARALLEL_CHUNKS } from '../config/upload';
+import { isAllowedDropZoneType, describeDropZoneTypes } from '../utils/dropZoneTypes';
+import { formatBytes } from '../utils/fileFormat';
+import {
+    UPLOADER_FIELD_KEYS,
+    UPLOADER_FIELD_LABELS,
+    missingUploaderFields,
+    collectUploaderInfo,
+    type UploaderFields,
+    type UploaderInfo
+} from '../utils/dropZoneUploader';
+
+const MAX_CHUNK_RETRIES = 3;
+
+// Limits the owner set on this zone (null = unlimited)
+interface DropZoneLimits {
+    max_file_size_bytes: number | null;
+    allowed_types: string[] | null;
+    bytes_remaining: number | null;
+    files_remaining: number | null;
+}
+
+// A chunked upload that can be picked up again after a failure or reload
+interface ResumableUpload {
+    fileId: number;
+    uploadToken: string;
+    fileKey: string;
+}
+
+// POSTs multipart form data via XHR for upload progress; rejects with the server's error and status
+const postWithProgress = (url: string, formData: FormData, headers: Record<string, string>, onProgress: (percent: number) => void) =>
+    new Promise<void>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', url);
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) onProgress((event.loaded / event.total) * 100);
+        };
+        xhr.onload = () => {
+            if (xhr.status >= 200 && xhr.status < 300) {
+                resolve();
+                return;
+            }
+            let message = `Upload failed with status ${xhr.status}`;
+            try {
+                message = JSON.parse(xhr.responseText).error || 'Upload failed';
+            } catch { /* non-JSON error body */ }
+            const errorObj: any = new Error(message);
+            errorObj.status = xhr.status;
+            reject(errorObj);
+        };
+        xhr.onerror = () => reject(new Error('Network error during upload'));
+        xhr.onabort = () => reject(new Error('Upload aborted'));
+        xhr.send(formData);
+    });
 
 // Custom Unique Icon Component - Protected Prism
 const ProtectedPrism = () => (
@@ -52,7 +109,7 @@ export const DropZonePage = () => {
 
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
-    const [deadState, setDeadState] = useState<'revoked' | 'expired' | null>(null);
+    const [deadState, setDeadState] = useState<'revoked' | 'expired' | 'closed' | null>(null);
     const [pinRequired, setPinRequired] = useState(false);
     const [pin, setPin] = useState('');
     const [pinError, setPinError] = useState('');
@@ -61,6 +118,9 @@ export const DropZonePage = () => {
     // Drop zone information
     const [dropZoneName, setDropZoneName] = useState('');
     const [dropPublicKey, setDropPublicKey] = useState<Uint8Array | null>(null);
+    const [limits, setLimits] = useState<DropZoneLimits | null>(null);
+    const [uploaderFields, setUploaderFields] = useState<UploaderFields | null>(null);
+    const [uploaderInfo, setUploaderInfo] = useState<UploaderInfo>({});
 
     // Upload state
     const [uploading, setUploading] = useState(false);
@@ -99,6 +159,7 @@ export const DropZonePage = () => {
             if (response.status === 410) {
                 const data = await response.json();
                 if (data.expired) setDeadState('expired');
+                else if (data.closed) setDeadState('closed');
                 else setDeadState('revoked');
                 setLoading(false);
                 return;
@@ -111,6 +172,8 @@ export const DropZonePage = () => {
 
             const data = await response.json();
             setDropZoneName(data.name);
+            setLimits(data.limits ?? null);
+            setUploaderFields(data.uploader_fields ?? null);
             await initCrypto();
             setDropPublicKey(fromBase64(data.drop_public_key));
             setPinRequired(false);
@@ -155,73 +218,127 @@ export const DropZonePage = () => {
         return toBase64(encrypted);
     };
 
-    const handleUploadFile = async (file: File) => {
+    const uploadHeaders = (uploadToken?: string): Record<string, string> => {
+        const headers: Record<string, string> = {};
+        if (sessionToken) headers['x-dz-session'] = sessionToken;
+        if (uploadToken) headers['x-dz-upload'] = uploadToken;
+        return headers;
+    };
+
+    // Picks up an interrupted upload of the same file from earlier in this tab, if the server still has it
+    const resumeUpload = async (resumeKey: string): Promise<{ upload: ResumableUpload; received: Set<number> } | null> => {
+        const saved = sessionStorage.getItem(resumeKey);
+        if (!saved) return null;
+        try {
+            const upload: ResumableUpload = JSON.parse(saved);
+            const response = await fetch(
+                `${API_BASE_URL}/drop-zones/${token}/upload/status?file_id=${upload.fileId}`,
+                { headers: uploadHeaders(upload.uploadToken) }
+            );
+            if (!response.ok) throw new Error(`status ${response.status}`);
+            const data = await response.json();
+            return { upload, received: new Set<number>(data.received_chunks) };
+        } catch (err) {
+            console.warn('[DZ-UPLOAD] Could not resume earlier upload, starting over:', err);
+            sessionStorage.removeItem(resumeKey);
+            return null;
+        }
+    };
+
+    // One submission = one selection or drop; its files share a session id and the sealed details
+    const handleUploadFile = async (file: File, sessionId: string, encryptedUploaderInfo: string | null) => {
         if (!dropPublicKey || !token) return;
         setUploading(true);
         setUploadProgress(0);
         setUploadSuccess(false);
 
         try {
-            // 1. Initialize crypto & load file bytes
             await initCrypto();
-            const fileBytes = new Uint8Array(await file.arrayBuffer());
-
-            // 2. Encrypt file using Drop Zone public key
-            // This returns: encryptedFile (Uint8Array), encryptedFileKey (Uint8Array), fileKeyNonce (Uint8Array)
-            const encryptedData = encryptFileForDropZone(fileBytes, dropPublicKey);
-
-            // 3. Encrypt filename and mime-type using dropPublicKey (sealed box)
-            const encryptedFilename = await encryptStringAsymmetric(file.name, dropPublicKey!);
-            const encryptedMimeType = await encryptStringAsymmetric(file.type || 'application/octet-stream', dropPublicKey!);
-
-            // 4. Create multipart form data
-            const formData = new FormData();
-            const encryptedFileBlob = new Blob([encryptedData.encryptedFile as any], { type: 'application/octet-stream' });
-            formData.append('file', encryptedFileBlob, 'encrypted-payload');
-            formData.append('encrypted_file_key', toBase64(encryptedData.encryptedFileKey));
-            formData.append('file_key_nonce', toBase64(encryptedData.fileKeyNonce));
-            formData.append('file_size', file.size.toString());
-            formData.append('encrypted_filename', encryptedFilename);
-            formData.append('encrypted_mime_type', encryptedMimeType);
-
-            // 5. Upload via XHR for progress tracking
-            const xhr = new XMLHttpRequest();
-            xhr.open('POST', `${API_BASE_URL}/drop-zones/${token}/upload`);
-            
-            if (sessionToken) {
-                xhr.setRequestHeader('x-dz-session', sessionToken);
-            }
-
-            xhr.upload.onprogress = (event) => {
-                if (event.lengthComputable) {
-                    const percentComplete = Math.round((event.loaded / event.total) * 100);
-                    setUploadProgress(percentComplete);
+            await sodium.ready;
+
+            // 1. Start (or resume) a chunked upload. The file key is sealed to the Drop Zone public
+            // key, so only the owner can open it.
+            const resumeKey = `dz_upload_${token}_${file.name}_${file.size}_${file.lastModified}`;
+            const resumed = await resumeUpload(resumeKey);
+            let upload = resumed?.upload;
+
+            if (!upload) {
+                const fileKey = generateFileKey();
+                const response = await fetch(`${API_BASE_URL}/drop-zones/${token}/upload/init`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json', ...uploadHeaders() },
+                    body: JSON.stringify({
+                        encrypted_file_key: toBase64(sodium.crypto_box_seal(fileKey, dropPublicKey) as Uint8Array),
+                        file_size: file.size,
+                        sessionId
+                    })
+                });
+                const data = await response.json();
+                if (!response.ok) {
+                    const errorObj: any = new Error(data.error || 'Upload failed');
+                    errorObj.status = response.status;
+                    throw errorObj;
                 }
-            };
+                upload = { fileId: data.file_id, uploadToken: data.upload_token, fileKey: toBase64(fileKey) };
+                // Tab-scoped, like the PIN session; the key only protects the guest's own file
+                sessionStorage.setItem(resumeKey, JSON.stringify(upload));
+            }
 
-            const uploadPromise = new Promise<void>((resolve, reject) => {
-                xhr.onload = () => {
-                    if (xhr.status >= 200 && xhr.status < 300) {
-                        resolve();
-                    } else {
+            // 2. Encrypt and send the chunks the server doesn't have yet
+            const { fileId, uploadToken } = upload;
+            const fileKey = fromBase64(upload.fileKey);
+            const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+            const indices = Array.from({ length: totalChunks }, (_, i) => i).filter(i => !resumed?.received.has(i));
+
+            await runChunkPipeline({
+                indices,
+                totalChunks,
+                initialParallel: INITIAL_PARALLEL_CHUNKS,
+                maxParallel: MAX_PARALLEL_CHUNKS,
+                onProgress: (p) => setUploadProgress(Math.round(p)),
+                task: async (i, { onProgress, congestion }) => {
+                    const start = i * CHUNK_SIZE;
+                    const { encryptedChunk, nonce } = await encryptChunk(file.slice(start, Math.min(start + CHUNK_SIZE, file.size)), fileKey);
+
+                    const formData = new FormData();
+                    formData.append('file_id', String(fileId));
+                    formData.append('chunk_index', String(i));
+                    formData.append('nonce', toBase64(nonce));
+                    formData.append('chunk', encryptedChunk, 'encrypted-chunk');
+
+                    for (let attempt = 1; ; attempt++) {
                         try {
-                            const resData = JSON.parse(xhr.responseText);
-                            const errorObj: any = new Error(resData.error || 'Upload failed');
-                            errorObj.status = xhr.status;
-                            reject(errorObj);
-                        } catch {
-                            const errorObj: any = new Error(`Upload failed with status ${xhr.status}`);
-                            errorObj.status = xhr.status;
-                            reject(errorObj);
+                            await postWithProgress(`${API_BASE_URL}/drop-zones/${token}/upload/chunk`, formData, uploadHeaders(uploadToken), onProgress);
+                            return encryptedChunk.size;
+                        } catch (err: any) {
+                            console.warn(`[DZ-UPLOAD] Chunk ${i} failed (attempt ${attempt}/${MAX_CHUNK_RETRIES}):`, err.message);
+                            // Client errors (PIN expired, quota, revoked link) won't fix themselves
+                            if (attempt >= MAX_CHUNK_RETRIES || (err.status && err.status < 500)) throw err;
+                            congestion();
+                            await new Promise(resolve => setTimeout(resolve, 2000 * attempt));
                         }
                     }
-                };
-                xhr.onerror = () => reject(new Error('Network error during upload'));
-                xhr.onabort = () => reject(new Error('Upload aborted'));
+                }
             });
 
-            xhr.send(formData);
-            await uploadPromise;
+            // 3. Finish with the filename and mime-type sealed to the Drop Zone public key
+            const response = await fetch(`${API_BASE_URL}/drop-zones/${token}/upload/finish`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...uploadHeaders(uploadToken) },
+                body: JSON.stringify({
+                    file_id: fileId,
+                    encrypted_filename: await encryptStringAsymmetric(file.name, dropPublicKey),
+                    encrypted_mime_type: await encryptStringAsymmetric(file.type || 'application/octet-stream', dropPublicKey),
+                    encrypted_uploader_info: encryptedUploaderInfo
+                })
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                const errorObj: any = new Error(data.error || 'Upload failed');
+                errorObj.status = response.status;
+                throw errorObj;
+            }
+            sessionStorage.removeItem(resumeKey);
 
             setUploadSuccess(true);
             showToast('File received securely!', 'success');
@@ -231,17 +348,49 @@ export const DropZonePage = () => {
             if (err.status === 401) {
                 setPinRequired(true);
             }
+            // Expired, revoked or closed meanwhile; reload to show which
+            if (err.status === 410) {
+                loadDropZone();
+            }
         } finally {
             setUploading(false);
         }
     };
 
+    // The server can't see names or types, so those limits are only checked here, before encrypting
+    const rejectionReason = (file: File): string | null => {
+        if (!limits) return null;
+        if (!isAllowedDropZoneType(file, limits.allowed_types)) {
+            return `${file.name}: this Drop Zone only accepts ${describeDropZoneTypes(limits.allowed_types!)}`;
+        }
+        if (limits.max_file_size_bytes && file.size > limits.max_file_size_bytes) {
+            return `${file.name} is larger than the ${formatBytes(limits.max_file_size_bytes)} limit`;
+        }
+        return null;
+    };
+
     // Upload every selected/dropped file sequentially. The page shares a single
     // `uploading`/`uploadProgress` state, so files must be awaited one at a time
     // rather than fired concurrently (which would clobber the progress display).
     const uploadFilesSequentially = async (fileList: FileList) => {
+        if (!dropPublicKey) return;
+        const missing = missingUploaderFields(uploaderFields, uploaderInfo);
+        if (missing.length) {
+            showToast(`Please fill in: ${missing.join(', ')}`, 'warning');
+            return;
+        }
+
+        const sessionId = crypto.randomUUID();
+        const info = collectUploaderInfo(uploaderFields, uploaderInfo);
+        const encryptedUploaderInfo = info ? await encryptStringAsymmetric(JSON.stringify(info), dropPublicKey) : null;
+
         for (const file of Array.from(fileList)) {
-            await handleUploadFile(file);
+            const reason = rejectionReason(file);
+            if (reason) {
+                showToast(reason, 'warning');
+                continue;
+            }
+            await handleUploadFile(file, sessionId, encryptedUploaderInfo);
         }
     };
 
@@ -311,12 +460,14 @@ export const DropZonePage = () => {
                     </div>
                     <div>
                         <h2 className="text-2xl font-bold text-text-main tracking-tight">
-                            {deadState === 'expired' ? 'Link Expired' : 'Link Revoked'}
+                            {deadState === 'expired' ? 'Link Expired' : deadState === 'closed' ? 'Drop Zone Closed' : 'Link Revoked'}
                         </h2>
                         <p className="text-text-muted text-sm mt-2 leading-relaxed">
                             {deadState === 'expired'
                                 ? 'This secure upload link has expired and is no longer accepting files.'
-                                : 'This secure upload link has been revoked by the owner.'}
+                                : deadState === 'closed'
+                                    ? 'This Drop Zone has received all the uploads it was set up for.'
+                                    : 'This secure upload link has been revoked by the owner.'}
                         </p>
                     </div>
                     <div className="text-xs text-text-muted mt-2">
@@ -453,39 +604,64 @@ export const DropZonePage = () => {
                             </div>
                         </div>
                     ) : (
-                        <div
-                            onDragOver={handleDragOver}
-                            onDragLeave={handleDragLeave}
-                            onDrop={handleDrop}
-                            onClick={triggerFilePicker}
-                            className={`border-2 border-dashed rounded-2xl p-8 sm:p-12 text-center cursor-pointer flex flex-col items-center gap-4 transition-all ${
-                                dragging
-                                    ? 'border-primary bg-primary/5 scale-[0.99] shadow-inner'
-                                    : 'border-border/60 hover:border-primary/50 hover:bg-white/10'
-                            }`}
-                        >
-                            <input
-                                type="file"
-                                multiple
-                                ref={fileInputRef}
-                                onChange={handleFileChange}
-                                className="hidden"
-                            />
-                            <div className="w-14 h-14 rounded-full bg-primary/5 flex items-center justify-center text-primary group-hover:scale-105 transition-transform duration-300">
-                                <UploadSimple size={28} />
-                            </div>
-                            <div>
-                                <span className="text-sm sm:text-base font-bold text-text-main block">
-                                    Drag & drop file here
-                                </span>
-                                <span className="text-xs text-text-muted mt-1 block">
-                                    or click to browse from device
-                                </span>
-                            </div>
-                            <div className="text-[10px] text-text-muted bg-white/20 border border-white/40 rounded-full px-3 py-1 font-medium mt-2">
-                                Write-Only Secure Deposit &bull; Max 10GB
+                        <>
+                            {uploaderFields && (
+                                <div className="flex flex-col gap-3 mb-6">
+                                    {UPLOADER_FIELD_KEYS.filter(field => uploaderFields[field]).map(field => {
+                                        const label = `${UPLOADER_FIELD_LABELS[field]}${uploaderFields[field] === 'optional' ? ' (optional)' : ''}`;
+                                        const inputProps = {
+                                            value: uploaderInfo[field] ?? '',
+                                            placeholder: label,
+                                            'aria-label': label,
+                                            maxLength: field === 'note' ? 2000 : 200,
+                                            className: 'w-full glass-input bg-white/50 focus:bg-white text-sm'
+                                        };
+                                        const update = (value: string) => setUploaderInfo(prev => ({ ...prev, [field]: value }));
+                                        return field === 'note' ? (
+                                            <textarea key={field} rows={3} {...inputProps} onChange={(e) => update(e.target.value)} />
+                                        ) : (
+                                            <input key={field} type={field === 'email' ? 'email' : 'text'} {...inputProps} onChange={(e) => update(e.target.value)} />
+                                        );
+                                    })}
+                                    <span className="text-[10px] text-text-muted">Encrypted in your browser; only the owner of this Drop Zone can read it.</span>
+                                </div>
+                            )}
+                            <div
+                                onDragOver={handleDragOver}
+                                onDragLeave={handleDragLeave}
+                                onDrop={handleDrop}
+                                onClick={triggerFilePicker}
+                                className={`border-2 border-dashed rounded-2xl p-8 sm:p-12 text-center cursor-pointer flex flex-col items-center gap-4 transition-all ${
+                                    dragging
+                                        ? 'border-primary bg-primary/5 scale-[0.99] shadow-inner'
+                                        : 'border-border/60 hover:border-primary/50 hover:bg-white/10'
+                                }`}
+                            >
+                                <input
+                                    type="file"
+                                    multiple
+                                    ref={fileInputRef}
+                                    onChange={handleFileChange}
+                                    className="hidden"
+                                />
+                                <div className="w-14 h-14 rounded-full bg-primary/5 flex items-center justify-center text-primary group-hover:scale-105 transition-transform duration-300">
+                                    <UploadSimple size={28} />
+                                </div>
+                                <div>
+                                    <span className="text-sm sm:text-base font-bold text-text-main block">
+                                        Drag & drop file here
+                                    </span>
+                                    <span className="text-xs text-text-muted mt-1 block">
+                                        or click to browse from device
+                                    </span>
+                                </div>
+                                <div className="text-[10px] text-text-muted bg-white/20 border border-white/40 rounded-full px-3 py-1 font-medium mt-2">
+                                    Write-Only Secure Deposit
+                                    {limits?.max_file_size_bytes ? <> &bull; Max {formatBytes(limits.max_file_size_bytes)}</> : null}
+                                    {limits?.allowed_types?.length ? <> &bull; {describeDropZoneTypes(limits.allowed_types)}</> : null}
+                                </div>
                             </div>
-                        </div>
+                        </>
                     )}
                 </div>
 
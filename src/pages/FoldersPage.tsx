@@ -1,9 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FolderPlus } from '@phosphor-icons/react';
-import { FileTable } from '../components/FileTable';
+import { FolderPlus, Eye } from '@phosphor-icons/react';
+import { FileTable, type UnifiedItem } from '../components/FileTable';
 import { CreateFolderModal } from '../components/CreateFolderModal';
+import { VersionHistoryModal } from '../components/VersionHistoryModal';
+import { FilePreviewModal } from '../components/FilePreviewModal';
+import { ShareFolderModal } from '../components/share/ShareFolderModal';
+import { SearchBar } from '../components/SearchBar';
 import { filesAPI } from '../api/files';
 import { foldersAPI } from '../api/folders';
 import { Breadcrumbs } from '../components/Breadcrumbs';
@@ -13,8 +17,18 @@ import { useStorage } from '../contexts/StorageContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useUpload } from '../contexts/UploadContext';
 import api from '../lib/api';
+import { rewrapVersionKeys } from '../utils/fileVersions';
+import { openSharedCollabKey } from '../utils/collabKeyRotation';
+import { useCollabLive } from '../hooks/useCollabLive';
+import { useZipDownload } from '../hooks/useZipDownload';
+import { useFolderUpload } from '../hooks/useFolderUpload';
+import { filesFromDataTransfer } from '../utils/folderUpload';
+import { ownerPreviewSource, toDownloadChunks, type PreviewSource, type PreviewTarget } from '../utils/filePreview';
+import { ownerThumbnailLoader, collabThumbnailLoader, type ThumbnailLoader } from '../utils/thumbnails';
+import { zipFolderPaths, zipSafeName, type ZipEntry } from '../utils/StreamingExport';
+import type { SearchEntry } from '../utils/search';
 import sodium from 'libsodium-wrappers';
-import { fromBase64, decryptWithMasterKey } from '@lazybird-inc/nest-crypto';
+import { fromBase64, decryptWithMasterKey, type MetadataBlob } from '@lazybird-inc/nest-crypto';
 
 interface FileItem {
     id: number;
@@ -27,8 +41,10 @@ interface FileItem {
     encrypted_filename?: string;
     encrypted_mime_type?: string;
     folderId?: number;
+    folder_id?: number;
     file_key_encrypted?: string;
     file_key_nonce?: string;
+    has_thumbnail?: boolean;
 }
 
 export const FoldersPage = () => {
@@ -39,6 +55,8 @@ export const FoldersPage = () => {
     const { refreshQuota } = useStorage();
     const { metadata, saveMetadata, masterKey, checkMetadataVersion } = useAuth();
     const { addUpload, addDownload, updateProgress, completeUpload, failUpload } = useUpload();
+    const downloadZip = useZipDownload();
+    const uploadFolder = useFolderUpload();
 
     // URL State Management
     const searchParams = new URLSearchParams(location.search);
@@ -49,6 +67,7 @@ export const FoldersPage = () => {
 
     // Standard navigation helper
     const handleNavigate = (id: number | null) => {
+        setHighlightedFileId(null);
         if (collabToken) {
             if (id === null) {
                 navigate(`/folders?collabToken=${collabToken}`, { replace: true });
@@ -64,6 +83,16 @@ export const FoldersPage = () => {
         }
     };
 
+    // Search results open their containing folder; files stay outlined until the next navigation
+    const handleSearchSelect = (entry: SearchEntry) => {
+        if (entry.kind === 'folder') {
+            handleNavigate(entry.id);
+            return;
+        }
+        handleNavigate(entry.folderId === primaryRootId ? null : entry.folderId);
+        setHighlightedFileId(entry.id);
+    };
+
     // State
     const [displayFiles, setDisplayFiles] = useState<FileItem[]>([]);
     const [displayFolders, setDisplayFolders] = useState<any[]>([]);
@@ -89,6 +118,10 @@ export const FoldersPage = () => {
     // Used to avoid flashing "No files or folders yet" at root before collab folders merge in.
     const [sharesLoaded, setSharesLoaded] = useState(false);
     const [dropZones, setDropZones] = useState<any[]>([]);
+    const [versionsFile, setVersionsFile] = useState<FileItem | null>(null);
+    const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+    const [sharingFolder, setSharingFolder] = useState<{ id: number; name: string } | null>(null);
+    const [highlightedFileId, setHighlightedFileId] = useState<number | null>(null);
 
     const collabToken = searchParams.get('collabToken');
 
@@ -104,6 +137,50 @@ export const FoldersPage = () => {
         }
     };
 
+    // Name and type of a file in the owner's tree: from the vault for their own files, otherwise
+    // sealed to the Drop Zone keypair or under the collab key the file came in through
+    const describeFile = (f: any, meta: MetadataBlob | null, hostCollabKey?: Uint8Array) => {
+        let filename = f.filename || `File ${f.id}`;
+        let mimeType = f.mime_type || 'application/octet-stream';
+
+        if (meta?.files[f.id.toString()]) {
+            filename = meta.files[f.id.toString()].filename;
+            mimeType = meta.files[f.id.toString()].mime_type;
+        } else if (f.file_origin === 'drop_zone' && f.encrypted_filename) {
+            // Asymmetrically encrypted Drop Zone file!
+            const dz = dropZones.find((d: any) => d.folderId === f.folder_id);
+            if (dz && dz.privateKey && dz.publicKey) {
+                try {
+                    const encryptedBytes = fromBase64(f.encrypted_filename);
+                    const decryptedBytes = sodium.crypto_box_seal_open(encryptedBytes as any, dz.publicKey as any, dz.privateKey as any);
+                    filename = sodium.to_string(decryptedBytes as any);
+
+                    if (f.encrypted_mime_type) {
+                        const encMimeBytes = fromBase64(f.encrypted_mime_type);
+                        const decMimeBytes = sodium.crypto_box_seal_open(encMimeBytes as any, dz.publicKey as any, dz.privateKey as any);
+                        mimeType = sodium.to_string(decMimeBytes as any);
+                    }
+                } catch (e) {
+                    console.error('Failed to decrypt Drop Zone file metadata:', e);
+                    filename = 'Decryption Error';
+                }
+            }
+        } else if (f.file_origin === 'collab' && f.encrypted_filename && hostCollabKey) {
+            // Collaborator-uploaded file: name/type are symmetrically encrypted with the
+            // collab key, which (for folders we own) we recovered into hostCollabKeys.
+            try {
+                filename = decryptSymmetricMetadata(f.encrypted_filename, hostCollabKey);
+                if (f.encrypted_mime_type) {
+                    mimeType = decryptSymmetricMetadata(f.encrypted_mime_type, hostCollabKey);
+                }
+            } catch (e) {
+                console.error('Failed to decrypt collab file metadata:', e);
+            }
+        }
+
+        return { filename, mimeType };
+    };
+
     useEffect(() => {
         if (!collabToken || !masterKey) {
             setCollabKey(null);
@@ -115,13 +192,7 @@ export const FoldersPage = () => {
                 if (res.data && res.data.success) {
                     const activeFolder = res.data.shared_folders?.find((f: any) => f.token === collabToken);
                     if (activeFolder) {
-                        const { decryptCollabKey, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
-                        await init();
-                        const key = decryptCollabKey(
-                            fromBase64(activeFolder.encrypted_collab_key),
-                            fromBase64(activeFolder.collab_key_nonce),
-                            masterKey
-                        );
+                        const key = await openSharedCollabKey(activeFolder, masterKey);
                         setCollabKey(key);
                     } else {
                         showToast('Collaborative folder access denied', 'error');
@@ -227,16 +298,27 @@ export const FoldersPage = () => {
         setIsDragging(false);
     };
 
+    // Dropped directories are recreated as folders; loose files go straight into this one
     const onFileDrop = (e: React.DragEvent) => {
         e.preventDefault();
         setIsDragging(false);
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            const targetId = selectedFolderId || collabRootId || primaryRootId || null;
+        if (!e.dataTransfer.files || e.dataTransfer.files.length === 0) return;
+
+        const targetId = selectedFolderId || collabRootId || primaryRootId || null;
+        filesFromDataTransfer(e.dataTransfer).then(dropped => {
+            if (dropped.folders.length > 0) {
+                if (collabToken && !collabKey) return;
+                uploadFolder(dropped, targetId, collabToken && collabKey ? { token: collabToken, key: collabKey } : undefined);
+                return;
+            }
             const sessionId = crypto.randomUUID();
-            Array.from(e.dataTransfer.files).forEach(file => {
+            dropped.files.forEach(({ file }) => {
                 addUpload(file, targetId, collabToken || undefined, collabKey || undefined, sessionId);
             });
-        }
+        }).catch(err => {
+            console.error('Reading dropped items failed:', err);
+            showToast('Could not read the dropped folder', 'error');
+        });
     };
 
     // Session Recovery: If key is lost, UI will show "Vault Locked" or prompt re-auth locally
@@ -414,45 +496,7 @@ export const FoldersPage = () => {
                     }));
 
                 const visibleFiles = (filesRes.files || []).map((f: any) => {
-                    let filename = f.filename || `File ${f.id}`;
-                    let mimeType = f.mime_type || 'application/octet-stream';
-
-                    if (currentMeta.files[f.id.toString()]) {
-                        filename = currentMeta.files[f.id.toString()].filename;
-                        mimeType = currentMeta.files[f.id.toString()].mime_type;
-                    } else if (f.file_origin === 'drop_zone' && f.encrypted_filename) {
-                        // Asymmetrically encrypted Drop Zone file!
-                            const dz = dropZones.find((d: any) => d.folderId === f.folder_id);
-                            if (dz && dz.privateKey && dz.publicKey) {
-                                try {
-                                    const encryptedBytes = fromBase64(f.encrypted_filename);
-                                    const decryptedBytes = sodium.crypto_box_seal_open(encryptedBytes as any, dz.publicKey as any, dz.privateKey as any);
-                                    filename = sodium.to_string(decryptedBytes as any);
-
-                                    if (f.encrypted_mime_type) {
-                                        const encMimeBytes = fromBase64(f.encrypted_mime_type);
-                                        const decMimeBytes = sodium.crypto_box_seal_open(encMimeBytes as any, dz.publicKey as any, dz.privateKey as any);
-                                        mimeType = sodium.to_string(decMimeBytes as any);
-                                    }
-                                } catch (e) {
-                                    console.error('Failed to decrypt Drop Zone file metadata:', e);
-                                    filename = 'Decryption Error';
-                                }
-                            }
-                    } else if (f.file_origin === 'collab' && f.encrypted_filename && hostCollabKeys[f.folder_id]) {
-                        // Collaborator-uploaded file: name/type are symmetrically encrypted with the
-                        // collab key, which (for folders we own) we recovered into hostCollabKeys.
-                        try {
-                            const collabFileKey = hostCollabKeys[f.folder_id];
-                            filename = decryptSymmetricMetadata(f.encrypted_filename, collabFileKey);
-                            if (f.encrypted_mime_type) {
-                                mimeType = decryptSymmetricMetadata(f.encrypted_mime_type, collabFileKey);
-                            }
-                        } catch (e) {
-                            console.error('Failed to decrypt collab file metadata:', e);
-                        }
-                    }
-
+                    const { filename, mimeType } = describeFile(f, currentMeta, hostCollabKeys[f.folder_id]);
                     return {
                         ...f,
                         filename,
@@ -682,7 +726,7 @@ export const FoldersPage = () => {
         }
     };
 
-    const handleDownload = async (file: FileItem) => {
+    const handleDownload = async (file: FileItem, version?: number) => {
         const isDropZoneFile = file.file_origin === 'drop_zone';
 
         if (collabToken) {
@@ -759,7 +803,7 @@ export const FoldersPage = () => {
         if (isDropZoneFile) {
             const downloadId = addDownload(file.filename, file.file_size);
             try {
-                const { decryptDropZoneFile, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
+                const { decryptDropZoneFile, decryptFile, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
                 await init();
 
                 const dz = dropZones.find((d: any) => d.folderId === file.folderId);
@@ -767,6 +811,58 @@ export const FoldersPage = () => {
                     throw new Error('Drop Zone private key not found');
                 }
 
+                // Chunked deposits seal a plain file key to the Drop Zone; each chunk has its own header
+                const downloadInfo = await api.get(`/files/download/${file.id}`);
+                const chunks = downloadInfo.data.chunks;
+                if (chunks?.length > 0) {
+                    await sodium.ready;
+                    const fileKey = sodium.crypto_box_seal_open(
+                        fromBase64(downloadInfo.data.file_key_encrypted), dz.publicKey, dz.privateKey
+                    ) as Uint8Array;
+                    const token = localStorage.getItem('nest_token');
+
+                    if (file.file_size > 128 * 1024 * 1024 && token) {
+                        const { StreamingDownloader } = await import('../utils/StreamingDownloader');
+                        await StreamingDownloader.download({
+                            fileKey,
+                            filename: file.filename,
+                            chunks: chunks.map((c: any) => ({
+                                index: c.index,
+                                size: c.size,
+                                nonce: c.nonce,
+                                jackal_merkle: c.jackal_merkle,
+                                status: (c.jackal_merkle && c.jackal_merkle !== 'pending') ? 'cloud' : 'local'
+                            })),
+                            fileId: file.id,
+                            authToken: token,
+                            onProgress: (p) => updateProgress(downloadId, p)
+                        });
+                        completeUpload(downloadId);
+                        return;
+                    }
+
+                    const chunkedResponse = await api.get(`/files/raw/${file.id}`, {
+                        responseType: 'blob',
+                        onDownloadProgress: (progressEvent) => {
+                            const total = progressEvent.total || file.file_size;
+                            updateProgress(downloadId, (progressEvent.loaded / total) * 90);
+                        }
+                    });
+                    const decrypted = await decryptFile(chunkedResponse.data, chunks, fileKey);
+                    const blob = new Blob([decrypted as unknown as BlobPart], { type: file.mime_type });
+                    const url = window.URL.createObjectURL(blob);
+                    const a = document.createElement('a');
+                    a.href = url;
+                    a.download = file.filename;
+                    document.body.appendChild(a);
+                    a.click();
+                    window.URL.revokeObjectURL(url);
+                    document.body.removeChild(a);
+
+                    completeUpload(downloadId);
+                    return;
+                }
+
                 const contentResponse = await api.get(`/files/raw/${file.id}`, {
                     responseType: 'blob',
                     onDownloadProgress: (progressEvent) => {
@@ -777,7 +873,6 @@ export const FoldersPage = () => {
                 });
                 const encryptedBlob = contentResponse.data;
 
-                const downloadInfo = await api.get(`/files/download/${file.id}`);
                 const fileKeyEncrypted = fromBase64(downloadInfo.data.file_key_encrypted);
                 const fileKeyNonce = fromBase64(downloadInfo.data.file_key_nonce);
 
@@ -830,7 +925,8 @@ export const FoldersPage = () => {
             }, 200);
 
             // 1. Fetch encrypted keys and file metadata from server
-            const downloadInfo = await api.get(`/files/download/${file.id}`);
+            const versionQuery = version ? `?version=${version}` : '';
+            const downloadInfo = await api.get(`/files/download/${file.id}${versionQuery}`);
 
             // 2. Decrypt Keys (moved up to support StreamingDownloader)
             const fileKeyEncrypted = fromBase64(downloadInfo.data.file_key_encrypted);
@@ -863,6 +959,7 @@ export const FoldersPage = () => {
                     chunks: downloadChunks,
                     fileId: file.id,
                     authToken: token,
+                    version,
                     onProgress: (p) => {
                         clearInterval(fakeProgressInterval);
                         updateProgress(downloadId, Math.max(5, p));
@@ -877,7 +974,7 @@ export const FoldersPage = () => {
             // FALLBACK: Legacy Blob Download (for monolithic/small files)
 
             // 3. Fetch Raw Encrypted Content
-            const contentResponse = await api.get(`/files/raw/${file.id}`, {
+            const contentResponse = await api.get(`/files/raw/${file.id}${versionQuery}`, {
                 responseType: 'blob',
                 onDownloadProgress: (progressEvent) => {
                     clearInterval(fakeProgressInterval);
@@ -923,6 +1020,150 @@ export const FoldersPage = () => {
         }
     };
 
+    // Same key paths as handleDownload: collab key, Drop Zone keypair, or the folder key. A
+    // collaborator's upload in a collab folder we host opens with that folder's collab key.
+    const resolvePreviewSource = async (file: FileItem, hostCollabKey = hostCollabKeys[file.folder_id ?? file.folderId ?? -1]): Promise<PreviewSource> => {
+        const { decryptFileKey, decryptFile, decryptDropZoneFile, init } = await import('@lazybird-inc/nest-crypto');
+        await init();
+        const token = localStorage.getItem('nest_token') || undefined;
+
+        if (collabToken) {
+            const { data } = await api.get(`/collab/${collabToken}/files/${file.id}`);
+            const fileKey = decryptFileKey(fromBase64(data.file_key_encrypted), fromBase64(data.file_key_nonce), collabKey!);
+            if (data.chunks?.length > 0) {
+                return { fileKey, chunks: toDownloadChunks(data.chunks), auth: { fileId: file.id, authToken: token, collabToken } };
+            }
+            return {
+                decrypt: async () => {
+                    const raw = await api.get(`/collab/${collabToken}/files/${file.id}/raw`, { responseType: 'blob' });
+                    return decryptFile(raw.data, fromBase64(data.file_key_nonce), fileKey);
+                }
+            };
+        }
+
+        if (file.file_origin === 'drop_zone') {
+            const dz = dropZones.find((d: any) => d.folderId === file.folderId);
+            if (!dz || !dz.privateKey) throw new Error('Drop Zone private key not found');
+
+            const { data } = await api.get(`/files/download/${file.id}`);
+            if (data.chunks?.length > 0) {
+                await sodium.ready;
+                const fileKey = sodium.crypto_box_seal_open(fromBase64(data.file_key_encrypted), dz.publicKey, dz.privateKey) as Uint8Array;
+                return { fileKey, chunks: toDownloadChunks(data.chunks), auth: { fileId: file.id, authToken: token } };
+            }
+            return {
+                decrypt: async () => {
+                    const raw = await api.get(`/files/raw/${file.id}`, { responseType: 'blob' });
+                    return decryptDropZoneFile(new Uint8Array(await raw.data.arrayBuffer()), fromBase64(data.file_key_encrypted), fromBase64(data.file_key_nonce), dz.privateKey);
+                }
+            };
+        }
+
+        if (file.file_origin === 'collab') {
+            if (!hostCollabKey) throw new Error('Collab key not available');
+            const { data } = await api.get(`/files/download/${file.id}`);
+            const fileKey = decryptFileKey(fromBase64(data.file_key_encrypted), fromBase64(data.file_key_nonce), hostCollabKey);
+            if (data.chunks?.length > 0) {
+                return { fileKey, chunks: toDownloadChunks(data.chunks), auth: { fileId: file.id, authToken: token } };
+            }
+            return {
+                decrypt: async () => {
+                    const raw = await api.get(`/files/raw/${file.id}`, { responseType: 'blob' });
+                    return decryptFile(raw.data, fromBase64(data.file_key_nonce), fileKey);
+                }
+            };
+        }
+
+        if (!masterKey) throw new Error('Please log in again to preview files');
+        return ownerPreviewSource(file.id, masterKey);
+    };
+
+    const thumbnailLoader = (file: FileItem): ThumbnailLoader | undefined => {
+        if (collabToken) return collabKey ? collabThumbnailLoader(collabToken, file, collabKey) : undefined;
+        return masterKey ? ownerThumbnailLoader(file, masterKey, hostCollabKeys) : undefined;
+    };
+
+    const handlePreview = (file: FileItem) => setPreviewTarget({
+        name: file.filename,
+        mimeType: file.mime_type,
+        size: file.file_size,
+        resolve: () => resolvePreviewSource(file),
+        onDownload: () => handleDownload(file)
+    });
+
+    // A folder downloads as one ZIP that keeps its subfolders. Names come from the metadata
+    // vault, or from the collab key inside a collab folder.
+    const handleDownloadFolderZip = async (folder: { id: number; name: string }) => {
+        try {
+            let entries: ZipEntry[];
+            if (collabToken) {
+                if (!collabKey) return;
+                const { data } = await api.get(`/collab/${collabToken}/files`);
+                const paths = zipFolderPaths(folder.id, folder.name, (data.folders || []).map((f: any) => ({
+                    id: f.id,
+                    parent_id: f.parent_id,
+                    name: decryptSymmetricMetadata(f.encrypted_folder_name, collabKey)
+                })));
+                entries = (data.files || [])
+                    .filter((f: any) => paths.has(f.folder_id))
+                    .map((f: any) => {
+                        const file: FileItem = {
+                            ...f,
+                            filename: decryptSymmetricMetadata(f.encrypted_filename, collabKey),
+                            mime_type: decryptSymmetricMetadata(f.encrypted_mime_type, collabKey),
+                            share_token: null
+                        };
+                        return { path: `${paths.get(f.folder_id)}/${zipSafeName(file.filename)}`, size: file.file_size, resolve: () => resolvePreviewSource(file) };
+                    });
+            } else {
+                // Every file in the subtree, including Drop Zone and collaborator uploads; any that
+                // can't be opened end up in the archive's skipped list
+                const tree = await foldersAPI.getTree(folder.id);
+                const paths = zipFolderPaths(folder.id, folder.name, tree.folders.map(f => ({
+                    id: f.id,
+                    parent_id: f.parent_id,
+                    name: metadata?.folders[f.id.toString()]?.name || `Folder ${f.id}`
+                })));
+                const parents = new Map(tree.folders.map(f => [f.id, f.parent_id]));
+                // Subfolders of a hosted collab folder open with the key of the collab root above them
+                const collabKeyAbove = (folderId: number): Uint8Array | undefined => {
+                    for (let id: number | null | undefined = folderId; id != null; id = parents.get(id)) {
+                        if (hostCollabKeys[id]) return hostCollabKeys[id];
+                    }
+                    return undefined;
+                };
+                entries = tree.files
+                    .filter(f => paths.has(f.folder_id))
+                    .map(f => {
+                        const hostCollabKey = f.file_origin === 'collab' ? collabKeyAbove(f.folder_id) : undefined;
+                        const { filename, mimeType } = describeFile(f, metadata, hostCollabKey);
+                        const file: FileItem = { id: f.id, filename, mime_type: mimeType, file_size: f.file_size, created_at: f.created_at, share_token: null, file_origin: f.file_origin, folderId: f.folder_id, folder_id: f.folder_id };
+                        return { path: `${paths.get(f.folder_id)}/${zipSafeName(filename)}`, size: f.file_size, resolve: () => resolvePreviewSource(file, hostCollabKey) };
+                    });
+            }
+
+            if (entries.length === 0) {
+                showToast('This folder has no files to download', 'info');
+                return;
+            }
+            await downloadZip(`${zipSafeName(folder.name)}.zip`, entries);
+        } catch (error) {
+            console.error('Folder ZIP failed:', error);
+            showToast('Failed to prepare the ZIP download', 'error');
+        }
+    };
+
+    const handleDownloadSelected = (items: UnifiedItem[]) => {
+        const selected = displayFiles.filter(file => items.some(item => item.id === file.id));
+        const path = getBreadcrumbPath();
+        const zipName = path.length > 0 ? path[path.length - 1].name : 'Nest files';
+        downloadZip(`${zipSafeName(zipName)}.zip`, selected.map(file => ({
+            path: zipSafeName(file.filename),
+            size: file.file_size,
+            resolve: () => resolvePreviewSource(file)
+        })));
+    };
+
     const handleDeleteFile = async (fileId: number) => {
         if (collabToken) {
             try {
@@ -1049,13 +1290,16 @@ export const FoldersPage = () => {
             // 4. Re-encrypt the file key with the target folder's key
             const reencryptedFileKey = encryptFileKey(fileKey, targetFolderKey);
 
+            // 4b. Archived versions are wrapped with the old folder key as well
+            const versionKeys = await rewrapVersionKeys(fileId, currentFolderKey, targetFolderKey);
+
             // 5. Call the API with re-encrypted keys
             // We still send targetFolderId (which might be null) to the server if that's what's intended,
             // but for a true Transparent Root, the server move should probably target actualTargetId.
             await filesAPI.move(fileId, actualTargetId, {
                 fileKeyEncrypted: toBase64(reencryptedFileKey.encrypted),
                 fileKeyNonce: toBase64(reencryptedFileKey.nonce)
-            });
+            }, versionKeys);
 
             // 6. Update metadata to reflect the new folder
             const newMeta = { ...metadata };
@@ -1090,6 +1334,15 @@ export const FoldersPage = () => {
         fetchStructure();
     }, [fileListVersion]);
 
+    // Collab folder the current view belongs to: the shared one being browsed, or one of the
+    // host's own when the selected folder is inside it. Its changes stream in over WebSocket.
+    let liveCollabToken: string | null = collabToken;
+    for (let id = selectedFolderId, attempts = 0; !liveCollabToken && id !== null && attempts < 20; attempts++) {
+        liveCollabToken = hostCollabFolders.find((cf: any) => cf.folder_id === id)?.token ?? null;
+        id = structureMap.get(id) ?? null;
+    }
+    const collabViewers = useCollabLive(liveCollabToken, null, () => triggerFileRefresh());
+
     const getBreadcrumbPath = () => {
         if (collabToken) {
             if (selectedFolderId === null || selectedFolderId === collabRootId) return [];
@@ -1168,6 +1421,34 @@ export const FoldersPage = () => {
                 onCreate={handleCreateFolder}
             />
 
+            {versionsFile && (
+                <VersionHistoryModal
+                    isOpen={!!versionsFile}
+                    onClose={() => setVersionsFile(null)}
+                    fileId={versionsFile.id}
+                    fileName={versionsFile.filename}
+                    onDownloadVersion={(v) => handleDownload(
+                        { ...versionsFile, file_size: v.file_size },
+                        v.is_current ? undefined : v.version
+                    )}
+                    onRestored={() => {
+                        refreshQuota();
+                        triggerFileRefresh();
+                    }}
+                />
+            )}
+
+            <FilePreviewModal target={previewTarget} onClose={() => setPreviewTarget(null)} />
+
+            {sharingFolder && (
+                <ShareFolderModal
+                    isOpen={!!sharingFolder}
+                    onClose={() => setSharingFolder(null)}
+                    folderId={sharingFolder.id}
+                    folderName={sharingFolder.name}
+                />
+            )}
+
             <div className="flex-1 flex flex-col min-w-0">
                 <div className="mb-4 flex items-center justify-between glass-panel p-3 rounded-xl">
                     <div className="flex-1 min-w-0 mr-4">
@@ -1176,15 +1457,24 @@ export const FoldersPage = () => {
                             onNavigate={handleNavigate}
                         />
                     </div>
-                    <motion.button
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={() => setShowCreateFolderModal(true)}
-                        className="glass-button px-3 py-1.5 flex items-center gap-2 text-sm flex-shrink-0"
-                    >
-                        <FolderPlus size={16} weight="bold" />
-                        <span>New Folder</span>
-                    </motion.button>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                        {collabViewers > 1 && (
+                            <span className="hidden sm:inline-flex items-center gap-1.5 text-xs font-medium text-text-muted" title="People with this folder open right now">
+                                <Eye size={14} />
+                                {collabViewers} people viewing
+                            </span>
+                        )}
+                        {!collabToken && <SearchBar onSelect={handleSearchSelect} />}
+                        <motion.button
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={() => setShowCreateFolderModal(true)}
+                            className="glass-button px-3 py-1.5 flex items-center gap-2 text-sm flex-shrink-0"
+                        >
+                            <FolderPlus size={16} weight="bold" />
+                            <span>New Folder</span>
+                        </motion.button>
+                    </div>
                 </div>
 
                 <div
@@ -1241,43 +1531,52 @@ export const FoldersPage = () => {
                     ) : (
                         <div className="h-full overflow-auto custom-scrollbar">
                             <FileTable
+                                onDownloadSelected={handleDownloadSelected}
                                 items={[
-                                    ...displayFolders.map(folder => ({
-                                        id: folder.id,
-                                        name: folder.name,
-                                        type: 'folder' as const,
-                                        createdAt: folder.created_at,
-                                        file_count: folder.file_count,
-                                        subfolder_count: folder.subfolder_count,
-                                        folder_size: folder.folder_size,
-                                        isDropZone: dropZones.some((dz: any) => dz.folderId === folder.id),
-                                        isCollab: rawCollabFolders.some((cf: any) => cf.folderId === folder.id) || hostCollabFolders.some((cf: any) => cf.folder_id === folder.id),
-                                        onNavigate: () => handleNavigate(folder.id),
-                                        onRename: collabToken ? async (newName: string) => {
-                                            if (!collabKey) return;
-                                            try {
-                                                const { encryptWithMasterKey, toBase64, init } = await import('@lazybird-inc/nest-crypto');
-                                                await init();
-                                                const encryptSymmetricMetadata = (text: string, key: Uint8Array): string => {
-                                                    const { encrypted, nonce } = encryptWithMasterKey(text, key);
-                                                    return JSON.stringify({
-                                                        encrypted: toBase64(encrypted),
-                                                        nonce: toBase64(nonce)
+                                    ...displayFolders.map(folder => {
+                                        const isDropZone = dropZones.some((dz: any) => dz.folderId === folder.id);
+                                        const isCollab = rawCollabFolders.some((cf: any) => cf.folderId === folder.id) || hostCollabFolders.some((cf: any) => cf.folder_id === folder.id);
+                                        return {
+                                            id: folder.id,
+                                            name: folder.name,
+                                            type: 'folder' as const,
+                                            createdAt: folder.created_at,
+                                            file_count: folder.file_count,
+                                            subfolder_count: folder.subfolder_count,
+                                            folder_size: folder.folder_size,
+                                            isDropZone,
+                                            isCollab,
+                                            onNavigate: () => handleNavigate(folder.id),
+                                            onDownload: () => handleDownloadFolderZip(folder),
+                                            onShare: (!collabToken && !isDropZone && !isCollab)
+                                                ? () => setSharingFolder({ id: folder.id, name: folder.name })
+                                                : undefined,
+                                            onRename: collabToken ? async (newName: string) => {
+                                                if (!collabKey) return;
+                                                try {
+                                                    const { encryptWithMasterKey, toBase64, init } = await import('@lazybird-inc/nest-crypto');
+                                                    await init();
+                                                    const encryptSymmetricMetadata = (text: string, key: Uint8Array): string => {
+                                                        const { encrypted, nonce } = encryptWithMasterKey(text, key);
+                                                        return JSON.stringify({
+                                                            encrypted: toBase64(encrypted),
+                                                            nonce: toBase64(nonce)
+                                                        });
+                                                    };
+                                                    const newNameEncrypted = encryptSymmetricMetadata(newName, collabKey);
+                                                    await api.patch(`/collab/${collabToken}/folders/${folder.id}`, {
+                                                        new_foldername_encrypted: newNameEncrypted
                                                     });
-                                                };
-                                                const newNameEncrypted = encryptSymmetricMetadata(newName, collabKey);
-                                                await api.patch(`/collab/${collabToken}/folders/${folder.id}`, {
-                                                    new_foldername_encrypted: newNameEncrypted
-                                                });
-                                                showToast('Folder renamed', 'success');
-                                                triggerFileRefresh();
-                                            } catch (err) {
-                                                console.error('Rename folder failed:', err);
-                                                showToast('Failed to rename folder', 'error');
-                                            }
-                                        } : undefined,
-                                        onDelete: () => handleDeleteFolder(folder.id),
-                                    })),
+                                                    showToast('Folder renamed', 'success');
+                                                    triggerFileRefresh();
+                                                } catch (err) {
+                                                    console.error('Rename folder failed:', err);
+                                                    showToast('Failed to rename folder', 'error');
+                                                }
+                                            } : undefined,
+                                            onDelete: () => handleDeleteFolder(folder.id),
+                                        };
+                                    }),
                                     ...displayFiles.map(file => ({
                                         id: file.id,
                                         name: file.filename, // Using server filename for now
@@ -1286,10 +1585,16 @@ export const FoldersPage = () => {
                                         size: file.file_size,
                                         createdAt: file.created_at,
                                         folderId: selectedFolderId,
+                                        highlighted: file.id === highlightedFileId,
+                                        thumbnail: thumbnailLoader(file),
+                                        onPreview: () => handlePreview(file),
                                         onDownload: () => handleDownload(file),
                                         onShare: () => handleShare(file),
                                         onRename: (newName: string) => handleRename(file.id, newName),
                                         onMove: async (targetFolderId: number | null) => handleMove(file.id, targetFolderId),
+                                        onVersions: (!collabToken && (!file.file_origin || file.file_origin === 'private'))
+                                            ? () => setVersionsFile(file)
+                                            : undefined,
                                         onDelete: () => handleDeleteFile(file.id),
                                     }))
                                 ]}
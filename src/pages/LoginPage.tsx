@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LockKey, EnvelopeSimple, Eye, EyeSlash } from '@phosphor-icons/react';
+import { LockKey, EnvelopeSimple, Eye, EyeSlash, ShieldCheck, Fingerprint } from '@phosphor-icons/react';
 import logoImg from '../assets/nest-logo.png';
 import { MigrationModal } from '../components/MigrationModal';
+import type { TwoFactorChallenge } from '../api/auth';
+import { getPasskeyAssertion, isWebAuthnSupported } from '../utils/webauthn';
 
 export const LoginPage = () => {
     const [email, setEmail] = useState('');
@@ -13,8 +15,11 @@ export const LoginPage = () => {
     const [loading, setLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
     const [showMigrationModal, setShowMigrationModal] = useState(false);
+    const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
+    const [twoFactorCode, setTwoFactorCode] = useState('');
+    const [useBackupCode, setUseBackupCode] = useState(false);
 
-    const { login, setMasterKey } = useAuth();
+    const { login, verifyTwoFactor, setMasterKey } = useAuth();
     const navigate = useNavigate();
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -47,12 +52,19 @@ export const LoginPage = () => {
             // 3. Authenticate
             setLoadingMessage('Authenticating...');
             const authHash = deriveAuthHash(rootKey);
-            await login({ email, authHash, rootKey });
+            const result = await login({ email, authHash, rootKey });
 
             // 4. Decrypt Master Key (Handled internally by AuthContext.login)
             // The context will update the state and localStorage automatically.
 
-            navigate('/dashboard');
+            // Accounts with 2FA stop here until the second factor is answered
+            if (result?.twoFactorRequired) {
+                setTwoFactor(result);
+                setUseBackupCode(!result.methods.includes('totp'));
+                return;
+            }
+
+            navigate(result?.twoFactorSetupRequired ? '/settings' : '/dashboard');
 
         } catch (err: any) {
             console.error(err);
@@ -68,6 +80,48 @@ export const LoginPage = () => {
         }
     };
 
+    const submitSecondFactor = async (answer: Parameters<typeof verifyTwoFactor>[0]) => {
+        setError('');
+        setLoading(true);
+        try {
+            await verifyTwoFactor(answer);
+            navigate('/dashboard');
+        } catch (err: any) {
+            console.error(err);
+            if (err.response?.data?.twoFactorExpired) {
+                // The pending sign-in timed out; start over from the password
+                setTwoFactor(null);
+                setMasterKey(null);
+            }
+            setError(err.response?.data?.error || err.message || 'Verification failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCodeSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        submitSecondFactor({ method: useBackupCode ? 'backup' : 'totp', code: twoFactorCode.trim() });
+    };
+
+    const handlePasskey = async () => {
+        if (!twoFactor?.webauthn) return;
+        try {
+            const assertion = await getPasskeyAssertion(twoFactor.webauthn);
+            await submitSecondFactor({ method: 'webauthn', assertion });
+        } catch (err: any) {
+            // NotAllowedError = the user dismissed the browser prompt
+            setError(err.name === 'NotAllowedError' ? 'Passkey sign-in was cancelled' : err.message);
+        }
+    };
+
+    const cancelTwoFactor = () => {
+        setTwoFactor(null);
+        setTwoFactorCode('');
+        setError('');
+        setMasterKey(null);
+    };
+
     return (
         <div className="min-h-[100dvh] flex items-center justify-center p-4 sm:p-6 relative overflow-hidden">
             {showMigrationModal && (
@@ -93,80 +147,158 @@ export const LoginPage = () => {
                 </div>
 
                 <div className="glass-panel p-6 sm:p-8 md:p-10 border-white/60 shadow-xl">
-                    <form onSubmit={handleSubmit} className="space-y-6">
-                        <div>
-                            <label className="block text-sm font-bold text-text-main mb-2">
-                                Email
-                            </label>
-                            <div className="relative group">
-                                <EnvelopeSimple
-                                    size={20}
-                                    className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted group-focus-within:text-primary transition-colors"
-                                />
-                                <input
-                                    type="email"
-                                    value={email}
-                                    onChange={(e) => setEmail(e.target.value)}
-                                    className="w-full glass-input pl-12 bg-white/50 focus:bg-white"
-                                    placeholder="you@example.com"
-                                    required
-                                />
+                    {twoFactor ? (
+                        <div className="space-y-6">
+                            <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center text-primary">
+                                    <ShieldCheck size={22} weight="fill" />
+                                </div>
+                                <div>
+                                    <p className="font-bold text-text-main">Two-factor authentication</p>
+                                    <p className="text-sm text-text-muted">Confirm it's you to finish signing in.</p>
+                                </div>
                             </div>
-                        </div>
 
-                        <div>
-                            <label className="block text-sm font-bold text-text-main mb-2">
-                                Password
-                            </label>
-                            <div className="relative group">
-                                <LockKey
-                                    size={20}
-                                    className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted group-focus-within:text-primary transition-colors"
-                                />
-                                <input
-                                    type={showPassword ? 'text' : 'password'}
-                                    value={password}
-                                    onChange={(e) => setPassword(e.target.value)}
-                                    className="w-full glass-input pl-12 pr-12 bg-white/50 focus:bg-white"
-                                    placeholder="••••••••"
-                                    required
-                                />
+                            {twoFactor.webauthn && isWebAuthnSupported() && (
                                 <button
                                     type="button"
-                                    onClick={() => setShowPassword(!showPassword)}
-                                    className="absolute right-4 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-main transition-colors"
+                                    onClick={handlePasskey}
+                                    disabled={loading}
+                                    className="glass-button w-full py-3 font-bold flex items-center justify-center gap-2"
                                 >
-                                    {showPassword ? <EyeSlash size={20} /> : <Eye size={20} />}
+                                    <Fingerprint size={20} weight="bold" />
+                                    Use passkey or security key
                                 </button>
-                            </div>
-                            <div className="mt-3 text-right">
-                                <Link to="/forgot-password" className="text-sm text-accent-secondary hover:text-primary font-bold transition-colors">
-                                    Forgot password?
-                                </Link>
-                            </div>
+                            )}
+
+                            {(twoFactor.methods.includes('totp') || twoFactor.methods.includes('backup')) && (
+                                <form onSubmit={handleCodeSubmit} className="space-y-4">
+                                    <div>
+                                        <label className="block text-sm font-bold text-text-main mb-2">
+                                            {useBackupCode ? 'Backup code' : 'Authenticator code'}
+                                        </label>
+                                        <input
+                                            type="text"
+                                            inputMode={useBackupCode ? 'text' : 'numeric'}
+                                            autoComplete="one-time-code"
+                                            autoFocus
+                                            value={twoFactorCode}
+                                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                                            className="w-full glass-input bg-white/50 focus:bg-white font-mono tracking-widest text-center"
+                                            placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+                                            maxLength={useBackupCode ? 11 : 6}
+                                            required
+                                        />
+                                    </div>
+                                    <button
+                                        type="submit"
+                                        disabled={loading || !twoFactorCode.trim()}
+                                        className="glass-button w-full py-3 font-bold flex items-center justify-center gap-2"
+                                    >
+                                        {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : 'Verify'}
+                                    </button>
+                                    {twoFactor.methods.includes('backup') && twoFactor.methods.includes('totp') && (
+                                        <button
+                                            type="button"
+                                            onClick={() => { setUseBackupCode(!useBackupCode); setTwoFactorCode(''); }}
+                                            className="w-full text-sm text-accent-secondary hover:text-primary font-bold transition-colors"
+                                        >
+                                            {useBackupCode ? 'Use authenticator app instead' : 'Use a backup code'}
+                                        </button>
+                                    )}
+                                </form>
+                            )}
+
+                            {error && (
+                                <div className="bg-error/10 border border-error/20 text-error rounded-xl p-4 text-sm font-medium animate-shake">
+                                    {error}
+                                </div>
+                            )}
+
+                            <button
+                                type="button"
+                                onClick={cancelTwoFactor}
+                                className="w-full text-sm text-text-muted hover:text-text-main transition-colors"
+                            >
+                                Back to sign in
+                            </button>
                         </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            <div>
+                                <label className="block text-sm font-bold text-text-main mb-2">
+                                    Email
+                                </label>
+                                <div className="relative group">
+                                    <EnvelopeSimple
+                                        size={20}
+                                        className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted group-focus-within:text-primary transition-colors"
+                                    />
+                                    <input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        className="w-full glass-input pl-12 bg-white/50 focus:bg-white"
+                                        placeholder="you@example.com"
+                                        required
+                                    />
+                                </div>
+                            </div>
 
-                        {error && (
-                            <div className="bg-error/10 border border-error/20 text-error rounded-xl p-4 text-sm font-medium animate-shake">
-                                {error}
+                            <div>
+                                <label className="block text-sm font-bold text-text-main mb-2">
+                                    Password
+                                </label>
+                                <div className="relative group">
+                                    <LockKey
+                                        size={20}
+                                        className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted group-focus-within:text-primary transition-colors"
+                                    />
+                                    <input
+                                        type={showPassword ? 'text' : 'password'}
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        className="w-full glass-input pl-12 pr-12 bg-white/50 focus:bg-white"
+                                        placeholder="••••••••"
+                                        required
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowPassword(!showPassword)}
+                                        className="absolute right-4 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-main transition-colors"
+                                    >
+                                        {showPassword ? <EyeSlash size={20} /> : <Eye size={20} />}
+                                    </button>
+                                </div>
+                                <div className="mt-3 text-right">
+                                    <Link to="/forgot-password" className="text-sm text-accent-secondary hover:text-primary font-bold transition-colors">
+                                        Forgot password?
+                                    </Link>
+                                </div>
                             </div>
-                        )}
-
-                        <button
-                            type="submit"
-                            disabled={loading}
-                            className="glass-button w-full py-3 sm:py-3.5 text-base sm:text-lg font-bold flex items-center justify-center gap-2 shadow-xl hover:shadow-2xl hover:-translate-y-0.5"
-                        >
-                            {loading ? (
-                                <>
-                                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                                    <span>{loadingMessage || 'Authenticating...'}</span>
-                                </>
-                            ) : (
-                                'Sign In'
+
+                            {error && (
+                                <div className="bg-error/10 border border-error/20 text-error rounded-xl p-4 text-sm font-medium animate-shake">
+                                    {error}
+                                </div>
                             )}
-                        </button>
-                    </form>
+
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="glass-button w-full py-3 sm:py-3.5 text-base sm:text-lg font-bold flex items-center justify-center gap-2 shadow-xl hover:shadow-2xl hover:-translate-y-0.5"
+                            >
+                                {loading ? (
+                                    <>
+                                        <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                        <span>{loadingMessage || 'Authenticating...'}</span>
+                                    </>
+                                ) : (
+                                    'Sign In'
+                                )}
+                            </button>
+                        </form>
+                    )}
 
                     <div className="mt-6 sm:mt-8">
                         <div className="flex flex-col sm:flex-row items-center justify-center gap-2 sm:gap-4 text-text-muted text-sm text-center">
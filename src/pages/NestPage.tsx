@@ -2,13 +2,19 @@ import { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 import { RecentActivityFeed } from '../components/RecentActivityFeed';
+import { RecoveryRequestsBanner } from '../components/RecoveryRequestsBanner';
 import { filesAPI } from '../api/files';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ShareSuccessModal } from '../components/ShareSuccessModal';
+import { FilePreviewModal } from '../components/FilePreviewModal';
 import { PageLoader } from '../components/PageLoader';
 import { useFileCryptoActions } from '../hooks/useFileCryptoActions';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { searchEntries } from '../utils/search';
 import api from '../lib/api';
+import type { UploaderInfo } from '../utils/dropZoneUploader';
+import { ownerThumbnailLoader } from '../utils/thumbnails';
 
 export interface FileItem {
     id: number;
@@ -19,6 +25,8 @@ export interface FileItem {
     share_token: string | null;
     upload_session_id: string | null;
     folder_id: number | null;
+    file_origin?: string | null;
+    has_thumbnail?: boolean;
 }
 
 import { useUpload } from '../contexts/UploadContext';
@@ -31,6 +39,8 @@ export const NestPage = () => {
     // Collab keys for collab folders this host owns (keyed by folder_id), so collaborator-uploaded
     // files in the "all files" feed show their real names instead of "File <id>".
     const [hostCollabKeys, setHostCollabKeys] = useState<Record<number, Uint8Array>>({});
+    // Uploader details guests left on Drop Zone submissions, keyed by upload_session_id
+    const [uploaderInfo, setUploaderInfo] = useState<Record<string, UploaderInfo>>({});
     const [files, setFiles] = useState<FileItem[]>([]);
     const [loading, setLoading] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
@@ -46,6 +56,7 @@ export const NestPage = () => {
     const [debouncedSearch, setDebouncedSearch] = useState('');
     const [sortBy, setSortBy] = useState('date');
     const [order, setOrder] = useState('desc');
+    const searchIndex = useSearchIndex();
 
     useEffect(() => {
         const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
@@ -85,6 +96,39 @@ export const NestPage = () => {
         loadDropZones();
     }, [masterKey]);
 
+    // Open the sealed uploader details of each Drop Zone submission with that zone's private key
+    useEffect(() => {
+        const zones = dropZones.filter((dz: any) => dz.privateKey && dz.uploader_fields);
+        if (zones.length === 0) return;
+        let cancelled = false;
+        const loadSubmissions = async () => {
+            const { fromBase64 } = await import('@lazybird-inc/nest-crypto');
+            const sodium = (await import('libsodium-wrappers')).default;
+            await sodium.ready;
+
+            const infoMap: Record<string, UploaderInfo> = {};
+            for (const dz of zones) {
+                try {
+                    const res = await api.get(`/drop-zones/${dz.id}/submissions`);
+                    for (const submission of res.data?.submissions || []) {
+                        if (!submission.session_id || !submission.encrypted_uploader_info) continue;
+                        try {
+                            const opened = sodium.crypto_box_seal_open(fromBase64(submission.encrypted_uploader_info), dz.publicKey, dz.privateKey);
+                            infoMap[submission.session_id] = JSON.parse(sodium.to_string(opened as Uint8Array));
+                        } catch (e) {
+                            console.error('Failed to decrypt Drop Zone uploader details:', e);
+                        }
+                    }
+                } catch (err) {
+                    console.error(`Failed to load submissions for Drop Zone ${dz.id}:`, err);
+                }
+            }
+            if (!cancelled) setUploaderInfo(infoMap);
+        };
+        loadSubmissions();
+        return () => { cancelled = true; };
+    }, [dropZones, fileListVersion]);
+
     // Recover collab keys for collab folders this host owns (host_encrypted_collab_key is sealed to
     // the host's master key), so collaborator-uploaded files decrypt in the all-files feed.
     useEffect(() => {
@@ -224,7 +268,7 @@ export const NestPage = () => {
         }
     };
 
-    const { handleShare, handleDownload, handleDelete, handleMove, handleRename, shareModal, setShareModal } = useFileCryptoActions(() => {
+    const { handleShare, handleDownload, handlePreview, handleDelete, handleMove, handleRename, shareModal, setShareModal, previewTarget, setPreviewTarget } = useFileCryptoActions(() => {
         loadFiles(true);
     });
 
@@ -233,8 +277,10 @@ export const NestPage = () => {
         let allFiles = Object.entries(metadata.files).map(([id, m]: [string, any]) => ({ id: Number(id), ...m }));
 
         if (debouncedSearch) {
-            const lowerQuery = debouncedSearch.toLowerCase();
-            allFiles = allFiles.filter(f => f.filename?.toLowerCase().includes(lowerQuery));
+            // Ranked by relevance; an explicit name/type sort below re-orders the matches
+            allFiles = searchEntries(searchIndex, debouncedSearch)
+                .filter(r => r.entry.kind === 'file')
+                .map(r => ({ id: r.entry.id, ...metadata.files[r.entry.id.toString()] }));
         }
 
         if (sortBy === 'type') {
@@ -250,7 +296,7 @@ export const NestPage = () => {
         }
 
         return allFiles.map(f => f.id);
-    }, [metadata, debouncedSearch, sortBy, order]);
+    }, [metadata, searchIndex, debouncedSearch, sortBy, order]);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
@@ -296,9 +342,11 @@ export const NestPage = () => {
     }, [fileListVersion]);
 
     const metadataReady = metadata !== null;
+    // Folder paths land in the index after the metadata, so an active search re-runs when it changes
+    const activeSearchIndex = debouncedSearch ? searchIndex : null;
     useEffect(() => {
         if (metadataReady) loadFiles(true);
-    }, [metadataReady, debouncedSearch, sortBy, order, dropZones, hostCollabKeys]);
+    }, [metadataReady, debouncedSearch, activeSearchIndex, sortBy, order, dropZones, hostCollabKeys]);
 
     return (
         <motion.div
@@ -314,6 +362,8 @@ export const NestPage = () => {
                 filename={shareModal.name}
             />
 
+            <FilePreviewModal target={previewTarget} onClose={() => setPreviewTarget(null)} />
+
             <input
                 type="file"
                 ref={fileInputRef}
@@ -333,7 +383,7 @@ export const NestPage = () => {
                         <div className="relative">
                             <input
                                 type="text"
-                                placeholder="Search files..."
+                                placeholder="Search files... (type:pdf in:/Projects)"
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
                                 className="pl-9 pr-4 py-2 bg-background/50 border border-border/50 rounded-lg text-sm text-text-main placeholder-text-muted focus:outline-none focus:border-primary w-48 sm:w-64"
@@ -370,6 +420,8 @@ export const NestPage = () => {
                     </div>
                 </div>
 
+                <RecoveryRequestsBanner />
+
                 {/* Content List */}
                 <div
                     className="flex-1 glass-panel overflow-hidden min-h-0 p-0 relative"
@@ -425,12 +477,15 @@ export const NestPage = () => {
                             <RecentActivityFeed
                                 files={files}
                                 onDownload={handleDownload}
+                                onPreview={handlePreview}
+                                thumbnail={masterKey ? (file) => ownerThumbnailLoader(file, masterKey, hostCollabKeys) : undefined}
                                 onShare={handleShare}
                                 onRename={handleRename}
                                 onMove={handleMove}
                                 onDelete={handleDelete}
                                 onLoadMore={handleLoadMore}
                                 hasMore={hasMore}
+                                uploaderInfo={uploaderInfo}
                             />
                         </div>
                     )}
@@ -1,14 +1,20 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ShieldCheck, DownloadSimple, CheckCircle, Warning, ArrowRight, LockKey } from '@phosphor-icons/react';
-import { toBase64 } from '@lazybird-inc/nest-crypto';
+import { ShieldCheck, DownloadSimple, CheckCircle, Warning, ArrowRight, LockKey, Copy } from '@phosphor-icons/react';
+import { encryptMasterKey, init, toBase64 } from '@lazybird-inc/nest-crypto';
+import { recoveryAPI } from '../api/auth';
+import { deriveRecoveryKey, generateRecoveryPhrase, pickCheckPositions } from '../utils/recoveryPhrase';
 
 export const RecoverySetupPage = () => {
     const { user, masterKey, login } = useAuth();
     const navigate = useNavigate();
-    const [downloaded, setDownloaded] = useState(false);
-    const [confirmed, setConfirmed] = useState(false);
+    // A fresh phrase per visit: saving it replaces (and invalidates) any previous one
+    const [words] = useState(generateRecoveryPhrase);
+    const [checkPositions] = useState(() => pickCheckPositions());
+    const [checkInputs, setCheckInputs] = useState<Record<number, string>>({});
+    const [recorded, setRecorded] = useState(false);
+    const [saved, setSaved] = useState(false);
     const [showRelogin, setShowRelogin] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -31,7 +37,11 @@ export const RecoverySetupPage = () => {
 
         try {
             if (user?.email) {
-                await login({ email: user.email, password }); // Re-derive keys
+                const result = await login({ email: user.email, password }); // Re-derive keys
+                if (result?.twoFactorRequired) {
+                    setError('Your account uses two-factor authentication. Sign out and sign in again to unlock your vault.');
+                    return;
+                }
                 setShowRelogin(false);
             }
         } catch (err: any) {
@@ -41,11 +51,11 @@ export const RecoverySetupPage = () => {
         }
     };
 
-    const generateRecoveryKit = () => {
-        if (!masterKey || !user) return;
+    const downloadPhrase = () => {
+        if (!user) return;
 
-        const keyBase64 = toBase64(masterKey);
-        const content = `NEST CLOUD STORAGE - RECOVERY KIT
+        const numbered = words.map((word, i) => `${String(i + 1).padStart(2, ' ')}. ${word}`).join('\n');
+        const content = `NEST CLOUD STORAGE - RECOVERY PHRASE
 ----------------------------------------------------------------
 DO NOT SHARE THIS FILE. KEEP IT SAFE.
 ----------------------------------------------------------------
@@ -54,41 +64,74 @@ Account Email: ${user.email}
 Created: ${new Date().toLocaleString()}
 
 ----------------------------------------------------------------
-YOUR MASTER RECOVERY KEY
+YOUR RECOVERY PHRASE
 ----------------------------------------------------------------
 
-${keyBase64}
+${numbered}
 
 ----------------------------------------------------------------
 INSTRUCTIONS
 ----------------------------------------------------------------
-Nest uses Zero-Knowledge encryption. This means we (the server) 
+Nest uses Zero-Knowledge encryption. This means we (the server)
 do NOT have your password or your encryption keys.
 
-If you forget your password, your data is lost FOREVER unless 
-you have this Recovery Key.
+If you forget your password, your data is lost FOREVER unless
+you have this Recovery Phrase.
 
 To restore access:
-1. Go to the Reset Password page.
-2. Select "I have my Recovery Key".
-3. Paste the key above to decrypt your account and set a new password.
+1. Request a password reset and open the link from the email.
+2. Select "I have my Recovery Phrase".
+3. Enter the 24 words above in order and set a new password.
 `;
 
         const blob = new Blob([content], { type: 'text/plain' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `nest-recovery-kit-${user.email.split('@')[0]}.txt`;
+        a.download = `nest-recovery-phrase-${user.email.split('@')[0]}.txt`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
 
-        setDownloaded(true);
+        setRecorded(true);
+    };
+
+    const copyPhrase = async () => {
+        await navigator.clipboard.writeText(words.join(' '));
+        setRecorded(true);
+    };
+
+    const handleVerify = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!masterKey) return;
+        setError('');
+
+        const mismatch = checkPositions.some(pos => (checkInputs[pos] || '').trim().toLowerCase() !== words[pos]);
+        if (mismatch) {
+            setError('Those words don\'t match your phrase. Check the order and try again.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await init();
+            const recoveryKey = await deriveRecoveryKey(words);
+            const envelope = encryptMasterKey(masterKey, recoveryKey);
+            await recoveryAPI.save({
+                encryptedMasterKey: toBase64(envelope.encrypted),
+                encryptedMasterKeyNonce: toBase64(envelope.nonce)
+            });
+            setSaved(true);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to save your recovery phrase');
+        } finally {
+            setLoading(false);
+        }
     };
 
     const handleContinue = () => {
-        if (downloaded && confirmed) {
+        if (saved) {
             navigate('/');
         }
     };
@@ -103,7 +146,7 @@ To restore access:
                         </div>
                         <h2 className="text-xl font-bold mb-2">Security Verification Needed</h2>
                         <p className="text-gray-400 text-sm">
-                            Your encryption keys are locked. Please re-enter your password to unlock the Recovery Kit generator.
+                            Your encryption keys are locked. Please re-enter your password to set up your recovery phrase.
                         </p>
                     </div>
 
@@ -160,57 +203,104 @@ To restore access:
                         <Warning size={24} weight="fill" className="text-amber-400 flex-shrink-0 mt-0.5" />
                         <div className="text-sm leading-relaxed text-amber-100">
                             <strong className="block text-amber-400 mb-1">Zero-Knowledge Warning</strong>
-                            We cannot reset your password. If you lose it, your data is gone forever without this kit.
+                            We cannot reset your password. If you lose it, your data is gone forever without this recovery phrase.
                         </div>
                     </div>
 
                     <div className="space-y-6">
-                        {/* Step 1: Download */}
-                        <div className={`p-5 rounded-xl border transition-all ${downloaded ? 'bg-green-500/10 border-green-500/30' : 'bg-white/5 border-white/10'}`}>
+                        {/* Step 1: Record */}
+                        <div className={`p-5 rounded-xl border transition-all ${recorded ? 'bg-green-500/10 border-green-500/30' : 'bg-white/5 border-white/10'}`}>
                             <div className="flex items-center justify-between mb-4">
-                                <h3 className="font-bold text-gray-200">1. Download Recovery Kit</h3>
-                                {downloaded && <CheckCircle size={20} className="text-green-400" weight="fill" />}
+                                <h3 className="font-bold text-gray-200">1. Write Down Your Recovery Phrase</h3>
+                                {recorded && <CheckCircle size={20} className="text-green-400" weight="fill" />}
+                            </div>
+                            <ol className="grid grid-cols-3 gap-2 mb-4 font-mono text-xs">
+                                {words.map((word, i) => (
+                                    <li key={i} className="bg-black/30 border border-white/5 rounded-md px-2 py-1.5 text-gray-200">
+                                        <span className="text-gray-500 mr-1.5">{i + 1}.</span>{word}
+                                    </li>
+                                ))}
+                            </ol>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={downloadPhrase}
+                                    className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors border bg-white/10 hover:bg-white/20 text-white border-white/10"
+                                >
+                                    <DownloadSimple size={20} weight="bold" />
+                                    Download Text File
+                                </button>
+                                <button
+                                    onClick={copyPhrase}
+                                    className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors border bg-white/10 hover:bg-white/20 text-white border-white/10"
+                                >
+                                    <Copy size={20} weight="bold" />
+                                    Copy Words
+                                </button>
                             </div>
                             <button
-                                onClick={generateRecoveryKit}
-                                disabled={!masterKey}
-                                className={`w-full flex items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors border ${!masterKey
-                                        ? 'bg-white/5 border-white/5 text-gray-500 cursor-wait'
-                                        : 'bg-white/10 hover:bg-white/20 text-white border-white/10'
-                                    }`}
+                                onClick={() => setRecorded(true)}
+                                className={`w-full mt-3 text-xs text-gray-400 hover:text-gray-200 transition-colors ${recorded ? 'hidden' : ''}`}
                             >
-                                <DownloadSimple size={20} weight="bold" />
-                                {masterKey ? 'Download PDF / Text File' : 'Verifying Security Keys...'}
+                                I've written it down on paper
                             </button>
                         </div>
 
-                        {/* Step 2: Confirm */}
-                        <div className={`transition-opacity duration-500 ${downloaded ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
-                            <label className="flex items-start gap-3 cursor-pointer group">
-                                <div className="relative flex items-center">
-                                    <input
-                                        type="checkbox"
-                                        className="peer sr-only"
-                                        checked={confirmed}
-                                        onChange={(e) => setConfirmed(e.target.checked)}
-                                        disabled={!downloaded}
-                                    />
-                                    <div className="w-5 h-5 border-2 border-gray-500 rounded peer-checked:bg-primary peer-checked:border-primary transition-all"></div>
-                                    <CheckCircle size={20} weight="fill" className="absolute top-0 left-0 text-white opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
-                                </div>
-                                <span className="text-sm text-gray-400 group-hover:text-gray-200 transition-colors">
-                                    I confirm that I have downloaded my Recovery Kit and stored it in a safe place.
-                                </span>
-                            </label>
-                        </div>
+                        {/* Step 2: Check */}
+                        <form
+                            onSubmit={handleVerify}
+                            className={`p-5 rounded-xl border transition-all ${saved ? 'bg-green-500/10 border-green-500/30' : 'bg-white/5 border-white/10'} ${recorded ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}
+                        >
+                            <div className="flex items-center justify-between mb-4">
+                                <h3 className="font-bold text-gray-200">2. Check Your Phrase</h3>
+                                {saved && <CheckCircle size={20} className="text-green-400" weight="fill" />}
+                            </div>
+                            {saved ? (
+                                <p className="text-sm text-gray-400">Your recovery phrase is active. Any previous recovery phrase no longer works.</p>
+                            ) : (
+                                <>
+                                    <div className="grid grid-cols-3 gap-2 mb-4">
+                                        {checkPositions.map(pos => (
+                                            <label key={pos} className="block">
+                                                <span className="block text-xs text-gray-400 mb-1">Word #{pos + 1}</span>
+                                                <input
+                                                    type="text"
+                                                    autoComplete="off"
+                                                    autoCapitalize="none"
+                                                    spellCheck={false}
+                                                    value={checkInputs[pos] || ''}
+                                                    onChange={(e) => setCheckInputs(prev => ({ ...prev, [pos]: e.target.value }))}
+                                                    className="w-full glass-input font-mono text-sm"
+                                                    required
+                                                    disabled={!recorded}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+
+                                    {error && (
+                                        <div className="bg-error/10 text-error text-sm p-3 rounded-lg border border-error/20 text-center mb-4">
+                                            {error}
+                                        </div>
+                                    )}
+
+                                    <button
+                                        type="submit"
+                                        disabled={!recorded || !masterKey || loading}
+                                        className="glass-button w-full py-3 font-semibold"
+                                    >
+                                        {!masterKey ? 'Verifying Security Keys...' : loading ? 'Saving...' : 'Confirm & Activate'}
+                                    </button>
+                                </>
+                            )}
+                        </form>
                     </div>
                 </div>
 
                 {/* Continue Button */}
                 <button
                     onClick={handleContinue}
-                    disabled={!downloaded || !confirmed}
-                    className={`w-full py-3.5 sm:py-4 rounded-xl font-bold flex items-center justify-center gap-2 transition-all duration-300 ${downloaded && confirmed
+                    disabled={!saved}
+                    className={`w-full py-3.5 sm:py-4 rounded-xl font-bold flex items-center justify-center gap-2 transition-all duration-300 ${saved
                         ? 'bg-gradient-to-r from-primary to-secondary text-white shadow-lg shadow-primary/25 hover:shadow-primary/40 transform hover:-translate-y-0.5'
                         : 'bg-white/5 text-gray-400 cursor-not-allowed'
                         }`}
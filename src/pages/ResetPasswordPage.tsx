@@ -1,8 +1,17 @@
-import { useState, type FormEvent } from 'react';
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { CheckCircle, Warning, TrashSimple, ShieldCheck } from '@phosphor-icons/react';
+import { CheckCircle, Warning, TrashSimple, ShieldCheck, UsersThree } from '@phosphor-icons/react';
 import { authAPI } from '../api/auth';
 import { Modal } from '../components/Modal';
+import { deriveRecoveryKey, isRecoveryPhrase } from '../utils/recoveryPhrase';
+import { socialRecoveryAPI } from '../api/socialRecovery';
+import type { RecoveryRequestStatus } from '../api/socialRecovery';
+import { generateRequestKeyPair, recoverMasterKey, verificationCode } from '../utils/socialRecovery';
+import type { AccountKeys } from '../utils/socialRecovery';
+import { toBase64, fromBase64 } from '@lazybird-inc/nest-crypto';
+
+// The one-time request keypair survives reloads (trustees may take days), keyed to the request
+const CONTACTS_STORAGE_KEY = 'nest_social_recovery';
 
 export const ResetPasswordPage = () => {
     const navigate = useNavigate();
@@ -14,10 +23,78 @@ export const ResetPasswordPage = () => {
     const [recoveryKey, setRecoveryKey] = useState('');
     const [loading, setLoading] = useState(false);
     const [success, setSuccess] = useState(false);
-    const [resetMode, setResetMode] = useState<'recover' | 'destructive'>('recover');
+    const [resetMode, setResetMode] = useState<'recover' | 'contacts' | 'destructive'>('recover');
     const [error, setError] = useState('');
     const [showConfirmModal, setShowConfirmModal] = useState(false);
 
+    // Trusted-contact recovery
+    const [requestKeys, setRequestKeys] = useState<AccountKeys | null>(null);
+    const [requestCode, setRequestCode] = useState('');
+    const [contactsStatus, setContactsStatus] = useState<RecoveryRequestStatus | null>(null);
+    const [recoveredMasterKey, setRecoveredMasterKey] = useState<Uint8Array | null>(null);
+    const [contactsBusy, setContactsBusy] = useState(false);
+
+    const checkContacts = useCallback(async (keys: AccountKeys) => {
+        if (!token) return;
+        setContactsBusy(true);
+        setError('');
+        try {
+            const status = await socialRecoveryAPI.getRequestStatus(token);
+            if (status.requestPublicKey !== toBase64(keys.publicKey)) {
+                // Superseded by a request opened elsewhere
+                localStorage.removeItem(CONTACTS_STORAGE_KEY);
+                setRequestKeys(null);
+                return;
+            }
+            setContactsStatus(status);
+            if (status.envelope) setRecoveredMasterKey(await recoverMasterKey(status, keys));
+        } catch (err: any) {
+            if (err.response?.status === 404) {
+                localStorage.removeItem(CONTACTS_STORAGE_KEY);
+                setRequestKeys(null);
+            } else {
+                setError(err.response?.data?.error || err.message || 'Failed to check approvals');
+            }
+        } finally {
+            setContactsBusy(false);
+        }
+    }, [token]);
+
+    // Resume a request started earlier from this browser
+    useEffect(() => {
+        if (resetMode !== 'contacts' || requestKeys) return;
+        const saved = localStorage.getItem(CONTACTS_STORAGE_KEY);
+        if (!saved) return;
+        try {
+            const { publicKey, privateKey } = JSON.parse(saved);
+            const keys = { publicKey: fromBase64(publicKey), privateKey: fromBase64(privateKey) };
+            setRequestKeys(keys);
+            verificationCode(publicKey).then(setRequestCode);
+            checkContacts(keys);
+        } catch {
+            localStorage.removeItem(CONTACTS_STORAGE_KEY);
+        }
+    }, [resetMode, requestKeys, checkContacts]);
+
+    const startContactsRecovery = async () => {
+        if (!token) return;
+        setContactsBusy(true);
+        setError('');
+        try {
+            const keys = await generateRequestKeyPair();
+            const publicKey = toBase64(keys.publicKey);
+            await socialRecoveryAPI.startRequest(token, publicKey);
+            localStorage.setItem(CONTACTS_STORAGE_KEY, JSON.stringify({ publicKey, privateKey: toBase64(keys.privateKey) }));
+            setRequestKeys(keys);
+            setRequestCode(await verificationCode(publicKey));
+            setContactsBusy(false);
+            await checkContacts(keys);
+        } catch (err: any) {
+            setError(err.response?.data?.error || err.message || 'Failed to contact your trusted contacts');
+            setContactsBusy(false);
+        }
+    };
+
     const executeReset = async () => {
         setLoading(true);
         setError('');
@@ -28,6 +105,7 @@ export const ResetPasswordPage = () => {
                 deriveAuthHash,
                 deriveWrappingKey,
                 encryptMasterKey,
+                decryptMasterKey,
                 generateMasterKey,
                 encryptMetadataBlob,
                 generateFolderKey,
@@ -51,17 +129,36 @@ export const ResetPasswordPage = () => {
 
             if (resetMode === 'recover') {
                 // PATH A: RECOVERY
-                try {
-                    // Clean and decode the user-provided Recovery Key
-                    const cleanKey = recoveryKey.replace(/\s/g, '').trim();
-                    masterKey = fromBase64(cleanKey);
-
-                    if (masterKey.length !== 32) {
-                        throw new Error('Invalid recovery key length');
+                if (isRecoveryPhrase(recoveryKey)) {
+                    // Unwrap the server-held envelope with the key derived from the phrase
+                    const envelope = await authAPI.getRecoveryKey(token as string);
+                    const phraseKey = await deriveRecoveryKey(recoveryKey);
+                    try {
+                        masterKey = decryptMasterKey(
+                            fromBase64(envelope.recoveryEncryptedMasterKey),
+                            fromBase64(envelope.recoveryMasterKeyNonce),
+                            phraseKey
+                        );
+                    } catch {
+                        throw new Error('This recovery phrase does not match your account. It may have been replaced by a newer one.');
+                    }
+                } else {
+                    // Legacy recovery kit: the raw base64 master key
+                    try {
+                        const cleanKey = recoveryKey.replace(/\s/g, '').trim();
+                        masterKey = fromBase64(cleanKey);
+
+                        if (masterKey.length !== 32) {
+                            throw new Error('Invalid recovery key length');
+                        }
+                    } catch {
+                        throw new Error('Invalid Recovery Phrase. Enter all 24 words in order.');
                     }
-                } catch {
-                    throw new Error('Invalid Recovery Key format');
                 }
+            } else if (resetMode === 'contacts') {
+                // PATH A2: TRUSTED CONTACTS (already reassembled from approved shares)
+                if (!recoveredMasterKey) throw new Error('Waiting for your trusted contacts to approve');
+                masterKey = recoveredMasterKey;
             } else {
                 // PATH B: DESTRUCTIVE
                 masterKey = generateMasterKey();
@@ -107,6 +204,7 @@ export const ResetPasswordPage = () => {
                 wipeData
             });
 
+            localStorage.removeItem(CONTACTS_STORAGE_KEY);
             setSuccess(true);
             setTimeout(() => navigate('/login'), 3000);
 
@@ -134,7 +232,12 @@ export const ResetPasswordPage = () => {
         }
 
         if (resetMode === 'recover' && !recoveryKey) {
-            setError('Please enter your Recovery Key');
+            setError('Please enter your Recovery Phrase');
+            return;
+        }
+
+        if (resetMode === 'contacts' && !recoveredMasterKey) {
+            setError('Your trusted contacts need to approve before you can set a new password');
             return;
         }
 
@@ -177,7 +280,16 @@ export const ResetPasswordPage = () => {
                             }`}
                     >
                         <ShieldCheck size={18} weight={resetMode === 'recover' ? 'fill' : 'regular'} />
-                        I have Recovery Key
+                        Recovery Phrase
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setResetMode('contacts')}
+                        className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all flex items-center justify-center gap-2 ${resetMode === 'contacts' ? 'bg-primary text-white shadow-lg' : 'text-gray-400 hover:text-white'
+                            }`}
+                    >
+                        <UsersThree size={18} weight={resetMode === 'contacts' ? 'fill' : 'regular'} />
+                        Trusted Contacts
                     </button>
                     <button
                         type="button"
@@ -186,7 +298,7 @@ export const ResetPasswordPage = () => {
                             }`}
                     >
                         <TrashSimple size={18} weight={resetMode === 'destructive' ? 'fill' : 'regular'} />
-                        Lost Recovery Key
+                        Lost Both
                     </button>
                 </div>
 
@@ -195,27 +307,78 @@ export const ResetPasswordPage = () => {
                     {resetMode === 'recover' && (
                         <div className="bg-primary/5 border border-primary/20 rounded-xl p-4 animate-fade-in">
                             <label className="block text-sm font-bold text-gray-200 mb-2">
-                                Recovery Key
+                                Recovery Phrase
                             </label>
                             <textarea
                                 value={recoveryKey}
                                 onChange={(e) => setRecoveryKey(e.target.value)}
                                 className="w-full h-24 glass-input font-mono text-xs resize-none p-3"
-                                placeholder="Paste your alphanumeric recovery key here..."
+                                placeholder="Enter your 24 words in order, separated by spaces..."
+                                autoCapitalize="none"
+                                spellCheck={false}
                                 required
                             />
                             <p className="text-xs text-gray-400 mt-2">
-                                Check your saved "nest-recovery-kit.txt" file.
+                                Check your saved "nest-recovery-phrase.txt" file. An older recovery key from "nest-recovery-kit.txt" also works.
                             </p>
                         </div>
                     )}
 
+                    {resetMode === 'contacts' && (
+                        <div className="bg-primary/5 border border-primary/20 rounded-xl p-4 animate-fade-in space-y-3">
+                            {!requestKeys ? (
+                                <>
+                                    <p className="text-sm text-gray-300">
+                                        If you set up trusted contacts, we'll email them. Once enough of them approve from their
+                                        Nest dashboard, your files are unlocked in this browser.
+                                    </p>
+                                    <button
+                                        type="button"
+                                        onClick={startContactsRecovery}
+                                        disabled={contactsBusy}
+                                        className="glass-button w-full py-2.5 font-semibold"
+                                    >
+                                        {contactsBusy ? 'Sending...' : 'Ask My Trusted Contacts'}
+                                    </button>
+                                </>
+                            ) : recoveredMasterKey ? (
+                                <div className="flex items-center gap-2 text-sm text-green-400 font-bold">
+                                    <CheckCircle size={20} weight="fill" />
+                                    Approved — your files are unlocked. Choose a new password below.
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="text-center">
+                                        <p className="text-xs text-gray-400 mb-1">Read this code to each contact when they call or you meet</p>
+                                        <p className="text-2xl font-mono font-bold tracking-widest text-gray-100">{requestCode || '····-····'}</p>
+                                    </div>
+                                    <p className="text-sm text-gray-300 text-center">
+                                        {contactsStatus
+                                            ? `${contactsStatus.shares.length} of ${contactsStatus.threshold} approvals${contactsStatus.declined ? ` · ${contactsStatus.declined} declined` : ''}`
+                                            : 'Checking approvals...'}
+                                    </p>
+                                    <button
+                                        type="button"
+                                        onClick={() => checkContacts(requestKeys)}
+                                        disabled={contactsBusy}
+                                        className="w-full py-2 text-sm font-semibold rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/10 transition-colors"
+                                    >
+                                        {contactsBusy ? 'Checking...' : 'Check Again'}
+                                    </button>
+                                    <p className="text-xs text-gray-400 text-center">
+                                        You can close this page; reopen the link from your email to continue.
+                                    </p>
+                                </>
+                            )}
+                        </div>
+                    )}
+
                     {resetMode === 'destructive' && (
                         <div className="bg-error/10 border border-error/20 rounded-xl p-4 animate-fade-in flex items-start gap-3">
                             <Warning className="text-error flex-shrink-0 mt-0.5" size={24} weight="fill" />
                             <div className="text-sm text-error">
                                 <strong className="block font-bold mb-1">Warning: Data Loss</strong>
-                                Without your recovery key, <strong>all your existing files will be deleted</strong>. We will create a fresh, empty account for you.
+                                Without your recovery phrase or trusted contacts, <strong>all your existing files will be deleted</strong>. We will create a fresh, empty account for you.
                             </div>
                         </div>
                     )}
@@ -17,9 +17,14 @@ import { storageAPI } from '../api/storage';
 import { filesAPI } from '../api/files';
 import { useToast } from '../contexts/ToastContext';
 import { PasswordChangeModal } from '../components/PasswordChangeModal';
+import { TwoFactorSettings } from '../components/TwoFactorSettings';
+import { ActiveSessions } from '../components/ActiveSessions';
+import { TrustedContactsSettings } from '../components/TrustedContactsSettings';
 import { CancelWarningModal } from '../components/CancelWarningModal';
 import { useSearchParams } from 'react-router-dom';
 import { billingAPI } from '../api/billing';
+import { recoveryAPI } from '../api/auth';
+import type { RecoveryStatus } from '../api/auth';
 
 const FREE_TIER_QUOTA = 2 * 1024 * 1024 * 1024; // 2GB
 
@@ -42,6 +47,7 @@ export const SettingsPage = () => {
     const [showCancelWarning, setShowCancelWarning] = useState(false);
     const [exporting, setExporting] = useState(false);
     const [showTransparencyModal, setShowTransparencyModal] = useState(false);
+    const [recovery, setRecovery] = useState<RecoveryStatus | null>(null);
     const { showToast } = useToast();
 
     useEffect(() => {
@@ -57,6 +63,22 @@ export const SettingsPage = () => {
             .finally(() => { });
     }, []);
 
+    useEffect(() => {
+        recoveryAPI.getStatus()
+            .then(setRecovery)
+            .catch(err => console.error('[Settings] Failed to fetch recovery status:', err));
+    }, []);
+
+    const handleRevokeRecovery = async () => {
+        if (!confirm('Revoke your recovery phrase? If you then forget your password, your files cannot be recovered.')) return;
+        try {
+            setRecovery(await recoveryAPI.revoke());
+            showToast('Recovery phrase revoked', 'success');
+        } catch (err: any) {
+            showToast(err.response?.data?.error || 'Failed to revoke recovery phrase', 'error');
+        }
+    };
+
     // Handle Stripe Redirect (Upgrade Success)
     const [searchParams, setSearchParams] = useSearchParams();
     const [syncAttempted, setSyncAttempted] = useState(false);
@@ -199,26 +221,49 @@ export const SettingsPage = () => {
                         </button>
                     </div>
 
-                    {/* Recovery Kit Row */}
+                    {/* Two-Factor Rows */}
+                    <TwoFactorSettings userEmail={user?.email || ''} />
+
+                    {/* Trusted Contacts Row */}
+                    <TrustedContactsSettings />
+
+                    {/* Recovery Phrase Row */}
                     <div className="flex items-center justify-between p-6">
                         <div className="flex items-center gap-3">
                             <div className="w-8 h-8 rounded-lg bg-amber-500/10 flex items-center justify-center text-amber-600">
                                 <Warning size={16} weight="regular" />
                             </div>
                             <div>
-                                <p className="text-sm font-semibold">Recovery Kit</p>
-                                <p className="text-xs text-[#94A3B8]">Download your emergency backup key</p>
+                                <p className="text-sm font-semibold">Recovery Phrase</p>
+                                <p className="text-xs text-[#94A3B8]">
+                                    {recovery?.enabled && recovery.createdAt
+                                        ? `Active since ${new Date(recovery.createdAt).toLocaleDateString()} — restores your files if you forget your password`
+                                        : 'Not set up — without it a forgotten password means losing your files'}
+                                </p>
                             </div>
                         </div>
-                        <button
-                            onClick={() => window.location.href = '/recovery-setup'}
-                            className="btn btn-fill text-xs"
-                        >
-                            Download
-                        </button>
+                        <div className="flex items-center gap-2">
+                            {recovery?.enabled && (
+                                <button onClick={handleRevokeRecovery} className="btn btn-fill text-xs">
+                                    Revoke
+                                </button>
+                            )}
+                            <button
+                                onClick={() => window.location.href = '/recovery-setup'}
+                                className="btn btn-fill text-xs"
+                            >
+                                {recovery?.enabled ? 'Regenerate' : 'Set Up'}
+                            </button>
+                        </div>
                     </div>
                 </div>
 
+                {/* ─── SESSIONS ─── */}
+                <div className="text-[11px] font-bold tracking-wider uppercase text-[#5D7285] opacity-70 mb-4">Sessions</div>
+                <div className="bg-white/65 backdrop-blur-md border border-slate-300/40 rounded-xl mb-10 shadow-[0_1px_3px_rgba(0,0,0,0.04)] overflow-hidden">
+                    <ActiveSessions />
+                </div>
+
                 {/* ─── PLAN & STORAGE ─── */}
                 <div className="text-[11px] font-bold tracking-wider uppercase text-[#5D7285] opacity-70 mb-4">Plan & Storage</div>
                 <div className="bg-white/65 backdrop-blur-md border border-slate-300/40 rounded-xl p-6 mb-10 shadow-[0_1px_3px_rgba(0,0,0,0.04)]">
@@ -13,10 +13,16 @@ import {
     Warning,
     Clock,
     XCircle,
-    Prohibit
+    Prohibit,
+    Folder,
+    CaretLeft,
+    Eye
 } from '@phosphor-icons/react';
-import { fromBase64, init as initCrypto } from '@lazybird-inc/nest-crypto';
-import { StreamingDownloader } from '../utils/StreamingDownloader';
+import { fromBase64, init as initCrypto, decryptFolderKey, decryptFileKey, decryptWithMasterKey } from '@lazybird-inc/nest-crypto';
+import { StreamingDownloader, type DownloadOptions } from '../utils/StreamingDownloader';
+import { getPreviewKind, type PreviewSource, type PreviewTarget } from '../utils/filePreview';
+import { FilePreviewModal } from '../components/FilePreviewModal';
+import { formatBytes } from '../utils/fileFormat';
 import nestLogo from '../assets/nest-logo.png';
 import { useToast } from '../contexts/ToastContext';
 
@@ -52,8 +58,48 @@ const ProtectedPrism = () => (
     </div>
 );
 
+// Folder links (/s/f/:token) carry a base64url link key in #lk=
+const fromBase64url = (str: string): Uint8Array => {
+    let s = str.replace(/-/g, '+').replace(/_/g, '/');
+    while (s.length % 4) {
+        s += '=';
+    }
+    return fromBase64(s);
+};
+
+interface SharedFolder {
+    id: number;
+    parent_id: number;
+    name: string;
+}
+
+interface SharedFile extends SharedFolder {
+    file_size: number;
+    mime_type: string;
+    fileKey: Uint8Array;
+}
+
+interface FolderListing {
+    rootId: number;
+    name: string;
+    folders: SharedFolder[];
+    files: SharedFile[];
+}
+
+interface DownloadTarget {
+    key: Uint8Array;
+    name: string;
+    mime: string;
+    info: any;
+    rawUrl: string;
+    streaming: Pick<DownloadOptions, 'shareToken' | 'folderShareToken' | 'fileId'>;
+}
+
 export const SharePage = () => {
-    const { shareToken } = useParams<{ shareToken: string }>();
+    const { shareToken, folderToken } = useParams<{ shareToken?: string; folderToken?: string }>();
+    const isFolderLink = !!folderToken;
+    const linkToken = folderToken || shareToken;
+    const apiBase = isFolderLink ? `${API_BASE_URL}/shares/f/${folderToken}` : `${API_BASE_URL}/shares/s/${shareToken}`;
     const navigate = useNavigate();
     const { showToast } = useToast();
 
@@ -74,6 +120,12 @@ export const SharePage = () => {
     const [mimeType, setMimeType] = useState('application/octet-stream');
     const [downloadProgress, setDownloadProgress] = useState(0);
 
+    // Folder link state
+    const [folderListing, setFolderListing] = useState<FolderListing | null>(null);
+    const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
+    const [downloadingFileId, setDownloadingFileId] = useState<number | null>(null);
+    const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+
     // Mouse interactive lighting
     const mouseX = useMotionValue(0);
     const mouseY = useMotionValue(0);
@@ -87,15 +139,92 @@ export const SharePage = () => {
 
     useEffect(() => {
         // Retrieve cached password token if available
-        const cached = sessionStorage.getItem(`pw_token_${shareToken}`);
+        const cached = sessionStorage.getItem(`pw_token_${linkToken}`);
         if (cached) {
             setPasswordToken(cached);
         }
-    }, [shareToken]);
+    }, [linkToken]);
 
     useEffect(() => {
-        loadShareLink();
-    }, [shareToken, passwordToken]);
+        if (isFolderLink) loadFolderLink();
+        else loadShareLink();
+    }, [linkToken, passwordToken]);
+
+    // Shared handling for 401 / 410 responses. Returns true when the response was consumed.
+    const handleGateResponse = async (response: Response): Promise<boolean> => {
+        if (response.status === 401) {
+            setPasswordRequired(true);
+            setLoading(false);
+            return true;
+        }
+
+        if (response.status === 410) {
+            const data = await response.json();
+            if (data.expired) setDeadState('expired');
+            else if (data.limit_reached) setDeadState('limit_reached');
+            else setDeadState('revoked');
+            setLoading(false);
+            return true;
+        }
+
+        return false;
+    };
+
+    const authHeaders = (): HeadersInit => passwordToken ? { Authorization: `Bearer ${passwordToken}` } : {};
+
+    const loadFolderLink = async () => {
+        try {
+            await initCrypto();
+            const lkParam = new URLSearchParams(window.location.hash.substring(1)).get('lk');
+            if (!lkParam) {
+                setError('Invalid share link - missing decryption key');
+                setLoading(false);
+                return;
+            }
+            const linkKey = fromBase64url(lkParam);
+
+            const response = await fetch(apiBase, { headers: authHeaders() });
+            if (await handleGateResponse(response)) return;
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Share link not found');
+            }
+
+            const data = await response.json();
+
+            // Link key -> folder key -> file keys, names and MIME types
+            const folderKey = decryptFolderKey(fromBase64(data.folder_key_encrypted), fromBase64(data.folder_key_nonce), linkKey);
+            const open = (sealed: string) => {
+                const { encrypted, nonce } = JSON.parse(sealed);
+                return JSON.parse(new TextDecoder().decode(decryptWithMasterKey(fromBase64(encrypted), fromBase64(nonce), folderKey)));
+            };
+
+            setFolderListing({
+                rootId: data.root_folder_id,
+                name: open(data.encrypted_name).name,
+                folders: data.folders.map((f: any) => ({ id: f.id, parent_id: f.parent_id, name: open(f.encrypted_meta).name })),
+                files: data.files.map((f: any) => {
+                    const meta = open(f.encrypted_meta);
+                    return {
+                        id: f.id,
+                        parent_id: f.parent_id,
+                        name: meta.name,
+                        mime_type: meta.mime_type || 'application/octet-stream',
+                        file_size: f.file_size,
+                        fileKey: decryptFileKey(fromBase64(f.file_key_encrypted), fromBase64(f.file_key_nonce), folderKey)
+                    };
+                })
+            });
+            setCurrentFolderId(data.root_folder_id);
+            setPasswordRequired(false);
+            setLoading(false);
+        } catch (err: any) {
+            console.error('[SharePage] Folder link error:', err);
+            setError(err.message || 'Failed to load share link');
+            setLoading(false);
+        }
+    };
 
     const loadShareLink = async () => {
         if (!shareToken) return;
@@ -131,22 +260,8 @@ export const SharePage = () => {
                 headers['Authorization'] = `Bearer ${passwordToken}`;
             }
 
-            const response = await fetch(`${API_BASE_URL}/shares/s/${shareToken}`, { headers });
-            
-            if (response.status === 401) {
-                setPasswordRequired(true);
-                setLoading(false);
-                return;
-            }
-
-            if (response.status === 410) {
-                const data = await response.json();
-                if (data.expired) setDeadState('expired');
-                else if (data.limit_reached) setDeadState('limit_reached');
-                else setDeadState('revoked');
-                setLoading(false);
-                return;
-            }
+            const response = await fetch(apiBase, { headers });
+            if (await handleGateResponse(response)) return;
 
             if (!response.ok) {
                 const data = await response.json();
@@ -169,7 +284,7 @@ export const SharePage = () => {
         setPasswordError('');
 
         try {
-            const response = await fetch(`${API_BASE_URL}/shares/s/${shareToken}/verify-password`, {
+            const response = await fetch(`${apiBase}/verify-password`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ password })
@@ -182,7 +297,7 @@ export const SharePage = () => {
 
             const data = await response.json();
             if (data.success && data.token) {
-                sessionStorage.setItem(`pw_token_${shareToken}`, data.token);
+                sessionStorage.setItem(`pw_token_${linkToken}`, data.token);
                 setPasswordToken(data.token);
             }
         } catch (err: any) {
@@ -190,93 +305,177 @@ export const SharePage = () => {
         }
     };
 
+    // Legacy non-chunked files: gateway first when verified, then the server proxy
+    const fetchLegacyBlob = async (info: any, rawUrl: string): Promise<Blob> => {
+        let blob: Blob | null = null;
+
+        // Attempt Direct Gateway Download if verified
+        if (info.is_gateway_verified) {
+            try {
+                console.log('[SharePage] 🚀 Attempting Direct Gateway Download...');
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+                const res = await fetch(`https://gateway.lazybird.io/file/${info.merkle_hash}`, {
+                    signal: controller.signal
+                });
+                clearTimeout(timeoutId);
+
+                if (res.ok) {
+                    blob = await res.blob();
+                    console.log('[SharePage] ✅ Gateway Download Successful');
+                }
+            } catch (e) {
+                console.warn('[SharePage] ⚠️ Gateway failed, falling back to Server Proxy:', e);
+            }
+        }
+
+        // Server Proxy Download (Auto-Hydration)
+        if (!blob) {
+            console.log('[SharePage] 🔄 Attempting Server Proxy Download...');
+            // Send the password token via Authorization header (not query param)
+            // to keep it out of server/proxy logs and browser history. The server
+            // still accepts the legacy ?token= form, so existing links keep working.
+            const res = await fetch(rawUrl, passwordToken ? { headers: { Authorization: `Bearer ${passwordToken}` } } : undefined);
+            if (!res.ok) {
+                const errText = await res.text();
+                throw new Error(`Download failed: ${errText || res.statusText}`);
+            }
+            blob = await res.blob();
+            console.log('[SharePage] ✅ Server Proxy Download Successful');
+        }
+
+        return blob;
+    };
+
+    const runDownload = async ({ key, name, mime, info, rawUrl, streaming }: DownloadTarget) => {
+        if (!info.is_chunked) {
+            // Fallback for non-chunked files (legacy)
+            const blob = await fetchLegacyBlob(info, rawUrl);
+
+            const { decryptFile, init } = await import('@lazybird-inc/nest-crypto');
+            await init();
+            const decryptedBytes = await decryptFile(blob, null, key);
+
+            const fileBlob = new Blob([decryptedBytes as any], { type: mime });
+            const url = window.URL.createObjectURL(fileBlob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = name;
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            document.body.removeChild(a);
+        } else {
+            // V3 Streaming Download (Zero-Memory)
+            await StreamingDownloader.download({
+                ...streaming,
+                authToken: passwordToken || undefined,
+                fileKey: key,
+                filename: name,
+                chunks: info.chunks,
+                isGatewayVerified: info.is_gateway_verified,
+                onProgress: (p) => setDownloadProgress(p)
+            });
+        }
+    };
+
     const handleDownload = async () => {
         if (!fileKey || !fileInfo) return;
         setDownloading(true);
         setDownloadProgress(0);
 
         try {
-            if (!fileInfo.is_chunked) {
-                // Fallback for non-chunked files (legacy)
-                let blob: Blob | null = null;
-
-                // Attempt Direct Gateway Download if verified
-                if (fileInfo.is_gateway_verified) {
-                    try {
-                        console.log('[SharePage] 🚀 Attempting Direct Gateway Download...');
-                        const controller = new AbortController();
-                        const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-                        const res = await fetch(`https://gateway.lazybird.io/file/${fileInfo.merkle_hash}`, {
-                            signal: controller.signal
-                        });
-                        clearTimeout(timeoutId);
-
-                        if (res.ok) {
-                            blob = await res.blob();
-                            console.log('[SharePage] ✅ Gateway Download Successful');
-                        }
-                    } catch (e) {
-                        console.warn('[SharePage] ⚠️ Gateway failed, falling back to Server Proxy:', e);
-                    }
-                }
+            await runDownload({
+                key: fileKey,
+                name: filename,
+                mime: mimeType,
+                info: fileInfo,
+                rawUrl: `${apiBase}/raw`,
+                streaming: { shareToken: shareToken! }
+            });
+        } catch (err: any) {
+            console.error('[SharePage] Download Error:', err);
+            showToast('Download failed: ' + err.message, 'error');
+        } finally {
+            setDownloading(false);
+            setDownloadProgress(0);
+        }
+    };
 
-                // Server Proxy Download (Auto-Hydration)
-                if (!blob) {
-                    console.log('[SharePage] 🔄 Attempting Server Proxy Download...');
-                    // Send the password token via Authorization header (not query param)
-                    // to keep it out of server/proxy logs and browser history. The server
-                    // still accepts the legacy ?token= form, so existing links keep working.
-                    const url = `${API_BASE_URL}/shares/s/${shareToken}/raw`;
-                    const res = await fetch(url, passwordToken ? { headers: { Authorization: `Bearer ${passwordToken}` } } : undefined);
-                    if (!res.ok) {
-                        const errText = await res.text();
-                        throw new Error(`Download failed: ${errText || res.statusText}`);
-                    }
-                    blob = await res.blob();
-                    console.log('[SharePage] ✅ Server Proxy Download Successful');
-                }
+    const handleFolderFileDownload = async (file: SharedFile) => {
+        setDownloadingFileId(file.id);
+        setDownloadProgress(0);
 
-                const { decryptFile, init } = await import('@lazybird-inc/nest-crypto');
-                await init();
-                const decryptedBytes = await decryptFile(blob!, null, fileKey);
-
-                const fileBlob = new Blob([decryptedBytes as any], { type: mimeType });
-                const url = window.URL.createObjectURL(fileBlob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = filename;
-                document.body.appendChild(a);
-                a.click();
-                window.URL.revokeObjectURL(url);
-                document.body.removeChild(a);
-            } else {
-                // V3 Streaming Download (Zero-Memory)
-                await StreamingDownloader.download({
-                    shareToken: shareToken!,
-                    authToken: passwordToken || undefined,
-                    fileKey,
-                    filename,
-                    chunks: fileInfo.chunks,
-                    isGatewayVerified: fileInfo.is_gateway_verified,
-                    onProgress: (p) => setDownloadProgress(p)
-                });
+        try {
+            const response = await fetch(`${apiBase}/files/${file.id}`, { headers: authHeaders() });
+            if (await handleGateResponse(response)) return;
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'File unavailable');
             }
+
+            await runDownload({
+                key: file.fileKey,
+                name: file.name,
+                mime: file.mime_type,
+                info: await response.json(),
+                rawUrl: `${apiBase}/files/${file.id}/raw`,
+                streaming: { folderShareToken: folderToken!, fileId: file.id }
+            });
         } catch (err: any) {
             console.error('[SharePage] Download Error:', err);
             showToast('Download failed: ' + err.message, 'error');
         } finally {
-            setDownloading(false);
+            setDownloadingFileId(null);
             setDownloadProgress(0);
         }
     };
 
-    const getFileIcon = () => {
-        const iconClasses = "w-14 h-14 sm:w-16 sm:h-16 text-primary drop-shadow-sm";
-        if (mimeType.startsWith('image/')) return <Image weight="duotone" className={iconClasses} />;
-        if (mimeType.startsWith('video/')) return <FilmStrip weight="duotone" className={iconClasses} />;
-        if (mimeType.startsWith('audio/')) return <MusicNotes weight="duotone" className={iconClasses} />;
-        if (mimeType.includes('pdf') || mimeType.includes('text')) return <FileText weight="duotone" className={iconClasses} />;
+    const previewSource = ({ key, info, rawUrl, streaming }: Omit<DownloadTarget, 'name' | 'mime'>): PreviewSource => info.is_chunked
+        ? { fileKey: key, chunks: info.chunks, auth: { ...streaming, authToken: passwordToken || undefined, isGatewayVerified: info.is_gateway_verified } }
+        : {
+            decrypt: async () => {
+                const { decryptFile, init } = await import('@lazybird-inc/nest-crypto');
+                await init();
+                return decryptFile(await fetchLegacyBlob(info, rawUrl), null, key);
+            }
+        };
+
+    const handlePreview = () => {
+        if (!fileKey || !fileInfo) return;
+        setPreviewTarget({
+            name: filename,
+            mimeType,
+            size: fileInfo.file_size,
+            resolve: async () => previewSource({ key: fileKey, info: fileInfo, rawUrl: `${apiBase}/raw`, streaming: { shareToken: shareToken! } }),
+            onDownload: handleDownload
+        });
+    };
+
+    const handleFolderFilePreview = (file: SharedFile) => setPreviewTarget({
+        name: file.name,
+        mimeType: file.mime_type,
+        size: file.file_size,
+        resolve: async () => {
+            const response = await fetch(`${apiBase}/files/${file.id}`, { headers: authHeaders() });
+            if (await handleGateResponse(response)) throw new Error('Link unavailable');
+            if (!response.ok) throw new Error((await response.json()).error || 'File unavailable');
+            return previewSource({
+                key: file.fileKey,
+                info: await response.json(),
+                rawUrl: `${apiBase}/files/${file.id}/raw`,
+                streaming: { folderShareToken: folderToken!, fileId: file.id }
+            });
+        },
+        onDownload: () => handleFolderFileDownload(file)
+    });
+
+    const getFileIcon = (mime: string = mimeType, iconClasses: string = "w-14 h-14 sm:w-16 sm:h-16 text-primary drop-shadow-sm") => {
+        if (mime.startsWith('image/')) return <Image weight="duotone" className={iconClasses} />;
+        if (mime.startsWith('video/')) return <FilmStrip weight="duotone" className={iconClasses} />;
+        if (mime.startsWith('audio/')) return <MusicNotes weight="duotone" className={iconClasses} />;
+        if (mime.includes('pdf') || mime.includes('text')) return <FileText weight="duotone" className={iconClasses} />;
         return <File weight="duotone" className={iconClasses} />;
     };
 
@@ -338,7 +537,7 @@ export const SharePage = () => {
                             <Lock size={32} weight="bold" />
                         </div>
                         <h2 className="text-xl font-bold text-slate-800 mb-1 tracking-tight">Password Protected</h2>
-                        <p className="text-slate-500 mb-6 text-xs font-semibold uppercase tracking-wider">A password is required to unlock this file</p>
+                        <p className="text-slate-500 mb-6 text-xs font-semibold uppercase tracking-wider">A password is required to unlock this {isFolderLink ? 'folder' : 'file'}</p>
                         
                         <form onSubmit={handleVerifyPassword} className="flex flex-col gap-3">
                             <input
@@ -356,7 +555,7 @@ export const SharePage = () => {
                                 type="submit"
                                 className="w-full py-3.5 bg-[#0F172A] hover:bg-slate-800 text-white rounded-xl font-semibold transition-all text-sm shadow-md mt-2"
                             >
-                                Unlock File
+                                Unlock {isFolderLink ? 'Folder' : 'File'}
                             </button>
                         </form>
                     </div>
@@ -400,7 +599,7 @@ export const SharePage = () => {
                 initial={{ opacity: 0, scale: 0.96, y: 10 }}
                 animate={{ opacity: 1, scale: 1, y: 0 }}
                 transition={{ duration: 0.7, ease: [0.16, 1, 0.3, 1] }}
-                className="max-w-sm w-full relative z-10"
+                className={`${isFolderLink ? 'max-w-lg' : 'max-w-sm'} w-full relative z-10`}
             >
                 <div className="relative group overflow-hidden rounded-[1.75rem] sm:rounded-[2.5rem]">
                     {/* Dynamic Mouse Highlight */}
@@ -420,54 +619,136 @@ export const SharePage = () => {
                             <div className="text-center mb-8 w-full relative">
                                 <div className="mb-6 flex justify-center scale-110 drop-shadow-2xl"><ProtectedPrism /></div>
                                 <motion.div initial={{ opacity: 0, y: 5 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2, duration: 0.5 }}>
-                                    <h1 className="text-2xl font-semibold text-slate-800 tracking-tight drop-shadow-sm">Encrypted File</h1>
+                                    <h1 className="text-2xl font-semibold text-slate-800 tracking-tight drop-shadow-sm">{isFolderLink ? 'Encrypted Folder' : 'Encrypted File'}</h1>
                                     <p className="text-xs font-bold text-slate-500 uppercase tracking-widest mt-2 mix-blend-multiply">Securely shared with you</p>
                                 </motion.div>
                             </div>
 
-                            {/* File Preview Card */}
-                            <motion.div className="w-full bg-white/35 rounded-2xl p-5 mb-6 border border-white/40 text-center relative shadow-[0_8px_32px_0_rgba(31,38,135,0.04)] group/item backdrop-blur-xl overflow-hidden ring-1 ring-white/20">
-                                <div className="absolute inset-0 bg-gradient-to-tr from-white/0 to-white/50 opacity-40" />
-                                <div className="relative z-10">
-                                    <div className="flex justify-center mb-4 text-primary group-hover/item:scale-105 transition-transform duration-500 ease-[0.16,1,0.3,1]">{getFileIcon()}</div>
-                                    <h3 className="text-lg font-semibold text-slate-800 mb-1 truncate px-2 leading-tight" title={filename}>{filename}</h3>
-                                    <p className="text-slate-600 font-medium text-sm">{(fileInfo.file_size / 1024 / 1024).toFixed(2)} MB</p>
-                                </div>
-                            </motion.div>
+                            {isFolderLink && folderListing ? (
+                                <div className="w-full bg-white/35 rounded-2xl border border-white/40 shadow-[0_8px_32px_0_rgba(31,38,135,0.04)] backdrop-blur-xl ring-1 ring-white/20 overflow-hidden">
+                                    {/* Current folder header */}
+                                    <div className="flex items-center gap-2 px-4 py-3 border-b border-white/40">
+                                        {currentFolderId !== folderListing.rootId && (
+                                            <button
+                                                onClick={() => setCurrentFolderId(folderListing.folders.find(f => f.id === currentFolderId)?.parent_id ?? folderListing.rootId)}
+                                                className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/50 transition-colors"
+                                                title="Back"
+                                            >
+                                                <CaretLeft size={16} weight="bold" />
+                                            </button>
+                                        )}
+                                        <Folder size={18} weight="duotone" className="text-primary shrink-0" />
+                                        <span className="text-sm font-semibold text-slate-800 truncate">
+                                            {currentFolderId === folderListing.rootId
+                                                ? folderListing.name
+                                                : folderListing.folders.find(f => f.id === currentFolderId)?.name}
+                                        </span>
+                                    </div>
 
-                            {/* Action Button */}
-                            <motion.button
-                                whileHover={{ scale: 1.01, backgroundColor: "rgba(15, 23, 42, 0.95)" }}
-                                whileTap={{ scale: 0.98 }}
-                                onClick={handleDownload}
-                                disabled={downloading}
-                                className="w-full py-4 px-6 rounded-2xl bg-[#0F172A]/90 backdrop-blur-md text-white font-medium text-lg shadow-[0_20px_40px_-12px_rgba(15,23,42,0.35)] transition-all relative overflow-hidden flex items-center justify-center gap-3 border border-white/10 group/btn"
-                            >
-                                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent translate-x-[-150%] group-hover/btn:translate-x-[150%] transition-transform duration-1000 ease-in-out" />
-                                {downloading ? (
-                                    <div className="flex flex-col items-center gap-2">
-                                        <div className="flex items-center gap-3">
-                                            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                                            <span className="text-sm">
-                                                {downloadProgress > 0 ? `Downloading... ${downloadProgress.toFixed(0)}%` : 'Initializing...'}
-                                            </span>
-                                        </div>
-                                        {downloadProgress > 0 && (
-                                            <div className="w-48 h-1 bg-white/10 rounded-full overflow-hidden">
-                                                <div
-                                                    className="h-full bg-white/60 transition-all duration-300"
-                                                    style={{ width: `${downloadProgress}%` }}
-                                                />
+                                    <div className="max-h-[50vh] overflow-y-auto custom-scrollbar divide-y divide-white/40">
+                                        {folderListing.folders.filter(f => f.parent_id === currentFolderId).map(folder => (
+                                            <button
+                                                key={`folder-${folder.id}`}
+                                                onClick={() => setCurrentFolderId(folder.id)}
+                                                className="w-full flex items-center gap-3 px-4 py-2.5 text-left hover:bg-white/40 transition-colors"
+                                            >
+                                                <Folder size={20} weight="duotone" className="text-primary shrink-0" />
+                                                <span className="text-sm font-medium text-slate-800 truncate">{folder.name}</span>
+                                            </button>
+                                        ))}
+                                        {folderListing.files.filter(f => f.parent_id === currentFolderId).map(file => (
+                                            <div key={`file-${file.id}`} className="flex items-center gap-3 px-4 py-2.5">
+                                                {getFileIcon(file.mime_type, "w-5 h-5 text-primary shrink-0")}
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-medium text-slate-800 truncate" title={file.name}>{file.name}</p>
+                                                    <p className="text-[11px] text-slate-500">
+                                                        {downloadingFileId === file.id && downloadProgress > 0
+                                                            ? `Downloading... ${downloadProgress.toFixed(0)}%`
+                                                            : formatBytes(file.file_size)}
+                                                    </p>
+                                                </div>
+                                                {getPreviewKind(file.mime_type, file.name) && (
+                                                    <button
+                                                        onClick={() => handleFolderFilePreview(file)}
+                                                        className="p-2 rounded-lg text-slate-600 hover:text-slate-900 hover:bg-white/50 transition-colors"
+                                                        title="Preview"
+                                                    >
+                                                        <Eye size={16} weight="bold" />
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={() => handleFolderFileDownload(file)}
+                                                    disabled={downloadingFileId !== null}
+                                                    className="p-2 rounded-lg text-slate-600 hover:text-slate-900 hover:bg-white/50 transition-colors disabled:opacity-40"
+                                                    title="Download"
+                                                >
+                                                    {downloadingFileId === file.id
+                                                        ? <div className="w-4 h-4 border-2 border-slate-300 border-t-slate-700 rounded-full animate-spin" />
+                                                        : <Download size={16} weight="bold" />}
+                                                </button>
                                             </div>
+                                        ))}
+                                        {!folderListing.folders.some(f => f.parent_id === currentFolderId) && !folderListing.files.some(f => f.parent_id === currentFolderId) && (
+                                            <p className="px-4 py-6 text-center text-sm text-slate-500">This folder is empty.</p>
+                                        )}
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                {/* File Preview Card */}
+                                <motion.div className="w-full bg-white/35 rounded-2xl p-5 mb-6 border border-white/40 text-center relative shadow-[0_8px_32px_0_rgba(31,38,135,0.04)] group/item backdrop-blur-xl overflow-hidden ring-1 ring-white/20">
+                                    <div className="absolute inset-0 bg-gradient-to-tr from-white/0 to-white/50 opacity-40" />
+                                    <div className="relative z-10">
+                                        <div className="flex justify-center mb-4 text-primary group-hover/item:scale-105 transition-transform duration-500 ease-[0.16,1,0.3,1]">{getFileIcon()}</div>
+                                        <h3 className="text-lg font-semibold text-slate-800 mb-1 truncate px-2 leading-tight" title={filename}>{filename}</h3>
+                                        <p className="text-slate-600 font-medium text-sm">{(fileInfo.file_size / 1024 / 1024).toFixed(2)} MB</p>
+                                        {getPreviewKind(mimeType, filename) && (
+                                            <button
+                                                onClick={handlePreview}
+                                                className="mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-700 bg-white/50 hover:bg-white/80 border border-white/60 transition-colors"
+                                            >
+                                                <Eye size={16} weight="bold" />
+                                                Preview
+                                            </button>
                                         )}
                                     </div>
-                                ) : (
-                                    <>
-                                        <Download size={20} weight="bold" />
-                                        <span>Download File</span>
-                                    </>
-                                )}
-                            </motion.button>
+                                </motion.div>
+
+                                {/* Action Button */}
+                                <motion.button
+                                    whileHover={{ scale: 1.01, backgroundColor: "rgba(15, 23, 42, 0.95)" }}
+                                    whileTap={{ scale: 0.98 }}
+                                    onClick={handleDownload}
+                                    disabled={downloading}
+                                    className="w-full py-4 px-6 rounded-2xl bg-[#0F172A]/90 backdrop-blur-md text-white font-medium text-lg shadow-[0_20px_40px_-12px_rgba(15,23,42,0.35)] transition-all relative overflow-hidden flex items-center justify-center gap-3 border border-white/10 group/btn"
+                                >
+                                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent translate-x-[-150%] group-hover/btn:translate-x-[150%] transition-transform duration-1000 ease-in-out" />
+                                    {downloading ? (
+                                        <div className="flex flex-col items-center gap-2">
+                                            <div className="flex items-center gap-3">
+                                                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                                <span className="text-sm">
+                                                    {downloadProgress > 0 ? `Downloading... ${downloadProgress.toFixed(0)}%` : 'Initializing...'}
+                                                </span>
+                                            </div>
+                                            {downloadProgress > 0 && (
+                                                <div className="w-48 h-1 bg-white/10 rounded-full overflow-hidden">
+                                                    <div
+                                                        className="h-full bg-white/60 transition-all duration-300"
+                                                        style={{ width: `${downloadProgress}%` }}
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <Download size={20} weight="bold" />
+                                            <span>Download File</span>
+                                        </>
+                                    )}
+                                </motion.button>
+                                </>
+                            )}
 
                             <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="mt-8 text-center">
                                 <p className="text-[10px] text-slate-400 font-medium leading-relaxed max-w-[200px] mx-auto mix-blend-multiply">Zero-knowledge encryption.<br />Only you hold the key.</p>
@@ -480,6 +761,8 @@ export const SharePage = () => {
                     <a href="/" className="text-[10px] font-bold text-slate-400 hover:text-slate-600 transition-colors uppercase tracking-[0.2em] flex items-center justify-center gap-1 mix-blend-multiply">Secured by Nest</a>
                 </div>
             </motion.div>
+
+            <FilePreviewModal target={previewTarget} onClose={() => setPreviewTarget(null)} />
         </div>
     );
 };
@@ -12,14 +12,15 @@ import { CreateCollabFolderModal } from '../components/share/CreateCollabFolderM
 import { ShareSettingsModal } from '../components/share/ShareSettingsModal';
 
 import api from '../lib/api';
-import { deriveStandardLinkUrl } from '../utils/shareUrl';
+import { deriveStandardLinkUrl, deriveFolderLinkUrl } from '../utils/shareUrl';
 import { foldersAPI } from '../api/folders';
+import { filesAPI } from '../api/files';
 import clsx from 'clsx';
 import nestLogo from '../assets/nest-logo.png';
 
 interface ShareItem {
     id: number;
-    type: 'standard_link' | 'drop_zone' | 'collab_folder';
+    type: 'standard_link' | 'drop_zone' | 'collab_folder' | 'folder_link';
     token: string;
     name?: string;
     custom_slug: string | null;
@@ -35,6 +36,11 @@ interface ShareItem {
     created_at: string;
     collaborators?: string[];
     folder_id?: number;
+    file_id?: number;
+    label?: string | null;
+    files_count?: number;
+    host_link_key_encrypted?: string;
+    host_link_key_nonce?: string;
 }
 
 const getEmailColor = (email: string) => {
@@ -105,10 +111,16 @@ export const SharedLinksPage = () => {
                 // Merge name from ZK metadata for standard links
                 const merged: ShareItem[] = (res.data.shares || []).map((share: any) => {
                     if (share.type === 'standard_link' && metadata) {
-                        const fileMeta = metadata.files[share.id.toString()];
+                        const fileMeta = metadata.files[share.file_id.toString()];
                         return {
                             ...share,
-                            name: fileMeta?.filename || `File ${share.id}`
+                            name: fileMeta?.filename || `File ${share.file_id}`
+                        };
+                    }
+                    if (share.type === 'folder_link' && metadata) {
+                        return {
+                            ...share,
+                            name: metadata.folders[share.folder_id.toString()]?.name || `Folder ${share.folder_id}`
                         };
                     }
                     return share;
@@ -164,11 +176,13 @@ export const SharedLinksPage = () => {
         try {
             for (const item of revokeConfirm.sharesToRevoke) {
                 if (item.type === 'standard_link') {
-                    await api.delete(`/files/${item.id}/share`);
+                    await filesAPI.revokeShare(item.file_id!, item.id);
                 } else if (item.type === 'drop_zone') {
                     await api.delete(`/drop-zones/${item.id}`);
                 } else if (item.type === 'collab_folder') {
                     await api.delete(`/collab-folders/${item.id}`);
+                } else if (item.type === 'folder_link') {
+                    await foldersAPI.revokeShare(item.folder_id!, item.id);
                 }
             }
             showToast('Selected share links successfully revoked.', 'success');
@@ -200,6 +214,14 @@ export const SharedLinksPage = () => {
             }
         } else if (item.type === 'drop_zone') {
             url = `${window.location.origin}/dz/${item.custom_slug || item.token}`;
+        } else if (item.type === 'folder_link') {
+            try {
+                url = await deriveFolderLinkUrl(item as Required<ShareItem>, masterKey);
+            } catch (e) {
+                console.error('Failed to reconstruct folder link URL:', e);
+                showToast('Failed to decrypt folder link key.', 'error', 6000);
+                return;
+            }
         } else if (item.type === 'collab_folder') {
             // Collab folders require the lk (linkKey) fragment which is not stored in DB.
             // We alert the user that they must copy the URL generated during creation, or they can re-generate the link key from settings.
@@ -236,11 +258,13 @@ export const SharedLinksPage = () => {
             setQrDeriving(false);
             return;
         }
-        // standard_link (collab folders have no list QR button)
+        // standard_link / folder_link (collab folders have no list QR button)
         setQrDeriving(true);
         (async () => {
             try {
-                const url = await deriveStandardLinkUrl(share, masterKey, metadata);
+                const url = share.type === 'folder_link'
+                    ? await deriveFolderLinkUrl(share as Required<ShareItem>, masterKey)
+                    : await deriveStandardLinkUrl(share, masterKey, metadata);
                 if (!cancelled) setQrUrl(url);
             } catch (e) {
                 console.error('Failed to build QR share URL:', e);
@@ -302,6 +326,8 @@ export const SharedLinksPage = () => {
             result = result.filter(item => item.type === 'drop_zone');
         } else if (filterType === 'collab') {
             result = result.filter(item => item.type === 'collab_folder');
+        } else if (filterType === 'folder') {
+            result = result.filter(item => item.type === 'folder_link');
         } else if (filterType === 'ghost') {
             result = result.filter(item => item.type === 'standard_link' && item.max_downloads === 1);
         } else if (filterType === 'expiring') {
@@ -341,6 +367,7 @@ export const SharedLinksPage = () => {
     const standardCount = shares.filter(item => item.type === 'standard_link').length;
     const dzCount = shares.filter(item => item.type === 'drop_zone').length;
     const collabCount = shares.filter(item => item.type === 'collab_folder').length;
+    const folderLinkCount = shares.filter(item => item.type === 'folder_link').length;
 
     return (
         <motion.div
@@ -357,7 +384,7 @@ export const SharedLinksPage = () => {
                         <span>Access & Sharing</span>
                     </h1>
                     <p className="text-xs text-text-muted mt-1 font-medium">
-                        {standardCount} active links &middot; {dzCount} drop zones &middot; {collabCount} collab folders
+                        {standardCount} active links &middot; {folderLinkCount} folder links &middot; {dzCount} drop zones &middot; {collabCount} collab folders
                     </p>
                 </div>
                 <div className="flex items-center gap-2 self-end sm:self-center">
@@ -415,6 +442,7 @@ export const SharedLinksPage = () => {
                     >
                         <option value="all">All Types</option>
                         <option value="standard">Standard Links</option>
+                        <option value="folder">Folder Links</option>
                         <option value="dropzone">Drop Zones</option>
                         <option value="collab">Collab Folders</option>
                         <option value="ghost">Ghost Links</option>
@@ -503,11 +531,17 @@ export const SharedLinksPage = () => {
                                                     {item.type === 'standard_link' && <FileIcon size={20} className="text-primary" />}
                                                     {item.type === 'drop_zone' && <ArrowCircleDown size={20} className="text-secondary" />}
                                                     {item.type === 'collab_folder' && <ArrowCircleUp size={20} className="text-primary" />}
+                                                    {item.type === 'folder_link' && <Folder size={20} className="text-primary" />}
                                                     
                                                     <div className="min-w-0">
                                                         <div className="font-bold text-text-main truncate" title={item.name || `Folder ${item.id}`}>
                                                             {item.name || `Folder ${item.id}`}
                                                         </div>
+                                                        {item.label && (
+                                                            <div className="text-[10px] text-text-muted font-semibold mt-0.5 truncate" title={item.label}>
+                                                                {item.label}
+                                                            </div>
+                                                        )}
                                                         {item.custom_slug && (
                                                             <div className="text-[10px] text-primary/70 font-semibold mt-0.5 truncate">
                                                                 slug: /{item.custom_slug}
@@ -568,6 +602,11 @@ export const SharedLinksPage = () => {
                                                         Collab Folder
                                                     </span>
                                                 )}
+                                                {item.type === 'folder_link' && (
+                                                    <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-sky-100 text-sky-700">
+                                                        Folder Link
+                                                    </span>
+                                                )}
                                             </td>
 
                                             {/* Size / Files Count */}
@@ -583,11 +622,16 @@ export const SharedLinksPage = () => {
                                                         Workspace
                                                     </span>
                                                 )}
+                                                {item.type === 'folder_link' && (
+                                                    <span className="text-xs font-semibold text-text-muted">
+                                                        {item.files_count || 0} files
+                                                    </span>
+                                                )}
                                             </td>
 
                                             {/* Views / Downloads */}
                                             <td className="p-4 text-center text-xs text-text-muted font-medium">
-                                                {item.type === 'standard_link' ? (
+                                                {item.type === 'standard_link' || item.type === 'folder_link' ? (
                                                     <span>{item.views} views / {item.downloads} downloads</span>
                                                 ) : (
                                                     <span>{item.views} views</span>
@@ -600,6 +644,10 @@ export const SharedLinksPage = () => {
                                                     <span className="inline-flex items-center gap-1 text-xs font-bold text-error bg-error/10 px-2 py-0.5 rounded-md">
                                                         Expired
                                                     </span>
+                                                ) : item.status === 'closed' ? (
+                                                    <span className="inline-flex items-center gap-1 text-xs font-bold text-text-muted bg-black/5 px-2 py-0.5 rounded-md" title="Reached its upload limit">
+                                                        Closed
+                                                    </span>
                                                 ) : item.status === 'ghost' ? (
                                                     <span className="inline-flex items-center gap-1 text-xs font-bold text-amber-700 bg-amber-100 px-2 py-0.5 rounded-md" title="Self-destructs after 1 download">
                                                         Ghost Link
@@ -631,13 +679,15 @@ export const SharedLinksPage = () => {
                                                             <Copy size={16} />
                                                         </button>
                                                     )}
-                                                    <button
-                                                        onClick={() => setSettingsModal({ isOpen: true, share: item })}
-                                                        className="p-1.5 hover:bg-card rounded-lg transition-colors text-text-muted hover:text-text-main"
-                                                        title="Settings & Audit Logs"
-                                                    >
-                                                        <GearSix size={16} />
-                                                    </button>
+                                                    {item.type !== 'folder_link' && (
+                                                        <button
+                                                            onClick={() => setSettingsModal({ isOpen: true, share: item })}
+                                                            className="p-1.5 hover:bg-card rounded-lg transition-colors text-text-muted hover:text-text-main"
+                                                            title="Settings & Audit Logs"
+                                                        >
+                                                            <GearSix size={16} />
+                                                        </button>
+                                                    )}
                                                     <button
                                                         onClick={() => setRevokeConfirm({ isOpen: true, sharesToRevoke: [item] })}
                                                         className="p-1.5 hover:bg-error/10 rounded-lg transition-colors text-text-muted hover:text-error"
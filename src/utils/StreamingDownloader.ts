@@ -14,20 +14,42 @@ export interface DownloadChunk {
     status: 'local' | 'cloud' | 'pending';
 }
 
-export interface DownloadOptions {
+export interface DownloadOptions extends ChunkAuthOptions {
     fileKey: Uint8Array;
     filename: string;
     chunks: DownloadChunk[];
     onProgress?: (progress: number) => void;
-    // Auth Modes
+}
+
+/** Which link or session the chunk endpoints are called with. */
+export interface ChunkAuthOptions {
     shareToken?: string;
     fileId?: number;
     authToken?: string;
     isGatewayVerified?: boolean;
     collabToken?: string;
     collabSession?: string;
+    folderShareToken?: string; // Folder link (/s/f/:token); pairs with fileId
+    version?: number; // Archived file version (authed fileId mode only)
 }
 
+// A dropped connection mid-chunk is picked up with a Range request this many times before giving up
+const MAX_CHUNK_RESUMES = 5;
+
+interface InterruptedDownload {
+    fileHandle: any;
+    nextChunk: number; // Position in the chunk list, not chunk.index
+    bytesWritten: number;
+}
+
+// Save-picker downloads that failed after writing at least one whole chunk. The file on disk
+// keeps those chunks, so downloading the same file again continues after the last one.
+const interruptedDownloads = new Map<string, InterruptedDownload>();
+
+const downloadKey = (options: DownloadOptions, totalSize: number) => [
+    options.collabToken, options.folderShareToken, options.shareToken, options.fileId, options.version, options.filename, totalSize
+].join(':');
+
 /**
  * Detect if the user is on iOS (Safari, Chrome iOS, etc.)
  */
@@ -50,7 +72,7 @@ export class StreamingDownloader {
         // can throw "[nest-crypto] Library not initialised" (seen on share downloads).
         await init();
 
-        const { shareToken, fileId, authToken, fileKey, filename, chunks, onProgress, isGatewayVerified, collabToken, collabSession } = options;
+        const { filename, chunks, onProgress } = options;
         const totalSize = chunks.reduce((acc, c) => acc + c.size, 0);
         let bytesDownloaded = 0;
 
@@ -68,12 +90,34 @@ export class StreamingDownloader {
 
         let writer: any;
         let writeStream: any;
+        let fileHandle: any;
+
+        // 0. Continue an interrupted download in the file it was being written to
+        const key = downloadKey(options, totalSize);
+        let resume = interruptedDownloads.get(key);
+        interruptedDownloads.delete(key);
+        if (resume && confirm(`An earlier download of ${filename} was interrupted. Continue it where it stopped?`)) {
+            try {
+                writeStream = await resume.fileHandle.createWritable({ keepExistingData: true });
+                await writeStream.truncate(resume.bytesWritten);
+                await writeStream.seek(resume.bytesWritten);
+                writer = writeStream.getWriter();
+                fileHandle = resume.fileHandle;
+                bytesDownloaded = resume.bytesWritten;
+                console.log(`[Downloader] Resuming ${filename} at chunk ${resume.nextChunk + 1}/${chunks.length}`);
+            } catch (err) {
+                console.warn('[Downloader] Could not reopen the interrupted download, starting over', err);
+                resume = undefined;
+            }
+        } else {
+            resume = undefined;
+        }
 
         // 1. Try Native File System Access API first (Chrome/Edge/Brave)
         // This completely bypasses StreamSaver, Service Workers, and any crypto extension interference.
-        if ('showSaveFilePicker' in window) {
+        if (!writer && 'showSaveFilePicker' in window) {
             try {
-                const fileHandle = await (window as any).showSaveFilePicker({
+                fileHandle = await (window as any).showSaveFilePicker({
                     suggestedName: filename,
                 });
                 writeStream = await fileHandle.createWritable();
@@ -97,42 +141,140 @@ export class StreamingDownloader {
         }
 
         // 2. Sequential Chunk Download & Decrypt
+        let completed: InterruptedDownload | null = null;
         try {
-            for (const chunk of chunks) {
+            for (let position = resume?.nextChunk ?? 0; position < chunks.length; position++) {
+                const chunk = chunks[position];
                 console.log(`[Downloader] Processing chunk ${chunk.index + 1}/${chunks.length} (${chunk.status})`);
 
-                let chunkUrl = '';
-                const headers: HeadersInit = {};
+                const decryptedStream = await StreamingDownloader.openChunk(chunk, options);
+                const reader = decryptedStream.getReader();
 
-                // Fallback Strategy
-                let tryGateway = false;
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
 
-                if (chunk.status === 'local') {
-                    // Force Server Path
-                    if (collabToken && fileId) {
-                        chunkUrl = `${API_BASE_URL}/collab/${collabToken}/files/${fileId}/chunk/${chunk.index}`;
-                        if (collabSession) {
-                            headers['x-collab-session'] = collabSession;
-                        } else if (authToken) {
-                            headers['Authorization'] = `Bearer ${authToken}`;
-                        }
-                    } else if (shareToken) {
-                        chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
-                        if (authToken) {
-                            headers['Authorization'] = `Bearer ${authToken}`;
-                        }
-                    } else if (fileId && authToken) {
-                        chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}`;
+                    await writer.write(value);
+
+                    bytesDownloaded += value.length;
+                    if (onProgress) onProgress((bytesDownloaded / totalSize) * 100);
+                }
+
+                if (fileHandle) completed = { fileHandle, nextChunk: position + 1, bytesWritten: bytesDownloaded };
+            }
+
+            await writer.close();
+            console.log(`[Downloader] ✅ Download complete: ${filename}`);
+
+        } catch (error: any) {
+            console.error('[Downloader] ❌ Stream failure:', error);
+            // Keep whole chunks on disk (closing commits them) so the next attempt can continue;
+            // the torn tail of the failed chunk is truncated away when it does
+            if (completed && completed.nextChunk < chunks.length) {
+                await writer.close().catch(() => { });
+                interruptedDownloads.set(key, completed);
+                throw new Error(`${error.message} — download the file again to continue where it stopped`);
+            }
+            await writer.abort();
+            throw error;
+        }
+    }
+
+    /**
+     * Fetches one chunk (gateway first when verified, then the server proxy) and returns its
+     * plaintext as a stream. Shared with in-browser previews, which decrypt into memory or a
+     * MediaSource instead of a file on disk.
+     */
+    static async openChunk(chunk: DownloadChunk, options: ChunkAuthOptions & { fileKey: Uint8Array }): Promise<ReadableStream<Uint8Array>> {
+        await init();
+
+        const { shareToken, fileId, authToken, fileKey, isGatewayVerified, collabToken, collabSession, folderShareToken, version } = options;
+        const versionQuery = version ? `?version=${version}` : '';
+
+        let chunkUrl = '';
+        const headers: HeadersInit = {};
+
+        // Fallback Strategy
+        let tryGateway = false;
+
+        if (chunk.status === 'local') {
+            // Force Server Path
+            if (collabToken && fileId) {
+                chunkUrl = `${API_BASE_URL}/collab/${collabToken}/files/${fileId}/chunk/${chunk.index}`;
+                if (collabSession) {
+                    headers['x-collab-session'] = collabSession;
+                } else if (authToken) {
+                    headers['Authorization'] = `Bearer ${authToken}`;
+                }
+            } else if (folderShareToken && fileId) {
+                chunkUrl = `${API_BASE_URL}/shares/f/${folderShareToken}/files/${fileId}/chunk/${chunk.index}`;
+                if (authToken) {
+                    headers['Authorization'] = `Bearer ${authToken}`;
+                }
+            } else if (shareToken) {
+                chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
+                if (authToken) {
+                    headers['Authorization'] = `Bearer ${authToken}`;
+                }
+            } else if (fileId && authToken) {
+                chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}${versionQuery}`;
+                headers['Authorization'] = `Bearer ${authToken}`;
+            } else {
+                throw new Error('Missing auth config for local download');
+            }
+        } else if (chunk.status === 'cloud' && chunk.jackal_merkle) {
+            if (isGatewayVerified) {
+                tryGateway = true;
+                chunkUrl = `https://gateway.lazybird.io/file/${chunk.jackal_merkle}`;
+            } else {
+                // Use Server proxy for cloud files that aren't gateway-verified (e.g. obsideo)
+                if (collabToken && fileId) {
+                    chunkUrl = `${API_BASE_URL}/collab/${collabToken}/files/${fileId}/chunk/${chunk.index}`;
+                    if (collabSession) {
+                        headers['x-collab-session'] = collabSession;
+                    } else if (authToken) {
                         headers['Authorization'] = `Bearer ${authToken}`;
-                    } else {
-                        throw new Error('Missing auth config for local download');
                     }
-                } else if (chunk.status === 'cloud' && chunk.jackal_merkle) {
-                    if (isGatewayVerified) {
-                        tryGateway = true;
-                        chunkUrl = `https://gateway.lazybird.io/file/${chunk.jackal_merkle}`;
-                    } else {
-                        // Use Server proxy for cloud files that aren't gateway-verified (e.g. obsideo)
+                } else if (folderShareToken && fileId) {
+                    chunkUrl = `${API_BASE_URL}/shares/f/${folderShareToken}/files/${fileId}/chunk/${chunk.index}`;
+                    if (authToken) {
+                        headers['Authorization'] = `Bearer ${authToken}`;
+                    }
+                } else if (shareToken) {
+                    chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
+                    if (authToken) {
+                        headers['Authorization'] = `Bearer ${authToken}`;
+                    }
+                } else if (fileId && authToken) {
+                    chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}${versionQuery}`;
+                    headers['Authorization'] = `Bearer ${authToken}`;
+                } else {
+                    throw new Error('Missing auth config for local download');
+                }
+            }
+        } else {
+            throw new Error(`Chunk ${chunk.index} is not ready yet (Status: ${chunk.status})`);
+        }
+
+        let response;
+        let fetchError;
+
+        for (let attempt = 1; attempt <= 3; attempt++) {
+            try {
+                if (tryGateway && attempt === 1) {
+                    try {
+                        console.log(`[Downloader] 🚀 Attempting Direct Gateway for Chunk ${chunk.index}...`);
+                        const controller = new AbortController();
+                        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
+
+                        response = await fetch(chunkUrl, { headers, signal: controller.signal });
+                        clearTimeout(timeoutId);
+
+                        if (!response.ok) throw new Error(`Gateway returned ${response.status}`);
+                        console.log(`[Downloader] ✅ Gateway Success for Chunk ${chunk.index}`);
+                    } catch (e) {
+                        console.warn(`[Downloader] ⚠️ Gateway failed for Chunk ${chunk.index}, falling back to Server Proxy:`, e);
+                        // Fallback to Server on next attempt loop
                         if (collabToken && fileId) {
                             chunkUrl = `${API_BASE_URL}/collab/${collabToken}/files/${fileId}/chunk/${chunk.index}`;
                             if (collabSession) {
@@ -140,106 +282,113 @@ export class StreamingDownloader {
                             } else if (authToken) {
                                 headers['Authorization'] = `Bearer ${authToken}`;
                             }
-                        } else if (shareToken) {
-                            chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
+                        } else if (folderShareToken && fileId) {
+                            chunkUrl = `${API_BASE_URL}/shares/f/${folderShareToken}/files/${fileId}/chunk/${chunk.index}`;
                             if (authToken) {
                                 headers['Authorization'] = `Bearer ${authToken}`;
                             }
+                        } else if (shareToken) {
+                            chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
                         } else if (fileId && authToken) {
-                            chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}`;
+                            chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}${versionQuery}`;
                             headers['Authorization'] = `Bearer ${authToken}`;
-                        } else {
-                            throw new Error('Missing auth config for local download');
                         }
+                        throw e; // Trigger retry with server URL
                     }
                 } else {
-                    throw new Error(`Chunk ${chunk.index} is not ready yet (Status: ${chunk.status})`);
-                }
-
-                let response;
-                let fetchError;
-
-                for (let attempt = 1; attempt <= 3; attempt++) {
-                    try {
-                        if (tryGateway && attempt === 1) {
-                            try {
-                                console.log(`[Downloader] 🚀 Attempting Direct Gateway for Chunk ${chunk.index}...`);
-                                const controller = new AbortController();
-                                const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
-
-                                response = await fetch(chunkUrl, { headers, signal: controller.signal });
-                                clearTimeout(timeoutId);
-
-                                if (!response.ok) throw new Error(`Gateway returned ${response.status}`);
-                                console.log(`[Downloader] ✅ Gateway Success for Chunk ${chunk.index}`);
-                            } catch (e) {
-                                console.warn(`[Downloader] ⚠️ Gateway failed for Chunk ${chunk.index}, falling back to Server Proxy:`, e);
-                                // Fallback to Server on next attempt loop
-                                if (collabToken && fileId) {
-                                    chunkUrl = `${API_BASE_URL}/collab/${collabToken}/files/${fileId}/chunk/${chunk.index}`;
-                                    if (collabSession) {
-                                        headers['x-collab-session'] = collabSession;
-                                    } else if (authToken) {
-                                        headers['Authorization'] = `Bearer ${authToken}`;
-                                    }
-                                } else if (shareToken) {
-                                    chunkUrl = `${API_BASE_URL}/shares/s/${shareToken}/chunk/${chunk.index}`;
-                                } else if (fileId && authToken) {
-                                    chunkUrl = `${API_BASE_URL}/files/${fileId}/chunk/${chunk.index}`;
-                                    headers['Authorization'] = `Bearer ${authToken}`;
-                                }
-                                throw e; // Trigger retry with server URL
-                            }
-                        } else {
-                            // Direct Server (Local or forced)
-                            response = await fetch(chunkUrl, { headers });
-                            if (!response.ok) throw new Error(`Server returned ${response.status}`);
-                        }
-                        
-                        // If we got here, response is OK
-                        break;
-                    } catch (err: any) {
-                        fetchError = err;
-                        console.warn(`[Downloader] Fetch attempt ${attempt} failed for chunk ${chunk.index}:`, err);
-                        if (attempt < 3) await new Promise(r => setTimeout(r, 2000 * attempt));
-                    }
+                    // Direct Server (Local or forced)
+                    response = await fetch(chunkUrl, { headers });
+                    if (!response.ok) throw new Error(`Server returned ${response.status}`);
                 }
+                
+                // If we got here, response is OK
+                break;
+            } catch (err: any) {
+                fetchError = err;
+                console.warn(`[Downloader] Fetch attempt ${attempt} failed for chunk ${chunk.index}:`, err);
+                if (attempt < 3) await new Promise(r => setTimeout(r, 2000 * attempt));
+            }
+        }
 
-                if (!response || !response.ok) {
-                    throw new Error(`Failed to fetch chunk ${chunk.index} after 3 attempts. Last error: ${fetchError?.message}`);
-                }
+        if (!response || !response.ok) {
+            throw new Error(`Failed to fetch chunk ${chunk.index} after 3 attempts. Last error: ${fetchError?.message}`);
+        }
 
-                console.log(`[Downloader] Chunk ${chunk.index} Fetch Status: ${response.status}`);
-                console.log(`[Downloader] Type: ${response.headers.get('content-type')}`);
-                console.log(`[Downloader] Length: ${response.headers.get('content-length')}`);
+        console.log(`[Downloader] Chunk ${chunk.index} Fetch Status: ${response.status}`);
+        console.log(`[Downloader] Type: ${response.headers.get('content-type')}`);
+        console.log(`[Downloader] Length: ${response.headers.get('content-length')}`);
 
-                if (!response.body) throw new Error(`Chunk ${chunk.index} body is empty`);
+        if (!response.body) throw new Error(`Chunk ${chunk.index} body is empty`);
 
-                // Create Decryption Stream for this chunk
-                console.log(`[Downloader] Creating decryption stream for Chunk ${chunk.index} (Nonce: ${chunk.nonce.substring(0, 10)}...)`);
-                const decryptionStream = createDecryptionStream(fileKey, fromBase64(chunk.nonce));
+        // Share and collab links count the first chunk; the ticket they return lets its resumes through uncounted
+        const resumeTicket = response.headers.get('X-Resume-Ticket');
+        const body = StreamingDownloader.resumableBody(response.body, chunk.index, async (offset) => {
+            const resumed = await fetch(chunkUrl, {
+                headers: { ...headers, Range: `bytes=${offset}-`, ...(resumeTicket ? { 'X-Resume-Ticket': resumeTicket } : {}) }
+            });
+            if (!resumed.ok || !resumed.body) throw new Error(`Resume returned ${resumed.status}`);
+            return resumed;
+        });
 
-                const decryptedStream = response!.body.pipeThrough(decryptionStream);
-                const reader = decryptedStream.getReader();
+        console.log(`[Downloader] Creating decryption stream for Chunk ${chunk.index} (Nonce: ${chunk.nonce.substring(0, 10)}...)`);
+        return body.pipeThrough(createDecryptionStream(fileKey, fromBase64(chunk.nonce)));
+    }
 
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
+    /**
+     * Passes a chunk's ciphertext through, and when the connection drops part-way asks for the
+     * rest with a Range request. The decryptor downstream never notices the gap.
+     */
+    private static resumableBody(
+        body: ReadableStream<Uint8Array>,
+        chunkIndex: number,
+        reopen: (offset: number) => Promise<Response>
+    ): ReadableStream<Uint8Array> {
+        let reader = body.getReader();
+        let received = 0;
+        let resumes = 0;
+        // A server or gateway that ignores Range starts over from byte 0; drop what we already have
+        let skip = 0;
 
-                    await writer.write(value);
+        return new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                for (;;) {
+                    let result: ReadableStreamReadResult<Uint8Array>;
+                    try {
+                        result = await reader.read();
+                    } catch (err) {
+                        if (++resumes > MAX_CHUNK_RESUMES) throw err;
+                        console.warn(`[Downloader] Chunk ${chunkIndex} dropped at byte ${received}, resuming (${resumes}/${MAX_CHUNK_RESUMES})`, err);
+                        await new Promise(r => setTimeout(r, 1000 * resumes));
+                        try {
+                            const response = await reopen(received);
+                            skip = response.status === 206 ? 0 : received;
+                            reader = response.body!.getReader();
+                        } catch (reopenErr) {
+                            // The old reader fails again on the next read, which counts as another attempt
+                            console.warn(`[Downloader] Resume of chunk ${chunkIndex} failed:`, reopenErr);
+                        }
+                        continue;
+                    }
 
-                    bytesDownloaded += value.length;
-                    if (onProgress) onProgress((bytesDownloaded / totalSize) * 100);
+                    if (result.done) {
+                        controller.close();
+                        return;
+                    }
+                    let value = result.value;
+                    if (skip > 0) {
+                        const dropped = Math.min(skip, value.length);
+                        skip -= dropped;
+                        value = value.subarray(dropped);
+                        if (value.length === 0) continue;
+                    }
+                    received += value.length;
+                    controller.enqueue(value);
+                    return;
                 }
+            },
+            cancel(reason) {
+                return reader.cancel(reason);
             }
-
-            await writer.close();
-            console.log(`[Downloader] ✅ Download complete: ${filename}`);
-
-        } catch (error) {
-            await writer.abort();
-            console.error('[Downloader] ❌ Stream failure:', error);
-            throw error;
-        }
+        });
     }
 }
@@ -3,6 +3,8 @@ import streamSaver from 'streamsaver';
 import * as fflate from 'fflate';
 import { filesAPI, type File } from '../api/files';
 import API_BASE_URL from '../config/api';
+import { StreamingDownloader } from './StreamingDownloader';
+import type { PreviewSource } from './filePreview';
 
 import type { MetadataBlob } from '@lazybird-inc/nest-crypto';
 
@@ -296,3 +298,171 @@ export const streamExport = async (
         throw err;
     }
 };
+
+/** A file to put in a ZIP; its keys are only fetched when its turn comes. */
+export interface ZipEntry {
+    /** Path inside the archive, "/"-separated */
+    path: string;
+    size: number;
+    resolve: () => Promise<PreviewSource>;
+}
+
+export interface ZipFailure {
+    path: string;
+    reason: string;
+}
+
+/**
+ * A name usable as one segment of an archive path. Names can come from collab guests and Drop
+ * Zone uploaders, so nothing may climb out of the folder on extraction: separators become `_`,
+ * control characters go, and leading dots are stripped (`.` and `..` end up as `_`).
+ */
+export const zipSafeName = (name: string) => {
+    const safe = name
+        .replace(/\p{Cc}/gu, '')
+        .replace(/[\\/]/g, '_')
+        .trim()
+        .replace(/^\.+/, '');
+    return safe || '_';
+};
+
+/**
+ * Archive path of every folder reachable from `rootId`, which itself maps to `rootName`.
+ * Folders whose parent isn't in the list are left out.
+ */
+export const zipFolderPaths = (rootId: number, rootName: string, folders: { id: number; parent_id: number | null; name: string }[]): Map<number, string> => {
+    const paths = new Map<number, string>([[rootId, zipSafeName(rootName)]]);
+    let pending = folders.filter(f => f.id !== rootId);
+    // Parents resolve before their children; stop once a pass places nothing
+    for (let placed = true; placed && pending.length > 0;) {
+        placed = false;
+        pending = pending.filter(f => {
+            const parentPath = f.parent_id !== null ? paths.get(f.parent_id) : undefined;
+            if (parentPath === undefined) return true;
+            paths.set(f.id, `${parentPath}/${zipSafeName(f.name)}`);
+            placed = true;
+            return false;
+        });
+    }
+    return paths;
+};
+
+// Two files with the same name in one folder would overwrite each other when extracted
+const uniquePath = (path: string, taken: Set<string>): string => {
+    let candidate = path;
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    const [stem, extension] = dot > slash + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+        candidate = `${stem} (${n})${extension}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+};
+
+/**
+ * Streams a ZIP of `entries` to disk through StreamSaver, decrypting one file at a time so
+ * memory stays flat. A file that can't be fetched or decrypted is skipped (or cut short, if
+ * it fails part-way), listed in SKIPPED_FILES.txt inside the archive and returned.
+ */
+export const streamZip = async (
+    zipName: string,
+    entries: ZipEntry[],
+    onProgress: (progress: number, currentFile: string, index: number) => void
+): Promise<ZipFailure[]> => {
+    const { init } = await import('@lazybird-inc/nest-crypto');
+    await init();
+
+    const fileStream = streamSaver.createWriteStream(zipName);
+    const writer = fileStream.getWriter();
+
+    const zip = new fflate.Zip((err, data, final) => {
+        if (err) {
+            console.error('[StreamingExport] Zip Error:', err);
+            writer.abort(err);
+            return;
+        }
+        writer.write(data);
+        if (final) {
+            writer.close();
+        }
+    });
+
+    // Waiting for the writer keeps decryption from racing ahead of the disk. It only rejects
+    // when the save itself failed (e.g. cancelled in the browser), which ends the whole ZIP.
+    let saveFailed = false;
+    const drain = () => writer.ready.catch((err) => {
+        saveFailed = true;
+        throw err;
+    });
+
+    const failures: ZipFailure[] = [];
+    const taken = new Set<string>();
+    const totalBytes = entries.reduce((acc, e) => acc + e.size, 0);
+    const percent = (bytes: number) => totalBytes > 0 ? (bytes / totalBytes) * 100 : 0;
+    let completedBytes = 0;
+
+    try {
+        for (const [index, entry] of entries.entries()) {
+            const path = uniquePath(entry.path, taken);
+            onProgress(percent(completedBytes), path, index);
+
+            let zipFile: fflate.ZipPassThrough | null = null;
+            try {
+                const source = await entry.resolve();
+
+                if ('decrypt' in source) {
+                    const bytes = await source.decrypt();
+                    zipFile = new fflate.ZipPassThrough(path);
+                    zip.add(zipFile);
+                    zipFile.push(bytes, true);
+                    await drain();
+                } else {
+                    zipFile = new fflate.ZipPassThrough(path);
+                    zip.add(zipFile);
+                    let written = 0;
+                    for (const chunk of source.chunks) {
+                        const reader = (await StreamingDownloader.openChunk(chunk, { ...source.auth, fileKey: source.fileKey })).getReader();
+                        while (true) {
+                            const { done, value } = await reader.read();
+                            if (done) break;
+                            zipFile.push(value);
+                            written += value.length;
+                            onProgress(percent(completedBytes + Math.min(written, entry.size)), path, index);
+                            await drain();
+                        }
+                    }
+                    zipFile.push(new Uint8Array(0), true);
+                }
+            } catch (e: any) {
+                if (saveFailed) throw e;
+                console.error(`[StreamingExport] Failed file ${path}`, e);
+                const reason = e?.message || String(e);
+                if (zipFile) {
+                    // Already in the archive; close it off so the rest of the ZIP stays valid
+                    zipFile.push(new Uint8Array(0), true);
+                    failures.push({ path, reason: `incomplete: ${reason}` });
+                } else {
+                    failures.push({ path, reason });
+                }
+            }
+
+            completedBytes += entry.size;
+        }
+
+        if (failures.length > 0) {
+            const report = new fflate.ZipPassThrough(uniquePath('SKIPPED_FILES.txt', taken));
+            zip.add(report);
+            report.push(new TextEncoder().encode(failures.map(f => `${f.path}: ${f.reason}`).join('\n') + '\n'), true);
+        }
+
+        zip.end();
+        onProgress(100, 'Done', entries.length);
+        return failures;
+
+    } catch (err) {
+        console.error('[StreamingExport] Critical Error:', err);
+        writer.abort(err);
+        throw err;
+    }
+};
@@ -0,0 +1,102 @@
+/**
+ * Runs chunk tasks (encrypt + upload) with adaptive concurrency.
+ *
+ * After each finished chunk the parallelism grows by one while aggregate throughput keeps
+ * improving and drops by one when it falls off. It is halved whenever a task reports
+ * congestion (a failed attempt it is about to retry). Stops at the first task that fails
+ * for good and rejects once in-flight tasks have settled.
+ */
+
+export interface ChunkTaskContext {
+    /** Report upload progress (0-100) for this chunk */
+    onProgress: (percent: number) => void;
+    /** Signal a transient failure so the pipeline backs off */
+    congestion: () => void;
+}
+
+interface ChunkPipelineOptions {
+    indices: number[];
+    totalChunks: number;
+    initialParallel: number;
+    maxParallel: number;
+    /** Uploads one chunk and resolves with the number of bytes sent */
+    task: (index: number, ctx: ChunkTaskContext) => Promise<number>;
+    /** Overall progress (0-100), counting chunks that were already on the server as done */
+    onProgress?: (percent: number) => void;
+}
+
+export const runChunkPipeline = ({
+    indices,
+    totalChunks,
+    initialParallel,
+    maxParallel,
+    task,
+    onProgress,
+}: ChunkPipelineOptions): Promise<void> => new Promise((resolve, reject) => {
+    const pending = [...indices];
+    const inFlight = new Map<number, number>(); // chunk index -> percent
+    let completed = totalChunks - indices.length;
+    let limit = Math.max(1, Math.min(initialParallel, maxParallel));
+    let failure: unknown = null;
+
+    const startedAt = performance.now();
+    let sentBytes = 0;
+    let lastRate = 0;
+
+    const reportProgress = () => {
+        if (!onProgress || totalChunks === 0) return;
+        let partial = 0;
+        inFlight.forEach(p => { partial += p; });
+        onProgress(((completed * 100) + partial) / totalChunks);
+    };
+
+    // Compares the running average throughput with the one seen at the previous chunk
+    const adapt = (bytes: number) => {
+        sentBytes += bytes;
+        const rate = sentBytes / Math.max(1, performance.now() - startedAt);
+        limit = rate >= lastRate * 0.95
+            ? Math.min(maxParallel, limit + 1)
+            : Math.max(1, limit - 1);
+        lastRate = rate;
+    };
+
+    const launch = () => {
+        if (failure) {
+            if (inFlight.size === 0) reject(failure);
+            return;
+        }
+        if (pending.length === 0 && inFlight.size === 0) {
+            resolve();
+            return;
+        }
+
+        while (inFlight.size < limit && pending.length > 0) {
+            const index = pending.shift()!;
+            inFlight.set(index, 0);
+
+            task(index, {
+                onProgress: (percent) => {
+                    if (!inFlight.has(index)) return;
+                    inFlight.set(index, percent);
+                    reportProgress();
+                },
+                congestion: () => {
+                    limit = Math.max(1, Math.floor(limit / 2));
+                },
+            }).then(bytes => {
+                inFlight.delete(index);
+                completed++;
+                adapt(bytes);
+                reportProgress();
+                launch();
+            }, err => {
+                inFlight.delete(index);
+                failure ??= err;
+                launch();
+            });
+        }
+    };
+
+    reportProgress();
+    launch();
+});
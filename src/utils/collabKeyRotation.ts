@@ -0,0 +1,167 @@
+import sodium from 'libsodium-wrappers';
+import {
+    init,
+    toBase64,
+    fromBase64,
+    generateCollabKey,
+    generateLinkKey,
+    encryptCollabKeyForHost,
+    encryptCollabKeyForLink,
+    decryptCollabKey,
+    rekeyFileForCollab,
+    encryptWithMasterKey,
+    decryptWithMasterKey
+} from '@lazybird-inc/nest-crypto';
+import api from '../lib/api';
+import { ensureAccountKeyPair } from './socialRecovery';
+
+/**
+ * Collab key rotation (host side)
+ *
+ * Replaces a Collab Folder's key so removed members can't decrypt anything fetched later. The new
+ * key is parked on the server (wrapped by the host's master key) while every file key, archived
+ * version key and encrypted name in the folder is re-wrapped in batches. The server records each
+ * batch, so calling rotateCollabKey again after the tab was closed resumes the same rotation.
+ * Members who pinned the folder get the new key sealed to their account keypair; everyone else
+ * needs the new link.
+ */
+
+const BATCH_SIZE = 50;
+
+export interface RotationProgress {
+    done: number;
+    total: number;
+}
+
+interface PendingBatch {
+    remaining: number;
+    files: { id: number; file_key_encrypted: string; file_key_nonce: string; encrypted_filename: string | null; encrypted_mime_type: string | null }[];
+    versions: { id: number; file_key_encrypted: string; file_key_nonce: string }[];
+    folders: { id: number; encrypted_folder_name: string }[];
+    recipients: { user_id: number; email: string; public_key: string }[];
+}
+
+export interface SharedCollabEntry {
+    id: number;
+    encrypted_collab_key: string;
+    collab_key_nonce: string;
+    sealed_collab_key?: string | null;
+}
+
+export const collabLinkUrl = (tokenOrSlug: string, linkKey: Uint8Array) => {
+    const linkKeyBase64url = toBase64(linkKey).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return `${window.location.origin}/collab/${tokenOrSlug}#lk=${linkKeyBase64url}`;
+};
+
+// Items that don't open with the old key were either re-keyed already or unreadable before the
+// rotation; they are sent back unchanged so the rotation can still finish.
+const rewrapFileKey = (item: { file_key_encrypted: string; file_key_nonce: string }, oldKey: Uint8Array, newKey: Uint8Array) => {
+    try {
+        const { newEncryptedFileKey, newNonce } = rekeyFileForCollab(fromBase64(item.file_key_encrypted), fromBase64(item.file_key_nonce), oldKey, newKey);
+        return { file_key_encrypted: toBase64(newEncryptedFileKey), file_key_nonce: toBase64(newNonce) };
+    } catch {
+        return { file_key_encrypted: item.file_key_encrypted, file_key_nonce: item.file_key_nonce };
+    }
+};
+
+const reencryptName = (json: string | null, oldKey: Uint8Array, newKey: Uint8Array): string | undefined => {
+    if (!json) return undefined;
+    try {
+        const { encrypted, nonce } = JSON.parse(json);
+        const sealed = encryptWithMasterKey(decryptWithMasterKey(fromBase64(encrypted), fromBase64(nonce), oldKey), newKey);
+        return JSON.stringify({ encrypted: toBase64(sealed.encrypted), nonce: toBase64(sealed.nonce) });
+    } catch {
+        return undefined;
+    }
+};
+
+/** Whether a rotation for this folder was started and not finished. */
+export const hasPendingRotation = async (collabId: number): Promise<boolean> => {
+    const res = await api.get(`/collab-folders/${collabId}/rotation`, { params: { limit: 1 } });
+    return !!res.data.rotation;
+};
+
+/** Rotates (or resumes rotating) the collab key. Resolves to the new collab link. */
+export const rotateCollabKey = async (
+    share: { id: number; token: string; custom_slug: string | null },
+    masterKey: Uint8Array,
+    onProgress?: (progress: RotationProgress) => void
+): Promise<string> => {
+    await init();
+    await sodium.ready;
+
+    // The stored key only changes on completion, so this is the old key even when resuming
+    const { data: current } = await api.get(`/collab-folders/${share.id}/host-key`);
+    const oldKey = decryptCollabKey(fromBase64(current.host_encrypted_collab_key), fromBase64(current.host_collab_key_nonce), masterKey);
+
+    const candidate = encryptCollabKeyForHost(generateCollabKey(), masterKey);
+    const { data: started } = await api.post(`/collab-folders/${share.id}/rotation`, {
+        host_encrypted_collab_key: toBase64(candidate.encrypted),
+        host_collab_key_nonce: toBase64(candidate.nonce)
+    });
+    // An interrupted rotation comes back with its own key rather than the candidate
+    const newKey = decryptCollabKey(fromBase64(started.rotation.host_encrypted_collab_key), fromBase64(started.rotation.host_collab_key_nonce), masterKey);
+
+    let total = 0;
+    let batch: PendingBatch;
+    for (;;) {
+        ({ data: batch } = await api.get(`/collab-folders/${share.id}/rotation`, { params: { limit: BATCH_SIZE } }));
+        total = Math.max(total, batch.remaining);
+        onProgress?.({ done: total - batch.remaining, total });
+        if (batch.remaining === 0) break;
+
+        const items = [
+            ...batch.files.map(f => ({
+                type: 'file',
+                id: f.id,
+                ...rewrapFileKey(f, oldKey, newKey),
+                encrypted_filename: reencryptName(f.encrypted_filename, oldKey, newKey),
+                encrypted_mime_type: reencryptName(f.encrypted_mime_type, oldKey, newKey)
+            })),
+            ...batch.versions.map(v => ({ type: 'version', id: v.id, ...rewrapFileKey(v, oldKey, newKey) })),
+            ...batch.folders.map(f => ({
+                type: 'folder',
+                id: f.id,
+                // Unreadable names are sent back as-is so they're still marked done
+                encrypted_folder_name: reencryptName(f.encrypted_folder_name, oldKey, newKey) ?? f.encrypted_folder_name
+            }))
+        ];
+        const { data: saved } = await api.post(`/collab-folders/${share.id}/rotation/items`, { items });
+        if (saved.applied === 0) throw new Error('Key rotation made no progress');
+    }
+
+    const linkKey = generateLinkKey();
+    const link = encryptCollabKeyForLink(newKey, linkKey);
+    await api.post(`/collab-folders/${share.id}/rotation/complete`, {
+        link_encrypted_collab_key: toBase64(link.encrypted),
+        link_collab_key_nonce: toBase64(link.nonce),
+        shared_with_me: batch.recipients.map(r => ({
+            user_id: r.user_id,
+            sealed_collab_key: toBase64(sodium.crypto_box_seal(newKey, fromBase64(r.public_key)) as Uint8Array)
+        }))
+    });
+
+    return collabLinkUrl(share.custom_slug || share.token, linkKey);
+};
+
+/**
+ * Collab key of a Shared With Me entry. After a rotation the entry carries the new key sealed to
+ * this account; it is opened and pinned under the master key again.
+ */
+export const openSharedCollabKey = async (entry: SharedCollabEntry, masterKey: Uint8Array): Promise<Uint8Array> => {
+    await init();
+    if (!entry.sealed_collab_key) {
+        return decryptCollabKey(fromBase64(entry.encrypted_collab_key), fromBase64(entry.collab_key_nonce), masterKey);
+    }
+
+    await sodium.ready;
+    const { publicKey, privateKey } = await ensureAccountKeyPair(masterKey);
+    const collabKey = sodium.crypto_box_seal_open(fromBase64(entry.sealed_collab_key), publicKey, privateKey) as Uint8Array;
+
+    const pinned = encryptCollabKeyForHost(collabKey, masterKey);
+    await api.post(`/collab-folders/${entry.id}/add-to-nest`, {
+        encrypted_collab_key: toBase64(pinned.encrypted),
+        collab_key_nonce: toBase64(pinned.nonce)
+    });
+    return collabKey;
+};
@@ -0,0 +1,29 @@
+/**
+ * Collab Folder guest roles, weakest first. The server enforces them on every guest route;
+ * the portal only uses them to hide controls a guest can't use. The host is always 'owner'.
+ */
+
+export const COLLAB_ROLES = ['viewer', 'contributor', 'editor', 'co-owner'] as const;
+
+export type CollabGuestRole = typeof COLLAB_ROLES[number];
+export type CollabRole = CollabGuestRole | 'owner';
+
+export const DEFAULT_COLLAB_ROLE: CollabGuestRole = 'contributor';
+
+export const COLLAB_ROLE_LABELS: Record<CollabRole, string> = {
+    viewer: 'Viewer',
+    contributor: 'Contributor',
+    editor: 'Editor',
+    'co-owner': 'Co-owner',
+    owner: 'Owner'
+};
+
+export const COLLAB_ROLE_DESCRIPTIONS: Record<CollabGuestRole, string> = {
+    viewer: 'Can view and download',
+    contributor: 'Can also upload and create folders',
+    editor: 'Can also rename and delete',
+    'co-owner': "Can also change other members' roles"
+};
+
+export const hasCollabRole = (role: CollabRole | null | undefined, required: CollabGuestRole): boolean =>
+    role === 'owner' || (!!role && COLLAB_ROLES.indexOf(role) >= COLLAB_ROLES.indexOf(required));
@@ -0,0 +1,48 @@
+/**
+ * Allowed-type rules for Drop Zones. A zone stores a list of category names and/or
+ * extensions (e.g. ['image', '.pdf']); the server never sees names or MIME types, so the
+ * guest page checks files against the list before encrypting them.
+ */
+
+export const DROP_ZONE_TYPE_CATEGORIES = {
+    image: { label: 'Images', mimePrefixes: ['image/'], extensions: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.heic', '.svg'] },
+    video: { label: 'Videos', mimePrefixes: ['video/'], extensions: ['.mp4', '.mov', '.mkv', '.webm', '.avi'] },
+    audio: { label: 'Audio', mimePrefixes: ['audio/'], extensions: ['.mp3', '.wav', '.flac', '.m4a', '.ogg'] },
+    document: {
+        label: 'Documents',
+        mimePrefixes: ['text/', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument', 'application/vnd.oasis.opendocument'],
+        extensions: ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.odt', '.ods', '.txt', '.csv', '.md', '.rtf']
+    },
+    archive: {
+        label: 'Archives',
+        mimePrefixes: ['application/zip', 'application/x-7z-compressed', 'application/x-tar', 'application/gzip', 'application/x-rar-compressed'],
+        extensions: ['.zip', '.7z', '.tar', '.gz', '.rar']
+    }
+} as const;
+
+export type DropZoneTypeCategory = keyof typeof DROP_ZONE_TYPE_CATEGORIES;
+
+const isCategory = (entry: string): entry is DropZoneTypeCategory => entry in DROP_ZONE_TYPE_CATEGORIES;
+
+const extensionOf = (filename: string) => {
+    const dot = filename.lastIndexOf('.');
+    return dot > 0 ? filename.slice(dot).toLowerCase() : '';
+};
+
+/** True if the file matches one of the allowed entries. No list (or an empty one) allows everything. */
+export const isAllowedDropZoneType = (file: { name: string; type: string }, allowed: string[] | null | undefined): boolean => {
+    if (!allowed || allowed.length === 0) return true;
+    const extension = extensionOf(file.name);
+    const mime = file.type.toLowerCase();
+
+    return allowed.some(entry => {
+        if (!isCategory(entry)) return entry === extension;
+        const category = DROP_ZONE_TYPE_CATEGORIES[entry];
+        return (category.extensions as readonly string[]).includes(extension)
+            || (!!mime && category.mimePrefixes.some(prefix => mime.startsWith(prefix)));
+    });
+};
+
+/** Human-readable summary, e.g. "Images, Documents, .psd" */
+export const describeDropZoneTypes = (allowed: string[]): string =>
+    allowed.map(entry => (isCategory(entry) ? DROP_ZONE_TYPE_CATEGORIES[entry].label : entry)).join(', ');
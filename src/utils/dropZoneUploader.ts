@@ -0,0 +1,34 @@
+/**
+ * Uploader details form for Drop Zones. The owner picks which fields to ask for; the guest's
+ * answers are sealed to the zone's public key as one JSON object per submission, so only the
+ * owner can read them.
+ */
+
+export const UPLOADER_FIELD_LABELS = {
+    name: 'Name',
+    email: 'Email',
+    note: 'Message'
+} as const;
+
+export type UploaderField = keyof typeof UPLOADER_FIELD_LABELS;
+export type UploaderFieldMode = 'required' | 'optional';
+export type UploaderFields = Partial<Record<UploaderField, UploaderFieldMode>>;
+export type UploaderInfo = Partial<Record<UploaderField, string>>;
+
+export const UPLOADER_FIELD_KEYS = Object.keys(UPLOADER_FIELD_LABELS) as UploaderField[];
+
+/** Labels of required fields the guest left blank */
+export const missingUploaderFields = (fields: UploaderFields | null, info: UploaderInfo): string[] =>
+    UPLOADER_FIELD_KEYS
+        .filter(field => fields?.[field] === 'required' && !info[field]?.trim())
+        .map(field => UPLOADER_FIELD_LABELS[field]);
+
+/** Trimmed answers for the requested fields only, or null when nothing was filled in */
+export const collectUploaderInfo = (fields: UploaderFields | null, info: UploaderInfo): UploaderInfo | null => {
+    const collected: UploaderInfo = {};
+    for (const field of UPLOADER_FIELD_KEYS) {
+        const value = info[field]?.trim();
+        if (fields?.[field] && value) collected[field] = value;
+    }
+    return Object.keys(collected).length ? collected : null;
+};
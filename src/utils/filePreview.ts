@@ -0,0 +1,210 @@
+import { init, fromBase64, decryptFolderKey, decryptFileKey, decryptFile } from '@lazybird-inc/nest-crypto';
+import api from '../lib/api';
+import { StreamingDownloader, type ChunkAuthOptions, type DownloadChunk } from './StreamingDownloader';
+
+/**
+ * In-browser previews
+ *
+ * The file is decrypted in memory and handed to the browser as a blob URL; nothing is written
+ * to disk. Chunked files are fetched through the same chunk endpoints as downloads. Files over
+ * PREVIEW_MAX_BYTES aren't previewed, except videos the browser can play through a MediaSource,
+ * which are streamed chunk by chunk instead. Everything else falls back to a download.
+ */
+
+export type PreviewKind = 'image' | 'pdf' | 'video' | 'audio' | 'markdown' | 'text';
+
+export const PREVIEW_MAX_BYTES = 100 * 1024 * 1024;
+// Text is rendered into the DOM, so the limit is much lower
+export const TEXT_PREVIEW_MAX_BYTES = 5 * 1024 * 1024;
+
+/** Chunked files are decrypted with their per-chunk headers; legacy single-blob files decrypt themselves. */
+export type PreviewSource =
+    | { fileKey: Uint8Array; chunks: DownloadChunk[]; auth: ChunkAuthOptions }
+    | { decrypt: () => Promise<Uint8Array> };
+
+export interface PreviewTarget {
+    name: string;
+    mimeType: string;
+    size: number;
+    /** Fetches the keys; called when the preview opens */
+    resolve: () => Promise<PreviewSource>;
+    onDownload?: () => void;
+}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp', 'image/svg+xml'];
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/x-yaml', 'application/x-sh'];
+
+// Uploads from some browsers have no MIME type; the extension decides then
+const TYPES_BY_EXTENSION: Record<string, string> = {
+    png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+    bmp: 'image/bmp', svg: 'image/svg+xml', pdf: 'application/pdf', mp4: 'video/mp4', m4v: 'video/mp4', webm: 'video/webm',
+    mov: 'video/quicktime', mp3: 'audio/mpeg', m4a: 'audio/mp4', wav: 'audio/wav', ogg: 'audio/ogg', flac: 'audio/flac',
+    md: 'text/markdown', markdown: 'text/markdown', txt: 'text/plain', log: 'text/plain', csv: 'text/csv', json: 'application/json',
+    xml: 'application/xml', yml: 'application/x-yaml', yaml: 'application/x-yaml', js: 'text/javascript', ts: 'text/plain',
+    tsx: 'text/plain', jsx: 'text/plain', py: 'text/plain', sh: 'application/x-sh', css: 'text/css', html: 'text/plain'
+};
+
+/** The MIME type to preview with; HTML is shown as source, never rendered. */
+export const previewMimeType = (mimeType: string | undefined, name: string): string => {
+    const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    const type = (!mimeType || mimeType === 'application/octet-stream') ? TYPES_BY_EXTENSION[extension] : mimeType;
+    if (!type) return 'application/octet-stream';
+    return type === 'text/html' ? 'text/plain' : type;
+};
+
+export const getPreviewKind = (mimeType: string | undefined, name: string): PreviewKind | null => {
+    const type = previewMimeType(mimeType, name);
+    if (IMAGE_TYPES.includes(type)) return 'image';
+    if (type === 'application/pdf') return 'pdf';
+    if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+    if (type.startsWith('text/') || TEXT_TYPES.includes(type)) return 'text';
+    if (type.startsWith('video/') || type.startsWith('audio/')) {
+        const element = document.createElement(type.startsWith('video/') ? 'video' : 'audio');
+        if (element.canPlayType(type) === '') return null;
+        return type.startsWith('video/') ? 'video' : 'audio';
+    }
+    return null;
+};
+
+/** Size limit for a kind of preview; videos above it may still stream (see canStreamVideo). */
+export const previewSizeLimit = (kind: PreviewKind) =>
+    kind === 'text' || kind === 'markdown' ? TEXT_PREVIEW_MAX_BYTES : PREVIEW_MAX_BYTES;
+
+export const toDownloadChunks = (chunks: any[]): DownloadChunk[] => chunks.map(c => ({
+    index: c.index,
+    size: c.size,
+    nonce: c.nonce,
+    jackal_merkle: c.jackal_merkle,
+    status: (c.jackal_merkle && c.jackal_merkle !== 'pending' && c.jackal_merkle !== 'pending-chunks') ? 'cloud' : 'local'
+}));
+
+/** Preview source for a file in the user's own Nest (keys wrapped by its folder key). */
+export const ownerPreviewSource = async (fileId: number, masterKey: Uint8Array, version?: number): Promise<PreviewSource> => {
+    await init();
+    const versionQuery = version ? `?version=${version}` : '';
+    const { data } = await api.get(`/files/download/${fileId}${versionQuery}`);
+
+    const folderKey = decryptFolderKey(fromBase64(data.folder_key_encrypted), fromBase64(data.folder_key_nonce), masterKey);
+    const fileKey = decryptFileKey(fromBase64(data.file_key_encrypted), fromBase64(data.file_key_nonce), folderKey);
+
+    if (data.chunks?.length > 0) {
+        return {
+            fileKey,
+            chunks: toDownloadChunks(data.chunks),
+            auth: { fileId, authToken: localStorage.getItem('nest_token') || undefined, isGatewayVerified: data.is_gateway_verified, version }
+        };
+    }
+    return {
+        decrypt: async () => {
+            const raw = await api.get(`/files/raw/${fileId}${versionQuery}`, { responseType: 'blob' });
+            return decryptFile(raw.data, fromBase64(data.file_key_nonce), fileKey);
+        }
+    };
+};
+
+const abortError = () => new DOMException('Preview closed', 'AbortError');
+
+/** Decrypts the whole file into a Blob, refusing to hold more than `maxBytes`. */
+export const decryptToBlob = async (
+    source: PreviewSource,
+    mimeType: string,
+    maxBytes: number,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    if ('decrypt' in source) {
+        const bytes = await source.decrypt();
+        if (signal?.aborted) throw abortError();
+        if (bytes.length > maxBytes) throw new Error('File is too large to preview');
+        return new Blob([bytes as unknown as BlobPart], { type: mimeType });
+    }
+
+    const total = source.chunks.reduce((acc, c) => acc + c.size, 0);
+    if (total > maxBytes) throw new Error('File is too large to preview');
+
+    const parts: Uint8Array[] = [];
+    let loaded = 0;
+    for (const chunk of source.chunks) {
+        const reader = (await StreamingDownloader.openChunk(chunk, { ...source.auth, fileKey: source.fileKey })).getReader();
+        for (;;) {
+            if (signal?.aborted) {
+                await reader.cancel();
+                throw abortError();
+            }
+            const { done, value } = await reader.read();
+            if (done) break;
+            parts.push(value);
+            loaded += value.length;
+            onProgress?.(Math.min(100, (loaded / total) * 100));
+        }
+    }
+    return new Blob(parts as unknown as BlobPart[], { type: mimeType });
+};
+
+export const canStreamVideo = (source: PreviewSource, mimeType: string) =>
+    'chunks' in source && typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(mimeType);
+
+const nextEvent = (target: EventTarget, type: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const failed = () => { cleanup(); reject(new Error('The browser could not play this video')); };
+    const aborted = () => { cleanup(); reject(abortError()); };
+    const cleanup = () => {
+        target.removeEventListener(type, done);
+        target.removeEventListener('error', failed);
+        signal?.removeEventListener('abort', aborted);
+    };
+    target.addEventListener(type, done);
+    target.addEventListener('error', failed);
+    signal?.addEventListener('abort', aborted);
+});
+
+/**
+ * Streams a chunked video into `video` through a MediaSource, decrypting one chunk at a time.
+ * Only fragmented MP4/WebM can be fed this way; anything else rejects and the caller offers a
+ * download. When the buffer is full, already-played media is dropped and playback is awaited.
+ */
+export const streamVideo = async (
+    video: HTMLVideoElement,
+    source: Extract<PreviewSource, { chunks: DownloadChunk[] }>,
+    mimeType: string,
+    signal?: AbortSignal
+): Promise<void> => {
+    const mediaSource = new MediaSource();
+    const url = URL.createObjectURL(mediaSource);
+    video.src = url;
+    await nextEvent(mediaSource, 'sourceopen', signal);
+    URL.revokeObjectURL(url);
+
+    const buffer = mediaSource.addSourceBuffer(mimeType);
+    const append = async (data: Uint8Array) => {
+        for (;;) {
+            try {
+                buffer.appendBuffer(data as Uint8Array<ArrayBuffer>);
+                await nextEvent(buffer, 'updateend', signal);
+                return;
+            } catch (err: any) {
+                if (err?.name !== 'QuotaExceededError') throw err;
+                const played = video.currentTime - 10;
+                if (played > 0) {
+                    buffer.remove(0, played);
+                    await nextEvent(buffer, 'updateend', signal);
+                }
+                await nextEvent(video, 'timeupdate', signal);
+            }
+        }
+    };
+
+    for (const chunk of source.chunks) {
+        const reader = (await StreamingDownloader.openChunk(chunk, { ...source.auth, fileKey: source.fileKey })).getReader();
+        for (;;) {
+            if (signal?.aborted) {
+                await reader.cancel();
+                throw abortError();
+            }
+            const { done, value } = await reader.read();
+            if (done) break;
+            await append(value);
+        }
+    }
+    if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+};
@@ -0,0 +1,26 @@
+import { decryptFileKey, encryptFileKey, fromBase64, toBase64 } from '@lazybird-inc/nest-crypto';
+import { filesAPI } from '../api/files';
+
+/**
+ * Archived versions keep their own wrapped file key, so moving a file to another
+ * folder must re-wrap those too. Returns the payload for filesAPI.move's versionKeys.
+ */
+export const rewrapVersionKeys = async (
+    fileId: number,
+    fromFolderKey: Uint8Array,
+    toFolderKey: Uint8Array
+): Promise<{ version: number; fileKeyEncrypted: string; fileKeyNonce: string }[]> => {
+    const { versions } = await filesAPI.getVersions(fileId);
+
+    return versions
+        .filter(v => !v.is_current)
+        .map(v => {
+            const fileKey = decryptFileKey(fromBase64(v.file_key_encrypted), fromBase64(v.file_key_nonce), fromFolderKey);
+            const rewrapped = encryptFileKey(fileKey, toFolderKey);
+            return {
+                version: v.version,
+                fileKeyEncrypted: toBase64(rewrapped.encrypted),
+                fileKeyNonce: toBase64(rewrapped.nonce)
+            };
+        });
+};
@@ -0,0 +1,91 @@
+/**
+ * Folder uploads
+ *
+ * Turns a dropped or picked directory into a flat list of files, each with the folders it sits
+ * in, plus every directory seen, so the tree (empty folders included) can be recreated, parents
+ * first, before the files are queued.
+ */
+
+export interface FolderUploadFile {
+    file: File;
+    /** Folder names from the upload target down to the file; empty for files dropped loosely */
+    dirs: string[];
+}
+
+export interface FolderUpload {
+    files: FolderUploadFile[];
+    /** Directories found while reading, as paths ("a", "a/b"); includes empty ones */
+    folders: string[];
+}
+
+/**
+ * Files from an `<input webkitdirectory>`; their relative path starts with the picked folder.
+ * Browsers leave empty directories out of the input, so only a drop can bring those along.
+ */
+export const filesFromDirectoryInput = (files: FileList | File[]): FolderUpload => ({
+    files: Array.from(files).map(file => ({
+        file,
+        dirs: (file.webkitRelativePath || file.name).split('/').slice(0, -1)
+    })),
+    folders: []
+});
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries hands out at most ~100 entries per call; an empty batch means done
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+};
+
+const walkEntry = async (entry: FileSystemEntry, dirs: string[], out: FolderUpload): Promise<void> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        out.files.push({ file, dirs });
+        return;
+    }
+    if (entry.isDirectory) {
+        const path = [...dirs, entry.name];
+        out.folders.push(path.join('/'));
+        const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+        for (const child of children) {
+            await walkEntry(child, path, out);
+        }
+    }
+};
+
+/**
+ * Files from a drop, walking into dropped directories. Must be called from inside the drop
+ * handler: the browser empties the DataTransfer once the event returns, so the entries are
+ * taken synchronously and only read afterwards.
+ */
+export const filesFromDataTransfer = (dataTransfer: DataTransfer): Promise<FolderUpload> => {
+    const entries = Array.from(dataTransfer.items ?? [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.() ?? null);
+
+    // No entries API: plain files only
+    if (entries.length === 0 || entries.some(entry => entry === null)) {
+        return Promise.resolve({ files: Array.from(dataTransfer.files).map(file => ({ file, dirs: [] })), folders: [] });
+    }
+
+    return (async () => {
+        const out: FolderUpload = { files: [], folders: [] };
+        for (const entry of entries) {
+            await walkEntry(entry!, [], out);
+        }
+        return out;
+    })();
+};
+
+/** Every folder path the upload needs, parents before children ("a", "a/b", ...). */
+export const folderPaths = ({ files, folders }: FolderUpload): string[] => {
+    const paths = new Set<string>(folders);
+    files.forEach(({ dirs }) => {
+        dirs.forEach((_, i) => paths.add(dirs.slice(0, i + 1).join('/')));
+    });
+    return [...paths].sort((a, b) => a.split('/').length - b.split('/').length);
+};
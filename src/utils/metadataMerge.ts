@@ -0,0 +1,150 @@
+import type { MetadataBlob } from '@lazybird-inc/nest-crypto';
+
+/**
+ * Three-way merge of the decrypted MetadataBlob (protocol spec §7.5).
+ *
+ * Runs on the client when `POST /auth/metadata` answers 409: `base` is the blob the local edit
+ * started from, `ours` the local edit, `theirs` the blob now on the server. Entries in `files`
+ * and `folders` merge per id and per field; deletions are recorded as tombstones so a concurrent
+ * writer can't resurrect them. Pure and order-stable so other clients can reproduce it from the
+ * vectors in `docs/test-vectors.json`.
+ */
+
+type Entry = Record<string, unknown>;
+type Blob = Record<string, unknown>;
+type Section = 'files' | 'folders';
+
+export type MetadataTombstones = Record<Section, Record<string, string>>;
+
+const SECTIONS: Section[] = ['files', 'folders'];
+
+// Tombstones only need to outlive the stalest client still holding an older base
+export const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const sameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return aKeys.length === bKeys.length
+        && aKeys.every(k => Object.prototype.hasOwnProperty.call(b, k)
+            && sameValue((a as Entry)[k], (b as Entry)[k]));
+};
+
+// Plain three-way pick for one value; `undefined` means absent. Conflicts go to `ours`, the later writer.
+const pick = (base: unknown, ours: unknown, theirs: unknown) => {
+    if (sameValue(ours, base)) return theirs;
+    return ours;
+};
+
+const sortedUnion = (...objects: (object | undefined)[]) =>
+    [...new Set(objects.flatMap(o => (o ? Object.keys(o) : [])))].sort();
+
+const mergeEntry = (base: Entry | undefined, ours: Entry, theirs: Entry): Entry => {
+    const merged: Entry = {};
+    for (const key of sortedUnion(base, ours, theirs)) {
+        const value = pick(base?.[key], ours[key], theirs[key]);
+        if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+};
+
+const tombstonesOf = (blob: Blob | null | undefined): MetadataTombstones => {
+    const raw = (blob?.tombstones ?? {}) as Partial<MetadataTombstones>;
+    return { files: raw.files ?? {}, folders: raw.folders ?? {} };
+};
+
+// An id is in exactly one state: absent, a live entry, or a tombstone (the deletion time)
+type EntryState = { entry: Entry } | { deletedAt: string } | undefined;
+
+const stateOf = (blob: Blob | null | undefined, section: Section, id: string): EntryState => {
+    const entry = (blob?.[section] as Record<string, Entry> | undefined)?.[id];
+    if (entry) return { entry };
+    const deletedAt = tombstonesOf(blob)[section][id];
+    return deletedAt ? { deletedAt } : undefined;
+};
+
+const mergeState = (base: EntryState, ours: EntryState, theirs: EntryState): EntryState => {
+    if (sameValue(ours, theirs) || sameValue(theirs, base)) return ours;
+    if (sameValue(ours, base)) return theirs;
+
+    // Both sides changed the same id
+    if (ours && theirs && 'entry' in ours && 'entry' in theirs) {
+        return { entry: mergeEntry(base && 'entry' in base ? base.entry : undefined, ours.entry, theirs.entry) };
+    }
+    // A delete beats a concurrent edit; of two deletes keep the earlier time
+    if (ours && 'deletedAt' in ours && theirs && 'deletedAt' in theirs) {
+        return ours.deletedAt <= theirs.deletedAt ? ours : theirs;
+    }
+    if (ours && 'deletedAt' in ours) return ours;
+    if (theirs && 'deletedAt' in theirs) return theirs;
+    return ours ?? theirs;
+};
+
+/** Merges a local edit with the server's blob. `base` may be null when the starting point is unknown. */
+export const mergeMetadata = (base: MetadataBlob | null, ours: MetadataBlob, theirs: MetadataBlob): MetadataBlob => {
+    const b = base as unknown as Blob | null;
+    const o = ours as unknown as Blob;
+    const t = theirs as unknown as Blob;
+    const merged: Blob = {};
+
+    // Unknown top-level keys are merged as opaque values
+    for (const key of sortedUnion(b ?? undefined, o, t)) {
+        if (key === 'tombstones' || (SECTIONS as string[]).includes(key)) continue;
+        const value = key === 'v'
+            ? Math.max(Number(o.v) || 0, Number(t.v) || 0)
+            : pick(b?.[key], o[key], t[key]);
+        if (value !== undefined) merged[key] = value;
+    }
+
+    const tombstones: MetadataTombstones = { files: {}, folders: {} };
+    for (const section of SECTIONS) {
+        const entries: Record<string, Entry> = {};
+        const ids = sortedUnion(
+            b?.[section] as object, o[section] as object, t[section] as object,
+            tombstonesOf(b)[section], tombstonesOf(o)[section], tombstonesOf(t)[section]
+        );
+        for (const id of ids) {
+            const state = mergeState(stateOf(b, section, id), stateOf(o, section, id), stateOf(t, section, id));
+            if (state && 'entry' in state) entries[id] = state.entry;
+            else if (state) tombstones[section][id] = state.deletedAt;
+        }
+        merged[section] = entries;
+    }
+
+    if (Object.keys(tombstones.files).length || Object.keys(tombstones.folders).length) {
+        merged.tombstones = tombstones;
+    }
+    return merged as unknown as MetadataBlob;
+};
+
+/**
+ * Records what a local edit removed relative to `base` as tombstones, clears tombstones for ids
+ * that were added back and drops ones older than the TTL. Call before saving `next`.
+ */
+export const stampDeletions = (base: MetadataBlob | null, next: MetadataBlob, now = new Date()): MetadataBlob => {
+    const b = base as unknown as Blob | null;
+    const n = next as unknown as Blob;
+    const tombstones = tombstonesOf(n);
+    const cutoff = new Date(now.getTime() - TOMBSTONE_TTL_MS).toISOString();
+    const stamped: MetadataTombstones = { files: {}, folders: {} };
+
+    for (const section of SECTIONS) {
+        const live = (n[section] ?? {}) as Record<string, Entry>;
+        for (const [id, deletedAt] of Object.entries(tombstones[section])) {
+            if (!live[id] && deletedAt >= cutoff) stamped[section][id] = deletedAt;
+        }
+        for (const id of Object.keys((b?.[section] ?? {}) as object)) {
+            if (!live[id] && !stamped[section][id]) stamped[section][id] = now.toISOString();
+        }
+    }
+
+    const rest = { ...n };
+    delete rest.tombstones;
+    if (!Object.keys(stamped.files).length && !Object.keys(stamped.folders).length) {
+        return rest as unknown as MetadataBlob;
+    }
+    return { ...rest, tombstones: stamped } as unknown as MetadataBlob;
+};
@@ -0,0 +1,127 @@
+import { init, toBase64, fromBase64, encryptWithMasterKey, decryptWithMasterKey } from '@lazybird-inc/nest-crypto';
+import type { MetadataBlob } from '@lazybird-inc/nest-crypto';
+import type { EncryptedMetadataRecord, MetadataChange, MetadataItemType } from '../api/auth';
+import { sameValue } from './metadataMerge';
+
+/**
+ * Per-item metadata records (protocol spec §7.6)
+ *
+ * Format 2 stores each `files`/`folders` entry as its own record: `{ type, id, value }` encrypted
+ * with the master key. Every other top-level key (`v` and anything unknown) travels in one `root`
+ * record with id 0. Type and id are inside the ciphertext so the server can't serve one item's
+ * record under another's row. The app still works on a whole MetadataBlob in memory; these helpers convert
+ * between the two and work out which records a save actually touched.
+ */
+
+type Entry = Record<string, unknown>;
+
+interface PlainRecord {
+    type: MetadataItemType;
+    id: number;
+    value: Entry;
+}
+
+export interface RecordDiff {
+    upserts: PlainRecord[];
+    deletes: { type: MetadataItemType; id: number }[];
+}
+
+const ROOT_ID = 0;
+const SECTIONS = { file: 'files', folder: 'folders' } as const;
+// Not part of the root record: the sections are records themselves and deletions are server-side tombstones
+const NON_ROOT_KEYS = new Set(['files', 'folders', 'tombstones']);
+
+const emptyMetadata = (): MetadataBlob => ({ v: 2, folders: {}, files: {} });
+
+const recordKey = (type: MetadataItemType, id: number) => `${type}:${id}`;
+
+export const toRecords = (meta: MetadataBlob): PlainRecord[] => {
+    const blob = meta as unknown as Entry;
+    const root: Entry = {};
+    for (const [key, value] of Object.entries(blob)) {
+        if (!NON_ROOT_KEYS.has(key)) root[key] = value;
+    }
+
+    const records: PlainRecord[] = [{ type: 'root', id: ROOT_ID, value: root }];
+    for (const [type, section] of Object.entries(SECTIONS) as [MetadataItemType, string][]) {
+        for (const [key, value] of Object.entries((blob[section] ?? {}) as Record<string, Entry>)) {
+            const id = Number(key);
+            if (!Number.isInteger(id) || id <= 0 || !value) {
+                console.warn(`[METADATA] Skipping ${section} entry with non-numeric id "${key}"`);
+                continue;
+            }
+            records.push({ type, id, value });
+        }
+    }
+    return records;
+};
+
+/** Records that differ between `base` and `next`. With no base, everything is an upsert. */
+export const diffRecords = (base: MetadataBlob | null, next: MetadataBlob): RecordDiff => {
+    const before = new Map((base ? toRecords(base) : []).map(r => [recordKey(r.type, r.id), r]));
+    const upserts: PlainRecord[] = [];
+
+    for (const record of toRecords(next)) {
+        const key = recordKey(record.type, record.id);
+        if (!sameValue(before.get(key)?.value, record.value)) upserts.push(record);
+        before.delete(key);
+    }
+
+    const deletes = [...before.values()].map(({ type, id }) => ({ type, id }));
+    return { upserts, deletes };
+};
+
+export const encryptRecords = async (records: PlainRecord[], masterKey: Uint8Array): Promise<EncryptedMetadataRecord[]> => {
+    await init();
+    return records.map(({ type, id, value }) => {
+        const { encrypted, nonce } = encryptWithMasterKey(JSON.stringify({ type, id, value }), masterKey);
+        return { type, id, encryptedRecord: toBase64(encrypted), nonce: toBase64(nonce) };
+    });
+};
+
+type PlainChange = PlainRecord | { type: MetadataItemType; id: number; deleted: true };
+
+const applyPlain = (meta: MetadataBlob | null, changes: PlainChange[]): MetadataBlob => {
+    const source = (meta ?? emptyMetadata()) as unknown as Entry;
+    const next: Entry = {
+        ...source,
+        files: { ...(source.files as object) },
+        folders: { ...(source.folders as object) }
+    };
+
+    for (const change of changes) {
+        if (change.type === 'root') {
+            if ('deleted' in change) continue;
+            for (const key of Object.keys(next)) {
+                if (!NON_ROOT_KEYS.has(key)) delete next[key];
+            }
+            Object.assign(next, change.value);
+            continue;
+        }
+
+        const section = next[SECTIONS[change.type]] as Record<string, Entry>;
+        if ('deleted' in change) delete section[String(change.id)];
+        else section[String(change.id)] = change.value;
+    }
+    delete next.tombstones;
+    return next as unknown as MetadataBlob;
+};
+
+/** Applies a local diff to `meta`, giving the tree the server now holds when nobody else wrote in between. */
+export const applyRecordDiff = (meta: MetadataBlob, diff: RecordDiff): MetadataBlob =>
+    applyPlain(meta, [...diff.upserts, ...diff.deletes.map(d => ({ ...d, deleted: true as const }))]);
+
+/** Decrypts a change feed page and applies it on top of `meta` (null = start from empty). */
+export const applyChanges = async (meta: MetadataBlob | null, changes: MetadataChange[], masterKey: Uint8Array): Promise<MetadataBlob> => {
+    await init();
+    const decoder = new TextDecoder();
+    return applyPlain(meta, changes.map(change => {
+        if ('deleted' in change) return change;
+        const plain = decryptWithMasterKey(fromBase64(change.encryptedRecord), fromBase64(change.nonce), masterKey);
+        const record = JSON.parse(decoder.decode(plain)) as PlainRecord;
+        if (record.type !== change.type || record.id !== change.id) {
+            throw new Error(`Metadata record ${recordKey(change.type, change.id)} holds ${recordKey(record.type, record.id)}`);
+        }
+        return { type: change.type, id: change.id, value: record.value };
+    }));
+};
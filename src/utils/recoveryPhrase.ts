@@ -0,0 +1,52 @@
+import { generateMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+
+/**
+ * Recovery phrase
+ *
+ * A 24-word BIP39 mnemonic (256 bits of entropy). The entropy is stretched with HKDF into a
+ * recovery wrapping key, and the master key wrapped under it is stored server-side in
+ * user_crypto. On password reset the client fetches that envelope and unwraps it with the
+ * phrase; the server never sees the phrase or the unwrapped key.
+ */
+
+export const RECOVERY_PHRASE_WORDS = 24;
+
+const HKDF_INFO = new TextEncoder().encode('nest-recovery-wrapping-key-v1');
+
+export const generateRecoveryPhrase = (): string[] =>
+    generateMnemonic(wordlist, 256).split(' ');
+
+/** Lowercases and collapses whitespace so pasted or hand-typed phrases compare equal. */
+export const normalizeRecoveryPhrase = (input: string) =>
+    input.trim().toLowerCase().split(/\s+/).filter(Boolean).join(' ');
+
+/** True when the input is a full phrase with a valid BIP39 checksum. */
+export const isRecoveryPhrase = (input: string) => {
+    const phrase = normalizeRecoveryPhrase(input);
+    return phrase.split(' ').length === RECOVERY_PHRASE_WORDS && validateMnemonic(phrase, wordlist);
+};
+
+export const deriveRecoveryKey = async (words: string[] | string): Promise<Uint8Array> => {
+    const phrase = normalizeRecoveryPhrase(Array.isArray(words) ? words.join(' ') : words);
+    const entropy = mnemonicToEntropy(phrase, wordlist);
+
+    const ikm = await window.crypto.subtle.importKey('raw', entropy as BufferSource, 'HKDF', false, ['deriveBits']);
+    const bits = await window.crypto.subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: HKDF_INFO },
+        ikm,
+        256
+    );
+    return new Uint8Array(bits);
+};
+
+/** Distinct, sorted word positions (0-based) the user is asked to re-enter. */
+export const pickCheckPositions = (count = 3): number[] => {
+    const positions = new Set<number>();
+    const random = new Uint32Array(1);
+    while (positions.size < count) {
+        window.crypto.getRandomValues(random);
+        positions.add(random[0] % RECOVERY_PHRASE_WORDS);
+    }
+    return [...positions].sort((a, b) => a - b);
+};
@@ -0,0 +1,238 @@
+/**
+ * Client-side search over the decrypted MetadataBlob.
+ *
+ * Names only exist in plaintext inside the browser, so the index is built and queried
+ * here; the server only ever sees the file ids of the matches (via `filesAPI.queryFiles`).
+ *
+ * Query syntax: free-text terms are fuzzy-matched against names (then folder paths),
+ * and filters narrow the result set:
+ *   type:pdf        extension, MIME type, or group (image, video, audio, document, archive, text, folder, file)
+ *   in:/Projects    anything inside that folder path (use quotes for spaces: in:"/My Projects")
+ * Repeating a filter ORs its values; terms and different filters are ANDed.
+ */
+
+export interface SearchEntry {
+    kind: 'file' | 'folder';
+    id: number;
+    name: string;
+    extension: string;
+    mimeType: string;
+    /** Folder the entry lives in (null = vault root) */
+    folderId: number | null;
+    /** Display path of the containing folder, e.g. "/Projects/2026" */
+    path: string;
+    /** Lower-cased name and path, precomputed for matching */
+    nameKey: string;
+    pathKey: string;
+}
+
+export interface ParsedQuery {
+    terms: string[];
+    types: string[];
+    paths: string[];
+}
+
+export interface SearchResult {
+    entry: SearchEntry;
+    score: number;
+}
+
+interface IndexSource {
+    folders: Record<string, { name: string }>;
+    files: Record<string, { filename: string; mime_type: string; folder_id: string | number | null }>;
+}
+
+// Groups accepted by `type:`; anything else is compared to the extension and MIME subtype
+const TYPE_GROUPS: Record<string, (e: SearchEntry) => boolean> = {
+    folder: e => e.kind === 'folder',
+    file: e => e.kind === 'file',
+    image: e => e.mimeType.startsWith('image/'),
+    video: e => e.mimeType.startsWith('video/'),
+    audio: e => e.mimeType.startsWith('audio/'),
+    text: e => e.mimeType.startsWith('text/'),
+    archive: e => /zip|tar|rar|7z|gzip|archive|compressed/.test(e.mimeType) || ['zip', 'tar', 'gz', 'rar', '7z'].includes(e.extension),
+    document: e => e.mimeType === 'application/pdf' || /msword|wordprocessing|spreadsheet|presentation|ms-excel|ms-powerpoint|opendocument/.test(e.mimeType)
+        || ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'odp', 'rtf', 'txt', 'md'].includes(e.extension),
+};
+
+// Per-term floor: substring hits always pass, scattered subsequences need some contiguity
+const MIN_TERM_SCORE = 25;
+
+const getExtension = (name: string): string => {
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const normalizePath = (path: string): string => {
+    const trimmed = path.trim().replace(/\/+$/, '').toLowerCase();
+    if (!trimmed) return '/';
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+};
+
+/**
+ * Builds the index from the metadata blob plus the folder hierarchy (`parents`: folder id ->
+ * parent id, from `foldersAPI.list`). The primary root is shown as "/" rather than by name.
+ * The metadata keeps entries for files in the trash, so their ids (`trashed`) are left out.
+ */
+export function buildSearchIndex(
+    metadata: IndexSource,
+    parents: Map<number, number | null>,
+    rootId: number | null,
+    trashed: Set<number> = new Set()
+): SearchEntry[] {
+    const pathCache = new Map<number, string>();
+
+    const folderPath = (id: number | null): string => {
+        if (id === null || id === rootId) return '/';
+        const cached = pathCache.get(id);
+        if (cached !== undefined) return cached;
+
+        const segments: string[] = [];
+        const seen = new Set<number>();
+        let current: number | null | undefined = id;
+        while (current !== null && current !== undefined && current !== rootId && !seen.has(current)) {
+            seen.add(current);
+            segments.unshift(metadata.folders[current.toString()]?.name || `Folder ${current}`);
+            current = parents.get(current);
+        }
+        const path = `/${segments.join('/')}`;
+        pathCache.set(id, path);
+        return path;
+    };
+
+    const entries: SearchEntry[] = [];
+
+    Object.entries(metadata.folders).forEach(([key, meta]) => {
+        const id = Number(key);
+        // Folders the server no longer lists are deleted (or not ours); keep them out of results
+        if (id === rootId || !parents.has(id) || !meta?.name) return;
+        const parentId = parents.get(id) ?? null;
+        const path = folderPath(parentId);
+        entries.push({
+            kind: 'folder',
+            id,
+            name: meta.name,
+            extension: '',
+            mimeType: '',
+            folderId: parentId,
+            path,
+            nameKey: meta.name.toLowerCase(),
+            pathKey: path.toLowerCase(),
+        });
+    });
+
+    Object.entries(metadata.files).forEach(([key, meta]) => {
+        if (!meta?.filename || trashed.has(Number(key))) return;
+        const folderId = meta.folder_id ? Number(meta.folder_id) : null;
+        const path = folderPath(folderId);
+        entries.push({
+            kind: 'file',
+            id: Number(key),
+            name: meta.filename,
+            extension: getExtension(meta.filename),
+            mimeType: (meta.mime_type || '').toLowerCase(),
+            folderId,
+            path,
+            nameKey: meta.filename.toLowerCase(),
+            pathKey: path.toLowerCase(),
+        });
+    });
+
+    return entries;
+}
+
+/** Splits a raw query into free-text terms and `type:` / `in:` filters. */
+export function parseSearchQuery(query: string): ParsedQuery {
+    const parsed: ParsedQuery = { terms: [], types: [], paths: [] };
+    const tokenPattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+    for (const match of query.matchAll(tokenPattern)) {
+        const key = (match[1] || match[3])?.toLowerCase();
+        const value = match[2] ?? match[4];
+
+        if (key === 'type' && value) {
+            parsed.types.push(value.toLowerCase().replace(/^\./, ''));
+        } else if (key === 'in' && value) {
+            parsed.paths.push(normalizePath(value));
+        } else {
+            const term = (match[5] ?? match[0]).trim().toLowerCase();
+            if (term) parsed.terms.push(term);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Scores `term` against `text` (both lower-cased). Contiguous matches beat scattered ones,
+ * and matches at the start of the text or of a word score highest. Returns 0 for no match.
+ */
+export function fuzzyScore(term: string, text: string): number {
+    if (!term) return 1;
+    if (!text) return 0;
+
+    const index = text.indexOf(term);
+    if (index !== -1) {
+        if (index === 0) return term.length === text.length ? 100 : 90;
+        return /[\s._\-/()]/.test(text[index - 1]) ? 80 : 60;
+    }
+
+    // Subsequence match, penalised by the gaps between matched characters
+    let score = 0;
+    let last = -1;
+    for (const ch of term) {
+        const pos = text.indexOf(ch, last + 1);
+        if (pos === -1) return 0;
+        score += pos === last + 1 ? 3 : 1;
+        last = pos;
+    }
+    return Math.min(50, (score / (term.length * 3)) * 50);
+}
+
+const matchesType = (entry: SearchEntry, type: string): boolean => {
+    const group = TYPE_GROUPS[type];
+    if (group) return group(entry);
+    if (entry.kind === 'folder') return false;
+    return entry.extension === type
+        || entry.mimeType === type
+        || entry.mimeType.split('/')[1] === type;
+};
+
+const matchesPath = (entry: SearchEntry, path: string): boolean => {
+    if (path === '/') return true;
+    const own = entry.kind === 'folder' ? `${entry.pathKey.replace(/\/$/, '')}/${entry.nameKey}` : entry.pathKey;
+    // Folder filters include the folder's descendants but not the folder itself
+    if (entry.kind === 'folder' && own === path) return false;
+    return own === path || own.startsWith(`${path}/`);
+};
+
+/** Runs a query against the index, best matches first. */
+export function searchEntries(index: SearchEntry[], query: string | ParsedQuery, limit?: number): SearchResult[] {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    if (parsed.terms.length === 0 && parsed.types.length === 0 && parsed.paths.length === 0) return [];
+
+    const results: SearchResult[] = [];
+
+    for (const entry of index) {
+        if (parsed.types.length > 0 && !parsed.types.some(t => matchesType(entry, t))) continue;
+        if (parsed.paths.length > 0 && !parsed.paths.some(p => matchesPath(entry, p))) continue;
+
+        let score = 0;
+        let matched = true;
+        for (const term of parsed.terms) {
+            // A hit in the folder path counts, but well below a hit in the name
+            const termScore = Math.max(fuzzyScore(term, entry.nameKey), fuzzyScore(term, entry.pathKey) * 0.4);
+            if (termScore < MIN_TERM_SCORE) {
+                matched = false;
+                break;
+            }
+            score += termScore;
+        }
+        if (!matched) continue;
+
+        results.push({ entry, score: parsed.terms.length > 0 ? score / parsed.terms.length : 1 });
+    }
+
+    results.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+    return limit ? results.slice(0, limit) : results;
+}
@@ -0,0 +1,69 @@
+/**
+ * Shamir secret sharing over GF(2^8), byte by byte.
+ *
+ * A share is `[x, ...y]`: the x-coordinate (1-255) followed by one polynomial value per secret
+ * byte. Any `threshold` distinct shares reconstruct the secret; fewer reveal nothing about it.
+ */
+
+// Log/exp tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+    EXP[i] = EXP[i + 255] = x;
+    LOG[x] = i;
+    x ^= ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+const mul = (a: number, b: number) => (a && b ? EXP[LOG[a] + LOG[b]] : 0);
+const div = (a: number, b: number) => (a ? EXP[LOG[a] + 255 - LOG[b]] : 0);
+
+export const splitSecret = (secret: Uint8Array, shareCount: number, threshold: number): Uint8Array[] => {
+    if (threshold < 2 || threshold > shareCount || shareCount > 255) {
+        throw new Error('Invalid Shamir parameters');
+    }
+
+    const shares = Array.from({ length: shareCount }, (_, i) => {
+        const share = new Uint8Array(secret.length + 1);
+        share[0] = i + 1;
+        return share;
+    });
+
+    const coefficients = new Uint8Array(threshold);
+    secret.forEach((byte, pos) => {
+        coefficients[0] = byte;
+        window.crypto.getRandomValues(coefficients.subarray(1));
+
+        for (const share of shares) {
+            // Horner's rule from the highest coefficient down
+            let y = 0;
+            for (let c = threshold - 1; c >= 0; c--) y = mul(y, share[0]) ^ coefficients[c];
+            share[pos + 1] = y;
+        }
+    });
+    coefficients.fill(0);
+
+    return shares;
+};
+
+export const combineShares = (shares: Uint8Array[]): Uint8Array => {
+    const xs = shares.map(s => s[0]);
+    if (shares.length < 2 || new Set(xs).size !== xs.length || xs.includes(0)) {
+        throw new Error('Shares must be distinct and non-empty');
+    }
+
+    const length = shares[0].length - 1;
+    const secret = new Uint8Array(length);
+    for (let pos = 0; pos < length; pos++) {
+        // Lagrange interpolation at x = 0; subtraction is XOR in GF(2^8)
+        let value = 0;
+        shares.forEach((share, i) => {
+            let basis = 1;
+            xs.forEach((xj, j) => {
+                if (i !== j) basis = mul(basis, div(xj, xj ^ xs[i]));
+            });
+            value ^= mul(share[pos + 1], basis);
+        });
+        secret[pos] = value;
+    }
+    return secret;
+};
@@ -6,6 +6,8 @@ import api from '../lib/api';
  */
 export interface ShareUrlItem {
     id: number;
+    /** Standard links: the shared file (`id` is the link itself) */
+    file_id?: number;
     token: string;
     custom_slug: string | null;
     name?: string;
@@ -23,7 +25,8 @@ type MetadataLike = { files: Record<string, { filename?: string; mime_type?: str
  * the in-session master key. This is the single source of truth for that
  * derivation — call it from every such surface so they can never diverge again.
  * (Drop zones carry no secret in the URL; collab links use a `#lk` linkKey that
- * is not stored server-side and must be regenerated, so neither uses this.)
+ * is not stored server-side and must be regenerated, so neither uses this.
+ * Folder links have their own derivation below.)
  *
  * @throws if the vault is locked or the file keys can't be fetched/decrypted.
  */
@@ -37,15 +40,41 @@ export async function deriveStandardLinkUrl(
     const { decryptFolderKey, decryptFileKey, toBase64, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
     await init();
 
-    const { data } = await api.get(`/files/download/${item.id}`);
+    const fileId = item.file_id ?? item.id;
+    const { data } = await api.get(`/files/download/${fileId}`);
     const folderKey = decryptFolderKey(fromBase64(data.folder_key_encrypted), fromBase64(data.folder_key_nonce), masterKey);
     const fileKey = decryptFileKey(fromBase64(data.file_key_encrypted), fromBase64(data.file_key_nonce), folderKey);
 
-    const filename = metadata?.files[item.id.toString()]?.filename || item.name || 'file';
-    const mimeType = metadata?.files[item.id.toString()]?.mime_type || 'application/octet-stream';
+    const filename = metadata?.files[fileId.toString()]?.filename || item.name || 'file';
+    const mimeType = metadata?.files[fileId.toString()]?.mime_type || 'application/octet-stream';
 
     return `${window.location.origin}/s/${item.custom_slug || item.token}` +
         `#key=${encodeURIComponent(toBase64(fileKey))}` +
         `&name=${encodeURIComponent(filename)}` +
         `&mime=${encodeURIComponent(mimeType)}`;
 }
+
+/** Folder link URL for a raw link key: `/s/f/<token>#lk=<base64url>`. */
+export function buildFolderLinkUrl(token: string, linkKeyBase64: string): string {
+    const linkKeyBase64url = linkKeyBase64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return `${window.location.origin}/s/f/${token}#lk=${linkKeyBase64url}`;
+}
+
+/**
+ * Re-derive a folder link URL. The link key is kept server-side only wrapped with
+ * the owner's master key, so this needs an unlocked vault.
+ *
+ * @throws if the vault is locked or the link key can't be decrypted.
+ */
+export async function deriveFolderLinkUrl(
+    item: { token: string; host_link_key_encrypted: string; host_link_key_nonce: string },
+    masterKey: Uint8Array | null,
+): Promise<string> {
+    if (!masterKey) throw new Error('Vault is locked — master key unavailable');
+
+    const { decryptWithMasterKey, toBase64, fromBase64, init } = await import('@lazybird-inc/nest-crypto');
+    await init();
+
+    const linkKey = decryptWithMasterKey(fromBase64(item.host_link_key_encrypted), fromBase64(item.host_link_key_nonce), masterKey);
+    return buildFolderLinkUrl(item.token, toBase64(linkKey));
+}
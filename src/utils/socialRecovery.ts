@@ -0,0 +1,116 @@
+import sodium from 'libsodium-wrappers';
+import {
+    init,
+    toBase64,
+    fromBase64,
+    generateMasterKey,
+    encryptMasterKey,
+    decryptMasterKey,
+    encryptWithMasterKey,
+    decryptWithMasterKey
+} from '@lazybird-inc/nest-crypto';
+import { socialRecoveryAPI } from '../api/socialRecovery';
+import type { RecoveryRequestStatus, TrusteeRecoveryRequest } from '../api/socialRecovery';
+import { splitSecret, combineShares } from './shamir';
+
+/**
+ * Trusted-contact recovery (client side)
+ *
+ * Every account gets an X25519 keypair; the private half is wrapped by the master key. Setting
+ * up recovery wraps the master key under a fresh random key, splits that key k-of-n and seals
+ * one share to each trustee's public key. Trustees approve by re-sealing their share to the
+ * requester's one-time public key, so shares are only ever readable in the browsers involved.
+ */
+
+const ready = async () => {
+    await init();
+    await sodium.ready;
+};
+
+export interface AccountKeys {
+    publicKey: Uint8Array;
+    privateKey: Uint8Array;
+}
+
+/** Loads this account's keypair, creating it on first use. */
+export const ensureAccountKeyPair = async (masterKey: Uint8Array): Promise<AccountKeys> => {
+    await ready();
+
+    let { keyPair } = await socialRecoveryAPI.getKeyPair();
+    if (!keyPair) {
+        const generated = sodium.crypto_box_keypair();
+        const wrapped = encryptWithMasterKey(generated.privateKey as Uint8Array, masterKey);
+        // The server keeps an existing pair (another tab may have won the race); use what it returns
+        ({ keyPair } = await socialRecoveryAPI.saveKeyPair({
+            publicKey: toBase64(generated.publicKey as Uint8Array),
+            encryptedPrivateKey: toBase64(wrapped.encrypted),
+            privateKeyNonce: toBase64(wrapped.nonce)
+        }));
+    }
+
+    return {
+        publicKey: fromBase64(keyPair.publicKey),
+        privateKey: decryptWithMasterKey(fromBase64(keyPair.encryptedPrivateKey), fromBase64(keyPair.privateKeyNonce), masterKey)
+    };
+};
+
+export const generateRequestKeyPair = async (): Promise<AccountKeys> => {
+    await ready();
+    const { publicKey, privateKey } = sodium.crypto_box_keypair();
+    return { publicKey: publicKey as Uint8Array, privateKey: privateKey as Uint8Array };
+};
+
+/** Short code both sides compare out of band, so a trustee can tell the request is really from the owner. */
+export const verificationCode = async (requestPublicKey: string) => {
+    const digest = new Uint8Array(await window.crypto.subtle.digest('SHA-256', fromBase64(requestPublicKey) as BufferSource));
+    const hex = Array.from(digest.slice(0, 4), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+};
+
+/** Splits a new recovery key across the given trustees and stores the sealed shares. */
+export const setUpSocialRecovery = async (masterKey: Uint8Array, emails: string[], threshold: number) => {
+    await ready();
+    const { trustees } = await socialRecoveryAPI.lookupTrustees(emails);
+
+    const recoveryKey = generateMasterKey();
+    const envelope = encryptMasterKey(masterKey, recoveryKey);
+    const shares = splitSecret(recoveryKey, trustees.length, threshold);
+    recoveryKey.fill(0);
+
+    return socialRecoveryAPI.save({
+        threshold,
+        encryptedMasterKey: toBase64(envelope.encrypted),
+        encryptedMasterKeyNonce: toBase64(envelope.nonce),
+        shares: trustees.map((trustee, i) => ({
+            trusteeUserId: trustee.userId,
+            shareIndex: shares[i][0],
+            encryptedShare: toBase64(sodium.crypto_box_seal(shares[i], fromBase64(trustee.publicKey)) as Uint8Array)
+        }))
+    });
+};
+
+/** Opens this trustee's share and re-seals it to the requester's one-time key. */
+export const approveRecoveryRequest = async (masterKey: Uint8Array, request: TrusteeRecoveryRequest) => {
+    const keys = await ensureAccountKeyPair(masterKey);
+    const share = sodium.crypto_box_seal_open(fromBase64(request.encryptedShare), keys.publicKey, keys.privateKey) as Uint8Array;
+    const resealed = sodium.crypto_box_seal(share, fromBase64(request.requestPublicKey));
+    share.fill(0);
+
+    await socialRecoveryAPI.approve(request.id, toBase64(resealed as Uint8Array));
+};
+
+/** Combines the approved shares and unwraps the master key. Throws if they don't add up. */
+export const recoverMasterKey = async (status: RecoveryRequestStatus, requestKeys: AccountKeys): Promise<Uint8Array> => {
+    await ready();
+    if (!status.envelope || status.shares.length < status.threshold) {
+        throw new Error('Not enough trusted contacts have approved yet');
+    }
+
+    const shares = status.shares.map(s => sodium.crypto_box_seal_open(fromBase64(s), requestKeys.publicKey, requestKeys.privateKey) as Uint8Array);
+    const recoveryKey = combineShares(shares.slice(0, status.threshold));
+    try {
+        return decryptMasterKey(fromBase64(status.envelope.encryptedMasterKey), fromBase64(status.envelope.encryptedMasterKeyNonce), recoveryKey);
+    } finally {
+        recoveryKey.fill(0);
+    }
+};
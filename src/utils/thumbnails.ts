@@ -0,0 +1,199 @@
+import { init, toBase64, fromBase64, encryptWithMasterKey, decryptWithMasterKey, decryptFolderKey, decryptFileKey } from '@lazybird-inc/nest-crypto';
+import { filesAPI, type EncryptedThumbnail } from '../api/files';
+import { previewMimeType } from './filePreview';
+
+/**
+ * Encrypted thumbnails
+ *
+ * While uploading, the browser draws a small JPEG of an image, of a video one second in, or of
+ * a PDF's first page, seals it with the file key and stores it next to the file. Listings fetch
+ * and open them lazily.
+ */
+
+const THUMBNAIL_SIZE = 256;
+// Leaves room for the encryption overhead under the server's 64KB cap
+const MAX_THUMBNAIL_BYTES = 60 * 1024;
+// Decoding a huge image (or loading a huge PDF) just to shrink it isn't worth the memory
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+const VIDEO_FRAME_TIMEOUT_MS = 10_000;
+
+const THUMBNAIL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp'];
+
+const toJpeg = async (source: CanvasImageSource, width: number, height: number): Promise<Uint8Array | null> => {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    // JPEG has no alpha; transparent images would otherwise turn black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    for (const quality of [0.8, 0.6, 0.4]) {
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+        if (blob && blob.size <= MAX_THUMBNAIL_BYTES) return new Uint8Array(await blob.arrayBuffer());
+    }
+    return null;
+};
+
+const videoFrame = (url: string) => new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    const timer = setTimeout(() => reject(new Error('Timed out reading video frame')), VIDEO_FRAME_TIMEOUT_MS);
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => { video.currentTime = Math.min(1, video.duration / 2 || 0); };
+    video.onseeked = () => { clearTimeout(timer); resolve(video); };
+    video.onerror = () => { clearTimeout(timer); reject(new Error('The browser could not decode this video')); };
+    video.src = url;
+});
+
+// pdf.js is only loaded once a PDF is uploaded
+const pdfFirstPage = async (file: File): Promise<Uint8Array | null> => {
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), isEvalSupported: false }).promise;
+    try {
+        const page = await pdf.getPage(1);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: THUMBNAIL_SIZE / Math.max(width, height) });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.ceil(viewport.width));
+        canvas.height = Math.max(1, Math.ceil(viewport.height));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        return await toJpeg(canvas, canvas.width, canvas.height);
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+const renderThumbnail = async (file: File): Promise<Uint8Array | null> => {
+    const type = previewMimeType(file.type, file.name);
+
+    if (THUMBNAIL_IMAGE_TYPES.includes(type)) {
+        if (file.size > MAX_IMAGE_BYTES) return null;
+        const bitmap = await createImageBitmap(file);
+        try {
+            return await toJpeg(bitmap, bitmap.width, bitmap.height);
+        } finally {
+            bitmap.close();
+        }
+    }
+
+    if (type.startsWith('video/')) {
+        const url = URL.createObjectURL(file);
+        try {
+            const video = await videoFrame(url);
+            return await toJpeg(video, video.videoWidth, video.videoHeight);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    if (type === 'application/pdf') {
+        return file.size > MAX_PDF_BYTES ? null : pdfFirstPage(file);
+    }
+
+    return null;
+};
+
+/** Renders a JPEG thumbnail of an image, video or PDF from the plaintext file; null when none can be made. */
+export const generateThumbnail = (file: File): Promise<Uint8Array | null> =>
+    renderThumbnail(file).catch((err) => {
+        console.warn('[THUMBNAIL] Could not render thumbnail:', err.message);
+        return null;
+    });
+
+// Decrypted thumbnails as object URLs, kept for the session so scrolling back doesn't refetch
+const loaded = new Map<string, Promise<string | null>>();
+
+const ownerCacheKey = (fileId: number) => `file:${fileId}`;
+const collabCacheKey = (collabToken: string, fileId: number) => `collab:${collabToken}:${fileId}`;
+
+/**
+ * Seals a thumbnail from generateThumbnail with the file key and stores it for a file that has
+ * just been uploaded. Best effort: a file without one just shows its icon, so failures are only logged.
+ */
+export const attachThumbnail = async (
+    thumbnail: Promise<Uint8Array | null>,
+    fileKey: Uint8Array,
+    target: { fileId: number; collabToken?: string; sessionToken?: string }
+): Promise<void> => {
+    try {
+        const bytes = await thumbnail;
+        if (!bytes) return;
+
+        await init();
+        const { encrypted, nonce } = encryptWithMasterKey(bytes, fileKey);
+        if (target.collabToken) {
+            await filesAPI.saveCollabThumbnail(target.collabToken, target.fileId, toBase64(encrypted), toBase64(nonce), target.sessionToken);
+            loaded.delete(collabCacheKey(target.collabToken, target.fileId));
+        } else {
+            await filesAPI.saveThumbnail(target.fileId, toBase64(encrypted), toBase64(nonce));
+            loaded.delete(ownerCacheKey(target.fileId));
+        }
+    } catch (err: any) {
+        console.warn('[THUMBNAIL] Could not attach thumbnail:', err.response?.data?.error || err.message);
+    }
+};
+
+/** Resolves to an object URL for the decrypted thumbnail, or null when it can't be shown. */
+export type ThumbnailLoader = () => Promise<string | null>;
+
+const loadOnce = (cacheKey: string, fetch: () => Promise<EncryptedThumbnail>, unwrapFileKey: (t: EncryptedThumbnail) => Uint8Array): Promise<string | null> => {
+    const existing = loaded.get(cacheKey);
+    if (existing) return existing;
+
+    const promise = (async () => {
+        await init();
+        const t = await fetch();
+        const bytes = decryptWithMasterKey(fromBase64(t.thumbnail), fromBase64(t.nonce), unwrapFileKey(t));
+        return URL.createObjectURL(new Blob([bytes as unknown as BlobPart], { type: 'image/jpeg' }));
+    })().catch((err) => {
+        // Forget failures so the next render can try again
+        loaded.delete(cacheKey);
+        console.warn('[THUMBNAIL] Could not load thumbnail:', err.response?.data?.error || err.message);
+        return null;
+    });
+    loaded.set(cacheKey, promise);
+    return promise;
+};
+
+interface ThumbnailFile {
+    id: number;
+    has_thumbnail?: boolean;
+    file_origin?: string | null;
+    folder_id?: number | null;
+}
+
+/**
+ * Thumbnail of a file in the user's own Nest, or undefined when it has none we can open.
+ * Collaborator uploads have their file key wrapped by the collab key rather than the folder
+ * key, so they need that folder's entry in `hostCollabKeys`.
+ */
+export const ownerThumbnailLoader = (file: ThumbnailFile, masterKey: Uint8Array, hostCollabKeys: Record<number, Uint8Array> = {}): ThumbnailLoader | undefined => {
+    if (!file.has_thumbnail) return undefined;
+    const collabKey = file.file_origin === 'collab' && file.folder_id ? hostCollabKeys[file.folder_id] : undefined;
+    if (file.file_origin === 'collab' && !collabKey) return undefined;
+
+    return () => loadOnce(ownerCacheKey(file.id), () => filesAPI.getThumbnail(file.id), (t) => {
+        const wrappingKey = collabKey ?? decryptFolderKey(fromBase64(t.folder_key_encrypted!), fromBase64(t.folder_key_nonce!), masterKey);
+        return decryptFileKey(fromBase64(t.file_key_encrypted), fromBase64(t.file_key_nonce), wrappingKey);
+    });
+};
+
+/** Thumbnail of a file inside a collab folder, opened with the collab key. */
+export const collabThumbnailLoader = (collabToken: string, file: ThumbnailFile, collabKey: Uint8Array, sessionToken?: string): ThumbnailLoader | undefined => {
+    if (!file.has_thumbnail) return undefined;
+    return () => loadOnce(collabCacheKey(collabToken, file.id), () => filesAPI.getCollabThumbnail(collabToken, file.id, sessionToken),
+        (t) => decryptFileKey(fromBase64(t.file_key_encrypted), fromBase64(t.file_key_nonce), collabKey));
+};
@@ -0,0 +1,59 @@
+/**
+ * Pending chunked uploads, persisted in IndexedDB so they survive a reload or crash.
+ * Only plaintext-free bookkeeping lives here: the file key stays wrapped on the server
+ * and is fetched again through filesAPI.getUploadStatus when the upload resumes.
+ */
+
+export interface PendingUploadSession {
+    fileId: number; // Backend file id (primary key)
+    owner: string; // Account email, so sessions aren't offered to another user on this browser
+    filename: string;
+    size: number;
+    lastModified: number;
+    folderId: number;
+    totalChunks: number;
+    createdAt: string;
+}
+
+const DB_NAME = 'nest-uploads';
+const STORE = 'sessions';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'fileId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const saveUploadSession = (session: PendingUploadSession): Promise<void> =>
+    withStore<IDBValidKey>('readwrite', store => store.put(session)).then(() => undefined);
+
+export const deleteUploadSession = (fileId: number): Promise<void> =>
+    withStore<undefined>('readwrite', store => store.delete(fileId));
+
+export const listUploadSessions = async (owner: string): Promise<PendingUploadSession[]> => {
+    const sessions = await withStore<PendingUploadSession[]>('readonly', store => store.getAll());
+    return sessions.filter(s => s.owner === owner);
+};
+
+// Best-effort check that a re-selected file is the one the stored chunks came from
+export const matchesUploadSession = (file: File, session: Pick<PendingUploadSession, 'filename' | 'size' | 'lastModified'>): boolean =>
+    file.name === session.filename && file.size === session.size && file.lastModified === session.lastModified;
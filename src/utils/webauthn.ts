@@ -0,0 +1,63 @@
+import type {
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    TwoFactorAnswer
+} from '../api/auth';
+
+/**
+ * Browser half of passkey 2FA. The server sends WebAuthn options with binary fields as
+ * base64url; these helpers turn them into the ArrayBuffers navigator.credentials expects
+ * and encode the authenticator's response back the same way.
+ */
+
+const toBase64Url = (buffer: ArrayBuffer) => {
+    let binary = '';
+    for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+export const isWebAuthnSupported = () =>
+    typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+
+export async function createPasskey(options: PublicKeyCredentialCreationOptionsJSON) {
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            ...options,
+            challenge: fromBase64Url(options.challenge),
+            user: { ...options.user, id: fromBase64Url(options.user.id) },
+            excludeCredentials: options.excludeCredentials.map(c => ({ ...c, id: fromBase64Url(c.id) })),
+        }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error('Passkey creation was cancelled');
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    return {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        attestationObject: toBase64Url(response.attestationObject),
+        transports: response.getTransports?.() ?? [],
+    };
+}
+
+export async function getPasskeyAssertion(options: PublicKeyCredentialRequestOptionsJSON): Promise<TwoFactorAnswer['assertion']> {
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            ...options,
+            challenge: fromBase64Url(options.challenge),
+            allowCredentials: options.allowCredentials.map(c => ({ ...c, id: fromBase64Url(c.id) })),
+        }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error('Passkey sign-in was cancelled');
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+        id: toBase64Url(credential.rawId),
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        authenticatorData: toBase64Url(response.authenticatorData),
+        signature: toBase64Url(response.signature),
+    };
+}
@@ -9,7 +9,7 @@ import topLevelAwait from 'vite-plugin-top-level-await'
 // public/_headers. The Report-Only policy is the stricter trial (script-src without
 // 'unsafe-inline'); violations log to the DevTools console but block nothing.
 const REPORT_ONLY_CSP =
-  "default-src 'self'; script-src 'self' 'wasm-unsafe-eval'; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' data: https://fonts.gstatic.com; img-src 'self' data: blob:; connect-src 'self' https://*.lazybird.io wss://*.lazybird.io http://localhost:* ws://localhost:*; base-uri 'self'; object-src 'none'; form-action 'self'; frame-ancestors 'self';"
+  "default-src 'self'; script-src 'self' 'wasm-unsafe-eval'; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' data: https://fonts.gstatic.com; img-src 'self' data: blob:; media-src 'self' blob:; frame-src 'self' blob:; connect-src 'self' https://*.lazybird.io wss://*.lazybird.io http://localhost:* ws://localhost:*; base-uri 'self'; object-src 'none'; form-action 'self'; frame-ancestors 'self';"
 
 const setSecurityHeaders = (res: { setHeader: (k: string, v: string) => void }) => {
   res.setHeader('X-Content-Type-Options', 'nosniff')